@@ -0,0 +1,102 @@
+import { readFile } from 'fs/promises';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+
+const prisma = new PrismaClient();
+
+/**
+ * 배당 공시 CSV 적재
+ *
+ * 사용법: pnpm db:import:dividend <file.csv>
+ *
+ * 헤더: code,exDate,recordDate,payDate,amount,currency
+ * - 날짜는 YYYY-MM-DD (KST), recordDate/payDate/currency는 빈 값 허용
+ * - (종목, 배당락일)이 같은 행은 덮어씀
+ */
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toKstDate = (value: string): Date => new Date(`${value}T00:00:00+09:00`);
+
+const optionalDate = z
+  .string()
+  .trim()
+  .refine((value) => value === '' || DATE_PATTERN.test(value), 'Date must be YYYY-MM-DD')
+  .transform((value) => (value === '' ? null : toKstDate(value)));
+
+const DividendRowSchema = z.object({
+  code: z.string().trim().min(1, 'code is required'),
+  exDate: z.string().trim().regex(DATE_PATTERN, 'exDate must be YYYY-MM-DD').transform(toKstDate),
+  recordDate: optionalDate,
+  payDate: optionalDate,
+  amount: z.coerce.number().positive('amount must be positive'),
+  currency: z
+    .string()
+    .trim()
+    .transform((value) => value.toUpperCase())
+    .optional(),
+});
+
+async function main() {
+  const file = process.argv[2];
+  if (!file) {
+    throw new Error('Usage: pnpm db:import:dividend <file.csv>');
+  }
+
+  console.log(`배당 공시 적재 시작: ${file}`);
+  const lines = (await readFile(file, 'utf-8'))
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  const [header, ...body] = lines;
+  const columns = header.replace(/^\uFEFF/, '').split(',').map((column) => column.trim());
+
+  // 전체 행 검증 후 적재 (오류가 있으면 아무것도 적재하지 않음)
+  const rows = body.map((line, index) => {
+    const values = line.split(',');
+    const record = Object.fromEntries(columns.map((column, i) => [column, values[i] ?? '']));
+    const parsed = DividendRowSchema.safeParse(record);
+    if (!parsed.success) {
+      throw new Error(`Line ${index + 2}: ${parsed.error.issues.map((issue) => issue.message).join(', ')}`);
+    }
+    return parsed.data;
+  });
+
+  const stocks = await prisma.stock.findMany({
+    where: { code: { in: [...new Set(rows.map((row) => row.code))] } },
+  });
+  const stockMap = new Map(stocks.map((s) => [s.code, s]));
+  const missing = [...new Set(rows.filter((row) => !stockMap.has(row.code)).map((row) => row.code))];
+  if (missing.length > 0) {
+    throw new Error(`Unknown stock codes: ${missing.join(', ')}`);
+  }
+
+  await prisma.$transaction(
+    rows.map((row) => {
+      const stock = stockMap.get(row.code)!;
+      const data = {
+        recordDate: row.recordDate,
+        payDate: row.payDate,
+        amount: row.amount,
+        currency: row.currency || stock.currency,
+        source: 'import',
+      };
+      return prisma.dividend.upsert({
+        where: { stockId_exDate: { stockId: stock.id, exDate: row.exDate } },
+        create: { stockId: stock.id, exDate: row.exDate, ...data },
+        update: data,
+      });
+    })
+  );
+
+  console.log(`✅ 배당 공시 ${rows.length}건 적재 완료`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ 에러 발생:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,108 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * 배당 일정 데이터 생성 (배당 수령 내역/예상 배당 달력용)
+ * - Dividend (주요 배당주 최근 3년 + 30일 이내 배당락 예정분)
+ *
+ * 실제 공시가 아닌 대표 주당 배당금으로 만든 고정 일정이므로 실행할 때마다 같은 값이 생성됨
+ * 실제 공시 데이터는 `pnpm db:import:dividend <file.csv>`로 적재
+ */
+
+// 기준일 월(1~12)별 주당 배당금
+const DIVIDEND_SCHEDULES: Array<{ code: string; amounts: Record<number, number> }> = [
+  { code: '005930', amounts: { 3: 361, 6: 361, 9: 361, 12: 361 } }, // 삼성전자
+  { code: '000660', amounts: { 3: 375, 6: 375, 9: 375, 12: 375 } }, // SK하이닉스
+  { code: '005380', amounts: { 3: 2500, 6: 2500, 9: 2500, 12: 2500 } }, // 현대차
+  { code: '000270', amounts: { 12: 6500 } }, // 기아
+  { code: '105560', amounts: { 3: 795, 6: 795, 9: 795, 12: 795 } }, // KB금융
+  { code: '055550', amounts: { 3: 540, 6: 540, 9: 540, 12: 540 } }, // 신한지주
+  { code: '086790', amounts: { 3: 900, 6: 900, 9: 900, 12: 900 } }, // 하나금융지주
+  { code: '316140', amounts: { 3: 200, 6: 200, 9: 200, 12: 200 } }, // 우리금융지주
+  { code: '024110', amounts: { 12: 1065 } }, // 기업은행
+  { code: '003550', amounts: { 6: 1000, 12: 2100 } }, // LG
+  { code: '012330', amounts: { 6: 1500, 12: 3000 } }, // 현대모비스
+  { code: '035420', amounts: { 12: 1130 } }, // NAVER
+  { code: '051910', amounts: { 12: 3500 } }, // LG화학
+  { code: '034730', amounts: { 6: 1000, 12: 5000 } }, // SK
+  { code: '161390', amounts: { 12: 1500 } }, // 한국타이어앤테크놀로지
+];
+
+// 기준일 → 지급일 (결산배당은 정기주총 이후 4월, 분기/중간배당은 약 7주 후)
+const PAY_LAG_DAYS = { annual: 110, interim: 50 };
+const UPCOMING_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toKstDate = (year: number, month: number, day: number): Date =>
+  new Date(`${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}T00:00:00+09:00`);
+
+const isWeekend = (date: Date): boolean => {
+  const weekday = new Date(date.getTime() + 9 * 60 * 60 * 1000).getUTCDay();
+  return weekday === 0 || weekday === 6;
+};
+
+// 직전 영업일 (주말만 고려)
+const previousBusinessDay = (date: Date): Date => {
+  let day = new Date(date.getTime() - DAY_MS);
+  while (isWeekend(day)) day = new Date(day.getTime() - DAY_MS);
+  return day;
+};
+
+async function main() {
+  console.log('배당 일정 데이터 생성 시작...');
+
+  const now = new Date();
+  const codes = DIVIDEND_SCHEDULES.map((s) => s.code);
+  const stocks = await prisma.stock.findMany({ where: { code: { in: codes } } });
+  const stockMap = new Map(stocks.map((s) => [s.code, s]));
+
+  for (const schedule of DIVIDEND_SCHEDULES) {
+    const stock = stockMap.get(schedule.code);
+    if (!stock) {
+      console.log(`⚠️  종목 ${schedule.code}이(가) 없어 건너뜁니다.`);
+      continue;
+    }
+
+    // 기존 배당 데이터 삭제
+    await prisma.dividend.deleteMany({ where: { stockId: stock.id } });
+
+    const data = [];
+    for (let year = now.getFullYear() - 3; year <= now.getFullYear(); year++) {
+      for (const [month, amount] of Object.entries(schedule.amounts).map(([m, a]) => [Number(m), a])) {
+        // 기준일: 분기 말일 (주말이면 직전 영업일), 배당락일: 기준일 전 영업일
+        const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+        let recordDate = toKstDate(year, month, lastDay);
+        if (isWeekend(recordDate)) recordDate = previousBusinessDay(recordDate);
+        const exDate = previousBusinessDay(recordDate);
+        if (exDate.getTime() > now.getTime() + UPCOMING_DAYS * DAY_MS) continue;
+
+        const lag = month === 12 ? PAY_LAG_DAYS.annual : PAY_LAG_DAYS.interim;
+        data.push({
+          stockId: stock.id,
+          exDate,
+          recordDate,
+          payDate: new Date(recordDate.getTime() + lag * DAY_MS),
+          amount,
+          currency: stock.currency,
+          source: 'fixture',
+        });
+      }
+    }
+
+    // 일괄 생성
+    await prisma.dividend.createMany({ data });
+    console.log(`✅ ${stock.name} 배당 일정 ${data.length}개 생성 완료`);
+  }
+
+  console.log('✅ 배당 일정 데이터 생성 완료!');
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ 에러 발생:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,47 @@
+import { PrismaClient } from '@prisma/client';
+import { FX_PAIRS } from '../src/entities/FxRate';
+import { FixtureFxRateSource } from '../src/providers/FixtureFxRateSource';
+
+const prisma = new PrismaClient();
+
+/**
+ * 환율 데이터 생성 (해외 종목 원화 환산용)
+ * - FxRate (USDKRW 최근 3년 일별 기준율)
+ *
+ * 로컬 고정 환율(FixtureFxRateSource)을 사용하므로 실행할 때마다 같은 값이 생성됨
+ */
+async function main() {
+  console.log('환율 데이터 생성 시작...');
+
+  const source = new FixtureFxRateSource();
+  const to = new Date();
+  const from = new Date(to);
+  from.setFullYear(from.getFullYear() - 3);
+
+  for (const pair of FX_PAIRS) {
+    // 기존 환율 데이터 삭제
+    await prisma.fxRate.deleteMany({
+      where: { pair },
+    });
+
+    const bars = await source.fetchDailyRates(pair, from, to);
+
+    // 일괄 생성
+    await prisma.fxRate.createMany({
+      data: bars.map((bar) => ({ ...bar, source: source.name })),
+    });
+
+    console.log(`✅ ${pair} 환율 데이터 ${bars.length}개 생성 완료`);
+  }
+
+  console.log('✅ 환율 데이터 생성 완료!');
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ 에러 발생:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
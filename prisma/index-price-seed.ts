@@ -0,0 +1,47 @@
+import { PrismaClient } from '@prisma/client';
+import { MARKET_INDEX_CODES } from '../src/entities/IndexPrice';
+import { FixtureIndexPriceSource } from '../src/providers/FixtureIndexPriceSource';
+
+const prisma = new PrismaClient();
+
+/**
+ * 시장 지수 시세 데이터 생성 (벤치마크 비교용)
+ * - IndexPrice (KOSPI, KOSDAQ 최근 3년 일봉)
+ *
+ * 로컬 고정 시세(FixtureIndexPriceSource)를 사용하므로 실행할 때마다 같은 값이 생성됨
+ */
+async function main() {
+  console.log('시장 지수 시세 데이터 생성 시작...');
+
+  const source = new FixtureIndexPriceSource();
+  const to = new Date();
+  const from = new Date(to);
+  from.setFullYear(from.getFullYear() - 3);
+
+  for (const code of MARKET_INDEX_CODES) {
+    // 기존 지수 데이터 삭제
+    await prisma.indexPrice.deleteMany({
+      where: { code },
+    });
+
+    const bars = await source.fetchDailyPrices(code, from, to);
+
+    // 일괄 생성
+    await prisma.indexPrice.createMany({
+      data: bars.map((bar) => ({ ...bar, source: source.name })),
+    });
+
+    console.log(`✅ ${code} 지수 데이터 ${bars.length}개 생성 완료`);
+  }
+
+  console.log('✅ 시장 지수 시세 데이터 생성 완료!');
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ 에러 발생:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
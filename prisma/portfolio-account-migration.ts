@@ -0,0 +1,56 @@
+import { PrismaClient } from '@prisma/client';
+import { DEFAULT_ACCOUNT_NAME } from '../src/entities/PortfolioAccount';
+
+const prisma = new PrismaClient();
+
+/**
+ * 계좌 도입 이전 보유 내역 이관 (일회성)
+ *
+ * 사용법: pnpm db:migrate:portfolio-accounts
+ *
+ * 계좌 미지정(accountId null) 보유 종목/거래가 있는 사용자마다
+ * - 기본 계좌가 없으면 `기본 계좌`(brokerage)를 생성
+ * - 계좌 미지정 보유 종목/거래를 기본 계좌로 이관
+ * 이미 이관된 사용자는 대상이 없으므로 여러 번 실행해도 결과는 같음
+ */
+async function main() {
+  const [portfolioUsers, transactionUsers] = await Promise.all([
+    prisma.portfolio.findMany({ where: { accountId: null }, select: { userId: true }, distinct: ['userId'] }),
+    prisma.portfolioTransaction.findMany({ where: { accountId: null }, select: { userId: true }, distinct: ['userId'] }),
+  ]);
+  const userIds = [...new Set([...portfolioUsers, ...transactionUsers].map((row) => row.userId))];
+  console.log(`이관 대상 사용자: ${userIds.length}명`);
+
+  for (const userId of userIds) {
+    const result = await prisma.$transaction(async (tx) => {
+      const account =
+        (await tx.portfolioAccount.findFirst({ where: { userId, isDefault: true } })) ??
+        (await tx.portfolioAccount.create({
+          data: { userId, name: DEFAULT_ACCOUNT_NAME, type: 'brokerage', isDefault: true },
+        }));
+
+      const portfolios = await tx.portfolio.updateMany({
+        where: { userId, accountId: null },
+        data: { accountId: account.id },
+      });
+      const transactions = await tx.portfolioTransaction.updateMany({
+        where: { userId, accountId: null },
+        data: { accountId: account.id },
+      });
+      return { portfolios: portfolios.count, transactions: transactions.count };
+    });
+
+    console.log(`  ${userId}: 보유 종목 ${result.portfolios}건, 거래 ${result.transactions}건 이관`);
+  }
+
+  console.log('✅ 계좌 이관 완료');
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ 에러 발생:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
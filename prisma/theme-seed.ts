@@ -0,0 +1,64 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// 기본 테마 (이전 StockService의 하드코딩 카테고리)
+const DEFAULT_THEMES: { name: string; codes: string[] }[] = [
+  { name: '인기', codes: ['005930', '000660', '373220', '207940', '005380', '000270', '035420', '035720'] },
+  { name: '2차전지', codes: ['373220', '006400'] },
+  { name: 'IT/반도체', codes: ['005930', '000660'] },
+  { name: '바이오', codes: ['207940', '068270'] },
+  { name: '금융', codes: ['105560', '055550'] },
+  { name: '자동차', codes: ['005380', '000270'] },
+];
+
+/**
+ * 종목 테마 데이터 생성
+ * - StockTheme, StockThemeMember
+ *
+ * 종목(Stock)이 먼저 생성되어 있어야 함 (pnpm db:seed)
+ * 이미 있는 테마는 구성 종목만 기본값으로 다시 채움
+ */
+async function main() {
+  console.log('종목 테마 데이터 생성 시작...');
+
+  for (const [index, { name, codes }] of DEFAULT_THEMES.entries()) {
+    const stocks = await prisma.stock.findMany({
+      where: { code: { in: codes } },
+      select: { id: true, code: true },
+    });
+    const stockIdByCode = new Map(stocks.map((stock) => [stock.code, stock.id]));
+    const missing = codes.filter((code) => !stockIdByCode.has(code));
+    if (missing.length > 0) {
+      console.warn(`⚠️ ${name}: 종목 없음 (${missing.join(', ')})`);
+    }
+
+    const theme = await prisma.stockTheme.upsert({
+      where: { name },
+      create: { name, sortOrder: index },
+      update: {},
+    });
+
+    await prisma.$transaction([
+      prisma.stockThemeMember.deleteMany({ where: { themeId: theme.id } }),
+      prisma.stockThemeMember.createMany({
+        data: codes
+          .filter((code) => stockIdByCode.has(code))
+          .map((code, sortOrder) => ({ themeId: theme.id, stockId: stockIdByCode.get(code)!, sortOrder })),
+      }),
+    ]);
+
+    console.log(`✅ ${name} 테마 (${codes.length - missing.length}개 종목) 생성 완료`);
+  }
+
+  console.log('✅ 종목 테마 데이터 생성 완료!');
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ 에러 발생:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -40,7 +40,9 @@ async function main() {
   });
 
   // 기존 데이터 삭제
+  await prisma.portfolioTransaction.deleteMany({ where: { userId: user.id } });
   await prisma.portfolio.deleteMany({ where: { userId: user.id } });
+  await prisma.portfolioAccount.deleteMany({ where: { userId: user.id } });
   await prisma.favorite.deleteMany({ where: { userId: user.id } });
   await prisma.history.deleteMany({ where: { userId: user.id } });
   await prisma.newsUserActivity.deleteMany({ where: { userId: user.id } });
@@ -50,6 +52,14 @@ async function main() {
   // ============================================
   // Portfolio 데이터 생성 (5개)
   // ============================================
+  const account = await prisma.portfolioAccount.create({
+    data: {
+      userId: user.id,
+      name: '기본 계좌',
+      isDefault: true,
+    },
+  });
+
   const portfolioStocks = stocks.slice(0, 5);
   for (const stock of portfolioStocks) {
     const quantity = Math.floor(Math.random() * 10) + 1; // 1~10주
@@ -59,9 +69,22 @@ async function main() {
     const profit = currentValue - totalCost;
     const profitRate = totalCost > 0 ? (profit / totalCost) * 100 : 0;
 
+    // Portfolio 행은 거래 원장에서 파생되므로 개시 매수 거래도 함께 기록
+    await prisma.portfolioTransaction.create({
+      data: {
+        userId: user.id,
+        accountId: account.id,
+        stockId: stock.id,
+        type: 'buy',
+        quantity,
+        price: averagePrice,
+      },
+    });
+
     await prisma.portfolio.create({
       data: {
         userId: user.id,
+        accountId: account.id,
         stockId: stock.id,
         quantity,
         averagePrice,
@@ -0,0 +1,252 @@
+import { AlertFilter, IAlertRepository } from '../repositories/IAlertRepository';
+import { Alert, AlertChannel, AlertCrossState, AlertEvent, AlertType } from '../entities/Alert';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, Alert as AlertRecord, AlertEvent as AlertEventRecord } from '@prisma/client';
+
+const toEntity = (record: AlertRecord): Alert =>
+  new Alert(
+    record.id,
+    record.userId,
+    record.stockId,
+    record.type as AlertType,
+    record.threshold,
+    record.channels as AlertChannel[],
+    record.cooldownMinutes,
+    record.isActive,
+    record.memo,
+    record.lastState as AlertCrossState | null,
+    record.lastTriggeredAt,
+    record.createdAt,
+    record.updatedAt
+  );
+
+const toEventEntity = (record: AlertEventRecord): AlertEvent =>
+  new AlertEvent(
+    record.id,
+    record.alertId,
+    record.userId,
+    record.stockId,
+    record.type as AlertType,
+    record.title,
+    record.message,
+    (record.payload as Record<string, unknown> | null) ?? null,
+    record.dedupKey,
+    (record.deliveries as Record<string, string> | null) ?? null,
+    record.createdAt
+  );
+
+export class AlertRepositoryAdapter implements IAlertRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): AlertRepositoryAdapter {
+    return new AlertRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findAll(userId: string, filter: AlertFilter = {}): Promise<Alert[]> {
+    try {
+      const alerts = await this.client.alert.findMany({
+        where: {
+          userId,
+          ...(filter.stockId && { stockId: filter.stockId }),
+          ...(filter.isActive !== undefined && { isActive: filter.isActive }),
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return alerts.map(toEntity);
+    } catch (error) {
+      logger.error('AlertRepositoryAdapter.findAll error:', error);
+      throw new DatabaseError('Failed to fetch alerts from database');
+    }
+  }
+
+  async findById(id: string, userId?: string): Promise<Alert | null> {
+    try {
+      const alert = await this.client.alert.findFirst({
+        where: { id, ...(userId && { userId }) },
+      });
+
+      return alert ? toEntity(alert) : null;
+    } catch (error) {
+      logger.error('AlertRepositoryAdapter.findById error:', error);
+      throw new DatabaseError('Failed to fetch alert from database');
+    }
+  }
+
+  async countByUser(userId: string): Promise<number> {
+    try {
+      return await this.client.alert.count({ where: { userId } });
+    } catch (error) {
+      logger.error('AlertRepositoryAdapter.countByUser error:', error);
+      throw new DatabaseError('Failed to count alerts in database');
+    }
+  }
+
+  async findActive(stockIds: string[], types: readonly AlertType[]): Promise<Alert[]> {
+    if (stockIds.length === 0) return [];
+
+    try {
+      const alerts = await this.client.alert.findMany({
+        where: { stockId: { in: stockIds }, type: { in: [...types] }, isActive: true },
+      });
+
+      return alerts.map(toEntity);
+    } catch (error) {
+      logger.error('AlertRepositoryAdapter.findActive error:', error);
+      throw new DatabaseError('Failed to fetch alerts from database');
+    }
+  }
+
+  async findActiveStockIds(types: readonly AlertType[]): Promise<string[]> {
+    try {
+      const rows = await this.client.alert.findMany({
+        where: { type: { in: [...types] }, isActive: true },
+        select: { stockId: true },
+        distinct: ['stockId'],
+      });
+
+      return rows.map((row) => row.stockId);
+    } catch (error) {
+      logger.error('AlertRepositoryAdapter.findActiveStockIds error:', error);
+      throw new DatabaseError('Failed to fetch alerts from database');
+    }
+  }
+
+  async create(alert: Alert): Promise<Alert> {
+    try {
+      const created = await this.client.alert.create({
+        data: {
+          userId: alert.userId,
+          stockId: alert.stockId,
+          type: alert.type,
+          threshold: alert.threshold,
+          channels: alert.channels,
+          cooldownMinutes: alert.cooldownMinutes,
+          isActive: alert.isActive,
+          memo: alert.memo,
+          lastState: alert.lastState,
+        },
+      });
+
+      return toEntity(created);
+    } catch (error) {
+      logger.error('AlertRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create alert in database');
+    }
+  }
+
+  async update(id: string, data: Partial<Alert>): Promise<Alert> {
+    try {
+      const updated = await this.client.alert.update({
+        where: { id },
+        data: {
+          threshold: data.threshold,
+          channels: data.channels,
+          cooldownMinutes: data.cooldownMinutes,
+          isActive: data.isActive,
+          memo: data.memo,
+          lastState: data.lastState,
+        },
+      });
+
+      return toEntity(updated);
+    } catch (error) {
+      logger.error('AlertRepositoryAdapter.update error:', error);
+      throw new DatabaseError('Failed to update alert in database');
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.client.alert.delete({ where: { id } });
+    } catch (error) {
+      logger.error('AlertRepositoryAdapter.delete error:', error);
+      throw new DatabaseError('Failed to delete alert from database');
+    }
+  }
+
+  async updateState(id: string, state: AlertCrossState): Promise<void> {
+    try {
+      await this.client.alert.updateMany({ where: { id }, data: { lastState: state } });
+    } catch (error) {
+      logger.error('AlertRepositoryAdapter.updateState error:', error);
+      throw new DatabaseError('Failed to update alert in database');
+    }
+  }
+
+  async claimTrigger(id: string, now: Date, cooldownSince: Date): Promise<boolean> {
+    try {
+      const result = await this.client.alert.updateMany({
+        where: {
+          id,
+          isActive: true,
+          OR: [{ lastTriggeredAt: null }, { lastTriggeredAt: { lte: cooldownSince } }],
+        },
+        data: { lastTriggeredAt: now },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error('AlertRepositoryAdapter.claimTrigger error:', error);
+      throw new DatabaseError('Failed to update alert in database');
+    }
+  }
+
+  async findEventByKey(alertId: string, dedupKey: string): Promise<AlertEvent | null> {
+    try {
+      const event = await this.client.alertEvent.findUnique({
+        where: { alertId_dedupKey: { alertId, dedupKey } },
+      });
+
+      return event ? toEventEntity(event) : null;
+    } catch (error) {
+      logger.error('AlertRepositoryAdapter.findEventByKey error:', error);
+      throw new DatabaseError('Failed to fetch alert event from database');
+    }
+  }
+
+  async createEvent(event: AlertEvent): Promise<AlertEvent> {
+    try {
+      const created = await this.client.alertEvent.create({
+        data: {
+          alertId: event.alertId,
+          userId: event.userId,
+          stockId: event.stockId,
+          type: event.type,
+          title: event.title,
+          message: event.message,
+          payload: (event.payload ?? undefined) as Prisma.InputJsonValue | undefined,
+          dedupKey: event.dedupKey,
+        },
+      });
+
+      return toEventEntity(created);
+    } catch (error) {
+      logger.error('AlertRepositoryAdapter.createEvent error:', error);
+      throw new DatabaseError('Failed to create alert event in database');
+    }
+  }
+
+  async updateEventDeliveries(id: string, deliveries: Record<string, string>): Promise<void> {
+    try {
+      await this.client.alertEvent.update({ where: { id }, data: { deliveries } });
+    } catch (error) {
+      logger.error('AlertRepositoryAdapter.updateEventDeliveries error:', error);
+      throw new DatabaseError('Failed to update alert event in database');
+    }
+  }
+}
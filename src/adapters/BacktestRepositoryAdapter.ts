@@ -0,0 +1,178 @@
+import { IBacktestRepository } from '../repositories/IBacktestRepository';
+import {
+  Backtest,
+  BacktestEquityPoint,
+  BacktestMetrics,
+  BacktestStatus,
+  BacktestStrategy,
+  BacktestTrade,
+} from '../entities/Backtest';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, Backtest as BacktestRecord } from '@prisma/client';
+
+type BacktestSummaryRecord = Omit<BacktestRecord, 'trades' | 'equityCurve'> &
+  Partial<Pick<BacktestRecord, 'trades' | 'equityCurve'>>;
+
+// 목록 조회 시 제외하는 대용량 컬럼
+const SUMMARY_SELECT = {
+  id: true,
+  userId: true,
+  name: true,
+  strategy: true,
+  universe: true,
+  from: true,
+  to: true,
+  initialCash: true,
+  commissionRate: true,
+  taxRate: true,
+  riskFreeRate: true,
+  status: true,
+  metrics: true,
+  error: true,
+  startedAt: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const toEntity = (record: BacktestSummaryRecord): Backtest =>
+  new Backtest(
+    record.id,
+    record.userId,
+    record.name,
+    record.strategy as unknown as BacktestStrategy,
+    record.universe,
+    record.from,
+    record.to,
+    record.initialCash,
+    record.commissionRate,
+    record.taxRate,
+    record.riskFreeRate,
+    record.status as BacktestStatus,
+    (record.metrics as unknown as BacktestMetrics) ?? null,
+    (record.trades as unknown as BacktestTrade[]) ?? null,
+    (record.equityCurve as unknown as BacktestEquityPoint[]) ?? null,
+    record.error,
+    record.startedAt,
+    record.completedAt,
+    record.createdAt,
+    record.updatedAt
+  );
+
+// 엔티티 JSON 필드 → Prisma 입력 (null은 DB NULL)
+const toJson = (value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined =>
+  value === undefined ? undefined : value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+
+export class BacktestRepositoryAdapter implements IBacktestRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): BacktestRepositoryAdapter {
+    return new BacktestRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findAll(userId: string, filter: { limit?: number; offset?: number } = {}): Promise<{
+    data: Backtest[];
+    total: number;
+  }> {
+    try {
+      const [backtests, total] = await Promise.all([
+        this.client.backtest.findMany({
+          where: { userId },
+          select: SUMMARY_SELECT,
+          orderBy: { createdAt: 'desc' },
+          take: filter.limit,
+          skip: filter.offset,
+        }),
+        this.client.backtest.count({ where: { userId } }),
+      ]);
+
+      return { data: backtests.map(toEntity), total };
+    } catch (error) {
+      logger.error('BacktestRepositoryAdapter.findAll error:', error);
+      throw new DatabaseError('Failed to fetch backtests from database');
+    }
+  }
+
+  async findById(id: string, userId?: string): Promise<Backtest | null> {
+    try {
+      const backtest = await this.client.backtest.findFirst({
+        where: { id, ...(userId && { userId }) },
+      });
+
+      return backtest ? toEntity(backtest) : null;
+    } catch (error) {
+      logger.error('BacktestRepositoryAdapter.findById error:', error);
+      throw new DatabaseError('Failed to fetch backtest from database');
+    }
+  }
+
+  async create(backtest: Backtest): Promise<Backtest> {
+    try {
+      const created = await this.client.backtest.create({
+        data: {
+          userId: backtest.userId,
+          name: backtest.name,
+          strategy: backtest.strategy as unknown as Prisma.InputJsonValue,
+          universe: backtest.universe,
+          from: backtest.from,
+          to: backtest.to,
+          initialCash: backtest.initialCash,
+          commissionRate: backtest.commissionRate,
+          taxRate: backtest.taxRate,
+          riskFreeRate: backtest.riskFreeRate,
+          status: backtest.status,
+        },
+      });
+
+      return toEntity(created);
+    } catch (error) {
+      logger.error('BacktestRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create backtest in database');
+    }
+  }
+
+  async update(id: string, data: Partial<Backtest>): Promise<Backtest> {
+    try {
+      const updated = await this.client.backtest.update({
+        where: { id },
+        data: {
+          status: data.status,
+          metrics: toJson(data.metrics),
+          trades: toJson(data.trades),
+          equityCurve: toJson(data.equityCurve),
+          error: data.error,
+          startedAt: data.startedAt,
+          completedAt: data.completedAt,
+        },
+      });
+
+      return toEntity(updated);
+    } catch (error) {
+      logger.error('BacktestRepositoryAdapter.update error:', error);
+      throw new DatabaseError('Failed to update backtest in database');
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.client.backtest.delete({ where: { id } });
+    } catch (error) {
+      logger.error('BacktestRepositoryAdapter.delete error:', error);
+      throw new DatabaseError('Failed to delete backtest from database');
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import { CorporateActionFilter, ICorporateActionRepository } from '../repositories/ICorporateActionRepository';
+import {
+  CorporateAction,
+  CorporateActionAdjustment,
+  CorporateActionAdjustmentStatus,
+  CorporateActionStatus,
+  CorporateActionType,
+} from '../entities/CorporateAction';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import {
+  Prisma,
+  CorporateAction as CorporateActionRecord,
+  CorporateActionAdjustment as CorporateActionAdjustmentRecord,
+} from '@prisma/client';
+
+const toEntity = (record: CorporateActionRecord): CorporateAction =>
+  new CorporateAction(
+    record.id,
+    record.stockId,
+    record.type as CorporateActionType,
+    record.exDate,
+    record.ratio,
+    record.subscriptionPrice,
+    record.adjustmentFactor,
+    record.status as CorporateActionStatus,
+    record.memo,
+    record.appliedAt,
+    record.createdAt,
+    record.updatedAt
+  );
+
+const toAdjustmentEntity = (record: CorporateActionAdjustmentRecord): CorporateActionAdjustment =>
+  new CorporateActionAdjustment(
+    record.id,
+    record.actionId,
+    record.userId,
+    record.accountId,
+    record.transactionId,
+    record.status as CorporateActionAdjustmentStatus,
+    record.quantityBefore,
+    record.quantityAfter,
+    record.averagePriceBefore,
+    record.averagePriceAfter,
+    record.note,
+    record.createdAt
+  );
+
+export class CorporateActionRepositoryAdapter implements ICorporateActionRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): CorporateActionRepositoryAdapter {
+    return new CorporateActionRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findAll(filter: CorporateActionFilter = {}): Promise<CorporateAction[]> {
+    try {
+      const actions = await this.client.corporateAction.findMany({
+        where: {
+          ...(filter.stockId && { stockId: filter.stockId }),
+          ...(filter.status && { status: filter.status }),
+          ...(filter.type && { type: filter.type }),
+        },
+        orderBy: [{ exDate: 'desc' }, { createdAt: 'desc' }],
+      });
+
+      return actions.map(toEntity);
+    } catch (error) {
+      logger.error('CorporateActionRepositoryAdapter.findAll error:', error);
+      throw new DatabaseError('Failed to fetch corporate actions from database');
+    }
+  }
+
+  async findById(id: string): Promise<CorporateAction | null> {
+    try {
+      const action = await this.client.corporateAction.findUnique({ where: { id } });
+      return action ? toEntity(action) : null;
+    } catch (error) {
+      logger.error('CorporateActionRepositoryAdapter.findById error:', error);
+      throw new DatabaseError('Failed to fetch corporate action from database');
+    }
+  }
+
+  async findByKey(stockId: string, type: CorporateActionType, exDate: Date): Promise<CorporateAction | null> {
+    try {
+      const action = await this.client.corporateAction.findUnique({
+        where: { stockId_type_exDate: { stockId, type, exDate } },
+      });
+      return action ? toEntity(action) : null;
+    } catch (error) {
+      logger.error('CorporateActionRepositoryAdapter.findByKey error:', error);
+      throw new DatabaseError('Failed to fetch corporate action from database');
+    }
+  }
+
+  async findDue(asOf: Date): Promise<CorporateAction[]> {
+    try {
+      const actions = await this.client.corporateAction.findMany({
+        where: { status: 'pending', exDate: { lte: asOf } },
+        orderBy: [{ exDate: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      return actions.map(toEntity);
+    } catch (error) {
+      logger.error('CorporateActionRepositoryAdapter.findDue error:', error);
+      throw new DatabaseError('Failed to fetch corporate actions from database');
+    }
+  }
+
+  async findApplied(stockIds: string[]): Promise<CorporateAction[]> {
+    if (stockIds.length === 0) return [];
+
+    try {
+      const actions = await this.client.corporateAction.findMany({
+        where: { stockId: { in: stockIds }, status: 'applied' },
+        orderBy: { exDate: 'asc' },
+      });
+
+      return actions.map(toEntity);
+    } catch (error) {
+      logger.error('CorporateActionRepositoryAdapter.findApplied error:', error);
+      throw new DatabaseError('Failed to fetch corporate actions from database');
+    }
+  }
+
+  async create(action: CorporateAction): Promise<CorporateAction> {
+    try {
+      const created = await this.client.corporateAction.create({
+        data: {
+          stockId: action.stockId,
+          type: action.type,
+          exDate: action.exDate,
+          ratio: action.ratio,
+          subscriptionPrice: action.subscriptionPrice,
+          memo: action.memo,
+        },
+      });
+
+      return toEntity(created);
+    } catch (error) {
+      logger.error('CorporateActionRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create corporate action in database');
+    }
+  }
+
+  async markApplied(id: string, adjustmentFactor: number): Promise<boolean> {
+    try {
+      const result = await this.client.corporateAction.updateMany({
+        where: { id, status: 'pending' },
+        data: { status: 'applied', adjustmentFactor, appliedAt: new Date() },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error('CorporateActionRepositoryAdapter.markApplied error:', error);
+      throw new DatabaseError('Failed to update corporate action in database');
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.client.corporateAction.delete({ where: { id } });
+    } catch (error) {
+      logger.error('CorporateActionRepositoryAdapter.delete error:', error);
+      throw new DatabaseError('Failed to delete corporate action from database');
+    }
+  }
+
+  async findAdjustments(actionId: string): Promise<CorporateActionAdjustment[]> {
+    try {
+      const adjustments = await this.client.corporateActionAdjustment.findMany({
+        where: { actionId },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return adjustments.map(toAdjustmentEntity);
+    } catch (error) {
+      logger.error('CorporateActionRepositoryAdapter.findAdjustments error:', error);
+      throw new DatabaseError('Failed to fetch corporate action adjustments from database');
+    }
+  }
+
+  async createAdjustments(adjustments: CorporateActionAdjustment[]): Promise<number> {
+    if (adjustments.length === 0) return 0;
+
+    try {
+      const result = await this.client.corporateActionAdjustment.createMany({
+        data: adjustments.map((adjustment) => ({
+          actionId: adjustment.actionId,
+          userId: adjustment.userId,
+          accountId: adjustment.accountId,
+          transactionId: adjustment.transactionId,
+          status: adjustment.status,
+          quantityBefore: adjustment.quantityBefore,
+          quantityAfter: adjustment.quantityAfter,
+          averagePriceBefore: adjustment.averagePriceBefore,
+          averagePriceAfter: adjustment.averagePriceAfter,
+          note: adjustment.note,
+        })),
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('CorporateActionRepositoryAdapter.createAdjustments error:', error);
+      throw new DatabaseError('Failed to save corporate action adjustments to database');
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { IDividendRepository } from '../repositories/IDividendRepository';
+import { Dividend } from '../entities/Dividend';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, Dividend as DividendRecord } from '@prisma/client';
+
+const toEntity = (record: DividendRecord): Dividend =>
+  new Dividend(
+    record.id,
+    record.stockId,
+    record.exDate,
+    record.recordDate,
+    record.payDate,
+    record.amount,
+    record.currency,
+    record.source
+  );
+
+export class DividendRepositoryAdapter implements IDividendRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): DividendRepositoryAdapter {
+    return new DividendRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findByStocks(stockIds: string[], from?: Date, to?: Date): Promise<Dividend[]> {
+    if (stockIds.length === 0) return [];
+
+    try {
+      const dividends = await this.client.dividend.findMany({
+        where: {
+          stockId: { in: stockIds },
+          ...((from || to) && { exDate: { ...(from && { gte: from }), ...(to && { lte: to }) } }),
+        },
+        orderBy: { exDate: 'asc' },
+      });
+
+      return dividends.map(toEntity);
+    } catch (error) {
+      logger.error('DividendRepositoryAdapter.findByStocks error:', error);
+      throw new DatabaseError('Failed to fetch dividends from database');
+    }
+  }
+
+  async upsertMany(dividends: Dividend[]): Promise<number> {
+    try {
+      for (const dividend of dividends) {
+        const data = {
+          recordDate: dividend.recordDate,
+          payDate: dividend.payDate,
+          amount: dividend.amount,
+          currency: dividend.currency,
+          source: dividend.source,
+        };
+        await this.client.dividend.upsert({
+          where: { stockId_exDate: { stockId: dividend.stockId, exDate: dividend.exDate } },
+          create: { stockId: dividend.stockId, exDate: dividend.exDate, ...data },
+          update: data,
+        });
+      }
+
+      return dividends.length;
+    } catch (error) {
+      logger.error('DividendRepositoryAdapter.upsertMany error:', error);
+      throw new DatabaseError('Failed to save dividends to database');
+    }
+  }
+}
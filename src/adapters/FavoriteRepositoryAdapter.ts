@@ -3,7 +3,19 @@ import { Favorite } from '../entities/Favorite';
 import { prisma } from '../config/prisma';
 import { DatabaseError } from "../errors/AppError";
 import { logger } from '../config/logger';
-import { Prisma } from '@prisma/client';
+import { Prisma, Favorite as FavoriteRecord } from '@prisma/client';
+
+const toEntity = (record: FavoriteRecord): Favorite =>
+  new Favorite(
+    record.id,
+    record.userId,
+    record.stockId,
+    record.createdAt,
+    record.groupId,
+    record.position,
+    record.memo,
+    record.targetPrice
+  );
 
 export class FavoriteRepositoryAdapter implements IFavoriteRepository {
   /**
@@ -31,9 +43,7 @@ export class FavoriteRepositoryAdapter implements IFavoriteRepository {
         orderBy: { createdAt: 'desc' },
       });
 
-      return favorites.map(
-        (f) => new Favorite(f.id, f.userId, f.stockId, f.createdAt)
-      );
+      return favorites.map(toEntity);
     } catch (error) {
       logger.error('FavoriteRepositoryAdapter.findAll error:', error);
       throw new DatabaseError('Failed to fetch favorites from database');
@@ -48,7 +58,7 @@ export class FavoriteRepositoryAdapter implements IFavoriteRepository {
 
       if (!favorite) return null;
 
-      return new Favorite(favorite.id, favorite.userId, favorite.stockId, favorite.createdAt);
+      return toEntity(favorite);
     } catch (error) {
       logger.error('FavoriteRepositoryAdapter.findById error:', error);
       throw new DatabaseError('Failed to fetch favorite from database');
@@ -65,23 +75,88 @@ export class FavoriteRepositoryAdapter implements IFavoriteRepository {
 
       if (!favorite) return null;
 
-      return new Favorite(favorite.id, favorite.userId, favorite.stockId, favorite.createdAt);
+      return toEntity(favorite);
     } catch (error) {
       logger.error('FavoriteRepositoryAdapter.findByUserAndStock error:', error);
       throw new DatabaseError('Failed to fetch favorite from database');
     }
   }
 
+  async findByStocks(userId: string, stockIds: string[]): Promise<Favorite[]> {
+    if (stockIds.length === 0) return [];
+
+    try {
+      const favorites = await this.client.favorite.findMany({
+        where: { userId, stockId: { in: stockIds } },
+      });
+
+      return favorites.map(toEntity);
+    } catch (error) {
+      logger.error('FavoriteRepositoryAdapter.findByStocks error:', error);
+      throw new DatabaseError('Failed to fetch favorites from database');
+    }
+  }
+
+  async findByGroup(userId: string, groupId: string | null): Promise<Favorite[]> {
+    try {
+      const favorites = await this.client.favorite.findMany({
+        where: { userId, groupId },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      return favorites.map(toEntity);
+    } catch (error) {
+      logger.error('FavoriteRepositoryAdapter.findByGroup error:', error);
+      throw new DatabaseError('Failed to fetch favorites from database');
+    }
+  }
+
+  async countByGroups(userId: string): Promise<Map<string | null, number>> {
+    try {
+      const rows = await this.client.favorite.findMany({
+        where: { userId },
+        select: { groupId: true },
+      });
+
+      const counts = new Map<string | null, number>();
+      for (const row of rows) {
+        counts.set(row.groupId, (counts.get(row.groupId) ?? 0) + 1);
+      }
+      return counts;
+    } catch (error) {
+      logger.error('FavoriteRepositoryAdapter.countByGroups error:', error);
+      throw new DatabaseError('Failed to count favorites in database');
+    }
+  }
+
+  async maxPosition(userId: string, groupId: string | null): Promise<number> {
+    try {
+      const result = await this.client.favorite.aggregate({
+        where: { userId, groupId },
+        _max: { position: true },
+      });
+
+      return result._max.position ?? -1;
+    } catch (error) {
+      logger.error('FavoriteRepositoryAdapter.maxPosition error:', error);
+      throw new DatabaseError('Failed to fetch favorites from database');
+    }
+  }
+
   async create(favorite: Favorite): Promise<Favorite> {
     try {
       const created = await this.client.favorite.create({
         data: {
           userId: favorite.userId,
           stockId: favorite.stockId,
+          groupId: favorite.groupId,
+          position: favorite.position,
+          memo: favorite.memo,
+          targetPrice: favorite.targetPrice,
         },
       });
 
-      return new Favorite(created.id, created.userId, created.stockId, created.createdAt);
+      return toEntity(created);
     } catch (error) {
       logger.error('FavoriteRepositoryAdapter.create error:', error);
       throw new DatabaseError('Failed to create favorite in database');
@@ -96,4 +171,38 @@ export class FavoriteRepositoryAdapter implements IFavoriteRepository {
       throw new DatabaseError('Failed to delete favorite from database');
     }
   }
+
+  async update(
+    id: string,
+    data: Partial<Pick<Favorite, 'groupId' | 'position' | 'memo' | 'targetPrice'>>
+  ): Promise<Favorite> {
+    try {
+      const updated = await this.client.favorite.update({
+        where: { id },
+        data: {
+          groupId: data.groupId,
+          position: data.position,
+          memo: data.memo,
+          targetPrice: data.targetPrice,
+        },
+      });
+
+      return toEntity(updated);
+    } catch (error) {
+      logger.error('FavoriteRepositoryAdapter.update error:', error);
+      throw new DatabaseError('Failed to update favorite in database');
+    }
+  }
+
+  async deleteMany(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    try {
+      const result = await this.client.favorite.deleteMany({ where: { id: { in: ids } } });
+      return result.count;
+    } catch (error) {
+      logger.error('FavoriteRepositoryAdapter.deleteMany error:', error);
+      throw new DatabaseError('Failed to delete favorites from database');
+    }
+  }
 }
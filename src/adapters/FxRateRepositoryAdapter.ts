@@ -0,0 +1,77 @@
+import { IFxRateRepository } from '../repositories/IFxRateRepository';
+import { FxPair, FxRate } from '../entities/FxRate';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, FxRate as FxRateRecord } from '@prisma/client';
+
+const toEntity = (record: FxRateRecord): FxRate =>
+  new FxRate(record.id, record.pair as FxPair, record.date, record.rate, record.source);
+
+export class FxRateRepositoryAdapter implements IFxRateRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): FxRateRepositoryAdapter {
+    return new FxRateRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findByPair(pair: FxPair, from?: Date, to?: Date): Promise<FxRate[]> {
+    try {
+      const rates = await this.client.fxRate.findMany({
+        where: {
+          pair,
+          ...((from || to) && { date: { ...(from && { gte: from }), ...(to && { lte: to }) } }),
+        },
+        orderBy: { date: 'asc' },
+      });
+
+      return rates.map(toEntity);
+    } catch (error) {
+      logger.error('FxRateRepositoryAdapter.findByPair error:', error);
+      throw new DatabaseError('Failed to fetch FX rates from database');
+    }
+  }
+
+  async findLatest(pair: FxPair): Promise<FxRate | null> {
+    try {
+      const rate = await this.client.fxRate.findFirst({
+        where: { pair },
+        orderBy: { date: 'desc' },
+      });
+
+      return rate ? toEntity(rate) : null;
+    } catch (error) {
+      logger.error('FxRateRepositoryAdapter.findLatest error:', error);
+      throw new DatabaseError('Failed to fetch latest FX rate from database');
+    }
+  }
+
+  async upsertMany(rates: FxRate[]): Promise<number> {
+    try {
+      for (const rate of rates) {
+        await this.client.fxRate.upsert({
+          where: { pair_date: { pair: rate.pair, date: rate.date } },
+          create: { pair: rate.pair, date: rate.date, rate: rate.rate, source: rate.source },
+          update: { rate: rate.rate, source: rate.source },
+        });
+      }
+
+      return rates.length;
+    } catch (error) {
+      logger.error('FxRateRepositoryAdapter.upsertMany error:', error);
+      throw new DatabaseError('Failed to save FX rates to database');
+    }
+  }
+}
@@ -48,7 +48,8 @@ export class HistoryRepositoryAdapter implements IHistoryRepository {
             h.userId,
             h.stockId,
             h.type,
-            h.viewedAt
+            h.viewedAt,
+            h.priceAtView
           )
       );
 
@@ -73,7 +74,8 @@ export class HistoryRepositoryAdapter implements IHistoryRepository {
         history.userId,
         history.stockId,
         history.type,
-        history.viewedAt
+        history.viewedAt,
+        history.priceAtView
       );
     } catch (error) {
       logger.error('HistoryRepositoryAdapter.findById error:', error);
@@ -105,7 +107,8 @@ export class HistoryRepositoryAdapter implements IHistoryRepository {
         history.userId,
         history.stockId,
         history.type,
-        history.viewedAt
+        history.viewedAt,
+        history.priceAtView
       );
     } catch (error) {
       logger.error('HistoryRepositoryAdapter.findByUserAndStock error:', error);
@@ -113,6 +116,40 @@ export class HistoryRepositoryAdapter implements IHistoryRepository {
     }
   }
 
+  async findSince(userId: string, since: Date, limit: number): Promise<History[]> {
+    try {
+      // 최근 limit건만 가져온 뒤 시간순으로 뒤집음
+      const histories = await this.client.history.findMany({
+        where: { userId, viewedAt: { gte: since } },
+        orderBy: { viewedAt: 'desc' },
+        take: limit,
+      });
+
+      return histories
+        .reverse()
+        .map((h) => new History(h.id, h.userId, h.stockId, h.type, h.viewedAt, h.priceAtView));
+    } catch (error) {
+      logger.error('HistoryRepositoryAdapter.findSince error:', error);
+      throw new DatabaseError('Failed to fetch history from database');
+    }
+  }
+
+  async findLatestPerStock(userId: string, limit: number): Promise<History[]> {
+    try {
+      const histories = await this.client.history.findMany({
+        where: { userId },
+        orderBy: { viewedAt: 'desc' },
+        distinct: ['stockId'],
+        take: limit,
+      });
+
+      return histories.map((h) => new History(h.id, h.userId, h.stockId, h.type, h.viewedAt, h.priceAtView));
+    } catch (error) {
+      logger.error('HistoryRepositoryAdapter.findLatestPerStock error:', error);
+      throw new DatabaseError('Failed to fetch history from database');
+    }
+  }
+
   async create(history: History): Promise<History> {
     try {
       const created = await this.client.history.create({
@@ -120,6 +157,7 @@ export class HistoryRepositoryAdapter implements IHistoryRepository {
           userId: history.userId,
           stockId: history.stockId,
           type: history.type,
+          priceAtView: history.priceAtView,
         },
         include: { stock: true },
       });
@@ -129,7 +167,8 @@ export class HistoryRepositoryAdapter implements IHistoryRepository {
         created.userId,
         created.stockId,
         created.type,
-        created.viewedAt
+        created.viewedAt,
+        created.priceAtView
       );
     } catch (error) {
       logger.error('HistoryRepositoryAdapter.create error:', error);
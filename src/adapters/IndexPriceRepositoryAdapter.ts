@@ -0,0 +1,97 @@
+import { IIndexPriceRepository } from '../repositories/IIndexPriceRepository';
+import { IndexPrice, MarketIndexCode } from '../entities/IndexPrice';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, IndexPrice as IndexPriceRecord } from '@prisma/client';
+
+const toEntity = (record: IndexPriceRecord): IndexPrice =>
+  new IndexPrice(
+    record.id,
+    record.code as MarketIndexCode,
+    record.date,
+    record.open,
+    record.high,
+    record.low,
+    record.close,
+    record.change,
+    record.changeRate,
+    record.source
+  );
+
+export class IndexPriceRepositoryAdapter implements IIndexPriceRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): IndexPriceRepositoryAdapter {
+    return new IndexPriceRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findByCode(code: MarketIndexCode, from: Date, to?: Date): Promise<IndexPrice[]> {
+    try {
+      const prices = await this.client.indexPrice.findMany({
+        where: {
+          code,
+          date: { gte: from, ...(to && { lte: to }) },
+        },
+        orderBy: { date: 'asc' },
+      });
+
+      return prices.map(toEntity);
+    } catch (error) {
+      logger.error('IndexPriceRepositoryAdapter.findByCode error:', error);
+      throw new DatabaseError('Failed to fetch index prices from database');
+    }
+  }
+
+  async findLatest(code: MarketIndexCode): Promise<IndexPrice | null> {
+    try {
+      const price = await this.client.indexPrice.findFirst({
+        where: { code },
+        orderBy: { date: 'desc' },
+      });
+
+      return price ? toEntity(price) : null;
+    } catch (error) {
+      logger.error('IndexPriceRepositoryAdapter.findLatest error:', error);
+      throw new DatabaseError('Failed to fetch latest index price from database');
+    }
+  }
+
+  async upsertMany(prices: IndexPrice[]): Promise<number> {
+    try {
+      for (const price of prices) {
+        const data = {
+          open: price.open,
+          high: price.high,
+          low: price.low,
+          close: price.close,
+          change: price.change,
+          changeRate: price.changeRate,
+          source: price.source,
+        };
+        await this.client.indexPrice.upsert({
+          where: { code_date: { code: price.code, date: price.date } },
+          create: { code: price.code, date: price.date, ...data },
+          update: data,
+        });
+      }
+
+      return prices.length;
+    } catch (error) {
+      logger.error('IndexPriceRepositoryAdapter.upsertMany error:', error);
+      throw new DatabaseError('Failed to save index prices to database');
+    }
+  }
+}
@@ -3,6 +3,28 @@ import { News } from '../entities/News';
 import { prisma } from '../config/prisma';
 import { DatabaseError } from "../errors/AppError";
 import { logger } from '../config/logger';
+import { Prisma, News as NewsRecord } from '@prisma/client';
+
+// 알림 평가/적재용 (종목 코드 대신 Stock.id)
+const toNewsWithStockIds = (
+  n: NewsRecord & { stocks: Array<{ stockId: string }> }
+): News & { stockIds: string[] } => {
+  const newsEntity = new News(
+    n.id,
+    n.title,
+    n.content,
+    n.summary,
+    n.source,
+    n.url,
+    n.publishedAt,
+    n.sentiment,
+    n.sentimentScore,
+    n.thumbnailUrl,
+    n.createdAt,
+    n.updatedAt
+  );
+  return { ...newsEntity, stockIds: n.stocks.map((ns) => ns.stockId) };
+};
 
 export class NewsRepositoryAdapter implements INewsRepository {
   async findMany(params: {
@@ -204,5 +226,50 @@ export class NewsRepositoryAdapter implements INewsRepository {
       throw new DatabaseError('Failed to fetch stock codes from database');
     }
   }
-}
 
+  async findWithStockIds(ids: string[]): Promise<Array<News & { stockIds: string[] }>> {
+    if (ids.length === 0) return [];
+
+    try {
+      const news = await prisma.news.findMany({
+        where: { id: { in: ids } },
+        include: { stocks: { select: { stockId: true } } },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return news.map(toNewsWithStockIds);
+    } catch (error) {
+      logger.error('NewsRepositoryAdapter.findWithStockIds error:', error);
+      throw new DatabaseError('Failed to fetch news from database');
+    }
+  }
+
+  async create(news: News, stockIds: string[]): Promise<(News & { stockIds: string[] }) | null> {
+    try {
+      const created = await prisma.news.create({
+        data: {
+          title: news.title,
+          content: news.content,
+          summary: news.summary,
+          source: news.source,
+          url: news.url,
+          publishedAt: news.publishedAt,
+          sentiment: news.sentiment,
+          sentimentScore: news.sentimentScore,
+          thumbnailUrl: news.thumbnailUrl,
+          stocks: { create: stockIds.map((stockId) => ({ stockId })) },
+        },
+        include: { stocks: { select: { stockId: true } } },
+      });
+
+      return toNewsWithStockIds(created);
+    } catch (error) {
+      // 같은 URL의 뉴스가 이미 적재됨
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      logger.error('NewsRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create news in database');
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { INotificationRepository, NotificationFilter } from '../repositories/INotificationRepository';
+import { Notification, NotificationPreference, NotificationType } from '../entities/Notification';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import {
+  Prisma,
+  Notification as NotificationRecord,
+  NotificationPreference as NotificationPreferenceRecord,
+} from '@prisma/client';
+
+const toEntity = (record: NotificationRecord): Notification =>
+  new Notification(
+    record.id,
+    record.userId,
+    record.type as NotificationType,
+    record.title,
+    record.message,
+    (record.data as Record<string, unknown> | null) ?? null,
+    record.link,
+    record.dedupKey,
+    record.readAt,
+    record.createdAt
+  );
+
+const toPreferenceEntity = (record: NotificationPreferenceRecord): NotificationPreference =>
+  new NotificationPreference(record.userId, record.type as NotificationType, record.enabled, record.push);
+
+export class NotificationRepositoryAdapter implements INotificationRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): NotificationRepositoryAdapter {
+    return new NotificationRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findAll(userId: string, filter: NotificationFilter = {}): Promise<{
+    data: Notification[];
+    total: number;
+    unread: number;
+  }> {
+    try {
+      const where = {
+        userId,
+        ...(filter.type && { type: filter.type }),
+        ...(filter.unreadOnly && { readAt: null }),
+      };
+      const [notifications, total, unread] = await Promise.all([
+        this.client.notification.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          take: filter.limit,
+          skip: filter.offset,
+        }),
+        this.client.notification.count({ where }),
+        this.client.notification.count({ where: { userId, readAt: null } }),
+      ]);
+
+      return { data: notifications.map(toEntity), total, unread };
+    } catch (error) {
+      logger.error('NotificationRepositoryAdapter.findAll error:', error);
+      throw new DatabaseError('Failed to fetch notifications from database');
+    }
+  }
+
+  async findById(id: string, userId: string): Promise<Notification | null> {
+    try {
+      const notification = await this.client.notification.findFirst({ where: { id, userId } });
+
+      return notification ? toEntity(notification) : null;
+    } catch (error) {
+      logger.error('NotificationRepositoryAdapter.findById error:', error);
+      throw new DatabaseError('Failed to fetch notification from database');
+    }
+  }
+
+  async existsByDedupKey(userId: string, dedupKey: string): Promise<boolean> {
+    try {
+      const count = await this.client.notification.count({ where: { userId, dedupKey } });
+      return count > 0;
+    } catch (error) {
+      logger.error('NotificationRepositoryAdapter.existsByDedupKey error:', error);
+      throw new DatabaseError('Failed to fetch notification from database');
+    }
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    try {
+      return await this.client.notification.count({ where: { userId, readAt: null } });
+    } catch (error) {
+      logger.error('NotificationRepositoryAdapter.countUnread error:', error);
+      throw new DatabaseError('Failed to count notifications in database');
+    }
+  }
+
+  async create(notification: Notification): Promise<Notification> {
+    try {
+      const created = await this.client.notification.create({
+        data: {
+          userId: notification.userId,
+          type: notification.type,
+          title: notification.title,
+          message: notification.message,
+          data: (notification.data ?? undefined) as Prisma.InputJsonValue | undefined,
+          link: notification.link,
+          dedupKey: notification.dedupKey,
+        },
+      });
+
+      return toEntity(created);
+    } catch (error) {
+      logger.error('NotificationRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create notification in database');
+    }
+  }
+
+  async markRead(userId: string, ids?: string[]): Promise<number> {
+    try {
+      const result = await this.client.notification.updateMany({
+        where: { userId, readAt: null, ...(ids && { id: { in: ids } }) },
+        data: { readAt: new Date() },
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('NotificationRepositoryAdapter.markRead error:', error);
+      throw new DatabaseError('Failed to update notifications in database');
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.client.notification.delete({ where: { id } });
+    } catch (error) {
+      logger.error('NotificationRepositoryAdapter.delete error:', error);
+      throw new DatabaseError('Failed to delete notification from database');
+    }
+  }
+
+  async findPreferences(userId: string): Promise<NotificationPreference[]> {
+    try {
+      const preferences = await this.client.notificationPreference.findMany({ where: { userId } });
+
+      return preferences.map(toPreferenceEntity);
+    } catch (error) {
+      logger.error('NotificationRepositoryAdapter.findPreferences error:', error);
+      throw new DatabaseError('Failed to fetch notification preferences from database');
+    }
+  }
+
+  async upsertPreferences(preferences: NotificationPreference[]): Promise<void> {
+    try {
+      for (const preference of preferences) {
+        await this.client.notificationPreference.upsert({
+          where: { userId_type: { userId: preference.userId, type: preference.type } },
+          create: {
+            userId: preference.userId,
+            type: preference.type,
+            enabled: preference.enabled,
+            push: preference.push,
+          },
+          update: { enabled: preference.enabled, push: preference.push },
+        });
+      }
+    } catch (error) {
+      logger.error('NotificationRepositoryAdapter.upsertPreferences error:', error);
+      throw new DatabaseError('Failed to save notification preferences in database');
+    }
+  }
+}
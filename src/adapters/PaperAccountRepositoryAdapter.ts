@@ -0,0 +1,103 @@
+import { IPaperAccountRepository } from '../repositories/IPaperAccountRepository';
+import { PaperAccount } from '../entities/PaperAccount';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, PaperAccount as PaperAccountRecord } from '@prisma/client';
+
+const toEntity = (record: PaperAccountRecord): PaperAccount =>
+  new PaperAccount(
+    record.id,
+    record.userId,
+    record.portfolioAccountId,
+    record.initialCash,
+    record.cash,
+    record.commissionRate,
+    record.taxRate,
+    record.createdAt,
+    record.updatedAt
+  );
+
+export class PaperAccountRepositoryAdapter implements IPaperAccountRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): PaperAccountRepositoryAdapter {
+    return new PaperAccountRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findByUser(userId: string): Promise<PaperAccount | null> {
+    try {
+      const account = await this.client.paperAccount.findUnique({ where: { userId } });
+      return account ? toEntity(account) : null;
+    } catch (error) {
+      logger.error('PaperAccountRepositoryAdapter.findByUser error:', error);
+      throw new DatabaseError('Failed to fetch paper account from database');
+    }
+  }
+
+  async findById(id: string): Promise<PaperAccount | null> {
+    try {
+      const account = await this.client.paperAccount.findUnique({ where: { id } });
+      return account ? toEntity(account) : null;
+    } catch (error) {
+      logger.error('PaperAccountRepositoryAdapter.findById error:', error);
+      throw new DatabaseError('Failed to fetch paper account from database');
+    }
+  }
+
+  async create(account: PaperAccount): Promise<PaperAccount> {
+    try {
+      const created = await this.client.paperAccount.create({
+        data: {
+          userId: account.userId,
+          portfolioAccountId: account.portfolioAccountId,
+          initialCash: account.initialCash,
+          cash: account.cash,
+          commissionRate: account.commissionRate,
+          taxRate: account.taxRate,
+        },
+      });
+
+      return toEntity(created);
+    } catch (error) {
+      logger.error('PaperAccountRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create paper account in database');
+    }
+  }
+
+  async adjustCash(id: string, delta: number): Promise<boolean> {
+    try {
+      // 조건부 증감으로 동시 체결 시에도 잔고가 음수가 되지 않도록 보장
+      const result = await this.client.paperAccount.updateMany({
+        where: { id, ...(delta < 0 && { cash: { gte: -delta } }) },
+        data: { cash: { increment: delta } },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error('PaperAccountRepositoryAdapter.adjustCash error:', error);
+      throw new DatabaseError('Failed to update paper account cash in database');
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.client.paperAccount.delete({ where: { id } });
+    } catch (error) {
+      logger.error('PaperAccountRepositoryAdapter.delete error:', error);
+      throw new DatabaseError('Failed to delete paper account from database');
+    }
+  }
+}
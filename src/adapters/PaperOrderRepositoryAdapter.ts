@@ -0,0 +1,163 @@
+import { IPaperOrderRepository, PaperOrderFilter } from '../repositories/IPaperOrderRepository';
+import { PaperOrder, PaperOrderSide, PaperOrderStatus, PaperOrderType } from '../entities/PaperOrder';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, PaperOrder as PaperOrderRecord } from '@prisma/client';
+
+const toEntity = (record: PaperOrderRecord): PaperOrder =>
+  new PaperOrder(
+    record.id,
+    record.userId,
+    record.paperAccountId,
+    record.stockId,
+    record.side as PaperOrderSide,
+    record.type as PaperOrderType,
+    record.quantity,
+    record.limitPrice,
+    record.stopPrice,
+    record.status as PaperOrderStatus,
+    record.filledPrice,
+    record.commission,
+    record.tax,
+    record.filledAt,
+    record.transactionId,
+    record.rejectReason,
+    record.createdAt,
+    record.updatedAt
+  );
+
+export class PaperOrderRepositoryAdapter implements IPaperOrderRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): PaperOrderRepositoryAdapter {
+    return new PaperOrderRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findAll(userId: string, filter: PaperOrderFilter = {}): Promise<{
+    data: PaperOrder[];
+    total: number;
+  }> {
+    try {
+      const where = {
+        userId,
+        ...(filter.status && { status: filter.status }),
+        ...(filter.stockId && { stockId: filter.stockId }),
+      };
+      const [orders, total] = await Promise.all([
+        this.client.paperOrder.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          take: filter.limit,
+          skip: filter.offset,
+        }),
+        this.client.paperOrder.count({ where }),
+      ]);
+
+      return { data: orders.map(toEntity), total };
+    } catch (error) {
+      logger.error('PaperOrderRepositoryAdapter.findAll error:', error);
+      throw new DatabaseError('Failed to fetch paper orders from database');
+    }
+  }
+
+  async findById(id: string, userId: string): Promise<PaperOrder | null> {
+    try {
+      const order = await this.client.paperOrder.findFirst({ where: { id, userId } });
+      return order ? toEntity(order) : null;
+    } catch (error) {
+      logger.error('PaperOrderRepositoryAdapter.findById error:', error);
+      throw new DatabaseError('Failed to fetch paper order from database');
+    }
+  }
+
+  async findOpen(paperAccountId?: string): Promise<PaperOrder[]> {
+    try {
+      const orders = await this.client.paperOrder.findMany({
+        where: { status: 'open', ...(paperAccountId && { paperAccountId }) },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return orders.map(toEntity);
+    } catch (error) {
+      logger.error('PaperOrderRepositoryAdapter.findOpen error:', error);
+      throw new DatabaseError('Failed to fetch open paper orders from database');
+    }
+  }
+
+  async create(order: PaperOrder): Promise<PaperOrder> {
+    try {
+      const created = await this.client.paperOrder.create({
+        data: {
+          userId: order.userId,
+          paperAccountId: order.paperAccountId,
+          stockId: order.stockId,
+          side: order.side,
+          type: order.type,
+          quantity: order.quantity,
+          limitPrice: order.limitPrice,
+          stopPrice: order.stopPrice,
+          status: order.status,
+        },
+      });
+
+      return toEntity(created);
+    } catch (error) {
+      logger.error('PaperOrderRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create paper order in database');
+    }
+  }
+
+  async updateIfOpen(id: string, data: Partial<PaperOrder>): Promise<boolean> {
+    try {
+      const result = await this.client.paperOrder.updateMany({
+        where: { id, status: 'open' },
+        data: {
+          status: data.status,
+          filledPrice: data.filledPrice,
+          commission: data.commission,
+          tax: data.tax,
+          filledAt: data.filledAt,
+          transactionId: data.transactionId,
+          rejectReason: data.rejectReason,
+        },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error('PaperOrderRepositoryAdapter.updateIfOpen error:', error);
+      throw new DatabaseError('Failed to update paper order in database');
+    }
+  }
+
+  async applySplit(stockId: string, ratio: number): Promise<number> {
+    try {
+      // 지정가/발동가가 없는 주문은 NULL 유지
+      const result = await this.client.paperOrder.updateMany({
+        where: { stockId, status: 'open' },
+        data: {
+          quantity: { multiply: ratio },
+          limitPrice: { divide: ratio },
+          stopPrice: { divide: ratio },
+        },
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('PaperOrderRepositoryAdapter.applySplit error:', error);
+      throw new DatabaseError('Failed to adjust paper orders in database');
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { IPortfolioAccountRepository } from '../repositories/IPortfolioAccountRepository';
+import { PortfolioAccount, PortfolioAccountType } from '../entities/PortfolioAccount';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, PortfolioAccount as PortfolioAccountRecord } from '@prisma/client';
+
+const toEntity = (record: PortfolioAccountRecord): PortfolioAccount =>
+  new PortfolioAccount(
+    record.id,
+    record.userId,
+    record.name,
+    record.type as PortfolioAccountType,
+    record.broker,
+    record.isDefault,
+    record.createdAt,
+    record.updatedAt
+  );
+
+export class PortfolioAccountRepositoryAdapter implements IPortfolioAccountRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): PortfolioAccountRepositoryAdapter {
+    return new PortfolioAccountRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findAll(userId: string): Promise<PortfolioAccount[]> {
+    try {
+      const accounts = await this.client.portfolioAccount.findMany({
+        where: { userId },
+        orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+      });
+
+      return accounts.map(toEntity);
+    } catch (error) {
+      logger.error('PortfolioAccountRepositoryAdapter.findAll error:', error);
+      throw new DatabaseError('Failed to fetch portfolio accounts from database');
+    }
+  }
+
+  async findById(id: string, userId: string): Promise<PortfolioAccount | null> {
+    try {
+      const account = await this.client.portfolioAccount.findFirst({
+        where: { id, userId },
+      });
+
+      return account ? toEntity(account) : null;
+    } catch (error) {
+      logger.error('PortfolioAccountRepositoryAdapter.findById error:', error);
+      throw new DatabaseError('Failed to fetch portfolio account from database');
+    }
+  }
+
+  async findByName(userId: string, name: string): Promise<PortfolioAccount | null> {
+    try {
+      const account = await this.client.portfolioAccount.findUnique({
+        where: { userId_name: { userId, name } },
+      });
+
+      return account ? toEntity(account) : null;
+    } catch (error) {
+      logger.error('PortfolioAccountRepositoryAdapter.findByName error:', error);
+      throw new DatabaseError('Failed to fetch portfolio account from database');
+    }
+  }
+
+  async findDefault(userId: string): Promise<PortfolioAccount | null> {
+    try {
+      const account = await this.client.portfolioAccount.findFirst({
+        where: { userId, isDefault: true },
+      });
+
+      return account ? toEntity(account) : null;
+    } catch (error) {
+      logger.error('PortfolioAccountRepositoryAdapter.findDefault error:', error);
+      throw new DatabaseError('Failed to fetch default portfolio account from database');
+    }
+  }
+
+  async create(account: PortfolioAccount): Promise<PortfolioAccount> {
+    try {
+      const created = await this.client.portfolioAccount.create({
+        data: {
+          userId: account.userId,
+          name: account.name,
+          type: account.type,
+          broker: account.broker,
+          isDefault: account.isDefault,
+        },
+      });
+
+      return toEntity(created);
+    } catch (error) {
+      logger.error('PortfolioAccountRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create portfolio account in database');
+    }
+  }
+
+  async update(id: string, data: Partial<PortfolioAccount>): Promise<PortfolioAccount> {
+    try {
+      const updated = await this.client.portfolioAccount.update({
+        where: { id },
+        data: {
+          name: data.name,
+          type: data.type,
+          broker: data.broker,
+          isDefault: data.isDefault,
+        },
+      });
+
+      return toEntity(updated);
+    } catch (error) {
+      logger.error('PortfolioAccountRepositoryAdapter.update error:', error);
+      throw new DatabaseError('Failed to update portfolio account in database');
+    }
+  }
+
+  async clearDefault(userId: string): Promise<void> {
+    try {
+      await this.client.portfolioAccount.updateMany({
+        where: { userId, isDefault: true },
+        data: { isDefault: false },
+      });
+    } catch (error) {
+      logger.error('PortfolioAccountRepositoryAdapter.clearDefault error:', error);
+      throw new DatabaseError('Failed to update portfolio accounts in database');
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.client.portfolioAccount.delete({ where: { id } });
+    } catch (error) {
+      logger.error('PortfolioAccountRepositoryAdapter.delete error:', error);
+      throw new DatabaseError('Failed to delete portfolio account from database');
+    }
+  }
+}
@@ -24,10 +24,10 @@ export class PortfolioRepositoryAdapter implements IPortfolioRepository {
     return this.tx || prisma;
   }
 
-  async findAll(userId: string): Promise<Portfolio[]> {
+  async findAll(userId: string, accountId?: string): Promise<Portfolio[]> {
     try {
       const portfolios = await this.client.portfolio.findMany({
-        where: { userId },
+        where: { userId, ...(accountId && { accountId }) },
         include: { stock: true },
         orderBy: { createdAt: 'desc' },
       });
@@ -36,6 +36,7 @@ export class PortfolioRepositoryAdapter implements IPortfolioRepository {
         new Portfolio(
           p.id,
           p.userId,
+          p.accountId,
           p.stockId,
           p.quantity,
           p.averagePrice,
@@ -65,6 +66,7 @@ export class PortfolioRepositoryAdapter implements IPortfolioRepository {
       return new Portfolio(
         portfolio.id,
         portfolio.userId,
+        portfolio.accountId,
         portfolio.stockId,
         portfolio.quantity,
         portfolio.averagePrice,
@@ -81,12 +83,10 @@ export class PortfolioRepositoryAdapter implements IPortfolioRepository {
     }
   }
 
-  async findByUserAndStock(userId: string, stockId: string): Promise<Portfolio | null> {
+  async findByAccountAndStock(userId: string, accountId: string | null, stockId: string): Promise<Portfolio | null> {
     try {
-      const portfolio = await this.client.portfolio.findUnique({
-        where: {
-          userId_stockId: { userId, stockId },
-        },
+      const portfolio = await this.client.portfolio.findFirst({
+        where: { userId, accountId, stockId },
         include: { stock: true },
       });
 
@@ -95,6 +95,7 @@ export class PortfolioRepositoryAdapter implements IPortfolioRepository {
       return new Portfolio(
         portfolio.id,
         portfolio.userId,
+        portfolio.accountId,
         portfolio.stockId,
         portfolio.quantity,
         portfolio.averagePrice,
@@ -106,7 +107,7 @@ export class PortfolioRepositoryAdapter implements IPortfolioRepository {
         portfolio.updatedAt
       ).recalculate(portfolio.stock.currentPrice);
     } catch (error) {
-      logger.error('PortfolioRepositoryAdapter.findByUserAndStock error:', error);
+      logger.error('PortfolioRepositoryAdapter.findByAccountAndStock error:', error);
       throw new DatabaseError('Failed to fetch portfolio from database');
     }
   }
@@ -116,6 +117,7 @@ export class PortfolioRepositoryAdapter implements IPortfolioRepository {
       const created = await this.client.portfolio.create({
         data: {
           userId: portfolio.userId,
+          accountId: portfolio.accountId,
           stockId: portfolio.stockId,
           quantity: portfolio.quantity,
           averagePrice: portfolio.averagePrice,
@@ -130,6 +132,7 @@ export class PortfolioRepositoryAdapter implements IPortfolioRepository {
       return new Portfolio(
         created.id,
         created.userId,
+        created.accountId,
         created.stockId,
         created.quantity,
         created.averagePrice,
@@ -164,6 +167,7 @@ export class PortfolioRepositoryAdapter implements IPortfolioRepository {
       return new Portfolio(
         updated.id,
         updated.userId,
+        updated.accountId,
         updated.stockId,
         updated.quantity,
         updated.averagePrice,
@@ -180,6 +184,20 @@ export class PortfolioRepositoryAdapter implements IPortfolioRepository {
     }
   }
 
+  async assignAccount(userId: string, accountId: string): Promise<number> {
+    try {
+      const result = await this.client.portfolio.updateMany({
+        where: { userId, accountId: null },
+        data: { accountId },
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('PortfolioRepositoryAdapter.assignAccount error:', error);
+      throw new DatabaseError('Failed to assign portfolio account in database');
+    }
+  }
+
   async delete(id: string): Promise<void> {
     try {
       await this.client.portfolio.delete({ where: { id } });
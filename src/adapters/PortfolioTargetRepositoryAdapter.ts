@@ -0,0 +1,80 @@
+import { IPortfolioTargetRepository } from '../repositories/IPortfolioTargetRepository';
+import { PortfolioTarget, PortfolioTargetType } from '../entities/PortfolioTarget';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, PortfolioTarget as PortfolioTargetRecord } from '@prisma/client';
+
+const toEntity = (record: PortfolioTargetRecord): PortfolioTarget =>
+  new PortfolioTarget(
+    record.id,
+    record.userId,
+    record.type as PortfolioTargetType,
+    record.key,
+    record.weight,
+    record.createdAt,
+    record.updatedAt
+  );
+
+export class PortfolioTargetRepositoryAdapter implements IPortfolioTargetRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): PortfolioTargetRepositoryAdapter {
+    return new PortfolioTargetRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findByUser(userId: string): Promise<PortfolioTarget[]> {
+    try {
+      const targets = await this.client.portfolioTarget.findMany({
+        where: { userId },
+        orderBy: [{ weight: 'desc' }, { key: 'asc' }],
+      });
+
+      return targets.map(toEntity);
+    } catch (error) {
+      logger.error('PortfolioTargetRepositoryAdapter.findByUser error:', error);
+      throw new DatabaseError('Failed to fetch portfolio targets from database');
+    }
+  }
+
+  async createMany(targets: PortfolioTarget[]): Promise<number> {
+    try {
+      const result = await this.client.portfolioTarget.createMany({
+        data: targets.map((target) => ({
+          userId: target.userId,
+          type: target.type,
+          key: target.key,
+          weight: target.weight,
+        })),
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('PortfolioTargetRepositoryAdapter.createMany error:', error);
+      throw new DatabaseError('Failed to create portfolio targets in database');
+    }
+  }
+
+  async deleteByUser(userId: string): Promise<void> {
+    try {
+      await this.client.portfolioTarget.deleteMany({
+        where: { userId },
+      });
+    } catch (error) {
+      logger.error('PortfolioTargetRepositoryAdapter.deleteByUser error:', error);
+      throw new DatabaseError('Failed to delete portfolio targets from database');
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import {
+  IPortfolioTransactionRepository,
+  PortfolioTransactionFilter,
+} from '../repositories/IPortfolioTransactionRepository';
+import { PortfolioTransaction, PortfolioTransactionType } from '../entities/PortfolioTransaction';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, PortfolioTransaction as PortfolioTransactionRecord } from '@prisma/client';
+
+const toEntity = (record: PortfolioTransactionRecord): PortfolioTransaction =>
+  new PortfolioTransaction(
+    record.id,
+    record.userId,
+    record.accountId,
+    record.stockId,
+    record.type as PortfolioTransactionType,
+    record.quantity,
+    record.price,
+    record.fee,
+    record.executedAt,
+    record.memo,
+    record.createdAt
+  );
+
+export class PortfolioTransactionRepositoryAdapter implements IPortfolioTransactionRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): PortfolioTransactionRepositoryAdapter {
+    return new PortfolioTransactionRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findAll(userId: string, filter: PortfolioTransactionFilter = {}): Promise<{
+    data: PortfolioTransaction[];
+    total: number;
+  }> {
+    try {
+      const where = {
+        userId,
+        ...(filter.accountId && { accountId: filter.accountId }),
+        ...(filter.stockId && { stockId: filter.stockId }),
+        ...(filter.type && { type: filter.type }),
+      };
+      const [transactions, total] = await Promise.all([
+        this.client.portfolioTransaction.findMany({
+          where,
+          orderBy: [{ executedAt: 'desc' }, { createdAt: 'desc' }],
+          take: filter.limit,
+          skip: filter.offset,
+        }),
+        this.client.portfolioTransaction.count({ where }),
+      ]);
+
+      return { data: transactions.map(toEntity), total };
+    } catch (error) {
+      logger.error('PortfolioTransactionRepositoryAdapter.findAll error:', error);
+      throw new DatabaseError('Failed to fetch portfolio transactions from database');
+    }
+  }
+
+  async findById(id: string, userId: string): Promise<PortfolioTransaction | null> {
+    try {
+      const transaction = await this.client.portfolioTransaction.findFirst({
+        where: { id, userId },
+      });
+
+      return transaction ? toEntity(transaction) : null;
+    } catch (error) {
+      logger.error('PortfolioTransactionRepositoryAdapter.findById error:', error);
+      throw new DatabaseError('Failed to fetch portfolio transaction from database');
+    }
+  }
+
+  async findByAccountAndStock(userId: string, accountId: string, stockId: string): Promise<PortfolioTransaction[]> {
+    try {
+      const transactions = await this.client.portfolioTransaction.findMany({
+        where: { userId, accountId, stockId },
+        orderBy: [{ executedAt: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      return transactions.map(toEntity);
+    } catch (error) {
+      logger.error('PortfolioTransactionRepositoryAdapter.findByAccountAndStock error:', error);
+      throw new DatabaseError('Failed to fetch portfolio transactions from database');
+    }
+  }
+
+  async create(transaction: PortfolioTransaction): Promise<PortfolioTransaction> {
+    try {
+      const created = await this.client.portfolioTransaction.create({
+        data: {
+          userId: transaction.userId,
+          accountId: transaction.accountId,
+          stockId: transaction.stockId,
+          type: transaction.type,
+          quantity: transaction.quantity,
+          price: transaction.price,
+          fee: transaction.fee,
+          executedAt: transaction.executedAt,
+          memo: transaction.memo,
+        },
+      });
+
+      return toEntity(created);
+    } catch (error) {
+      logger.error('PortfolioTransactionRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create portfolio transaction in database');
+    }
+  }
+
+  async createMany(transactions: PortfolioTransaction[]): Promise<number> {
+    if (transactions.length === 0) return 0;
+
+    try {
+      const result = await this.client.portfolioTransaction.createMany({
+        data: transactions.map((transaction) => ({
+          userId: transaction.userId,
+          accountId: transaction.accountId,
+          stockId: transaction.stockId,
+          type: transaction.type,
+          quantity: transaction.quantity,
+          price: transaction.price,
+          fee: transaction.fee,
+          executedAt: transaction.executedAt,
+          memo: transaction.memo,
+        })),
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('PortfolioTransactionRepositoryAdapter.createMany error:', error);
+      throw new DatabaseError('Failed to create portfolio transactions in database');
+    }
+  }
+
+  async update(id: string, data: Partial<PortfolioTransaction>): Promise<PortfolioTransaction> {
+    try {
+      const updated = await this.client.portfolioTransaction.update({
+        where: { id },
+        data: {
+          quantity: data.quantity,
+          price: data.price,
+          fee: data.fee,
+          executedAt: data.executedAt,
+          memo: data.memo,
+        },
+      });
+
+      return toEntity(updated);
+    } catch (error) {
+      logger.error('PortfolioTransactionRepositoryAdapter.update error:', error);
+      throw new DatabaseError('Failed to update portfolio transaction in database');
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.client.portfolioTransaction.delete({ where: { id } });
+    } catch (error) {
+      logger.error('PortfolioTransactionRepositoryAdapter.delete error:', error);
+      throw new DatabaseError('Failed to delete portfolio transaction from database');
+    }
+  }
+
+  async deleteByAccountAndStock(userId: string, accountId: string, stockId: string): Promise<void> {
+    try {
+      await this.client.portfolioTransaction.deleteMany({ where: { userId, accountId, stockId } });
+    } catch (error) {
+      logger.error('PortfolioTransactionRepositoryAdapter.deleteByAccountAndStock error:', error);
+      throw new DatabaseError('Failed to delete portfolio transactions from database');
+    }
+  }
+
+  async assignAccount(userId: string, accountId: string): Promise<number> {
+    try {
+      const result = await this.client.portfolioTransaction.updateMany({
+        where: { userId, accountId: null },
+        data: { accountId },
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('PortfolioTransactionRepositoryAdapter.assignAccount error:', error);
+      throw new DatabaseError('Failed to assign portfolio account in database');
+    }
+  }
+
+  async findAccountsByStock(stockId: string, before: Date): Promise<Array<{ userId: string; accountId: string }>> {
+    try {
+      const rows = await this.client.portfolioTransaction.findMany({
+        where: { stockId, accountId: { not: null }, executedAt: { lt: before } },
+        select: { userId: true, accountId: true },
+        distinct: ['userId', 'accountId'],
+      });
+
+      return rows.map((row) => ({ userId: row.userId, accountId: row.accountId as string }));
+    } catch (error) {
+      logger.error('PortfolioTransactionRepositoryAdapter.findAccountsByStock error:', error);
+      throw new DatabaseError('Failed to fetch portfolio accounts from database');
+    }
+  }
+
+  async countUnassignedByStock(stockId: string): Promise<number> {
+    try {
+      return await this.client.portfolioTransaction.count({ where: { stockId, accountId: null } });
+    } catch (error) {
+      logger.error('PortfolioTransactionRepositoryAdapter.countUnassignedByStock error:', error);
+      throw new DatabaseError('Failed to count portfolio transactions in database');
+    }
+  }
+}
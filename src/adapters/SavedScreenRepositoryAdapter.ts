@@ -0,0 +1,126 @@
+import { ISavedScreenRepository } from '../repositories/ISavedScreenRepository';
+import { SavedScreen, ScreenerExpression, ScreenerSort } from '../entities/SavedScreen';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, SavedScreen as SavedScreenRecord } from '@prisma/client';
+
+const toEntity = (record: SavedScreenRecord): SavedScreen =>
+  new SavedScreen(
+    record.id,
+    record.userId,
+    record.name,
+    (record.filter as unknown as ScreenerExpression) ?? null,
+    (record.sort as unknown as ScreenerSort) ?? null,
+    record.createdAt,
+    record.updatedAt
+  );
+
+// 엔티티 JSON 필드 → Prisma 입력 (null은 DB NULL)
+const toJson = (value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined =>
+  value === undefined ? undefined : value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+
+export class SavedScreenRepositoryAdapter implements ISavedScreenRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): SavedScreenRepositoryAdapter {
+    return new SavedScreenRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findByUser(userId: string): Promise<SavedScreen[]> {
+    try {
+      const screens = await this.client.savedScreen.findMany({
+        where: { userId },
+        orderBy: { updatedAt: 'desc' },
+      });
+
+      return screens.map(toEntity);
+    } catch (error) {
+      logger.error('SavedScreenRepositoryAdapter.findByUser error:', error);
+      throw new DatabaseError('Failed to fetch saved screens from database');
+    }
+  }
+
+  async findById(id: string, userId: string): Promise<SavedScreen | null> {
+    try {
+      const screen = await this.client.savedScreen.findFirst({
+        where: { id, userId },
+      });
+
+      return screen ? toEntity(screen) : null;
+    } catch (error) {
+      logger.error('SavedScreenRepositoryAdapter.findById error:', error);
+      throw new DatabaseError('Failed to fetch saved screen from database');
+    }
+  }
+
+  async findByName(userId: string, name: string): Promise<SavedScreen | null> {
+    try {
+      const screen = await this.client.savedScreen.findUnique({
+        where: { userId_name: { userId, name } },
+      });
+
+      return screen ? toEntity(screen) : null;
+    } catch (error) {
+      logger.error('SavedScreenRepositoryAdapter.findByName error:', error);
+      throw new DatabaseError('Failed to fetch saved screen from database');
+    }
+  }
+
+  async create(screen: SavedScreen): Promise<SavedScreen> {
+    try {
+      const created = await this.client.savedScreen.create({
+        data: {
+          userId: screen.userId,
+          name: screen.name,
+          filter: toJson(screen.filter),
+          sort: toJson(screen.sort),
+        },
+      });
+
+      return toEntity(created);
+    } catch (error) {
+      logger.error('SavedScreenRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create saved screen in database');
+    }
+  }
+
+  async update(id: string, data: Partial<Pick<SavedScreen, 'name' | 'filter' | 'sort'>>): Promise<SavedScreen> {
+    try {
+      const updated = await this.client.savedScreen.update({
+        where: { id },
+        data: {
+          name: data.name,
+          filter: toJson(data.filter),
+          sort: toJson(data.sort),
+        },
+      });
+
+      return toEntity(updated);
+    } catch (error) {
+      logger.error('SavedScreenRepositoryAdapter.update error:', error);
+      throw new DatabaseError('Failed to update saved screen in database');
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.client.savedScreen.delete({ where: { id } });
+    } catch (error) {
+      logger.error('SavedScreenRepositoryAdapter.delete error:', error);
+      throw new DatabaseError('Failed to delete saved screen from database');
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { ISessionRepository } from '../repositories/ISessionRepository';
+import { Session } from '../entities/Session';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, Session as SessionRecord } from '@prisma/client';
+
+const toEntity = (record: SessionRecord): Session =>
+  new Session(
+    record.id,
+    record.userId,
+    record.refreshTokenHash,
+    record.previousTokenHash,
+    record.userAgent,
+    record.ipAddress,
+    record.expiresAt,
+    record.lastUsedAt,
+    record.revokedAt,
+    record.createdAt
+  );
+
+export class SessionRepositoryAdapter implements ISessionRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): SessionRepositoryAdapter {
+    return new SessionRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findById(id: string): Promise<Session | null> {
+    try {
+      const session = await this.client.session.findUnique({ where: { id } });
+
+      return session ? toEntity(session) : null;
+    } catch (error) {
+      logger.error('SessionRepositoryAdapter.findById error:', error);
+      throw new DatabaseError('Failed to fetch session from database');
+    }
+  }
+
+  async findActive(userId: string, now: Date): Promise<Session[]> {
+    try {
+      const sessions = await this.client.session.findMany({
+        where: { userId, revokedAt: null, expiresAt: { gt: now } },
+        orderBy: { lastUsedAt: 'desc' },
+      });
+
+      return sessions.map(toEntity);
+    } catch (error) {
+      logger.error('SessionRepositoryAdapter.findActive error:', error);
+      throw new DatabaseError('Failed to fetch sessions from database');
+    }
+  }
+
+  async create(session: Session): Promise<Session> {
+    try {
+      const created = await this.client.session.create({
+        data: {
+          userId: session.userId,
+          refreshTokenHash: session.refreshTokenHash,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          expiresAt: session.expiresAt,
+        },
+      });
+
+      return toEntity(created);
+    } catch (error) {
+      logger.error('SessionRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create session in database');
+    }
+  }
+
+  async rotate(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<boolean> {
+    try {
+      const result = await this.client.session.updateMany({
+        where: { id, refreshTokenHash: currentHash, revokedAt: null },
+        data: {
+          refreshTokenHash: nextHash,
+          previousTokenHash: currentHash,
+          expiresAt,
+          lastUsedAt: new Date(),
+        },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error('SessionRepositoryAdapter.rotate error:', error);
+      throw new DatabaseError('Failed to update session in database');
+    }
+  }
+
+  async revoke(id: string): Promise<void> {
+    try {
+      await this.client.session.updateMany({
+        where: { id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+    } catch (error) {
+      logger.error('SessionRepositoryAdapter.revoke error:', error);
+      throw new DatabaseError('Failed to revoke session in database');
+    }
+  }
+
+  async revokeAll(userId: string): Promise<number> {
+    try {
+      const result = await this.client.session.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('SessionRepositoryAdapter.revokeAll error:', error);
+      throw new DatabaseError('Failed to revoke sessions in database');
+    }
+  }
+}
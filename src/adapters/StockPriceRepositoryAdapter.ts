@@ -0,0 +1,136 @@
+import { IStockPriceRepository } from '../repositories/IStockPriceRepository';
+import { StockPrice } from '../entities/StockPrice';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, StockPrice as StockPriceRecord } from '@prisma/client';
+
+const toEntity = (record: StockPriceRecord): StockPrice =>
+  new StockPrice(
+    record.id,
+    record.stockId,
+    record.date,
+    record.open,
+    record.high,
+    record.low,
+    record.close,
+    record.volume,
+    record.change,
+    record.changeRate,
+    record.adjFactor
+  );
+
+export class StockPriceRepositoryAdapter implements IStockPriceRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): StockPriceRepositoryAdapter {
+    return new StockPriceRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findByStock(stockId: string, from: Date, to?: Date): Promise<StockPrice[]> {
+    try {
+      const prices = await this.client.stockPrice.findMany({
+        where: {
+          stockId,
+          date: { gte: from, ...(to && { lte: to }) },
+        },
+        orderBy: { date: 'asc' },
+      });
+
+      return prices.map(toEntity);
+    } catch (error) {
+      logger.error('StockPriceRepositoryAdapter.findByStock error:', error);
+      throw new DatabaseError('Failed to fetch stock prices from database');
+    }
+  }
+
+  async findByStocks(stockIds: string[], from: Date, to?: Date): Promise<StockPrice[]> {
+    if (stockIds.length === 0) return [];
+
+    try {
+      // Batch query 최적화: WHERE stockId IN (...) 사용
+      const prices = await this.client.stockPrice.findMany({
+        where: {
+          stockId: { in: stockIds },
+          date: { gte: from, ...(to && { lte: to }) },
+        },
+        orderBy: { date: 'asc' },
+      });
+
+      return prices.map(toEntity);
+    } catch (error) {
+      logger.error('StockPriceRepositoryAdapter.findByStocks error:', error);
+      throw new DatabaseError('Failed to fetch stock prices from database');
+    }
+  }
+
+  async findLatestBefore(stockId: string, before: Date, limit: number): Promise<StockPrice[]> {
+    if (limit <= 0) return [];
+
+    try {
+      const prices = await this.client.stockPrice.findMany({
+        where: { stockId, date: { lt: before } },
+        orderBy: { date: 'desc' },
+        take: limit,
+      });
+
+      return prices.reverse().map(toEntity);
+    } catch (error) {
+      logger.error('StockPriceRepositoryAdapter.findLatestBefore error:', error);
+      throw new DatabaseError('Failed to fetch stock prices from database');
+    }
+  }
+
+  async upsertMany(prices: StockPrice[]): Promise<number> {
+    try {
+      for (const price of prices) {
+        const data = {
+          open: price.open,
+          high: price.high,
+          low: price.low,
+          close: price.close,
+          volume: price.volume,
+          change: price.change,
+          changeRate: price.changeRate,
+        };
+        await this.client.stockPrice.upsert({
+          where: { stockId_date: { stockId: price.stockId, date: price.date } },
+          // 수정주가 계수는 새 일봉에만 지정 (기존 일봉은 기업 이벤트 적용 시 누적된 값 유지)
+          create: { stockId: price.stockId, date: price.date, adjFactor: price.adjFactor, ...data },
+          update: data,
+        });
+      }
+
+      return prices.length;
+    } catch (error) {
+      logger.error('StockPriceRepositoryAdapter.upsertMany error:', error);
+      throw new DatabaseError('Failed to save stock prices to database');
+    }
+  }
+
+  async applyAdjustment(stockId: string, before: Date, factor: number): Promise<number> {
+    try {
+      const result = await this.client.stockPrice.updateMany({
+        where: { stockId, date: { lt: before } },
+        data: { adjFactor: { multiply: factor } },
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('StockPriceRepositoryAdapter.applyAdjustment error:', error);
+      throw new DatabaseError('Failed to adjust stock prices in database');
+    }
+  }
+}
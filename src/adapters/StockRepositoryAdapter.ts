@@ -45,7 +45,9 @@ export class StockRepositoryAdapter implements IStockRepository {
         stock.changeRate,
         stock.volume,
         stock.createdAt,
-        stock.updatedAt
+        stock.updatedAt,
+        stock.currency,
+        stock.marketCap
       );
     } catch (error) {
       logger.error('StockRepositoryAdapter.findById error:', error);
@@ -74,7 +76,9 @@ export class StockRepositoryAdapter implements IStockRepository {
         stock.changeRate,
         stock.volume,
         stock.createdAt,
-        stock.updatedAt
+        stock.updatedAt,
+        stock.currency,
+        stock.marketCap
       );
     } catch (error) {
       logger.error('StockRepositoryAdapter.findByCode error:', error);
@@ -106,7 +110,9 @@ export class StockRepositoryAdapter implements IStockRepository {
             stock.changeRate,
             stock.volume,
             stock.createdAt,
-            stock.updatedAt
+            stock.updatedAt,
+            stock.currency,
+            stock.marketCap
           )
       );
     } catch (error) {
@@ -139,7 +145,9 @@ export class StockRepositoryAdapter implements IStockRepository {
             stock.changeRate,
             stock.volume,
             stock.createdAt,
-            stock.updatedAt
+            stock.updatedAt,
+            stock.currency,
+            stock.marketCap
           )
       );
     } catch (error) {
@@ -147,4 +155,86 @@ export class StockRepositoryAdapter implements IStockRepository {
       throw new DatabaseError('Failed to fetch stocks from database');
     }
   }
+
+  async findAll(): Promise<Stock[]> {
+    try {
+      const stocks = await this.client.stock.findMany({ orderBy: { code: 'asc' } });
+
+      return stocks.map(
+        (stock) =>
+          new Stock(
+            stock.id,
+            stock.code,
+            stock.name,
+            stock.market,
+            stock.sector,
+            stock.currentPrice,
+            stock.change,
+            stock.changeRate,
+            stock.volume,
+            stock.createdAt,
+            stock.updatedAt,
+            stock.currency,
+            stock.marketCap
+          )
+      );
+    } catch (error) {
+      logger.error('StockRepositoryAdapter.findAll error:', error);
+      throw new DatabaseError('Failed to fetch stocks from database');
+    }
+  }
+
+  async search(query: string, limit: number): Promise<Stock[]> {
+    try {
+      const stocks = await this.client.stock.findMany({
+        where: {
+          OR: [
+            { name: { contains: query, mode: 'insensitive' } },
+            { code: { startsWith: query } },
+          ],
+        },
+        orderBy: { code: 'asc' },
+        take: limit,
+      });
+
+      return stocks.map(
+        (stock) =>
+          new Stock(
+            stock.id,
+            stock.code,
+            stock.name,
+            stock.market,
+            stock.sector,
+            stock.currentPrice,
+            stock.change,
+            stock.changeRate,
+            stock.volume,
+            stock.createdAt,
+            stock.updatedAt,
+            stock.currency,
+            stock.marketCap
+          )
+      );
+    } catch (error) {
+      logger.error('StockRepositoryAdapter.search error:', error);
+      throw new DatabaseError('Failed to search stocks from database');
+    }
+  }
+
+  async updateQuote(id: string, quote: Pick<Stock, 'currentPrice' | 'change' | 'changeRate' | 'volume'>): Promise<void> {
+    try {
+      await this.client.stock.update({
+        where: { id },
+        data: {
+          currentPrice: quote.currentPrice,
+          change: quote.change,
+          changeRate: quote.changeRate,
+          volume: quote.volume,
+        },
+      });
+    } catch (error) {
+      logger.error('StockRepositoryAdapter.updateQuote error:', error);
+      throw new DatabaseError('Failed to update stock quote in database');
+    }
+  }
 }
@@ -0,0 +1,201 @@
+import { IStockThemeRepository } from '../repositories/IStockThemeRepository';
+import { StockTheme } from '../entities/StockTheme';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma } from '@prisma/client';
+
+const INCLUDE_MEMBERS = {
+  members: {
+    select: { stockId: true },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+  },
+} satisfies Prisma.StockThemeInclude;
+
+type StockThemeRecord = Prisma.StockThemeGetPayload<{ include: typeof INCLUDE_MEMBERS }>;
+
+const toEntity = (record: StockThemeRecord): StockTheme =>
+  new StockTheme(
+    record.id,
+    record.name,
+    record.description,
+    record.sortOrder,
+    record.isActive,
+    record.members.map((member) => member.stockId),
+    record.createdAt,
+    record.updatedAt
+  );
+
+export class StockThemeRepositoryAdapter implements IStockThemeRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): StockThemeRepositoryAdapter {
+    return new StockThemeRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findAll(includeInactive: boolean = false): Promise<StockTheme[]> {
+    try {
+      const themes = await this.client.stockTheme.findMany({
+        where: includeInactive ? {} : { isActive: true },
+        include: INCLUDE_MEMBERS,
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      });
+
+      return themes.map(toEntity);
+    } catch (error) {
+      logger.error('StockThemeRepositoryAdapter.findAll error:', error);
+      throw new DatabaseError('Failed to fetch stock themes from database');
+    }
+  }
+
+  async findById(id: string): Promise<StockTheme | null> {
+    try {
+      const theme = await this.client.stockTheme.findUnique({
+        where: { id },
+        include: INCLUDE_MEMBERS,
+      });
+
+      return theme ? toEntity(theme) : null;
+    } catch (error) {
+      logger.error('StockThemeRepositoryAdapter.findById error:', error);
+      throw new DatabaseError('Failed to fetch stock theme from database');
+    }
+  }
+
+  async findByName(name: string): Promise<StockTheme | null> {
+    try {
+      const theme = await this.client.stockTheme.findUnique({
+        where: { name },
+        include: INCLUDE_MEMBERS,
+      });
+
+      return theme ? toEntity(theme) : null;
+    } catch (error) {
+      logger.error('StockThemeRepositoryAdapter.findByName error:', error);
+      throw new DatabaseError('Failed to fetch stock theme from database');
+    }
+  }
+
+  async create(theme: StockTheme): Promise<StockTheme> {
+    try {
+      const created = await this.client.stockTheme.create({
+        data: {
+          name: theme.name,
+          description: theme.description,
+          sortOrder: theme.sortOrder,
+          isActive: theme.isActive,
+          members: {
+            create: theme.stockIds.map((stockId, index) => ({ stockId, sortOrder: index })),
+          },
+        },
+        include: INCLUDE_MEMBERS,
+      });
+
+      return toEntity(created);
+    } catch (error) {
+      logger.error('StockThemeRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create stock theme in database');
+    }
+  }
+
+  async update(
+    id: string,
+    data: Partial<Pick<StockTheme, 'name' | 'description' | 'sortOrder' | 'isActive'>>
+  ): Promise<StockTheme> {
+    try {
+      const updated = await this.client.stockTheme.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: data.description,
+          sortOrder: data.sortOrder,
+          isActive: data.isActive,
+        },
+        include: INCLUDE_MEMBERS,
+      });
+
+      return toEntity(updated);
+    } catch (error) {
+      logger.error('StockThemeRepositoryAdapter.update error:', error);
+      throw new DatabaseError('Failed to update stock theme in database');
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.client.stockTheme.delete({ where: { id } });
+    } catch (error) {
+      logger.error('StockThemeRepositoryAdapter.delete error:', error);
+      throw new DatabaseError('Failed to delete stock theme from database');
+    }
+  }
+
+  async replaceMembers(themeId: string, stockIds: string[]): Promise<StockTheme> {
+    try {
+      await this.client.stockThemeMember.deleteMany({ where: { themeId } });
+      await this.client.stockThemeMember.createMany({
+        data: stockIds.map((stockId, index) => ({ themeId, stockId, sortOrder: index })),
+      });
+
+      const updated = await this.client.stockTheme.update({
+        where: { id: themeId },
+        data: { updatedAt: new Date() },
+        include: INCLUDE_MEMBERS,
+      });
+      return toEntity(updated);
+    } catch (error) {
+      logger.error('StockThemeRepositoryAdapter.replaceMembers error:', error);
+      throw new DatabaseError('Failed to replace stock theme members in database');
+    }
+  }
+
+  async addMembers(themeId: string, stockIds: string[]): Promise<StockTheme> {
+    try {
+      const last = await this.client.stockThemeMember.aggregate({
+        where: { themeId },
+        _max: { sortOrder: true },
+      });
+      const start = (last._max.sortOrder ?? -1) + 1;
+
+      await this.client.stockThemeMember.createMany({
+        data: stockIds.map((stockId, index) => ({ themeId, stockId, sortOrder: start + index })),
+        skipDuplicates: true,
+      });
+
+      const updated = await this.client.stockTheme.update({
+        where: { id: themeId },
+        data: { updatedAt: new Date() },
+        include: INCLUDE_MEMBERS,
+      });
+      return toEntity(updated);
+    } catch (error) {
+      logger.error('StockThemeRepositoryAdapter.addMembers error:', error);
+      throw new DatabaseError('Failed to add stock theme members in database');
+    }
+  }
+
+  async removeMember(themeId: string, stockId: string): Promise<boolean> {
+    try {
+      const result = await this.client.stockThemeMember.deleteMany({
+        where: { themeId, stockId },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error('StockThemeRepositoryAdapter.removeMember error:', error);
+      throw new DatabaseError('Failed to remove stock theme member from database');
+    }
+  }
+}
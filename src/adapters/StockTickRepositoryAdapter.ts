@@ -0,0 +1,79 @@
+import { IStockTickRepository } from '../repositories/IStockTickRepository';
+import { StockTick } from '../entities/StockTick';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, StockTick as StockTickRecord } from '@prisma/client';
+
+const toEntity = (record: StockTickRecord): StockTick =>
+  new StockTick(record.id, record.stockId, record.timestamp, record.price, record.volume);
+
+export class StockTickRepositoryAdapter implements IStockTickRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): StockTickRepositoryAdapter {
+    return new StockTickRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findByStock(stockId: string, from: Date, to?: Date): Promise<StockTick[]> {
+    try {
+      const ticks = await this.client.stockTick.findMany({
+        where: {
+          stockId,
+          timestamp: { gte: from, ...(to && { lte: to }) },
+        },
+        orderBy: { timestamp: 'asc' },
+      });
+
+      return ticks.map(toEntity);
+    } catch (error) {
+      logger.error('StockTickRepositoryAdapter.findByStock error:', error);
+      throw new DatabaseError('Failed to fetch stock ticks from database');
+    }
+  }
+
+  async createMany(ticks: StockTick[]): Promise<number> {
+    if (ticks.length === 0) return 0;
+
+    try {
+      const result = await this.client.stockTick.createMany({
+        data: ticks.map((tick) => ({
+          stockId: tick.stockId,
+          timestamp: tick.timestamp,
+          price: tick.price,
+          volume: tick.volume,
+        })),
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('StockTickRepositoryAdapter.createMany error:', error);
+      throw new DatabaseError('Failed to create stock ticks in database');
+    }
+  }
+
+  async deleteBefore(before: Date): Promise<number> {
+    try {
+      const result = await this.client.stockTick.deleteMany({
+        where: { timestamp: { lt: before } },
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('StockTickRepositoryAdapter.deleteBefore error:', error);
+      throw new DatabaseError('Failed to delete stock ticks from database');
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { IUserRepository } from '../repositories/IUserRepository';
+import { User, UserRole } from '../entities/User';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { ConflictError, DatabaseError } from '../errors/AppError';
+import { Prisma, User as UserRecord } from '@prisma/client';
+
+const toEntity = (record: UserRecord): User =>
+  new User(
+    record.id,
+    record.email,
+    record.name,
+    record.role as UserRole,
+    record.passwordHash,
+    record.createdAt,
+    record.updatedAt
+  );
+
+export class UserRepositoryAdapter implements IUserRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): UserRepositoryAdapter {
+    return new UserRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findById(id: string): Promise<User | null> {
+    try {
+      const user = await this.client.user.findUnique({ where: { id } });
+
+      return user ? toEntity(user) : null;
+    } catch (error) {
+      logger.error('UserRepositoryAdapter.findById error:', error);
+      throw new DatabaseError('Failed to fetch user from database');
+    }
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    try {
+      const user = await this.client.user.findUnique({ where: { email } });
+
+      return user ? toEntity(user) : null;
+    } catch (error) {
+      logger.error('UserRepositoryAdapter.findByEmail error:', error);
+      throw new DatabaseError('Failed to fetch user from database');
+    }
+  }
+
+  async create(user: User): Promise<User> {
+    try {
+      const created = await this.client.user.create({
+        data: {
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          passwordHash: user.passwordHash,
+        },
+      });
+
+      return toEntity(created);
+    } catch (error) {
+      // 동시 가입으로 이메일 unique 제약 위반
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('Email already registered');
+      }
+      logger.error('UserRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create user in database');
+    }
+  }
+}
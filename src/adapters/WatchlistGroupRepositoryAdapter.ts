@@ -0,0 +1,133 @@
+import { IWatchlistGroupRepository } from '../repositories/IWatchlistGroupRepository';
+import { WatchlistGroup } from '../entities/WatchlistGroup';
+import { prisma } from '../config/prisma';
+import { logger } from '../config/logger';
+import { DatabaseError } from '../errors/AppError';
+import { Prisma, WatchlistGroup as WatchlistGroupRecord } from '@prisma/client';
+
+const toEntity = (record: WatchlistGroupRecord): WatchlistGroup =>
+  new WatchlistGroup(record.id, record.userId, record.name, record.position, record.createdAt, record.updatedAt);
+
+export class WatchlistGroupRepositoryAdapter implements IWatchlistGroupRepository {
+  /**
+   * 트랜잭션 클라이언트를 선택적으로 받을 수 있도록 확장
+   * 트랜잭션이 없으면 기본 prisma 클라이언트 사용
+   */
+  constructor(private readonly tx?: Prisma.TransactionClient) {}
+
+  /**
+   * 트랜잭션 클라이언트를 사용하는 새로운 인스턴스 생성
+   * 트랜잭션 내에서 Repository를 사용할 때 호출
+   */
+  static withTransaction(tx: Prisma.TransactionClient): WatchlistGroupRepositoryAdapter {
+    return new WatchlistGroupRepositoryAdapter(tx);
+  }
+
+  private get client() {
+    return this.tx || prisma;
+  }
+
+  async findAll(userId: string): Promise<WatchlistGroup[]> {
+    try {
+      const groups = await this.client.watchlistGroup.findMany({
+        where: { userId },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      return groups.map(toEntity);
+    } catch (error) {
+      logger.error('WatchlistGroupRepositoryAdapter.findAll error:', error);
+      throw new DatabaseError('Failed to fetch watchlist groups from database');
+    }
+  }
+
+  async findById(id: string, userId: string): Promise<WatchlistGroup | null> {
+    try {
+      const group = await this.client.watchlistGroup.findFirst({ where: { id, userId } });
+
+      return group ? toEntity(group) : null;
+    } catch (error) {
+      logger.error('WatchlistGroupRepositoryAdapter.findById error:', error);
+      throw new DatabaseError('Failed to fetch watchlist group from database');
+    }
+  }
+
+  async findByName(userId: string, name: string): Promise<WatchlistGroup | null> {
+    try {
+      const group = await this.client.watchlistGroup.findUnique({
+        where: { userId_name: { userId, name } },
+      });
+
+      return group ? toEntity(group) : null;
+    } catch (error) {
+      logger.error('WatchlistGroupRepositoryAdapter.findByName error:', error);
+      throw new DatabaseError('Failed to fetch watchlist group from database');
+    }
+  }
+
+  async countByUser(userId: string): Promise<number> {
+    try {
+      return await this.client.watchlistGroup.count({ where: { userId } });
+    } catch (error) {
+      logger.error('WatchlistGroupRepositoryAdapter.countByUser error:', error);
+      throw new DatabaseError('Failed to count watchlist groups in database');
+    }
+  }
+
+  async maxPosition(userId: string): Promise<number> {
+    try {
+      const result = await this.client.watchlistGroup.aggregate({
+        where: { userId },
+        _max: { position: true },
+      });
+
+      return result._max.position ?? -1;
+    } catch (error) {
+      logger.error('WatchlistGroupRepositoryAdapter.maxPosition error:', error);
+      throw new DatabaseError('Failed to fetch watchlist groups from database');
+    }
+  }
+
+  async create(group: WatchlistGroup): Promise<WatchlistGroup> {
+    try {
+      const created = await this.client.watchlistGroup.create({
+        data: {
+          userId: group.userId,
+          name: group.name,
+          position: group.position,
+        },
+      });
+
+      return toEntity(created);
+    } catch (error) {
+      logger.error('WatchlistGroupRepositoryAdapter.create error:', error);
+      throw new DatabaseError('Failed to create watchlist group in database');
+    }
+  }
+
+  async update(id: string, data: Partial<Pick<WatchlistGroup, 'name' | 'position'>>): Promise<WatchlistGroup> {
+    try {
+      const updated = await this.client.watchlistGroup.update({
+        where: { id },
+        data: {
+          name: data.name,
+          position: data.position,
+        },
+      });
+
+      return toEntity(updated);
+    } catch (error) {
+      logger.error('WatchlistGroupRepositoryAdapter.update error:', error);
+      throw new DatabaseError('Failed to update watchlist group in database');
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.client.watchlistGroup.delete({ where: { id } });
+    } catch (error) {
+      logger.error('WatchlistGroupRepositoryAdapter.delete error:', error);
+      throw new DatabaseError('Failed to delete watchlist group from database');
+    }
+  }
+}
@@ -137,7 +137,10 @@ export async function createApp(): Promise<FastifyInstance> {
   });
 
   // API Routes
+  const authRoutes = (await import('./routes/AuthRoutes')).default;
   const portfolioRoutes = (await import('./routes/PortfolioRoutes')).default;
+  const paperTradingRoutes = (await import('./routes/PaperTradingRoutes')).default;
+  const backtestRoutes = (await import('./routes/BacktestRoutes')).default;
   const stockRoutes = (await import('./routes/StockRoutes')).default;
   const marketRoutes = (await import('./routes/MarketRoutes')).default;
   const favoriteRoutes = (await import('./routes/FavoriteRoutes')).default;
@@ -152,8 +155,16 @@ export async function createApp(): Promise<FastifyInstance> {
   const searchRoutes = (await import('./routes/SearchRoutes')).default;
   const monitoringRoutes = (await import('./routes/MonitoringRoutes')).default;
   const logRoutes = (await import('./routes/LogRoutes')).default;
+  const adminThemeRoutes = (await import('./routes/AdminThemeRoutes')).default;
+  const adminCorporateActionRoutes = (await import('./routes/AdminCorporateActionRoutes')).default;
+  const alertRoutes = (await import('./routes/AlertRoutes')).default;
+  const webSocketRoutes = (await import('./routes/WebSocketRoutes')).default;
+  const notificationRoutes = (await import('./routes/NotificationRoutes')).default;
 
+  await app.register(authRoutes, { prefix: '/api/auth' });
   await app.register(portfolioRoutes, { prefix: '/api/portfolio' });
+  await app.register(paperTradingRoutes, { prefix: '/api/paper' });
+  await app.register(backtestRoutes, { prefix: '/api/backtests' });
   await app.register(stockRoutes, { prefix: '/api/stocks' });
   await app.register(marketRoutes, { prefix: '/api/market' });
   await app.register(favoriteRoutes, { prefix: '/api/favorites' });
@@ -168,6 +179,11 @@ export async function createApp(): Promise<FastifyInstance> {
   await app.register(searchRoutes, { prefix: '/api/search' });
   await app.register(monitoringRoutes, { prefix: '/api/monitoring' });
   await app.register(logRoutes, { prefix: '/api/logs' });
+  await app.register(adminThemeRoutes, { prefix: '/api/admin/themes' });
+  await app.register(adminCorporateActionRoutes, { prefix: '/api/admin/corporate-actions' });
+  await app.register(alertRoutes, { prefix: '/api/alerts' });
+  await app.register(webSocketRoutes, { prefix: '/api/ws' });
+  await app.register(notificationRoutes, { prefix: '/api/notifications' });
 
   // Global Error Handler
   const { errorHandler } = await import('./middlewares/error-handler');
@@ -0,0 +1,118 @@
+/**
+ * Broker CSV Mappings
+ * 증권사별 거래내역 CSV 내보내기 컬럼 매핑
+ *
+ * 컬럼명은 후보 목록 중 헤더에 처음 나오는 것을 사용
+ * 수수료(fee)는 후보 컬럼을 모두 합산 (수수료 + 제세금 등)
+ * 증권사 형식이 바뀌었거나 목록에 없으면 업로드 시 mapping 필드로 직접 지정
+ */
+
+import { PortfolioTransactionType } from '../entities/PortfolioTransaction';
+
+export const BROKER_CSV_FORMATS = ['generic', 'kiwoom', 'mirae', 'samsung', 'nh', 'kb'] as const;
+
+export type BrokerCsvFormat = (typeof BROKER_CSV_FORMATS)[number];
+
+export interface BrokerCsvMapping {
+  columns: {
+    executedAt: string[];
+    type: string[];
+    code: string[];
+    quantity: string[];
+    price: string[];
+    fee: string[]; // 합산
+    memo: string[];
+  };
+  typeLabels: Record<string, PortfolioTransactionType>; // 거래구분 값 → 거래 유형
+}
+
+// 국내 증권사 공통 거래구분 값
+const KOREAN_TYPE_LABELS: Record<string, PortfolioTransactionType> = {
+  매수: 'buy',
+  현금매수: 'buy',
+  장내매수: 'buy',
+  매도: 'sell',
+  현금매도: 'sell',
+  장내매도: 'sell',
+  배당: 'dividend',
+  배당금: 'dividend',
+  배당금입금: 'dividend',
+  현금배당: 'dividend',
+  액면분할: 'split',
+  주식분할: 'split',
+};
+
+export const BROKER_CSV_MAPPINGS: Record<BrokerCsvFormat, BrokerCsvMapping> = {
+  generic: {
+    columns: {
+      executedAt: ['date', 'executedAt', '거래일자', '체결일자'],
+      type: ['type', '거래구분', '매매구분'],
+      code: ['code', 'stockId', '종목코드'],
+      quantity: ['quantity', '수량', '체결수량'],
+      price: ['price', '단가', '체결단가'],
+      fee: ['fee', 'tax', '수수료', '제세금'],
+      memo: ['memo', '메모'],
+    },
+    typeLabels: { buy: 'buy', sell: 'sell', dividend: 'dividend', split: 'split', fee: 'fee', ...KOREAN_TYPE_LABELS },
+  },
+  kiwoom: {
+    columns: {
+      executedAt: ['거래일자', '주문일자'],
+      type: ['거래구분', '매매구분'],
+      code: ['종목번호', '종목코드'],
+      quantity: ['체결수량', '거래수량'],
+      price: ['체결단가', '거래단가'],
+      fee: ['수수료', '제세금', '거래세', '농특세'],
+      memo: ['적요'],
+    },
+    typeLabels: KOREAN_TYPE_LABELS,
+  },
+  mirae: {
+    columns: {
+      executedAt: ['거래일자', '거래일'],
+      type: ['거래종류', '거래구분'],
+      code: ['종목코드'],
+      quantity: ['거래수량', '수량'],
+      price: ['거래단가', '단가'],
+      fee: ['수수료', '제세금', '유관기관수수료'],
+      memo: ['적요명'],
+    },
+    typeLabels: KOREAN_TYPE_LABELS,
+  },
+  samsung: {
+    columns: {
+      executedAt: ['거래일자', '일자'],
+      type: ['거래명', '거래구분'],
+      code: ['종목코드', '종목번호'],
+      quantity: ['수량', '거래수량'],
+      price: ['단가', '거래단가'],
+      fee: ['수수료', '세금', '제세금'],
+      memo: ['적요'],
+    },
+    typeLabels: KOREAN_TYPE_LABELS,
+  },
+  nh: {
+    columns: {
+      executedAt: ['거래일자', '처리일자'],
+      type: ['거래구분', '적요명'],
+      code: ['종목코드'],
+      quantity: ['거래수량', '수량'],
+      price: ['거래단가', '단가'],
+      fee: ['수수료', '제세금합', '제세금'],
+      memo: ['비고'],
+    },
+    typeLabels: KOREAN_TYPE_LABELS,
+  },
+  kb: {
+    columns: {
+      executedAt: ['거래일', '거래일자'],
+      type: ['거래유형', '거래구분'],
+      code: ['종목코드'],
+      quantity: ['수량', '거래수량'],
+      price: ['단가', '거래단가'],
+      fee: ['수수료', '세금', '제세금'],
+      memo: ['적요'],
+    },
+    typeLabels: KOREAN_TYPE_LABELS,
+  },
+};
@@ -0,0 +1,34 @@
+/**
+ * Chart Constants
+ * 차트 조회 기간(period)과 봉 간격(interval)
+ */
+
+import { INTRADAY_INTERVALS, IntradayInterval } from '../utils/ohlc-resample';
+
+// 조회 기간 → 일(day) 수
+
+export const CHART_PERIOD_DAYS: Record<string, number> = {
+  '1d': 1,
+  '1w': 7,
+  '1m': 30,
+  '3m': 90,
+  '6m': 180,
+  '1y': 365,
+  '3y': 1095,
+  '5y': 1825,
+};
+
+export const DEFAULT_CHART_PERIOD = '1m';
+
+// 분봉(틱 집계), 일봉, 주봉/월봉(일봉 리샘플링)
+export const CHART_INTERVALS = [...INTRADAY_INTERVALS, '1d', '1w', '1M'] as const;
+
+export const DEFAULT_CHART_INTERVAL = '1d';
+
+// 분봉 최대 조회 기간 (일), 더 긴 period는 이 기간으로 잘라서 조회
+export const INTRADAY_MAX_PERIOD_DAYS: Record<IntradayInterval, number> = {
+  '1m': 5,
+  '5m': 10,
+  '15m': 20,
+  '60m': 30,
+};
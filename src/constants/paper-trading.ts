@@ -0,0 +1,12 @@
+/**
+ * Paper Trading Constants
+ * 모의투자 기본 설정 (계좌 개설 시 요청 값이 없으면 사용)
+ */
+
+export const PAPER_TRADING = {
+  DEFAULT_INITIAL_CASH: Number(process.env.PAPER_INITIAL_CASH) || 10_000_000, // 1천만원
+  MAX_INITIAL_CASH: 10_000_000_000,
+  DEFAULT_COMMISSION_RATE: Number(process.env.PAPER_COMMISSION_RATE) || 0.00015, // 0.015% (매수/매도)
+  DEFAULT_TAX_RATE: Number(process.env.PAPER_TAX_RATE) || 0.002, // 증권거래세(농특세 포함) 0.2% (매도)
+  MAX_RATE: 0.01, // 수수료율/세율 상한 1%
+} as const;
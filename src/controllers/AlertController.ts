@@ -0,0 +1,70 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IAlertFacade } from '../facades/IAlertFacade';
+import { CreateAlertDto } from '../dto/alert/CreateAlertDto';
+import { UpdateAlertDto } from '../dto/alert/UpdateAlertDto';
+
+export class AlertController {
+  constructor(private readonly alertFacade: IAlertFacade) {}
+
+  async getAlerts(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const query = request.query as { stockId?: string; isActive?: string };
+    const isActive = query.isActive === undefined ? undefined : query.isActive === 'true';
+
+    const alerts = await this.alertFacade.getAlerts(userId, { stockId: query.stockId, isActive });
+
+    reply.send({
+      success: true,
+      data: alerts,
+    });
+  }
+
+  async getAlert(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+
+    const alert = await this.alertFacade.getAlert(id, userId);
+
+    reply.send({
+      success: true,
+      data: alert,
+    });
+  }
+
+  async createAlert(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const dto = CreateAlertDto.from(request.body);
+
+    const alert = await this.alertFacade.createAlert(userId, dto);
+
+    reply.status(201).send({
+      success: true,
+      data: alert,
+    });
+  }
+
+  async updateAlert(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+    const dto = UpdateAlertDto.from(request.body);
+
+    const alert = await this.alertFacade.updateAlert(id, userId, dto);
+
+    reply.send({
+      success: true,
+      data: alert,
+    });
+  }
+
+  async deleteAlert(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+
+    await this.alertFacade.deleteAlert(id, userId);
+
+    reply.send({
+      success: true,
+      message: 'Alert deleted successfully',
+    });
+  }
+}
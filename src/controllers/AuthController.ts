@@ -0,0 +1,80 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { AuthClientInfo, IAuthFacade } from '../facades/IAuthFacade';
+import { SignupDto } from '../dto/auth/SignupDto';
+import { LoginDto } from '../dto/auth/LoginDto';
+import { RefreshTokenDto } from '../dto/auth/RefreshTokenDto';
+
+const toClientInfo = (request: FastifyRequest): AuthClientInfo => ({
+  userAgent: request.headers['user-agent'],
+  ipAddress: request.ip,
+});
+
+export class AuthController {
+  constructor(private readonly authFacade: IAuthFacade) {}
+
+  async signup(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const dto = SignupDto.from(request.body);
+
+    const result = await this.authFacade.signup(dto, toClientInfo(request));
+
+    reply.status(201).send({
+      success: true,
+      data: result,
+    });
+  }
+
+  async login(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const dto = LoginDto.from(request.body);
+
+    const result = await this.authFacade.login(dto, toClientInfo(request));
+
+    reply.send({
+      success: true,
+      data: result,
+    });
+  }
+
+  async refresh(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const dto = RefreshTokenDto.from(request.body);
+
+    const result = await this.authFacade.refresh(dto);
+
+    reply.send({
+      success: true,
+      data: result,
+    });
+  }
+
+  async logout(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const dto = RefreshTokenDto.from(request.body);
+
+    await this.authFacade.logout(dto);
+
+    reply.send({
+      success: true,
+      message: 'Logged out successfully',
+    });
+  }
+
+  async revokeAll(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+
+    const result = await this.authFacade.revokeAll(userId);
+
+    reply.send({
+      success: true,
+      data: result,
+    });
+  }
+
+  async getMe(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+
+    const user = await this.authFacade.getMe(userId);
+
+    reply.send({
+      success: true,
+      data: user,
+    });
+  }
+}
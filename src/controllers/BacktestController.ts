@@ -0,0 +1,66 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IBacktestFacade } from '../facades/IBacktestFacade';
+import { CreateBacktestDto } from '../dto/backtest/CreateBacktestDto';
+import { parseQueryInt } from '../utils/query';
+import { PAGINATION } from '../constants/pagination';
+
+export class BacktestController {
+  constructor(private readonly backtestFacade: IBacktestFacade) {}
+
+  async createBacktest(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const dto = CreateBacktestDto.from(request.body);
+
+    const backtest = await this.backtestFacade.createBacktest(userId, dto);
+
+    // 실행은 큐 워커가 비동기로 처리
+    reply.status(202).send({
+      success: true,
+      data: backtest,
+    });
+  }
+
+  async getBacktests(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const query = request.query as { limit?: string; offset?: string };
+    const limit = parseQueryInt(query.limit, PAGINATION.DEFAULT_PAGE_SIZE, PAGINATION.MIN_PAGE_SIZE, PAGINATION.MAX_PAGE_SIZE);
+    const offset = parseQueryInt(query.offset, 0, 0);
+
+    const result = await this.backtestFacade.getBacktests(userId, { limit, offset });
+
+    reply.send({
+      success: true,
+      data: result.data,
+      meta: {
+        total: result.total,
+        limit,
+        offset,
+        hasMore: offset + result.data.length < result.total,
+      },
+    });
+  }
+
+  async getBacktest(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+
+    const backtest = await this.backtestFacade.getBacktest(id, userId);
+
+    reply.send({
+      success: true,
+      data: backtest,
+    });
+  }
+
+  async deleteBacktest(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+
+    await this.backtestFacade.deleteBacktest(id, userId);
+
+    reply.send({
+      success: true,
+      message: 'Backtest deleted successfully',
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { ICorporateActionFacade } from '../facades/ICorporateActionFacade';
+import { CreateCorporateActionDto } from '../dto/corporate/CreateCorporateActionDto';
+import { CorporateActionQueryDto } from '../dto/corporate/CorporateActionQueryDto';
+
+export class CorporateActionController {
+  constructor(private readonly corporateActionFacade: ICorporateActionFacade) {}
+
+  async getActions(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const query = CorporateActionQueryDto.from(request.query);
+    const actions = await this.corporateActionFacade.getActions(query);
+
+    reply.send({
+      success: true,
+      data: actions,
+    });
+  }
+
+  async getAction(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const action = await this.corporateActionFacade.getAction(id);
+
+    reply.send({
+      success: true,
+      data: action,
+    });
+  }
+
+  async createAction(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const dto = CreateCorporateActionDto.from(request.body);
+    const action = await this.corporateActionFacade.createAction(dto);
+
+    reply.status(201).send({
+      success: true,
+      data: action,
+    });
+  }
+
+  async applyAction(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const action = await this.corporateActionFacade.applyAction(id);
+
+    reply.send({
+      success: true,
+      data: action,
+    });
+  }
+
+  async deleteAction(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    await this.corporateActionFacade.deleteAction(id);
+
+    reply.send({
+      success: true,
+      message: 'Corporate action deleted successfully',
+    });
+  }
+}
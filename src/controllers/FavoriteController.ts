@@ -1,6 +1,7 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { IFavoriteFacade } from '../facades/IFavoriteFacade';
 import { CreateFavoriteDto } from '../dto/favorite/CreateFavoriteDto';
+import { UpdateFavoriteDto } from '../dto/favorite/UpdateFavoriteDto';
 import { ValidationError, UnauthorizedError } from '../errors/AppError';
 import { logger } from '../config/logger';
 
@@ -36,6 +37,19 @@ export class FavoriteController {
     });
   }
 
+  async updateFavorite(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+    const dto = UpdateFavoriteDto.from(request.body);
+
+    const favorite = await this.favoriteFacade.updateFavorite(id, userId, dto);
+
+    reply.send({
+      success: true,
+      data: favorite,
+    });
+  }
+
   async removeFavorite(request: FastifyRequest, reply: FastifyReply): Promise<void> {
     const { id } = request.params as { id: string };
     const userId = request.userId!;
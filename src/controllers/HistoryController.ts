@@ -1,6 +1,7 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { IHistoryFacade } from '../facades/IHistoryFacade';
 import { CreateHistoryDto } from '../dto/history/CreateHistoryDto';
+import { HistoryInsightsQueryDto } from '../dto/history/HistoryInsightsQueryDto';
 import { BadRequestError } from '../errors/AppError';
 import { parseQueryInt } from '../utils/query';
 import { PAGINATION } from '../constants/pagination';
@@ -28,6 +29,31 @@ export class HistoryController {
     });
   }
 
+  async getInsights(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const query = HistoryInsightsQueryDto.from(request.query);
+
+    const insights = await this.historyFacade.getInsights(userId, query);
+
+    reply.send({
+      success: true,
+      data: insights,
+    });
+  }
+
+  async getContinueViewing(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const query = request.query as { limit?: string };
+    const limit = parseQueryInt(query.limit, 10, 1, 50);
+
+    const items = await this.historyFacade.getContinueViewing(userId, limit);
+
+    reply.send({
+      success: true,
+      data: items,
+    });
+  }
+
   async addHistory(request: FastifyRequest, reply: FastifyReply): Promise<void> {
     const userId = request.userId!;
     const dto = CreateHistoryDto.from(request.body);
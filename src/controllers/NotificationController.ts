@@ -0,0 +1,98 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { INotificationFacade } from '../facades/INotificationFacade';
+import { UpdateNotificationPreferencesDto } from '../dto/notification/UpdateNotificationPreferencesDto';
+import { NOTIFICATION_TYPES, NotificationType } from '../entities/Notification';
+import { BadRequestError } from '../errors/AppError';
+import { parseQueryInt } from '../utils/query';
+import { PAGINATION } from '../constants/pagination';
+
+export class NotificationController {
+  constructor(private readonly notificationFacade: INotificationFacade) {}
+
+  async getNotifications(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const query = request.query as { type?: string; unreadOnly?: string; limit?: string; offset?: string };
+    if (query.type && !NOTIFICATION_TYPES.includes(query.type as NotificationType)) {
+      throw new BadRequestError(`Invalid notification type: ${query.type}`);
+    }
+    const limit = parseQueryInt(query.limit, PAGINATION.DEFAULT_PAGE_SIZE, PAGINATION.MIN_PAGE_SIZE, PAGINATION.MAX_PAGE_SIZE);
+    const offset = parseQueryInt(query.offset, 0, 0);
+
+    const result = await this.notificationFacade.getNotifications(userId, {
+      type: query.type as NotificationType | undefined,
+      unreadOnly: query.unreadOnly === 'true',
+      limit,
+      offset,
+    });
+
+    reply.send({
+      success: true,
+      data: result.data,
+      meta: {
+        total: result.total,
+        unread: result.unread,
+        limit,
+        offset,
+        hasMore: offset + result.data.length < result.total,
+      },
+    });
+  }
+
+  async markRead(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+
+    const notification = await this.notificationFacade.markRead(id, userId);
+
+    reply.send({
+      success: true,
+      data: notification,
+    });
+  }
+
+  async markAllRead(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+
+    const updated = await this.notificationFacade.markAllRead(userId);
+
+    reply.send({
+      success: true,
+      data: { updated },
+    });
+  }
+
+  async deleteNotification(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+
+    await this.notificationFacade.deleteNotification(id, userId);
+
+    reply.send({
+      success: true,
+      message: 'Notification deleted successfully',
+    });
+  }
+
+  async getPreferences(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+
+    const preferences = await this.notificationFacade.getPreferences(userId);
+
+    reply.send({
+      success: true,
+      data: preferences,
+    });
+  }
+
+  async updatePreferences(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const dto = UpdateNotificationPreferencesDto.from(request.body);
+
+    const preferences = await this.notificationFacade.updatePreferences(userId, dto);
+
+    reply.send({
+      success: true,
+      data: preferences,
+    });
+  }
+}
@@ -0,0 +1,99 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IPaperTradingFacade } from '../facades/IPaperTradingFacade';
+import { OpenPaperAccountDto } from '../dto/paper/OpenPaperAccountDto';
+import { CreatePaperOrderDto } from '../dto/paper/CreatePaperOrderDto';
+import { PAPER_ORDER_STATUSES, PaperOrderStatus } from '../entities/PaperOrder';
+import { BadRequestError } from '../errors/AppError';
+import { parseQueryInt } from '../utils/query';
+import { PAGINATION } from '../constants/pagination';
+
+export class PaperTradingController {
+  constructor(private readonly paperTradingFacade: IPaperTradingFacade) {}
+
+  async getAccount(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const account = await this.paperTradingFacade.getAccount(userId);
+
+    reply.send({
+      success: true,
+      data: account,
+    });
+  }
+
+  async openAccount(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const dto = OpenPaperAccountDto.from(request.body);
+
+    const account = await this.paperTradingFacade.openAccount(userId, dto);
+
+    reply.status(201).send({
+      success: true,
+      data: account,
+    });
+  }
+
+  async closeAccount(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+
+    await this.paperTradingFacade.closeAccount(userId);
+
+    reply.send({
+      success: true,
+      message: 'Paper account closed successfully',
+    });
+  }
+
+  async getOrders(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const query = request.query as { status?: string; stockId?: string; limit?: string; offset?: string };
+    const limit = parseQueryInt(query.limit, PAGINATION.DEFAULT_PAGE_SIZE, PAGINATION.MIN_PAGE_SIZE, PAGINATION.MAX_PAGE_SIZE);
+    const offset = parseQueryInt(query.offset, 0, 0);
+
+    if (query.status && !PAPER_ORDER_STATUSES.includes(query.status as PaperOrderStatus)) {
+      throw new BadRequestError(`status must be one of ${PAPER_ORDER_STATUSES.join(', ')}`);
+    }
+
+    const result = await this.paperTradingFacade.getOrders(userId, {
+      status: query.status as PaperOrderStatus | undefined,
+      stockId: query.stockId,
+      limit,
+      offset,
+    });
+
+    reply.send({
+      success: true,
+      data: result.data,
+      meta: {
+        total: result.total,
+        limit,
+        offset,
+        hasMore: offset + result.data.length < result.total,
+      },
+    });
+  }
+
+  async placeOrder(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const dto = CreatePaperOrderDto.from(request.body);
+
+    const order = await this.paperTradingFacade.placeOrder(userId, dto);
+
+    reply.status(201).send({
+      success: true,
+      data: order,
+    });
+  }
+
+  async cancelOrder(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+
+    const order = await this.paperTradingFacade.cancelOrder(id, userId);
+
+    reply.send({
+      success: true,
+      data: order,
+      message: 'Paper order cancelled successfully',
+    });
+  }
+}
@@ -2,31 +2,120 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import { IPortfolioFacade } from '../facades/IPortfolioFacade';
 import { CreatePortfolioDto } from '../dto/portfolio/CreatePortfolioDto';
 import { UpdatePortfolioDto } from '../dto/portfolio/UpdatePortfolioDto';
-import { NotFoundError } from '../errors/AppError';
+import { CreatePortfolioTransactionDto } from '../dto/portfolio/CreatePortfolioTransactionDto';
+import { RealizedGainsQueryDto } from '../dto/portfolio/RealizedGainsQueryDto';
+import { PerformanceQueryDto } from '../dto/portfolio/PerformanceQueryDto';
+import { BenchmarkQueryDto } from '../dto/portfolio/BenchmarkQueryDto';
+import { UpdatePortfolioTargetsDto } from '../dto/portfolio/UpdatePortfolioTargetsDto';
+import { RebalancePreviewDto } from '../dto/portfolio/RebalancePreviewDto';
+import { BaseCurrencyQueryDto } from '../dto/portfolio/BaseCurrencyQueryDto';
+import { AccountScopeQueryDto } from '../dto/portfolio/AccountScopeQueryDto';
+import { DividendQueryDto } from '../dto/portfolio/DividendQueryDto';
+import { ImportPortfolioTransactionsDto } from '../dto/portfolio/ImportPortfolioTransactionsDto';
+import { CreatePortfolioAccountDto } from '../dto/portfolio/CreatePortfolioAccountDto';
+import { UpdatePortfolioAccountDto } from '../dto/portfolio/UpdatePortfolioAccountDto';
+import { PORTFOLIO_TRANSACTION_TYPES, PortfolioTransactionType } from '../entities/PortfolioTransaction';
+import { NotFoundError, BadRequestError } from '../errors/AppError';
 import { logger } from '../config/logger';
+import { parseQueryInt } from '../utils/query';
+import { PAGINATION } from '../constants/pagination';
 
 export class PortfolioController {
   constructor(private readonly portfolioFacade: IPortfolioFacade) {}
 
+  async getAccounts(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const accounts = await this.portfolioFacade.getAccounts(userId);
+
+    reply.send({
+      success: true,
+      data: accounts,
+    });
+  }
+
+  async createAccount(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const dto = CreatePortfolioAccountDto.from(request.body);
+
+    const account = await this.portfolioFacade.createAccount(userId, dto);
+
+    reply.status(201).send({
+      success: true,
+      data: account,
+    });
+  }
+
+  async updateAccount(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+    const dto = UpdatePortfolioAccountDto.from(request.body);
+
+    const account = await this.portfolioFacade.updateAccount(id, userId, dto);
+
+    reply.send({
+      success: true,
+      data: account,
+    });
+  }
+
+  async deleteAccount(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+
+    await this.portfolioFacade.deleteAccount(id, userId);
+
+    reply.send({
+      success: true,
+      message: 'Portfolio account deleted successfully',
+    });
+  }
+
   async getPortfolios(request: FastifyRequest, reply: FastifyReply): Promise<void> {
     const userId = request.userId!;
-    const portfolios = await this.portfolioFacade.getPortfolios(userId);
+    const { currency } = BaseCurrencyQueryDto.from(request.query);
+    const { accountId } = AccountScopeQueryDto.from(request.query);
+    const portfolios = await this.portfolioFacade.getPortfolios(userId, currency, accountId);
 
-    // 총합 계산
-    const totalCost = portfolios.reduce((sum, p) => sum + p.totalCost, 0);
-    const currentValue = portfolios.reduce((sum, p) => sum + p.currentValue, 0);
+    // 총합 계산 (기준 통화 환산 금액)
+    const totalCost = portfolios.reduce((sum, p) => sum + (p.valuation?.totalCost ?? p.totalCost), 0);
+    const currentValue = portfolios.reduce((sum, p) => sum + (p.valuation?.currentValue ?? p.currentValue), 0);
+    const priceEffect = portfolios.reduce((sum, p) => sum + (p.valuation?.priceEffect ?? 0), 0);
+    const currencyEffect = portfolios.reduce((sum, p) => sum + (p.valuation?.currencyEffect ?? 0), 0);
     const totalProfit = currentValue - totalCost;
     const totalProfitRate = totalCost > 0 ? (totalProfit / totalCost) * 100 : 0;
 
+    // 계좌별 합계
+    const accountMap = new Map<string | null, { positionCount: number; totalCost: number; currentValue: number }>();
+    for (const p of portfolios) {
+      const account = accountMap.get(p.accountId) || { positionCount: 0, totalCost: 0, currentValue: 0 };
+      accountMap.set(p.accountId, {
+        positionCount: account.positionCount + 1,
+        totalCost: account.totalCost + (p.valuation?.totalCost ?? p.totalCost),
+        currentValue: account.currentValue + (p.valuation?.currentValue ?? p.currentValue),
+      });
+    }
+    const accounts = Array.from(accountMap.entries()).map(([id, account]) => ({
+      accountId: id,
+      ...account,
+      totalProfit: account.currentValue - account.totalCost,
+      totalProfitRate:
+        account.totalCost > 0 ? ((account.currentValue - account.totalCost) / account.totalCost) * 100 : 0,
+    }));
+
     reply.send({
       success: true,
       data: {
         portfolios,
         summary: {
+          accountId: accountId ?? null,
+          baseCurrency: currency,
           totalCost,
           currentValue,
           totalProfit,
           totalProfitRate,
+          priceEffect,
+          currencyEffect,
+          accounts,
         },
         total: portfolios.length,
       },
@@ -37,7 +126,9 @@ export class PortfolioController {
     const { id } = request.params as { id: string };
     const userId = request.userId!;
 
-    const portfolio = await this.portfolioFacade.getPortfolioById(id, userId);
+    const { currency } = BaseCurrencyQueryDto.from(request.query);
+
+    const portfolio = await this.portfolioFacade.getPortfolioById(id, userId, currency);
 
     if (!portfolio) {
       throw new NotFoundError('Portfolio');
@@ -53,7 +144,10 @@ export class PortfolioController {
     const { stockId } = request.params as { stockId: string };
     const userId = request.userId!;
 
-    const portfolio = await this.portfolioFacade.getPortfolioByStockId(userId, stockId);
+    const { accountId } = AccountScopeQueryDto.from(request.query);
+    const { currency } = BaseCurrencyQueryDto.from(request.query);
+
+    const portfolio = await this.portfolioFacade.getPortfolioByStockId(userId, stockId, accountId, currency);
 
     if (!portfolio) {
       // 404는 정상적인 상황 (포트폴리오에 없는 종목)이므로 debug 레벨로 로깅
@@ -107,11 +201,199 @@ export class PortfolioController {
 
   async getAnalysis(request: FastifyRequest, reply: FastifyReply): Promise<void> {
     const userId = request.userId!;
-    const analysis = await this.portfolioFacade.getAnalysis(userId);
+    const { method } = RealizedGainsQueryDto.from(request.query);
+    const { currency } = BaseCurrencyQueryDto.from(request.query);
+    const { accountId } = AccountScopeQueryDto.from(request.query);
+    const analysis = await this.portfolioFacade.getAnalysis(userId, method, currency, accountId);
 
     reply.send({
       success: true,
       data: analysis,
     });
   }
+
+  async getRealizedGains(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const query = RealizedGainsQueryDto.from(request.query);
+    const { accountId } = AccountScopeQueryDto.from(request.query);
+
+    const report = await this.portfolioFacade.getRealizedGains(userId, query, accountId);
+
+    reply.send({
+      success: true,
+      data: report,
+    });
+  }
+
+  async getPerformance(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const query = PerformanceQueryDto.from(request.query);
+    const { accountId } = AccountScopeQueryDto.from(request.query);
+    const { currency } = BaseCurrencyQueryDto.from(request.query);
+
+    const performance = await this.portfolioFacade.getPerformance(userId, query, currency, accountId);
+
+    reply.send({
+      success: true,
+      data: performance,
+    });
+  }
+
+  async getBenchmark(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const query = BenchmarkQueryDto.from(request.query);
+    const { accountId } = AccountScopeQueryDto.from(request.query);
+    const { currency } = BaseCurrencyQueryDto.from(request.query);
+
+    const comparison = await this.portfolioFacade.getBenchmarkComparison(userId, query, currency, accountId);
+
+    reply.send({
+      success: true,
+      data: comparison,
+    });
+  }
+
+  async getDividends(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const query = DividendQueryDto.from(request.query);
+    const { currency } = BaseCurrencyQueryDto.from(request.query);
+    const { accountId } = AccountScopeQueryDto.from(request.query);
+
+    const report = await this.portfolioFacade.getDividends(userId, query, currency, accountId);
+
+    reply.send({
+      success: true,
+      data: report,
+    });
+  }
+
+  async getTargets(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const targets = await this.portfolioFacade.getTargets(userId);
+
+    reply.send({
+      success: true,
+      data: targets,
+    });
+  }
+
+  async updateTargets(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const dto = UpdatePortfolioTargetsDto.from(request.body);
+
+    const targets = await this.portfolioFacade.updateTargets(userId, dto);
+
+    reply.send({
+      success: true,
+      data: targets,
+    });
+  }
+
+  async deleteTargets(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    await this.portfolioFacade.deleteTargets(userId);
+
+    reply.send({
+      success: true,
+      message: 'Portfolio targets deleted successfully',
+    });
+  }
+
+  async previewRebalance(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const dto = RebalancePreviewDto.from(request.body);
+    const { currency } = BaseCurrencyQueryDto.from(request.query);
+
+    const plan = await this.portfolioFacade.previewRebalance(userId, dto, currency);
+
+    reply.send({
+      success: true,
+      data: plan,
+    });
+  }
+
+  async getTransactions(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const query = request.query as { stockId?: string; type?: string; limit?: string; offset?: string };
+    const { accountId } = AccountScopeQueryDto.from(request.query);
+    const limit = parseQueryInt(query.limit, PAGINATION.DEFAULT_PAGE_SIZE, PAGINATION.MIN_PAGE_SIZE, PAGINATION.MAX_PAGE_SIZE);
+    const offset = parseQueryInt(query.offset, 0, 0);
+
+    if (query.type && !PORTFOLIO_TRANSACTION_TYPES.includes(query.type as PortfolioTransactionType)) {
+      throw new BadRequestError(`type must be one of ${PORTFOLIO_TRANSACTION_TYPES.join(', ')}`);
+    }
+
+    const result = await this.portfolioFacade.getTransactions(userId, {
+      accountId,
+      stockId: query.stockId,
+      type: query.type as PortfolioTransactionType | undefined,
+      limit,
+      offset,
+    });
+
+    reply.send({
+      success: true,
+      data: result.data,
+      meta: {
+        total: result.total,
+        limit,
+        offset,
+        hasMore: offset + result.data.length < result.total,
+      },
+    });
+  }
+
+  async createTransaction(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const dto = CreatePortfolioTransactionDto.from(request.body);
+
+    const result = await this.portfolioFacade.createTransaction(userId, dto);
+
+    reply.status(201).send({
+      success: true,
+      data: result,
+    });
+  }
+
+  /**
+   * 증권사 CSV 가져오기 (multipart: file + broker/accountId/dryRun/mapping 필드)
+   */
+  async importTransactions(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+
+    let csv: Buffer | null = null;
+    const fields: Record<string, string> = {};
+    for await (const part of request.parts()) {
+      if (part.type === 'file') {
+        csv = await part.toBuffer();
+      } else {
+        fields[part.fieldname] = String(part.value);
+      }
+    }
+
+    if (!csv) {
+      throw new BadRequestError('No file uploaded');
+    }
+
+    const dto = ImportPortfolioTransactionsDto.from(fields);
+    const result = await this.portfolioFacade.importTransactions(userId, csv, dto);
+
+    reply.status(result.committed ? 201 : 200).send({
+      success: true,
+      data: result,
+    });
+  }
+
+  async deleteTransaction(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+
+    const position = await this.portfolioFacade.deleteTransaction(id, userId);
+
+    reply.send({
+      success: true,
+      data: { position },
+      message: 'Portfolio transaction deleted successfully',
+    });
+  }
 }
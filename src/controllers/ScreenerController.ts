@@ -0,0 +1,73 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IScreenerFacade } from '../facades/IScreenerFacade';
+import { RunScreenerDto } from '../dto/screener/RunScreenerDto';
+import { SaveScreenDto } from '../dto/screener/SaveScreenDto';
+import { UpdateScreenDto } from '../dto/screener/UpdateScreenDto';
+
+export class ScreenerController {
+  constructor(private readonly screenerFacade: IScreenerFacade) {}
+
+  async runScreen(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const dto = RunScreenerDto.from(request.body);
+
+    const result = await this.screenerFacade.runScreen(dto, request.userId);
+
+    reply.send({
+      success: true,
+      data: result.data,
+      meta: {
+        total: result.total,
+        limit: dto.limit,
+        offset: dto.offset,
+        hasMore: dto.offset + result.data.length < result.total,
+      },
+    });
+  }
+
+  async getScreens(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const screens = await this.screenerFacade.getScreens(userId);
+
+    reply.send({
+      success: true,
+      data: screens,
+    });
+  }
+
+  async createScreen(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const dto = SaveScreenDto.from(request.body);
+
+    const screen = await this.screenerFacade.createScreen(userId, dto);
+
+    reply.status(201).send({
+      success: true,
+      data: screen,
+    });
+  }
+
+  async updateScreen(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+    const dto = UpdateScreenDto.from(request.body);
+
+    const screen = await this.screenerFacade.updateScreen(id, userId, dto);
+
+    reply.send({
+      success: true,
+      data: screen,
+    });
+  }
+
+  async deleteScreen(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+
+    await this.screenerFacade.deleteScreen(id, userId);
+
+    reply.send({
+      success: true,
+      message: 'Saved screen deleted successfully',
+    });
+  }
+}
@@ -3,6 +3,8 @@ import { IStockFacade } from '../facades/IStockFacade';
 import { IHistoryFacade } from '../facades/IHistoryFacade';
 import { NotFoundError } from '../errors/AppError';
 import { CreateHistoryDto } from '../dto/history/CreateHistoryDto';
+import { StockIndicatorQueryDto } from '../dto/stock/StockIndicatorQueryDto';
+import { CHART_PERIOD_DAYS, DEFAULT_CHART_INTERVAL, DEFAULT_CHART_PERIOD } from '../constants/chart';
 import { logger } from '../config/logger';
 
 export class StockController {
@@ -65,7 +67,7 @@ export class StockController {
       return;
     }
 
-    const categories = this.stockFacade.getCategories();
+    const categories = await this.stockFacade.getCategories();
     reply.send({
       success: true,
       data: categories,
@@ -74,17 +76,18 @@ export class StockController {
 
   async getStockByCode(request: FastifyRequest, reply: FastifyReply): Promise<void> {
     const { code } = request.params as { code: string };
-    const { chart, period, interval, startDate, endDate } = request.query as { 
+    const { chart, period, interval, startDate, endDate, adjusted } = request.query as { 
       chart?: string; 
       period?: string; 
       interval?: string;
       startDate?: string;
       endDate?: string;
+      adjusted?: string;
     };
 
     const includeChart = chart === 'true';
     const chartPeriod = period ? parseInt(period) : 30;
-    const chartInterval = interval || '1d'; // 1m, 5m, 15m, 30m, 1h, 1d
+    const chartInterval = interval || DEFAULT_CHART_INTERVAL; // 1m, 5m, 15m, 60m, 1d, 1w, 1M
     const dateRange = startDate && endDate ? { start: startDate, end: endDate } : null;
 
     const stockDetail = await this.stockFacade.getStockByCode(
@@ -92,7 +95,8 @@ export class StockController {
       includeChart, 
       chartPeriod,
       chartInterval as string,
-      dateRange
+      dateRange,
+      adjusted !== 'false' // 기본 수정주가
     );
 
     if (!stockDetail) {
@@ -106,7 +110,7 @@ export class StockController {
   }
 
   async getCategories(request: FastifyRequest, reply: FastifyReply): Promise<void> {
-    const categories = this.stockFacade.getCategories();
+    const categories = await this.stockFacade.getCategories();
 
     reply.send({
       success: true,
@@ -116,28 +120,19 @@ export class StockController {
 
   /**
    * 종목 차트 데이터 조회 (prices 엔드포인트)
-   * GET /api/stocks/:code/prices?period=1m&interval=1d
+   * GET /api/stocks/:code/prices?period=1m&interval=1d&adjusted=false
    */
   async getStockPrices(request: FastifyRequest, reply: FastifyReply): Promise<void> {
     const { code } = request.params as { code: string };
-    const { period, interval } = request.query as {
+    const { period, interval, adjusted } = request.query as {
       period?: string;
       interval?: string;
+      adjusted?: string;
     };
 
     // period를 일(day) 수로 변환
-    const periodMap: { [key: string]: number } = {
-      '1d': 1,
-      '1w': 7,
-      '1m': 30,
-      '3m': 90,
-      '6m': 180,
-      '1y': 365,
-      '3y': 1095,
-      '5y': 1825,
-    };
-    const chartPeriod = periodMap[period || '1m'] || 30;
-    const chartInterval = interval || '1d';
+    const chartPeriod = CHART_PERIOD_DAYS[period || DEFAULT_CHART_PERIOD] || 30;
+    const chartInterval = interval || DEFAULT_CHART_INTERVAL;
 
     // getStockByCode의 chart 기능 활용
     const stockDetail = await this.stockFacade.getStockByCode(
@@ -145,7 +140,8 @@ export class StockController {
       true, // includeChart
       chartPeriod,
       chartInterval,
-      null
+      null,
+      adjusted !== 'false' // 기본 수정주가
     );
 
     if (!stockDetail) {
@@ -160,4 +156,24 @@ export class StockController {
       },
     });
   }
+
+  /**
+   * 기술적 지표 조회
+   * GET /api/stocks/:code/indicators?set=sma20,ema50,rsi14,macd,bollinger,vwap&period=3m
+   */
+  async getIndicators(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { code } = request.params as { code: string };
+    const query = StockIndicatorQueryDto.from(request.query);
+
+    const indicators = await this.stockFacade.getIndicators(code, query);
+
+    if (!indicators) {
+      throw new NotFoundError('Stock');
+    }
+
+    reply.send({
+      success: true,
+      data: indicators,
+    });
+  }
 }
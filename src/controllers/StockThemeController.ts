@@ -0,0 +1,94 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IStockThemeFacade } from '../facades/IStockThemeFacade';
+import { CreateStockThemeDto } from '../dto/theme/CreateStockThemeDto';
+import { UpdateStockThemeDto } from '../dto/theme/UpdateStockThemeDto';
+import { StockThemeStocksDto } from '../dto/theme/StockThemeStocksDto';
+
+export class StockThemeController {
+  constructor(
+    private readonly stockThemeFacade: IStockThemeFacade,
+    private readonly includeInactive: boolean = false // admin 라우트에서는 비활성 테마도 노출
+  ) {}
+
+  async getThemes(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const themes = await this.stockThemeFacade.getThemes(this.includeInactive);
+
+    reply.send({
+      success: true,
+      data: themes,
+    });
+  }
+
+  async getTheme(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const theme = await this.stockThemeFacade.getTheme(id, this.includeInactive);
+
+    reply.send({
+      success: true,
+      data: theme,
+    });
+  }
+
+  async createTheme(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const dto = CreateStockThemeDto.from(request.body);
+    const theme = await this.stockThemeFacade.createTheme(dto);
+
+    reply.status(201).send({
+      success: true,
+      data: theme,
+    });
+  }
+
+  async updateTheme(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const dto = UpdateStockThemeDto.from(request.body);
+    const theme = await this.stockThemeFacade.updateTheme(id, dto);
+
+    reply.send({
+      success: true,
+      data: theme,
+    });
+  }
+
+  async deleteTheme(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    await this.stockThemeFacade.deleteTheme(id);
+
+    reply.send({
+      success: true,
+      message: 'Theme deleted successfully',
+    });
+  }
+
+  async replaceThemeStocks(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const dto = StockThemeStocksDto.from(request.body);
+    const theme = await this.stockThemeFacade.replaceThemeStocks(id, dto);
+
+    reply.send({
+      success: true,
+      data: theme,
+    });
+  }
+
+  async addThemeStocks(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const dto = StockThemeStocksDto.from(request.body);
+    const theme = await this.stockThemeFacade.addThemeStocks(id, dto);
+
+    reply.send({
+      success: true,
+      data: theme,
+    });
+  }
+
+  async removeThemeStock(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id, stockId } = request.params as { id: string; stockId: string };
+    await this.stockThemeFacade.removeThemeStock(id, stockId);
+
+    reply.send({
+      success: true,
+      message: 'Stock removed from theme successfully',
+    });
+  }
+}
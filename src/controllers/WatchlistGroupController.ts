@@ -0,0 +1,147 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { IWatchlistGroupFacade } from '../facades/IWatchlistGroupFacade';
+import { CreateWatchlistGroupDto } from '../dto/favorite/CreateWatchlistGroupDto';
+import { UpdateWatchlistGroupDto } from '../dto/favorite/UpdateWatchlistGroupDto';
+import { ReorderWatchlistGroupsDto } from '../dto/favorite/ReorderWatchlistGroupsDto';
+import { WatchlistItemsDto } from '../dto/favorite/WatchlistItemsDto';
+import { MoveWatchlistItemsDto } from '../dto/favorite/MoveWatchlistItemsDto';
+
+export class WatchlistGroupController {
+  constructor(private readonly watchlistGroupFacade: IWatchlistGroupFacade) {}
+
+  async getGroups(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+
+    const groups = await this.watchlistGroupFacade.getGroups(userId);
+
+    reply.send({
+      success: true,
+      data: groups,
+    });
+  }
+
+  async getGroup(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+
+    const group = await this.watchlistGroupFacade.getGroup(id, userId);
+
+    reply.send({
+      success: true,
+      data: group,
+    });
+  }
+
+  async createGroup(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const dto = CreateWatchlistGroupDto.from(request.body);
+
+    const group = await this.watchlistGroupFacade.createGroup(userId, dto);
+
+    reply.status(201).send({
+      success: true,
+      data: group,
+    });
+  }
+
+  async updateGroup(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+    const dto = UpdateWatchlistGroupDto.from(request.body);
+
+    const group = await this.watchlistGroupFacade.updateGroup(id, userId, dto);
+
+    reply.send({
+      success: true,
+      data: group,
+    });
+  }
+
+  async deleteGroup(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+
+    await this.watchlistGroupFacade.deleteGroup(id, userId);
+
+    reply.send({
+      success: true,
+      message: 'Watchlist group deleted successfully',
+    });
+  }
+
+  async reorderGroups(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const userId = request.userId!;
+    const dto = ReorderWatchlistGroupsDto.from(request.body);
+
+    const groups = await this.watchlistGroupFacade.reorderGroups(userId, dto);
+
+    reply.send({
+      success: true,
+      data: groups,
+    });
+  }
+
+  async getSnapshot(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+
+    const snapshot = await this.watchlistGroupFacade.getSnapshot(id, userId);
+
+    reply.send({
+      success: true,
+      data: snapshot,
+    });
+  }
+
+  async addItems(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+    const dto = WatchlistItemsDto.from(request.body);
+
+    const result = await this.watchlistGroupFacade.addItems(id, userId, dto);
+
+    reply.send({
+      success: true,
+      data: result,
+    });
+  }
+
+  async removeItems(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+    const dto = WatchlistItemsDto.from(request.body);
+
+    const result = await this.watchlistGroupFacade.removeItems(id, userId, dto);
+
+    reply.send({
+      success: true,
+      data: result,
+    });
+  }
+
+  async moveItems(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+    const dto = MoveWatchlistItemsDto.from(request.body);
+
+    const result = await this.watchlistGroupFacade.moveItems(id, userId, dto);
+
+    reply.send({
+      success: true,
+      data: result,
+    });
+  }
+
+  async reorderItems(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const { id } = request.params as { id: string };
+    const userId = request.userId!;
+    const dto = WatchlistItemsDto.from(request.body);
+
+    const group = await this.watchlistGroupFacade.reorderItems(id, userId, dto);
+
+    reply.send({
+      success: true,
+      data: group,
+    });
+  }
+}
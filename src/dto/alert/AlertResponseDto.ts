@@ -0,0 +1,34 @@
+import { Alert, AlertChannel, AlertType } from '../../entities/Alert';
+import { Stock } from '../../entities/Stock';
+
+export class AlertResponseDto {
+  constructor(
+    public readonly id: string,
+    public readonly stock: { id: string; code: string; name: string },
+    public readonly type: AlertType,
+    public readonly threshold: number | null,
+    public readonly channels: AlertChannel[],
+    public readonly cooldownMinutes: number,
+    public readonly isActive: boolean,
+    public readonly memo: string | null,
+    public readonly lastTriggeredAt: Date | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  static to(alert: Alert, stock: Stock | undefined): AlertResponseDto {
+    return new AlertResponseDto(
+      alert.id,
+      { id: alert.stockId, code: stock?.code ?? '', name: stock?.name ?? '' },
+      alert.type,
+      alert.threshold,
+      alert.channels,
+      alert.cooldownMinutes,
+      alert.isActive,
+      alert.memo,
+      alert.lastTriggeredAt,
+      alert.createdAt,
+      alert.updatedAt
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { ALERT_CHANNELS, ALERT_TYPES, AlertChannel, AlertType } from '../../entities/Alert';
+
+export const CreateAlertDtoSchema = z
+  .object({
+    stockId: z.string().min(1, 'Stock ID is required'), // UUID 또는 code 허용
+    type: z.enum(ALERT_TYPES),
+    // price_above/price_below: 가격(원), change_rate: 등락률 절대값(%), volume_spike: 20일 평균 대비 배수
+    threshold: z.number().positive('Threshold must be positive').optional(),
+    channels: z.array(z.enum(ALERT_CHANNELS)).max(ALERT_CHANNELS.length).default(['websocket']),
+    cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60).default(60),
+    memo: z.string().trim().max(200).optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.type !== 'negative_news' && data.threshold === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['threshold'], message: `Threshold is required for ${data.type} alerts` });
+    }
+    if (data.type === 'volume_spike' && data.threshold !== undefined && data.threshold <= 1) {
+      ctx.addIssue({ code: 'custom', path: ['threshold'], message: 'Volume spike multiple must be greater than 1' });
+    }
+  });
+
+export class CreateAlertDto {
+  constructor(
+    public readonly stockId: string,
+    public readonly type: AlertType,
+    public readonly threshold: number | undefined,
+    public readonly channels: AlertChannel[],
+    public readonly cooldownMinutes: number,
+    public readonly memo?: string
+  ) {}
+
+  static from(data: unknown): CreateAlertDto {
+    const validated = CreateAlertDtoSchema.parse(data);
+    return new CreateAlertDto(
+      validated.stockId,
+      validated.type,
+      validated.threshold,
+      [...new Set(validated.channels)],
+      validated.cooldownMinutes,
+      validated.memo
+    );
+  }
+}
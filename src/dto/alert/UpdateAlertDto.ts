@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { ALERT_CHANNELS, AlertChannel } from '../../entities/Alert';
+
+export const UpdateAlertDtoSchema = z.object({
+  threshold: z.number().positive('Threshold must be positive').optional(), // 종목/유형은 변경 불가 (새로 생성)
+  channels: z.array(z.enum(ALERT_CHANNELS)).max(ALERT_CHANNELS.length).optional(),
+  cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60).optional(),
+  isActive: z.boolean().optional(),
+  memo: z.string().trim().max(200).nullable().optional(), // null: 메모 삭제
+});
+
+export class UpdateAlertDto {
+  constructor(
+    public readonly threshold?: number,
+    public readonly channels?: AlertChannel[],
+    public readonly cooldownMinutes?: number,
+    public readonly isActive?: boolean,
+    public readonly memo?: string | null
+  ) {}
+
+  static from(data: unknown): UpdateAlertDto {
+    const validated = UpdateAlertDtoSchema.parse(data);
+    return new UpdateAlertDto(
+      validated.threshold,
+      validated.channels && [...new Set(validated.channels)],
+      validated.cooldownMinutes,
+      validated.isActive,
+      validated.memo
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { UserResponseDto } from './UserResponseDto';
+
+export class AuthResponseDto {
+  constructor(
+    public readonly user: UserResponseDto,
+    public readonly accessToken: string,
+    public readonly expiresIn: number, // access token 만료까지 초
+    public readonly refreshToken: string,
+    public readonly refreshTokenExpiresAt: Date
+  ) {}
+}
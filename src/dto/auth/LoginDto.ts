@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+export const LoginDtoSchema = z.object({
+  email: z.string().trim().toLowerCase().min(1, 'Email is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export class LoginDto {
+  constructor(
+    public readonly email: string,
+    public readonly password: string
+  ) {}
+
+  static from(data: unknown): LoginDto {
+    const validated = LoginDtoSchema.parse(data);
+    return new LoginDto(validated.email, validated.password);
+  }
+}
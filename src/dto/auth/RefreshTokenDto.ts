@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const RefreshTokenDtoSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export class RefreshTokenDto {
+  constructor(public readonly refreshToken: string) {}
+
+  static from(data: unknown): RefreshTokenDto {
+    const validated = RefreshTokenDtoSchema.parse(data);
+    return new RefreshTokenDto(validated.refreshToken);
+  }
+}
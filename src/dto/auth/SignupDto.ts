@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+export const SignupDtoSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email'),
+  password: z
+    .string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(72, 'Password must be at most 72 characters'), // bcrypt 입력 한도
+  name: z.string().trim().min(1).max(50).optional(),
+});
+
+export class SignupDto {
+  constructor(
+    public readonly email: string,
+    public readonly password: string,
+    public readonly name?: string
+  ) {}
+
+  static from(data: unknown): SignupDto {
+    const validated = SignupDtoSchema.parse(data);
+    return new SignupDto(validated.email, validated.password, validated.name);
+  }
+}
@@ -0,0 +1,15 @@
+import { User, UserRole } from '../../entities/User';
+
+export class UserResponseDto {
+  constructor(
+    public readonly id: string,
+    public readonly email: string | null,
+    public readonly name: string | null,
+    public readonly role: UserRole,
+    public readonly createdAt: Date
+  ) {}
+
+  static to(user: User): UserResponseDto {
+    return new UserResponseDto(user.id, user.email, user.name, user.role, user.createdAt);
+  }
+}
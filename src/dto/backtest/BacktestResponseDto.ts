@@ -0,0 +1,61 @@
+import {
+  Backtest,
+  BacktestEquityPoint,
+  BacktestMetrics,
+  BacktestStatus,
+  BacktestStrategy,
+  BacktestTrade,
+} from '../../entities/Backtest';
+import { Stock } from '../../entities/Stock';
+
+export class BacktestResponseDto {
+  constructor(
+    public readonly id: string,
+    public readonly name: string | null,
+    public readonly strategy: BacktestStrategy,
+    public readonly universe: Array<{ stockId: string; code: string; name: string }>,
+    public readonly from: Date,
+    public readonly to: Date,
+    public readonly initialCash: number,
+    public readonly commissionRate: number,
+    public readonly taxRate: number,
+    public readonly riskFreeRate: number,
+    public readonly status: BacktestStatus,
+    public readonly metrics: BacktestMetrics | null,
+    public readonly trades: BacktestTrade[] | undefined, // 목록 조회 시 생략
+    public readonly equityCurve: BacktestEquityPoint[] | undefined, // 목록 조회 시 생략
+    public readonly error: string | null,
+    public readonly startedAt: Date | null,
+    public readonly completedAt: Date | null,
+    public readonly createdAt: Date
+  ) {}
+
+  static to(backtest: Backtest, stocks: Stock[]): BacktestResponseDto {
+    const stockMap = new Map(stocks.map((stock) => [stock.id, stock]));
+
+    return new BacktestResponseDto(
+      backtest.id,
+      backtest.name,
+      backtest.strategy,
+      backtest.universe.map((stockId) => ({
+        stockId,
+        code: stockMap.get(stockId)?.code ?? '',
+        name: stockMap.get(stockId)?.name ?? '',
+      })),
+      backtest.from,
+      backtest.to,
+      backtest.initialCash,
+      backtest.commissionRate,
+      backtest.taxRate,
+      backtest.riskFreeRate,
+      backtest.status,
+      backtest.metrics,
+      backtest.trades ?? undefined,
+      backtest.equityCurve ?? undefined,
+      backtest.error,
+      backtest.startedAt,
+      backtest.completedAt,
+      backtest.createdAt
+    );
+  }
+}
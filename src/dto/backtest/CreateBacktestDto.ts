@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { BacktestStrategy, REBALANCE_INTERVALS } from '../../entities/Backtest';
+import { PAPER_TRADING } from '../../constants/paper-trading';
+
+// 최대 백테스트 종목 수 / 기간
+export const MAX_BACKTEST_UNIVERSE = 20;
+const MAX_BACKTEST_YEARS = 20;
+
+const BacktestStrategySchema = z.discriminatedUnion('type', [
+  z
+    .object({
+      type: z.literal('ma_crossover'),
+      fast: z.number().int().min(2).max(200).default(20),
+      slow: z.number().int().min(3).max(300).default(60),
+      maType: z.enum(['sma', 'ema']).default('sma'),
+    })
+    .refine((data) => data.fast < data.slow, { message: 'fast must be shorter than slow', path: ['fast'] }),
+  z
+    .object({
+      type: z.literal('rsi'),
+      period: z.number().int().min(2).max(100).default(14),
+      oversold: z.number().min(0).max(100).default(30),
+      overbought: z.number().min(0).max(100).default(70),
+    })
+    .refine((data) => data.oversold < data.overbought, {
+      message: 'oversold must be lower than overbought',
+      path: ['oversold'],
+    }),
+  z
+    .object({
+      type: z.literal('rebalance'),
+      interval: z.enum(REBALANCE_INTERVALS).default('1M'),
+      weights: z.record(z.string(), z.number().min(0).max(100)).optional(), // 종목 ID 또는 code → %
+    })
+    .refine((data) => !data.weights || Object.values(data.weights).reduce((sum, w) => sum + w, 0) <= 100, {
+      message: 'Sum of weights must not exceed 100',
+      path: ['weights'],
+    }),
+]);
+
+export const CreateBacktestDtoSchema = z
+  .object({
+    name: z.string().trim().max(100).optional(),
+    strategy: BacktestStrategySchema,
+    universe: z
+      .array(z.string().trim().min(1))
+      .min(1, 'At least one stock is required')
+      .max(MAX_BACKTEST_UNIVERSE, `Up to ${MAX_BACKTEST_UNIVERSE} stocks are allowed`)
+      .refine((codes) => new Set(codes).size === codes.length, 'Duplicate stocks in universe'), // 종목 ID 또는 code
+    from: z.coerce.date(),
+    to: z.coerce.date().optional(),
+    // 비용 기본값은 모의투자와 동일
+    initialCash: z.number().positive().max(PAPER_TRADING.MAX_INITIAL_CASH).default(PAPER_TRADING.DEFAULT_INITIAL_CASH),
+    commissionRate: z.number().min(0).max(PAPER_TRADING.MAX_RATE).default(PAPER_TRADING.DEFAULT_COMMISSION_RATE),
+    taxRate: z.number().min(0).max(PAPER_TRADING.MAX_RATE).default(PAPER_TRADING.DEFAULT_TAX_RATE),
+    riskFreeRate: z.number().min(0).max(0.2).default(0), // 연율 (예: 0.03 = 3%)
+  })
+  .superRefine((data, ctx) => {
+    const to = data.to ?? new Date();
+    if (data.from >= to) {
+      ctx.addIssue({ code: 'custom', path: ['from'], message: 'from must be before to' });
+    }
+    if (to.getTime() - data.from.getTime() > MAX_BACKTEST_YEARS * 366 * 24 * 60 * 60 * 1000) {
+      ctx.addIssue({ code: 'custom', path: ['from'], message: `Backtest period must not exceed ${MAX_BACKTEST_YEARS} years` });
+    }
+  });
+
+export class CreateBacktestDto {
+  constructor(
+    public readonly strategy: BacktestStrategy, // rebalance.weights 키는 서비스에서 Stock.id로 변환
+    public readonly universe: string[],
+    public readonly from: Date,
+    public readonly to: Date,
+    public readonly initialCash: number,
+    public readonly commissionRate: number,
+    public readonly taxRate: number,
+    public readonly riskFreeRate: number,
+    public readonly name?: string
+  ) {}
+
+  static from(data: unknown): CreateBacktestDto {
+    const validated = CreateBacktestDtoSchema.parse(data);
+    return new CreateBacktestDto(
+      validated.strategy,
+      validated.universe,
+      validated.from,
+      validated.to ?? new Date(),
+      validated.initialCash,
+      validated.commissionRate,
+      validated.taxRate,
+      validated.riskFreeRate,
+      validated.name
+    );
+  }
+}
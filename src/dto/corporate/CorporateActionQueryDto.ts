@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import {
+  CORPORATE_ACTION_STATUSES,
+  CORPORATE_ACTION_TYPES,
+  CorporateActionStatus,
+  CorporateActionType,
+} from '../../entities/CorporateAction';
+
+export const CorporateActionQueryDtoSchema = z.object({
+  stockId: z.string().min(1).optional(), // UUID 또는 code 허용
+  status: z.enum(CORPORATE_ACTION_STATUSES).optional(),
+  type: z.enum(CORPORATE_ACTION_TYPES).optional(),
+});
+
+export class CorporateActionQueryDto {
+  constructor(
+    public readonly stockId?: string,
+    public readonly status?: CorporateActionStatus,
+    public readonly type?: CorporateActionType
+  ) {}
+
+  static from(data: unknown): CorporateActionQueryDto {
+    const validated = CorporateActionQueryDtoSchema.parse(data ?? {});
+    return new CorporateActionQueryDto(validated.stockId, validated.status, validated.type);
+  }
+}
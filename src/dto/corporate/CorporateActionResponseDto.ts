@@ -0,0 +1,71 @@
+import { CorporateAction, CorporateActionAdjustment } from '../../entities/CorporateAction';
+import { Stock } from '../../entities/Stock';
+import { toDateKey } from '../../utils/performance-metrics';
+
+export interface CorporateActionAdjustmentResponse {
+  id: string;
+  userId: string;
+  accountId: string;
+  transactionId: string | null;
+  status: string; // adjusted, skipped
+  quantityBefore: number;
+  quantityAfter: number;
+  averagePriceBefore: number;
+  averagePriceAfter: number;
+  note: string | null;
+  createdAt: string;
+}
+
+export class CorporateActionResponseDto {
+  constructor(
+    public readonly id: string,
+    public readonly stockId: string,
+    public readonly code: string | null,
+    public readonly name: string | null,
+    public readonly type: string,
+    public readonly exDate: string, // YYYY-MM-DD (KST)
+    public readonly ratio: number,
+    public readonly subscriptionPrice: number | null,
+    public readonly adjustmentFactor: number | null,
+    public readonly status: string,
+    public readonly memo: string | null,
+    public readonly appliedAt: string | null,
+    public readonly createdAt: string,
+    public readonly adjustments?: CorporateActionAdjustmentResponse[] // 상세/적용 결과만
+  ) {}
+
+  static to(
+    action: CorporateAction,
+    stock: Stock | null,
+    adjustments?: CorporateActionAdjustment[]
+  ): CorporateActionResponseDto {
+    return new CorporateActionResponseDto(
+      action.id,
+      action.stockId,
+      stock?.code ?? null,
+      stock?.name ?? null,
+      action.type,
+      toDateKey(action.exDate),
+      action.ratio,
+      action.subscriptionPrice,
+      action.adjustmentFactor,
+      action.status,
+      action.memo,
+      action.appliedAt?.toISOString() ?? null,
+      action.createdAt.toISOString(),
+      adjustments?.map((adjustment) => ({
+        id: adjustment.id,
+        userId: adjustment.userId,
+        accountId: adjustment.accountId,
+        transactionId: adjustment.transactionId,
+        status: adjustment.status,
+        quantityBefore: adjustment.quantityBefore,
+        quantityAfter: adjustment.quantityAfter,
+        averagePriceBefore: adjustment.averagePriceBefore,
+        averagePriceAfter: adjustment.averagePriceAfter,
+        note: adjustment.note,
+        createdAt: adjustment.createdAt.toISOString(),
+      }))
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { CORPORATE_ACTION_TYPES, CorporateActionType } from '../../entities/CorporateAction';
+
+export const CreateCorporateActionDtoSchema = z
+  .object({
+    stockId: z.string().min(1, 'Stock ID is required'), // UUID 또는 code 허용
+    type: z.enum(CORPORATE_ACTION_TYPES),
+    exDate: z.coerce.date(), // 분할 기준일/권리락일 (KST 날짜 기준으로 정규화)
+    ratio: z.number().positive('Ratio must be positive'), // split: 1주당 변경 후 주식 수, rights_issue: 1주당 신주 배정 수
+    subscriptionPrice: z.number().positive('Subscription price must be positive').optional(),
+    memo: z.string().max(200).optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.type === 'split' && data.ratio === 1) {
+      ctx.addIssue({ code: 'custom', path: ['ratio'], message: 'Split ratio must not be 1' });
+    }
+    if (data.type === 'rights_issue' && data.subscriptionPrice === undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['subscriptionPrice'],
+        message: 'Subscription price is required for rights issues',
+      });
+    }
+  });
+
+export class CreateCorporateActionDto {
+  constructor(
+    public readonly stockId: string,
+    public readonly type: CorporateActionType,
+    public readonly exDate: Date,
+    public readonly ratio: number,
+    public readonly subscriptionPrice?: number,
+    public readonly memo?: string
+  ) {}
+
+  static from(data: unknown): CreateCorporateActionDto {
+    const validated = CreateCorporateActionDtoSchema.parse(data);
+    return new CreateCorporateActionDto(
+      validated.stockId,
+      validated.type,
+      validated.exDate,
+      validated.ratio,
+      validated.subscriptionPrice,
+      validated.memo
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+export const CreateWatchlistGroupDtoSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Group name is required')
+    .max(30)
+    .refine((name) => name !== 'ungrouped', { message: 'Group name "ungrouped" is reserved' }),
+});
+
+export class CreateWatchlistGroupDto {
+  constructor(public readonly name: string) {}
+
+  static from(data: unknown): CreateWatchlistGroupDto {
+    const validated = CreateWatchlistGroupDtoSchema.parse(data);
+    return new CreateWatchlistGroupDto(validated.name);
+  }
+}
@@ -14,10 +14,20 @@ export class FavoriteResponseDto {
       change: number;
       changeRate: number;
     },
-    public readonly createdAt: Date
+    public readonly createdAt: Date,
+    public readonly groupId: string | null,
+    public readonly position: number,
+    public readonly memo: string | null,
+    public readonly targetPrice: number | null,
+    public readonly targetGapRate: number | null // 현재가 대비 목표가 괴리율 (%)
   ) {}
 
   static to(favorite: Favorite, stock: Stock): FavoriteResponseDto {
+    const targetGapRate =
+      favorite.targetPrice !== null && stock.currentPrice > 0
+        ? Number((((favorite.targetPrice - stock.currentPrice) / stock.currentPrice) * 100).toFixed(2))
+        : null;
+
     return new FavoriteResponseDto(
       favorite.id,
       favorite.userId,
@@ -30,7 +40,12 @@ export class FavoriteResponseDto {
         change: stock.change,
         changeRate: stock.changeRate,
       },
-      favorite.createdAt instanceof Date ? favorite.createdAt : new Date(favorite.createdAt)
+      favorite.createdAt instanceof Date ? favorite.createdAt : new Date(favorite.createdAt),
+      favorite.groupId,
+      favorite.position,
+      favorite.memo,
+      favorite.targetPrice,
+      targetGapRate
     );
   }
 
@@ -41,6 +56,11 @@ export class FavoriteResponseDto {
       userId: this.userId,
       stockId: this.stockId,
       stock: this.stock,
+      groupId: this.groupId,
+      position: this.position,
+      memo: this.memo,
+      targetPrice: this.targetPrice,
+      targetGapRate: this.targetGapRate,
       createdAt: this.createdAt instanceof Date ? this.createdAt.toISOString() : this.createdAt,
     };
   }
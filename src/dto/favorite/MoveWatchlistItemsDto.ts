@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { WatchlistItemsDtoSchema } from './WatchlistItemsDto';
+
+export const MoveWatchlistItemsDtoSchema = WatchlistItemsDtoSchema.extend({
+  targetGroupId: z.string().uuid('Invalid group ID').nullable(), // null: 미분류로 이동
+});
+
+export class MoveWatchlistItemsDto {
+  constructor(
+    public readonly stockIds: string[],
+    public readonly targetGroupId: string | null
+  ) {}
+
+  static from(data: unknown): MoveWatchlistItemsDto {
+    const validated = MoveWatchlistItemsDtoSchema.parse(data);
+    return new MoveWatchlistItemsDto([...new Set(validated.stockIds)], validated.targetGroupId);
+  }
+}
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const ReorderWatchlistGroupsDtoSchema = z.object({
+  groupIds: z.array(z.string().uuid('Invalid group ID')).min(1, 'At least one group is required'), // 전체 그룹을 원하는 순서로
+});
+
+export class ReorderWatchlistGroupsDto {
+  constructor(public readonly groupIds: string[]) {}
+
+  static from(data: unknown): ReorderWatchlistGroupsDto {
+    const validated = ReorderWatchlistGroupsDtoSchema.parse(data);
+    return new ReorderWatchlistGroupsDto(validated.groupIds);
+  }
+}
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+export const UpdateFavoriteDtoSchema = z.object({
+  memo: z.string().trim().max(200).nullable().optional(), // null: 메모 삭제
+  targetPrice: z.number().positive('Target price must be positive').nullable().optional(), // null: 목표가 삭제
+});
+
+export class UpdateFavoriteDto {
+  constructor(
+    public readonly memo?: string | null,
+    public readonly targetPrice?: number | null
+  ) {}
+
+  static from(data: unknown): UpdateFavoriteDto {
+    const validated = UpdateFavoriteDtoSchema.parse(data);
+    return new UpdateFavoriteDto(validated.memo, validated.targetPrice);
+  }
+}
@@ -0,0 +1,12 @@
+import { CreateWatchlistGroupDtoSchema } from './CreateWatchlistGroupDto';
+
+export const UpdateWatchlistGroupDtoSchema = CreateWatchlistGroupDtoSchema;
+
+export class UpdateWatchlistGroupDto {
+  constructor(public readonly name: string) {}
+
+  static from(data: unknown): UpdateWatchlistGroupDto {
+    const validated = UpdateWatchlistGroupDtoSchema.parse(data);
+    return new UpdateWatchlistGroupDto(validated.name);
+  }
+}
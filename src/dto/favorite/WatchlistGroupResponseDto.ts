@@ -0,0 +1,33 @@
+import { WatchlistGroup } from '../../entities/WatchlistGroup';
+import { FavoriteResponseDto } from './FavoriteResponseDto';
+
+export class WatchlistGroupResponseDto {
+  constructor(
+    public readonly id: string | null, // null: 미분류
+    public readonly name: string,
+    public readonly position: number,
+    public readonly itemCount: number,
+    public readonly items: FavoriteResponseDto[] | undefined, // 목록 조회 시 생략
+    public readonly createdAt: Date | null,
+    public readonly updatedAt: Date | null
+  ) {}
+
+  static to(group: WatchlistGroup, itemCount: number, items?: FavoriteResponseDto[]): WatchlistGroupResponseDto {
+    return new WatchlistGroupResponseDto(
+      group.id,
+      group.name,
+      group.position,
+      itemCount,
+      items,
+      group.createdAt,
+      group.updatedAt
+    );
+  }
+
+  /**
+   * 미분류 종목 (그룹이 지정되지 않은 관심 종목)
+   */
+  static ungrouped(itemCount: number, items?: FavoriteResponseDto[]): WatchlistGroupResponseDto {
+    return new WatchlistGroupResponseDto(null, 'ungrouped', -1, itemCount, items, null, null);
+  }
+}
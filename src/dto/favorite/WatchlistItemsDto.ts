@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+export const MAX_WATCHLIST_BULK_ITEMS = 100;
+
+export const WatchlistItemsDtoSchema = z.object({
+  stockIds: z
+    .array(z.string().min(1, 'Stock ID is required')) // UUID 또는 code 허용
+    .min(1, 'At least one stock is required')
+    .max(MAX_WATCHLIST_BULK_ITEMS),
+});
+
+/**
+ * 그룹 종목 일괄 추가/삭제/순서 변경 요청
+ * 순서 변경은 그룹의 전체 종목을 원하는 순서로 전달
+ */
+export class WatchlistItemsDto {
+  constructor(public readonly stockIds: string[]) {}
+
+  static from(data: unknown): WatchlistItemsDto {
+    const validated = WatchlistItemsDtoSchema.parse(data);
+    return new WatchlistItemsDto([...new Set(validated.stockIds)]);
+  }
+}
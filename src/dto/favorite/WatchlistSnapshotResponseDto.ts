@@ -0,0 +1,66 @@
+import { Stock } from '../../entities/Stock';
+
+const TOP_MOVERS = 3;
+
+interface WatchlistMover {
+  stockId: string;
+  code: string;
+  name: string;
+  currentPrice: number;
+  changeRate: number;
+}
+
+const toMover = (stock: Stock): WatchlistMover => ({
+  stockId: stock.id,
+  code: stock.code,
+  name: stock.name,
+  currentPrice: stock.currentPrice,
+  changeRate: stock.changeRate,
+});
+
+/**
+ * 관심 그룹 시세 요약 (종목 현재가 기준, 동일 비중)
+ */
+export class WatchlistSnapshotResponseDto {
+  constructor(
+    public readonly groupId: string | null,
+    public readonly name: string,
+    public readonly itemCount: number,
+    public readonly averageChangeRate: number | null, // 종목 등락률 단순 평균 (%)
+    public readonly advancers: number,
+    public readonly decliners: number,
+    public readonly unchanged: number,
+    public readonly topGainers: WatchlistMover[],
+    public readonly topLosers: WatchlistMover[],
+    public readonly asOf: Date | null // 가장 최근 시세 갱신 시각
+  ) {}
+
+  static to(groupId: string | null, name: string, stocks: Stock[]): WatchlistSnapshotResponseDto {
+    const averageChangeRate =
+      stocks.length > 0
+        ? Number((stocks.reduce((sum, stock) => sum + stock.changeRate, 0) / stocks.length).toFixed(2))
+        : null;
+    const sorted = [...stocks].sort((a, b) => b.changeRate - a.changeRate);
+    const asOf = stocks.reduce<Date | null>(
+      (latest, stock) => (latest === null || stock.updatedAt > latest ? stock.updatedAt : latest),
+      null
+    );
+
+    return new WatchlistSnapshotResponseDto(
+      groupId,
+      name,
+      stocks.length,
+      averageChangeRate,
+      stocks.filter((stock) => stock.changeRate > 0).length,
+      stocks.filter((stock) => stock.changeRate < 0).length,
+      stocks.filter((stock) => stock.changeRate === 0).length,
+      sorted.filter((stock) => stock.changeRate > 0).slice(0, TOP_MOVERS).map(toMover),
+      sorted
+        .filter((stock) => stock.changeRate < 0)
+        .reverse()
+        .slice(0, TOP_MOVERS)
+        .map(toMover),
+      asOf
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const MAX_INSIGHT_WEEKS = 12;
+
+export const HistoryInsightsQueryDtoSchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(MAX_INSIGHT_WEEKS).default(4), // 이번 주 포함 집계 주 수
+});
+
+export class HistoryInsightsQueryDto {
+  constructor(public readonly weeks: number) {}
+
+  static from(data: unknown): HistoryInsightsQueryDto {
+    const validated = HistoryInsightsQueryDtoSchema.parse(data ?? {});
+    return new HistoryInsightsQueryDto(validated.weeks);
+  }
+}
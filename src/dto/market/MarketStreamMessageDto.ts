@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { MARKET_SUMMARY_SYMBOLS } from '../../providers/MarketDataProvider';
+
+// 연결당 최대 구독 종목 수 (관심 종목 + 열린 차트)
+export const MAX_STREAM_SUBSCRIPTIONS = 50;
+
+const StreamSymbolSchema = z
+  .string()
+  .trim()
+  .refine(
+    (symbol) => /^\d{6}$/.test(symbol) || (MARKET_SUMMARY_SYMBOLS as readonly string[]).includes(symbol),
+    'Symbol must be a 6-digit stock code or KOSPI/KOSDAQ/USDKRW'
+  );
+
+export const MarketStreamMessageDtoSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('subscribe'),
+    codes: z.array(StreamSymbolSchema).min(1, 'At least one code is required').max(MAX_STREAM_SUBSCRIPTIONS),
+  }),
+  z.object({
+    action: z.literal('unsubscribe'),
+    codes: z.array(StreamSymbolSchema).optional(), // 생략 시 전체 해제
+  }),
+  z.object({
+    action: z.literal('ping'),
+  }),
+]);
+
+/**
+ * 시세 스트림 클라이언트 메시지
+ * - subscribe: 종목 코드(또는 지수/환율 심볼) 구독 추가
+ * - unsubscribe: 구독 해제 (codes 생략 시 전체)
+ * - ping: 연결 확인
+ */
+export class MarketStreamMessageDto {
+  constructor(
+    public readonly action: 'subscribe' | 'unsubscribe' | 'ping',
+    public readonly codes?: string[]
+  ) {}
+
+  static from(data: unknown): MarketStreamMessageDto {
+    const validated = MarketStreamMessageDtoSchema.parse(data);
+    return new MarketStreamMessageDto(validated.action, 'codes' in validated ? validated.codes : undefined);
+  }
+}
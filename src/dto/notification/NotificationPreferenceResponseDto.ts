@@ -0,0 +1,13 @@
+import { NotificationPreference, NotificationType } from '../../entities/Notification';
+
+export class NotificationPreferenceResponseDto {
+  constructor(
+    public readonly type: NotificationType,
+    public readonly enabled: boolean,
+    public readonly push: boolean
+  ) {}
+
+  static to(preference: NotificationPreference): NotificationPreferenceResponseDto {
+    return new NotificationPreferenceResponseDto(preference.type, preference.enabled, preference.push);
+  }
+}
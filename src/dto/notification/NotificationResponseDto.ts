@@ -0,0 +1,29 @@
+import { Notification, NotificationType } from '../../entities/Notification';
+
+export class NotificationResponseDto {
+  constructor(
+    public readonly id: string,
+    public readonly type: NotificationType,
+    public readonly title: string,
+    public readonly message: string,
+    public readonly data: Record<string, unknown> | null,
+    public readonly link: string | null,
+    public readonly isRead: boolean,
+    public readonly readAt: Date | null,
+    public readonly createdAt: Date
+  ) {}
+
+  static to(notification: Notification): NotificationResponseDto {
+    return new NotificationResponseDto(
+      notification.id,
+      notification.type,
+      notification.title,
+      notification.message,
+      notification.data,
+      notification.link,
+      notification.readAt !== null,
+      notification.readAt,
+      notification.createdAt
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { NOTIFICATION_TYPES, NotificationType } from '../../entities/Notification';
+
+export const UpdateNotificationPreferencesDtoSchema = z
+  .object({
+    preferences: z
+      .array(
+        z.object({
+          type: z.enum(NOTIFICATION_TYPES),
+          enabled: z.boolean().optional(),
+          push: z.boolean().optional(),
+        })
+      )
+      .min(1, 'At least one preference is required')
+      .max(NOTIFICATION_TYPES.length),
+  })
+  .superRefine((data, ctx) => {
+    const types = data.preferences.map((preference) => preference.type);
+    if (new Set(types).size !== types.length) {
+      ctx.addIssue({ code: 'custom', path: ['preferences'], message: 'Duplicate notification types' });
+    }
+  });
+
+export class UpdateNotificationPreferencesDto {
+  constructor(
+    public readonly preferences: Array<{ type: NotificationType; enabled?: boolean; push?: boolean }>
+  ) {}
+
+  static from(data: unknown): UpdateNotificationPreferencesDto {
+    const validated = UpdateNotificationPreferencesDtoSchema.parse(data);
+    return new UpdateNotificationPreferencesDto(validated.preferences);
+  }
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { PAPER_ORDER_SIDES, PAPER_ORDER_TYPES, PaperOrderSide, PaperOrderType } from '../../entities/PaperOrder';
+
+export const CreatePaperOrderDtoSchema = z
+  .object({
+    stockId: z.string().min(1, 'Stock ID is required'), // UUID 또는 code 허용
+    side: z.enum(PAPER_ORDER_SIDES),
+    type: z.enum(PAPER_ORDER_TYPES).default('market'),
+    quantity: z.number().int('Quantity must be a whole number of shares').positive('Quantity must be positive'),
+    limitPrice: z.number().positive('Limit price must be positive').optional(),
+    stopPrice: z.number().positive('Stop price must be positive').optional(),
+  })
+  .superRefine((data, ctx) => {
+    // 주문 유형별 가격 필수 값 검증
+    if (data.type === 'limit' && data.limitPrice === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['limitPrice'], message: 'Limit price is required for limit orders' });
+    }
+    if (data.type === 'stop' && data.stopPrice === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['stopPrice'], message: 'Stop price is required for stop orders' });
+    }
+  });
+
+export class CreatePaperOrderDto {
+  constructor(
+    public readonly stockId: string,
+    public readonly side: PaperOrderSide,
+    public readonly type: PaperOrderType,
+    public readonly quantity: number,
+    public readonly limitPrice: number | null,
+    public readonly stopPrice: number | null
+  ) {}
+
+  static from(data: unknown): CreatePaperOrderDto {
+    const validated = CreatePaperOrderDtoSchema.parse(data);
+    return new CreatePaperOrderDto(
+      validated.stockId,
+      validated.side,
+      validated.type,
+      validated.quantity,
+      validated.type === 'limit' ? validated.limitPrice! : null,
+      validated.type === 'stop' ? validated.stopPrice! : null
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { PAPER_TRADING } from '../../constants/paper-trading';
+
+export const OpenPaperAccountDtoSchema = z.object({
+  initialCash: z
+    .number()
+    .positive('Initial cash must be positive')
+    .max(PAPER_TRADING.MAX_INITIAL_CASH)
+    .default(PAPER_TRADING.DEFAULT_INITIAL_CASH),
+  commissionRate: z.number().min(0).max(PAPER_TRADING.MAX_RATE).default(PAPER_TRADING.DEFAULT_COMMISSION_RATE),
+  taxRate: z.number().min(0).max(PAPER_TRADING.MAX_RATE).default(PAPER_TRADING.DEFAULT_TAX_RATE), // 매도 시 증권거래세
+});
+
+export class OpenPaperAccountDto {
+  constructor(
+    public readonly initialCash: number,
+    public readonly commissionRate: number,
+    public readonly taxRate: number
+  ) {}
+
+  static from(data: unknown): OpenPaperAccountDto {
+    const validated = OpenPaperAccountDtoSchema.parse(data ?? {});
+    return new OpenPaperAccountDto(validated.initialCash, validated.commissionRate, validated.taxRate);
+  }
+}
@@ -0,0 +1,56 @@
+import { PaperOrder, PaperOrderSide, PaperOrderStatus, PaperOrderType } from '../../entities/PaperOrder';
+import { Stock } from '../../entities/Stock';
+
+export class PaperOrderResponseDto {
+  constructor(
+    public readonly id: string,
+    public readonly stockId: string,
+    public readonly stock: {
+      code: string;
+      name: string;
+      market: string;
+      currentPrice: number;
+    },
+    public readonly side: PaperOrderSide,
+    public readonly type: PaperOrderType,
+    public readonly quantity: number,
+    public readonly limitPrice: number | null,
+    public readonly stopPrice: number | null,
+    public readonly status: PaperOrderStatus,
+    public readonly filledPrice: number | null,
+    public readonly filledAmount: number | null, // 체결 금액 (비용 제외)
+    public readonly commission: number,
+    public readonly tax: number,
+    public readonly filledAt: Date | null,
+    public readonly transactionId: string | null,
+    public readonly rejectReason: string | null,
+    public readonly createdAt: Date
+  ) {}
+
+  static to(order: PaperOrder, stock: Stock): PaperOrderResponseDto {
+    return new PaperOrderResponseDto(
+      order.id,
+      order.stockId,
+      {
+        code: stock.code,
+        name: stock.name,
+        market: stock.market,
+        currentPrice: stock.currentPrice,
+      },
+      order.side,
+      order.type,
+      order.quantity,
+      order.limitPrice,
+      order.stopPrice,
+      order.status,
+      order.filledPrice,
+      order.filledPrice !== null ? order.filledPrice * order.quantity : null,
+      order.commission,
+      order.tax,
+      order.filledAt,
+      order.transactionId,
+      order.rejectReason,
+      order.createdAt
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const AccountScopeQueryDtoSchema = z.object({
+  accountId: z.string().uuid('Invalid account ID').optional(), // 생략 시 전체 계좌 합산
+});
+
+export class AccountScopeQueryDto {
+  constructor(public readonly accountId?: string) {}
+
+  static from(data: unknown): AccountScopeQueryDto {
+    const validated = AccountScopeQueryDtoSchema.parse(data ?? {});
+    return new AccountScopeQueryDto(validated.accountId);
+  }
+}
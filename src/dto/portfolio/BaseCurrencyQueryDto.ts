@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { Currency, SUPPORTED_CURRENCIES } from '../../entities/FxRate';
+import { DEFAULT_BASE_CURRENCY } from '../../utils/currency';
+
+export const BaseCurrencyQueryDtoSchema = z.object({
+  currency: z.preprocess(
+    (value) => (typeof value === 'string' ? value.toUpperCase() : value),
+    z.enum(SUPPORTED_CURRENCIES).default(DEFAULT_BASE_CURRENCY)
+  ),
+});
+
+export class BaseCurrencyQueryDto {
+  constructor(public readonly currency: Currency) {}
+
+  static from(data: unknown): BaseCurrencyQueryDto {
+    const validated = BaseCurrencyQueryDtoSchema.parse(data ?? {});
+    return new BaseCurrencyQueryDto(validated.currency);
+  }
+}
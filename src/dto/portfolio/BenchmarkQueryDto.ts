@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { MARKET_INDEX_CODES, MarketIndexCode } from '../../entities/IndexPrice';
+
+export const BenchmarkQueryDtoSchema = z
+  .object({
+    index: z.enum(MARKET_INDEX_CODES).default('KOSPI'),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export class BenchmarkQueryDto {
+  constructor(
+    public readonly index: MarketIndexCode,
+    public readonly from?: Date,
+    public readonly to?: Date
+  ) {}
+
+  static from(data: unknown): BenchmarkQueryDto {
+    const validated = BenchmarkQueryDtoSchema.parse(data);
+    return new BenchmarkQueryDto(validated.index, validated.from, validated.to);
+  }
+}
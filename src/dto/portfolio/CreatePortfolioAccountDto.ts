@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { MANUAL_PORTFOLIO_ACCOUNT_TYPES, ManualPortfolioAccountType } from '../../entities/PortfolioAccount';
+
+export const CreatePortfolioAccountDtoSchema = z.object({
+  name: z.string().trim().min(1, 'Account name is required').max(50),
+  type: z.enum(MANUAL_PORTFOLIO_ACCOUNT_TYPES).default('brokerage'),
+  broker: z.string().trim().max(50).optional(),
+  isDefault: z.boolean().default(false),
+});
+
+export class CreatePortfolioAccountDto {
+  constructor(
+    public readonly name: string,
+    public readonly type: ManualPortfolioAccountType,
+    public readonly isDefault: boolean,
+    public readonly broker?: string
+  ) {}
+
+  static from(data: unknown): CreatePortfolioAccountDto {
+    const validated = CreatePortfolioAccountDtoSchema.parse(data);
+    return new CreatePortfolioAccountDto(validated.name, validated.type, validated.isDefault, validated.broker);
+  }
+}
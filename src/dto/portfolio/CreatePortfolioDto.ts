@@ -4,13 +4,15 @@ export const CreatePortfolioDtoSchema = z.object({
   stockId: z.string().min(1, 'Stock ID is required'), // UUID 또는 code 허용
   quantity: z.number().positive('Quantity must be positive'),
   averagePrice: z.number().positive('Average price must be positive'),
+  accountId: z.string().uuid('Invalid account ID').optional(), // 생략 시 기본 계좌
 });
 
 export class CreatePortfolioDto {
   constructor(
     public readonly stockId: string,
     public readonly quantity: number,
-    public readonly averagePrice: number
+    public readonly averagePrice: number,
+    public readonly accountId?: string
   ) {}
 
   static from(data: unknown): CreatePortfolioDto {
@@ -18,7 +20,8 @@ export class CreatePortfolioDto {
     return new CreatePortfolioDto(
       validated.stockId,
       validated.quantity,
-      validated.averagePrice
+      validated.averagePrice,
+      validated.accountId
     );
   }
 }
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { PORTFOLIO_TRANSACTION_TYPES, PortfolioTransactionType } from '../../entities/PortfolioTransaction';
+
+export const CreatePortfolioTransactionDtoSchema = z
+  .object({
+    stockId: z.string().min(1, 'Stock ID is required'), // UUID 또는 code 허용
+    type: z.enum(PORTFOLIO_TRANSACTION_TYPES),
+    quantity: z.number().nonnegative('Quantity must not be negative').default(0),
+    price: z.number().nonnegative('Price must not be negative').default(0),
+    fee: z.number().nonnegative('Fee must not be negative').default(0),
+    executedAt: z.coerce.date().optional(),
+    memo: z.string().max(200).optional(),
+    accountId: z.string().uuid('Invalid account ID').optional(), // 생략 시 기본 계좌
+  })
+  .superRefine((data, ctx) => {
+    // 타입별 필수 값 검증
+    if ((data.type === 'buy' || data.type === 'sell' || data.type === 'dividend') && data.quantity <= 0) {
+      ctx.addIssue({ code: 'custom', path: ['quantity'], message: 'Quantity must be positive' });
+    }
+    if ((data.type === 'buy' || data.type === 'sell' || data.type === 'dividend') && data.price <= 0) {
+      ctx.addIssue({ code: 'custom', path: ['price'], message: 'Price must be positive' });
+    }
+    if (data.type === 'split' && data.quantity <= 0) {
+      ctx.addIssue({ code: 'custom', path: ['quantity'], message: 'Split ratio must be positive' });
+    }
+    if (data.type === 'fee' && data.fee <= 0) {
+      ctx.addIssue({ code: 'custom', path: ['fee'], message: 'Fee must be positive' });
+    }
+  });
+
+export class CreatePortfolioTransactionDto {
+  constructor(
+    public readonly stockId: string,
+    public readonly type: PortfolioTransactionType,
+    public readonly quantity: number,
+    public readonly price: number,
+    public readonly fee: number,
+    public readonly executedAt?: Date,
+    public readonly memo?: string,
+    public readonly accountId?: string
+  ) {}
+
+  static from(data: unknown): CreatePortfolioTransactionDto {
+    const validated = CreatePortfolioTransactionDtoSchema.parse(data);
+    return new CreatePortfolioTransactionDto(
+      validated.stockId,
+      validated.type,
+      validated.quantity,
+      validated.price,
+      validated.fee,
+      validated.executedAt,
+      validated.memo,
+      validated.accountId
+    );
+  }
+}
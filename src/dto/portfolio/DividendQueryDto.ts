@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+export const DividendQueryDtoSchema = z
+  .object({
+    from: z.coerce.date().optional(), // 수령 내역 조회 시작 (지급일 기준)
+    to: z.coerce.date().optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export class DividendQueryDto {
+  constructor(
+    public readonly from?: Date,
+    public readonly to?: Date
+  ) {}
+
+  static from(data: unknown): DividendQueryDto {
+    const validated = DividendQueryDtoSchema.parse(data ?? {});
+    return new DividendQueryDto(validated.from, validated.to);
+  }
+}
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { PORTFOLIO_TRANSACTION_TYPES, PortfolioTransactionType } from '../../entities/PortfolioTransaction';
+import {
+  BROKER_CSV_FORMATS,
+  BROKER_CSV_MAPPINGS,
+  BrokerCsvFormat,
+  BrokerCsvMapping,
+} from '../../constants/broker-csv-mappings';
+
+// 멀티파트 필드는 문자열로 들어오므로 JSON/boolean 변환
+const parseJsonField = (value: unknown) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+const columnCandidates = z
+  .union([z.string().trim().min(1), z.array(z.string().trim().min(1)).min(1)])
+  .transform((value) => (Array.isArray(value) ? value : [value]));
+
+export const BrokerCsvMappingOverrideSchema = z.object({
+  columns: z
+    .object({
+      executedAt: columnCandidates,
+      type: columnCandidates,
+      code: columnCandidates,
+      quantity: columnCandidates,
+      price: columnCandidates,
+      fee: columnCandidates,
+      memo: columnCandidates,
+    })
+    .partial()
+    .default({}),
+  typeLabels: z.record(z.string(), z.enum(PORTFOLIO_TRANSACTION_TYPES)).default({}),
+});
+
+export const ImportPortfolioTransactionsDtoSchema = z.object({
+  broker: z.enum(BROKER_CSV_FORMATS).default('generic'),
+  accountId: z.string().uuid('Invalid account ID').optional(), // 생략 시 기본 계좌
+  dryRun: z.preprocess(
+    (value) => (value === 'true' ? true : value === 'false' ? false : value),
+    z.boolean().default(true)
+  ), // 기본값은 미리보기, false일 때만 저장
+  mapping: z.preprocess(parseJsonField, BrokerCsvMappingOverrideSchema.optional()),
+});
+
+// 2025-01-02, 2025.01.02, 2025/01/02, 20250102 (+ 선택적 HH:mm[:ss]) → KST
+const DATE_PATTERN = /^(\d{4})[-./]?(\d{2})[-./]?(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+const parseKstDate = (value: unknown) => {
+  if (typeof value !== 'string') return value;
+  const match = value.trim().match(DATE_PATTERN);
+  if (!match) return value;
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}+09:00`);
+};
+
+// "1,234", "1,234원", 빈 값(0) 허용
+const parseAmount = (value: unknown) => {
+  if (typeof value !== 'string') return value;
+  const normalized = value.replace(/[,\s원]/g, '');
+  return normalized === '' ? 0 : Number(normalized);
+};
+
+/**
+ * CSV 한 행 검증 스키마 (거래구분 값은 매핑에 따라 변환)
+ */
+export const createBrokerTradeRowSchema = (typeLabels: Record<string, PortfolioTransactionType>) =>
+  z.object({
+    executedAt: z.preprocess(parseKstDate, z.date({ message: 'Invalid trade date' })),
+    type: z
+      .string()
+      .trim()
+      .transform((value, ctx) => {
+        const type = typeLabels[value] ?? typeLabels[value.toLowerCase()];
+        if (!type) {
+          ctx.addIssue({ code: 'custom', message: `Unknown trade type: ${value}` });
+          return z.NEVER;
+        }
+        return type;
+      }),
+    code: z
+      .string()
+      .trim()
+      .min(1, 'Stock code is required')
+      .transform((value) => value.replace(/^A(?=\d{6}$)/, '')), // 국내 증권사 종목코드 접두어 (A005930)
+    quantity: z.preprocess(parseAmount, z.number().positive('Quantity must be positive')),
+    price: z.preprocess(parseAmount, z.number().nonnegative('Price must not be negative')),
+    fee: z.preprocess(parseAmount, z.number().nonnegative('Fee must not be negative')),
+    memo: z
+      .string()
+      .trim()
+      .max(200)
+      .transform((value) => (value === '' ? null : value)),
+  });
+
+export type BrokerTradeRow = z.infer<ReturnType<typeof createBrokerTradeRowSchema>>;
+
+export class ImportPortfolioTransactionsDto {
+  constructor(
+    public readonly broker: BrokerCsvFormat,
+    public readonly dryRun: boolean,
+    public readonly mapping: BrokerCsvMapping,
+    public readonly accountId?: string
+  ) {}
+
+  /**
+   * 멀티파트 필드 → DTO (증권사 기본 매핑에 mapping 필드를 덮어씀)
+   */
+  static from(data: unknown): ImportPortfolioTransactionsDto {
+    const validated = ImportPortfolioTransactionsDtoSchema.parse(data ?? {});
+    const base = BROKER_CSV_MAPPINGS[validated.broker];
+    const override = validated.mapping;
+
+    return new ImportPortfolioTransactionsDto(
+      validated.broker,
+      validated.dryRun,
+      {
+        columns: { ...base.columns, ...override?.columns },
+        typeLabels: { ...base.typeLabels, ...override?.typeLabels },
+      },
+      validated.accountId
+    );
+  }
+}
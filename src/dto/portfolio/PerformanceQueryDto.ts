@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { PERFORMANCE_INTERVALS, PerformanceInterval } from '../../utils/performance-metrics';
+
+export const PerformanceQueryDtoSchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    interval: z.enum(PERFORMANCE_INTERVALS).default('1d'),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export class PerformanceQueryDto {
+  constructor(
+    public readonly interval: PerformanceInterval,
+    public readonly from?: Date,
+    public readonly to?: Date
+  ) {}
+
+  static from(data: unknown): PerformanceQueryDto {
+    const validated = PerformanceQueryDtoSchema.parse(data);
+    return new PerformanceQueryDto(validated.interval, validated.from, validated.to);
+  }
+}
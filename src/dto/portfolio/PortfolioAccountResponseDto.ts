@@ -0,0 +1,29 @@
+import { PortfolioAccount, PortfolioAccountType } from '../../entities/PortfolioAccount';
+
+export class PortfolioAccountResponseDto {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly name: string,
+    public readonly type: PortfolioAccountType,
+    public readonly broker: string | null,
+    public readonly isDefault: boolean,
+    public readonly positionCount: number,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  static to(account: PortfolioAccount, positionCount: number): PortfolioAccountResponseDto {
+    return new PortfolioAccountResponseDto(
+      account.id,
+      account.userId,
+      account.name,
+      account.type,
+      account.broker,
+      account.isDefault,
+      positionCount,
+      account.createdAt,
+      account.updatedAt
+    );
+  }
+}
@@ -1,10 +1,27 @@
 import { Portfolio } from '../../entities/Portfolio';
 import { Stock } from '../../entities/Stock';
+import { Currency } from '../../entities/FxRate';
+
+/**
+ * 기준 통화 환산 평가
+ * profit = priceEffect + currencyEffect
+ */
+export interface PortfolioValuation {
+  baseCurrency: Currency;
+  fxRate: number; // 종목 통화 1단위당 기준 통화 (현재)
+  totalCost: number; // 매수 시점 환율 기준 취득원가
+  currentValue: number; // 현재 환율 기준 평가금액
+  profit: number;
+  profitRate: number;
+  priceEffect: number; // 주가 변동분 (현재 환율 적용)
+  currencyEffect: number; // 환율 변동분 (취득원가에 대한 환차손익)
+}
 
 export class PortfolioResponseDto {
   constructor(
     public readonly id: string,
     public readonly userId: string,
+    public readonly accountId: string | null,
     public readonly stockId: string,
     public readonly stock: {
       code: string;
@@ -13,6 +30,7 @@ export class PortfolioResponseDto {
       currentPrice: number;
       change: number;
       changeRate: number;
+      currency: string;
     },
     public readonly quantity: number,
     public readonly averagePrice: number,
@@ -21,13 +39,15 @@ export class PortfolioResponseDto {
     public readonly profit: number,
     public readonly profitRate: number,
     public readonly createdAt: Date,
-    public readonly updatedAt: Date
+    public readonly updatedAt: Date,
+    public readonly valuation?: PortfolioValuation // 금액 필드는 종목 통화 기준, 기준 통화 환산은 여기에
   ) {}
 
-  static to(portfolio: Portfolio, stock: Stock): PortfolioResponseDto {
+  static to(portfolio: Portfolio, stock: Stock, valuation?: PortfolioValuation): PortfolioResponseDto {
     return new PortfolioResponseDto(
       portfolio.id,
       portfolio.userId,
+      portfolio.accountId,
       portfolio.stockId,
       {
         code: stock.code,
@@ -36,6 +56,7 @@ export class PortfolioResponseDto {
         currentPrice: stock.currentPrice,
         change: stock.change,
         changeRate: stock.changeRate,
+        currency: stock.currency,
       },
       portfolio.quantity,
       portfolio.averagePrice,
@@ -44,7 +65,8 @@ export class PortfolioResponseDto {
       portfolio.profit,
       portfolio.profitRate,
       portfolio.createdAt,
-      portfolio.updatedAt
+      portfolio.updatedAt,
+      valuation
     );
   }
 }
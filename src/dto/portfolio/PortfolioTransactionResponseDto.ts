@@ -0,0 +1,46 @@
+import { PortfolioTransaction, PortfolioTransactionType } from '../../entities/PortfolioTransaction';
+import { Stock } from '../../entities/Stock';
+
+export class PortfolioTransactionResponseDto {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly accountId: string | null,
+    public readonly stockId: string,
+    public readonly stock: {
+      code: string;
+      name: string;
+      market: string;
+    },
+    public readonly type: PortfolioTransactionType,
+    public readonly quantity: number,
+    public readonly price: number,
+    public readonly fee: number,
+    public readonly amount: number,
+    public readonly executedAt: Date,
+    public readonly memo: string | null,
+    public readonly createdAt: Date
+  ) {}
+
+  static to(transaction: PortfolioTransaction, stock: Stock): PortfolioTransactionResponseDto {
+    return new PortfolioTransactionResponseDto(
+      transaction.id,
+      transaction.userId,
+      transaction.accountId,
+      transaction.stockId,
+      {
+        code: stock.code,
+        name: stock.name,
+        market: stock.market,
+      },
+      transaction.type,
+      transaction.quantity,
+      transaction.price,
+      transaction.fee,
+      transaction.grossAmount,
+      transaction.executedAt,
+      transaction.memo,
+      transaction.createdAt
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { COST_BASIS_METHODS, CostBasisMethod, DEFAULT_COST_BASIS_METHOD } from '../../utils/cost-basis';
+
+export const RealizedGainsQueryDtoSchema = z
+  .object({
+    method: z.enum(COST_BASIS_METHODS).default(DEFAULT_COST_BASIS_METHOD),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export class RealizedGainsQueryDto {
+  constructor(
+    public readonly method: CostBasisMethod,
+    public readonly from?: Date,
+    public readonly to?: Date
+  ) {}
+
+  static from(data: unknown): RealizedGainsQueryDto {
+    const validated = RealizedGainsQueryDtoSchema.parse(data);
+    return new RealizedGainsQueryDto(validated.method, validated.from, validated.to);
+  }
+}
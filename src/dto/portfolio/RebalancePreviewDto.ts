@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { PortfolioTargetsSchema, UpdatePortfolioTargetsDto } from './UpdatePortfolioTargetsDto';
+
+export const RebalancePreviewDtoSchema = z.object({
+  cash: z.number().nonnegative('Cash must not be negative').default(0), // 추가 투입 가능 현금
+  minTradeAmount: z.number().nonnegative('Minimum trade amount must not be negative').default(0), // 이보다 작은 주문은 생략
+  lotSize: z.number().int().positive('Lot size must be positive').default(1), // 주문 수량 단위 (주)
+  driftTolerance: z.number().min(0).max(100).default(0), // 목표 대비 허용 편차 (%p)
+  targets: PortfolioTargetsSchema.optional(), // 없으면 저장된 목표 비중 사용
+  accountId: z.string().uuid('Invalid account ID').optional(), // 없으면 전체 계좌 합산
+});
+
+export class RebalancePreviewDto {
+  constructor(
+    public readonly cash: number,
+    public readonly minTradeAmount: number,
+    public readonly lotSize: number,
+    public readonly driftTolerance: number,
+    public readonly targets?: UpdatePortfolioTargetsDto,
+    public readonly accountId?: string
+  ) {}
+
+  static from(data: unknown): RebalancePreviewDto {
+    const validated = RebalancePreviewDtoSchema.parse(data ?? {});
+    return new RebalancePreviewDto(
+      validated.cash,
+      validated.minTradeAmount,
+      validated.lotSize,
+      validated.driftTolerance,
+      validated.targets
+        ? new UpdatePortfolioTargetsDto(validated.targets.type, validated.targets.targets)
+        : undefined,
+      validated.accountId
+    );
+  }
+}
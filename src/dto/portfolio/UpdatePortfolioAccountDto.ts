@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { MANUAL_PORTFOLIO_ACCOUNT_TYPES, ManualPortfolioAccountType } from '../../entities/PortfolioAccount';
+
+export const UpdatePortfolioAccountDtoSchema = z.object({
+  name: z.string().trim().min(1, 'Account name is required').max(50).optional(),
+  type: z.enum(MANUAL_PORTFOLIO_ACCOUNT_TYPES).optional(),
+  broker: z.string().trim().max(50).nullable().optional(), // null: 증권사 정보 삭제
+  isDefault: z.literal(true).optional(), // 기본 계좌 해제는 다른 계좌를 기본으로 지정하여 처리
+});
+
+export class UpdatePortfolioAccountDto {
+  constructor(
+    public readonly name?: string,
+    public readonly type?: ManualPortfolioAccountType,
+    public readonly broker?: string | null,
+    public readonly isDefault?: boolean
+  ) {}
+
+  static from(data: unknown): UpdatePortfolioAccountDto {
+    const validated = UpdatePortfolioAccountDtoSchema.parse(data);
+    return new UpdatePortfolioAccountDto(validated.name, validated.type, validated.broker, validated.isDefault);
+  }
+}
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { PORTFOLIO_TARGET_TYPES, PortfolioTargetType } from '../../entities/PortfolioTarget';
+
+export const PortfolioTargetsSchema = z
+  .object({
+    type: z.enum(PORTFOLIO_TARGET_TYPES),
+    targets: z
+      .array(
+        z.object({
+          key: z.string().min(1, 'Target key is required'), // stock: 종목 ID 또는 code, sector: 섹터명
+          weight: z.number().positive('Weight must be positive').max(100, 'Weight must not exceed 100'),
+        })
+      )
+      .min(1, 'At least one target is required'),
+  })
+  .superRefine((data, ctx) => {
+    const keys = new Set<string>();
+    data.targets.forEach((target, index) => {
+      if (keys.has(target.key)) {
+        ctx.addIssue({ code: 'custom', path: ['targets', index, 'key'], message: `Duplicate target: ${target.key}` });
+      }
+      keys.add(target.key);
+    });
+
+    // 합계가 100 미만이면 나머지는 현금 비중
+    const total = data.targets.reduce((sum, target) => sum + target.weight, 0);
+    if (total > 100 + 1e-9) {
+      ctx.addIssue({ code: 'custom', path: ['targets'], message: `Total weight ${total} exceeds 100` });
+    }
+  });
+
+export class UpdatePortfolioTargetsDto {
+  constructor(
+    public readonly type: PortfolioTargetType,
+    public readonly targets: Array<{ key: string; weight: number }>
+  ) {}
+
+  static from(data: unknown): UpdatePortfolioTargetsDto {
+    const validated = PortfolioTargetsSchema.parse(data);
+    return new UpdatePortfolioTargetsDto(validated.type, validated.targets);
+  }
+}
@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import {
+  SCREENER_OPERATORS,
+  ScreenerCondition,
+  ScreenerExpression,
+  ScreenerSort,
+} from '../../entities/SavedScreen';
+import { isStockField, isStringField, parseDerivedMetric } from '../../utils/screener';
+import { PAGINATION } from '../../constants/pagination';
+
+// 조건식 제한 (중첩 깊이 / 전체 조건 수 / 파생 지표 수)
+const MAX_EXPRESSION_DEPTH = 5;
+const MAX_CONDITIONS = 50;
+export const MAX_DERIVED_METRICS = 10;
+
+const ScreenerValueSchema = z.union([
+  z.number(),
+  z.string().trim().min(1),
+  z.array(z.union([z.number(), z.string().trim().min(1)])).min(1).max(100),
+]);
+
+const ScreenerConditionSchema = z.object({
+  field: z.string().trim().min(1),
+  op: z.enum(SCREENER_OPERATORS),
+  value: ScreenerValueSchema,
+});
+
+export const ScreenerExpressionSchema: z.ZodType<ScreenerExpression> = z.lazy(() =>
+  z.union([
+    ScreenerConditionSchema,
+    z.object({ all: z.array(ScreenerExpressionSchema).min(1).max(MAX_CONDITIONS) }),
+    z.object({ any: z.array(ScreenerExpressionSchema).min(1).max(MAX_CONDITIONS) }),
+  ])
+);
+
+export const ScreenerSortSchema = z.object({
+  field: z.string().trim().min(1),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+const isKnownField = (field: string) => isStockField(field) || parseDerivedMetric(field) !== null;
+
+// 조건의 연산자/값 형식이 필드 타입과 맞는지 확인 (문제가 없으면 null)
+const conditionIssue = (condition: ScreenerCondition): string | null => {
+  const { field, op, value } = condition;
+  if (!isKnownField(field)) {
+    return `Unknown field: ${field}`;
+  }
+
+  const expected = isStringField(field) ? 'string' : 'number';
+  if (isStringField(field) && !['eq', 'neq', 'in'].includes(op)) {
+    return `Operator ${op} is not supported for ${field}`;
+  }
+  if (op === 'in') {
+    return Array.isArray(value) && value.every((v) => typeof v === expected)
+      ? null
+      : `${field} in requires an array of ${expected}s`;
+  }
+  if (op === 'between') {
+    return Array.isArray(value) && value.length === 2 && value.every((v) => typeof v === 'number') && value[0] <= value[1]
+      ? null
+      : `${field} between requires [min, max]`;
+  }
+  return typeof value === expected ? null : `${field} ${op} requires a ${expected}`;
+};
+
+/**
+ * 조건식 구조 검증 (필드, 연산자, 깊이, 조건 수, 파생 지표 수)
+ */
+export const validateScreenerExpression = (expression: ScreenerExpression, ctx: z.RefinementCtx, path: string) => {
+  const derived = new Set<string>();
+  let conditions = 0;
+
+  const visit = (node: ScreenerExpression, depth: number) => {
+    if (depth > MAX_EXPRESSION_DEPTH) {
+      ctx.addIssue({ code: 'custom', path: [path], message: `Expression depth must not exceed ${MAX_EXPRESSION_DEPTH}` });
+      return;
+    }
+    if ('all' in node || 'any' in node) {
+      ('all' in node ? node.all : node.any).forEach((child) => visit(child, depth + 1));
+      return;
+    }
+
+    conditions++;
+    const issue = conditionIssue(node);
+    if (issue) {
+      ctx.addIssue({ code: 'custom', path: [path], message: issue });
+    } else if (!isStockField(node.field)) {
+      derived.add(node.field);
+    }
+  };
+  visit(expression, 1);
+
+  if (conditions > MAX_CONDITIONS) {
+    ctx.addIssue({ code: 'custom', path: [path], message: `Up to ${MAX_CONDITIONS} conditions are allowed` });
+  }
+  if (derived.size > MAX_DERIVED_METRICS) {
+    ctx.addIssue({ code: 'custom', path: [path], message: `Up to ${MAX_DERIVED_METRICS} derived metrics are allowed` });
+  }
+};
+
+export const validateScreenerSort = (sort: ScreenerSort, ctx: z.RefinementCtx) => {
+  if (!isKnownField(sort.field)) {
+    ctx.addIssue({ code: 'custom', path: ['sort', 'field'], message: `Unknown field: ${sort.field}` });
+  }
+};
+
+export const RunScreenerDtoSchema = z
+  .object({
+    screenId: z.string().uuid().optional(), // 저장된 조건으로 실행 (filter/sort 생략 시 저장된 값 사용)
+    filter: ScreenerExpressionSchema.optional(),
+    sort: ScreenerSortSchema.optional(),
+    limit: z.number().int().min(PAGINATION.MIN_PAGE_SIZE).max(PAGINATION.MAX_PAGE_SIZE).default(PAGINATION.DEFAULT_PAGE_SIZE),
+    offset: z.number().int().min(0).default(0),
+  })
+  .superRefine((data, ctx) => {
+    if (data.filter) validateScreenerExpression(data.filter, ctx, 'filter');
+    if (data.sort) validateScreenerSort(data.sort, ctx);
+  });
+
+export class RunScreenerDto {
+  constructor(
+    public readonly limit: number,
+    public readonly offset: number,
+    public readonly filter?: ScreenerExpression,
+    public readonly sort?: ScreenerSort,
+    public readonly screenId?: string
+  ) {}
+
+  static from(data: unknown): RunScreenerDto {
+    const validated = RunScreenerDtoSchema.parse(data ?? {});
+    return new RunScreenerDto(validated.limit, validated.offset, validated.filter, validated.sort, validated.screenId);
+  }
+}
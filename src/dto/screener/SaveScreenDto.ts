@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { ScreenerExpression, ScreenerSort } from '../../entities/SavedScreen';
+import {
+  ScreenerExpressionSchema,
+  ScreenerSortSchema,
+  validateScreenerExpression,
+  validateScreenerSort,
+} from './RunScreenerDto';
+
+export const SaveScreenDtoSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(50),
+    filter: ScreenerExpressionSchema.nullable().default(null),
+    sort: ScreenerSortSchema.nullable().default(null),
+  })
+  .superRefine((data, ctx) => {
+    if (data.filter) validateScreenerExpression(data.filter, ctx, 'filter');
+    if (data.sort) validateScreenerSort(data.sort, ctx);
+  });
+
+export class SaveScreenDto {
+  constructor(
+    public readonly name: string,
+    public readonly filter: ScreenerExpression | null,
+    public readonly sort: ScreenerSort | null
+  ) {}
+
+  static from(data: unknown): SaveScreenDto {
+    const validated = SaveScreenDtoSchema.parse(data);
+    return new SaveScreenDto(validated.name, validated.filter, validated.sort);
+  }
+}
@@ -0,0 +1,23 @@
+import { SavedScreen, ScreenerExpression, ScreenerSort } from '../../entities/SavedScreen';
+
+export class SavedScreenResponseDto {
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    public readonly filter: ScreenerExpression | null,
+    public readonly sort: ScreenerSort | null,
+    public readonly createdAt: string,
+    public readonly updatedAt: string
+  ) {}
+
+  static to(screen: SavedScreen): SavedScreenResponseDto {
+    return new SavedScreenResponseDto(
+      screen.id,
+      screen.name,
+      screen.filter,
+      screen.sort,
+      screen.createdAt.toISOString(),
+      screen.updatedAt.toISOString()
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { Stock } from '../../entities/Stock';
+
+export class ScreenerResultDto {
+  constructor(
+    public readonly id: string,
+    public readonly code: string,
+    public readonly name: string,
+    public readonly market: string,
+    public readonly sector: string | null,
+    public readonly currentPrice: number,
+    public readonly change: number,
+    public readonly changePercent: number,
+    public readonly volume: number,
+    public readonly marketCap: number | null,
+    public readonly metrics: Record<string, number | null> // 조건/정렬에 사용된 파생 지표
+  ) {}
+
+  static to(stock: Stock, metrics: Record<string, number | null>): ScreenerResultDto {
+    return new ScreenerResultDto(
+      stock.id,
+      stock.code,
+      stock.name,
+      stock.market,
+      stock.sector,
+      stock.currentPrice,
+      stock.change,
+      stock.changeRate,
+      Number(stock.volume),
+      stock.marketCap !== null ? Number(stock.marketCap) : null,
+      metrics
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { ScreenerExpression, ScreenerSort } from '../../entities/SavedScreen';
+import {
+  ScreenerExpressionSchema,
+  ScreenerSortSchema,
+  validateScreenerExpression,
+  validateScreenerSort,
+} from './RunScreenerDto';
+
+export const UpdateScreenDtoSchema = z
+  .object({
+    name: z.string().trim().min(1).max(50).optional(),
+    filter: ScreenerExpressionSchema.nullable().optional(),
+    sort: ScreenerSortSchema.nullable().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.filter) validateScreenerExpression(data.filter, ctx, 'filter');
+    if (data.sort) validateScreenerSort(data.sort, ctx);
+  });
+
+export class UpdateScreenDto {
+  constructor(
+    public readonly name?: string,
+    public readonly filter?: ScreenerExpression | null,
+    public readonly sort?: ScreenerSort | null
+  ) {}
+
+  static from(data: unknown): UpdateScreenDto {
+    const validated = UpdateScreenDtoSchema.parse(data);
+    return new UpdateScreenDto(validated.name, validated.filter, validated.sort);
+  }
+}
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { IndicatorSpec } from '../../utils/indicators';
+import { CHART_PERIOD_DAYS, DEFAULT_CHART_PERIOD } from '../../constants/chart';
+
+// 한 번에 요청할 수 있는 최대 지표 수
+export const MAX_INDICATORS_PER_REQUEST = 10;
+
+const MAX_INDICATOR_PERIOD = 200;
+
+/**
+ * 지표 토큰 파싱
+ * sma20, ema50, rsi(=rsi14), macd(=macd12_26_9), bollinger(=bollinger20), vwap
+ */
+const parseIndicator = (token: string): IndicatorSpec | string => {
+  const inRange = (period: number) => period >= 2 && period <= MAX_INDICATOR_PERIOD;
+
+  let match = token.match(/^(sma|ema)(\d+)$/);
+  if (match) {
+    const period = Number(match[2]);
+    return inRange(period) ? { key: token, type: match[1] as 'sma' | 'ema', period } : `Invalid period: ${token}`;
+  }
+
+  match = token.match(/^rsi(\d+)?$/);
+  if (match) {
+    const period = match[1] ? Number(match[1]) : 14;
+    return inRange(period) ? { key: token, type: 'rsi', period } : `Invalid period: ${token}`;
+  }
+
+  match = token.match(/^macd(?:(\d+)_(\d+)_(\d+))?$/);
+  if (match) {
+    const [fast, slow, signal] = match[1] ? match.slice(1, 4).map(Number) : [12, 26, 9];
+    if (![fast, slow, signal].every(inRange) || fast >= slow) {
+      return `Invalid MACD periods: ${token}`;
+    }
+    return { key: token, type: 'macd', fast, slow, signal };
+  }
+
+  match = token.match(/^bollinger(\d+)?$/);
+  if (match) {
+    const period = match[1] ? Number(match[1]) : 20;
+    return inRange(period) ? { key: token, type: 'bollinger', period, multiplier: 2 } : `Invalid period: ${token}`;
+  }
+
+  if (token === 'vwap') {
+    return { key: token, type: 'vwap' };
+  }
+
+  return `Unknown indicator: ${token}`;
+};
+
+export const StockIndicatorQueryDtoSchema = z.object({
+  set: z
+    .string({ message: 'set is required (e.g. sma20,ema50,rsi14,macd,bollinger,vwap)' })
+    .transform((value, ctx) => {
+      const tokens = [...new Set(value.split(',').map((token) => token.trim().toLowerCase()).filter(Boolean))];
+      if (tokens.length === 0) {
+        ctx.addIssue({ code: 'custom', message: 'At least one indicator is required' });
+        return z.NEVER;
+      }
+      if (tokens.length > MAX_INDICATORS_PER_REQUEST) {
+        ctx.addIssue({ code: 'custom', message: `Up to ${MAX_INDICATORS_PER_REQUEST} indicators are allowed` });
+        return z.NEVER;
+      }
+
+      const specs: IndicatorSpec[] = [];
+      for (const token of tokens) {
+        const spec = parseIndicator(token);
+        if (typeof spec === 'string') {
+          ctx.addIssue({ code: 'custom', message: spec });
+        } else if (!specs.some((s) => s.key === spec.key)) {
+          specs.push(spec);
+        }
+      }
+      return specs;
+    }),
+  period: z
+    .string()
+    .refine((period) => period in CHART_PERIOD_DAYS, {
+      message: `period must be one of ${Object.keys(CHART_PERIOD_DAYS).join(', ')}`,
+    })
+    .default(DEFAULT_CHART_PERIOD),
+});
+
+export class StockIndicatorQueryDto {
+  constructor(
+    public readonly indicators: IndicatorSpec[],
+    public readonly period: string
+  ) {}
+
+  static from(data: unknown): StockIndicatorQueryDto {
+    const validated = StockIndicatorQueryDtoSchema.parse(data ?? {});
+    return new StockIndicatorQueryDto(validated.set, validated.period);
+  }
+}
@@ -0,0 +1,20 @@
+import { BollingerPoint, MacdPoint } from '../../utils/indicators';
+
+export type IndicatorValue = number | MacdPoint | BollingerPoint | null;
+
+export interface StockIndicatorPoint {
+  date: string; // YYYY-MM-DD (KST)
+  close: number;
+  volume: number;
+  values: Record<string, IndicatorValue>; // 지표 키(sma20, macd 등) → 값 (워밍업 데이터가 부족하면 null)
+}
+
+export class StockIndicatorResponseDto {
+  constructor(
+    public readonly code: string,
+    public readonly name: string,
+    public readonly period: string,
+    public readonly indicators: string[],
+    public readonly points: StockIndicatorPoint[]
+  ) {}
+}
@@ -53,6 +53,7 @@ export class StockDetailResponseDto extends StockResponseDto {
     public readonly marketCap: number,
     public readonly chartData?: Array<{
       time: string;
+      timestamp?: string; // 봉 시작 시각 (ISO 8601)
       value: number; // 하위 호환성 (close와 동일)
       volume: number;
       open?: number;
@@ -81,6 +82,7 @@ export class StockDetailResponseDto extends StockResponseDto {
     },
     chartData?: Array<{
       time: string;
+      timestamp?: string; // 봉 시작 시각 (ISO 8601)
       value: number; // 하위 호환성 (close와 동일)
       volume: number;
       open?: number;
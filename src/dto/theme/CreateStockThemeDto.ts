@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+// 테마당 최대 종목 수
+export const MAX_THEME_STOCKS = 200;
+
+export const ThemeStocksSchema = z
+  .array(z.string().trim().min(1))
+  .max(MAX_THEME_STOCKS, `Up to ${MAX_THEME_STOCKS} stocks are allowed`)
+  .refine((stocks) => new Set(stocks).size === stocks.length, 'Duplicate stocks in theme'); // 종목 ID 또는 code (순서 = 테마 내 순서)
+
+export const CreateStockThemeDtoSchema = z.object({
+  name: z.string().trim().min(1, 'Theme name is required').max(50),
+  description: z.string().trim().max(500).optional(),
+  sortOrder: z.number().int().min(0).default(0),
+  isActive: z.boolean().default(true),
+  stocks: ThemeStocksSchema.default([]),
+});
+
+export class CreateStockThemeDto {
+  constructor(
+    public readonly name: string,
+    public readonly sortOrder: number,
+    public readonly isActive: boolean,
+    public readonly stocks: string[],
+    public readonly description?: string
+  ) {}
+
+  static from(data: unknown): CreateStockThemeDto {
+    const validated = CreateStockThemeDtoSchema.parse(data);
+    return new CreateStockThemeDto(
+      validated.name,
+      validated.sortOrder,
+      validated.isActive,
+      validated.stocks,
+      validated.description
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { StockTheme } from '../../entities/StockTheme';
+import { StockResponseDto } from '../stock/StockResponseDto';
+
+export interface StockThemePerformance {
+  averageChangeRate: number | null; // 구성 종목 등락률 단순 평균 (%)
+  advancers: number; // 상승 종목 수
+  decliners: number; // 하락 종목 수
+  unchanged: number; // 보합 종목 수
+  breadth: number | null; // 상승 종목 비율 (0 ~ 1)
+}
+
+export class StockThemeResponseDto {
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    public readonly description: string | null,
+    public readonly sortOrder: number,
+    public readonly isActive: boolean,
+    public readonly stockCount: number,
+    public readonly performance: StockThemePerformance,
+    public readonly createdAt: string,
+    public readonly updatedAt: string,
+    public readonly stocks?: StockResponseDto[] // 상세 조회만
+  ) {}
+
+  static to(theme: StockTheme, performance: StockThemePerformance, stocks?: StockResponseDto[]): StockThemeResponseDto {
+    return new StockThemeResponseDto(
+      theme.id,
+      theme.name,
+      theme.description,
+      theme.sortOrder,
+      theme.isActive,
+      theme.stockIds.length,
+      performance,
+      theme.createdAt.toISOString(),
+      theme.updatedAt.toISOString(),
+      stocks
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { ThemeStocksSchema } from './CreateStockThemeDto';
+
+export const StockThemeStocksDtoSchema = z.object({
+  stocks: ThemeStocksSchema,
+});
+
+export class StockThemeStocksDto {
+  constructor(public readonly stocks: string[]) {}
+
+  static from(data: unknown): StockThemeStocksDto {
+    const validated = StockThemeStocksDtoSchema.parse(data);
+    return new StockThemeStocksDto(validated.stocks);
+  }
+}
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+export const UpdateStockThemeDtoSchema = z.object({
+  name: z.string().trim().min(1, 'Theme name is required').max(50).optional(),
+  description: z.string().trim().max(500).nullable().optional(), // null: 설명 삭제
+  sortOrder: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export class UpdateStockThemeDto {
+  constructor(
+    public readonly name?: string,
+    public readonly description?: string | null,
+    public readonly sortOrder?: number,
+    public readonly isActive?: boolean
+  ) {}
+
+  static from(data: unknown): UpdateStockThemeDto {
+    const validated = UpdateStockThemeDtoSchema.parse(data);
+    return new UpdateStockThemeDto(validated.name, validated.description, validated.sortOrder, validated.isActive);
+  }
+}
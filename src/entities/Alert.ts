@@ -0,0 +1,95 @@
+export const ALERT_TYPES = ['price_above', 'price_below', 'change_rate', 'volume_spike', 'negative_news'] as const;
+export const ALERT_CHANNELS = ['websocket', 'external'] as const; // 통합 알림 수신함(notifications)은 항상 기록
+export const PRICE_ALERT_TYPES = ['price_above', 'price_below', 'change_rate', 'volume_spike'] as const;
+
+export type AlertType = (typeof ALERT_TYPES)[number];
+export type AlertChannel = (typeof ALERT_CHANNELS)[number];
+export type AlertCrossState = 'above' | 'below';
+
+/**
+ * 알림 평가 기준 시세
+ */
+export interface AlertQuote {
+  stockId: string;
+  price: number;
+  changeRate: number; // %
+  volume: number; // 당일 누적 거래량
+  observedAt: Date;
+}
+
+export class Alert {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly stockId: string,
+    public readonly type: AlertType,
+    public readonly threshold: number | null,
+    public readonly channels: AlertChannel[],
+    public readonly cooldownMinutes: number,
+    public readonly isActive: boolean,
+    public readonly memo: string | null,
+    public readonly lastState: AlertCrossState | null,
+    public readonly lastTriggeredAt: Date | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * 가격 교차 알림의 현재 상태 (임계가 이상이면 above)
+   */
+  static crossState(price: number, threshold: number): AlertCrossState {
+    return price >= threshold ? 'above' : 'below';
+  }
+
+  /**
+   * 가격 교차 판정 (조건 상태로 "진입"하는 순간만 발생, 머무르는 동안은 재발생하지 않음)
+   * 상태가 바뀌지 않았으면 null, 첫 평가(lastState 없음)는 상태만 기록하고 발생하지 않음
+   */
+  evaluateCross(price: number): { state: AlertCrossState; triggered: boolean } | null {
+    const state = Alert.crossState(price, this.threshold ?? 0);
+    if (state === this.lastState) return null;
+
+    const target: AlertCrossState = this.type === 'price_above' ? 'above' : 'below';
+    return { state, triggered: this.lastState !== null && state === target };
+  }
+
+  /**
+   * 등락률 알림 조건 (상승/하락 모두 임계 % 이상)
+   */
+  isChangeRateTriggered(changeRate: number): boolean {
+    return Math.abs(changeRate) >= (this.threshold ?? 0);
+  }
+
+  /**
+   * 거래량 급증 조건 (평균 거래량의 임계 배수 이상, 평균이 없으면 판정 불가)
+   */
+  isVolumeSpike(volume: number, averageVolume: number | null): boolean {
+    return !!averageVolume && volume >= averageVolume * (this.threshold ?? 0);
+  }
+
+  /**
+   * 재발생 금지 시간 여부
+   */
+  isCoolingDown(now: Date): boolean {
+    return (
+      this.lastTriggeredAt !== null &&
+      now.getTime() - this.lastTriggeredAt.getTime() < this.cooldownMinutes * 60 * 1000
+    );
+  }
+}
+
+export class AlertEvent {
+  constructor(
+    public readonly id: string,
+    public readonly alertId: string,
+    public readonly userId: string,
+    public readonly stockId: string,
+    public readonly type: AlertType,
+    public readonly title: string,
+    public readonly message: string,
+    public readonly payload: Record<string, unknown> | null,
+    public readonly dedupKey: string,
+    public readonly deliveries: Record<string, string> | null,
+    public readonly createdAt: Date
+  ) {}
+}
@@ -0,0 +1,78 @@
+export const BACKTEST_STATUSES = ['queued', 'running', 'completed', 'failed'] as const;
+export const BACKTEST_STRATEGY_TYPES = ['ma_crossover', 'rsi', 'rebalance'] as const;
+export const REBALANCE_INTERVALS = ['1w', '1M', '3M'] as const;
+
+export type BacktestStatus = (typeof BACKTEST_STATUSES)[number];
+export type BacktestStrategyType = (typeof BACKTEST_STRATEGY_TYPES)[number];
+export type RebalanceInterval = (typeof REBALANCE_INTERVALS)[number];
+
+/**
+ * 선언형 전략 정의
+ * - ma_crossover: 단기 이동평균이 장기 이동평균을 상향 돌파하면 매수, 하향 돌파하면 매도
+ * - rsi: RSI가 oversold 아래로 내려가면 매수, overbought 위로 올라가면 매도
+ * - rebalance: 주기마다 목표 비중으로 재조정 (weights 생략 시 동일 비중)
+ */
+export type BacktestStrategy =
+  | { type: 'ma_crossover'; fast: number; slow: number; maType: 'sma' | 'ema' }
+  | { type: 'rsi'; period: number; oversold: number; overbought: number }
+  | { type: 'rebalance'; interval: RebalanceInterval; weights?: Record<string, number> }; // weights: Stock.id → %
+
+export interface BacktestTrade {
+  date: string; // YYYY-MM-DD (KST, 체결일)
+  stockId: string;
+  code: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number; // 체결가 (신호 다음 거래일 시가)
+  fee: number; // 수수료 + 증권거래세
+  reason: string; // golden_cross, dead_cross, rsi_oversold, rsi_overbought, rebalance
+  realizedProfit: number | null; // 매도만 (평균단가 기준, 비용 차감)
+}
+
+export interface BacktestEquityPoint {
+  date: string;
+  equity: number;
+  cash: number;
+  drawdown: number; // 고점 대비 하락률 (0 ~ -1)
+}
+
+export interface BacktestMetrics {
+  initialCash: number;
+  finalEquity: number;
+  totalReturn: number; // 0.12 = 12%
+  cagr: number;
+  volatility: number; // 일간 수익률 표준편차 연환산
+  sharpeRatio: number | null; // 변동성이 0이면 null
+  maxDrawdown: number; // 0 ~ -1
+  maxDrawdownPeakDate: string | null;
+  maxDrawdownTroughDate: string | null;
+  tradeCount: number;
+  winRate: number | null; // 수익 매도 건수 / 전체 매도 건수
+  totalFees: number;
+  tradingDays: number;
+}
+
+export class Backtest {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly name: string | null,
+    public readonly strategy: BacktestStrategy,
+    public readonly universe: string[], // Stock.id
+    public readonly from: Date,
+    public readonly to: Date,
+    public readonly initialCash: number,
+    public readonly commissionRate: number,
+    public readonly taxRate: number,
+    public readonly riskFreeRate: number,
+    public readonly status: BacktestStatus,
+    public readonly metrics: BacktestMetrics | null,
+    public readonly trades: BacktestTrade[] | null, // 목록 조회 시 null
+    public readonly equityCurve: BacktestEquityPoint[] | null, // 목록 조회 시 null
+    public readonly error: string | null,
+    public readonly startedAt: Date | null,
+    public readonly completedAt: Date | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+}
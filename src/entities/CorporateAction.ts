@@ -0,0 +1,67 @@
+import { BadRequestError } from '../errors/AppError';
+
+export const CORPORATE_ACTION_TYPES = ['split', 'rights_issue'] as const;
+export const CORPORATE_ACTION_STATUSES = ['pending', 'applied'] as const;
+export const CORPORATE_ACTION_ADJUSTMENT_STATUSES = ['adjusted', 'skipped'] as const;
+
+export type CorporateActionType = (typeof CORPORATE_ACTION_TYPES)[number];
+export type CorporateActionStatus = (typeof CORPORATE_ACTION_STATUSES)[number];
+export type CorporateActionAdjustmentStatus = (typeof CORPORATE_ACTION_ADJUSTMENT_STATUSES)[number];
+
+export class CorporateAction {
+  constructor(
+    public readonly id: string,
+    public readonly stockId: string,
+    public readonly type: CorporateActionType,
+    public readonly exDate: Date, // KST 자정, 이 날짜 이전 일봉이 조정 대상
+    public readonly ratio: number, // split: 1주당 변경 후 주식 수, rights_issue: 1주당 신주 배정 수
+    public readonly subscriptionPrice: number | null, // rights_issue: 신주 발행가
+    public readonly adjustmentFactor: number | null, // 적용 시 계산된 수정주가 계수
+    public readonly status: CorporateActionStatus,
+    public readonly memo: string | null,
+    public readonly appliedAt: Date | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * 수정주가 계수 (exDate 이전 원시 가격에 곱하는 값)
+   *
+   * - split: 1 / ratio (5:1 분할이면 0.2, 1:5 병합이면 5)
+   * - rights_issue: 권리락 이론가 / 권리락 전일 종가
+   *   = (전일 종가 + ratio × 발행가) / ((1 + ratio) × 전일 종가)
+   *
+   * 유상증자는 권리락 전일 종가가 있어야 계산 가능
+   */
+  computeAdjustmentFactor(previousClose: number | null): number {
+    if (this.type === 'split') {
+      return 1 / this.ratio;
+    }
+
+    if (!previousClose || previousClose <= 0) {
+      throw new BadRequestError('Rights issue adjustment requires a closing price before the ex-date');
+    }
+    const theoreticalPrice = (previousClose + this.ratio * (this.subscriptionPrice ?? 0)) / (1 + this.ratio);
+    return theoreticalPrice / previousClose;
+  }
+}
+
+/**
+ * 기업 이벤트 적용 시 계좌별 보유 종목 조정 기록
+ */
+export class CorporateActionAdjustment {
+  constructor(
+    public readonly id: string,
+    public readonly actionId: string,
+    public readonly userId: string,
+    public readonly accountId: string,
+    public readonly transactionId: string | null, // 기록된 split 원장 거래 (건너뛴 경우 null)
+    public readonly status: CorporateActionAdjustmentStatus,
+    public readonly quantityBefore: number,
+    public readonly quantityAfter: number,
+    public readonly averagePriceBefore: number,
+    public readonly averagePriceAfter: number,
+    public readonly note: string | null,
+    public readonly createdAt: Date
+  ) {}
+}
@@ -0,0 +1,12 @@
+export class Dividend {
+  constructor(
+    public readonly id: string,
+    public readonly stockId: string,
+    public readonly exDate: Date,
+    public readonly recordDate: Date | null,
+    public readonly payDate: Date | null,
+    public readonly amount: number, // 주당 배당금 (종목 통화)
+    public readonly currency: string,
+    public readonly source: string
+  ) {}
+}
@@ -3,6 +3,10 @@ export class Favorite {
     public readonly id: string,
     public readonly userId: string,
     public readonly stockId: string,
-    public readonly createdAt: Date
+    public readonly createdAt: Date,
+    public readonly groupId: string | null = null, // 관심 그룹 (null: 미분류)
+    public readonly position: number = 0, // 그룹 내 표시 순서
+    public readonly memo: string | null = null,
+    public readonly targetPrice: number | null = null
   ) {}
 }
@@ -0,0 +1,26 @@
+export const SUPPORTED_CURRENCIES = ['KRW', 'USD'] as const;
+
+export type Currency = (typeof SUPPORTED_CURRENCIES)[number];
+
+// 저장하는 환율 쌍 (기준통화 + 표시통화)
+export const FX_PAIRS = ['USDKRW'] as const;
+
+export type FxPair = (typeof FX_PAIRS)[number];
+
+export class FxRate {
+  constructor(
+    public readonly id: string,
+    public readonly pair: FxPair,
+    public readonly date: Date,
+    public readonly rate: number, // 기준통화 1단위당 표시통화
+    public readonly source: string
+  ) {}
+
+  get baseCurrency(): Currency {
+    return this.pair.slice(0, 3) as Currency;
+  }
+
+  get quoteCurrency(): Currency {
+    return this.pair.slice(3) as Currency;
+  }
+}
@@ -4,6 +4,7 @@ export class History {
     public readonly userId: string,
     public readonly stockId: string,
     public readonly type: string,
-    public readonly viewedAt: Date
+    public readonly viewedAt: Date,
+    public readonly priceAtView: number | null = null // 조회 시점 현재가
   ) {}
 }
@@ -0,0 +1,18 @@
+export const MARKET_INDEX_CODES = ['KOSPI', 'KOSDAQ'] as const;
+
+export type MarketIndexCode = (typeof MARKET_INDEX_CODES)[number];
+
+export class IndexPrice {
+  constructor(
+    public readonly id: string,
+    public readonly code: MarketIndexCode,
+    public readonly date: Date,
+    public readonly open: number,
+    public readonly high: number,
+    public readonly low: number,
+    public readonly close: number,
+    public readonly change: number,
+    public readonly changeRate: number,
+    public readonly source: string
+  ) {}
+}
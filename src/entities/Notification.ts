@@ -0,0 +1,34 @@
+export const NOTIFICATION_TYPES = ['alert', 'learning', 'backtest', 'recommendation'] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export class Notification {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly type: NotificationType,
+    public readonly title: string,
+    public readonly message: string,
+    public readonly data: Record<string, unknown> | null,
+    public readonly link: string | null,
+    public readonly dedupKey: string | null,
+    public readonly readAt: Date | null,
+    public readonly createdAt: Date
+  ) {}
+}
+
+export class NotificationPreference {
+  constructor(
+    public readonly userId: string,
+    public readonly type: NotificationType,
+    public readonly enabled: boolean,
+    public readonly push: boolean
+  ) {}
+
+  /**
+   * 설정 행이 없는 유형의 기본값 (수신 + 실시간 전송)
+   */
+  static defaults(userId: string, type: NotificationType): NotificationPreference {
+    return new NotificationPreference(userId, type, true, true);
+  }
+}
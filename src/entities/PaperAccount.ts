@@ -0,0 +1,28 @@
+import { PaperOrderSide } from './PaperOrder';
+
+// 모의투자 체결이 기록되는 포트폴리오 계좌명 (type: paper)
+export const PAPER_PORTFOLIO_ACCOUNT_NAME = '모의투자';
+
+export class PaperAccount {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly portfolioAccountId: string,
+    public readonly initialCash: number,
+    public readonly cash: number,
+    public readonly commissionRate: number,
+    public readonly taxRate: number,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * 체결 비용 (원 미만 절사, 증권거래세는 매도에만 부과)
+   */
+  feesFor(side: PaperOrderSide, amount: number): { commission: number; tax: number } {
+    return {
+      commission: Math.floor(amount * this.commissionRate),
+      tax: side === 'sell' ? Math.floor(amount * this.taxRate) : 0,
+    };
+  }
+}
@@ -0,0 +1,75 @@
+export const PAPER_ORDER_SIDES = ['buy', 'sell'] as const;
+export const PAPER_ORDER_TYPES = ['market', 'limit', 'stop'] as const;
+export const PAPER_ORDER_STATUSES = ['open', 'filled', 'cancelled', 'rejected'] as const;
+
+export type PaperOrderSide = (typeof PAPER_ORDER_SIDES)[number];
+export type PaperOrderType = (typeof PAPER_ORDER_TYPES)[number];
+export type PaperOrderStatus = (typeof PAPER_ORDER_STATUSES)[number];
+
+/**
+ * 매칭 기준 가격 구간 (일봉 또는 현재가)
+ */
+export interface PaperPriceBar {
+  open: number;
+  high: number;
+  low: number;
+}
+
+export class PaperOrder {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly paperAccountId: string,
+    public readonly stockId: string,
+    public readonly side: PaperOrderSide,
+    public readonly type: PaperOrderType,
+    public readonly quantity: number,
+    public readonly limitPrice: number | null,
+    public readonly stopPrice: number | null,
+    public readonly status: PaperOrderStatus,
+    public readonly filledPrice: number | null,
+    public readonly commission: number,
+    public readonly tax: number,
+    public readonly filledAt: Date | null,
+    public readonly transactionId: string | null,
+    public readonly rejectReason: string | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * 미체결 주문의 현금 예약 기준가 (market/stop은 현재가, limit은 지정가)
+   */
+  reservePrice(currentPrice: number): number {
+    if (this.type === 'limit') return this.limitPrice!;
+    if (this.type === 'stop') return Math.max(this.stopPrice!, currentPrice);
+    return currentPrice;
+  }
+
+  /**
+   * 가격 구간에서의 체결가 (미체결이면 null)
+   *
+   * - market: 시가
+   * - limit: 매수는 저가 ≤ 지정가, 매도는 고가 ≥ 지정가일 때 지정가 (시가가 더 유리하면 시가)
+   * - stop: 매수는 고가 ≥ 발동가, 매도는 저가 ≤ 발동가일 때 발동가 (시가가 이미 넘었으면 시가)
+   */
+  matchPrice(bar: PaperPriceBar): number | null {
+    if (this.type === 'market') {
+      return bar.open;
+    }
+
+    if (this.type === 'limit') {
+      const limit = this.limitPrice!;
+      if (this.side === 'buy') {
+        return bar.low <= limit ? Math.min(limit, bar.open) : null;
+      }
+      return bar.high >= limit ? Math.max(limit, bar.open) : null;
+    }
+
+    const stop = this.stopPrice!;
+    if (this.side === 'buy') {
+      return bar.high >= stop ? Math.max(stop, bar.open) : null;
+    }
+    return bar.low <= stop ? Math.min(stop, bar.open) : null;
+  }
+}
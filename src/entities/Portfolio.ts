@@ -2,6 +2,7 @@ export class Portfolio {
   constructor(
     public readonly id: string,
     public readonly userId: string,
+    public readonly accountId: string | null,
     public readonly stockId: string,
     public readonly quantity: number,
     public readonly averagePrice: number,
@@ -16,6 +17,7 @@ export class Portfolio {
   static create(data: {
     id: string;
     userId: string;
+    accountId: string | null;
     stockId: string;
     quantity: number;
     averagePrice: number;
@@ -29,6 +31,7 @@ export class Portfolio {
     return new Portfolio(
       data.id,
       data.userId,
+      data.accountId,
       data.stockId,
       data.quantity,
       data.averagePrice,
@@ -50,6 +53,7 @@ export class Portfolio {
     return new Portfolio(
       this.id,
       this.userId,
+      this.accountId,
       this.stockId,
       this.quantity,
       this.averagePrice,
@@ -0,0 +1,31 @@
+export const PORTFOLIO_ACCOUNT_TYPES = ['brokerage', 'isa', 'pension', 'paper'] as const;
+
+export type PortfolioAccountType = (typeof PORTFOLIO_ACCOUNT_TYPES)[number];
+
+// 사용자가 직접 만들 수 있는 계좌 유형 (모의투자 계좌는 모의투자 개설 시에만 생성)
+export const MANUAL_PORTFOLIO_ACCOUNT_TYPES = ['brokerage', 'isa', 'pension'] as const;
+
+export type ManualPortfolioAccountType = (typeof MANUAL_PORTFOLIO_ACCOUNT_TYPES)[number];
+
+// 계좌 도입 이전 보유 내역이 이관되는 기본 계좌명
+export const DEFAULT_ACCOUNT_NAME = '기본 계좌';
+
+export class PortfolioAccount {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly name: string,
+    public readonly type: PortfolioAccountType,
+    public readonly broker: string | null,
+    public readonly isDefault: boolean,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * 모의투자 계좌 여부 (수동 거래 기록·전체 계좌 합산 대상 아님)
+   */
+  isPaper(): boolean {
+    return this.type === 'paper';
+  }
+}
@@ -0,0 +1,15 @@
+export const PORTFOLIO_TARGET_TYPES = ['stock', 'sector'] as const;
+
+export type PortfolioTargetType = (typeof PORTFOLIO_TARGET_TYPES)[number];
+
+export class PortfolioTarget {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly type: PortfolioTargetType,
+    public readonly key: string, // stock: Stock.id, sector: 섹터명
+    public readonly weight: number, // %
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+}
@@ -0,0 +1,148 @@
+import { BadRequestError } from '../errors/AppError';
+
+export const PORTFOLIO_TRANSACTION_TYPES = ['buy', 'sell', 'dividend', 'split', 'fee'] as const;
+
+export type PortfolioTransactionType = (typeof PORTFOLIO_TRANSACTION_TYPES)[number];
+
+/**
+ * 원장 재생 결과 (파생 포지션)
+ */
+export interface DerivedPosition {
+  quantity: number;
+  averagePrice: number;
+  totalCost: number;
+}
+
+// 부동소수점 오차 허용 범위 (소수점 수량 지원)
+const QUANTITY_EPSILON = 1e-9;
+
+export class PortfolioTransaction {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly accountId: string | null,
+    public readonly stockId: string,
+    public readonly type: PortfolioTransactionType,
+    public readonly quantity: number,
+    public readonly price: number,
+    public readonly fee: number,
+    public readonly executedAt: Date,
+    public readonly memo: string | null,
+    public readonly createdAt: Date
+  ) {}
+
+  /**
+   * 거래 금액 (수수료 제외)
+   * dividend는 세전 배당금, split/fee는 0
+   */
+  get grossAmount(): number {
+    if (this.type === 'buy' || this.type === 'sell' || this.type === 'dividend') {
+      return this.quantity * this.price;
+    }
+    return 0;
+  }
+
+  /**
+   * 포트폴리오 기준 순유입 자본 (성과 계산용 외부 현금흐름)
+   * 매수/수수료는 자본 투입(+), 매도 대금/배당금은 자본 회수(-)
+   */
+  get capitalFlow(): number {
+    switch (this.type) {
+      case 'buy':
+        return this.quantity * this.price + this.fee;
+      case 'sell':
+      case 'dividend':
+        return -(this.quantity * this.price - this.fee);
+      case 'fee':
+        return this.fee;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * 거래 반영 후 보유 수량
+   */
+  applyToQuantity(quantity: number): number {
+    switch (this.type) {
+      case 'buy':
+        return quantity + this.quantity;
+      case 'sell':
+        return Math.max(0, quantity - this.quantity);
+      case 'split':
+        return quantity * this.quantity;
+      default:
+        return quantity;
+    }
+  }
+
+  /**
+   * 원장 정렬 (체결 시각 → 등록 시각 순)
+   */
+  static sortLedger(transactions: PortfolioTransaction[]): PortfolioTransaction[] {
+    return [...transactions].sort(
+      (a, b) =>
+        a.executedAt.getTime() - b.executedAt.getTime() ||
+        a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  /**
+   * 원장을 처음부터 재생하여 현재 포지션 계산 (이동평균 원가법)
+   *
+   * - buy: 수량 증가, 매입금액 + 수수료를 원가에 가산
+   * - sell: 평균단가 기준으로 원가 차감 (보유 수량 초과 매도 불가)
+   * - split: 수량에 분할 비율을 곱하고 총 원가는 유지
+   * - fee: 보유 중인 포지션의 원가에 가산
+   * - dividend: 포지션에 영향 없음 (현금 흐름만 발생)
+   *
+   * rateAt을 지정하면 체결 시점 환율로 환산한 원가를 누적 (기준 통화 취득원가)
+   */
+  static derivePosition(
+    transactions: PortfolioTransaction[],
+    rateAt: (date: Date) => number = () => 1
+  ): DerivedPosition {
+    let quantity = 0;
+    let totalCost = 0;
+
+    for (const tx of PortfolioTransaction.sortLedger(transactions)) {
+      switch (tx.type) {
+        case 'buy':
+          quantity += tx.quantity;
+          totalCost += (tx.quantity * tx.price + tx.fee) * rateAt(tx.executedAt);
+          break;
+        case 'sell': {
+          if (tx.quantity > quantity + QUANTITY_EPSILON) {
+            throw new BadRequestError(
+              `Sell quantity ${tx.quantity} exceeds holding ${quantity} at ${tx.executedAt.toISOString()}`
+            );
+          }
+          const averagePrice = quantity > 0 ? totalCost / quantity : 0;
+          quantity -= tx.quantity;
+          totalCost -= averagePrice * tx.quantity;
+          if (quantity <= QUANTITY_EPSILON) {
+            quantity = 0;
+            totalCost = 0;
+          }
+          break;
+        }
+        case 'split':
+          quantity *= tx.quantity;
+          break;
+        case 'fee':
+          if (quantity > 0) {
+            totalCost += tx.fee * rateAt(tx.executedAt);
+          }
+          break;
+        case 'dividend':
+          break;
+      }
+    }
+
+    return {
+      quantity,
+      averagePrice: quantity > 0 ? totalCost / quantity : 0,
+      totalCost,
+    };
+  }
+}
@@ -0,0 +1,36 @@
+export const SCREENER_STOCK_FIELDS = ['market', 'sector', 'currentPrice', 'marketCap', 'changeRate', 'volume'] as const;
+export const SCREENER_OPERATORS = ['eq', 'neq', 'in', 'gt', 'gte', 'lt', 'lte', 'between'] as const;
+
+export type ScreenerStockField = (typeof SCREENER_STOCK_FIELDS)[number];
+export type ScreenerOperator = (typeof SCREENER_OPERATORS)[number];
+
+/**
+ * 스크리너 조건식
+ * - 조건: { field, op, value } (field는 Stock 필드 또는 파생 지표)
+ *   - 파생 지표: high52wDistance, low52wDistance, return<N>d, avgVolume<N>d, rsi<N>
+ * - 그룹: { all: [...] } (AND), { any: [...] } (OR), 중첩 가능
+ */
+export type ScreenerCondition = {
+  field: string;
+  op: ScreenerOperator;
+  value: number | string | Array<number | string>;
+};
+
+export type ScreenerExpression = ScreenerCondition | { all: ScreenerExpression[] } | { any: ScreenerExpression[] };
+
+export interface ScreenerSort {
+  field: string;
+  order: 'asc' | 'desc';
+}
+
+export class SavedScreen {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly name: string,
+    public readonly filter: ScreenerExpression | null, // null이면 전체 종목
+    public readonly sort: ScreenerSort | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+}
@@ -0,0 +1,21 @@
+export class Session {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly refreshTokenHash: string,
+    public readonly previousTokenHash: string | null,
+    public readonly userAgent: string | null,
+    public readonly ipAddress: string | null,
+    public readonly expiresAt: Date,
+    public readonly lastUsedAt: Date,
+    public readonly revokedAt: Date | null,
+    public readonly createdAt: Date
+  ) {}
+
+  /**
+   * refresh 가능 여부 (폐기되지 않았고 만료 전)
+   */
+  isActive(now: Date): boolean {
+    return this.revokedAt === null && this.expiresAt.getTime() > now.getTime();
+  }
+}
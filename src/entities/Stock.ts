@@ -10,6 +10,8 @@ export class Stock {
     public readonly changeRate: number,
     public readonly volume: bigint,
     public readonly createdAt: Date,
-    public readonly updatedAt: Date
+    public readonly updatedAt: Date,
+    public readonly currency: string = 'KRW', // KRW, USD (currentPrice 표시 통화)
+    public readonly marketCap: bigint | null = null
   ) {}
 }
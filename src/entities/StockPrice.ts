@@ -0,0 +1,38 @@
+export class StockPrice {
+  constructor(
+    public readonly id: string,
+    public readonly stockId: string,
+    public readonly date: Date,
+    public readonly open: number,
+    public readonly high: number,
+    public readonly low: number,
+    public readonly close: number,
+    public readonly volume: bigint,
+    public readonly change: number,
+    public readonly changeRate: number,
+    public readonly adjFactor: number = 1 // 수정주가 계수 (원시 가격 × adjFactor = 수정주가)
+  ) {}
+
+  /**
+   * 수정주가 일봉 (액면분할/유상증자 이전 가격을 현재 주식 수 기준으로 환산)
+   * 가격은 adjFactor를 곱하고 거래량은 나눔, 등락률은 원시 값 유지
+   */
+  toAdjusted(): StockPrice {
+    if (this.adjFactor === 1) return this;
+
+    const factor = this.adjFactor;
+    return new StockPrice(
+      this.id,
+      this.stockId,
+      this.date,
+      this.open * factor,
+      this.high * factor,
+      this.low * factor,
+      this.close * factor,
+      BigInt(Math.round(Number(this.volume) / factor)),
+      this.change * factor,
+      this.changeRate,
+      1
+    );
+  }
+}
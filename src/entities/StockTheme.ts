@@ -0,0 +1,12 @@
+export class StockTheme {
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    public readonly description: string | null,
+    public readonly sortOrder: number,
+    public readonly isActive: boolean,
+    public readonly stockIds: string[], // 테마 내 순서
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+}
@@ -0,0 +1,9 @@
+export class StockTick {
+  constructor(
+    public readonly id: string,
+    public readonly stockId: string,
+    public readonly timestamp: Date,
+    public readonly price: number,
+    public readonly volume: bigint // 체결 수량
+  ) {}
+}
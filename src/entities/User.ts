@@ -0,0 +1,13 @@
+export type UserRole = 'user' | 'admin';
+
+export class User {
+  constructor(
+    public readonly id: string,
+    public readonly email: string | null,
+    public readonly name: string | null,
+    public readonly role: UserRole,
+    public readonly passwordHash: string | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+}
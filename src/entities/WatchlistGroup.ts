@@ -0,0 +1,10 @@
+export class WatchlistGroup {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly name: string,
+    public readonly position: number,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+}
@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Alert, AlertCrossState, AlertType } from '../Alert';
+
+const alert = (
+  type: AlertType,
+  threshold: number | null,
+  options: { lastState?: AlertCrossState | null; lastTriggeredAt?: Date | null; cooldownMinutes?: number } = {}
+): Alert =>
+  new Alert(
+    'alert-1',
+    'user-1',
+    'stock-1',
+    type,
+    threshold,
+    ['websocket'],
+    options.cooldownMinutes ?? 30,
+    true,
+    null,
+    options.lastState ?? null,
+    options.lastTriggeredAt ?? null,
+    new Date(),
+    new Date()
+  );
+
+describe('Alert.crossState', () => {
+  it('임계가 이상이면 above', () => {
+    assert.equal(Alert.crossState(10000, 10000), 'above');
+    assert.equal(Alert.crossState(10001, 10000), 'above');
+    assert.equal(Alert.crossState(9999, 10000), 'below');
+  });
+});
+
+describe('Alert.evaluateCross', () => {
+  it('price_above: below → above 진입 시 발생', () => {
+    assert.deepEqual(alert('price_above', 10000, { lastState: 'below' }).evaluateCross(10500), {
+      state: 'above',
+      triggered: true,
+    });
+  });
+
+  it('price_above: above → below는 상태만 갱신', () => {
+    assert.deepEqual(alert('price_above', 10000, { lastState: 'above' }).evaluateCross(9500), {
+      state: 'below',
+      triggered: false,
+    });
+  });
+
+  it('price_below: above → below 진입 시 발생', () => {
+    assert.deepEqual(alert('price_below', 10000, { lastState: 'above' }).evaluateCross(9000), {
+      state: 'below',
+      triggered: true,
+    });
+  });
+
+  it('상태를 유지하는 동안은 재발생하지 않음', () => {
+    assert.equal(alert('price_above', 10000, { lastState: 'above' }).evaluateCross(12000), null);
+    assert.equal(alert('price_below', 10000, { lastState: 'below' }).evaluateCross(8000), null);
+  });
+
+  it('첫 평가는 상태만 기록 (이미 조건을 만족한 상태로 등록된 경우)', () => {
+    assert.deepEqual(alert('price_above', 10000).evaluateCross(12000), { state: 'above', triggered: false });
+  });
+});
+
+describe('Alert.isChangeRateTriggered', () => {
+  it('상승/하락 모두 임계 % 이상이면 발생', () => {
+    const changeRate = alert('change_rate', 5);
+
+    assert.equal(changeRate.isChangeRateTriggered(5), true);
+    assert.equal(changeRate.isChangeRateTriggered(-7.3), true);
+    assert.equal(changeRate.isChangeRateTriggered(4.99), false);
+    assert.equal(changeRate.isChangeRateTriggered(-4.99), false);
+  });
+});
+
+describe('Alert.isVolumeSpike', () => {
+  it('평균 거래량의 임계 배수 이상이면 발생', () => {
+    const volumeSpike = alert('volume_spike', 3);
+
+    assert.equal(volumeSpike.isVolumeSpike(300, 100), true);
+    assert.equal(volumeSpike.isVolumeSpike(299, 100), false);
+  });
+
+  it('평균 거래량이 없으면 판정하지 않음', () => {
+    const volumeSpike = alert('volume_spike', 3);
+
+    assert.equal(volumeSpike.isVolumeSpike(1000000, null), false);
+    assert.equal(volumeSpike.isVolumeSpike(1000000, 0), false);
+  });
+});
+
+describe('Alert.isCoolingDown', () => {
+  const now = new Date('2024-01-01T10:00:00Z');
+
+  it('마지막 발생 후 재발생 금지 시간 이내', () => {
+    const triggered = alert('change_rate', 5, {
+      lastTriggeredAt: new Date('2024-01-01T09:31:00Z'),
+      cooldownMinutes: 30,
+    });
+
+    assert.equal(triggered.isCoolingDown(now), true);
+  });
+
+  it('재발생 금지 시간이 지났거나 발생 이력이 없으면 false', () => {
+    const expired = alert('change_rate', 5, {
+      lastTriggeredAt: new Date('2024-01-01T09:30:00Z'),
+      cooldownMinutes: 30,
+    });
+
+    assert.equal(expired.isCoolingDown(now), false);
+    assert.equal(alert('change_rate', 5).isCoolingDown(now), false);
+  });
+});
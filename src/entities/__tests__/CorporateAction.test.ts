@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CorporateAction, CorporateActionType } from '../CorporateAction';
+import { BadRequestError } from '../../errors/AppError';
+
+const action = (type: CorporateActionType, ratio: number, subscriptionPrice: number | null = null): CorporateAction =>
+  new CorporateAction(
+    'action-1',
+    'stock-1',
+    type,
+    new Date('2024-03-01T00:00:00+09:00'),
+    ratio,
+    subscriptionPrice,
+    null,
+    'pending',
+    null,
+    null,
+    new Date(),
+    new Date()
+  );
+
+describe('CorporateAction.computeAdjustmentFactor', () => {
+  it('분할: 1 / ratio', () => {
+    assert.equal(action('split', 5).computeAdjustmentFactor(null), 0.2);
+    assert.equal(action('split', 2).computeAdjustmentFactor(50000), 0.5);
+  });
+
+  it('병합: ratio < 1이면 계수 > 1', () => {
+    assert.equal(action('split', 0.2).computeAdjustmentFactor(null), 5);
+  });
+
+  it('분할 계수를 곱한 가격 × 분할 후 수량 = 분할 전 평가금액', () => {
+    const split = action('split', 4);
+    const factor = split.computeAdjustmentFactor(null);
+
+    assert.equal(80000 * factor * (10 * split.ratio), 80000 * 10);
+  });
+
+  it('유상증자: 권리락 이론가 / 전일 종가', () => {
+    // 1주당 0.2주, 발행가 8,000원, 전일 종가 10,000원 → 이론가 (10,000 + 0.2 × 8,000) / 1.2
+    const factor = action('rights_issue', 0.2, 8000).computeAdjustmentFactor(10000);
+
+    assert.ok(Math.abs(factor - 11600 / 1.2 / 10000) < 1e-12);
+    assert.ok(factor < 1);
+  });
+
+  it('유상증자 발행가가 전일 종가와 같으면 조정 없음', () => {
+    assert.equal(action('rights_issue', 0.5, 10000).computeAdjustmentFactor(10000), 1);
+  });
+
+  it('유상증자는 전일 종가가 없으면 계산 불가', () => {
+    assert.throws(() => action('rights_issue', 0.2, 8000).computeAdjustmentFactor(null), BadRequestError);
+    assert.throws(() => action('rights_issue', 0.2, 8000).computeAdjustmentFactor(0), BadRequestError);
+  });
+});
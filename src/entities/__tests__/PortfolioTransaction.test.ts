@@ -0,0 +1,157 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PortfolioTransaction, PortfolioTransactionType } from '../PortfolioTransaction';
+import { BadRequestError } from '../../errors/AppError';
+
+const tx = (
+  type: PortfolioTransactionType,
+  quantity: number,
+  price: number,
+  executedAt: string,
+  fee = 0,
+  createdAt = executedAt
+): PortfolioTransaction =>
+  new PortfolioTransaction(
+    `${type}-${executedAt}`,
+    'user-1',
+    'account-1',
+    'stock-1',
+    type,
+    quantity,
+    price,
+    fee,
+    new Date(executedAt),
+    null,
+    new Date(createdAt)
+  );
+
+describe('PortfolioTransaction.derivePosition', () => {
+  it('매수 수수료를 포함한 이동평균 원가', () => {
+    const position = PortfolioTransaction.derivePosition([
+      tx('buy', 10, 100, '2024-01-01T00:00:00Z', 10),
+      tx('buy', 10, 200, '2024-01-02T00:00:00Z', 10),
+    ]);
+
+    assert.deepEqual(position, { quantity: 20, averagePrice: 151, totalCost: 3020 });
+  });
+
+  it('매도는 평균단가 기준으로 원가 차감', () => {
+    const position = PortfolioTransaction.derivePosition([
+      tx('buy', 10, 100, '2024-01-01T00:00:00Z'),
+      tx('buy', 10, 200, '2024-01-02T00:00:00Z'),
+      tx('sell', 5, 300, '2024-01-03T00:00:00Z', 10),
+    ]);
+
+    assert.deepEqual(position, { quantity: 15, averagePrice: 150, totalCost: 2250 });
+  });
+
+  it('전량 매도 시 원가 초기화', () => {
+    const position = PortfolioTransaction.derivePosition([
+      tx('buy', 3, 100, '2024-01-01T00:00:00Z', 1),
+      tx('sell', 3, 120, '2024-01-02T00:00:00Z'),
+    ]);
+
+    assert.deepEqual(position, { quantity: 0, averagePrice: 0, totalCost: 0 });
+  });
+
+  it('보유 수량 초과 매도는 거부', () => {
+    assert.throws(
+      () =>
+        PortfolioTransaction.derivePosition([
+          tx('buy', 5, 100, '2024-01-01T00:00:00Z'),
+          tx('sell', 6, 100, '2024-01-02T00:00:00Z'),
+        ]),
+      BadRequestError
+    );
+  });
+
+  it('분할은 수량만 늘리고 총 원가는 유지', () => {
+    const position = PortfolioTransaction.derivePosition([
+      tx('buy', 10, 100, '2024-01-01T00:00:00Z', 10),
+      tx('split', 2, 0, '2024-02-01T00:00:00Z'),
+    ]);
+
+    assert.deepEqual(position, { quantity: 20, averagePrice: 50.5, totalCost: 1010 });
+  });
+
+  it('병합(비율 < 1)은 수량을 줄이고 평균단가를 높임', () => {
+    const position = PortfolioTransaction.derivePosition([
+      tx('buy', 50, 100, '2024-01-01T00:00:00Z'),
+      tx('split', 0.2, 0, '2024-02-01T00:00:00Z'),
+    ]);
+
+    assert.deepEqual(position, { quantity: 10, averagePrice: 500, totalCost: 5000 });
+  });
+
+  it('분할은 체결 시점 이전 보유분에만 한 번 적용 (입력 순서 무관)', () => {
+    const ledger = [
+      tx('buy', 5, 60, '2024-03-01T00:00:00Z'),
+      tx('split', 2, 0, '2024-02-01T00:00:00Z'),
+      tx('buy', 10, 100, '2024-01-01T00:00:00Z'),
+    ];
+    const position = PortfolioTransaction.derivePosition(ledger);
+
+    // 분할 전 10주 → 20주, 분할 후 매수 5주는 그대로
+    assert.equal(position.quantity, 25);
+    assert.equal(position.totalCost, 1000 + 300);
+    assert.deepEqual(PortfolioTransaction.derivePosition(PortfolioTransaction.sortLedger(ledger)), position);
+  });
+
+  it('분할 후 매도는 분할 반영 수량 기준으로 검증', () => {
+    const position = PortfolioTransaction.derivePosition([
+      tx('buy', 10, 100, '2024-01-01T00:00:00Z'),
+      tx('split', 5, 0, '2024-02-01T00:00:00Z'),
+      tx('sell', 40, 30, '2024-03-01T00:00:00Z'),
+    ]);
+
+    assert.deepEqual(position, { quantity: 10, averagePrice: 20, totalCost: 200 });
+  });
+
+  it('같은 체결 시각이면 등록 순서로 재생', () => {
+    const position = PortfolioTransaction.derivePosition([
+      tx('buy', 5, 100, '2024-01-01T00:00:00Z', 0, '2024-01-01T00:00:02Z'),
+      tx('split', 2, 0, '2024-01-01T00:00:00Z', 0, '2024-01-01T00:00:01Z'),
+      tx('buy', 10, 100, '2024-01-01T00:00:00Z', 0, '2024-01-01T00:00:00Z'),
+    ]);
+
+    assert.equal(position.quantity, 25);
+  });
+
+  it('기타 수수료는 보유 중일 때만 원가에 가산, 배당은 영향 없음', () => {
+    const position = PortfolioTransaction.derivePosition([
+      tx('fee', 0, 0, '2024-01-01T00:00:00Z', 50),
+      tx('buy', 10, 100, '2024-01-02T00:00:00Z'),
+      tx('fee', 0, 0, '2024-01-03T00:00:00Z', 20),
+      tx('dividend', 10, 5, '2024-01-04T00:00:00Z'),
+    ]);
+
+    assert.deepEqual(position, { quantity: 10, averagePrice: 102, totalCost: 1020 });
+  });
+
+  it('체결 시점 환율로 기준 통화 원가 누적', () => {
+    const rates: Record<string, number> = { '2024-01-01': 1300, '2024-01-02': 1400 };
+    const position = PortfolioTransaction.derivePosition(
+      [tx('buy', 1, 10, '2024-01-01T00:00:00Z'), tx('buy', 1, 10, '2024-01-02T00:00:00Z')],
+      (date) => rates[date.toISOString().slice(0, 10)]
+    );
+
+    assert.deepEqual(position, { quantity: 2, averagePrice: 13500, totalCost: 27000 });
+  });
+});
+
+describe('PortfolioTransaction', () => {
+  it('applyToQuantity', () => {
+    assert.equal(tx('buy', 5, 100, '2024-01-01T00:00:00Z').applyToQuantity(10), 15);
+    assert.equal(tx('sell', 15, 100, '2024-01-01T00:00:00Z').applyToQuantity(10), 0);
+    assert.equal(tx('split', 3, 0, '2024-01-01T00:00:00Z').applyToQuantity(10), 30);
+    assert.equal(tx('dividend', 10, 5, '2024-01-01T00:00:00Z').applyToQuantity(10), 10);
+  });
+
+  it('capitalFlow: 매수/수수료는 투입, 매도/배당은 회수', () => {
+    assert.equal(tx('buy', 10, 100, '2024-01-01T00:00:00Z', 10).capitalFlow, 1010);
+    assert.equal(tx('sell', 10, 100, '2024-01-01T00:00:00Z', 10).capitalFlow, -990);
+    assert.equal(tx('dividend', 10, 5, '2024-01-01T00:00:00Z', 7).capitalFlow, -43);
+    assert.equal(tx('fee', 0, 0, '2024-01-01T00:00:00Z', 20).capitalFlow, 20);
+    assert.equal(tx('split', 2, 0, '2024-01-01T00:00:00Z').capitalFlow, 0);
+  });
+});
@@ -0,0 +1,16 @@
+import { CreateAlertDto } from '../dto/alert/CreateAlertDto';
+import { UpdateAlertDto } from '../dto/alert/UpdateAlertDto';
+import { AlertResponseDto } from '../dto/alert/AlertResponseDto';
+import { AlertQuote } from '../entities/Alert';
+
+export interface IAlertFacade {
+  getAlerts(userId: string, filter?: { stockId?: string; isActive?: boolean }): Promise<AlertResponseDto[]>;
+  getAlert(id: string, userId: string): Promise<AlertResponseDto>;
+  createAlert(userId: string, dto: CreateAlertDto): Promise<AlertResponseDto>;
+  updateAlert(id: string, userId: string, dto: UpdateAlertDto): Promise<AlertResponseDto>;
+  deleteAlert(id: string, userId: string): Promise<void>;
+  enqueuePriceUpdates(quotes: AlertQuote[]): Promise<void>; // 시세 갱신(일봉 적재) 시 평가 요청
+  enqueueNewsInserts(newsIds: string[]): Promise<void>; // 뉴스 적재 시 평가 요청
+  evaluateQuotes(quotes: AlertQuote[]): Promise<{ evaluated: number; fired: number }>; // 큐 워커에서 호출
+  evaluateNews(newsIds: string[]): Promise<{ evaluated: number; fired: number }>; // 큐 워커에서 호출
+}
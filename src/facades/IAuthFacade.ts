@@ -0,0 +1,19 @@
+import { SignupDto } from '../dto/auth/SignupDto';
+import { LoginDto } from '../dto/auth/LoginDto';
+import { RefreshTokenDto } from '../dto/auth/RefreshTokenDto';
+import { AuthResponseDto } from '../dto/auth/AuthResponseDto';
+import { UserResponseDto } from '../dto/auth/UserResponseDto';
+
+export interface AuthClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IAuthFacade {
+  signup(dto: SignupDto, client: AuthClientInfo): Promise<AuthResponseDto>; // 가입 후 바로 로그인 세션 발급
+  login(dto: LoginDto, client: AuthClientInfo): Promise<AuthResponseDto>;
+  refresh(dto: RefreshTokenDto): Promise<AuthResponseDto>; // refresh token 회전 (이전 토큰 재사용 시 세션 폐기)
+  logout(dto: RefreshTokenDto): Promise<void>; // 해당 세션만 폐기
+  revokeAll(userId: string): Promise<{ revoked: number }>; // 모든 세션 폐기
+  getMe(userId: string): Promise<UserResponseDto>;
+}
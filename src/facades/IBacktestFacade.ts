@@ -0,0 +1,13 @@
+import { CreateBacktestDto } from '../dto/backtest/CreateBacktestDto';
+import { BacktestResponseDto } from '../dto/backtest/BacktestResponseDto';
+
+export interface IBacktestFacade {
+  createBacktest(userId: string, dto: CreateBacktestDto): Promise<BacktestResponseDto>; // 큐 등록 후 queued 상태로 반환
+  getBacktests(userId: string, filter?: { limit?: number; offset?: number }): Promise<{
+    data: BacktestResponseDto[]; // trades/equityCurve 생략
+    total: number;
+  }>;
+  getBacktest(id: string, userId: string): Promise<BacktestResponseDto>;
+  deleteBacktest(id: string, userId: string): Promise<void>;
+  processBacktest(id: string): Promise<void>; // 큐 워커에서 호출
+}
@@ -0,0 +1,11 @@
+import { CreateCorporateActionDto } from '../dto/corporate/CreateCorporateActionDto';
+import { CorporateActionQueryDto } from '../dto/corporate/CorporateActionQueryDto';
+import { CorporateActionResponseDto } from '../dto/corporate/CorporateActionResponseDto';
+
+export interface ICorporateActionFacade {
+  getActions(query: CorporateActionQueryDto): Promise<CorporateActionResponseDto[]>; // exDate 내림차순
+  getAction(id: string): Promise<CorporateActionResponseDto>; // 보유 종목 조정 기록 포함
+  createAction(dto: CreateCorporateActionDto): Promise<CorporateActionResponseDto>;
+  applyAction(id: string): Promise<CorporateActionResponseDto>; // 수정주가 계수 누적 + 보유 종목 조정, 조정 기록 포함
+  deleteAction(id: string): Promise<void>; // pending 상태만
+}
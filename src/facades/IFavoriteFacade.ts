@@ -1,9 +1,11 @@
 import { FavoriteResponseDto } from '../dto/favorite/FavoriteResponseDto';
 import { CreateFavoriteDto } from '../dto/favorite/CreateFavoriteDto';
+import { UpdateFavoriteDto } from '../dto/favorite/UpdateFavoriteDto';
 
 export interface IFavoriteFacade {
   getFavorites(userId: string): Promise<FavoriteResponseDto[]>;
   addFavorite(userId: string, dto: CreateFavoriteDto): Promise<FavoriteResponseDto>;
+  updateFavorite(id: string, userId: string, dto: UpdateFavoriteDto): Promise<FavoriteResponseDto>; // 메모/목표가
   removeFavorite(id: string, userId: string): Promise<void>;
   isFavorited(userId: string, stockId: string): Promise<boolean>;
 }
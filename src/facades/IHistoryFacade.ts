@@ -1,5 +1,57 @@
 import { HistoryResponseDto } from '../dto/history/HistoryResponseDto';
 import { CreateHistoryDto } from '../dto/history/CreateHistoryDto';
+import { HistoryInsightsQueryDto } from '../dto/history/HistoryInsightsQueryDto';
+
+export interface ViewedStock {
+  stockId: string;
+  code: string;
+  name: string;
+  sector: string;
+  views: number;
+}
+
+export interface HistoryInsights {
+  weeks: number;
+  from: Date; // 집계 시작 (KST 월요일 자정)
+  totalViews: number;
+  mostViewed: ViewedStock[]; // 기간 전체 상위 10종목
+  weekly: Array<{
+    weekStart: string; // YYYY-MM-DD (KST 월요일)
+    totalViews: number;
+    topStocks: ViewedStock[]; // 주별 상위 5종목
+  }>;
+  sectorDrift: Array<{
+    sector: string;
+    totalViews: number;
+    weekly: Array<{ weekStart: string; views: number; share: number }>; // share: 해당 주 조회 중 비중 %
+    drift: number; // 조회가 있는 첫 주 대비 마지막 주 비중 변화 (%p)
+  }>;
+  sessions: {
+    count: number;
+    averageDurationMinutes: number;
+    averageViews: number;
+    topDwellStocks: Array<{ stockId: string; code: string; name: string; dwellMinutes: number }>; // 체류 시간 상위 5종목
+    recent: Array<{
+      startedAt: Date;
+      endedAt: Date;
+      durationMinutes: number;
+      views: number;
+      stocks: string[]; // 종목 코드 (조회 순)
+    }>; // 최근 5개 세션 (최신 순)
+  };
+}
+
+export interface ContinueViewingItem {
+  stockId: string;
+  code: string;
+  name: string;
+  market: string;
+  lastViewedAt: Date;
+  priceAtView: number | null; // 기록 이전 조회분은 null
+  currentPrice: number;
+  priceChange: number | null; // 마지막 조회 이후 가격 변화
+  priceChangeRate: number | null; // %
+}
 
 export interface IHistoryFacade {
   getHistory(userId: string, limit?: number, offset?: number): Promise<{
@@ -9,5 +61,6 @@ export interface IHistoryFacade {
   addHistory(userId: string, dto: CreateHistoryDto): Promise<HistoryResponseDto>;
   clearHistory(userId: string): Promise<void>;
   findRecent(userId: string, stockId: string, timeWindow: number): Promise<HistoryResponseDto | null>;
+  getInsights(userId: string, query: HistoryInsightsQueryDto): Promise<HistoryInsights>; // 조회(view) 기록 기준
+  getContinueViewing(userId: string, limit?: number): Promise<ContinueViewingItem[]>; // 종목별 마지막 조회 (최근 순)
 }
-
@@ -0,0 +1,44 @@
+import { NotificationResponseDto } from '../dto/notification/NotificationResponseDto';
+import { NotificationPreferenceResponseDto } from '../dto/notification/NotificationPreferenceResponseDto';
+import { UpdateNotificationPreferencesDto } from '../dto/notification/UpdateNotificationPreferencesDto';
+import { NotificationType } from '../entities/Notification';
+
+/**
+ * 알림 생성 요청 (각 기능에서 발송)
+ */
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+  link?: string;
+  dedupKey?: string; // 같은 키는 사용자별 한 번만 기록
+}
+
+/**
+ * 알림 생성 결과 (발송 측 기록용)
+ */
+export interface NotificationDelivery {
+  status: 'stored' | 'disabled' | 'duplicate' | 'failed';
+  pushed: boolean; // WebSocket 전송 여부
+  notification: NotificationResponseDto | null;
+}
+
+export interface INotificationFacade {
+  getNotifications(userId: string, filter?: {
+    type?: NotificationType;
+    unreadOnly?: boolean;
+    limit?: number;
+    offset?: number;
+  }): Promise<{
+    data: NotificationResponseDto[];
+    total: number;
+    unread: number;
+  }>;
+  markRead(id: string, userId: string): Promise<NotificationResponseDto>;
+  markAllRead(userId: string): Promise<number>;
+  deleteNotification(id: string, userId: string): Promise<void>;
+  getPreferences(userId: string): Promise<NotificationPreferenceResponseDto[]>; // 전체 유형 (미설정 유형은 기본값)
+  updatePreferences(userId: string, dto: UpdateNotificationPreferencesDto): Promise<NotificationPreferenceResponseDto[]>;
+  notify(userId: string, input: NotificationInput, options?: { push?: boolean }): Promise<NotificationDelivery>; // 실패해도 예외를 던지지 않음
+}
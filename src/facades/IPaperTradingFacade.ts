@@ -0,0 +1,58 @@
+import { OpenPaperAccountDto } from '../dto/paper/OpenPaperAccountDto';
+import { CreatePaperOrderDto } from '../dto/paper/CreatePaperOrderDto';
+import { PaperOrderResponseDto } from '../dto/paper/PaperOrderResponseDto';
+import { PaperOrderFilter } from '../repositories/IPaperOrderRepository';
+
+/**
+ * 모의투자 계좌 현황 (현금 + 보유 종목 평가)
+ */
+export interface PaperAccountSummary {
+  id: string;
+  portfolioAccountId: string; // 체결 내역이 기록되는 포트폴리오 계좌 (GET /api/portfolio?accountId=)
+  initialCash: number;
+  cash: number;
+  reservedCash: number; // 미체결 매수 주문 예약 금액 (수수료 포함 추정)
+  availableCash: number;
+  commissionRate: number;
+  taxRate: number;
+  holdings: Array<{
+    stockId: string;
+    code: string;
+    name: string;
+    quantity: number;
+    averagePrice: number;
+    currentPrice: number;
+    marketValue: number;
+    profit: number;
+    profitRate: number; // %
+  }>;
+  marketValue: number;
+  totalEquity: number; // 현금 + 평가금액
+  totalReturn: number; // 총자산 - 초기 자금
+  totalReturnRate: number; // %
+  openOrderCount: number;
+  createdAt: Date;
+}
+
+/**
+ * 미체결 주문 매칭 결과
+ */
+export interface PaperOrderMatchResult {
+  checked: number;
+  filled: number;
+  rejected: number; // 체결 시점 현금/보유 수량 부족
+  failed: number;
+}
+
+export interface IPaperTradingFacade {
+  getAccount(userId: string): Promise<PaperAccountSummary>;
+  openAccount(userId: string, dto: OpenPaperAccountDto): Promise<PaperAccountSummary>;
+  closeAccount(userId: string): Promise<void>;
+  getOrders(userId: string, filter?: PaperOrderFilter): Promise<{
+    data: PaperOrderResponseDto[];
+    total: number;
+  }>;
+  placeOrder(userId: string, dto: CreatePaperOrderDto): Promise<PaperOrderResponseDto>;
+  cancelOrder(id: string, userId: string): Promise<PaperOrderResponseDto>;
+  matchOpenOrders(now?: Date): Promise<PaperOrderMatchResult>;
+}
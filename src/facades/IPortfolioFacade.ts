@@ -1,13 +1,42 @@
 import { PortfolioResponseDto } from '../dto/portfolio/PortfolioResponseDto';
 import { CreatePortfolioDto } from '../dto/portfolio/CreatePortfolioDto';
 import { UpdatePortfolioDto } from '../dto/portfolio/UpdatePortfolioDto';
+import { CreatePortfolioTransactionDto } from '../dto/portfolio/CreatePortfolioTransactionDto';
+import { PortfolioTransactionResponseDto } from '../dto/portfolio/PortfolioTransactionResponseDto';
+import { RealizedGainsQueryDto } from '../dto/portfolio/RealizedGainsQueryDto';
+import { PerformanceQueryDto } from '../dto/portfolio/PerformanceQueryDto';
+import { BenchmarkQueryDto } from '../dto/portfolio/BenchmarkQueryDto';
+import { UpdatePortfolioTargetsDto } from '../dto/portfolio/UpdatePortfolioTargetsDto';
+import { RebalancePreviewDto } from '../dto/portfolio/RebalancePreviewDto';
+import { DividendQueryDto } from '../dto/portfolio/DividendQueryDto';
+import { ImportPortfolioTransactionsDto } from '../dto/portfolio/ImportPortfolioTransactionsDto';
+import { BrokerCsvFormat } from '../constants/broker-csv-mappings';
+import { CreatePortfolioAccountDto } from '../dto/portfolio/CreatePortfolioAccountDto';
+import { UpdatePortfolioAccountDto } from '../dto/portfolio/UpdatePortfolioAccountDto';
+import { PortfolioAccountResponseDto } from '../dto/portfolio/PortfolioAccountResponseDto';
+import { PortfolioTargetType } from '../entities/PortfolioTarget';
+import { PortfolioTransactionType } from '../entities/PortfolioTransaction';
+import { Currency } from '../entities/FxRate';
+import { MarketIndexCode } from '../entities/IndexPrice';
+import { PortfolioTransactionFilter } from '../repositories/IPortfolioTransactionRepository';
+import { CostBasisMethod } from '../utils/cost-basis';
+import { PerformanceInterval } from '../utils/performance-metrics';
+import { RebalancePlan } from '../utils/rebalance';
 
 export interface PortfolioAnalysis {
+  accountId: string | null; // null: 전체 계좌 합산 (같은 종목은 합쳐서 분석)
   summary: {
     totalValue: number;
     totalReturn: number;
     returnRate: number;
-    riskScore: number;
+    riskScore: number; // 0~100, 변동성/집중도/상관관계 가중 합산
+    unrealizedReturn: number; // totalReturn과 동일 (보유 종목 평가손익)
+    realizedReturn: number; // 매도 실현손익 (costBasisMethod 기준, 매도 시점 환율 환산)
+    dividendIncome: number;
+    costBasisMethod: CostBasisMethod;
+    baseCurrency: Currency; // 금액 필드의 표시 통화
+    priceEffect: number; // 평가손익 중 주가 변동분
+    currencyEffect: number; // 평가손익 중 환율 변동분
   };
   risks: Array<{
     type: string;
@@ -18,6 +47,30 @@ export interface PortfolioAnalysis {
     threshold: number;
     recommendation: string;
   }>;
+  risk: {
+    lookbackDays: number; // 수익률 산출 기간 (달력일)
+    observations: number; // 포트폴리오 일간 수익률 표본 수
+    volatility: number | null; // 연환산 변동성 %, 표본 부족 시 null
+    valueAtRisk: {
+      confidence: number; // 0.95
+      horizonDays: number; // 1
+      percent: number; // 1일 예상 최대 손실률 %
+      amount: number; // 현재 평가금액 기준 손실액
+    } | null;
+    conditionalValueAtRisk: {
+      confidence: number;
+      horizonDays: number;
+      percent: number; // VaR 초과 손실 평균 %
+      amount: number;
+    } | null;
+    herfindahlIndex: number; // 종목 비중 제곱합 (0~1)
+    effectiveHoldings: number; // 1 / HHI (실질 분산 종목 수)
+    averageCorrelation: number | null; // 종목 쌍 평균 상관계수
+    correlationMatrix: {
+      stocks: Array<{ stockId: string; code: string; name: string }>;
+      values: Array<Array<number | null>>; // stocks 순서, 공통 표본 부족 시 null
+    };
+  };
   diversification: {
     sectors: Array<{
       name: string;
@@ -27,12 +80,261 @@ export interface PortfolioAnalysis {
   };
 }
 
+export interface RealizedGainsReport {
+  accountId: string | null; // null: 전체 계좌 합산
+  method: CostBasisMethod;
+  from: Date | null;
+  to: Date | null;
+  summary: {
+    proceeds: number;
+    costBasis: number;
+    realizedProfit: number;
+    dividendIncome: number;
+    fees: number;
+    saleCount: number;
+  };
+  byStock: Array<{
+    stockId: string;
+    code: string;
+    name: string;
+    quantity: number;
+    proceeds: number;
+    costBasis: number;
+    realizedProfit: number;
+    dividendIncome: number;
+  }>;
+  sales: Array<{
+    transactionId: string;
+    accountId: string | null;
+    stockId: string;
+    code: string;
+    name: string;
+    soldAt: Date;
+    quantity: number;
+    price: number;
+    proceeds: number;
+    costBasis: number;
+    realizedProfit: number;
+    holdingDays: number;
+  }>;
+}
+
+export interface PortfolioPerformance {
+  accountId: string | null; // null: 전체 계좌 합산
+  baseCurrency: Currency; // 금액 필드의 표시 통화
+  from: string | null; // YYYY-MM-DD (KST)
+  to: string | null;
+  interval: PerformanceInterval;
+  summary: {
+    startValue: number;
+    endValue: number;
+    netContribution: number; // 기간 중 순투입 자본 (매수 - 매도 대금 - 배당)
+    timeWeightedReturn: number; // %
+    annualizedTimeWeightedReturn: number; // %
+    moneyWeightedReturn: number | null; // XIRR 연환산 %, 현금흐름이 부족하면 null
+    maxDrawdown: number; // % (음수)
+    maxDrawdownPeakDate: string | null;
+    maxDrawdownTroughDate: string | null;
+    tradingDays: number;
+  };
+  series: Array<{
+    date: string;
+    value: number; // 종가 기준 평가금액
+    netContribution: number; // 누적 순투입 자본
+    cumulativeReturn: number; // 시간가중 누적 수익률 %
+    drawdown: number; // 고점 대비 하락률 %
+  }>;
+}
+
+export interface PortfolioBenchmarkComparison {
+  accountId: string | null; // null: 전체 계좌 합산
+  baseCurrency: Currency; // 포트폴리오 수익률 산출 통화
+  index: MarketIndexCode;
+  from: string | null; // YYYY-MM-DD (KST)
+  to: string | null;
+  summary: {
+    portfolioReturn: number; // 비교 구간 시간가중 누적 수익률 %
+    benchmarkReturn: number; // 지수 누적 수익률 %
+    excessReturn: number; // 초과수익률 %p (portfolioReturn - benchmarkReturn)
+    beta: number | null; // 일간 수익률 기준, 표본이 부족하면 null
+    alpha: number | null; // 젠센 알파 연환산 % (무위험수익률 0 가정)
+    correlation: number | null;
+    trackingError: number | null; // 초과 일간 수익률 표준편차 연환산 %
+    informationRatio: number | null;
+    observations: number; // 비교에 사용된 일간 수익률 수
+  };
+  series: Array<{
+    date: string;
+    portfolioReturn: number; // 누적 수익률 %
+    benchmarkReturn: number; // 누적 수익률 %
+    excessReturn: number; // %p
+  }>;
+}
+
+export type RebalancePreview = RebalancePlan & {
+  baseCurrency: Currency; // 현금·가격·금액 필드의 표시 통화
+};
+
+export interface PortfolioDividendReport {
+  accountId: string | null; // null: 전체 계좌 합산
+  baseCurrency: Currency; // amount 필드의 표시 통화
+  history: {
+    from: Date | null;
+    to: Date | null;
+    summary: {
+      total: number;
+      recorded: number; // 거래 원장에 기록된 배당 수령액
+      unrecorded: number; // 배당 일정상 받았어야 하지만 원장에 없는 금액
+      count: number;
+    };
+    items: Array<{
+      source: 'ledger' | 'schedule'; // ledger: 원장 배당 거래, schedule: 배당 일정 기반 추정 수령
+      transactionId: string | null;
+      dividendId: string | null;
+      accountId: string | null;
+      stockId: string;
+      code: string;
+      name: string;
+      exDate: Date | null;
+      payDate: Date;
+      quantity: number;
+      amountPerShare: number; // 종목 통화
+      currency: string;
+      amount: number; // 기준 통화 (지급일 환율)
+    }>;
+  };
+  projection: {
+    from: string; // YYYY-MM-DD (KST)
+    to: string;
+    total: number;
+    byStock: Array<{
+      stockId: string;
+      code: string;
+      name: string;
+      quantity: number; // 현재 보유 수량
+      amount: number;
+    }>;
+    months: Array<{
+      month: string; // YYYY-MM
+      amount: number;
+      items: Array<{
+        dividendId: string | null; // 과거 배당 반복 추정이면 null
+        stockId: string;
+        code: string;
+        name: string;
+        exDate: Date;
+        payDate: Date;
+        estimated: boolean;
+        payDateEstimated: boolean;
+        quantity: number;
+        amountPerShare: number;
+        currency: string;
+        amount: number; // 기준 통화 (현재 환율)
+      }>;
+    }>;
+  };
+}
+
+export interface PortfolioTargetAllocation {
+  type: PortfolioTargetType | null; // 저장된 목표가 없으면 null
+  targets: Array<{
+    key: string; // stock: Stock.id, sector: 섹터명
+    name: string;
+    code: string | null; // stock 타입만
+    weight: number; // %
+  }>;
+  cashWeight: number; // 100 - 목표 비중 합계
+}
+
+export interface PortfolioImportResult {
+  broker: BrokerCsvFormat;
+  accountId: string;
+  dryRun: boolean;
+  committed: boolean; // dryRun이거나 오류 행이 있으면 false
+  summary: {
+    totalRows: number;
+    newRows: number;
+    duplicateRows: number; // 원장에 같은 거래가 이미 있어 건너뛴 행
+    invalidRows: number;
+  };
+  rows: Array<{
+    row: number; // CSV 파일 줄 번호 (헤더 = 1)
+    status: 'new' | 'duplicate' | 'invalid';
+    errors: string[];
+    stockId: string | null;
+    code: string | null;
+    name: string | null;
+    type: PortfolioTransactionType | null;
+    executedAt: Date | null;
+    quantity: number | null;
+    price: number | null;
+    fee: number | null;
+  }>;
+  positions: Array<{
+    stockId: string;
+    code: string;
+    name: string;
+    change: 'added' | 'updated' | 'closed' | 'unchanged';
+    before: { quantity: number; averagePrice: number };
+    after: { quantity: number; averagePrice: number };
+  }>;
+}
+
+export interface PortfolioTransactionResult {
+  transaction: PortfolioTransactionResponseDto;
+  position: PortfolioResponseDto | null; // 전량 매도 시 null
+}
+
 export interface IPortfolioFacade {
-  getPortfolios(userId: string): Promise<PortfolioResponseDto[]>;
-  getPortfolioById(id: string, userId: string): Promise<PortfolioResponseDto | null>;
-  getPortfolioByStockId(userId: string, stockId: string): Promise<PortfolioResponseDto | null>;
+  getAccounts(userId: string): Promise<PortfolioAccountResponseDto[]>;
+  createAccount(userId: string, dto: CreatePortfolioAccountDto): Promise<PortfolioAccountResponseDto>;
+  updateAccount(id: string, userId: string, dto: UpdatePortfolioAccountDto): Promise<PortfolioAccountResponseDto>;
+  deleteAccount(id: string, userId: string): Promise<void>;
+  getPortfolios(userId: string, baseCurrency?: Currency, accountId?: string): Promise<PortfolioResponseDto[]>;
+  getPortfolioById(id: string, userId: string, baseCurrency?: Currency): Promise<PortfolioResponseDto | null>;
+  getPortfolioByStockId(
+    userId: string,
+    stockId: string,
+    accountId?: string,
+    baseCurrency?: Currency
+  ): Promise<PortfolioResponseDto | null>;
   createPortfolio(userId: string, dto: CreatePortfolioDto): Promise<PortfolioResponseDto>;
   updatePortfolio(id: string, userId: string, dto: UpdatePortfolioDto): Promise<PortfolioResponseDto>;
   deletePortfolio(id: string, userId: string): Promise<void>;
-  getAnalysis(userId: string): Promise<PortfolioAnalysis>;
+  getAnalysis(
+    userId: string,
+    costBasisMethod?: CostBasisMethod,
+    baseCurrency?: Currency,
+    accountId?: string
+  ): Promise<PortfolioAnalysis>;
+  getRealizedGains(userId: string, query: RealizedGainsQueryDto, accountId?: string): Promise<RealizedGainsReport>;
+  getPerformance(
+    userId: string,
+    query: PerformanceQueryDto,
+    baseCurrency?: Currency,
+    accountId?: string
+  ): Promise<PortfolioPerformance>;
+  getBenchmarkComparison(
+    userId: string,
+    query: BenchmarkQueryDto,
+    baseCurrency?: Currency,
+    accountId?: string
+  ): Promise<PortfolioBenchmarkComparison>;
+  getDividends(
+    userId: string,
+    query: DividendQueryDto,
+    baseCurrency?: Currency,
+    accountId?: string
+  ): Promise<PortfolioDividendReport>;
+  getTargets(userId: string): Promise<PortfolioTargetAllocation>;
+  updateTargets(userId: string, dto: UpdatePortfolioTargetsDto): Promise<PortfolioTargetAllocation>;
+  deleteTargets(userId: string): Promise<void>;
+  previewRebalance(userId: string, dto: RebalancePreviewDto, baseCurrency?: Currency): Promise<RebalancePreview>;
+  getTransactions(userId: string, filter?: PortfolioTransactionFilter): Promise<{
+    data: PortfolioTransactionResponseDto[];
+    total: number;
+  }>;
+  createTransaction(userId: string, dto: CreatePortfolioTransactionDto): Promise<PortfolioTransactionResult>;
+  importTransactions(userId: string, csv: Buffer, dto: ImportPortfolioTransactionsDto): Promise<PortfolioImportResult>;
+  deleteTransaction(id: string, userId: string): Promise<PortfolioResponseDto | null>;
 }
@@ -0,0 +1,16 @@
+import { RunScreenerDto } from '../dto/screener/RunScreenerDto';
+import { SaveScreenDto } from '../dto/screener/SaveScreenDto';
+import { UpdateScreenDto } from '../dto/screener/UpdateScreenDto';
+import { ScreenerResultDto } from '../dto/screener/ScreenerResultDto';
+import { SavedScreenResponseDto } from '../dto/screener/SavedScreenResponseDto';
+
+export interface IScreenerFacade {
+  runScreen(dto: RunScreenerDto, userId?: string): Promise<{
+    data: ScreenerResultDto[];
+    total: number; // 조건을 만족한 전체 종목 수
+  }>;
+  getScreens(userId: string): Promise<SavedScreenResponseDto[]>;
+  createScreen(userId: string, dto: SaveScreenDto): Promise<SavedScreenResponseDto>;
+  updateScreen(id: string, userId: string, dto: UpdateScreenDto): Promise<SavedScreenResponseDto>;
+  deleteScreen(id: string, userId: string): Promise<void>;
+}
@@ -1,4 +1,6 @@
 import { StockResponseDto, StockDetailResponseDto } from '../dto/stock/StockResponseDto';
+import { StockIndicatorQueryDto } from '../dto/stock/StockIndicatorQueryDto';
+import { StockIndicatorResponseDto } from '../dto/stock/StockIndicatorResponseDto';
 
 export interface IStockFacade {
   getStocksByCategory(category: string): Promise<StockResponseDto[]>;
@@ -8,7 +10,9 @@ export interface IStockFacade {
     includeChart?: boolean, 
     period?: number,
     interval?: string,
-    dateRange?: { start: string; end: string } | null
+    dateRange?: { start: string; end: string } | null,
+    adjusted?: boolean // 일봉/주봉/월봉 수정주가 적용 (기본 true, false면 원시 가격)
   ): Promise<StockDetailResponseDto | null>;
-  getCategories(): string[];
+  getIndicators(code: string, query: StockIndicatorQueryDto): Promise<StockIndicatorResponseDto | null>;
+  getCategories(): Promise<string[]>; // 활성 테마 이름 (sortOrder 순)
 }
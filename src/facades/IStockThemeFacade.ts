@@ -0,0 +1,15 @@
+import { CreateStockThemeDto } from '../dto/theme/CreateStockThemeDto';
+import { UpdateStockThemeDto } from '../dto/theme/UpdateStockThemeDto';
+import { StockThemeStocksDto } from '../dto/theme/StockThemeStocksDto';
+import { StockThemeResponseDto } from '../dto/theme/StockThemeResponseDto';
+
+export interface IStockThemeFacade {
+  getThemes(includeInactive?: boolean): Promise<StockThemeResponseDto[]>; // 테마별 등락 집계 포함
+  getTheme(id: string, includeInactive?: boolean): Promise<StockThemeResponseDto>; // 구성 종목 포함
+  createTheme(dto: CreateStockThemeDto): Promise<StockThemeResponseDto>;
+  updateTheme(id: string, dto: UpdateStockThemeDto): Promise<StockThemeResponseDto>;
+  deleteTheme(id: string): Promise<void>;
+  replaceThemeStocks(id: string, dto: StockThemeStocksDto): Promise<StockThemeResponseDto>;
+  addThemeStocks(id: string, dto: StockThemeStocksDto): Promise<StockThemeResponseDto>;
+  removeThemeStock(id: string, stockId: string): Promise<void>;
+}
@@ -0,0 +1,26 @@
+import { CreateWatchlistGroupDto } from '../dto/favorite/CreateWatchlistGroupDto';
+import { UpdateWatchlistGroupDto } from '../dto/favorite/UpdateWatchlistGroupDto';
+import { ReorderWatchlistGroupsDto } from '../dto/favorite/ReorderWatchlistGroupsDto';
+import { WatchlistItemsDto } from '../dto/favorite/WatchlistItemsDto';
+import { MoveWatchlistItemsDto } from '../dto/favorite/MoveWatchlistItemsDto';
+import { WatchlistGroupResponseDto } from '../dto/favorite/WatchlistGroupResponseDto';
+import { WatchlistSnapshotResponseDto } from '../dto/favorite/WatchlistSnapshotResponseDto';
+import { FavoriteResponseDto } from '../dto/favorite/FavoriteResponseDto';
+
+// groupId 자리에 'ungrouped'를 전달하면 미분류 종목 대상
+export interface IWatchlistGroupFacade {
+  getGroups(userId: string): Promise<WatchlistGroupResponseDto[]>; // 미분류 포함 (맨 앞), items 생략
+  getGroup(groupId: string, userId: string): Promise<WatchlistGroupResponseDto>; // items 포함 (position 순)
+  createGroup(userId: string, dto: CreateWatchlistGroupDto): Promise<WatchlistGroupResponseDto>;
+  updateGroup(groupId: string, userId: string, dto: UpdateWatchlistGroupDto): Promise<WatchlistGroupResponseDto>;
+  deleteGroup(groupId: string, userId: string): Promise<void>; // 종목은 미분류 끝으로 이동
+  reorderGroups(userId: string, dto: ReorderWatchlistGroupsDto): Promise<WatchlistGroupResponseDto[]>;
+  getSnapshot(groupId: string, userId: string): Promise<WatchlistSnapshotResponseDto>;
+  addItems(groupId: string, userId: string, dto: WatchlistItemsDto): Promise<{
+    added: FavoriteResponseDto[]; // 새로 추가되었거나 미분류에서 편입된 종목
+    skipped: Array<{ stockId: string; code: string; groupId: string | null }>; // 이미 이 그룹 또는 다른 그룹에 있는 종목
+  }>;
+  removeItems(groupId: string, userId: string, dto: WatchlistItemsDto): Promise<{ removed: number }>; // 관심 종목에서 삭제
+  moveItems(groupId: string, userId: string, dto: MoveWatchlistItemsDto): Promise<{ moved: number }>; // 대상 그룹 끝으로 이동
+  reorderItems(groupId: string, userId: string, dto: WatchlistItemsDto): Promise<WatchlistGroupResponseDto>;
+}
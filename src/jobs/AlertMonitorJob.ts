@@ -0,0 +1,60 @@
+/**
+ * Alert Monitor Job
+ * 활성 알림 대상 종목 시세를 확인해 알림 평가 큐에 등록
+ * (평가와 발송은 alerts 큐 워커가 처리, 뉴스는 적재 시 NewsIngestionService가 등록)
+ */
+
+import { Scheduled } from '../decorators/scheduled';
+import { PipelineBranch } from '../pipelines/PipelineManager';
+import { logger } from '../config/logger';
+import { getEventStream } from '../events/EventStream';
+import { AlertService } from '../services/AlertService';
+import { AlertRepositoryAdapter } from '../adapters/AlertRepositoryAdapter';
+import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { StockPriceRepositoryAdapter } from '../adapters/StockPriceRepositoryAdapter';
+import { NewsRepositoryAdapter } from '../adapters/NewsRepositoryAdapter';
+import { NotificationRepositoryAdapter } from '../adapters/NotificationRepositoryAdapter';
+import { NotificationService } from '../services/NotificationService';
+
+const PRICE_JOB_ID = 'alert-price-scan';
+
+const createAlertService = (): AlertService =>
+  new AlertService(
+    new AlertRepositoryAdapter(),
+    new StockRepositoryAdapter(),
+    new StockPriceRepositoryAdapter(),
+    new NewsRepositoryAdapter(),
+    new NotificationService(new NotificationRepositoryAdapter())
+  );
+
+export class AlertMonitorJob {
+  /**
+   * 시세 확인 작업
+   * 평일 장중 1분마다 실행
+   */
+  @Scheduled({
+    cron: '* 9-15 * * 1-5', // 평일 9시~15시대 1분마다
+    name: PRICE_JOB_ID,
+    branch: PipelineBranch.DATA,
+    enabled: true,
+    priority: 7,
+    timeout: 50000, // 50초 타임아웃 (다음 실행 전 종료)
+    retries: 0,
+  })
+  async scanPrices() {
+    const eventStream = getEventStream();
+    const startedAt = Date.now();
+
+    await eventStream.logJobStart(PRICE_JOB_ID, PipelineBranch.DATA);
+    try {
+      const stats = await createAlertService().scanPrices();
+
+      await eventStream.logJobComplete(PRICE_JOB_ID, Date.now() - startedAt, PipelineBranch.DATA, { ...stats });
+      logger.debug(`Alert price scan completed: ${stats.quotes}/${stats.stocks} quotes enqueued`);
+    } catch (error) {
+      logger.error('Alert price scan failed:', error);
+      await eventStream.logJobFail(PRICE_JOB_ID, error as Error, PipelineBranch.DATA);
+      throw error;
+    }
+  }
+}
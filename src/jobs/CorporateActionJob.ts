@@ -0,0 +1,56 @@
+/**
+ * Corporate Action Job
+ * 기준일이 된 기업 이벤트(액면분할/병합, 유상증자) 적용
+ */
+
+import { Scheduled } from '../decorators/scheduled';
+import { PipelineBranch } from '../pipelines/PipelineManager';
+import { logger } from '../config/logger';
+import { getEventStream } from '../events/EventStream';
+import { CorporateActionService } from '../services/CorporateActionService';
+import { CorporateActionRepositoryAdapter } from '../adapters/CorporateActionRepositoryAdapter';
+import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { StockPriceRepositoryAdapter } from '../adapters/StockPriceRepositoryAdapter';
+import { PortfolioTransactionRepositoryAdapter } from '../adapters/PortfolioTransactionRepositoryAdapter';
+
+const JOB_ID = 'corporate-action-apply';
+
+export class CorporateActionJob {
+  /**
+   * 기업 이벤트 적용 작업
+   * 평일 오전 8시 30분 실행 (장 시작 및 모의투자 주문 매칭 이전)
+   * 실행별 통계는 EventStream(job:events)에 기록
+   */
+  @Scheduled({
+    cron: '30 8 * * 1-5', // 평일 오전 8시 30분
+    name: JOB_ID,
+    branch: PipelineBranch.DATA,
+    enabled: true,
+    priority: 9,
+    timeout: 600000, // 10분 타임아웃
+    retries: 2,
+  })
+  async applyCorporateActions() {
+    logger.info('Corporate action job started');
+    const eventStream = getEventStream();
+    const startedAt = Date.now();
+
+    await eventStream.logJobStart(JOB_ID, PipelineBranch.DATA);
+    try {
+      const corporateActionService = new CorporateActionService(
+        new CorporateActionRepositoryAdapter(),
+        new StockRepositoryAdapter(),
+        new StockPriceRepositoryAdapter(),
+        new PortfolioTransactionRepositoryAdapter()
+      );
+      const stats = await corporateActionService.applyDueActions();
+
+      await eventStream.logJobComplete(JOB_ID, Date.now() - startedAt, PipelineBranch.DATA, { ...stats });
+      logger.info(`Corporate action job completed: ${stats.applied}/${stats.due} applied, ${stats.failed} failed`);
+    } catch (error) {
+      logger.error('Corporate action job failed:', error);
+      await eventStream.logJobFail(JOB_ID, error as Error, PipelineBranch.DATA);
+      throw error;
+    }
+  }
+}
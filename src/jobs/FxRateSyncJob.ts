@@ -0,0 +1,39 @@
+/**
+ * FX Rate Sync Job
+ * 환율 일별 기준율 동기화 작업 (해외 종목 원화 환산용)
+ */
+
+import { Scheduled } from '../decorators/scheduled';
+import { PipelineBranch } from '../pipelines/PipelineManager';
+import { logger } from '../config/logger';
+import { FxRateService } from '../services/FxRateService';
+import { FxRateRepositoryAdapter } from '../adapters/FxRateRepositoryAdapter';
+
+export class FxRateSyncJob {
+  /**
+   * 환율 동기화 작업
+   * 평일 오후 4시 10분 실행 (지수 동기화 직후)
+   */
+  @Scheduled({
+    cron: '10 16 * * 1-5', // 평일 오후 4시 10분
+    name: 'fx-rate-sync',
+    branch: PipelineBranch.DATA,
+    enabled: true,
+    priority: 8,
+    timeout: 300000, // 5분 타임아웃
+    retries: 2,
+  })
+  async syncFxRates() {
+    logger.info('FX rate sync job started');
+    
+    try {
+      const fxRateService = new FxRateService(new FxRateRepositoryAdapter());
+      await fxRateService.sync();
+      
+      logger.info('FX rate sync job completed');
+    } catch (error) {
+      logger.error('FX rate sync job failed:', error);
+      throw error;
+    }
+  }
+}
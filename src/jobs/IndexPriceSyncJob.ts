@@ -0,0 +1,39 @@
+/**
+ * Index Price Sync Job
+ * 시장 지수 일별 시세 동기화 작업 (벤치마크 비교용)
+ */
+
+import { Scheduled } from '../decorators/scheduled';
+import { PipelineBranch } from '../pipelines/PipelineManager';
+import { logger } from '../config/logger';
+import { IndexPriceService } from '../services/IndexPriceService';
+import { IndexPriceRepositoryAdapter } from '../adapters/IndexPriceRepositoryAdapter';
+
+export class IndexPriceSyncJob {
+  /**
+   * 지수 시세 동기화 작업
+   * 평일 장 마감 후 오후 4시 실행
+   */
+  @Scheduled({
+    cron: '0 16 * * 1-5', // 평일 오후 4시
+    name: 'index-price-sync',
+    branch: PipelineBranch.DATA,
+    enabled: true,
+    priority: 8,
+    timeout: 300000, // 5분 타임아웃
+    retries: 2,
+  })
+  async syncIndexPrices() {
+    logger.info('Index price sync job started');
+    
+    try {
+      const indexPriceService = new IndexPriceService(new IndexPriceRepositoryAdapter());
+      await indexPriceService.sync();
+      
+      logger.info('Index price sync job completed');
+    } catch (error) {
+      logger.error('Index price sync job failed:', error);
+      throw error;
+    }
+  }
+}
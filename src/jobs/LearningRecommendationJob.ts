@@ -0,0 +1,45 @@
+/**
+ * Learning Recommendation Job
+ * 최근 활동 사용자에게 일일 학습 추천 알림 발송
+ */
+
+import { Scheduled } from '../decorators/scheduled';
+import { PipelineBranch } from '../pipelines/PipelineManager';
+import { logger } from '../config/logger';
+import { getEventStream } from '../events/EventStream';
+import { LearningRecommendationService } from '../services/LearningRecommendationService';
+
+const JOB_ID = 'learning-recommendation-notify';
+
+export class LearningRecommendationJob {
+  /**
+   * 일일 학습 추천 알림 작업
+   * 매일 오전 8시 실행 (같은 날 재실행 시 사용자별 중복 발송하지 않음)
+   */
+  @Scheduled({
+    cron: '0 8 * * *', // 매일 오전 8시
+    name: JOB_ID,
+    branch: PipelineBranch.DATA,
+    enabled: true,
+    priority: 3,
+    timeout: 600000, // 10분 타임아웃
+    retries: 1,
+  })
+  async sendDailyRecommendations() {
+    logger.info('Learning recommendation job started');
+    const eventStream = getEventStream();
+    const startedAt = Date.now();
+
+    await eventStream.logJobStart(JOB_ID, PipelineBranch.DATA);
+    try {
+      const stats = await new LearningRecommendationService().sendDailyRecommendations();
+
+      await eventStream.logJobComplete(JOB_ID, Date.now() - startedAt, PipelineBranch.DATA, { ...stats });
+      logger.info(`Learning recommendation job completed: ${stats.sent}/${stats.users} users notified`);
+    } catch (error) {
+      logger.error('Learning recommendation job failed:', error);
+      await eventStream.logJobFail(JOB_ID, error as Error, PipelineBranch.DATA);
+      throw error;
+    }
+  }
+}
@@ -31,7 +31,7 @@ export class NewsCrawlerJob {
       // 1. Active 소스 조회
       // 2. RSS 파싱
       // 3. 중복 체크
-      // 4. News 저장
+      // 4. News 저장 (NewsIngestionService.ingest: 신규 뉴스는 알림 평가 큐에 바로 등록)
       // 5. AI 분석 큐 추가
       
       logger.info('News crawler job completed');
@@ -0,0 +1,68 @@
+/**
+ * Paper Order Matching Job
+ * 모의투자 미체결 주문(limit/stop) 매칭 작업
+ */
+
+import { Scheduled } from '../decorators/scheduled';
+import { PipelineBranch } from '../pipelines/PipelineManager';
+import { logger } from '../config/logger';
+import { PaperTradingService } from '../services/PaperTradingService';
+import { PaperAccountRepositoryAdapter } from '../adapters/PaperAccountRepositoryAdapter';
+import { PaperOrderRepositoryAdapter } from '../adapters/PaperOrderRepositoryAdapter';
+import { PortfolioRepositoryAdapter } from '../adapters/PortfolioRepositoryAdapter';
+import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { StockPriceRepositoryAdapter } from '../adapters/StockPriceRepositoryAdapter';
+import { CorporateActionRepositoryAdapter } from '../adapters/CorporateActionRepositoryAdapter';
+
+export class PaperOrderMatchingJob {
+  /**
+   * 미체결 주문 매칭 작업
+   * 평일 장중 5분마다 현재가로 매칭하고, 장 마감 후 한 번 더 일봉으로 확인
+   */
+  @Scheduled({
+    cron: '*/5 9-15 * * 1-5', // 평일 9시~15시대 5분마다
+    name: 'paper-order-matching',
+    branch: PipelineBranch.DATA,
+    enabled: true,
+    priority: 6,
+    timeout: 240000, // 4분 타임아웃 (다음 실행 전 종료)
+    retries: 0,
+  })
+  async matchDuringSession() {
+    await this.match();
+  }
+
+  @Scheduled({
+    cron: '30 16 * * 1-5', // 평일 오후 4시 30분 (일봉 적재 이후)
+    name: 'paper-order-matching-close',
+    branch: PipelineBranch.DATA,
+    enabled: true,
+    priority: 6,
+    timeout: 300000, // 5분 타임아웃
+    retries: 1,
+  })
+  async matchAfterClose() {
+    await this.match();
+  }
+
+  private async match() {
+    logger.info('Paper order matching job started');
+
+    try {
+      const paperTradingService = new PaperTradingService(
+        new PaperAccountRepositoryAdapter(),
+        new PaperOrderRepositoryAdapter(),
+        new PortfolioRepositoryAdapter(),
+        new StockRepositoryAdapter(),
+        new StockPriceRepositoryAdapter(),
+        new CorporateActionRepositoryAdapter()
+      );
+      const result = await paperTradingService.matchOpenOrders();
+
+      logger.info(`Paper order matching job completed: ${result.filled} filled, ${result.rejected} rejected`);
+    } catch (error) {
+      logger.error('Paper order matching job failed:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Stock Price Ingestion Job
+ * 장 마감 후 전체 종목 일봉 적재 (차트/지표/스크리너용 StockPrice)
+ */
+
+import { Scheduled } from '../decorators/scheduled';
+import { PipelineBranch } from '../pipelines/PipelineManager';
+import { logger } from '../config/logger';
+import { getEventStream } from '../events/EventStream';
+import { StockPriceIngestionService } from '../services/StockPriceIngestionService';
+import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { StockPriceRepositoryAdapter } from '../adapters/StockPriceRepositoryAdapter';
+import { CorporateActionRepositoryAdapter } from '../adapters/CorporateActionRepositoryAdapter';
+import { AlertService } from '../services/AlertService';
+import { AlertRepositoryAdapter } from '../adapters/AlertRepositoryAdapter';
+import { NewsRepositoryAdapter } from '../adapters/NewsRepositoryAdapter';
+import { NotificationRepositoryAdapter } from '../adapters/NotificationRepositoryAdapter';
+import { NotificationService } from '../services/NotificationService';
+
+const JOB_ID = 'stock-price-ingestion';
+
+export class StockPriceIngestionJob {
+  /**
+   * 일봉 적재 작업
+   * 평일 오후 4시 20분 실행 (지수/환율 동기화 이후)
+   * 실행별 통계는 EventStream(job:events)에 기록
+   */
+  @Scheduled({
+    cron: '20 16 * * 1-5', // 평일 오후 4시 20분
+    name: JOB_ID,
+    branch: PipelineBranch.DATA,
+    enabled: true,
+    priority: 8,
+    timeout: 1800000, // 30분 타임아웃 (최초 적재 시 종목당 1년치)
+    retries: 2,
+  })
+  async ingestStockPrices() {
+    logger.info('Stock price ingestion job started');
+    const eventStream = getEventStream();
+    const startedAt = Date.now();
+
+    await eventStream.logJobStart(JOB_ID, PipelineBranch.DATA);
+    try {
+      const ingestionService = new StockPriceIngestionService(
+        new StockRepositoryAdapter(),
+        new StockPriceRepositoryAdapter(),
+        new CorporateActionRepositoryAdapter(),
+        new AlertService(
+          new AlertRepositoryAdapter(),
+          new StockRepositoryAdapter(),
+          new StockPriceRepositoryAdapter(),
+          new NewsRepositoryAdapter(),
+          new NotificationService(new NotificationRepositoryAdapter())
+        )
+      );
+      const stats = await ingestionService.ingest();
+
+      await eventStream.logJobComplete(JOB_ID, Date.now() - startedAt, PipelineBranch.DATA, { ...stats });
+      logger.info('Stock price ingestion job completed');
+    } catch (error) {
+      logger.error('Stock price ingestion job failed:', error);
+      await eventStream.logJobFail(JOB_ID, error as Error, PipelineBranch.DATA);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Stock Tick Collection Job
+ * 장중 현재가를 1분마다 틱(stock_ticks)으로 적재 (1m/5m/15m/60m 분봉 차트용)
+ */
+
+import { Scheduled } from '../decorators/scheduled';
+import { PipelineBranch } from '../pipelines/PipelineManager';
+import { logger } from '../config/logger';
+import { getEventStream } from '../events/EventStream';
+import { StockTickCollectionService } from '../services/StockTickCollectionService';
+import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { StockTickRepositoryAdapter } from '../adapters/StockTickRepositoryAdapter';
+
+const COLLECT_JOB_ID = 'stock-tick-collection';
+const PURGE_JOB_ID = 'stock-tick-purge';
+
+const createTickCollectionService = (): StockTickCollectionService =>
+  new StockTickCollectionService(new StockRepositoryAdapter(), new StockTickRepositoryAdapter());
+
+export class StockTickCollectionJob {
+  /**
+   * 틱 수집 작업
+   * 평일 장중 1분마다 실행 (정규장 밖의 틱은 분봉 집계에서 제외됨)
+   */
+  @Scheduled({
+    cron: '* 9-15 * * 1-5', // 평일 9시~15시대 1분마다
+    name: COLLECT_JOB_ID,
+    branch: PipelineBranch.DATA,
+    enabled: true,
+    priority: 7,
+    timeout: 50000, // 50초 타임아웃 (다음 실행 전 종료)
+    retries: 0,
+  })
+  async collectTicks() {
+    const eventStream = getEventStream();
+    const startedAt = Date.now();
+
+    await eventStream.logJobStart(COLLECT_JOB_ID, PipelineBranch.DATA);
+    try {
+      const stats = await createTickCollectionService().collect();
+
+      await eventStream.logJobComplete(COLLECT_JOB_ID, Date.now() - startedAt, PipelineBranch.DATA, { ...stats });
+    } catch (error) {
+      logger.error('Stock tick collection failed:', error);
+      await eventStream.logJobFail(COLLECT_JOB_ID, error as Error, PipelineBranch.DATA);
+      throw error;
+    }
+  }
+
+  /**
+   * 오래된 틱 정리 작업
+   * 매일 오후 6시 실행
+   */
+  @Scheduled({
+    cron: '0 18 * * *', // 매일 오후 6시
+    name: PURGE_JOB_ID,
+    branch: PipelineBranch.CLEANUP,
+    enabled: true,
+    priority: 2,
+    timeout: 600000, // 10분 타임아웃
+    retries: 1,
+  })
+  async purgeTicks() {
+    logger.info('Stock tick purge job started');
+
+    try {
+      await createTickCollectionService().purge();
+
+      logger.info('Stock tick purge job completed');
+    } catch (error) {
+      logger.error('Stock tick purge job failed:', error);
+      throw error;
+    }
+  }
+}
@@ -13,6 +13,14 @@ import { NewsCrawlerJob } from './NewsCrawlerJob';
 import { CacheCleanupJob } from './CacheCleanupJob';
 import { ImageCleanupJob } from './ImageCleanupJob';
 import { DataCleanupJob } from './DataCleanupJob';
+import { IndexPriceSyncJob } from './IndexPriceSyncJob';
+import { FxRateSyncJob } from './FxRateSyncJob';
+import { StockTickCollectionJob } from './StockTickCollectionJob';
+import { PaperOrderMatchingJob } from './PaperOrderMatchingJob';
+import { StockPriceIngestionJob } from './StockPriceIngestionJob';
+import { CorporateActionJob } from './CorporateActionJob';
+import { AlertMonitorJob } from './AlertMonitorJob';
+import { LearningRecommendationJob } from './LearningRecommendationJob';
 
 /**
  * 작업 등록 함수
@@ -26,6 +34,14 @@ export async function registerAllJobs(): Promise<void> {
   await registerScheduledJobs(CacheCleanupJob);
   await registerScheduledJobs(ImageCleanupJob);
   await registerScheduledJobs(DataCleanupJob);
+  await registerScheduledJobs(IndexPriceSyncJob);
+  await registerScheduledJobs(FxRateSyncJob);
+  await registerScheduledJobs(StockTickCollectionJob);
+  await registerScheduledJobs(PaperOrderMatchingJob);
+  await registerScheduledJobs(StockPriceIngestionJob);
+  await registerScheduledJobs(CorporateActionJob);
+  await registerScheduledJobs(AlertMonitorJob);
+  await registerScheduledJobs(LearningRecommendationJob);
 
   // 수동으로 등록해야 하는 작업들 (Scheduled 데코레이터 미사용)
   // 예: 동적으로 생성되는 작업, 조건부 작업 등
@@ -1,7 +1,18 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { logger } from '../config/logger';
-import { extractTokenFromHeader, verifyToken } from '../utils/jwt';
-import { UnauthorizedError } from '../errors/AppError';
+import {
+  JWTPayload,
+  SESSION_STATUS_CACHE_TTL_SECONDS,
+  extractTokenFromHeader,
+  sessionStatusCacheKey,
+  verifyToken,
+} from '../utils/jwt';
+import { UnauthorizedError, ForbiddenError } from '../errors/AppError';
+import { prisma } from '../config/prisma';
+import { SessionRepositoryAdapter } from '../adapters/SessionRepositoryAdapter';
+import { cacheService } from '../services/CacheService';
+
+const sessionRepository = new SessionRepositoryAdapter();
 
 // Extend FastifyRequest to include userId
 declare module 'fastify' {
@@ -21,31 +32,17 @@ declare global {
 
 /**
  * Authentication hook for Fastify
- * 
- * STUB 상태: 현재는 개발용 더미 사용
- * JWT 인증 구현 완료 후 verifyTokenFromRequest()로 교체 예정
+ * Authorization: Bearer <access token> 검증(세션 폐기 여부 포함) 후 request.userId 설정
  */
 export const authenticate = async (
   request: FastifyRequest,
   reply: FastifyReply
 ) => {
   try {
-    // STUB: 개발용 더미 사용
-    // TODO: 개발 완료 후 verifyTokenFromRequest()로 교체
-    const dummyUserId = 'dev-user-001';
-    request.userId = dummyUserId;
-    logger.debug(`Auth middleware: Using dummy userId ${dummyUserId}`);
-
-    // 실제 JWT 인증 (주석 처리 - 개발 완료 후 활성화)
-    // const token = extractTokenFromHeader(request.headers.authorization);
-    // if (!token) {
-    //   throw new UnauthorizedError('No token provided');
-    // }
-    // const payload = verifyToken(token); // verifyToken이 UnauthorizedError를 throw함
-    // request.userId = payload.userId;
+    request.userId = await verifyTokenFromRequest(request);
   } catch (error) {
     // 에러를 throw하여 글로벌 에러 핸들러가 처리하도록 함
-    logger.error('Auth middleware error:', error);
+    logger.debug('Auth middleware error:', error);
     throw error;
   }
 };
@@ -58,39 +55,79 @@ export const optionalAuth = async (
   request: FastifyRequest,
   reply: FastifyReply
 ) => {
-  try {
-    // STUB: 개발용 더미 사용
-    const dummyUserId = 'dev-user-001';
-    request.userId = dummyUserId;
+  const token = extractTokenFromHeader(request.headers.authorization);
+  if (!token) {
+    return;
+  }
 
-    // 실제 JWT 인증 (주석 처리 - 개발 완료 후 활성화)
-    // const token = extractTokenFromHeader(request.headers.authorization);
-    // if (token) {
-    //   try {
-    //     const payload = verifyToken(token); // verifyToken이 UnauthorizedError를 throw할 수 있음
-    //     request.userId = payload.userId;
-    //   } catch (error) {
-    //     // optionalAuth는 토큰이 유효하지 않아도 계속 진행
-    //     logger.debug('Optional auth: Invalid token, proceeding without userId');
-    //   }
-    // }
+  try {
+    request.userId = (await verifyAccessToken(token)).userId;
   } catch (error) {
-    // Continue without userId
-    logger.debug('Optional auth: No userId set');
+    // optionalAuth는 토큰이 유효하지 않아도 계속 진행
+    logger.debug('Optional auth: Invalid token, proceeding without userId');
   }
 };
 
 /**
- * JWT 토큰 검증 헬퍼 함수 (STUB)
- * 
- * 개발 완료 후 authenticate()에서 사용할 함수
+ * Admin 권한 확인 hook
+ * authenticate 이후에 등록해야 함 (request.userId 필요)
  */
-function verifyTokenFromRequest(request: FastifyRequest): string {
+export const requireAdmin = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  if (!request.userId) {
+    throw new UnauthorizedError('Authentication required');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: request.userId },
+    select: { role: true },
+  });
+
+  if (user?.role !== 'admin') {
+    logger.warn(`Admin access denied for user ${request.userId}`);
+    throw new ForbiddenError('Admin access required');
+  }
+};
+
+/**
+ * 요청 헤더의 access token 검증
+ *
+ * @returns 토큰의 userId
+ */
+export async function verifyTokenFromRequest(request: FastifyRequest): Promise<string> {
   const token = extractTokenFromHeader(request.headers.authorization);
   if (!token) {
     throw new UnauthorizedError('No token provided');
   }
 
-  const payload = verifyToken(token); // verifyToken이 UnauthorizedError를 throw함
+  const payload = await verifyAccessToken(token); // UnauthorizedError를 throw함
   return payload.userId;
 }
+
+/**
+ * Access token 검증 (서명/만료 + 발급 세션이 폐기되지 않았는지)
+ * 로그아웃/전체 세션 폐기 이후에는 만료 전 access token도 거부
+ *
+ * @throws UnauthorizedError 토큰이 유효하지 않거나 세션이 없거나 폐기된 경우
+ */
+export async function verifyAccessToken(token: string): Promise<JWTPayload> {
+  const payload = verifyToken(token);
+  if (!payload.sessionId) {
+    throw new UnauthorizedError('Invalid or expired token');
+  }
+
+  const key = sessionStatusCacheKey(payload.userId, payload.sessionId);
+  let active = await cacheService.get<boolean>(key);
+  if (active === null) {
+    const session = await sessionRepository.findById(payload.sessionId);
+    active = session !== null && session.userId === payload.userId && session.revokedAt === null;
+    await cacheService.set(key, active, SESSION_STATUS_CACHE_TTL_SECONDS);
+  }
+
+  if (!active) {
+    throw new UnauthorizedError('Session has been revoked');
+  }
+  return payload;
+}
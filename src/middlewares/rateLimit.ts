@@ -39,6 +39,22 @@ export const setupRateLimit = async (fastify: FastifyInstance) => {
         }
       }
     }
+
+    // 로그인/가입은 IP당 1분에 10회 제한 (비밀번호 대입 방지)
+    if (request.method === 'POST' && /^\/api\/auth\/(login|signup)/.test(request.url)) {
+      const key = `rate-limit:auth:${request.ip}`;
+      const count = await redis.incr(key);
+      await redis.expire(key, 60); // 1분
+
+      if (count > 10) {
+        reply.code(429).send({
+          success: false,
+          error: 'Too many login attempts. Please wait a moment.',
+          retryAfter: 60,
+        });
+        return;
+      }
+    }
   });
 };
 
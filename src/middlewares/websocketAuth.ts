@@ -5,35 +5,29 @@
 
 import { FastifyRequest } from 'fastify';
 import { logger } from '../config/logger';
-import { extractTokenFromHeader, verifyToken } from '../utils/jwt';
+import { extractTokenFromHeader } from '../utils/jwt';
 import { UnauthorizedError } from '../errors/AppError';
+import { verifyAccessToken } from './auth';
 
 /**
  * WebSocket 연결 인증
- * 쿼리 파라미터 또는 헤더에서 토큰 추출
+ * 쿼리 파라미터(token) 또는 헤더에서 access token 추출 (브라우저 WebSocket은 헤더 지정 불가)
+ * 인증은 연결 시점에만 하므로 이후 세션이 폐기돼도 열린 연결은 유지됨
  */
-export const authenticateWebSocket = (request: FastifyRequest): string => {
+export const authenticateWebSocket = async (request: FastifyRequest): Promise<string> => {
   try {
-    // STUB: 개발용 더미 사용
-    // TODO: 개발 완료 후 실제 JWT 검증으로 교체
-    const dummyUserId = 'dev-user-001';
-    logger.debug(`WebSocket auth: Using dummy userId ${dummyUserId}`);
-    return dummyUserId;
+    const token =
+      (request.query as { token?: string } | undefined)?.token ||
+      extractTokenFromHeader(request.headers.authorization);
 
-    // 실제 JWT 인증 (주석 처리 - 개발 완료 후 활성화)
-    // const token = 
-    //   (request.query as any)?.token || 
-    //   extractTokenFromHeader(request.headers.authorization);
-    // 
-    // if (!token) {
-    //   throw new UnauthorizedError('No token provided');
-    // }
-    // 
-    // const payload = verifyToken(token);
-    // return payload.userId;
+    if (!token) {
+      throw new UnauthorizedError('No token provided');
+    }
+
+    const payload = await verifyAccessToken(token);
+    return payload.userId;
   } catch (error) {
-    logger.error('WebSocket auth error:', error);
+    logger.debug('WebSocket auth error:', error);
     throw new UnauthorizedError('WebSocket authentication failed');
   }
 };
-
@@ -0,0 +1,51 @@
+/**
+ * Alert Delivery Channel
+ * 알림 외부 발송 채널 추상화 (웹훅, 이메일 게이트웨이 등)
+ *
+ * 환경 변수 ALERT_DELIVERY_CHANNEL로 구현체 선택 (기본값: stub)
+ */
+
+import { logger } from '../config/logger';
+import { StubAlertDeliveryChannel } from './StubAlertDeliveryChannel';
+import { WebhookAlertDeliveryChannel } from './WebhookAlertDeliveryChannel';
+
+/**
+ * 외부 발송 메시지
+ */
+export interface AlertDeliveryMessage {
+  eventId: string;
+  alertId: string;
+  userId: string;
+  stockId: string;
+  type: string;
+  title: string;
+  message: string;
+  payload: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+export interface AlertDeliveryChannel {
+  readonly name: string;
+  deliver(message: AlertDeliveryMessage): Promise<void>; // 실패 시 예외
+}
+
+/**
+ * 설정에 따른 알림 발송 채널 생성
+ */
+export function createAlertDeliveryChannel(
+  name: string = process.env.ALERT_DELIVERY_CHANNEL || 'stub'
+): AlertDeliveryChannel {
+  switch (name) {
+    case 'stub':
+      return new StubAlertDeliveryChannel();
+    case 'webhook':
+      if (!process.env.ALERT_WEBHOOK_URL) {
+        logger.warn('ALERT_WEBHOOK_URL is not set, falling back to stub alert channel');
+        return new StubAlertDeliveryChannel();
+      }
+      return new WebhookAlertDeliveryChannel(process.env.ALERT_WEBHOOK_URL);
+    default:
+      logger.warn(`Unknown alert delivery channel "${name}", falling back to stub`);
+      return new StubAlertDeliveryChannel();
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Fixture FX Rate Source
+ * 오프라인 개발/테스트용 결정적(deterministic) 환율
+ *
+ * FixtureIndexPriceSource와 같은 방식으로 고정 기준일부터 랜덤 워크를 생성
+ * 환율은 주말에도 직전 영업일 값을 유지하므로 평일만 생성
+ */
+
+import { FxPair } from '../entities/FxRate';
+import { FxRateBar, FxRateSource } from './FxRateSource';
+
+const ANCHOR_DATE = '2020-01-02';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FIXTURE_PARAMS: Record<FxPair, { seed: number; base: number; volatility: number; floor: number; ceiling: number }> = {
+  USDKRW: { seed: 20200104, base: 1158.1, volatility: 0.004, floor: 1050, ceiling: 1500 },
+};
+
+/**
+ * Mulberry32 PRNG (시드 고정 난수 생성기)
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// KST 자정 기준 날짜
+const toKstDate = (dateKey: string): Date => new Date(`${dateKey}T00:00:00+09:00`);
+
+export class FixtureFxRateSource implements FxRateSource {
+  readonly name = 'fixture';
+
+  async fetchDailyRates(pair: FxPair, from: Date, to: Date): Promise<FxRateBar[]> {
+    const params = FIXTURE_PARAMS[pair];
+    const random = createRandom(params.seed);
+    const bars: FxRateBar[] = [];
+    let rate = params.base;
+
+    for (let time = toKstDate(ANCHOR_DATE).getTime(); time <= to.getTime(); time += DAY_MS) {
+      const weekday = new Date(time + 9 * 60 * 60 * 1000).getUTCDay();
+      if (weekday === 0 || weekday === 6) continue;
+
+      // 비현실적인 값으로 흘러가지 않도록 상/하단에서 고정
+      rate *= 1 + params.volatility * (random() + random() + random() - 1.5) * 2;
+      rate = Math.min(params.ceiling, Math.max(params.floor, rate));
+
+      if (time >= from.getTime()) {
+        bars.push({ pair, date: new Date(time), rate: Number(rate.toFixed(2)) });
+      }
+    }
+
+    return bars;
+  }
+}
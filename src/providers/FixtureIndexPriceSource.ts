@@ -0,0 +1,76 @@
+/**
+ * Fixture Index Price Source
+ * 오프라인 개발/테스트용 결정적(deterministic) 지수 시세
+ *
+ * 고정 기준일부터 시드 고정 난수로 랜덤 워크를 생성하므로
+ * 같은 날짜는 조회 범위와 무관하게 항상 같은 값을 반환
+ * 주말만 제외하며 공휴일은 고려하지 않음
+ */
+
+import { MarketIndexCode } from '../entities/IndexPrice';
+import { IndexPriceBar, IndexPriceSource } from './IndexPriceSource';
+
+const ANCHOR_DATE = '2020-01-02';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FIXTURE_PARAMS: Record<MarketIndexCode, { seed: number; base: number; drift: number; volatility: number }> = {
+  KOSPI: { seed: 20200102, base: 2175.17, drift: 0.0002, volatility: 0.011 },
+  KOSDAQ: { seed: 20200103, base: 674.02, drift: 0.0001, volatility: 0.014 },
+};
+
+/**
+ * Mulberry32 PRNG (시드 고정 난수 생성기)
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// KST 자정 기준 날짜
+const toKstDate = (dateKey: string): Date => new Date(`${dateKey}T00:00:00+09:00`);
+
+export class FixtureIndexPriceSource implements IndexPriceSource {
+  readonly name = 'fixture';
+
+  async fetchDailyPrices(code: MarketIndexCode, from: Date, to: Date): Promise<IndexPriceBar[]> {
+    const params = FIXTURE_PARAMS[code];
+    const random = createRandom(params.seed);
+    const bars: IndexPriceBar[] = [];
+    let previousClose = params.base;
+
+    for (let time = toKstDate(ANCHOR_DATE).getTime(); time <= to.getTime(); time += DAY_MS) {
+      const date = new Date(time);
+      const weekday = new Date(time + 9 * 60 * 60 * 1000).getUTCDay();
+      if (weekday === 0 || weekday === 6) continue;
+
+      const dailyReturn = params.drift + params.volatility * (random() + random() + random() - 1.5) * 2;
+      const open = previousClose * (1 + (random() - 0.5) * params.volatility * 0.5);
+      const close = previousClose * (1 + dailyReturn);
+      const high = Math.max(open, close) * (1 + random() * params.volatility * 0.5);
+      const low = Math.min(open, close) * (1 - random() * params.volatility * 0.5);
+
+      if (time >= from.getTime()) {
+        const change = close - previousClose;
+        bars.push({
+          code,
+          date,
+          open: Number(open.toFixed(2)),
+          high: Number(high.toFixed(2)),
+          low: Number(low.toFixed(2)),
+          close: Number(close.toFixed(2)),
+          change: Number(change.toFixed(2)),
+          changeRate: Number(((change / previousClose) * 100).toFixed(2)),
+        });
+      }
+      previousClose = close;
+    }
+
+    return bars;
+  }
+}
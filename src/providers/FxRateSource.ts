@@ -0,0 +1,37 @@
+/**
+ * FX Rate Source
+ * 환율 일별 기준율 공급원 추상화
+ *
+ * 환경 변수 FX_RATE_SOURCE로 구현체 선택 (기본값: fixture)
+ */
+
+import { FxPair } from '../entities/FxRate';
+import { logger } from '../config/logger';
+import { FixtureFxRateSource } from './FixtureFxRateSource';
+
+/**
+ * 일별 기준율
+ */
+export interface FxRateBar {
+  pair: FxPair;
+  date: Date;
+  rate: number;
+}
+
+export interface FxRateSource {
+  readonly name: string;
+  fetchDailyRates(pair: FxPair, from: Date, to: Date): Promise<FxRateBar[]>;
+}
+
+/**
+ * 설정에 따른 환율 공급원 생성
+ */
+export function createFxRateSource(name: string = process.env.FX_RATE_SOURCE || 'fixture'): FxRateSource {
+  switch (name) {
+    case 'fixture':
+      return new FixtureFxRateSource();
+    default:
+      logger.warn(`Unknown FX rate source "${name}", falling back to fixture`);
+      return new FixtureFxRateSource();
+  }
+}
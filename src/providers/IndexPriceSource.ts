@@ -0,0 +1,43 @@
+/**
+ * Index Price Source
+ * 시장 지수 일별 시세 공급원 추상화
+ *
+ * 환경 변수 INDEX_PRICE_SOURCE로 구현체 선택 (기본값: fixture)
+ * 실제 시세 API 연동 시 이 인터페이스를 구현하여 등록
+ */
+
+import { MarketIndexCode } from '../entities/IndexPrice';
+import { logger } from '../config/logger';
+import { FixtureIndexPriceSource } from './FixtureIndexPriceSource';
+
+/**
+ * 지수 일봉 데이터
+ */
+export interface IndexPriceBar {
+  code: MarketIndexCode;
+  date: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  change: number;
+  changeRate: number;
+}
+
+export interface IndexPriceSource {
+  readonly name: string;
+  fetchDailyPrices(code: MarketIndexCode, from: Date, to: Date): Promise<IndexPriceBar[]>;
+}
+
+/**
+ * 설정에 따른 지수 시세 공급원 생성
+ */
+export function createIndexPriceSource(name: string = process.env.INDEX_PRICE_SOURCE || 'fixture'): IndexPriceSource {
+  switch (name) {
+    case 'fixture':
+      return new FixtureIndexPriceSource();
+    default:
+      logger.warn(`Unknown index price source "${name}", falling back to fixture`);
+      return new FixtureIndexPriceSource();
+  }
+}
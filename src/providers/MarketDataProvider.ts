@@ -0,0 +1,114 @@
+/**
+ * Market Data Provider
+ * 실시간 시세(종목/지수/환율) 공급원 추상화
+ *
+ * 환경 변수 MARKET_DATA_PROVIDER로 구현체 선택 (기본값: mock)
+ * - mock: 기준가 주변 난수 시세 (개발/테스트 환경 전용)
+ * - naver: 네이버 증권 API (구독은 폴링)
+ * - replay: 녹화된 체결 파일(CSV/JSON)을 설정한 배속으로 재생
+ */
+
+import { logger } from '../config/logger';
+import { toDateKey } from '../utils/performance-metrics';
+import { MockMarketDataProvider } from './MockMarketDataProvider';
+import { NaverMarketDataProvider } from './NaverMarketDataProvider';
+import { ReplayMarketDataProvider } from './ReplayMarketDataProvider';
+
+// 시장 요약에 사용하는 지수/환율 심볼 (종목은 6자리 코드)
+export const MARKET_SUMMARY_SYMBOLS = ['KOSPI', 'KOSDAQ', 'USDKRW'] as const;
+
+/**
+ * 현재 시세
+ */
+export interface MarketQuote {
+  symbol: string;
+  price: number;
+  change: number; // 전일 종가 대비
+  changeRate: number; // %
+  volume: number; // 누적 거래량
+  timestamp: Date;
+}
+
+/**
+ * 체결 (구독 콜백으로 전달)
+ */
+export interface MarketTick {
+  symbol: string;
+  price: number;
+  volume: number; // 해당 체결 거래량
+  timestamp: Date;
+}
+
+/**
+ * 일봉 (date는 KST 자정)
+ */
+export interface MarketDailyBar {
+  symbol: string;
+  date: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type MarketTickListener = (tick: MarketTick) => void;
+
+export interface MarketDataProvider {
+  readonly name: string;
+  getQuote(symbol: string): Promise<MarketQuote | null>;
+  getQuotes(symbols: string[]): Promise<MarketQuote[]>; // 시세가 없는 심볼은 제외
+  subscribe(symbols: string[], listener: MarketTickListener): () => void; // 반환값: 구독 해제
+  getDailyBars(symbol: string, from: Date, to: Date): Promise<MarketDailyBar[]>; // 날짜 오름차순
+}
+
+/**
+ * 거래일 기준 시각 (해당 시각이 속한 KST 날짜의 자정)
+ */
+export const toTradingDate = (date: Date): Date => new Date(`${toDateKey(date)}T00:00:00+09:00`);
+
+// 목업 시세를 허용하는 환경 (NODE_ENV 미설정은 development로 간주)
+const MOCK_ALLOWED_ENVS = ['development', 'test'];
+
+/**
+ * 설정에 따른 시세 공급원 생성
+ * 개발/테스트 외 환경에서는 목업 시세가 일봉·현재가로 적재되지 않도록 실제 공급원 설정을 강제
+ *
+ * @throws Error 개발/테스트 외 환경에서 mock 또는 알 수 없는 공급원을 선택한 경우
+ */
+export function createMarketDataProvider(
+  name: string = process.env.MARKET_DATA_PROVIDER || 'mock'
+): MarketDataProvider {
+  const mockAllowed = MOCK_ALLOWED_ENVS.includes(process.env.NODE_ENV || 'development');
+
+  switch (name) {
+    case 'naver':
+      return new NaverMarketDataProvider();
+    case 'replay':
+      return new ReplayMarketDataProvider();
+    case 'mock':
+      if (!mockAllowed) {
+        throw new Error('MARKET_DATA_PROVIDER must be set to a real provider (naver, replay) outside development and test');
+      }
+      return new MockMarketDataProvider();
+    default:
+      if (!mockAllowed) {
+        throw new Error(`Unknown market data provider "${name}"`);
+      }
+      logger.warn(`Unknown market data provider "${name}", falling back to mock`);
+      return new MockMarketDataProvider();
+  }
+}
+
+let sharedProvider: MarketDataProvider | null = null;
+
+/**
+ * 프로세스 공용 시세 공급원 (재생 위치/폴링을 서비스 간에 공유)
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+  if (!sharedProvider) {
+    sharedProvider = createMarketDataProvider();
+    logger.info(`Market data provider: ${sharedProvider.name}`);
+  }
+  return sharedProvider;
+}
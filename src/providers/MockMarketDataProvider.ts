@@ -0,0 +1,122 @@
+/**
+ * Mock Market Data Provider
+ * 기준가 주변 난수 시세 (외부 API/파일 없이 동작)
+ *
+ * 현재가/체결은 호출할 때마다 값이 달라지므로 결정적인 데이터가 필요하면 replay 사용
+ * 일봉은 심볼과 날짜로 값이 고정됨 (수집 작업을 다시 실행해도 이력이 바뀌지 않음)
+ */
+
+import {
+  MarketDailyBar,
+  MarketDataProvider,
+  MarketQuote,
+  MarketTickListener,
+  toTradingDate,
+} from './MarketDataProvider';
+
+// 구독 시 체결 생성 주기
+const TICK_INTERVAL_MS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BASE_PRICES: Record<string, number> = {
+  '005930': 71000, '000660': 178000, '373220': 370000, '207940': 780000,
+  '005380': 210000, '000270': 95000, '035420': 180000, '035720': 42000,
+  KOSPI: 2650.5, KOSDAQ: 875.2, USDKRW: 1335.5,
+};
+
+// 심볼별 변동폭 (%): 지수/환율은 종목보다 작게
+const MAX_CHANGE_PERCENT: Record<string, number> = { KOSPI: 0.2, KOSDAQ: 0.35, USDKRW: 0.15 };
+
+const DEFAULT_BASE_PRICE = 50000;
+const DEFAULT_MAX_CHANGE_PERCENT = 3;
+
+// 종목은 원 단위, 지수/환율은 소수 둘째 자리
+const roundPrice = (symbol: string, price: number): number =>
+  symbol in MAX_CHANGE_PERCENT ? Number(price.toFixed(2)) : Math.round(price);
+
+/**
+ * 심볼 + 날짜로 결정되는 [0, 1) 난수 (일봉은 다시 조회해도 같은 값)
+ */
+const seededRandom = (key: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 16777619);
+  }
+  hash = Math.imul(hash ^ (hash >>> 15), hash | 1);
+  return ((hash ^ (hash >>> 14)) >>> 0) / 4294967296;
+};
+
+export class MockMarketDataProvider implements MarketDataProvider {
+  readonly name = 'mock';
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    const basePrice = BASE_PRICES[symbol] || DEFAULT_BASE_PRICE;
+    const maxChange = MAX_CHANGE_PERCENT[symbol] ?? DEFAULT_MAX_CHANGE_PERCENT;
+    const changeRate = (Math.random() - 0.5) * 2 * maxChange;
+    const price = roundPrice(symbol, basePrice * (1 + changeRate / 100));
+    const change = roundPrice(symbol, price - basePrice);
+
+    return {
+      symbol,
+      price,
+      change,
+      changeRate: Number(((change / basePrice) * 100).toFixed(2)),
+      volume: symbol in MAX_CHANGE_PERCENT ? 0 : Math.floor(Math.random() * 5000000) + 500000,
+      timestamp: new Date(),
+    };
+  }
+
+  async getQuotes(symbols: string[]): Promise<MarketQuote[]> {
+    const quotes = await Promise.all(symbols.map((symbol) => this.getQuote(symbol)));
+    return quotes.filter((quote): quote is MarketQuote => quote !== null);
+  }
+
+  subscribe(symbols: string[], listener: MarketTickListener): () => void {
+    const timer = setInterval(async () => {
+      for (const quote of await this.getQuotes(symbols)) {
+        listener({
+          symbol: quote.symbol,
+          price: quote.price,
+          volume: Math.floor(Math.random() * 1000) + 1,
+          timestamp: quote.timestamp,
+        });
+      }
+    }, TICK_INTERVAL_MS);
+    timer.unref?.();
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * 기준가 ±10% 범위의 완만한 등락 + 일별 잡음 (주말 제외)
+   */
+  async getDailyBars(symbol: string, from: Date, to: Date): Promise<MarketDailyBar[]> {
+    const basePrice = BASE_PRICES[symbol] || DEFAULT_BASE_PRICE;
+    const maxChange = (MAX_CHANGE_PERCENT[symbol] ?? DEFAULT_MAX_CHANGE_PERCENT) / 100;
+    const bars: MarketDailyBar[] = [];
+
+    for (let time = toTradingDate(from).getTime(); time <= to.getTime(); time += DAY_MS) {
+      const date = new Date(time);
+      const weekday = new Date(time + 9 * 60 * 60 * 1000).getUTCDay();
+      if (weekday === 0 || weekday === 6) continue;
+
+      const dayIndex = Math.floor(time / DAY_MS);
+      const random = (field: string) => seededRandom(`${symbol}:${dayIndex}:${field}`);
+      const trend = basePrice * (1 + 0.1 * Math.sin(dayIndex / 20 + seededRandom(symbol) * Math.PI * 2));
+      const open = trend * (1 + (random('open') - 0.5) * maxChange);
+      const close = trend * (1 + (random('close') - 0.5) * maxChange);
+
+      bars.push({
+        symbol,
+        date,
+        open: roundPrice(symbol, open),
+        high: roundPrice(symbol, Math.max(open, close) * (1 + random('high') * maxChange * 0.5)),
+        low: roundPrice(symbol, Math.min(open, close) * (1 - random('low') * maxChange * 0.5)),
+        close: roundPrice(symbol, close),
+        volume: symbol in MAX_CHANGE_PERCENT ? 0 : Math.floor(random('volume') * 5000000) + 500000,
+      });
+    }
+
+    return bars;
+  }
+}
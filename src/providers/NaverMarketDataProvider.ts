@@ -0,0 +1,154 @@
+/**
+ * Naver Market Data Provider
+ * 네이버 증권 모바일 API 시세
+ *
+ * - 종목: /api/stock/{code}/basic
+ * - 지수(KOSPI, KOSDAQ): /api/index/{code}/basic
+ * - 환율(USDKRW): front-api marketIndex
+ * - 일봉: api.stock.naver.com 차트 API (환율 미지원)
+ * - 구독: NAVER_POLL_INTERVAL_MS 주기 폴링 (가격 또는 누적 거래량이 바뀐 경우만 체결로 전달)
+ *
+ * 시세 요청 실패 시 mock으로 대체하지 않고 시세 없음(null)으로 처리 (일봉 요청 실패는 예외 전파)
+ */
+
+import axios from 'axios';
+import { logger } from '../config/logger';
+import {
+  MarketDailyBar,
+  MarketDataProvider,
+  MarketQuote,
+  MarketTickListener,
+} from './MarketDataProvider';
+import { toDateKey } from '../utils/performance-metrics';
+
+const BASE_URL = 'https://m.stock.naver.com';
+const CHART_BASE_URL = 'https://api.stock.naver.com/chart/domestic';
+const HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+};
+const REQUEST_TIMEOUT_MS = 5000;
+const CHART_TIMEOUT_MS = 10000;
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+const INDEX_SYMBOLS = ['KOSPI', 'KOSDAQ'];
+const FX_REUTERS_CODES: Record<string, string> = { USDKRW: 'FX_USDKRW' };
+
+// 네이버 응답의 숫자는 "2,650.50" 형태의 문자열
+const toNumber = (value: unknown): number => Number(String(value ?? '').replace(/,/g, '')) || 0;
+
+export class NaverMarketDataProvider implements MarketDataProvider {
+  readonly name = 'naver';
+
+  constructor(
+    private readonly pollIntervalMs: number = Number(process.env.NAVER_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS
+  ) {}
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    try {
+      if (FX_REUTERS_CODES[symbol]) {
+        const response = await axios.get(`${BASE_URL}/front-api/marketIndex/productDetail`, {
+          params: { category: 'exchange', reutersCode: FX_REUTERS_CODES[symbol] },
+          headers: HEADERS,
+          timeout: REQUEST_TIMEOUT_MS,
+        });
+        const data = response.data?.result ?? {};
+        return {
+          symbol,
+          price: toNumber(data.closePrice),
+          change: toNumber(data.fluctuations),
+          changeRate: toNumber(data.fluctuationsRatio),
+          volume: 0,
+          timestamp: new Date(),
+        };
+      }
+
+      const path = INDEX_SYMBOLS.includes(symbol) ? 'index' : 'stock';
+      const response = await axios.get(`${BASE_URL}/api/${path}/${symbol}/basic`, {
+        headers: HEADERS,
+        timeout: REQUEST_TIMEOUT_MS,
+      });
+      const data = response.data ?? {};
+      return {
+        symbol,
+        price: toNumber(data.closePrice),
+        change: toNumber(data.compareToPreviousClosePrice),
+        changeRate: toNumber(data.fluctuationsRatio),
+        volume: toNumber(data.accumulatedTradingVolume),
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      logger.warn(`NaverMarketDataProvider.getQuote failed for ${symbol}:`, error);
+      return null;
+    }
+  }
+
+  async getQuotes(symbols: string[]): Promise<MarketQuote[]> {
+    const quotes = await Promise.all(symbols.map((symbol) => this.getQuote(symbol)));
+    return quotes.filter((quote): quote is MarketQuote => quote !== null && quote.price > 0);
+  }
+
+  subscribe(symbols: string[], listener: MarketTickListener): () => void {
+    const lastQuotes = new Map<string, MarketQuote>();
+    let polling = false;
+
+    const poll = async () => {
+      // 이전 폴링이 끝나지 않았으면 건너뜀 (API 지연 시 요청 누적 방지)
+      if (polling) return;
+      polling = true;
+      try {
+        for (const quote of await this.getQuotes(symbols)) {
+          const last = lastQuotes.get(quote.symbol);
+          lastQuotes.set(quote.symbol, quote);
+          if (last && last.price === quote.price && last.volume === quote.volume) continue;
+
+          listener({
+            symbol: quote.symbol,
+            price: quote.price,
+            volume: last ? Math.max(0, quote.volume - last.volume) : 0,
+            timestamp: quote.timestamp,
+          });
+        }
+      } finally {
+        polling = false;
+      }
+    };
+
+    void poll();
+    const timer = setInterval(() => void poll(), this.pollIntervalMs);
+    timer.unref?.();
+
+    return () => clearInterval(timer);
+  }
+
+  async getDailyBars(symbol: string, from: Date, to: Date): Promise<MarketDailyBar[]> {
+    if (FX_REUTERS_CODES[symbol]) return [];
+
+    // YYYYMMDD (KST)
+    const formatDate = (date: Date) => toDateKey(date).replace(/-/g, '');
+    const path = INDEX_SYMBOLS.includes(symbol) ? 'index' : 'item';
+    const response = await axios.get(`${CHART_BASE_URL}/${path}/${symbol}/day`, {
+      params: { startDateTime: `${formatDate(from)}000000`, endDateTime: `${formatDate(to)}235959` },
+      headers: HEADERS,
+      timeout: CHART_TIMEOUT_MS,
+    });
+    if (!Array.isArray(response.data)) {
+      throw new Error(`Invalid Naver chart response for ${symbol}`);
+    }
+
+    return response.data
+      .filter((item: any) => /^\d{8}$/.test(String(item.localDate)) && toNumber(item.closePrice) > 0)
+      .map((item: any) => {
+        const localDate = String(item.localDate);
+        return {
+          symbol,
+          date: new Date(`${localDate.slice(0, 4)}-${localDate.slice(4, 6)}-${localDate.slice(6, 8)}T00:00:00+09:00`),
+          open: toNumber(item.openPrice),
+          high: toNumber(item.highPrice),
+          low: toNumber(item.lowPrice),
+          close: toNumber(item.closePrice),
+          volume: toNumber(item.accumulatedTradingVolume),
+        };
+      })
+      .sort((a: MarketDailyBar, b: MarketDailyBar) => a.date.getTime() - b.date.getTime());
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Replay Market Data Provider
+ * 녹화된 체결 파일을 재생하는 오프라인 시세 (결정적 데이터)
+ *
+ * 파일 형식 (MARKET_REPLAY_FILE, 확장자로 구분)
+ * - CSV: 헤더 필수, timestamp,symbol,price,volume[,prevClose]
+ * - JSON: [{ "timestamp", "symbol", "price", "volume", "prevClose"? }]
+ *
+ * 재생 규칙
+ * - 첫 체결 시각을 기준으로 MARKET_REPLAY_SPEED 배속 재생 (기본 1, 60이면 1분 → 1초)
+ * - 재생 시계는 첫 조회/구독 시점부터 시작
+ * - 등락은 prevClose가 있으면 그 값, 없으면 해당 심볼의 첫 체결가 기준
+ * - 끝까지 재생하면 처음부터 다시 재생 (MARKET_REPLAY_LOOP=false면 마지막 시세 유지)
+ * - 일봉은 재생 위치와 무관하게 녹화 전체를 KST 날짜별로 집계
+ */
+
+import { readFileSync } from 'fs';
+import { extname, isAbsolute, join } from 'path';
+import { z } from 'zod';
+import { logger } from '../config/logger';
+import {
+  MarketDailyBar,
+  MarketDataProvider,
+  MarketQuote,
+  MarketTick,
+  MarketTickListener,
+  toTradingDate,
+} from './MarketDataProvider';
+
+const DEFAULT_REPLAY_FILE = 'fixtures/market-replay/sample-session.csv';
+
+const ReplayRowSchema = z.object({
+  timestamp: z.coerce.date(),
+  symbol: z.string().trim().min(1),
+  price: z.coerce.number().positive(),
+  volume: z.coerce.number().int().min(0).default(0),
+  prevClose: z.coerce.number().positive().optional(),
+});
+
+type ReplayRow = z.infer<typeof ReplayRowSchema>;
+
+interface ReplayState {
+  price: number;
+  prevClose: number;
+  volume: number; // 누적 거래량
+  timestamp: Date;
+}
+
+interface Subscription {
+  symbols: Set<string>;
+  listener: MarketTickListener;
+}
+
+const parseCsv = (content: string): Record<string, string>[] => {
+  const [header, ...lines] = content.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (!header) return [];
+  const columns = header.split(',').map((column) => column.trim());
+
+  return lines.map((line) => {
+    const cells = line.split(',');
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      const cell = cells[index]?.trim();
+      if (cell) row[column] = cell;
+    });
+    return row;
+  });
+};
+
+/**
+ * 재생 파일 로드 (시각 오름차순, 같은 시각은 파일 순서 유지)
+ */
+export function loadReplayFile(filePath: string): ReplayRow[] {
+  const content = readFileSync(filePath, 'utf-8');
+  const records: unknown[] = extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseCsv(content);
+  if (!Array.isArray(records)) {
+    throw new Error(`Replay file must contain an array of ticks: ${filePath}`);
+  }
+
+  const rows = records.map((record, index) => {
+    const result = ReplayRowSchema.safeParse(record);
+    if (!result.success) {
+      throw new Error(`Invalid replay tick at row ${index + 1} in ${filePath}: ${result.error.issues[0]?.message}`);
+    }
+    return result.data;
+  });
+
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => a.row.timestamp.getTime() - b.row.timestamp.getTime() || a.index - b.index)
+    .map(({ row }) => row);
+}
+
+export class ReplayMarketDataProvider implements MarketDataProvider {
+  readonly name = 'replay';
+
+  private readonly rows: ReplayRow[];
+  private readonly states = new Map<string, ReplayState>();
+  private readonly subscriptions = new Set<Subscription>();
+  private cursor = 0;
+  private startedAt: number | null = null; // 재생 시작 시각 (wall clock)
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    filePath: string = process.env.MARKET_REPLAY_FILE || DEFAULT_REPLAY_FILE,
+    private readonly speed: number = Number(process.env.MARKET_REPLAY_SPEED) || 1,
+    private readonly loop: boolean = process.env.MARKET_REPLAY_LOOP !== 'false'
+  ) {
+    const resolved = isAbsolute(filePath) ? filePath : join(process.cwd(), filePath);
+    this.rows = loadReplayFile(resolved);
+    if (this.speed <= 0) {
+      throw new Error(`MARKET_REPLAY_SPEED must be positive: ${this.speed}`);
+    }
+    logger.info(`Replay market data loaded: ${this.rows.length} ticks from ${resolved} (x${this.speed})`);
+  }
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    this.advance(Date.now());
+    const state = this.states.get(symbol);
+    if (!state) return null;
+
+    const change = state.price - state.prevClose;
+    return {
+      symbol,
+      price: state.price,
+      change: Number(change.toFixed(2)),
+      changeRate: Number(((change / state.prevClose) * 100).toFixed(2)),
+      volume: state.volume,
+      timestamp: state.timestamp,
+    };
+  }
+
+  async getQuotes(symbols: string[]): Promise<MarketQuote[]> {
+    const quotes = await Promise.all(symbols.map((symbol) => this.getQuote(symbol)));
+    return quotes.filter((quote): quote is MarketQuote => quote !== null);
+  }
+
+  subscribe(symbols: string[], listener: MarketTickListener): () => void {
+    const subscription: Subscription = { symbols: new Set(symbols), listener };
+    this.subscriptions.add(subscription);
+    this.advance(Date.now());
+    this.schedule();
+
+    return () => {
+      this.subscriptions.delete(subscription);
+      if (this.subscriptions.size === 0 && this.timer) {
+        clearTimeout(this.timer);
+        this.timer = null;
+      }
+    };
+  }
+
+  /**
+   * 재생 시계(now 기준)까지의 체결 반영
+   */
+  private advance(now: number, allowLoop: boolean = true): void {
+    if (this.rows.length === 0) return;
+    if (this.startedAt === null) this.startedAt = now;
+
+    const replayTime = this.replayTime(now);
+    while (this.cursor < this.rows.length && this.rows[this.cursor].timestamp.getTime() <= replayTime) {
+      this.apply(this.rows[this.cursor]);
+      this.cursor++;
+    }
+
+    if (this.cursor >= this.rows.length && this.loop && allowLoop) {
+      // 처음부터 다시 재생 (매 회차 같은 시세가 나오도록 상태 초기화)
+      this.cursor = 0;
+      this.startedAt = now;
+      this.states.clear();
+      this.advance(now, false);
+    }
+  }
+
+  private apply(row: ReplayRow): void {
+    const state = this.states.get(row.symbol);
+    this.states.set(row.symbol, {
+      price: row.price,
+      prevClose: row.prevClose ?? state?.prevClose ?? row.price,
+      volume: (state?.volume ?? 0) + row.volume,
+      timestamp: row.timestamp,
+    });
+
+    const tick: MarketTick = { symbol: row.symbol, price: row.price, volume: row.volume, timestamp: row.timestamp };
+    for (const subscription of this.subscriptions) {
+      if (!subscription.symbols.has(row.symbol)) continue;
+      try {
+        subscription.listener(tick);
+      } catch (error) {
+        logger.error('Replay tick listener error:', error);
+      }
+    }
+  }
+
+  async getDailyBars(symbol: string, from: Date, to: Date): Promise<MarketDailyBar[]> {
+    const bars = new Map<number, MarketDailyBar>();
+    for (const row of this.rows) {
+      if (row.symbol !== symbol || row.timestamp < from || row.timestamp > to) continue;
+
+      const date = toTradingDate(row.timestamp);
+      const bar = bars.get(date.getTime());
+      if (bar) {
+        bar.high = Math.max(bar.high, row.price);
+        bar.low = Math.min(bar.low, row.price);
+        bar.close = row.price;
+        bar.volume += row.volume;
+      } else {
+        bars.set(date.getTime(), {
+          symbol,
+          date,
+          open: row.price,
+          high: row.price,
+          low: row.price,
+          close: row.price,
+          volume: row.volume,
+        });
+      }
+    }
+
+    return [...bars.values()];
+  }
+
+  private replayTime(now: number): number {
+    return this.rows[0].timestamp.getTime() + (now - (this.startedAt ?? now)) * this.speed;
+  }
+
+  /**
+   * 다음 체결 시각에 맞춰 타이머 예약 (구독자가 있을 때만)
+   */
+  private schedule(): void {
+    if (this.timer || this.subscriptions.size === 0 || this.cursor >= this.rows.length) return;
+
+    const now = Date.now();
+    const delay = Math.max(0, (this.rows[this.cursor].timestamp.getTime() - this.replayTime(now)) / this.speed);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.advance(Date.now());
+      this.schedule();
+    }, delay);
+    this.timer.unref?.();
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Stub Alert Delivery Channel
+ * 로컬 개발용 발송 채널 (외부 호출 없이 로그만 기록)
+ */
+
+import { logger } from '../config/logger';
+import { AlertDeliveryChannel, AlertDeliveryMessage } from './AlertDeliveryChannel';
+
+export class StubAlertDeliveryChannel implements AlertDeliveryChannel {
+  readonly name = 'stub';
+
+  async deliver(message: AlertDeliveryMessage): Promise<void> {
+    logger.info(`[ALERT STUB] to=${message.userId} ${message.title} - ${message.message}`);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Webhook Alert Delivery Channel
+ * 설정된 URL로 알림을 JSON POST (이메일/메신저 게이트웨이 연동용)
+ */
+
+import axios from 'axios';
+import { AlertDeliveryChannel, AlertDeliveryMessage } from './AlertDeliveryChannel';
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+export class WebhookAlertDeliveryChannel implements AlertDeliveryChannel {
+  readonly name = 'webhook';
+
+  constructor(private readonly url: string) {}
+
+  async deliver(message: AlertDeliveryMessage): Promise<void> {
+    await axios.post(
+      this.url,
+      { ...message, createdAt: message.createdAt.toISOString() },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+  }
+}
@@ -96,7 +96,7 @@ export class QueueManager {
   createWorker(
     queueName: string,
     processor: (job: any) => Promise<any>,
-    options?: WorkerOptions
+    options?: Partial<WorkerOptions>
   ): Worker {
     if (this.workers.has(queueName)) {
       logger.warn(`Worker for queue ${queueName} already exists`);
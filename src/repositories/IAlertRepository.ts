@@ -0,0 +1,22 @@
+import { Alert, AlertCrossState, AlertEvent, AlertType } from '../entities/Alert';
+
+export interface AlertFilter {
+  stockId?: string;
+  isActive?: boolean;
+}
+
+export interface IAlertRepository {
+  findAll(userId: string, filter?: AlertFilter): Promise<Alert[]>; // 생성 역순
+  findById(id: string, userId?: string): Promise<Alert | null>; // userId 생략 시 소유자 확인 없이 조회 (워커용)
+  countByUser(userId: string): Promise<number>;
+  findActive(stockIds: string[], types: readonly AlertType[]): Promise<Alert[]>;
+  findActiveStockIds(types: readonly AlertType[]): Promise<string[]>; // 활성 알림이 걸린 종목
+  create(alert: Alert): Promise<Alert>;
+  update(id: string, data: Partial<Alert>): Promise<Alert>;
+  delete(id: string): Promise<void>;
+  updateState(id: string, state: AlertCrossState): Promise<void>;
+  claimTrigger(id: string, now: Date, cooldownSince: Date): Promise<boolean>; // 재발생 금지 시간이 지났을 때만 lastTriggeredAt 갱신 (동시 발생 방지)
+  findEventByKey(alertId: string, dedupKey: string): Promise<AlertEvent | null>;
+  createEvent(event: AlertEvent): Promise<AlertEvent>;
+  updateEventDeliveries(id: string, deliveries: Record<string, string>): Promise<void>;
+}
@@ -0,0 +1,12 @@
+import { Backtest } from '../entities/Backtest';
+
+export interface IBacktestRepository {
+  findAll(userId: string, filter?: { limit?: number; offset?: number }): Promise<{
+    data: Backtest[]; // trades/equityCurve 제외 (null)
+    total: number;
+  }>;
+  findById(id: string, userId?: string): Promise<Backtest | null>; // userId 생략 시 소유자 확인 없이 조회 (작업 처리용)
+  create(backtest: Backtest): Promise<Backtest>;
+  update(id: string, data: Partial<Backtest>): Promise<Backtest>;
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,25 @@
+import {
+  CorporateAction,
+  CorporateActionAdjustment,
+  CorporateActionStatus,
+  CorporateActionType,
+} from '../entities/CorporateAction';
+
+export interface CorporateActionFilter {
+  stockId?: string;
+  status?: CorporateActionStatus;
+  type?: CorporateActionType;
+}
+
+export interface ICorporateActionRepository {
+  findAll(filter?: CorporateActionFilter): Promise<CorporateAction[]>; // exDate 내림차순
+  findById(id: string): Promise<CorporateAction | null>;
+  findByKey(stockId: string, type: CorporateActionType, exDate: Date): Promise<CorporateAction | null>;
+  findDue(asOf: Date): Promise<CorporateAction[]>; // exDate <= asOf 인 pending, exDate 오름차순
+  findApplied(stockIds: string[]): Promise<CorporateAction[]>; // 적용 완료, exDate 오름차순
+  create(action: CorporateAction): Promise<CorporateAction>;
+  markApplied(id: string, adjustmentFactor: number): Promise<boolean>; // pending 상태일 때만 반영 (중복 적용 방지)
+  delete(id: string): Promise<void>;
+  findAdjustments(actionId: string): Promise<CorporateActionAdjustment[]>; // 생성 순
+  createAdjustments(adjustments: CorporateActionAdjustment[]): Promise<number>;
+}
@@ -0,0 +1,6 @@
+import { Dividend } from '../entities/Dividend';
+
+export interface IDividendRepository {
+  findByStocks(stockIds: string[], from?: Date, to?: Date): Promise<Dividend[]>; // 배당락일 기준 기간, 오름차순
+  upsertMany(dividends: Dividend[]): Promise<number>; // (stockId, exDate) 기준 upsert, 반영 건수 반환
+}
@@ -4,6 +4,12 @@ export interface IFavoriteRepository {
   findAll(userId: string): Promise<Favorite[]>;
   findById(id: string, userId: string): Promise<Favorite | null>;
   findByUserAndStock(userId: string, stockId: string): Promise<Favorite | null>;
+  findByStocks(userId: string, stockIds: string[]): Promise<Favorite[]>;
+  findByGroup(userId: string, groupId: string | null): Promise<Favorite[]>; // groupId null: 미분류, position 오름차순
+  countByGroups(userId: string): Promise<Map<string | null, number>>; // 그룹별 종목 수 (null: 미분류)
+  maxPosition(userId: string, groupId: string | null): Promise<number>; // 종목이 없으면 -1
   create(favorite: Favorite): Promise<Favorite>;
+  update(id: string, data: Partial<Pick<Favorite, 'groupId' | 'position' | 'memo' | 'targetPrice'>>): Promise<Favorite>;
   delete(id: string): Promise<void>;
+  deleteMany(ids: string[]): Promise<number>;
 }
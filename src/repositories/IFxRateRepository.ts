@@ -0,0 +1,7 @@
+import { FxPair, FxRate } from '../entities/FxRate';
+
+export interface IFxRateRepository {
+  findByPair(pair: FxPair, from?: Date, to?: Date): Promise<FxRate[]>; // 날짜 오름차순
+  findLatest(pair: FxPair): Promise<FxRate | null>;
+  upsertMany(rates: FxRate[]): Promise<number>; // (pair, date) 기준 upsert, 반영 건수 반환
+}
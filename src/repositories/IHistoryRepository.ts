@@ -7,6 +7,8 @@ export interface IHistoryRepository {
   }>;
   findById(id: string, userId: string): Promise<History | null>;
   findByUserAndStock(userId: string, stockId: string, hours?: number): Promise<History | null>;
+  findSince(userId: string, since: Date, limit: number): Promise<History[]>; // 조회 시각 오름차순, 최근 limit건
+  findLatestPerStock(userId: string, limit: number): Promise<History[]>; // 종목별 마지막 기록 (최근 순)
   create(history: History): Promise<History>;
   deleteAll(userId: string): Promise<void>;
 }
@@ -0,0 +1,7 @@
+import { IndexPrice, MarketIndexCode } from '../entities/IndexPrice';
+
+export interface IIndexPriceRepository {
+  findByCode(code: MarketIndexCode, from: Date, to?: Date): Promise<IndexPrice[]>; // 날짜 오름차순
+  findLatest(code: MarketIndexCode): Promise<IndexPrice | null>;
+  upsertMany(prices: IndexPrice[]): Promise<number>; // (code, date) 기준 upsert, 반영 건수 반환
+}
@@ -16,5 +16,6 @@ export interface INewsRepository {
     total: number;
   }>;
   getStockCodesByNewsId(newsId: string): Promise<string[]>;
+  findWithStockIds(ids: string[]): Promise<Array<News & { stockIds: string[] }>>;
+  create(news: News, stockIds: string[]): Promise<(News & { stockIds: string[] }) | null>; // 같은 URL이 이미 있으면 null
 }
-
@@ -0,0 +1,24 @@
+import { Notification, NotificationPreference, NotificationType } from '../entities/Notification';
+
+export interface NotificationFilter {
+  type?: NotificationType;
+  unreadOnly?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface INotificationRepository {
+  findAll(userId: string, filter?: NotificationFilter): Promise<{
+    data: Notification[]; // 생성 역순
+    total: number;
+    unread: number; // 유형 필터와 무관한 전체 안 읽은 수
+  }>;
+  findById(id: string, userId: string): Promise<Notification | null>;
+  existsByDedupKey(userId: string, dedupKey: string): Promise<boolean>;
+  countUnread(userId: string): Promise<number>;
+  create(notification: Notification): Promise<Notification>;
+  markRead(userId: string, ids?: string[]): Promise<number>; // ids 생략 시 전체, 반영 건수
+  delete(id: string): Promise<void>;
+  findPreferences(userId: string): Promise<NotificationPreference[]>; // 저장된 유형만
+  upsertPreferences(preferences: NotificationPreference[]): Promise<void>;
+}
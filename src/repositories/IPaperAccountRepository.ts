@@ -0,0 +1,9 @@
+import { PaperAccount } from '../entities/PaperAccount';
+
+export interface IPaperAccountRepository {
+  findByUser(userId: string): Promise<PaperAccount | null>;
+  findById(id: string): Promise<PaperAccount | null>;
+  create(account: PaperAccount): Promise<PaperAccount>;
+  adjustCash(id: string, delta: number): Promise<boolean>; // 잔고가 음수가 되면 반영하지 않고 false
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,20 @@
+import { PaperOrder, PaperOrderStatus } from '../entities/PaperOrder';
+
+export interface PaperOrderFilter {
+  status?: PaperOrderStatus;
+  stockId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface IPaperOrderRepository {
+  findAll(userId: string, filter?: PaperOrderFilter): Promise<{
+    data: PaperOrder[];
+    total: number;
+  }>;
+  findById(id: string, userId: string): Promise<PaperOrder | null>;
+  findOpen(paperAccountId?: string): Promise<PaperOrder[]>; // 접수 순, 계좌 생략 시 전체
+  create(order: PaperOrder): Promise<PaperOrder>;
+  updateIfOpen(id: string, data: Partial<PaperOrder>): Promise<boolean>; // 미체결 상태일 때만 반영 (중복 체결 방지)
+  applySplit(stockId: string, ratio: number): Promise<number>; // 미체결 주문 수량 × ratio, 지정가/발동가 ÷ ratio, 반영 건수
+}
@@ -0,0 +1,12 @@
+import { PortfolioAccount } from '../entities/PortfolioAccount';
+
+export interface IPortfolioAccountRepository {
+  findAll(userId: string): Promise<PortfolioAccount[]>; // 기본 계좌 → 생성 순
+  findById(id: string, userId: string): Promise<PortfolioAccount | null>;
+  findByName(userId: string, name: string): Promise<PortfolioAccount | null>;
+  findDefault(userId: string): Promise<PortfolioAccount | null>;
+  create(account: PortfolioAccount): Promise<PortfolioAccount>;
+  update(id: string, data: Partial<PortfolioAccount>): Promise<PortfolioAccount>;
+  clearDefault(userId: string): Promise<void>;
+  delete(id: string): Promise<void>;
+}
@@ -1,10 +1,11 @@
 import { Portfolio } from '../entities/Portfolio';
 
 export interface IPortfolioRepository {
-  findAll(userId: string): Promise<Portfolio[]>;
+  findAll(userId: string, accountId?: string): Promise<Portfolio[]>; // accountId 생략 시 전체 계좌
   findById(id: string, userId: string): Promise<Portfolio | null>;
-  findByUserAndStock(userId: string, stockId: string): Promise<Portfolio | null>;
+  findByAccountAndStock(userId: string, accountId: string | null, stockId: string): Promise<Portfolio | null>;
   create(portfolio: Portfolio): Promise<Portfolio>;
   update(id: string, portfolio: Partial<Portfolio>): Promise<Portfolio>;
+  assignAccount(userId: string, accountId: string): Promise<number>; // 계좌 미지정 행 이관
   delete(id: string): Promise<void>;
 }
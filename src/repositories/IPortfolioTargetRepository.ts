@@ -0,0 +1,7 @@
+import { PortfolioTarget } from '../entities/PortfolioTarget';
+
+export interface IPortfolioTargetRepository {
+  findByUser(userId: string): Promise<PortfolioTarget[]>; // 비중 내림차순
+  createMany(targets: PortfolioTarget[]): Promise<number>;
+  deleteByUser(userId: string): Promise<void>;
+}
@@ -0,0 +1,26 @@
+import { PortfolioTransaction, PortfolioTransactionType } from '../entities/PortfolioTransaction';
+
+export interface PortfolioTransactionFilter {
+  accountId?: string;
+  stockId?: string;
+  type?: PortfolioTransactionType;
+  limit?: number;
+  offset?: number;
+}
+
+export interface IPortfolioTransactionRepository {
+  findAll(userId: string, filter?: PortfolioTransactionFilter): Promise<{
+    data: PortfolioTransaction[];
+    total: number;
+  }>;
+  findById(id: string, userId: string): Promise<PortfolioTransaction | null>;
+  findByAccountAndStock(userId: string, accountId: string, stockId: string): Promise<PortfolioTransaction[]>; // 체결 시각 오름차순
+  create(transaction: PortfolioTransaction): Promise<PortfolioTransaction>;
+  createMany(transactions: PortfolioTransaction[]): Promise<number>; // 생성 건수 반환
+  update(id: string, data: Partial<PortfolioTransaction>): Promise<PortfolioTransaction>;
+  delete(id: string): Promise<void>;
+  deleteByAccountAndStock(userId: string, accountId: string, stockId: string): Promise<void>;
+  assignAccount(userId: string, accountId: string): Promise<number>; // 계좌 미지정 거래 이관
+  findAccountsByStock(stockId: string, before: Date): Promise<Array<{ userId: string; accountId: string }>>; // before 이전 거래가 있는 계좌 (계좌 미지정 거래 제외)
+  countUnassignedByStock(stockId: string): Promise<number>; // 계좌 미지정(이관 전) 거래 수
+}
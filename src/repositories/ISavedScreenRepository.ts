@@ -0,0 +1,10 @@
+import { SavedScreen } from '../entities/SavedScreen';
+
+export interface ISavedScreenRepository {
+  findByUser(userId: string): Promise<SavedScreen[]>; // 최근 수정순
+  findById(id: string, userId: string): Promise<SavedScreen | null>;
+  findByName(userId: string, name: string): Promise<SavedScreen | null>;
+  create(screen: SavedScreen): Promise<SavedScreen>;
+  update(id: string, data: Partial<Pick<SavedScreen, 'name' | 'filter' | 'sort'>>): Promise<SavedScreen>;
+  delete(id: string): Promise<void>;
+}
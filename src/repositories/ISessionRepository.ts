@@ -0,0 +1,10 @@
+import { Session } from '../entities/Session';
+
+export interface ISessionRepository {
+  findById(id: string): Promise<Session | null>;
+  findActive(userId: string, now: Date): Promise<Session[]>; // 최근 사용 순
+  create(session: Session): Promise<Session>;
+  rotate(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<boolean>; // currentHash가 일치할 때만 교체 (동시 회전 방지)
+  revoke(id: string): Promise<void>;
+  revokeAll(userId: string): Promise<number>; // 폐기 건수
+}
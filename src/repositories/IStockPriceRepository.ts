@@ -0,0 +1,9 @@
+import { StockPrice } from '../entities/StockPrice';
+
+export interface IStockPriceRepository {
+  findByStock(stockId: string, from: Date, to?: Date): Promise<StockPrice[]>; // 날짜 오름차순
+  findByStocks(stockIds: string[], from: Date, to?: Date): Promise<StockPrice[]>; // Batch query 최적화
+  findLatestBefore(stockId: string, before: Date, limit: number): Promise<StockPrice[]>; // before 이전 최근 limit개, 날짜 오름차순
+  upsertMany(prices: StockPrice[]): Promise<number>; // [stockId, date] 기준 upsert, 반영 건수
+  applyAdjustment(stockId: string, before: Date, factor: number): Promise<number>; // before 이전 일봉의 adjFactor에 factor 누적, 반영 건수
+}
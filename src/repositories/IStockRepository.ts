@@ -5,4 +5,7 @@ export interface IStockRepository {
   findByCode(code: string): Promise<Stock | null>;
   findByCodes(codes: string[]): Promise<Stock[]>; // Batch query 최적화
   findMany(ids: string[]): Promise<Stock[]>;
+  findAll(): Promise<Stock[]>; // 전체 종목 (스크리너용, 코드순)
+  search(query: string, limit: number): Promise<Stock[]>; // 종목명 부분 일치 또는 코드 prefix
+  updateQuote(id: string, quote: Pick<Stock, 'currentPrice' | 'change' | 'changeRate' | 'volume'>): Promise<void>;
 }
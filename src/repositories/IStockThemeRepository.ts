@@ -0,0 +1,13 @@
+import { StockTheme } from '../entities/StockTheme';
+
+export interface IStockThemeRepository {
+  findAll(includeInactive?: boolean): Promise<StockTheme[]>; // sortOrder, name 순
+  findById(id: string): Promise<StockTheme | null>;
+  findByName(name: string): Promise<StockTheme | null>;
+  create(theme: StockTheme): Promise<StockTheme>; // stockIds 포함
+  update(id: string, data: Partial<Pick<StockTheme, 'name' | 'description' | 'sortOrder' | 'isActive'>>): Promise<StockTheme>;
+  delete(id: string): Promise<void>;
+  replaceMembers(themeId: string, stockIds: string[]): Promise<StockTheme>; // 전달 순서대로 교체 (트랜잭션 안에서 호출)
+  addMembers(themeId: string, stockIds: string[]): Promise<StockTheme>; // 기존 종목은 유지, 새 종목은 마지막에 추가
+  removeMember(themeId: string, stockId: string): Promise<boolean>;
+}
@@ -0,0 +1,7 @@
+import { StockTick } from '../entities/StockTick';
+
+export interface IStockTickRepository {
+  findByStock(stockId: string, from: Date, to?: Date): Promise<StockTick[]>; // 시각 오름차순
+  createMany(ticks: StockTick[]): Promise<number>; // 생성 건수 반환
+  deleteBefore(before: Date): Promise<number>; // 삭제 건수 반환
+}
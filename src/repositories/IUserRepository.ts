@@ -0,0 +1,7 @@
+import { User } from '../entities/User';
+
+export interface IUserRepository {
+  findById(id: string): Promise<User | null>;
+  findByEmail(email: string): Promise<User | null>;
+  create(user: User): Promise<User>;
+}
@@ -0,0 +1,12 @@
+import { WatchlistGroup } from '../entities/WatchlistGroup';
+
+export interface IWatchlistGroupRepository {
+  findAll(userId: string): Promise<WatchlistGroup[]>; // position 오름차순
+  findById(id: string, userId: string): Promise<WatchlistGroup | null>;
+  findByName(userId: string, name: string): Promise<WatchlistGroup | null>;
+  countByUser(userId: string): Promise<number>;
+  maxPosition(userId: string): Promise<number>; // 그룹이 없으면 -1
+  create(group: WatchlistGroup): Promise<WatchlistGroup>;
+  update(id: string, data: Partial<Pick<WatchlistGroup, 'name' | 'position'>>): Promise<WatchlistGroup>;
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,50 @@
+import { FastifyPluginAsync } from 'fastify';
+import { CorporateActionController } from '../controllers/CorporateActionController';
+import { CorporateActionService } from '../services/CorporateActionService';
+import { CorporateActionRepositoryAdapter } from '../adapters/CorporateActionRepositoryAdapter';
+import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { StockPriceRepositoryAdapter } from '../adapters/StockPriceRepositoryAdapter';
+import { PortfolioTransactionRepositoryAdapter } from '../adapters/PortfolioTransactionRepositoryAdapter';
+import { authenticate, requireAdmin } from '../middlewares/auth';
+
+// Dependency Injection
+const corporateActionRepository = new CorporateActionRepositoryAdapter();
+const stockRepository = new StockRepositoryAdapter();
+const stockPriceRepository = new StockPriceRepositoryAdapter();
+const portfolioTransactionRepository = new PortfolioTransactionRepositoryAdapter();
+const corporateActionFacade = new CorporateActionService(
+  corporateActionRepository,
+  stockRepository,
+  stockPriceRepository,
+  portfolioTransactionRepository
+);
+const corporateActionController = new CorporateActionController(corporateActionFacade);
+
+const routes: FastifyPluginAsync = async (fastify) => {
+  // Admin 전용 (인증 → 권한 확인 순서)
+  fastify.addHook('onRequest', authenticate);
+  fastify.addHook('onRequest', requireAdmin);
+
+  fastify.get('/', async (request, reply) => {
+    await corporateActionController.getActions(request, reply);
+  });
+
+  fastify.post('/', async (request, reply) => {
+    await corporateActionController.createAction(request, reply);
+  });
+
+  fastify.get('/:id', async (request, reply) => {
+    await corporateActionController.getAction(request, reply);
+  });
+
+  // 기준일 이후 즉시 적용 (예정 이벤트는 매 거래일 장 시작 전 자동 적용)
+  fastify.post('/:id/apply', async (request, reply) => {
+    await corporateActionController.applyAction(request, reply);
+  });
+
+  fastify.delete('/:id', async (request, reply) => {
+    await corporateActionController.deleteAction(request, reply);
+  });
+};
+
+export default routes;
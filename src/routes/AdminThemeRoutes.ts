@@ -0,0 +1,53 @@
+import { FastifyPluginAsync } from 'fastify';
+import { StockThemeController } from '../controllers/StockThemeController';
+import { StockThemeService } from '../services/StockThemeService';
+import { StockThemeRepositoryAdapter } from '../adapters/StockThemeRepositoryAdapter';
+import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { authenticate, requireAdmin } from '../middlewares/auth';
+
+// Dependency Injection
+const stockThemeRepository = new StockThemeRepositoryAdapter();
+const stockRepository = new StockRepositoryAdapter();
+const stockThemeFacade = new StockThemeService(stockThemeRepository, stockRepository);
+const stockThemeController = new StockThemeController(stockThemeFacade, true);
+
+const routes: FastifyPluginAsync = async (fastify) => {
+  // Admin 전용 (인증 → 권한 확인 순서)
+  fastify.addHook('onRequest', authenticate);
+  fastify.addHook('onRequest', requireAdmin);
+
+  fastify.get('/', async (request, reply) => {
+    await stockThemeController.getThemes(request, reply);
+  });
+
+  fastify.post('/', async (request, reply) => {
+    await stockThemeController.createTheme(request, reply);
+  });
+
+  fastify.get('/:id', async (request, reply) => {
+    await stockThemeController.getTheme(request, reply);
+  });
+
+  fastify.put('/:id', async (request, reply) => {
+    await stockThemeController.updateTheme(request, reply);
+  });
+
+  fastify.delete('/:id', async (request, reply) => {
+    await stockThemeController.deleteTheme(request, reply);
+  });
+
+  // 구성 종목 (PUT: 전체 교체, POST: 추가)
+  fastify.put('/:id/stocks', async (request, reply) => {
+    await stockThemeController.replaceThemeStocks(request, reply);
+  });
+
+  fastify.post('/:id/stocks', async (request, reply) => {
+    await stockThemeController.addThemeStocks(request, reply);
+  });
+
+  fastify.delete('/:id/stocks/:stockId', async (request, reply) => {
+    await stockThemeController.removeThemeStock(request, reply);
+  });
+};
+
+export default routes;
@@ -0,0 +1,55 @@
+import { FastifyPluginAsync } from 'fastify';
+import { AlertController } from '../controllers/AlertController';
+import { AlertService } from '../services/AlertService';
+import { AlertRepositoryAdapter } from '../adapters/AlertRepositoryAdapter';
+import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { StockPriceRepositoryAdapter } from '../adapters/StockPriceRepositoryAdapter';
+import { NewsRepositoryAdapter } from '../adapters/NewsRepositoryAdapter';
+import { NotificationRepositoryAdapter } from '../adapters/NotificationRepositoryAdapter';
+import { NotificationService } from '../services/NotificationService';
+import { authenticate } from '../middlewares/auth';
+
+// Dependency Injection
+const alertRepository = new AlertRepositoryAdapter();
+const stockRepository = new StockRepositoryAdapter();
+const stockPriceRepository = new StockPriceRepositoryAdapter();
+const newsRepository = new NewsRepositoryAdapter();
+const notificationService = new NotificationService(new NotificationRepositoryAdapter());
+const alertService = new AlertService(
+  alertRepository,
+  stockRepository,
+  stockPriceRepository,
+  newsRepository,
+  notificationService
+);
+const alertController = new AlertController(alertService);
+
+const routes: FastifyPluginAsync = async (fastify) => {
+  // 알림 평가 워커
+  alertService.registerWorker();
+
+  // Auth hook for all routes
+  fastify.addHook('onRequest', authenticate);
+
+  fastify.get('/', async (request, reply) => {
+    await alertController.getAlerts(request, reply);
+  });
+
+  fastify.post('/', async (request, reply) => {
+    await alertController.createAlert(request, reply);
+  });
+
+  fastify.get('/:id', async (request, reply) => {
+    await alertController.getAlert(request, reply);
+  });
+
+  fastify.put('/:id', async (request, reply) => {
+    await alertController.updateAlert(request, reply);
+  });
+
+  fastify.delete('/:id', async (request, reply) => {
+    await alertController.deleteAlert(request, reply);
+  });
+};
+
+export default routes;
@@ -0,0 +1,41 @@
+import { FastifyPluginAsync } from 'fastify';
+import { AuthController } from '../controllers/AuthController';
+import { AuthService } from '../services/AuthService';
+import { UserRepositoryAdapter } from '../adapters/UserRepositoryAdapter';
+import { SessionRepositoryAdapter } from '../adapters/SessionRepositoryAdapter';
+import { authenticate } from '../middlewares/auth';
+
+// Dependency Injection
+const userRepository = new UserRepositoryAdapter();
+const sessionRepository = new SessionRepositoryAdapter();
+const authFacade = new AuthService(userRepository, sessionRepository);
+const authController = new AuthController(authFacade);
+
+const routes: FastifyPluginAsync = async (fastify) => {
+  // 토큰 발급/폐기는 인증 없이 (refresh token으로 세션 식별)
+  fastify.post('/signup', async (request, reply) => {
+    await authController.signup(request, reply);
+  });
+
+  fastify.post('/login', async (request, reply) => {
+    await authController.login(request, reply);
+  });
+
+  fastify.post('/refresh', async (request, reply) => {
+    await authController.refresh(request, reply);
+  });
+
+  fastify.post('/logout', async (request, reply) => {
+    await authController.logout(request, reply);
+  });
+
+  fastify.post('/logout-all', { onRequest: authenticate }, async (request, reply) => {
+    await authController.revokeAll(request, reply);
+  });
+
+  fastify.get('/me', { onRequest: authenticate }, async (request, reply) => {
+    await authController.getMe(request, reply);
+  });
+};
+
+export default routes;
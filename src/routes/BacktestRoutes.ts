@@ -0,0 +1,48 @@
+import { FastifyPluginAsync } from 'fastify';
+import { BacktestController } from '../controllers/BacktestController';
+import { BacktestService } from '../services/BacktestService';
+import { BacktestRepositoryAdapter } from '../adapters/BacktestRepositoryAdapter';
+import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { StockPriceRepositoryAdapter } from '../adapters/StockPriceRepositoryAdapter';
+import { NotificationRepositoryAdapter } from '../adapters/NotificationRepositoryAdapter';
+import { NotificationService } from '../services/NotificationService';
+import { authenticate } from '../middlewares/auth';
+
+// Dependency Injection
+const backtestRepository = new BacktestRepositoryAdapter();
+const stockRepository = new StockRepositoryAdapter();
+const stockPriceRepository = new StockPriceRepositoryAdapter();
+const notificationService = new NotificationService(new NotificationRepositoryAdapter());
+const backtestService = new BacktestService(
+  backtestRepository,
+  stockRepository,
+  stockPriceRepository,
+  notificationService
+);
+const backtestController = new BacktestController(backtestService);
+
+const routes: FastifyPluginAsync = async (fastify) => {
+  // 백테스트 실행 워커
+  backtestService.registerWorker();
+
+  // Auth hook for all routes
+  fastify.addHook('onRequest', authenticate);
+
+  fastify.post('/', async (request, reply) => {
+    await backtestController.createBacktest(request, reply);
+  });
+
+  fastify.get('/', async (request, reply) => {
+    await backtestController.getBacktests(request, reply);
+  });
+
+  fastify.get('/:id', async (request, reply) => {
+    await backtestController.getBacktest(request, reply);
+  });
+
+  fastify.delete('/:id', async (request, reply) => {
+    await backtestController.deleteBacktest(request, reply);
+  });
+};
+
+export default routes;
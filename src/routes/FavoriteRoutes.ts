@@ -1,7 +1,10 @@
 import { FastifyPluginAsync } from 'fastify';
 import { FavoriteController } from '../controllers/FavoriteController';
+import { WatchlistGroupController } from '../controllers/WatchlistGroupController';
 import { FavoriteService } from '../services/FavoriteService';
+import { WatchlistGroupService } from '../services/WatchlistGroupService';
 import { FavoriteRepositoryAdapter } from '../adapters/FavoriteRepositoryAdapter';
+import { WatchlistGroupRepositoryAdapter } from '../adapters/WatchlistGroupRepositoryAdapter';
 import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
 import { authenticate } from '../middlewares/auth';
 
@@ -10,6 +13,9 @@ const favoriteRepository = new FavoriteRepositoryAdapter();
 const stockRepository = new StockRepositoryAdapter();
 const favoriteFacade = new FavoriteService(favoriteRepository, stockRepository);
 const favoriteController = new FavoriteController(favoriteFacade);
+const watchlistGroupRepository = new WatchlistGroupRepositoryAdapter();
+const watchlistGroupFacade = new WatchlistGroupService(watchlistGroupRepository, favoriteRepository, stockRepository);
+const watchlistGroupController = new WatchlistGroupController(watchlistGroupFacade);
 
 const routes: FastifyPluginAsync = async (fastify) => {
   // Auth hook for all routes
@@ -23,6 +29,55 @@ const routes: FastifyPluginAsync = async (fastify) => {
     await favoriteController.addFavorite(request, reply);
   });
 
+  // Watchlist groups (':id' 자리에 'ungrouped' 사용 시 미분류 종목)
+  fastify.get('/groups', async (request, reply) => {
+    await watchlistGroupController.getGroups(request, reply);
+  });
+
+  fastify.post('/groups', async (request, reply) => {
+    await watchlistGroupController.createGroup(request, reply);
+  });
+
+  fastify.put('/groups/order', async (request, reply) => {
+    await watchlistGroupController.reorderGroups(request, reply);
+  });
+
+  fastify.get('/groups/:id', async (request, reply) => {
+    await watchlistGroupController.getGroup(request, reply);
+  });
+
+  fastify.put('/groups/:id', async (request, reply) => {
+    await watchlistGroupController.updateGroup(request, reply);
+  });
+
+  fastify.delete('/groups/:id', async (request, reply) => {
+    await watchlistGroupController.deleteGroup(request, reply);
+  });
+
+  fastify.get('/groups/:id/snapshot', async (request, reply) => {
+    await watchlistGroupController.getSnapshot(request, reply);
+  });
+
+  fastify.post('/groups/:id/items', async (request, reply) => {
+    await watchlistGroupController.addItems(request, reply);
+  });
+
+  fastify.post('/groups/:id/items/remove', async (request, reply) => {
+    await watchlistGroupController.removeItems(request, reply);
+  });
+
+  fastify.post('/groups/:id/items/move', async (request, reply) => {
+    await watchlistGroupController.moveItems(request, reply);
+  });
+
+  fastify.put('/groups/:id/items/order', async (request, reply) => {
+    await watchlistGroupController.reorderItems(request, reply);
+  });
+
+  fastify.put('/:id', async (request, reply) => {
+    await favoriteController.updateFavorite(request, reply);
+  });
+
   fastify.delete('/:id', async (request, reply) => {
     await favoriteController.removeFavorite(request, reply);
   });
@@ -20,6 +20,14 @@ const routes: FastifyPluginAsync = async (fastify) => {
     await historyController.findRecent(request, reply);
   });
 
+  fastify.get('/insights', async (request, reply) => {
+    await historyController.getInsights(request, reply);
+  });
+
+  fastify.get('/continue', async (request, reply) => {
+    await historyController.getContinueViewing(request, reply);
+  });
+
   fastify.get('/', async (request, reply) => {
     await historyController.getHistory(request, reply);
   });
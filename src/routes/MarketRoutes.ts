@@ -1,11 +1,16 @@
 import { FastifyPluginAsync } from 'fastify';
 import { MarketController } from '../controllers/MarketController';
 import { MarketService } from '../services/MarketService';
+import { MarketStreamService } from '../services/MarketStreamService';
+import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
 import { logger } from '../config/logger';
 
 // Dependency Injection
 const marketFacade = new MarketService();
 const marketController = new MarketController(marketFacade);
+const stockRepository = new StockRepositoryAdapter();
+// 모든 스트림 연결이 공유하는 시세 구독 허브
+const marketStream = new MarketStreamService(marketFacade, stockRepository);
 
 const routes: FastifyPluginAsync = async (fastify) => {
   // Market routes don't require authentication
@@ -27,10 +32,10 @@ const routes: FastifyPluginAsync = async (fastify) => {
   });
 
   // WebSocket 스트림 엔드포인트
+  // 시장 요약은 전체 연결에 10초마다, 종목 체결은 subscribe한 코드만 전송
+  // 클라이언트 메시지: { action: 'subscribe' | 'unsubscribe', codes: ['005930', ...] }, { action: 'ping' }
   // @ts-ignore - @fastify/websocket 타입 정의 문제로 인한 임시 처리
   fastify.get('/stream', { websocket: true }, async (connection: any, request: any) => {
-    logger.info('Market WebSocket connection opened');
-    
     // socket 참조를 안전하게 저장 (Fastify WebSocket의 경우 connection 자체가 socket일 수 있음)
     const socket = connection?.socket || connection;
     if (!socket) {
@@ -38,91 +43,8 @@ const routes: FastifyPluginAsync = async (fastify) => {
       return;
     }
 
-    let interval: NodeJS.Timeout | null = null;
-    let isClosed = false;
-
-    // 연결 성공 시 초기 데이터 전송
-    try {
-      const initialData = await marketFacade.getMarketData();
-      if (socket.readyState === 1) { // WebSocket.OPEN
-        socket.send(JSON.stringify({
-          kospi: initialData.kospi,
-          kosdaq: initialData.kosdaq,
-          usdKrw: initialData.usdKrw,
-        }));
-      }
-    } catch (error) {
-      logger.error('Failed to send initial market data:', error);
-    }
-
-    // 주기적으로 Market 데이터 업데이트 전송 (10초마다)
-    interval = setInterval(async () => {
-      try {
-        // 연결이 닫혔거나 유효하지 않으면 interval 정리
-        if (isClosed || !socket || socket.readyState !== 1) {
-          if (interval) {
-            clearInterval(interval);
-            interval = null;
-          }
-          return;
-        }
-
-        const data = await marketFacade.getMarketData();
-        if (socket.readyState === 1) {
-          socket.send(JSON.stringify({
-            kospi: data.kospi,
-            kosdaq: data.kosdaq,
-            usdKrw: data.usdKrw,
-          }));
-        }
-      } catch (error) {
-        logger.error('Failed to send market data update:', error);
-        // 에러 발생 시 interval 정리
-        if (interval) {
-          clearInterval(interval);
-          interval = null;
-        }
-      }
-    }, 10000); // 10초마다 업데이트
-
-    // 클라이언트로부터 메시지 수신 (구독 요청 등)
-    socket.on('message', (message: any) => {
-      try {
-        const data = JSON.parse(message.toString());
-        if (data.action === 'subscribe') {
-          logger.info('Market WebSocket subscription received:', data.channels);
-          // 구독 확인 메시지 전송
-          if (!isClosed && socket && socket.readyState === 1) {
-            socket.send(JSON.stringify({
-              type: 'subscribed',
-              channels: data.channels || ['kospi', 'kosdaq', 'usdKrw'],
-            }));
-          }
-        }
-      } catch (error) {
-        logger.warn('Invalid WebSocket message received:', error);
-      }
-    });
-
-    // 연결 종료 시 정리
-    socket.on('close', () => {
-      logger.info('Market WebSocket connection closed');
-      isClosed = true;
-      if (interval) {
-        clearInterval(interval);
-        interval = null;
-      }
-    });
-
-    // 에러 처리
-    socket.on('error', (error: any) => {
-      logger.error('Market WebSocket error:', error);
-      isClosed = true;
-      if (interval) {
-        clearInterval(interval);
-        interval = null;
-      }
-    });
+    logger.info('Market WebSocket connection opened');
+    await marketStream.handleConnection(socket);
   });
 };
 
@@ -0,0 +1,43 @@
+import { FastifyPluginAsync } from 'fastify';
+import { NotificationController } from '../controllers/NotificationController';
+import { NotificationService } from '../services/NotificationService';
+import { NotificationRepositoryAdapter } from '../adapters/NotificationRepositoryAdapter';
+import { authenticate } from '../middlewares/auth';
+
+// Dependency Injection
+const notificationRepository = new NotificationRepositoryAdapter();
+const notificationService = new NotificationService(notificationRepository);
+const notificationController = new NotificationController(notificationService);
+
+const routes: FastifyPluginAsync = async (fastify) => {
+  // Auth hook for all routes
+  fastify.addHook('onRequest', authenticate);
+
+  // 알림 목록 (?type=&unreadOnly=true&limit=&offset= / meta.unread: 안 읽은 수)
+  fastify.get('/', async (request, reply) => {
+    await notificationController.getNotifications(request, reply);
+  });
+
+  fastify.post('/read-all', async (request, reply) => {
+    await notificationController.markAllRead(request, reply);
+  });
+
+  // 유형별 수신 설정
+  fastify.get('/preferences', async (request, reply) => {
+    await notificationController.getPreferences(request, reply);
+  });
+
+  fastify.put('/preferences', async (request, reply) => {
+    await notificationController.updatePreferences(request, reply);
+  });
+
+  fastify.post('/:id/read', async (request, reply) => {
+    await notificationController.markRead(request, reply);
+  });
+
+  fastify.delete('/:id', async (request, reply) => {
+    await notificationController.deleteNotification(request, reply);
+  });
+};
+
+export default routes;
@@ -0,0 +1,60 @@
+import { FastifyPluginAsync } from 'fastify';
+import { PaperTradingController } from '../controllers/PaperTradingController';
+import { PaperTradingService } from '../services/PaperTradingService';
+import { PaperAccountRepositoryAdapter } from '../adapters/PaperAccountRepositoryAdapter';
+import { PaperOrderRepositoryAdapter } from '../adapters/PaperOrderRepositoryAdapter';
+import { PortfolioRepositoryAdapter } from '../adapters/PortfolioRepositoryAdapter';
+import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { StockPriceRepositoryAdapter } from '../adapters/StockPriceRepositoryAdapter';
+import { CorporateActionRepositoryAdapter } from '../adapters/CorporateActionRepositoryAdapter';
+import { authenticate } from '../middlewares/auth';
+
+// Dependency Injection
+const paperAccountRepository = new PaperAccountRepositoryAdapter();
+const paperOrderRepository = new PaperOrderRepositoryAdapter();
+const portfolioRepository = new PortfolioRepositoryAdapter();
+const stockRepository = new StockRepositoryAdapter();
+const stockPriceRepository = new StockPriceRepositoryAdapter();
+const corporateActionRepository = new CorporateActionRepositoryAdapter();
+const paperTradingFacade = new PaperTradingService(
+  paperAccountRepository,
+  paperOrderRepository,
+  portfolioRepository,
+  stockRepository,
+  stockPriceRepository,
+  corporateActionRepository
+);
+const paperTradingController = new PaperTradingController(paperTradingFacade);
+
+const routes: FastifyPluginAsync = async (fastify) => {
+  // Auth hook for all routes
+  fastify.addHook('onRequest', authenticate);
+
+  // 가상 현금 계좌 (사용자당 1개)
+  fastify.get('/account', async (request, reply) => {
+    await paperTradingController.getAccount(request, reply);
+  });
+
+  fastify.post('/account', async (request, reply) => {
+    await paperTradingController.openAccount(request, reply);
+  });
+
+  fastify.delete('/account', async (request, reply) => {
+    await paperTradingController.closeAccount(request, reply);
+  });
+
+  // 주문 (market 즉시 체결, limit/stop은 매칭 작업이 체결)
+  fastify.get('/orders', async (request, reply) => {
+    await paperTradingController.getOrders(request, reply);
+  });
+
+  fastify.post('/orders', async (request, reply) => {
+    await paperTradingController.placeOrder(request, reply);
+  });
+
+  fastify.delete('/orders/:id', async (request, reply) => {
+    await paperTradingController.cancelOrder(request, reply);
+  });
+};
+
+export default routes;
@@ -3,27 +3,135 @@ import { PortfolioController } from '../controllers/PortfolioController';
 import { PortfolioService } from '../services/PortfolioService';
 import { PortfolioRepositoryAdapter } from '../adapters/PortfolioRepositoryAdapter';
 import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { PortfolioTransactionRepositoryAdapter } from '../adapters/PortfolioTransactionRepositoryAdapter';
+import { StockPriceRepositoryAdapter } from '../adapters/StockPriceRepositoryAdapter';
+import { IndexPriceRepositoryAdapter } from '../adapters/IndexPriceRepositoryAdapter';
+import { PortfolioTargetRepositoryAdapter } from '../adapters/PortfolioTargetRepositoryAdapter';
+import { FxRateRepositoryAdapter } from '../adapters/FxRateRepositoryAdapter';
+import { PortfolioAccountRepositoryAdapter } from '../adapters/PortfolioAccountRepositoryAdapter';
+import { DividendRepositoryAdapter } from '../adapters/DividendRepositoryAdapter';
 import { authenticate } from '../middlewares/auth';
+import multipart from '@fastify/multipart';
 
 // Dependency Injection
 const portfolioRepository = new PortfolioRepositoryAdapter();
 const stockRepository = new StockRepositoryAdapter();
-const portfolioFacade = new PortfolioService(portfolioRepository, stockRepository);
+const transactionRepository = new PortfolioTransactionRepositoryAdapter();
+const stockPriceRepository = new StockPriceRepositoryAdapter();
+const indexPriceRepository = new IndexPriceRepositoryAdapter();
+const targetRepository = new PortfolioTargetRepositoryAdapter();
+const fxRateRepository = new FxRateRepositoryAdapter();
+const accountRepository = new PortfolioAccountRepositoryAdapter();
+const dividendRepository = new DividendRepositoryAdapter();
+const portfolioFacade = new PortfolioService(
+  portfolioRepository,
+  stockRepository,
+  transactionRepository,
+  stockPriceRepository,
+  indexPriceRepository,
+  targetRepository,
+  fxRateRepository,
+  accountRepository,
+  dividendRepository
+);
 const portfolioController = new PortfolioController(portfolioFacade);
 
 const routes: FastifyPluginAsync = async (fastify) => {
+  // Multipart 지원 등록 (거래내역 CSV 가져오기)
+  await fastify.register(multipart, {
+    limits: {
+      fileSize: 5 * 1024 * 1024, // 5MB
+      files: 1,
+    },
+  });
+
   // Auth hook for all routes
   fastify.addHook('onRequest', authenticate);
 
+  // 보유 종목 목록 (?currency=KRW|USD 기준 통화 환산)
+  // 조회 API는 ?accountId로 계좌 범위 지정, 생략 시 전체 계좌 합산
   fastify.get('/', async (request, reply) => {
     await portfolioController.getPortfolios(request, reply);
   });
 
   // Specific routes must come before parameterized routes
+  // 계좌 (증권사 계좌, ISA, 연금 등)
+  fastify.get('/accounts', async (request, reply) => {
+    await portfolioController.getAccounts(request, reply);
+  });
+
+  fastify.post('/accounts', async (request, reply) => {
+    await portfolioController.createAccount(request, reply);
+  });
+
+  fastify.put('/accounts/:id', async (request, reply) => {
+    await portfolioController.updateAccount(request, reply);
+  });
+
+  fastify.delete('/accounts/:id', async (request, reply) => {
+    await portfolioController.deleteAccount(request, reply);
+  });
+
   fastify.get('/analysis', async (request, reply) => {
     await portfolioController.getAnalysis(request, reply);
   });
 
+  // 실현손익 리포트 (?method=fifo|lifo|average&from&to)
+  fastify.get('/realized', async (request, reply) => {
+    await portfolioController.getRealizedGains(request, reply);
+  });
+
+  // 기간 성과 (?from&to&interval=1d|1w|1M)
+  fastify.get('/performance', async (request, reply) => {
+    await portfolioController.getPerformance(request, reply);
+  });
+
+  // 벤치마크 대비 성과 (?index=KOSPI|KOSDAQ&from&to)
+  fastify.get('/benchmark', async (request, reply) => {
+    await portfolioController.getBenchmark(request, reply);
+  });
+
+  // 배당 수령 내역 + 12개월 예상 배당 달력 (?from&to&currency)
+  fastify.get('/dividends', async (request, reply) => {
+    await portfolioController.getDividends(request, reply);
+  });
+
+  // 목표 비중 (종목별 또는 섹터별)
+  fastify.get('/targets', async (request, reply) => {
+    await portfolioController.getTargets(request, reply);
+  });
+
+  fastify.put('/targets', async (request, reply) => {
+    await portfolioController.updateTargets(request, reply);
+  });
+
+  fastify.delete('/targets', async (request, reply) => {
+    await portfolioController.deleteTargets(request, reply);
+  });
+
+  // 리밸런싱 주문 미리보기
+  fastify.post('/rebalance/preview', async (request, reply) => {
+    await portfolioController.previewRebalance(request, reply);
+  });
+
+  // 거래 원장 (매수/매도/배당/분할/수수료)
+  fastify.get('/transactions', async (request, reply) => {
+    await portfolioController.getTransactions(request, reply);
+  });
+
+  fastify.post('/transactions', async (request, reply) => {
+    await portfolioController.createTransaction(request, reply);
+  });
+
+  // 증권사 거래내역 CSV 가져오기 (dryRun=true 미리보기, false일 때 일괄 저장)
+  fastify.post('/transactions/import', async (request, reply) => {
+    await portfolioController.importTransactions(request, reply);
+  });
+
+  fastify.delete('/transactions/:id', async (request, reply) => {
+    await portfolioController.deleteTransaction(request, reply);
+  });
+
   fastify.get('/stock/:stockId', async (request, reply) => {
     await portfolioController.getPortfolioByStockId(request, reply);
   });
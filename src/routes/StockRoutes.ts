@@ -5,7 +5,15 @@ import { StockService } from '../services/StockService';
 import { HistoryService } from '../services/HistoryService';
 import { HistoryRepositoryAdapter } from '../adapters/HistoryRepositoryAdapter';
 import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
-import { optionalAuth } from '../middlewares/auth';
+import { StockPriceRepositoryAdapter } from '../adapters/StockPriceRepositoryAdapter';
+import { SavedScreenRepositoryAdapter } from '../adapters/SavedScreenRepositoryAdapter';
+import { ScreenerController } from '../controllers/ScreenerController';
+import { ScreenerService } from '../services/ScreenerService';
+import { StockThemeRepositoryAdapter } from '../adapters/StockThemeRepositoryAdapter';
+import { StockThemeController } from '../controllers/StockThemeController';
+import { StockThemeService } from '../services/StockThemeService';
+import { authenticate, optionalAuth } from '../middlewares/auth';
+import { CHART_INTERVALS } from '../constants/chart';
 // TODO: 실제 증권 API 연결 시 활성화
 // import { NaverStockApiAdapter } from '../adapters/NaverStockApiAdapter';
 
@@ -17,7 +25,8 @@ const stockCodeSchema = z.object({
 const stockPricesSchema = z.object({
   code: z.string().length(6),
   period: z.string().optional(),
-  interval: z.string().optional(),
+  interval: z.enum(CHART_INTERVALS).optional(), // 1m/5m/15m/60m: 분봉, 1d: 일봉, 1w/1M: 주봉/월봉
+  adjusted: z.enum(['true', 'false']).optional(), // 수정주가 여부 (기본 true)
 });
 
 // Dependency Injection
@@ -29,6 +38,13 @@ const historyRepository = new HistoryRepositoryAdapter();
 const stockRepository = new StockRepositoryAdapter();
 const historyFacade = new HistoryService(historyRepository, stockRepository);
 const stockController = new StockController(stockFacade, historyFacade);
+const stockPriceRepository = new StockPriceRepositoryAdapter();
+const savedScreenRepository = new SavedScreenRepositoryAdapter();
+const screenerFacade = new ScreenerService(stockRepository, stockPriceRepository, savedScreenRepository);
+const screenerController = new ScreenerController(screenerFacade);
+const stockThemeRepository = new StockThemeRepositoryAdapter();
+const stockThemeFacade = new StockThemeService(stockThemeRepository, stockRepository);
+const stockThemeController = new StockThemeController(stockThemeFacade);
 
 const routes: FastifyPluginAsync = async (fastify) => {
   // Stock routes - 검색은 optional auth (검색 기록 저장을 위해)
@@ -48,13 +64,52 @@ const routes: FastifyPluginAsync = async (fastify) => {
     await stockController.getCategories(request, reply);
   });
 
+  // 스크리너 (조건식 검색은 인증 불필요, 저장된 조건은 인증 필요)
+  fastify.post('/screener', async (request, reply) => {
+    await screenerController.runScreen(request, reply);
+  });
+
+  fastify.get('/screener/screens', { onRequest: authenticate }, async (request, reply) => {
+    await screenerController.getScreens(request, reply);
+  });
+
+  fastify.post('/screener/screens', { onRequest: authenticate }, async (request, reply) => {
+    await screenerController.createScreen(request, reply);
+  });
+
+  fastify.put('/screener/screens/:id', { onRequest: authenticate }, async (request, reply) => {
+    await screenerController.updateScreen(request, reply);
+  });
+
+  fastify.delete('/screener/screens/:id', { onRequest: authenticate }, async (request, reply) => {
+    await screenerController.deleteScreen(request, reply);
+  });
+
+  // 테마 목록 + 테마별 등락 집계 (1분 캐시, 활성 테마만)
+  fastify.get('/themes', {
+    preHandler: (fastify as any).cache(60),
+  }, async (request, reply) => {
+    await stockThemeController.getThemes(request, reply);
+  });
+
+  // 테마 상세 (구성 종목 포함)
+  fastify.get('/themes/:id', {
+    preHandler: (fastify as any).cache(60),
+  }, async (request, reply) => {
+    await stockThemeController.getTheme(request, reply);
+  });
+
   // 차트 데이터 조회 (10초 캐시 - 실시간성 중요)
   fastify.get('/:code/prices', {
     preHandler: (fastify as any).cache(10),
   }, async (request, reply) => {
     // Zod 스키마 검증
     try {
-      stockPricesSchema.parse({ code: (request.params as any).code });
+      stockPricesSchema.parse({
+        code: (request.params as any).code,
+        interval: (request.query as any).interval,
+        adjusted: (request.query as any).adjusted,
+      });
     } catch (error) {
       if (error instanceof Error && 'issues' in error) {
         reply.status(400).send({
@@ -68,6 +123,24 @@ const routes: FastifyPluginAsync = async (fastify) => {
     await stockController.getStockPrices(request, reply);
   });
 
+  // 기술적 지표 조회 (서비스에서 종목/기간/지표 조합별로 캐시)
+  fastify.get('/:code/indicators', async (request, reply) => {
+    // Zod 스키마 검증
+    try {
+      stockCodeSchema.parse({ code: (request.params as any).code });
+    } catch (error) {
+      if (error instanceof Error && 'issues' in error) {
+        reply.status(400).send({
+          success: false,
+          error: 'Validation failed',
+          details: (error as any).issues,
+        });
+        return;
+      }
+    }
+    await stockController.getIndicators(request, reply);
+  });
+
   // 주식 상세 조회 (1분 캐시)
   fastify.get('/:code', {
     preHandler: (fastify as any).cache(60),
@@ -0,0 +1,37 @@
+import { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import type { WebSocket } from '@fastify/websocket';
+import { WebSocketService } from '../services/WebSocketService';
+import { ChatService } from '../services/ChatService';
+import { ConversationRepositoryAdapter } from '../adapters/ConversationRepositoryAdapter';
+import { MessageRepositoryAdapter } from '../adapters/MessageRepositoryAdapter';
+import { authenticateWebSocket } from '../middlewares/websocketAuth';
+
+// Dependency Injection
+const conversationRepository = new ConversationRepositoryAdapter();
+const messageRepository = new MessageRepositoryAdapter();
+const chatFacade = new ChatService(conversationRepository, messageRepository);
+// 사용자 연결 관리 (채팅 스트리밍 + 알림 등 서버 푸시)
+const webSocketService = new WebSocketService(chatFacade);
+
+const routes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook('onClose', async () => {
+    await webSocketService.cleanup();
+  });
+
+  // 사용자 WebSocket 엔드포인트 (?token= 또는 Authorization 헤더)
+  // 클라이언트 메시지: { type: 'chat', payload: { conversationId?, message } }, { type: 'ping' }
+  // 서버 푸시: { type: 'notification', data: Notification, unread } (통합 알림 수신함, 알림 발생 포함)
+  fastify.get('/', { websocket: true }, async (socket: WebSocket, request: FastifyRequest) => {
+    let userId: string;
+    try {
+      userId = await authenticateWebSocket(request);
+    } catch (error) {
+      socket.close(1008, 'Unauthorized'); // Policy Violation
+      return;
+    }
+
+    await webSocketService.handleConnection(socket, userId);
+  });
+};
+
+export default routes;
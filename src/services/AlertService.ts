@@ -0,0 +1,510 @@
+/**
+ * Alert Service
+ * 종목 알림 (가격 돌파, 등락률, 거래량 급증, 부정 뉴스)
+ *
+ * 시세 갱신/뉴스 적재 → BullMQ 큐 → 워커가 활성 알림 평가 → 알림 이력 기록 후 채널 발송
+ * - 중복 방지: [alertId, dedupKey] 유니크 (가격 교차 시각, 거래일+방향, 뉴스 ID 단위)
+ * - 재발생 금지: cooldownMinutes 동안은 조건을 만족해도 발생하지 않음 (claimTrigger로 동시 발생 방지)
+ * - 발송: 발생 이력(중복 방지·채널별 결과) + 통합 알림 수신함(항상, websocket 채널이면 실시간 전송) + 외부 채널(external, 웹훅/스텁)
+ * - 읽음 상태는 통합 알림 수신함(/api/notifications)에서만 관리
+ */
+
+import { IAlertFacade } from '../facades/IAlertFacade';
+import { IAlertRepository } from '../repositories/IAlertRepository';
+import { IStockRepository } from '../repositories/IStockRepository';
+import { IStockPriceRepository } from '../repositories/IStockPriceRepository';
+import { INewsRepository } from '../repositories/INewsRepository';
+import { INotificationFacade } from '../facades/INotificationFacade';
+import { AlertRepositoryAdapter } from '../adapters/AlertRepositoryAdapter';
+import { CreateAlertDto } from '../dto/alert/CreateAlertDto';
+import { UpdateAlertDto } from '../dto/alert/UpdateAlertDto';
+import { AlertResponseDto } from '../dto/alert/AlertResponseDto';
+import { Alert, AlertCrossState, AlertEvent, AlertQuote, PRICE_ALERT_TYPES } from '../entities/Alert';
+import { Stock } from '../entities/Stock';
+import { NotFoundError, BadRequestError } from '../errors/AppError';
+import { logger } from '../config/logger';
+import { createStepTracker } from '../utils/aop';
+import { executeTransaction, TRANSACTION_TIMEOUT } from '../utils/transaction';
+import { toDateKey } from '../utils/performance-metrics';
+import { getQueueManager, QueueManager } from '../queues/QueueManager';
+import { getMarketDataProvider, MarketDataProvider, toTradingDate } from '../providers/MarketDataProvider';
+import { AlertDeliveryChannel, createAlertDeliveryChannel } from '../providers/AlertDeliveryChannel';
+import { findStockByIdOrCode } from '../utils/stock-lookup';
+
+export const ALERT_QUEUE = 'alerts';
+
+// BullMQ 직렬화로 Date는 문자열로 전달
+type AlertJobData =
+  | { kind: 'price'; quotes: Array<Omit<AlertQuote, 'observedAt'> & { observedAt: string }> }
+  | { kind: 'news'; newsIds: string[] };
+
+const MAX_ALERTS_PER_USER = 100;
+const VOLUME_AVERAGE_DAYS = 20; // 거래량 급증 기준 평균 기간 (거래일)
+
+interface AlertContent {
+  title: string;
+  message: string;
+  payload: Record<string, unknown>;
+}
+
+const formatPrice = (value: number): string => value.toLocaleString('ko-KR');
+const stockLabel = (stock: Stock | undefined, stockId: string): string =>
+  stock ? `${stock.name}(${stock.code})` : stockId;
+
+export class AlertService implements IAlertFacade {
+  constructor(
+    private readonly alertRepository: IAlertRepository,
+    private readonly stockRepository: IStockRepository,
+    private readonly stockPriceRepository: IStockPriceRepository,
+    private readonly newsRepository: INewsRepository,
+    private readonly notificationFacade: INotificationFacade,
+    private readonly queueManager: QueueManager = getQueueManager(),
+    private readonly provider: MarketDataProvider = getMarketDataProvider(),
+    private readonly deliveryChannel: AlertDeliveryChannel = createAlertDeliveryChannel()
+  ) {}
+
+  private get queue() {
+    return this.queueManager.getQueue(ALERT_QUEUE) ?? this.queueManager.createQueue(ALERT_QUEUE);
+  }
+
+  /**
+   * 알림 평가 워커 등록 (서버 시작 시 1회)
+   * 같은 알림의 동시 평가를 줄이기 위해 동시 실행은 1개로 제한
+   */
+  registerWorker(): void {
+    if (!this.queueManager.getQueue(ALERT_QUEUE)) {
+      this.queueManager.createQueue(ALERT_QUEUE);
+    }
+    this.queueManager.createWorker(
+      ALERT_QUEUE,
+      async (job: { data: AlertJobData }) => {
+        if (job.data.kind === 'price') {
+          await this.evaluateQuotes(
+            job.data.quotes.map((quote) => ({ ...quote, observedAt: new Date(quote.observedAt) }))
+          );
+        } else {
+          await this.evaluateNews(job.data.newsIds);
+        }
+      },
+      { concurrency: 1 }
+    );
+  }
+
+  async getAlerts(userId: string, filter: { stockId?: string; isActive?: boolean } = {}): Promise<AlertResponseDto[]> {
+    let stockId: string | undefined;
+    if (filter.stockId) {
+      const stockResult = await findStockByIdOrCode(this.stockRepository, filter.stockId);
+      if (!stockResult) {
+        throw new NotFoundError('Stock');
+      }
+      stockId = stockResult.id;
+    }
+
+    const alerts = await this.alertRepository.findAll(userId, { stockId, isActive: filter.isActive });
+    const stockMap = await this.loadStocks(alerts.map((alert) => alert.stockId));
+
+    return alerts.map((alert) => AlertResponseDto.to(alert, stockMap.get(alert.stockId)));
+  }
+
+  async getAlert(id: string, userId: string): Promise<AlertResponseDto> {
+    const alert = await this.alertRepository.findById(id, userId);
+    if (!alert) {
+      throw new NotFoundError('Alert');
+    }
+
+    const stock = await this.stockRepository.findById(alert.stockId);
+    return AlertResponseDto.to(alert, stock ?? undefined);
+  }
+
+  async createAlert(userId: string, dto: CreateAlertDto): Promise<AlertResponseDto> {
+    const stockResult = await findStockByIdOrCode(this.stockRepository, dto.stockId);
+    if (!stockResult) {
+      throw new NotFoundError('Stock');
+    }
+    const { stock } = stockResult;
+
+    const count = await this.alertRepository.countByUser(userId);
+    if (count >= MAX_ALERTS_PER_USER) {
+      throw new BadRequestError(`Up to ${MAX_ALERTS_PER_USER} alerts are allowed per user`);
+    }
+
+    const threshold = dto.type === 'negative_news' ? null : dto.threshold ?? null;
+    const alert = await this.alertRepository.create(
+      new Alert(
+        '',
+        userId,
+        stock.id,
+        dto.type,
+        threshold,
+        dto.channels,
+        dto.cooldownMinutes,
+        true,
+        dto.memo ?? null,
+        this.initialState(dto.type, threshold, stock),
+        null,
+        new Date(),
+        new Date()
+      )
+    );
+
+    return AlertResponseDto.to(alert, stock);
+  }
+
+  async updateAlert(id: string, userId: string, dto: UpdateAlertDto): Promise<AlertResponseDto> {
+    const alert = await this.alertRepository.findById(id, userId);
+    if (!alert) {
+      throw new NotFoundError('Alert');
+    }
+    if (dto.threshold !== undefined && alert.type === 'negative_news') {
+      throw new BadRequestError('Threshold is not used for negative_news alerts');
+    }
+    if (dto.threshold !== undefined && alert.type === 'volume_spike' && dto.threshold <= 1) {
+      throw new BadRequestError('Volume spike multiple must be greater than 1');
+    }
+
+    const stock = await this.stockRepository.findById(alert.stockId);
+
+    // 임계가 변경 또는 재활성화 시 교차 상태를 현재가 기준으로 다시 잡아 즉시 발생 방지
+    const threshold = dto.threshold ?? alert.threshold;
+    const resetState = dto.threshold !== undefined || (dto.isActive === true && !alert.isActive);
+    const lastState = resetState && stock ? this.initialState(alert.type, threshold, stock) : undefined;
+
+    const updated = await this.alertRepository.update(alert.id, {
+      threshold: dto.threshold,
+      channels: dto.channels,
+      cooldownMinutes: dto.cooldownMinutes,
+      isActive: dto.isActive,
+      memo: dto.memo,
+      ...(lastState !== undefined && { lastState }),
+    });
+
+    return AlertResponseDto.to(updated, stock ?? undefined);
+  }
+
+  async deleteAlert(id: string, userId: string): Promise<void> {
+    const alert = await this.alertRepository.findById(id, userId);
+    if (!alert) {
+      throw new NotFoundError('Alert');
+    }
+
+    await this.alertRepository.delete(alert.id);
+  }
+
+  async enqueuePriceUpdates(quotes: AlertQuote[]): Promise<void> {
+    if (quotes.length === 0) return;
+
+    const data: AlertJobData = {
+      kind: 'price',
+      quotes: quotes.map((quote) => ({ ...quote, observedAt: quote.observedAt.toISOString() })),
+    };
+    await this.queue.add('price', data, { attempts: 1, removeOnComplete: true });
+  }
+
+  async enqueueNewsInserts(newsIds: string[]): Promise<void> {
+    if (newsIds.length === 0) return;
+
+    const data: AlertJobData = { kind: 'news', newsIds };
+    await this.queue.add('news', data, { attempts: 2, removeOnComplete: true });
+  }
+
+  /**
+   * 활성 가격 알림 종목의 현재 시세를 조회해 평가 요청 (스케줄러에서 호출)
+   */
+  async scanPrices(): Promise<{ stocks: number; quotes: number }> {
+    const stockIds = await this.alertRepository.findActiveStockIds(PRICE_ALERT_TYPES);
+    if (stockIds.length === 0) {
+      return { stocks: 0, quotes: 0 };
+    }
+
+    const stocks = await this.stockRepository.findMany(stockIds);
+    const stockByCode = new Map(stocks.map((stock) => [stock.code, stock]));
+    const marketQuotes = await this.provider.getQuotes(stocks.map((stock) => stock.code));
+
+    const quotes: AlertQuote[] = [];
+    for (const quote of marketQuotes) {
+      const stock = stockByCode.get(quote.symbol);
+      if (!stock || quote.price <= 0) continue;
+      quotes.push({
+        stockId: stock.id,
+        price: quote.price,
+        changeRate: quote.changeRate,
+        volume: quote.volume,
+        observedAt: quote.timestamp,
+      });
+    }
+
+    await this.enqueuePriceUpdates(quotes);
+    return { stocks: stocks.length, quotes: quotes.length };
+  }
+
+  /**
+   * 시세 기준 가격/등락률/거래량 알림 평가
+   */
+  async evaluateQuotes(quotes: AlertQuote[]): Promise<{ evaluated: number; fired: number }> {
+    const tracker = createStepTracker('AlertService.evaluateQuotes');
+
+    // 종목별 최신 시세만 사용
+    const quoteMap = new Map<string, AlertQuote>();
+    for (const quote of quotes) {
+      const existing = quoteMap.get(quote.stockId);
+      if (!existing || existing.observedAt <= quote.observedAt) {
+        quoteMap.set(quote.stockId, quote);
+      }
+    }
+
+    const alerts = await this.alertRepository.findActive([...quoteMap.keys()], PRICE_ALERT_TYPES);
+    if (alerts.length === 0) {
+      tracker.finish();
+      return { evaluated: 0, fired: 0 };
+    }
+    const stockMap = await this.loadStocks(alerts.map((alert) => alert.stockId));
+    tracker.step('알림 조회 완료');
+
+    const volumeAverages = new Map<string, number | null>();
+    let fired = 0;
+    for (const alert of alerts) {
+      const quote = quoteMap.get(alert.stockId)!;
+      try {
+        const content = await this.evaluateQuote(alert, quote, stockMap.get(alert.stockId), volumeAverages);
+        if (content && (await this.fire(alert, content.dedupKey, content, quote.observedAt))) {
+          fired++;
+        }
+      } catch (error) {
+        logger.error(`Alert evaluation failed: ${alert.id}`, error);
+      }
+    }
+    tracker.finish();
+
+    return { evaluated: alerts.length, fired };
+  }
+
+  /**
+   * 부정 뉴스 알림 평가 (NewsStock으로 연결된 종목)
+   */
+  async evaluateNews(newsIds: string[]): Promise<{ evaluated: number; fired: number }> {
+    const news = (await this.newsRepository.findWithStockIds(newsIds)).filter(
+      (item) => item.sentiment === 'negative'
+    );
+    const stockIds = [...new Set(news.flatMap((item) => item.stockIds))];
+    const alerts = await this.alertRepository.findActive(stockIds, ['negative_news']);
+    if (alerts.length === 0) {
+      return { evaluated: 0, fired: 0 };
+    }
+    const stockMap = await this.loadStocks(stockIds);
+
+    let evaluated = 0;
+    let fired = 0;
+    for (const item of news) {
+      for (const alert of alerts.filter((a) => item.stockIds.includes(a.stockId))) {
+        evaluated++;
+        const stock = stockMap.get(alert.stockId);
+        try {
+          const content: AlertContent = {
+            title: `${stockLabel(stock, alert.stockId)} 부정 뉴스`,
+            message: item.title,
+            payload: {
+              newsId: item.id,
+              source: item.source,
+              url: item.url,
+              sentimentScore: item.sentimentScore,
+              publishedAt: item.publishedAt.toISOString(),
+            },
+          };
+          if (await this.fire(alert, `news:${item.id}`, content, new Date())) {
+            fired++;
+          }
+        } catch (error) {
+          logger.error(`Alert evaluation failed: ${alert.id}`, error);
+        }
+      }
+    }
+
+    return { evaluated, fired };
+  }
+
+  /**
+   * 알림 유형별 조건 확인 (발생 시 내용과 중복 방지 키 반환)
+   */
+  private async evaluateQuote(
+    alert: Alert,
+    quote: AlertQuote,
+    stock: Stock | undefined,
+    volumeAverages: Map<string, number | null>
+  ): Promise<(AlertContent & { dedupKey: string }) | null> {
+    const label = stockLabel(stock, alert.stockId);
+    const threshold = alert.threshold ?? 0;
+    const dateKey = toDateKey(quote.observedAt);
+
+    switch (alert.type) {
+      case 'price_above':
+      case 'price_below': {
+        const cross = alert.evaluateCross(quote.price);
+        if (!cross) return null;
+        await this.alertRepository.updateState(alert.id, cross.state);
+        if (!cross.triggered) return null;
+
+        const target = cross.state;
+
+        return {
+          dedupKey: `cross:${quote.observedAt.toISOString()}`,
+          title: `${label} ${formatPrice(threshold)}원 ${target === 'above' ? '돌파' : '하회'}`,
+          message: `현재가 ${formatPrice(quote.price)}원 (${quote.changeRate >= 0 ? '+' : ''}${quote.changeRate}%)`,
+          payload: { price: quote.price, threshold, changeRate: quote.changeRate },
+        };
+      }
+      case 'change_rate': {
+        if (!alert.isChangeRateTriggered(quote.changeRate)) return null;
+
+        // 거래일·방향별 1회
+        const direction = quote.changeRate >= 0 ? 'up' : 'down';
+        return {
+          dedupKey: `change_rate:${dateKey}:${direction}`,
+          title: `${label} ${direction === 'up' ? '급등' : '급락'} ${quote.changeRate >= 0 ? '+' : ''}${quote.changeRate}%`,
+          message: `현재가 ${formatPrice(quote.price)}원, 설정 기준 ±${threshold}%`,
+          payload: { price: quote.price, changeRate: quote.changeRate, threshold },
+        };
+      }
+      case 'volume_spike': {
+        if (!volumeAverages.has(alert.stockId)) {
+          volumeAverages.set(alert.stockId, await this.averageVolume(alert.stockId, quote.observedAt));
+        }
+        const average = volumeAverages.get(alert.stockId);
+        if (!average || !alert.isVolumeSpike(quote.volume, average)) return null;
+
+        // 당일 누적 거래량 기준, 거래일당 1회
+        const multiple = Number((quote.volume / average).toFixed(2));
+        return {
+          dedupKey: `volume_spike:${dateKey}`,
+          title: `${label} 거래량 급증 (${VOLUME_AVERAGE_DAYS}일 평균 ${multiple}배)`,
+          message: `당일 거래량 ${formatPrice(quote.volume)}주, 평균 ${formatPrice(Math.round(average))}주`,
+          payload: { volume: quote.volume, averageVolume: Math.round(average), multiple, threshold },
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 직전 거래일까지의 평균 거래량 (일봉이 없으면 null)
+   * 분할/병합 이전 일봉도 현재 주식 수 기준으로 비교하도록 수정 거래량 사용
+   */
+  private async averageVolume(stockId: string, observedAt: Date): Promise<number | null> {
+    const prices = await this.stockPriceRepository.findLatestBefore(
+      stockId,
+      toTradingDate(observedAt),
+      VOLUME_AVERAGE_DAYS
+    );
+    if (prices.length === 0) return null;
+
+    return prices.reduce((sum, price) => sum + Number(price.toAdjusted().volume), 0) / prices.length;
+  }
+
+  /**
+   * 알림 발생 (중복/재발생 금지 확인 → 발생 이력 기록 → 채널 발송)
+   * 실제로 발생했으면 true
+   */
+  private async fire(alert: Alert, dedupKey: string, content: AlertContent, now: Date): Promise<boolean> {
+    if (alert.isCoolingDown(now)) return false;
+    if (await this.alertRepository.findEventByKey(alert.id, dedupKey)) return false;
+
+    // 재발생 금지 시간 확보와 발생 이력 기록을 함께 처리 (기록 실패 시 발생 시각도 롤백)
+    const event = await executeTransaction(async (tx) => {
+      const alertRepository = AlertRepositoryAdapter.withTransaction(tx);
+      const claimed = await alertRepository.claimTrigger(
+        alert.id,
+        now,
+        new Date(now.getTime() - alert.cooldownMinutes * 60 * 1000)
+      );
+      if (!claimed) return null;
+
+      return await alertRepository.createEvent(
+        new AlertEvent(
+          '',
+          alert.id,
+          alert.userId,
+          alert.stockId,
+          alert.type,
+          content.title,
+          content.message,
+          content.payload,
+          dedupKey,
+          null,
+          now
+        )
+      );
+    }, TRANSACTION_TIMEOUT.DEFAULT);
+    if (!event) return false;
+
+    await this.deliver(alert, event);
+    logger.info(`Alert fired: ${alert.id} (${alert.type}, user: ${alert.userId})`);
+    return true;
+  }
+
+  /**
+   * 채널 발송 (실패해도 알림 이력은 유지, 채널별 결과 저장)
+   */
+  private async deliver(alert: Alert, event: AlertEvent): Promise<void> {
+    const deliveries: Record<string, string> = {};
+
+    // 통합 알림 수신함 기록 (websocket 채널이면 실시간 전송)
+    const delivery = await this.notificationFacade.notify(
+      alert.userId,
+      {
+        type: 'alert',
+        title: event.title,
+        message: event.message,
+        data: {
+          ...event.payload,
+          alertId: alert.id,
+          alertEventId: event.id,
+          alertType: alert.type,
+          stockId: alert.stockId,
+        },
+        dedupKey: `alert:${event.id}`,
+      },
+      { push: alert.channels.includes('websocket') }
+    );
+    deliveries.notification = delivery.status;
+    if (alert.channels.includes('websocket')) {
+      deliveries.websocket = delivery.pushed ? 'sent' : 'skipped';
+    }
+
+    if (alert.channels.includes('external')) {
+      try {
+        await this.deliveryChannel.deliver({
+          eventId: event.id,
+          alertId: alert.id,
+          userId: alert.userId,
+          stockId: alert.stockId,
+          type: alert.type,
+          title: event.title,
+          message: event.message,
+          payload: event.payload,
+          createdAt: event.createdAt,
+        });
+        deliveries.external = `sent:${this.deliveryChannel.name}`;
+      } catch (error) {
+        logger.warn(`Alert ${this.deliveryChannel.name} delivery failed: ${event.id}`, error);
+        deliveries.external = `failed:${this.deliveryChannel.name}`;
+      }
+    }
+
+    await this.alertRepository.updateEventDeliveries(event.id, deliveries);
+  }
+
+  /**
+   * 가격 교차 알림의 초기 상태 (현재가가 없으면 첫 시세에서 결정)
+   */
+  private initialState(type: Alert['type'], threshold: number | null, stock: Stock): AlertCrossState | null {
+    if ((type !== 'price_above' && type !== 'price_below') || threshold === null || stock.currentPrice <= 0) {
+      return null;
+    }
+    return Alert.crossState(stock.currentPrice, threshold);
+  }
+
+  private async loadStocks(stockIds: string[]): Promise<Map<string, Stock>> {
+    const stocks = await this.stockRepository.findMany([...new Set(stockIds)]);
+    return new Map(stocks.map((stock) => [stock.id, stock]));
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Auth Service
+ * 이메일/비밀번호 가입·로그인과 세션(refresh token) 관리
+ *
+ * - Access token: 짧은 수명의 JWT, refresh token: 세션 행에 해시로만 저장
+ * - Refresh 시 토큰을 회전하고, 이미 회전된 이전 토큰이 다시 오면 탈취로 보고 세션 폐기
+ * - 폐기된 세션의 access token은 만료 전이라도 인증 미들웨어에서 거부
+ */
+
+import bcrypt from 'bcryptjs';
+import { Prisma } from '@prisma/client';
+import { AuthClientInfo, IAuthFacade } from '../facades/IAuthFacade';
+import { IUserRepository } from '../repositories/IUserRepository';
+import { ISessionRepository } from '../repositories/ISessionRepository';
+import { SignupDto } from '../dto/auth/SignupDto';
+import { LoginDto } from '../dto/auth/LoginDto';
+import { RefreshTokenDto } from '../dto/auth/RefreshTokenDto';
+import { AuthResponseDto } from '../dto/auth/AuthResponseDto';
+import { UserResponseDto } from '../dto/auth/UserResponseDto';
+import { User } from '../entities/User';
+import { Session } from '../entities/Session';
+import { ConflictError, NotFoundError, UnauthorizedError } from '../errors/AppError';
+import { logger } from '../config/logger';
+import {
+  REFRESH_TOKEN_TTL_DAYS,
+  formatRefreshToken,
+  generateRefreshSecret,
+  generateToken,
+  getTokenExpiresIn,
+  hashToken,
+  parseRefreshToken,
+  sessionStatusCacheKey,
+} from '../utils/jwt';
+import { cacheService } from './CacheService';
+
+const BCRYPT_ROUNDS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 존재하지 않는 계정도 같은 시간만큼 비교해 응답 시간으로 계정 존재 여부가 드러나지 않도록 함
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('dummy-password', BCRYPT_ROUNDS);
+
+const refreshExpiry = (now: Date): Date => new Date(now.getTime() + REFRESH_TOKEN_TTL_DAYS * DAY_MS);
+
+export class AuthService implements IAuthFacade {
+  constructor(
+    private readonly userRepository: IUserRepository,
+    private readonly sessionRepository: ISessionRepository
+  ) {}
+
+  async signup(dto: SignupDto, client: AuthClientInfo): Promise<AuthResponseDto> {
+    if (await this.userRepository.findByEmail(dto.email)) {
+      throw new ConflictError('Email already registered');
+    }
+
+    const passwordHash = await bcrypt.hash(dto.password, BCRYPT_ROUNDS);
+    let user: User;
+    try {
+      user = await this.userRepository.create(
+        new User('', dto.email, dto.name ?? null, 'user', passwordHash, new Date(), new Date())
+      );
+    } catch (error) {
+      // 조회 이후 동시 가입으로 이메일 unique 제약 위반 → 500이 아닌 409
+      if (
+        error instanceof ConflictError ||
+        (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')
+      ) {
+        throw new ConflictError('Email already registered');
+      }
+      throw error;
+    }
+
+    logger.info(`User signed up: ${user.id}`);
+    return await this.startSession(user, client);
+  }
+
+  async login(dto: LoginDto, client: AuthClientInfo): Promise<AuthResponseDto> {
+    const user = await this.userRepository.findByEmail(dto.email);
+    const matched = await bcrypt.compare(dto.password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+    if (!user || !user.passwordHash || !matched) {
+      throw new UnauthorizedError('Invalid email or password');
+    }
+
+    logger.info(`User logged in: ${user.id}`);
+    return await this.startSession(user, client);
+  }
+
+  async refresh(dto: RefreshTokenDto): Promise<AuthResponseDto> {
+    const now = new Date();
+    const { session, hash } = await this.findSession(dto.refreshToken);
+
+    if (session.revokedAt !== null) {
+      throw new UnauthorizedError('Session has been revoked');
+    }
+    if (hash === session.previousTokenHash) {
+      // 이미 회전된 토큰 재사용 → 탈취 가능성, 세션 폐기
+      await this.revokeSession(session);
+      logger.warn(`Refresh token reuse detected, session revoked: ${session.id}`);
+      throw new UnauthorizedError('Refresh token has already been used');
+    }
+    if (hash !== session.refreshTokenHash) {
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+    if (!session.isActive(now)) {
+      throw new UnauthorizedError('Refresh token expired');
+    }
+
+    const user = await this.userRepository.findById(session.userId);
+    if (!user) {
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+
+    const secret = generateRefreshSecret();
+    const expiresAt = refreshExpiry(now);
+    const rotated = await this.sessionRepository.rotate(session.id, hash, hashToken(secret), expiresAt);
+    if (!rotated) {
+      // 동시에 다른 요청이 먼저 회전했거나 폐기됨
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+
+    return this.toResponse(user, session.id, formatRefreshToken(session.id, secret), expiresAt);
+  }
+
+  async logout(dto: RefreshTokenDto): Promise<void> {
+    // 토큰이 유효하지 않아도 결과는 동일 (세션 존재 여부 노출 방지)
+    try {
+      const { session, hash } = await this.findSession(dto.refreshToken);
+      if (hash === session.refreshTokenHash) {
+        await this.revokeSession(session);
+        logger.info(`Session revoked: ${session.id}`);
+      }
+    } catch (error) {
+      if (!(error instanceof UnauthorizedError)) throw error;
+    }
+  }
+
+  async revokeAll(userId: string): Promise<{ revoked: number }> {
+    const revoked = await this.sessionRepository.revokeAll(userId);
+    // 전체 세션의 상태 캐시 삭제 (발급된 access token 즉시 거부)
+    await cacheService.deletePattern(sessionStatusCacheKey(userId, '*'));
+    logger.info(`All sessions revoked for user ${userId}: ${revoked}`);
+    return { revoked };
+  }
+
+  async getMe(userId: string): Promise<UserResponseDto> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+    return UserResponseDto.to(user);
+  }
+
+  private async startSession(user: User, client: AuthClientInfo): Promise<AuthResponseDto> {
+    const now = new Date();
+    const secret = generateRefreshSecret();
+    const session = await this.sessionRepository.create(
+      new Session(
+        '',
+        user.id,
+        hashToken(secret),
+        null,
+        client.userAgent?.slice(0, 255) ?? null,
+        client.ipAddress ?? null,
+        refreshExpiry(now),
+        now,
+        null,
+        now
+      )
+    );
+
+    return this.toResponse(user, session.id, formatRefreshToken(session.id, secret), session.expiresAt);
+  }
+
+  /**
+   * 세션 폐기 (이미 발급된 access token도 즉시 거부되도록 세션 상태 캐시 삭제)
+   */
+  private async revokeSession(session: Session): Promise<void> {
+    await this.sessionRepository.revoke(session.id);
+    await cacheService.delete(sessionStatusCacheKey(session.userId, session.id));
+  }
+
+  private async findSession(refreshToken: string): Promise<{ session: Session; hash: string }> {
+    const parsed = parseRefreshToken(refreshToken);
+    const session = parsed ? await this.sessionRepository.findById(parsed.sessionId) : null;
+    if (!parsed || !session) {
+      throw new UnauthorizedError('Invalid refresh token');
+    }
+    return { session, hash: hashToken(parsed.secret) };
+  }
+
+  private toResponse(user: User, sessionId: string, refreshToken: string, refreshTokenExpiresAt: Date): AuthResponseDto {
+    const accessToken = generateToken({
+      userId: user.id,
+      sessionId,
+      email: user.email ?? undefined,
+      role: user.role,
+    });
+
+    return new AuthResponseDto(
+      UserResponseDto.to(user),
+      accessToken,
+      getTokenExpiresIn(accessToken),
+      refreshToken,
+      refreshTokenExpiresAt
+    );
+  }
+}
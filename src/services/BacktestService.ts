@@ -0,0 +1,274 @@
+/**
+ * Backtest Service
+ * 선언형 전략 백테스트 요청 → BullMQ 큐 → 저장된 일봉(stock_prices)으로 실행 후 결과 저장
+ */
+
+import { IBacktestFacade } from '../facades/IBacktestFacade';
+import { IBacktestRepository } from '../repositories/IBacktestRepository';
+import { IStockRepository } from '../repositories/IStockRepository';
+import { IStockPriceRepository } from '../repositories/IStockPriceRepository';
+import { INotificationFacade } from '../facades/INotificationFacade';
+import { CreateBacktestDto } from '../dto/backtest/CreateBacktestDto';
+import { BacktestResponseDto } from '../dto/backtest/BacktestResponseDto';
+import { Backtest, BacktestStrategy } from '../entities/Backtest';
+import { Stock } from '../entities/Stock';
+import { NotFoundError, BadRequestError } from '../errors/AppError';
+import { logger } from '../config/logger';
+import { createStepTracker } from '../utils/aop';
+import { BacktestBar, runBacktest, warmupDays } from '../utils/backtest-engine';
+import { getQueueManager, QueueManager } from '../queues/QueueManager';
+import { findStockByIdOrCode } from '../utils/stock-lookup';
+
+export const BACKTEST_QUEUE = 'backtests';
+
+interface BacktestJobData {
+  backtestId: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BacktestService implements IBacktestFacade {
+  constructor(
+    private readonly backtestRepository: IBacktestRepository,
+    private readonly stockRepository: IStockRepository,
+    private readonly stockPriceRepository: IStockPriceRepository,
+    private readonly notificationFacade: INotificationFacade,
+    private readonly queueManager: QueueManager = getQueueManager()
+  ) {}
+
+  private get queue() {
+    return this.queueManager.getQueue(BACKTEST_QUEUE) ?? this.queueManager.createQueue(BACKTEST_QUEUE);
+  }
+
+  /**
+   * 백테스트 워커 등록 (서버 시작 시 1회)
+   * CPU 작업이므로 동시 실행은 1개로 제한
+   */
+  registerWorker(): void {
+    if (!this.queueManager.getQueue(BACKTEST_QUEUE)) {
+      this.queueManager.createQueue(BACKTEST_QUEUE);
+    }
+    this.queueManager.createWorker(
+      BACKTEST_QUEUE,
+      async (job: { data: BacktestJobData }) => {
+        await this.processBacktest(job.data.backtestId);
+      },
+      { concurrency: 1 }
+    );
+  }
+
+  /**
+   * 백테스트 요청 (종목/비중 확인 후 큐 등록)
+   */
+  async createBacktest(userId: string, dto: CreateBacktestDto): Promise<BacktestResponseDto> {
+    const tracker = createStepTracker('BacktestService.createBacktest');
+
+    tracker.step('종목 확인 시작');
+    const stocks: Stock[] = [];
+    const missing: string[] = [];
+    for (const identifier of dto.universe) {
+      const stockResult = await findStockByIdOrCode(this.stockRepository, identifier);
+      if (stockResult) {
+        stocks.push(stockResult.stock);
+      } else {
+        missing.push(identifier);
+      }
+    }
+    if (missing.length > 0) {
+      throw new NotFoundError(`Stock (${missing.join(', ')})`);
+    }
+    if (new Set(stocks.map((stock) => stock.id)).size !== stocks.length) {
+      throw new BadRequestError('Duplicate stocks in universe');
+    }
+
+    // rebalance 비중 키(ID 또는 code) → Stock.id
+    let strategy: BacktestStrategy = dto.strategy;
+    if (strategy.type === 'rebalance' && strategy.weights) {
+      const weights: Record<string, number> = {};
+      for (const [key, weight] of Object.entries(strategy.weights)) {
+        const stock = stocks.find((s) => s.id === key || s.code === key);
+        if (!stock) {
+          throw new BadRequestError(`Weight key is not in universe: ${key}`);
+        }
+        weights[stock.id] = weight;
+      }
+      strategy = { ...strategy, weights };
+    }
+    tracker.step('종목 확인 완료');
+
+    tracker.step('큐 등록 시작');
+    const backtest = await this.backtestRepository.create(
+      new Backtest(
+        '',
+        userId,
+        dto.name ?? null,
+        strategy,
+        stocks.map((stock) => stock.id),
+        dto.from,
+        dto.to,
+        dto.initialCash,
+        dto.commissionRate,
+        dto.taxRate,
+        dto.riskFreeRate,
+        'queued',
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        new Date(),
+        new Date()
+      )
+    );
+
+    try {
+      // 같은 전략을 다시 실행해도 결과가 같으므로 재시도하지 않음
+      await this.queue.add('backtest', { backtestId: backtest.id } satisfies BacktestJobData, {
+        jobId: backtest.id,
+        attempts: 1,
+      });
+    } catch (error) {
+      await this.backtestRepository.update(backtest.id, { status: 'failed', error: 'Failed to enqueue backtest' });
+      throw error;
+    }
+    tracker.step('큐 등록 완료');
+
+    logger.info(`Backtest ${backtest.id} queued for user ${userId} (${strategy.type}, ${stocks.length} stocks)`);
+    tracker.finish();
+
+    return BacktestResponseDto.to(backtest, stocks);
+  }
+
+  async getBacktests(userId: string, filter: { limit?: number; offset?: number } = {}): Promise<{
+    data: BacktestResponseDto[];
+    total: number;
+  }> {
+    const result = await this.backtestRepository.findAll(userId, filter);
+    const stocks = await this.stockRepository.findMany([...new Set(result.data.flatMap((b) => b.universe))]);
+
+    return {
+      data: result.data.map((backtest) => BacktestResponseDto.to(backtest, stocks)),
+      total: result.total,
+    };
+  }
+
+  async getBacktest(id: string, userId: string): Promise<BacktestResponseDto> {
+    const backtest = await this.backtestRepository.findById(id, userId);
+    if (!backtest) {
+      throw new NotFoundError('Backtest');
+    }
+
+    const stocks = await this.stockRepository.findMany(backtest.universe);
+    return BacktestResponseDto.to(backtest, stocks);
+  }
+
+  async deleteBacktest(id: string, userId: string): Promise<void> {
+    const backtest = await this.backtestRepository.findById(id, userId);
+    if (!backtest) {
+      throw new NotFoundError('Backtest');
+    }
+
+    // 대기 중인 작업은 큐에서도 제거 (실행 중이면 결과 저장 시점에 무시됨)
+    try {
+      await (await this.queue.getJob(id))?.remove();
+    } catch (error) {
+      logger.warn(`Failed to remove backtest job ${id} from queue:`, error);
+    }
+
+    await this.backtestRepository.delete(id);
+    logger.info(`Backtest ${id} deleted`);
+  }
+
+  /**
+   * 백테스트 실행 (큐 워커)
+   *
+   * 1. 시작일 이전 워밍업 구간을 포함해 일봉 조회
+   * 2. 엔진 실행 (다음 거래일 시가 체결)
+   * 3. 체결 내역, 평가금액 곡선, 성과 지표 저장
+   */
+  async processBacktest(id: string): Promise<void> {
+    const tracker = createStepTracker('BacktestService.processBacktest');
+
+    const backtest = await this.backtestRepository.findById(id);
+    if (!backtest) {
+      logger.warn(`Backtest ${id} not found (deleted before processing)`);
+      return;
+    }
+    if (backtest.status === 'completed') {
+      return;
+    }
+
+    await this.backtestRepository.update(id, { status: 'running', startedAt: new Date(), error: null });
+
+    try {
+      tracker.step('일봉 조회 시작');
+      const stocks = await this.stockRepository.findMany(backtest.universe);
+      const priceFrom = new Date(backtest.from.getTime() - warmupDays(backtest.strategy) * DAY_MS);
+      const prices = await this.stockPriceRepository.findByStocks(backtest.universe, priceFrom, backtest.to);
+
+      const bars = new Map<string, BacktestBar[]>();
+      // 수정주가 기준 (액면분할을 가격 급락으로 오인하지 않도록)
+      for (const price of prices) {
+        bars.set(price.stockId, [...(bars.get(price.stockId) || []), price.toAdjusted()]);
+      }
+      for (const series of bars.values()) {
+        series.sort((a, b) => a.date.getTime() - b.date.getTime());
+      }
+      tracker.step('일봉 조회 완료');
+
+      tracker.step('전략 실행 시작');
+      const result = runBacktest({
+        strategy: backtest.strategy,
+        stocks: stocks.map((stock) => ({ id: stock.id, code: stock.code })),
+        bars,
+        from: backtest.from,
+        to: backtest.to,
+        initialCash: backtest.initialCash,
+        commissionRate: backtest.commissionRate,
+        taxRate: backtest.taxRate,
+        riskFreeRate: backtest.riskFreeRate,
+      });
+      if (result.equityCurve.length === 0) {
+        throw new BadRequestError('No price data in the backtest period');
+      }
+      tracker.step('전략 실행 완료');
+
+      await this.backtestRepository.update(id, {
+        status: 'completed',
+        metrics: result.metrics,
+        trades: result.trades,
+        equityCurve: result.equityCurve,
+        completedAt: new Date(),
+      });
+
+      logger.info(
+        `Backtest ${id} completed: ${result.metrics.tradeCount} trades, return ${(result.metrics.totalReturn * 100).toFixed(2)}%`
+      );
+      await this.notificationFacade.notify(backtest.userId, {
+        type: 'backtest',
+        title: `백테스트 완료: ${backtest.name ?? '이름 없음'}`,
+        message: `총 수익률 ${(result.metrics.totalReturn * 100).toFixed(2)}%, 거래 ${result.metrics.tradeCount}회`,
+        data: { backtestId: id, status: 'completed', totalReturn: result.metrics.totalReturn },
+        link: `/backtests/${id}`,
+        dedupKey: `backtest:${id}`,
+      });
+      tracker.finish();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Backtest ${id} failed:`, error);
+      if (await this.backtestRepository.findById(id)) {
+        await this.backtestRepository.update(id, { status: 'failed', error: message, completedAt: new Date() });
+        await this.notificationFacade.notify(backtest.userId, {
+          type: 'backtest',
+          title: `백테스트 실패: ${backtest.name ?? '이름 없음'}`,
+          message,
+          data: { backtestId: id, status: 'failed' },
+          link: `/backtests/${id}`,
+          dedupKey: `backtest:${id}`,
+        });
+      }
+      throw error;
+    }
+  }
+}
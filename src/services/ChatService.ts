@@ -7,7 +7,7 @@ import { Conversation } from '../entities/Conversation';
 import { Message } from '../entities/Message';
 import { NotFoundError, DatabaseError } from '../errors/AppError';
 import { logger } from '../config/logger';
-import { UserActivityService } from './UserActivityService';
+import { UserActivityService, UserContext } from './UserActivityService';
 import OpenAI from 'openai';
 import { prisma } from '../config/prisma';
 import { cacheService } from './CacheService';
@@ -381,14 +381,7 @@ export class ChatService implements IChatFacade {
   /**
    * 사용자 컨텍스트를 포함한 시스템 메시지 생성
    */
-  private buildSystemMessage(userContext: {
-    readNews: string[];
-    likedNews: string[];
-    favoriteNews: string[];
-    recentStocks: string[];
-    learnings: Array<{ concept: string; question: string }>;
-    notes: Array<{ title: string; tags: string[] }>;
-  }): string {
+  private buildSystemMessage(userContext: UserContext): string {
     let context = `You are a helpful financial advisor for a Korean stock investment platform. Provide clear, concise answers about stocks, investing, and financial concepts in Korean.
 
 User Context:
@@ -399,6 +392,27 @@ User Context:
       context += `- Recently viewed stocks: ${userContext.recentStocks.join(', ')}\n`;
     }
 
+    // 최근 4주 많이 본 종목
+    if (userContext.topStocks.length > 0) {
+      context += `- Most viewed stocks (last 4 weeks): ${userContext.topStocks
+        .map((s) => `${s.name}(${s.code}) ${s.views} views`)
+        .join(', ')}\n`;
+    }
+
+    // 관심 섹터와 비중 변화
+    if (userContext.sectorInterests.length > 0) {
+      context += `- Sector interests: ${userContext.sectorInterests
+        .map((s) => `${s.sector} (${s.drift >= 0 ? '+' : ''}${s.drift}%p)`)
+        .join(', ')}\n`;
+    }
+
+    // 마지막 조회 이후 가격 변화
+    if (userContext.resumeStocks.length > 0) {
+      context += `- Price change since last viewed: ${userContext.resumeStocks
+        .map((s) => `${s.name}(${s.code}) ${s.priceChangeRate >= 0 ? '+' : ''}${s.priceChangeRate}%`)
+        .join(', ')}\n`;
+    }
+
     // 최근 학습 내용
     if (userContext.learnings.length > 0) {
       context += `- Recent learning topics:\n`;
@@ -0,0 +1,330 @@
+/**
+ * Corporate Action Service
+ * 액면분할/병합, 유상증자 등록 및 적용 (수정주가 계수 누적 + 보유 종목 조정)
+ *
+ * 적용 처리 (한 트랜잭션)
+ * 1. exDate 이전 일봉의 adjFactor에 수정주가 계수 누적 (원시 OHLC는 그대로 유지)
+ * 2. split: exDate 이전부터 보유한 계좌마다 원장에 split 거래 기록 → 포지션 재계산, 계좌별 감사 기록
+ *    미체결 모의투자 주문의 수량/지정가/발동가도 분할 비율로 환산
+ * 3. rights_issue: 가격 계수만 반영 (청약 여부를 알 수 없으므로 보유 수량은 변경하지 않음)
+ *
+ * 이미 같은 날짜의 split 거래를 직접 기록한 계좌는 건너뛰고 skipped로 기록
+ * 계좌 미지정(이관 전) 거래만 있는 보유분은 조정 대상에서 제외 (포트폴리오 조회 시 이관 후 수동 반영)
+ */
+
+import { ICorporateActionFacade } from '../facades/ICorporateActionFacade';
+import { ICorporateActionRepository } from '../repositories/ICorporateActionRepository';
+import { IStockRepository } from '../repositories/IStockRepository';
+import { IStockPriceRepository } from '../repositories/IStockPriceRepository';
+import { IPortfolioRepository } from '../repositories/IPortfolioRepository';
+import { IPortfolioTransactionRepository } from '../repositories/IPortfolioTransactionRepository';
+import { CreateCorporateActionDto } from '../dto/corporate/CreateCorporateActionDto';
+import { CorporateActionQueryDto } from '../dto/corporate/CorporateActionQueryDto';
+import { CorporateActionResponseDto } from '../dto/corporate/CorporateActionResponseDto';
+import { CorporateAction, CorporateActionAdjustment } from '../entities/CorporateAction';
+import { PortfolioTransaction } from '../entities/PortfolioTransaction';
+import { Stock } from '../entities/Stock';
+import { BadRequestError, ConflictError, NotFoundError } from '../errors/AppError';
+import { logger } from '../config/logger';
+import { cacheService } from './CacheService';
+import { createStepTracker } from '../utils/aop';
+import { executeTransaction, TRANSACTION_TIMEOUT } from '../utils/transaction';
+import { syncPositionFromLedger } from '../utils/portfolio-ledger';
+import { toDateKey } from '../utils/performance-metrics';
+import { toTradingDate } from '../providers/MarketDataProvider';
+import { CorporateActionRepositoryAdapter } from '../adapters/CorporateActionRepositoryAdapter';
+import { StockPriceRepositoryAdapter } from '../adapters/StockPriceRepositoryAdapter';
+import { PortfolioRepositoryAdapter } from '../adapters/PortfolioRepositoryAdapter';
+import { PortfolioTransactionRepositoryAdapter } from '../adapters/PortfolioTransactionRepositoryAdapter';
+import { PaperOrderRepositoryAdapter } from '../adapters/PaperOrderRepositoryAdapter';
+import { findStockByIdOrCode } from '../utils/stock-lookup';
+
+// 실행 통계에 남길 실패 이벤트 수
+const MAX_REPORTED_FAILURES = 20;
+
+/**
+ * 예정 이벤트 일괄 적용 통계
+ */
+export interface CorporateActionProcessStats {
+  due: number;
+  applied: number;
+  failed: number;
+  adjustedHoldings: number;
+  failures: Array<{ id: string; error: string }>;
+}
+
+export class CorporateActionService implements ICorporateActionFacade {
+  constructor(
+    private readonly corporateActionRepository: ICorporateActionRepository,
+    private readonly stockRepository: IStockRepository,
+    private readonly stockPriceRepository: IStockPriceRepository,
+    private readonly portfolioTransactionRepository: IPortfolioTransactionRepository
+  ) {}
+
+  async getActions(query: CorporateActionQueryDto): Promise<CorporateActionResponseDto[]> {
+    let stockId: string | undefined;
+    if (query.stockId) {
+      const stockResult = await findStockByIdOrCode(this.stockRepository, query.stockId);
+      if (!stockResult) {
+        throw new NotFoundError('Stock');
+      }
+      stockId = stockResult.id;
+    }
+
+    const actions = await this.corporateActionRepository.findAll({ stockId, status: query.status, type: query.type });
+    const stocks = await this.stockRepository.findMany([...new Set(actions.map((action) => action.stockId))]);
+    const stockMap = new Map(stocks.map((stock) => [stock.id, stock]));
+
+    return actions.map((action) => CorporateActionResponseDto.to(action, stockMap.get(action.stockId) ?? null));
+  }
+
+  async getAction(id: string): Promise<CorporateActionResponseDto> {
+    const action = await this.corporateActionRepository.findById(id);
+    if (!action) {
+      throw new NotFoundError('Corporate action');
+    }
+
+    const [stock, adjustments] = await Promise.all([
+      this.stockRepository.findById(action.stockId),
+      this.corporateActionRepository.findAdjustments(action.id),
+    ]);
+    return CorporateActionResponseDto.to(action, stock, adjustments);
+  }
+
+  async createAction(dto: CreateCorporateActionDto): Promise<CorporateActionResponseDto> {
+    const stockResult = await findStockByIdOrCode(this.stockRepository, dto.stockId);
+    if (!stockResult) {
+      throw new NotFoundError('Stock');
+    }
+    const { stock } = stockResult;
+
+    // 기준일은 KST 날짜 자정으로 정규화 (일봉 날짜와 비교)
+    const exDate = toTradingDate(dto.exDate);
+    if (await this.corporateActionRepository.findByKey(stock.id, dto.type, exDate)) {
+      throw new ConflictError(`Corporate action already exists: ${stock.code} ${dto.type} ${toDateKey(exDate)}`);
+    }
+
+    const action = await this.corporateActionRepository.create(
+      new CorporateAction(
+        '',
+        stock.id,
+        dto.type,
+        exDate,
+        dto.ratio,
+        dto.type === 'rights_issue' ? dto.subscriptionPrice ?? null : null,
+        null,
+        'pending',
+        dto.memo ?? null,
+        null,
+        new Date(),
+        new Date()
+      )
+    );
+
+    logger.info(`Corporate action registered: ${stock.code} ${action.type} ${toDateKey(exDate)} (ratio ${action.ratio})`);
+    return CorporateActionResponseDto.to(action, stock);
+  }
+
+  async deleteAction(id: string): Promise<void> {
+    const action = await this.corporateActionRepository.findById(id);
+    if (!action) {
+      throw new NotFoundError('Corporate action');
+    }
+    if (action.status === 'applied') {
+      throw new BadRequestError('Applied corporate actions cannot be deleted');
+    }
+
+    await this.corporateActionRepository.delete(id);
+  }
+
+  async applyAction(id: string): Promise<CorporateActionResponseDto> {
+    const tracker = createStepTracker('CorporateActionService.applyAction');
+
+    const action = await this.corporateActionRepository.findById(id);
+    if (!action) {
+      throw new NotFoundError('Corporate action');
+    }
+    if (action.status === 'applied') {
+      throw new ConflictError(`Corporate action already applied: ${id}`);
+    }
+    if (action.exDate.getTime() > Date.now()) {
+      throw new BadRequestError(`Corporate action cannot be applied before its ex-date: ${toDateKey(action.exDate)}`);
+    }
+
+    const stock = await this.stockRepository.findById(action.stockId);
+    if (!stock) {
+      throw new NotFoundError('Stock');
+    }
+
+    tracker.step('수정주가 계수 계산 시작');
+    const [previous] = await this.stockPriceRepository.findLatestBefore(stock.id, action.exDate, 1);
+    const factor = action.computeAdjustmentFactor(previous?.close ?? null);
+    tracker.step('수정주가 계수 계산 완료');
+
+    if (action.type === 'split') {
+      const unassigned = await this.portfolioTransactionRepository.countUnassignedByStock(stock.id);
+      if (unassigned > 0) {
+        logger.warn(`${unassigned} unassigned ledger entries for ${stock.code} are not adjusted by corporate action ${id}`);
+      }
+    }
+
+    tracker.step('이벤트 적용 시작');
+    const { pricesAdjusted, ordersAdjusted } = await executeTransaction(async (tx) => {
+      const corporateActionRepoWithTx = CorporateActionRepositoryAdapter.withTransaction(tx);
+
+      // 동시에 적용 요청이 들어온 경우 한 번만 반영
+      if (!(await corporateActionRepoWithTx.markApplied(action.id, factor))) {
+        throw new ConflictError(`Corporate action already applied: ${id}`);
+      }
+
+      const pricesAdjusted = await StockPriceRepositoryAdapter.withTransaction(tx).applyAdjustment(
+        stock.id,
+        action.exDate,
+        factor
+      );
+
+      let ordersAdjusted = 0;
+      if (action.type === 'split') {
+        const adjustments = await this.adjustHoldings(
+          action,
+          stock,
+          PortfolioRepositoryAdapter.withTransaction(tx),
+          PortfolioTransactionRepositoryAdapter.withTransaction(tx)
+        );
+        await corporateActionRepoWithTx.createAdjustments(adjustments);
+        ordersAdjusted = await PaperOrderRepositoryAdapter.withTransaction(tx).applySplit(stock.id, action.ratio);
+      }
+
+      return { pricesAdjusted, ordersAdjusted };
+    }, TRANSACTION_TIMEOUT.MAX);
+    tracker.step('이벤트 적용 완료');
+
+    // 수정주가가 바뀐 종목의 지표/스크리너 캐시 무효화
+    await cacheService.deletePattern(`stock:indicators:${stock.code}:*`);
+    await cacheService.deletePattern('screener:metrics:*');
+
+    logger.info(
+      `Corporate action applied: ${stock.code} ${action.type} ${toDateKey(action.exDate)} ` +
+        `(factor ${factor.toFixed(6)}, ${pricesAdjusted} prices, ${ordersAdjusted} open paper orders)`
+    );
+    tracker.finish();
+    return await this.getAction(action.id);
+  }
+
+  /**
+   * 기준일이 지난 예정 이벤트 일괄 적용 (스케줄 작업용)
+   * 기준일 순으로 처리하며 한 이벤트의 실패는 나머지 처리를 중단하지 않음
+   */
+  async applyDueActions(asOf: Date = new Date()): Promise<CorporateActionProcessStats> {
+    const due = await this.corporateActionRepository.findDue(asOf);
+    const stats: CorporateActionProcessStats = {
+      due: due.length,
+      applied: 0,
+      failed: 0,
+      adjustedHoldings: 0,
+      failures: [],
+    };
+
+    for (const action of due) {
+      try {
+        const result = await this.applyAction(action.id);
+        stats.applied++;
+        stats.adjustedHoldings += (result.adjustments ?? []).filter((adjustment) => adjustment.status === 'adjusted').length;
+      } catch (error) {
+        stats.failed++;
+        const message = error instanceof Error ? error.message : String(error);
+        if (stats.failures.length < MAX_REPORTED_FAILURES) {
+          stats.failures.push({ id: action.id, error: message });
+        }
+        logger.warn(`Corporate action ${action.id} failed to apply: ${message}`);
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * 분할 기준일 이전부터 보유한 계좌의 원장에 split 거래 기록 후 포지션 재계산
+   * 트랜잭션 내 Repository로 호출
+   */
+  private async adjustHoldings(
+    action: CorporateAction,
+    stock: Stock,
+    portfolioRepository: IPortfolioRepository,
+    transactionRepository: IPortfolioTransactionRepository
+  ): Promise<CorporateActionAdjustment[]> {
+    const exDateKey = toDateKey(action.exDate);
+    const accounts = await transactionRepository.findAccountsByStock(stock.id, action.exDate);
+    const adjustments: CorporateActionAdjustment[] = [];
+
+    for (const { userId, accountId } of accounts) {
+      const ledger = await transactionRepository.findByAccountAndStock(userId, accountId, stock.id);
+      // 기준일 전에 전량 매도한 계좌는 조정 대상 아님
+      const holdingAtExDate = PortfolioTransaction.derivePosition(ledger.filter((tx) => tx.executedAt < action.exDate));
+      if (holdingAtExDate.quantity <= 0) continue;
+
+      const before = PortfolioTransaction.derivePosition(ledger);
+      const record = (
+        status: 'adjusted' | 'skipped',
+        after: { quantity: number; averagePrice: number },
+        transactionId: string | null,
+        note: string | null
+      ) =>
+        adjustments.push(
+          new CorporateActionAdjustment(
+            '',
+            action.id,
+            userId,
+            accountId,
+            transactionId,
+            status,
+            before.quantity,
+            after.quantity,
+            before.averagePrice,
+            after.averagePrice,
+            note,
+            new Date()
+          )
+        );
+
+      // 사용자가 직접 기록한 분할 거래가 있으면 중복 반영하지 않음
+      if (ledger.some((tx) => tx.type === 'split' && toDateKey(tx.executedAt) === exDateKey)) {
+        record('skipped', before, null, 'Split already recorded in ledger');
+        continue;
+      }
+
+      const split = new PortfolioTransaction(
+        '',
+        userId,
+        accountId,
+        stock.id,
+        'split',
+        action.ratio,
+        0,
+        0,
+        action.exDate,
+        `기업 이벤트 자동 반영 (${action.id})`,
+        new Date()
+      );
+
+      // 병합 후 기존 매도 기록이 보유 수량을 초과하는 등 원장이 맞지 않으면 건너뜀
+      try {
+        PortfolioTransaction.derivePosition([...ledger, split]);
+      } catch (error) {
+        record('skipped', before, null, error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      const created = await transactionRepository.create(split);
+      const position = await syncPositionFromLedger(portfolioRepository, transactionRepository, userId, accountId, stock);
+      record(
+        'adjusted',
+        { quantity: position?.quantity ?? 0, averagePrice: position?.averagePrice ?? 0 },
+        created.id,
+        null
+      );
+    }
+
+    return adjustments;
+  }
+}
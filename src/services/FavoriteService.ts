@@ -3,6 +3,7 @@ import { IFavoriteRepository } from '../repositories/IFavoriteRepository';
 import { IStockRepository } from '../repositories/IStockRepository';
 import { FavoriteResponseDto } from '../dto/favorite/FavoriteResponseDto';
 import { CreateFavoriteDto } from '../dto/favorite/CreateFavoriteDto';
+import { UpdateFavoriteDto } from '../dto/favorite/UpdateFavoriteDto';
 import { Favorite } from '../entities/Favorite';
 import { Stock } from '../entities/Stock';
 import { NotFoundError, ConflictError } from '../errors/AppError';
@@ -12,34 +13,7 @@ import { Prisma } from '@prisma/client';
 import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
 import { FavoriteRepositoryAdapter } from '../adapters/FavoriteRepositoryAdapter';
 import { withMetrics, createStepTracker } from '../utils/aop';
-
-// UUID 형식 체크 헬퍼 함수
-const isUUID = (str: string): boolean => {
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-  return uuidRegex.test(str);
-};
-
-// stockId 또는 code로 Stock 조회
-const findStockByIdOrCode = async (
-  stockRepository: IStockRepository,
-  identifier: string
-): Promise<{ id: string; stock: Stock } | null> => {
-  // UUID 형식이면 findById 사용
-  if (isUUID(identifier)) {
-    const stock = await stockRepository.findById(identifier);
-    if (stock) {
-      return { id: stock.id, stock };
-    }
-  }
-  
-  // UUID가 아니거나 findById가 실패하면 code로 조회 시도
-  const stock = await stockRepository.findByCode(identifier);
-  if (stock) {
-    return { id: stock.id, stock };
-  }
-  
-  return null;
-};
+import { findStockByIdOrCode } from '../utils/stock-lookup';
 
 export class FavoriteService implements IFavoriteFacade {
   constructor(
@@ -136,7 +110,9 @@ export class FavoriteService implements IFavoriteFacade {
         tracker.step('중복 체크 완료');
 
         tracker.step('Favorite 생성 시작');
-        const favorite = new Favorite('', userId, actualStockId, new Date());
+        // 미분류 끝에 추가
+        const position = (await favoriteRepoWithTx.maxPosition(userId, null)) + 1;
+        const favorite = new Favorite('', userId, actualStockId, new Date(), null, position);
         const created = await favoriteRepoWithTx.create(favorite);
         tracker.step('Favorite 생성 완료');
 
@@ -149,6 +125,26 @@ export class FavoriteService implements IFavoriteFacade {
     );
   }
 
+  async updateFavorite(id: string, userId: string, dto: UpdateFavoriteDto): Promise<FavoriteResponseDto> {
+    const existing = await this.favoriteRepository.findById(id, userId);
+    if (!existing) {
+      throw new NotFoundError('Favorite');
+    }
+
+    const stock = await this.stockRepository.findById(existing.stockId);
+    if (!stock) {
+      throw new NotFoundError('Stock');
+    }
+
+    const updated = await this.favoriteRepository.update(id, {
+      ...(dto.memo !== undefined && { memo: dto.memo }),
+      ...(dto.targetPrice !== undefined && { targetPrice: dto.targetPrice }),
+    });
+
+    logger.info(`Favorite updated: ${id}`);
+    return FavoriteResponseDto.to(updated, stock);
+  }
+
   async removeFavorite(id: string, userId: string): Promise<void> {
     const tracker = createStepTracker('FavoriteService.removeFavorite');
     
@@ -0,0 +1,55 @@
+/**
+ * FX Rate Service
+ * 환율 공급원 → DB 동기화
+ */
+
+import { IFxRateRepository } from '../repositories/IFxRateRepository';
+import { FX_PAIRS, FxPair, FxRate } from '../entities/FxRate';
+import { FxRateSource, createFxRateSource } from '../providers/FxRateSource';
+import { logger } from '../config/logger';
+import { createStepTracker } from '../utils/aop';
+
+// 저장된 이력이 없을 때 최초 적재 기간
+const INITIAL_BACKFILL_DAYS = 365 * 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class FxRateService {
+  constructor(
+    private readonly fxRateRepository: IFxRateRepository,
+    private readonly source: FxRateSource = createFxRateSource()
+  ) {}
+
+  /**
+   * 환율 동기화
+   * 마지막 저장일 다음 날부터 오늘까지 적재 (이력이 없으면 최근 3년)
+   *
+   * @returns 환율 쌍별 반영 건수
+   */
+  async sync(pairs: readonly FxPair[] = FX_PAIRS, to: Date = new Date()): Promise<Record<string, number>> {
+    const tracker = createStepTracker('FxRateService.sync');
+    const result: Record<string, number> = {};
+
+    for (const pair of pairs) {
+      tracker.step(`${pair} 동기화 시작`);
+      const latest = await this.fxRateRepository.findLatest(pair);
+      const from = latest
+        ? new Date(latest.date.getTime() + DAY_MS)
+        : new Date(to.getTime() - INITIAL_BACKFILL_DAYS * DAY_MS);
+
+      if (from > to) {
+        result[pair] = 0;
+        continue;
+      }
+
+      const bars = await this.source.fetchDailyRates(pair, from, to);
+      result[pair] = await this.fxRateRepository.upsertMany(
+        bars.map((bar) => new FxRate('', bar.pair, bar.date, bar.rate, this.source.name))
+      );
+      tracker.step(`${pair} 동기화 완료`);
+    }
+
+    logger.info(`FX rates synced from ${this.source.name}: ${JSON.stringify(result)}`);
+    tracker.finish();
+    return result;
+  }
+}
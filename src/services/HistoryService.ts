@@ -1,43 +1,25 @@
-import { IHistoryFacade } from '../facades/IHistoryFacade';
+import { ContinueViewingItem, HistoryInsights, IHistoryFacade, ViewedStock } from '../facades/IHistoryFacade';
 import { IHistoryRepository } from '../repositories/IHistoryRepository';
 import { IStockRepository } from '../repositories/IStockRepository';
 import { HistoryResponseDto } from '../dto/history/HistoryResponseDto';
 import { CreateHistoryDto } from '../dto/history/CreateHistoryDto';
+import { HistoryInsightsQueryDto } from '../dto/history/HistoryInsightsQueryDto';
 import { History } from '../entities/History';
+import { Stock } from '../entities/Stock';
 import { NotFoundError } from '../errors/AppError';
 import { logger } from '../config/logger';
 import { executeTransaction, TRANSACTION_TIMEOUT } from '../utils/transaction';
 import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
 import { HistoryRepositoryAdapter } from '../adapters/HistoryRepositoryAdapter';
 import { createStepTracker } from '../utils/aop';
+import { buildSessions, countByWeek, recentWeekKeys, shareDrift, weekStartTime } from '../utils/history-insights';
+import { findStockByIdOrCode } from '../utils/stock-lookup';
 
-// UUID 형식 체크 헬퍼 함수
-const isUUID = (str: string): boolean => {
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-  return uuidRegex.test(str);
-};
-
-// stockId 또는 code로 Stock 조회
-const findStockByIdOrCode = async (
-  stockRepository: IStockRepository,
-  identifier: string
-): Promise<{ id: string; stock: any } | null> => {
-  // UUID 형식이면 findById 사용
-  if (isUUID(identifier)) {
-    const stock = await stockRepository.findById(identifier);
-    if (stock) {
-      return { id: stock.id, stock };
-    }
-  }
-  
-  // UUID가 아니거나 findById가 실패하면 code로 조회 시도
-  const stock = await stockRepository.findByCode(identifier);
-  if (stock) {
-    return { id: stock.id, stock };
-  }
-  
-  return null;
-};
+const MAX_INSIGHT_RECORDS = 5000; // 분석 대상 최근 조회 기록 상한
+const DEFAULT_SECTOR = '기타';
+const MINUTE_MS = 60 * 1000;
+
+const round = (value: number): number => Number(value.toFixed(2));
 
 export class HistoryService implements IHistoryFacade {
   constructor(
@@ -129,7 +111,7 @@ export class HistoryService implements IHistoryFacade {
         }
 
         tracker.step('History 생성 시작');
-        const history = new History('', userId, actualStockId, dto.type, new Date());
+        const history = new History('', userId, actualStockId, dto.type, new Date(), stock.currentPrice);
         const created = await historyRepoWithTx.create(history);
         tracker.step('History 생성 완료');
 
@@ -165,5 +147,124 @@ export class HistoryService implements IHistoryFacade {
 
     return HistoryResponseDto.to(recent, stock);
   }
-}
 
+  async getInsights(userId: string, query: HistoryInsightsQueryDto): Promise<HistoryInsights> {
+    const tracker = createStepTracker('HistoryService.getInsights');
+
+    const weekKeys = recentWeekKeys(new Date(), query.weeks);
+    const from = weekStartTime(weekKeys[0]);
+    const records = (await this.historyRepository.findSince(userId, from, MAX_INSIGHT_RECORDS)).filter(
+      (history) => history.type === 'view'
+    );
+    tracker.step('History 조회 완료');
+
+    const stocks = await this.stockRepository.findMany([...new Set(records.map((history) => history.stockId))]);
+    const stockMap = new Map(stocks.map((stock) => [stock.id, stock]));
+    const viewed = records.filter((history) => stockMap.has(history.stockId));
+    tracker.step('Stock 조회 완료');
+
+    const toViewedStocks = (counts: Map<string, number>, limit: number): ViewedStock[] =>
+      [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([stockId, views]) => {
+          const stock = stockMap.get(stockId)!;
+          return { stockId, code: stock.code, name: stock.name, sector: stock.sector || DEFAULT_SECTOR, views };
+        });
+
+    // 종목별 조회 수 (기간 전체 / 주별)
+    const totals = new Map<string, number>();
+    for (const history of viewed) {
+      totals.set(history.stockId, (totals.get(history.stockId) ?? 0) + 1);
+    }
+    const byStock = countByWeek(viewed, (history) => history.stockId);
+    const weekly = weekKeys.map((weekStart) => {
+      const counts = byStock.get(weekStart) ?? new Map<string, number>();
+      return {
+        weekStart,
+        totalViews: [...counts.values()].reduce((sum, n) => sum + n, 0),
+        topStocks: toViewedStocks(counts, 5),
+      };
+    });
+
+    // 섹터 관심 변화
+    const bySector = countByWeek(viewed, (history) => stockMap.get(history.stockId)!.sector || DEFAULT_SECTOR);
+    const sectorDrift = shareDrift(bySector, weekKeys).map(({ key, total, weekly: series, drift }) => ({
+      sector: key,
+      totalViews: total,
+      weekly: series,
+      drift,
+    }));
+
+    // 조회 세션과 종목별 체류 시간
+    const sessions = buildSessions(viewed);
+    const dwell = new Map<string, number>();
+    for (const session of sessions) {
+      for (const [stockId, ms] of session.dwellMs) {
+        dwell.set(stockId, (dwell.get(stockId) ?? 0) + ms);
+      }
+    }
+    const durations = sessions.map((session) => session.endedAt.getTime() - session.startedAt.getTime());
+    tracker.finish();
+
+    return {
+      weeks: query.weeks,
+      from,
+      totalViews: viewed.length,
+      mostViewed: toViewedStocks(totals, 10),
+      weekly,
+      sectorDrift,
+      sessions: {
+        count: sessions.length,
+        averageDurationMinutes:
+          sessions.length > 0 ? round(durations.reduce((sum, ms) => sum + ms, 0) / sessions.length / MINUTE_MS) : 0,
+        averageViews: sessions.length > 0 ? round(viewed.length / sessions.length) : 0,
+        topDwellStocks: [...dwell.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 5)
+          .map(([stockId, ms]) => ({
+            stockId,
+            code: stockMap.get(stockId)!.code,
+            name: stockMap.get(stockId)!.name,
+            dwellMinutes: round(ms / MINUTE_MS),
+          })),
+        recent: sessions
+          .slice(-5)
+          .reverse()
+          .map((session) => ({
+            startedAt: session.startedAt,
+            endedAt: session.endedAt,
+            durationMinutes: round((session.endedAt.getTime() - session.startedAt.getTime()) / MINUTE_MS),
+            views: session.views,
+            stocks: session.stockIds.map((stockId) => stockMap.get(stockId)!.code),
+          })),
+      },
+    };
+  }
+
+  async getContinueViewing(userId: string, limit: number = 10): Promise<ContinueViewingItem[]> {
+    const latest = await this.historyRepository.findLatestPerStock(userId, limit);
+    const stocks = await this.stockRepository.findMany(latest.map((history) => history.stockId));
+    const stockMap = new Map<string, Stock>(stocks.map((stock) => [stock.id, stock]));
+
+    return latest
+      .filter((history) => stockMap.has(history.stockId))
+      .map((history) => {
+        const stock = stockMap.get(history.stockId)!;
+        const priceChange = history.priceAtView !== null ? stock.currentPrice - history.priceAtView : null;
+
+        return {
+          stockId: stock.id,
+          code: stock.code,
+          name: stock.name,
+          market: stock.market,
+          lastViewedAt: history.viewedAt,
+          priceAtView: history.priceAtView,
+          currentPrice: stock.currentPrice,
+          priceChange,
+          priceChangeRate:
+            priceChange !== null && history.priceAtView! > 0 ? round((priceChange / history.priceAtView!) * 100) : null,
+        };
+      });
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Index Price Service
+ * 시장 지수 시세 공급원 → DB 동기화
+ */
+
+import { IIndexPriceRepository } from '../repositories/IIndexPriceRepository';
+import { IndexPrice, MARKET_INDEX_CODES, MarketIndexCode } from '../entities/IndexPrice';
+import { IndexPriceSource, createIndexPriceSource } from '../providers/IndexPriceSource';
+import { logger } from '../config/logger';
+import { createStepTracker } from '../utils/aop';
+
+// 저장된 이력이 없을 때 최초 적재 기간
+const INITIAL_BACKFILL_DAYS = 365 * 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class IndexPriceService {
+  constructor(
+    private readonly indexPriceRepository: IIndexPriceRepository,
+    private readonly source: IndexPriceSource = createIndexPriceSource()
+  ) {}
+
+  /**
+   * 지수 시세 동기화
+   * 마지막 저장일 다음 날부터 오늘까지 적재 (이력이 없으면 최근 3년)
+   *
+   * @returns 지수별 반영 건수
+   */
+  async sync(
+    codes: readonly MarketIndexCode[] = MARKET_INDEX_CODES,
+    to: Date = new Date()
+  ): Promise<Record<string, number>> {
+    const tracker = createStepTracker('IndexPriceService.sync');
+    const result: Record<string, number> = {};
+
+    for (const code of codes) {
+      tracker.step(`${code} 동기화 시작`);
+      const latest = await this.indexPriceRepository.findLatest(code);
+      const from = latest
+        ? new Date(latest.date.getTime() + DAY_MS)
+        : new Date(to.getTime() - INITIAL_BACKFILL_DAYS * DAY_MS);
+
+      if (from > to) {
+        result[code] = 0;
+        continue;
+      }
+
+      const bars = await this.source.fetchDailyPrices(code, from, to);
+      result[code] = await this.indexPriceRepository.upsertMany(
+        bars.map(
+          (bar) =>
+            new IndexPrice(
+              '',
+              bar.code,
+              bar.date,
+              bar.open,
+              bar.high,
+              bar.low,
+              bar.close,
+              bar.change,
+              bar.changeRate,
+              this.source.name
+            )
+        )
+      );
+      tracker.step(`${code} 동기화 완료`);
+    }
+
+    logger.info(`Index prices synced from ${this.source.name}: ${JSON.stringify(result)}`);
+    tracker.finish();
+    return result;
+  }
+}
@@ -8,6 +8,9 @@ import { Queue, Worker, QueueEvents } from 'bullmq';
 import { redis } from '../config/redis';
 import { logger } from '../config/logger';
 import { prisma } from '../config/prisma';
+import { INotificationFacade } from '../facades/INotificationFacade';
+import { NotificationService } from './NotificationService';
+import { NotificationRepositoryAdapter } from '../adapters/NotificationRepositoryAdapter';
 
 interface LearningJobData {
   userId: string;
@@ -39,7 +42,9 @@ export class LearningQueueService {
   private learningWorker: Worker<LearningJobData | LearningBatchJobData, LearningJobResult | LearningJobResult[]>;
   private queueEvents: QueueEvents;
 
-  constructor() {
+  constructor(
+    private readonly notificationFacade: INotificationFacade = new NotificationService(new NotificationRepositoryAdapter())
+  ) {
     // 큐 생성
     this.learningQueue = new Queue('learning', {
       connection: redis,
@@ -115,6 +120,7 @@ export class LearningQueueService {
           }
 
           logger.info(`Batch created ${created.count} learnings`);
+          await this.notifySaved(learnings as LearningJobResult[]);
           return learnings as LearningJobResult[];
         } else {
           // 단일 저장
@@ -148,6 +154,7 @@ export class LearningQueueService {
           }
 
           logger.info(`Created learning ${learning.id} for user ${data.userId}`);
+          await this.notifySaved([learning as LearningJobResult]);
           return learning as LearningJobResult;
         }
       },
@@ -222,6 +229,29 @@ export class LearningQueueService {
     };
   }
 
+  /**
+   * 저장 완료 알림 (사용자별 1건)
+   */
+  private async notifySaved(learnings: LearningJobResult[]) {
+    const byUser = new Map<string, LearningJobResult[]>();
+    for (const learning of learnings) {
+      byUser.set(learning.userId, [...(byUser.get(learning.userId) || []), learning]);
+    }
+
+    for (const [userId, saved] of byUser) {
+      await this.notificationFacade.notify(userId, {
+        type: 'learning',
+        title: '학습 내용 저장 완료',
+        message:
+          saved.length === 1
+            ? `"${saved[0].concept}" 학습 내용이 저장되었습니다.`
+            : `"${saved[0].concept}" 외 ${saved.length - 1}건의 학습 내용이 저장되었습니다.`,
+        data: { learningIds: saved.map((learning) => learning.id) },
+        link: '/learning',
+      });
+    }
+  }
+
   /**
    * 이벤트 핸들러 설정
    */
@@ -1,13 +1,60 @@
 import { prisma } from '../config/prisma';
 import { logger } from '../config/logger';
 import { UserActivityService } from './UserActivityService';
+import { INotificationFacade } from '../facades/INotificationFacade';
+import { NotificationService } from './NotificationService';
+import { NotificationRepositoryAdapter } from '../adapters/NotificationRepositoryAdapter';
+import { toDateKey } from '../utils/performance-metrics';
+
+// 일일 추천 알림 대상: 최근 활동이 있는 사용자
+const ACTIVE_USER_DAYS = 7;
 
 /**
  * 학습 추천 서비스
  * 사용자가 읽은 뉴스, 학습 이력, 관심 종목을 기반으로 일일 학습 추천 생성
  */
 export class LearningRecommendationService {
-  constructor(private readonly userActivityService: UserActivityService = new UserActivityService()) {}
+  constructor(
+    private readonly userActivityService: UserActivityService = new UserActivityService(),
+    private readonly notificationFacade: INotificationFacade = new NotificationService(new NotificationRepositoryAdapter())
+  ) {}
+
+  /**
+   * 일일 학습 추천 알림 발송 (스케줄러에서 호출)
+   * 최근 활동(종목 조회, 뉴스 읽기, 학습)이 있는 사용자에게 하루 한 번
+   */
+  async sendDailyRecommendations(now: Date = new Date()): Promise<{ users: number; sent: number; skipped: number }> {
+    const since = new Date(now.getTime() - ACTIVE_USER_DAYS * 24 * 60 * 60 * 1000);
+    const users = await prisma.user.findMany({
+      where: {
+        OR: [
+          { history: { some: { viewedAt: { gte: since } } } },
+          { newsActivities: { some: { createdAt: { gte: since } } } },
+          { learnings: { some: { createdAt: { gte: since } } } },
+        ],
+      },
+      select: { id: true },
+    });
+
+    const dateKey = toDateKey(now);
+    let sent = 0;
+    for (const user of users) {
+      const recommendations = await this.getTodayRecommendations(user.id);
+      if (recommendations.length === 0) continue;
+
+      const delivery = await this.notificationFacade.notify(user.id, {
+        type: 'recommendation',
+        title: '오늘의 학습 추천',
+        message: recommendations.map((recommendation) => recommendation.concept).join(', '),
+        data: { date: dateKey, recommendations },
+        link: '/learning',
+        dedupKey: `recommendation:${dateKey}`,
+      });
+      if (delivery.status === 'stored') sent++;
+    }
+
+    return { users: users.length, sent, skipped: users.length - sent };
+  }
 
   /**
    * 오늘의 학습 추천 생성
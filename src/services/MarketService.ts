@@ -3,8 +3,20 @@ import { MarketResponseDto } from '../dto/market/MarketResponseDto';
 import { logger } from '../config/logger';
 import { createStepTracker } from '../utils/aop';
 import { cacheService } from './CacheService';
+import { MARKET_SUMMARY_SYMBOLS, MarketDataProvider, getMarketDataProvider } from '../providers/MarketDataProvider';
+
+type MarketSummaryItem = { price: number; change: number; changePercent: number };
+
+// 시세 공급원 장애 시 기본값
+const FALLBACK_MARKET_DATA: Record<'kospi' | 'kosdaq' | 'usdKrw', MarketSummaryItem> = {
+  kospi: { price: 2650.5, change: 12.3, changePercent: 0.47 },
+  kosdaq: { price: 875.2, change: -5.1, changePercent: -0.58 },
+  usdKrw: { price: 1335.5, change: 2.3, changePercent: 0.17 },
+};
 
 export class MarketService implements IMarketFacade {
+  constructor(private readonly marketDataProvider: MarketDataProvider = getMarketDataProvider()) {}
+
   async getMarketData(): Promise<MarketResponseDto> {
     const tracker = createStepTracker('MarketService.getMarketData');
     
@@ -17,41 +29,30 @@ export class MarketService implements IMarketFacade {
         return cached;
       }
       
-      tracker.step('시장 데이터 계산 시작');
-      const baseKospi = 2650.5;
-      const baseKosdaq = 875.2;
-      const baseUsdKrw = 1335.5;
+      tracker.step('시장 데이터 조회 시작');
+      const quotes = await this.marketDataProvider.getQuotes([...MARKET_SUMMARY_SYMBOLS]);
+      const quoteMap = new Map(quotes.map((quote) => [quote.symbol, quote]));
 
-      const kospiVariation = (Math.random() - 0.5) * 5;
-      const kosdaqVariation = (Math.random() - 0.5) * 3;
-      const usdKrwVariation = (Math.random() - 0.5) * 2;
-
-      const kospiPrice = baseKospi + kospiVariation;
-      const kosdaqPrice = baseKosdaq + kosdaqVariation;
-      const usdKrwPrice = baseUsdKrw + usdKrwVariation;
-
-      const kospiChange = kospiVariation;
-      const kosdaqChange = kosdaqVariation;
-      const usdKrwChange = usdKrwVariation;
+      // 공급원에 시세가 없는 항목은 기본값 사용
+      const toSummary = (symbol: string, fallback: MarketSummaryItem): MarketSummaryItem => {
+        const quote = quoteMap.get(symbol);
+        if (!quote) {
+          logger.warn(`Market quote for ${symbol} unavailable from ${this.marketDataProvider.name}, using fallback`);
+          return fallback;
+        }
+        return {
+          price: Number(quote.price.toFixed(2)),
+          change: Number(quote.change.toFixed(2)),
+          changePercent: Number(quote.changeRate.toFixed(2)),
+        };
+      };
 
       const data = {
-        kospi: {
-          price: Number(kospiPrice.toFixed(2)),
-          change: Number(kospiChange.toFixed(2)),
-          changePercent: Number(((kospiChange / baseKospi) * 100).toFixed(2)),
-        },
-        kosdaq: {
-          price: Number(kosdaqPrice.toFixed(2)),
-          change: Number(kosdaqChange.toFixed(2)),
-          changePercent: Number(((kosdaqChange / baseKosdaq) * 100).toFixed(2)),
-        },
-        usdKrw: {
-          price: Number(usdKrwPrice.toFixed(2)),
-          change: Number(usdKrwChange.toFixed(2)),
-          changePercent: Number(((usdKrwChange / baseUsdKrw) * 100).toFixed(2)),
-        },
+        kospi: toSummary('KOSPI', FALLBACK_MARKET_DATA.kospi),
+        kosdaq: toSummary('KOSDAQ', FALLBACK_MARKET_DATA.kosdaq),
+        usdKrw: toSummary('USDKRW', FALLBACK_MARKET_DATA.usdKrw),
       };
-      tracker.step('시장 데이터 계산 완료');
+      tracker.step('시장 데이터 조회 완료');
 
       const result = MarketResponseDto.to(data);
       
@@ -64,11 +65,7 @@ export class MarketService implements IMarketFacade {
     } catch (error) {
       logger.error('MarketService.getMarketData error:', error);
       tracker.step('Fallback 데이터 반환');
-      const fallback = MarketResponseDto.to({
-        kospi: { price: 2650.5, change: 12.3, changePercent: 0.47 },
-        kosdaq: { price: 875.2, change: -5.1, changePercent: -0.58 },
-        usdKrw: { price: 1335.5, change: 2.3, changePercent: 0.17 },
-      });
+      const fallback = MarketResponseDto.to(FALLBACK_MARKET_DATA);
       tracker.finish();
       return fallback;
     }
@@ -0,0 +1,333 @@
+/**
+ * Market Stream Service
+ * /api/market/stream WebSocket 시세 구독 허브
+ *
+ * - 심볼별로 시세 공급원 구독을 하나만 유지하고, 구독 중인 연결에 체결을 팬아웃
+ *   (첫 구독자가 생기면 공급원 구독 시작, 마지막 구독자가 해제하면 종료)
+ * - 시장 요약(KOSPI/KOSDAQ/USDKRW)은 공용 타이머 하나로 전체 연결에 전송 (연결이 없으면 중지)
+ *
+ * 서버 → 클라이언트 메시지
+ * - market: 시장 요약 (연결 직후 + 10초 주기)
+ * - subscribed / unsubscribed: 처리한 코드와 현재 구독 목록
+ * - quote: 구독 직후 현재 시세
+ * - tick: 체결 (전일 종가 대비 등락 포함)
+ * - pong / error
+ */
+
+import { ZodError } from 'zod';
+import { IMarketFacade } from '../facades/IMarketFacade';
+import { IStockRepository } from '../repositories/IStockRepository';
+import { MarketStreamMessageDto, MAX_STREAM_SUBSCRIPTIONS } from '../dto/market/MarketStreamMessageDto';
+import { MarketDataProvider, MarketQuote, MarketTick, getMarketDataProvider } from '../providers/MarketDataProvider';
+import { logger } from '../config/logger';
+
+// 시장 요약 전송 주기
+const MARKET_SUMMARY_INTERVAL_MS = 10000;
+const STOCK_CODE_PATTERN = /^\d{6}$/;
+
+// WebSocket 타입 (Node.js WebSocket)
+type StreamSocket = {
+  send: (data: string) => void;
+  readyState: number;
+  on: (event: string, callback: (...args: any[]) => void) => void;
+};
+
+interface StreamClient {
+  socket: StreamSocket;
+  symbols: Set<string>;
+  pending: Set<string>; // 구독 처리 중인 심볼 (구독 한도 예약)
+}
+
+interface SymbolFeed {
+  subscribers: Set<StreamClient>;
+  unsubscribe: () => void; // 공급원 구독 해제
+  prevClose: number | null; // 등락 계산 기준 (구독 시점 시세로 설정)
+}
+
+const round2 = (value: number): number => Number(value.toFixed(2));
+
+export class MarketStreamService {
+  private readonly clients = new Set<StreamClient>();
+  private readonly feeds = new Map<string, SymbolFeed>();
+  private summaryTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly marketFacade: IMarketFacade,
+    private readonly stockRepository: IStockRepository,
+    private readonly provider: MarketDataProvider = getMarketDataProvider()
+  ) {}
+
+  /**
+   * WebSocket 연결 처리
+   */
+  async handleConnection(socket: StreamSocket): Promise<void> {
+    const client: StreamClient = { socket, symbols: new Set(), pending: new Set() };
+    this.clients.add(client);
+    this.startSummary();
+
+    socket.on('message', (message: Buffer) => {
+      void this.handleMessage(client, message);
+    });
+
+    socket.on('close', () => {
+      this.handleDisconnection(client);
+    });
+
+    socket.on('error', (error: Error) => {
+      logger.error('Market WebSocket error:', error);
+      this.handleDisconnection(client);
+    });
+
+    // 연결 성공 시 시장 요약 즉시 전송
+    await this.sendSummary([client]);
+  }
+
+  /**
+   * 활성 연결/공급원 구독 현황
+   */
+  getStats(): { connections: number; symbols: number } {
+    return { connections: this.clients.size, symbols: this.feeds.size };
+  }
+
+  /**
+   * 메시지 처리
+   */
+  private async handleMessage(client: StreamClient, message: Buffer): Promise<void> {
+    let dto: MarketStreamMessageDto;
+    try {
+      dto = MarketStreamMessageDto.from(JSON.parse(message.toString()));
+    } catch (error) {
+      const detail = error instanceof ZodError ? error.issues[0]?.message : undefined;
+      this.sendError(client.socket, detail ?? 'Invalid message format');
+      return;
+    }
+
+    try {
+      switch (dto.action) {
+        case 'subscribe':
+          await this.subscribe(client, dto.codes ?? []);
+          break;
+        case 'unsubscribe':
+          this.unsubscribe(client, dto.codes ?? [...client.symbols]);
+          break;
+        case 'ping':
+          this.send(client.socket, { type: 'pong' });
+          break;
+      }
+    } catch (error) {
+      logger.error('Market WebSocket message error:', error);
+      this.sendError(client.socket, 'Failed to process message');
+    }
+  }
+
+  /**
+   * 구독 추가 (존재하지 않는 종목 코드는 unknown으로 응답)
+   */
+  private async subscribe(client: StreamClient, codes: string[]): Promise<void> {
+    const requested = [...new Set(codes)].filter((code) => !client.symbols.has(code) && !client.pending.has(code));
+    if (client.symbols.size + client.pending.size + requested.length > MAX_STREAM_SUBSCRIPTIONS) {
+      this.sendError(client.socket, `Up to ${MAX_STREAM_SUBSCRIPTIONS} subscriptions are allowed per connection`);
+      return;
+    }
+
+    // 한도 확인과 같은 동기 구간에서 슬롯 예약 (조회 대기 중 들어온 구독 요청도 한도에 포함)
+    requested.forEach((code) => client.pending.add(code));
+
+    let accepted: string[];
+    let unknown: string[];
+    let quotes: MarketQuote[];
+    try {
+      // 종목 코드만 DB 존재 확인 (지수/환율 심볼 제외)
+      const stockCodes = requested.filter((code) => STOCK_CODE_PATTERN.test(code));
+      const stocks = await this.stockRepository.findByCodes(stockCodes);
+      const knownCodes = new Set(stocks.map((stock) => stock.code));
+      unknown = stockCodes.filter((code) => !knownCodes.has(code));
+      accepted = requested.filter((code) => !unknown.includes(code));
+
+      // 현재 시세를 먼저 조회해 첫 체결부터 등락 계산 기준가 확보
+      quotes = accepted.length > 0 ? await this.fetchQuotes(accepted) : [];
+    } finally {
+      // 예약 해제 (실패/unknown 포함, 성공분은 아래에서 symbols로 옮김)
+      requested.forEach((code) => client.pending.delete(code));
+    }
+    const quoteMap = new Map(quotes.map((quote) => [quote.symbol, quote]));
+
+    // 조회 중 연결이 닫힌 경우 구독하지 않음
+    if (!this.clients.has(client)) return;
+
+    for (const code of accepted) {
+      client.symbols.add(code);
+      this.attach(code, client, quoteMap.get(code));
+    }
+
+    this.send(client.socket, {
+      type: 'subscribed',
+      codes: accepted,
+      subscriptions: [...client.symbols],
+      ...(unknown.length > 0 && { unknown }),
+    });
+
+    for (const quote of quotes) {
+      this.send(client.socket, {
+        type: 'quote',
+        code: quote.symbol,
+        price: quote.price,
+        change: quote.change,
+        changeRate: quote.changeRate,
+        volume: quote.volume,
+        timestamp: quote.timestamp.toISOString(),
+      });
+    }
+  }
+
+  /**
+   * 구독 해제
+   */
+  private unsubscribe(client: StreamClient, codes: string[]): void {
+    const removed = [...new Set(codes)].filter((code) => client.symbols.has(code));
+    for (const code of removed) {
+      client.symbols.delete(code);
+      this.detach(code, client);
+    }
+
+    this.send(client.socket, {
+      type: 'unsubscribed',
+      codes: removed,
+      subscriptions: [...client.symbols],
+    });
+  }
+
+  /**
+   * 심볼 구독자 추가 (첫 구독자면 공급원 구독 시작)
+   */
+  private attach(symbol: string, client: StreamClient, quote?: MarketQuote): void {
+    const prevClose = quote ? quote.price - quote.change : null;
+    const feed = this.feeds.get(symbol);
+    if (feed) {
+      feed.subscribers.add(client);
+      feed.prevClose ??= prevClose;
+      return;
+    }
+
+    const created: SymbolFeed = { subscribers: new Set([client]), unsubscribe: () => {}, prevClose };
+    this.feeds.set(symbol, created);
+    created.unsubscribe = this.provider.subscribe([symbol], (tick) => this.broadcastTick(tick));
+    logger.debug(`Market stream feed started: ${symbol}`);
+  }
+
+  /**
+   * 심볼 구독자 제거 (마지막 구독자면 공급원 구독 종료)
+   */
+  private detach(symbol: string, client: StreamClient): void {
+    const feed = this.feeds.get(symbol);
+    if (!feed) return;
+
+    feed.subscribers.delete(client);
+    if (feed.subscribers.size === 0) {
+      feed.unsubscribe();
+      this.feeds.delete(symbol);
+      logger.debug(`Market stream feed stopped: ${symbol}`);
+    }
+  }
+
+  /**
+   * 체결 팬아웃 (직렬화는 한 번만)
+   */
+  private broadcastTick(tick: MarketTick): void {
+    const feed = this.feeds.get(tick.symbol);
+    if (!feed) return;
+
+    const change = feed.prevClose !== null ? tick.price - feed.prevClose : null;
+    const payload = JSON.stringify({
+      type: 'tick',
+      code: tick.symbol,
+      price: tick.price,
+      change: change !== null ? round2(change) : null,
+      changeRate: change !== null && feed.prevClose ? round2((change / feed.prevClose) * 100) : null,
+      volume: tick.volume,
+      timestamp: tick.timestamp.toISOString(),
+    });
+
+    for (const client of feed.subscribers) {
+      this.sendRaw(client.socket, payload);
+    }
+  }
+
+  /**
+   * 구독 시점 현재 시세 (공급원 장애 시 빈 목록)
+   */
+  private async fetchQuotes(symbols: string[]): Promise<MarketQuote[]> {
+    try {
+      return await this.provider.getQuotes(symbols);
+    } catch (error) {
+      logger.warn('Market stream quote snapshot failed:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 시장 요약 공용 타이머 시작 (이미 실행 중이면 유지)
+   */
+  private startSummary(): void {
+    if (this.summaryTimer) return;
+
+    this.summaryTimer = setInterval(() => {
+      void this.sendSummary([...this.clients]);
+    }, MARKET_SUMMARY_INTERVAL_MS);
+    this.summaryTimer.unref?.();
+  }
+
+  private async sendSummary(clients: StreamClient[]): Promise<void> {
+    if (clients.length === 0) return;
+
+    try {
+      const data = await this.marketFacade.getMarketData();
+      const payload = JSON.stringify({
+        type: 'market',
+        kospi: data.kospi,
+        kosdaq: data.kosdaq,
+        usdKrw: data.usdKrw,
+      });
+      for (const client of clients) {
+        this.sendRaw(client.socket, payload);
+      }
+    } catch (error) {
+      logger.error('Failed to send market data update:', error);
+    }
+  }
+
+  /**
+   * 연결 해제 처리 (구독 정리, 마지막 연결이면 요약 타이머 중지)
+   */
+  private handleDisconnection(client: StreamClient): void {
+    if (!this.clients.delete(client)) return;
+
+    for (const symbol of client.symbols) {
+      this.detach(symbol, client);
+    }
+    client.symbols.clear();
+
+    if (this.clients.size === 0 && this.summaryTimer) {
+      clearInterval(this.summaryTimer);
+      this.summaryTimer = null;
+    }
+    logger.info('Market WebSocket connection closed');
+  }
+
+  private send(socket: StreamSocket, data: unknown): void {
+    this.sendRaw(socket, JSON.stringify(data));
+  }
+
+  private sendRaw(socket: StreamSocket, payload: string): void {
+    if (socket.readyState !== 1) return; // WebSocket.OPEN = 1
+    try {
+      socket.send(payload);
+    } catch (error) {
+      logger.warn('Market WebSocket send failed:', error);
+    }
+  }
+
+  private sendError(socket: StreamSocket, message: string): void {
+    this.send(socket, { type: 'error', error: message });
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * News Ingestion Service
+ * 수집한 뉴스 → News/NewsStock 적재 (뉴스 수집기에서 호출)
+ *
+ * - 같은 URL의 뉴스는 한 번만 적재 (중복은 건너뜀)
+ * - 연결 종목은 종목 코드로 지정하며, 등록되지 않은 코드는 무시
+ * - 새로 적재한 뉴스는 바로 알림 평가 큐에 등록 (부정 뉴스 알림)
+ */
+
+import { INewsRepository } from '../repositories/INewsRepository';
+import { IStockRepository } from '../repositories/IStockRepository';
+import { IAlertFacade } from '../facades/IAlertFacade';
+import { News } from '../entities/News';
+import { logger } from '../config/logger';
+import { createStepTracker } from '../utils/aop';
+
+/**
+ * 적재할 뉴스 (수집기 파싱 결과)
+ */
+export interface NewsIngestionItem {
+  title: string;
+  content: string;
+  summary?: string | null;
+  source: string;
+  url?: string | null;
+  publishedAt: Date;
+  sentiment?: string | null; // positive, negative, neutral
+  sentimentScore?: number | null;
+  thumbnailUrl?: string | null;
+  stockCodes: string[];
+}
+
+/**
+ * 실행 통계
+ */
+export interface NewsIngestionStats {
+  received: number;
+  inserted: number;
+  duplicates: number; // 같은 URL이 이미 있어 건너뜀
+}
+
+export class NewsIngestionService {
+  constructor(
+    private readonly newsRepository: INewsRepository,
+    private readonly stockRepository: IStockRepository,
+    private readonly alertFacade: IAlertFacade
+  ) {}
+
+  /**
+   * 뉴스 적재 후 알림 평가 요청
+   */
+  async ingest(items: NewsIngestionItem[]): Promise<NewsIngestionStats> {
+    const tracker = createStepTracker('NewsIngestionService.ingest');
+    const stats: NewsIngestionStats = { received: items.length, inserted: 0, duplicates: 0 };
+
+    tracker.step('종목 조회 시작');
+    const stocks = await this.stockRepository.findByCodes([...new Set(items.flatMap((item) => item.stockCodes))]);
+    const stockIdByCode = new Map(stocks.map((stock) => [stock.code, stock.id]));
+    tracker.step('종목 조회 완료');
+
+    tracker.step('뉴스 적재 시작');
+    const insertedIds: string[] = [];
+    for (const item of items) {
+      const stockIds = [
+        ...new Set(item.stockCodes.map((code) => stockIdByCode.get(code)).filter((id): id is string => !!id)),
+      ];
+      const created = await this.newsRepository.create(
+        new News(
+          '',
+          item.title,
+          item.content,
+          item.summary ?? null,
+          item.source,
+          item.url ?? null,
+          item.publishedAt,
+          item.sentiment ?? null,
+          item.sentimentScore ?? null,
+          item.thumbnailUrl ?? null,
+          new Date(),
+          new Date()
+        ),
+        stockIds
+      );
+
+      if (created) {
+        stats.inserted++;
+        insertedIds.push(created.id);
+      } else {
+        stats.duplicates++;
+      }
+    }
+    tracker.step('뉴스 적재 완료');
+
+    tracker.step('알림 평가 요청 시작');
+    // 알림 평가 실패가 적재 결과에 영향을 주지 않도록 분리
+    try {
+      await this.alertFacade.enqueueNewsInserts(insertedIds);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Alert evaluation enqueue failed after news ingestion: ${message}`);
+    }
+    tracker.step('알림 평가 요청 완료');
+
+    logger.info(`News ingested: ${stats.inserted}/${stats.received} (duplicates ${stats.duplicates})`);
+    tracker.finish();
+    return stats;
+  }
+}
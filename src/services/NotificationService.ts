@@ -0,0 +1,157 @@
+/**
+ * Notification Service
+ * 인앱 알림 수신함 (종목 알림, 학습 저장, 백테스트 완료, 일일 학습 추천)
+ *
+ * - 각 기능은 notify()로 알림을 남기고, 유형별 수신 설정에 따라 기록/실시간 전송
+ * - 실시간 전송은 WebSocket 사용자 채널(/api/ws)로 { type: 'notification', data, unread } 발행
+ */
+
+import { INotificationFacade, NotificationDelivery, NotificationInput } from '../facades/INotificationFacade';
+import { INotificationRepository } from '../repositories/INotificationRepository';
+import { NotificationRepositoryAdapter } from '../adapters/NotificationRepositoryAdapter';
+import { NotificationResponseDto } from '../dto/notification/NotificationResponseDto';
+import { NotificationPreferenceResponseDto } from '../dto/notification/NotificationPreferenceResponseDto';
+import { UpdateNotificationPreferencesDto } from '../dto/notification/UpdateNotificationPreferencesDto';
+import {
+  Notification,
+  NotificationPreference,
+  NotificationType,
+  NOTIFICATION_TYPES,
+} from '../entities/Notification';
+import { NotFoundError } from '../errors/AppError';
+import { logger } from '../config/logger';
+import { executeTransaction, TRANSACTION_TIMEOUT } from '../utils/transaction';
+import { publishToUser } from './WebSocketService';
+
+export class NotificationService implements INotificationFacade {
+  constructor(private readonly notificationRepository: INotificationRepository) {}
+
+  async getNotifications(
+    userId: string,
+    filter: { type?: NotificationType; unreadOnly?: boolean; limit?: number; offset?: number } = {}
+  ): Promise<{ data: NotificationResponseDto[]; total: number; unread: number }> {
+    const result = await this.notificationRepository.findAll(userId, filter);
+
+    return {
+      data: result.data.map((notification) => NotificationResponseDto.to(notification)),
+      total: result.total,
+      unread: result.unread,
+    };
+  }
+
+  async markRead(id: string, userId: string): Promise<NotificationResponseDto> {
+    const notification = await this.notificationRepository.findById(id, userId);
+    if (!notification) {
+      throw new NotFoundError('Notification');
+    }
+
+    if (notification.readAt === null) {
+      await this.notificationRepository.markRead(userId, [notification.id]);
+      return NotificationResponseDto.to({ ...notification, readAt: new Date() });
+    }
+    return NotificationResponseDto.to(notification);
+  }
+
+  async markAllRead(userId: string): Promise<number> {
+    return await this.notificationRepository.markRead(userId);
+  }
+
+  async deleteNotification(id: string, userId: string): Promise<void> {
+    const notification = await this.notificationRepository.findById(id, userId);
+    if (!notification) {
+      throw new NotFoundError('Notification');
+    }
+
+    await this.notificationRepository.delete(notification.id);
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferenceResponseDto[]> {
+    const preferences = await this.loadPreferences(userId);
+    return [...preferences.values()].map((preference) => NotificationPreferenceResponseDto.to(preference));
+  }
+
+  async updatePreferences(
+    userId: string,
+    dto: UpdateNotificationPreferencesDto
+  ): Promise<NotificationPreferenceResponseDto[]> {
+    const current = await this.loadPreferences(userId);
+    const updated = dto.preferences.map((input) => {
+      const existing = current.get(input.type)!;
+      return new NotificationPreference(
+        userId,
+        input.type,
+        input.enabled ?? existing.enabled,
+        input.push ?? existing.push
+      );
+    });
+
+    await executeTransaction(async (tx) => {
+      await NotificationRepositoryAdapter.withTransaction(tx).upsertPreferences(updated);
+    }, TRANSACTION_TIMEOUT.DEFAULT);
+
+    return await this.getPreferences(userId);
+  }
+
+  async notify(
+    userId: string,
+    input: NotificationInput,
+    options: { push?: boolean } = {}
+  ): Promise<NotificationDelivery> {
+    try {
+      const preferences = await this.loadPreferences(userId);
+      const preference = preferences.get(input.type)!;
+      if (!preference.enabled) {
+        return { status: 'disabled', pushed: false, notification: null };
+      }
+      if (input.dedupKey && (await this.notificationRepository.existsByDedupKey(userId, input.dedupKey))) {
+        return { status: 'duplicate', pushed: false, notification: null };
+      }
+
+      const notification = NotificationResponseDto.to(
+        await this.notificationRepository.create(
+          new Notification(
+            '',
+            userId,
+            input.type,
+            input.title,
+            input.message,
+            input.data ?? null,
+            input.link ?? null,
+            input.dedupKey ?? null,
+            null,
+            new Date()
+          )
+        )
+      );
+
+      // 실시간 전송 실패는 수신함 기록에 영향 없음
+      let pushed = false;
+      if (preference.push && options.push !== false) {
+        try {
+          const unread = await this.notificationRepository.countUnread(userId);
+          await publishToUser(userId, { type: 'notification', data: notification, unread });
+          pushed = true;
+        } catch (error) {
+          logger.warn(`Notification push failed: ${notification.id}`, error);
+        }
+      }
+
+      return { status: 'stored', pushed, notification };
+    } catch (error) {
+      logger.error(`Failed to create ${input.type} notification for user ${userId}:`, error);
+      return { status: 'failed', pushed: false, notification: null };
+    }
+  }
+
+  /**
+   * 전체 유형 수신 설정 (저장되지 않은 유형은 기본값)
+   */
+  private async loadPreferences(userId: string): Promise<Map<NotificationType, NotificationPreference>> {
+    const saved = await this.notificationRepository.findPreferences(userId);
+    const savedMap = new Map(saved.map((preference) => [preference.type, preference]));
+
+    return new Map(
+      NOTIFICATION_TYPES.map((type) => [type, savedMap.get(type) ?? NotificationPreference.defaults(userId, type)])
+    );
+  }
+}
@@ -0,0 +1,470 @@
+import { IPaperTradingFacade, PaperAccountSummary, PaperOrderMatchResult } from '../facades/IPaperTradingFacade';
+import { IPaperAccountRepository } from '../repositories/IPaperAccountRepository';
+import { IPaperOrderRepository, PaperOrderFilter } from '../repositories/IPaperOrderRepository';
+import { IPortfolioRepository } from '../repositories/IPortfolioRepository';
+import { IStockRepository } from '../repositories/IStockRepository';
+import { IStockPriceRepository } from '../repositories/IStockPriceRepository';
+import { ICorporateActionRepository } from '../repositories/ICorporateActionRepository';
+import { OpenPaperAccountDto } from '../dto/paper/OpenPaperAccountDto';
+import { CreatePaperOrderDto } from '../dto/paper/CreatePaperOrderDto';
+import { PaperOrderResponseDto } from '../dto/paper/PaperOrderResponseDto';
+import { PaperAccount, PAPER_PORTFOLIO_ACCOUNT_NAME } from '../entities/PaperAccount';
+import { PaperOrder, PaperOrderStatus, PaperPriceBar } from '../entities/PaperOrder';
+import { PortfolioAccount } from '../entities/PortfolioAccount';
+import { PortfolioTransaction } from '../entities/PortfolioTransaction';
+import { Stock } from '../entities/Stock';
+import { NotFoundError, ConflictError, BadRequestError } from '../errors/AppError';
+import { logger } from '../config/logger';
+import { executeTransaction, TRANSACTION_TIMEOUT } from '../utils/transaction';
+import { createStepTracker } from '../utils/aop';
+import { syncPositionFromLedger } from '../utils/portfolio-ledger';
+import { PaperAccountRepositoryAdapter } from '../adapters/PaperAccountRepositoryAdapter';
+import { PaperOrderRepositoryAdapter } from '../adapters/PaperOrderRepositoryAdapter';
+import { PortfolioAccountRepositoryAdapter } from '../adapters/PortfolioAccountRepositoryAdapter';
+import { PortfolioRepositoryAdapter } from '../adapters/PortfolioRepositoryAdapter';
+import { PortfolioTransactionRepositoryAdapter } from '../adapters/PortfolioTransactionRepositoryAdapter';
+import { findStockByIdOrCode } from '../utils/stock-lookup';
+
+// 현재가를 시가=고가=저가인 가격 구간으로 변환 (장중 매칭용)
+const currentPriceBar = (stock: Stock): PaperPriceBar | null =>
+  stock.currentPrice > 0 ? { open: stock.currentPrice, high: stock.currentPrice, low: stock.currentPrice } : null;
+
+export class PaperTradingService implements IPaperTradingFacade {
+  constructor(
+    private readonly paperAccountRepository: IPaperAccountRepository,
+    private readonly paperOrderRepository: IPaperOrderRepository,
+    private readonly portfolioRepository: IPortfolioRepository,
+    private readonly stockRepository: IStockRepository,
+    private readonly stockPriceRepository: IStockPriceRepository,
+    private readonly corporateActionRepository: ICorporateActionRepository
+  ) {}
+
+  /**
+   * 모의투자 계좌 현황
+   */
+  async getAccount(userId: string): Promise<PaperAccountSummary> {
+    const account = await this.paperAccountRepository.findByUser(userId);
+    if (!account) {
+      throw new NotFoundError('Paper account');
+    }
+
+    return await this.summarize(account);
+  }
+
+  /**
+   * 모의투자 계좌 개설
+   * 체결 내역을 기록할 포트폴리오 계좌(type: paper)를 함께 생성
+   */
+  async openAccount(userId: string, dto: OpenPaperAccountDto): Promise<PaperAccountSummary> {
+    const account = await executeTransaction(async (tx) => {
+      const paperAccountRepoWithTx = PaperAccountRepositoryAdapter.withTransaction(tx);
+      const accountRepoWithTx = PortfolioAccountRepositoryAdapter.withTransaction(tx);
+
+      if (await paperAccountRepoWithTx.findByUser(userId)) {
+        throw new ConflictError('Paper account already exists');
+      }
+      if (await accountRepoWithTx.findByName(userId, PAPER_PORTFOLIO_ACCOUNT_NAME)) {
+        throw new ConflictError(`Portfolio account name already in use: ${PAPER_PORTFOLIO_ACCOUNT_NAME}`);
+      }
+
+      const portfolioAccount = await accountRepoWithTx.create(
+        new PortfolioAccount('', userId, PAPER_PORTFOLIO_ACCOUNT_NAME, 'paper', null, false, new Date(), new Date())
+      );
+
+      return await paperAccountRepoWithTx.create(
+        new PaperAccount(
+          '',
+          userId,
+          portfolioAccount.id,
+          dto.initialCash,
+          dto.initialCash,
+          dto.commissionRate,
+          dto.taxRate,
+          new Date(),
+          new Date()
+        )
+      );
+    }, TRANSACTION_TIMEOUT.DEFAULT);
+
+    logger.info(`Paper account opened for user ${userId} with ${dto.initialCash} cash`);
+    return await this.summarize(account);
+  }
+
+  /**
+   * 모의투자 계좌 해지 (포트폴리오 계좌, 보유 종목, 주문 내역 모두 삭제)
+   * 다시 개설하면 초기 자금으로 재시작
+   */
+  async closeAccount(userId: string): Promise<void> {
+    const account = await this.paperAccountRepository.findByUser(userId);
+    if (!account) {
+      throw new NotFoundError('Paper account');
+    }
+
+    await executeTransaction(async (tx) => {
+      // 포트폴리오 계좌 삭제 시 모의투자 계좌/주문/원장이 함께 삭제됨 (Cascade)
+      await PortfolioAccountRepositoryAdapter.withTransaction(tx).delete(account.portfolioAccountId);
+    }, TRANSACTION_TIMEOUT.DEFAULT);
+
+    logger.info(`Paper account closed for user ${userId}`);
+  }
+
+  async getOrders(userId: string, filter: PaperOrderFilter = {}): Promise<{
+    data: PaperOrderResponseDto[];
+    total: number;
+  }> {
+    const result = await this.paperOrderRepository.findAll(userId, filter);
+    const stocks = await this.stockRepository.findMany([...new Set(result.data.map((order) => order.stockId))]);
+    const stockMap = new Map(stocks.map((stock) => [stock.id, stock]));
+
+    return {
+      data: result.data
+        .filter((order) => stockMap.has(order.stockId))
+        .map((order) => PaperOrderResponseDto.to(order, stockMap.get(order.stockId)!)),
+      total: result.total,
+    };
+  }
+
+  /**
+   * 주문 접수
+   * market 주문은 현재가로 즉시 체결, limit/stop 주문은 미체결로 두고 매칭 작업이 체결
+   */
+  async placeOrder(userId: string, dto: CreatePaperOrderDto): Promise<PaperOrderResponseDto> {
+    const tracker = createStepTracker('PaperTradingService.placeOrder');
+
+    tracker.step('계좌 및 종목 확인 시작');
+    const account = await this.paperAccountRepository.findByUser(userId);
+    if (!account) {
+      throw new NotFoundError('Paper account');
+    }
+
+    const stockResult = await findStockByIdOrCode(this.stockRepository, dto.stockId);
+    if (!stockResult) {
+      throw new NotFoundError('Stock');
+    }
+    const { stock } = stockResult;
+    if (stock.currency !== 'KRW') {
+      throw new BadRequestError('Paper trading supports KRW-denominated stocks only');
+    }
+    if (dto.type === 'market' && stock.currentPrice <= 0) {
+      throw new BadRequestError(`No market price available for ${stock.code}`);
+    }
+    tracker.step('계좌 및 종목 확인 완료');
+
+    tracker.step('주문 가능 여부 확인 시작');
+    const order = new PaperOrder(
+      '',
+      userId,
+      account.id,
+      stock.id,
+      dto.side,
+      dto.type,
+      dto.quantity,
+      dto.limitPrice,
+      dto.stopPrice,
+      'open',
+      null,
+      0,
+      0,
+      null,
+      null,
+      null,
+      new Date(),
+      new Date()
+    );
+    const openOrders = await this.paperOrderRepository.findOpen(account.id);
+
+    if (dto.side === 'buy') {
+      const reservedCash = await this.reservedCash(account, openOrders);
+      const amount = dto.quantity * order.reservePrice(stock.currentPrice);
+      const required = amount + account.feesFor('buy', amount).commission;
+      const available = account.cash - reservedCash;
+      if (required > available) {
+        throw new BadRequestError(`Insufficient paper cash: available ${available}, required ${required}`);
+      }
+    } else {
+      const holding = await this.portfolioRepository.findByAccountAndStock(
+        userId,
+        account.portfolioAccountId,
+        stock.id
+      );
+      const pendingSell = openOrders
+        .filter((open) => open.side === 'sell' && open.stockId === stock.id)
+        .reduce((sum, open) => sum + open.quantity, 0);
+      const available = (holding?.quantity ?? 0) - pendingSell;
+      if (dto.quantity > available) {
+        throw new BadRequestError(`Insufficient holdings of ${stock.code}: available ${available}`);
+      }
+    }
+    tracker.step('주문 가능 여부 확인 완료');
+
+    tracker.step('주문 접수 시작');
+    const created = await this.paperOrderRepository.create(order);
+    if (created.type === 'market') {
+      await this.fill(created, stock, stock.currentPrice, new Date());
+    }
+    tracker.step('주문 접수 완료');
+
+    const result = (await this.paperOrderRepository.findById(created.id, userId)) ?? created;
+    logger.info(`Paper order ${result.id} ${result.side} ${result.quantity} ${stock.code} (${result.type}): ${result.status}`);
+    tracker.finish();
+
+    return PaperOrderResponseDto.to(result, stock);
+  }
+
+  /**
+   * 미체결 주문 취소
+   */
+  async cancelOrder(id: string, userId: string): Promise<PaperOrderResponseDto> {
+    const order = await this.paperOrderRepository.findById(id, userId);
+    if (!order) {
+      throw new NotFoundError('Paper order');
+    }
+    if (order.status !== 'open') {
+      throw new BadRequestError(`Only open orders can be cancelled (status: ${order.status})`);
+    }
+
+    const cancelled = await this.paperOrderRepository.updateIfOpen(id, { status: 'cancelled' });
+    if (!cancelled) {
+      throw new ConflictError('Paper order was filled or cancelled concurrently');
+    }
+
+    const stock = await this.stockRepository.findById(order.stockId);
+    if (!stock) {
+      throw new NotFoundError('Stock');
+    }
+
+    return PaperOrderResponseDto.to((await this.paperOrderRepository.findById(id, userId))!, stock);
+  }
+
+  /**
+   * 미체결 주문 매칭 (스케줄 작업)
+   *
+   * 주문 접수 이후 일봉 → 현재가 순으로 가격 구간을 확인하여 처음 조건을 만족한 가격으로 체결
+   * 체결 시점에 현금/보유 수량이 부족하면 rejected 처리
+   *
+   * 액면분할 적용 시 미체결 주문의 가격/수량도 분할 기준으로 바뀌므로 일봉은 수정주가로 비교
+   * - 기준일이 지났지만 아직 적용되지 않은 분할이 있는 종목은 적용될 때까지 매칭 보류
+   * - 마지막 분할 기준일 이후 갱신되지 않은 현재가는 분할 이전 가격이므로 사용하지 않음
+   */
+  async matchOpenOrders(now: Date = new Date()): Promise<PaperOrderMatchResult> {
+    const tracker = createStepTracker('PaperTradingService.matchOpenOrders');
+    const result: PaperOrderMatchResult = { checked: 0, filled: 0, rejected: 0, failed: 0 };
+
+    tracker.step('미체결 주문 조회 시작');
+    const orders = await this.paperOrderRepository.findOpen();
+    if (orders.length === 0) {
+      tracker.finish();
+      return result;
+    }
+
+    const stockIds = [...new Set(orders.map((order) => order.stockId))];
+    const stocks = await this.stockRepository.findMany(stockIds);
+    const stockMap = new Map(stocks.map((stock) => [stock.id, stock]));
+
+    const earliest = orders.reduce((min, order) => (order.createdAt < min ? order.createdAt : min), now);
+    const [rawBars, applied, due] = await Promise.all([
+      this.stockPriceRepository.findByStocks(stockIds, earliest, now),
+      this.corporateActionRepository.findApplied(stockIds),
+      this.corporateActionRepository.findDue(now),
+    ]);
+    const bars = rawBars.map((bar) => bar.toAdjusted());
+    const pendingSplits = new Set(due.filter((action) => action.type === 'split').map((action) => action.stockId));
+    const lastSplitAt = new Map<string, Date>();
+    for (const action of applied) {
+      if (action.type === 'split') lastSplitAt.set(action.stockId, action.exDate); // exDate 오름차순
+    }
+    tracker.step('미체결 주문 조회 완료');
+
+    tracker.step('주문 매칭 시작');
+    for (const order of orders) {
+      const stock = stockMap.get(order.stockId);
+      if (!stock || pendingSplits.has(stock.id)) continue;
+      result.checked++;
+
+      // 접수 당일 일봉은 접수 이전 가격을 포함하므로 다음 일봉부터 사용
+      const candidates: Array<{ bar: PaperPriceBar; at: Date }> = bars
+        .filter((bar) => bar.stockId === order.stockId && bar.date > order.createdAt)
+        .map((bar) => ({ bar, at: bar.date }));
+      const splitAt = lastSplitAt.get(stock.id);
+      const current = !splitAt || stock.updatedAt >= splitAt ? currentPriceBar(stock) : null;
+      if (current) {
+        candidates.push({ bar: current, at: now });
+      }
+
+      for (const { bar, at } of candidates) {
+        const price = order.matchPrice(bar);
+        if (price === null) continue;
+
+        try {
+          const status = await this.fill(order, stock, price, at);
+          if (status === 'filled') result.filled++;
+          if (status === 'rejected') result.rejected++;
+        } catch (error) {
+          result.failed++;
+          logger.error(`Paper order ${order.id} matching failed:`, error);
+        }
+        break;
+      }
+    }
+    tracker.step('주문 매칭 완료');
+
+    logger.info(`Paper orders matched: ${JSON.stringify(result)}`);
+    tracker.finish();
+    return result;
+  }
+
+  /**
+   * 주문 체결 (트랜잭션 적용)
+   *
+   * 1. 현금/보유 수량 확인 후 현금 증감 (부족하면 rejected)
+   * 2. 포트폴리오 계좌 원장에 매수/매도 기록 (수수료 + 증권거래세는 fee)
+   * 3. Portfolio 행 재계산
+   * 4. 주문 상태 갱신 (이미 체결/취소된 주문이면 전체 롤백)
+   */
+  private async fill(order: PaperOrder, stock: Stock, price: number, filledAt: Date): Promise<PaperOrderStatus> {
+    return await executeTransaction(async (tx) => {
+      const paperAccountRepoWithTx = PaperAccountRepositoryAdapter.withTransaction(tx);
+      const orderRepoWithTx = PaperOrderRepositoryAdapter.withTransaction(tx);
+      const portfolioRepoWithTx = PortfolioRepositoryAdapter.withTransaction(tx);
+      const transactionRepoWithTx = PortfolioTransactionRepositoryAdapter.withTransaction(tx);
+
+      const account = await paperAccountRepoWithTx.findById(order.paperAccountId);
+      if (!account) {
+        throw new NotFoundError('Paper account');
+      }
+
+      const amount = order.quantity * price;
+      const { commission, tax } = account.feesFor(order.side, amount);
+      const reject = async (reason: string): Promise<PaperOrderStatus> => {
+        await orderRepoWithTx.updateIfOpen(order.id, { status: 'rejected', rejectReason: reason });
+        logger.info(`Paper order ${order.id} rejected: ${reason}`);
+        return 'rejected';
+      };
+
+      if (order.side === 'sell') {
+        const holding = await portfolioRepoWithTx.findByAccountAndStock(
+          order.userId,
+          account.portfolioAccountId,
+          order.stockId
+        );
+        if (!holding || holding.quantity < order.quantity) {
+          return await reject('Insufficient holdings');
+        }
+      }
+
+      const cashDelta = order.side === 'buy' ? -(amount + commission) : amount - commission - tax;
+      if (!(await paperAccountRepoWithTx.adjustCash(account.id, cashDelta))) {
+        return await reject('Insufficient cash');
+      }
+
+      const transaction = await transactionRepoWithTx.create(
+        new PortfolioTransaction(
+          '',
+          order.userId,
+          account.portfolioAccountId,
+          order.stockId,
+          order.side,
+          order.quantity,
+          price,
+          commission + tax,
+          filledAt,
+          `모의투자 ${order.type} 주문 체결`,
+          new Date()
+        )
+      );
+      await syncPositionFromLedger(
+        portfolioRepoWithTx,
+        transactionRepoWithTx,
+        order.userId,
+        account.portfolioAccountId,
+        stock
+      );
+
+      const updated = await orderRepoWithTx.updateIfOpen(order.id, {
+        status: 'filled',
+        filledPrice: price,
+        commission,
+        tax,
+        filledAt,
+        transactionId: transaction.id,
+      });
+      if (!updated) {
+        throw new ConflictError('Paper order was filled or cancelled concurrently');
+      }
+
+      return 'filled';
+    }, TRANSACTION_TIMEOUT.DEFAULT);
+  }
+
+  /**
+   * 미체결 매수 주문의 현금 예약 금액 (수수료 포함 추정)
+   */
+  private async reservedCash(account: PaperAccount, openOrders: PaperOrder[]): Promise<number> {
+    const buys = openOrders.filter((order) => order.side === 'buy');
+    if (buys.length === 0) {
+      return 0;
+    }
+
+    const stocks = await this.stockRepository.findMany([...new Set(buys.map((order) => order.stockId))]);
+    const priceMap = new Map(stocks.map((stock) => [stock.id, stock.currentPrice]));
+    return buys.reduce((sum, order) => {
+      const amount = order.quantity * order.reservePrice(priceMap.get(order.stockId) ?? 0);
+      return sum + amount + account.feesFor('buy', amount).commission;
+    }, 0);
+  }
+
+  /**
+   * 계좌 현황 집계 (보유 종목은 포트폴리오 계좌의 Portfolio 행을 현재가로 평가)
+   */
+  private async summarize(account: PaperAccount): Promise<PaperAccountSummary> {
+    const [portfolios, openOrders] = await Promise.all([
+      this.portfolioRepository.findAll(account.userId, account.portfolioAccountId),
+      this.paperOrderRepository.findOpen(account.id),
+    ]);
+    const stocks = await this.stockRepository.findMany(portfolios.map((portfolio) => portfolio.stockId));
+    const stockMap = new Map(stocks.map((stock) => [stock.id, stock]));
+    const reservedCash = await this.reservedCash(account, openOrders);
+
+    const holdings = portfolios
+      .filter((portfolio) => stockMap.has(portfolio.stockId))
+      .map((portfolio) => {
+        const stock = stockMap.get(portfolio.stockId)!;
+        const marketValue = portfolio.quantity * stock.currentPrice;
+        const cost = portfolio.quantity * portfolio.averagePrice;
+        return {
+          stockId: stock.id,
+          code: stock.code,
+          name: stock.name,
+          quantity: portfolio.quantity,
+          averagePrice: portfolio.averagePrice,
+          currentPrice: stock.currentPrice,
+          marketValue,
+          profit: marketValue - cost,
+          profitRate: cost > 0 ? ((marketValue - cost) / cost) * 100 : 0,
+        };
+      })
+      .sort((a, b) => b.marketValue - a.marketValue);
+
+    const marketValue = holdings.reduce((sum, holding) => sum + holding.marketValue, 0);
+    const totalEquity = account.cash + marketValue;
+    const totalReturn = totalEquity - account.initialCash;
+
+    return {
+      id: account.id,
+      portfolioAccountId: account.portfolioAccountId,
+      initialCash: account.initialCash,
+      cash: account.cash,
+      reservedCash,
+      availableCash: Math.max(0, account.cash - reservedCash),
+      commissionRate: account.commissionRate,
+      taxRate: account.taxRate,
+      holdings,
+      marketValue,
+      totalEquity,
+      totalReturn,
+      totalReturnRate: account.initialCash > 0 ? (totalReturn / account.initialCash) * 100 : 0,
+      openOrderCount: openOrders.length,
+      createdAt: account.createdAt,
+    };
+  }
+}
@@ -1,56 +1,686 @@
-import { IPortfolioFacade, PortfolioAnalysis } from '../facades/IPortfolioFacade';
+import {
+  IPortfolioFacade,
+  PortfolioAnalysis,
+  PortfolioTransactionResult,
+  RealizedGainsReport,
+  PortfolioPerformance,
+  PortfolioBenchmarkComparison,
+  PortfolioTargetAllocation,
+  PortfolioDividendReport,
+  PortfolioImportResult,
+  RebalancePreview,
+} from '../facades/IPortfolioFacade';
 import { IPortfolioRepository } from '../repositories/IPortfolioRepository';
 import { IStockRepository } from '../repositories/IStockRepository';
-import { PortfolioResponseDto } from '../dto/portfolio/PortfolioResponseDto';
+import { IStockPriceRepository } from '../repositories/IStockPriceRepository';
+import { IIndexPriceRepository } from '../repositories/IIndexPriceRepository';
+import { IPortfolioTargetRepository } from '../repositories/IPortfolioTargetRepository';
+import { IFxRateRepository } from '../repositories/IFxRateRepository';
+import { IPortfolioAccountRepository } from '../repositories/IPortfolioAccountRepository';
+import { IDividendRepository } from '../repositories/IDividendRepository';
+import {
+  IPortfolioTransactionRepository,
+  PortfolioTransactionFilter,
+} from '../repositories/IPortfolioTransactionRepository';
+import { PortfolioResponseDto, PortfolioValuation } from '../dto/portfolio/PortfolioResponseDto';
 import { CreatePortfolioDto } from '../dto/portfolio/CreatePortfolioDto';
 import { UpdatePortfolioDto } from '../dto/portfolio/UpdatePortfolioDto';
+import { CreatePortfolioTransactionDto } from '../dto/portfolio/CreatePortfolioTransactionDto';
+import { PortfolioTransactionResponseDto } from '../dto/portfolio/PortfolioTransactionResponseDto';
+import { RealizedGainsQueryDto } from '../dto/portfolio/RealizedGainsQueryDto';
+import { PerformanceQueryDto } from '../dto/portfolio/PerformanceQueryDto';
+import { BenchmarkQueryDto } from '../dto/portfolio/BenchmarkQueryDto';
+import { UpdatePortfolioTargetsDto } from '../dto/portfolio/UpdatePortfolioTargetsDto';
+import { RebalancePreviewDto } from '../dto/portfolio/RebalancePreviewDto';
+import { DividendQueryDto } from '../dto/portfolio/DividendQueryDto';
+import {
+  BrokerTradeRow,
+  createBrokerTradeRowSchema,
+  ImportPortfolioTransactionsDto,
+} from '../dto/portfolio/ImportPortfolioTransactionsDto';
+import { CreatePortfolioAccountDto } from '../dto/portfolio/CreatePortfolioAccountDto';
+import { UpdatePortfolioAccountDto } from '../dto/portfolio/UpdatePortfolioAccountDto';
+import { PortfolioAccountResponseDto } from '../dto/portfolio/PortfolioAccountResponseDto';
 import { Portfolio } from '../entities/Portfolio';
-import { NotFoundError, ConflictError } from '../errors/AppError';
+import { DEFAULT_ACCOUNT_NAME, PortfolioAccount } from '../entities/PortfolioAccount';
+import { PortfolioTransaction, PortfolioTransactionType } from '../entities/PortfolioTransaction';
+import { PortfolioTarget } from '../entities/PortfolioTarget';
+import { Currency, FxPair } from '../entities/FxRate';
+import { Stock } from '../entities/Stock';
+import { NotFoundError, ConflictError, BadRequestError } from '../errors/AppError';
 import { logger } from '../config/logger';
 import { executeTransaction, TRANSACTION_TIMEOUT } from '../utils/transaction';
 import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
 import { PortfolioRepositoryAdapter } from '../adapters/PortfolioRepositoryAdapter';
+import { PortfolioTransactionRepositoryAdapter } from '../adapters/PortfolioTransactionRepositoryAdapter';
+import { PortfolioTargetRepositoryAdapter } from '../adapters/PortfolioTargetRepositoryAdapter';
+import { PortfolioAccountRepositoryAdapter } from '../adapters/PortfolioAccountRepositoryAdapter';
 import { createStepTracker } from '../utils/aop';
+import { decodeCsvBuffer, parseCsv } from '../utils/csv';
+import { syncPositionFromLedger } from '../utils/portfolio-ledger';
+import { correlation, herfindahlIndex, historicalTailRisk, toDailyReturns } from '../utils/risk-metrics';
+import { planRebalance, RebalanceHolding } from '../utils/rebalance';
+import {
+  createFxRateLookup,
+  DEFAULT_BASE_CURRENCY,
+  findFxPair,
+  formatAmount,
+  FxRateLookup,
+  toCurrency,
+} from '../utils/currency';
+import {
+  buildIncomeCalendar,
+  entitledQuantity,
+  expectedPayDate,
+  findRecordedDividend,
+  projectDividends,
+  projectionWindow,
+} from '../utils/dividend-calendar';
+import { calculateCostBasis, CostBasisMethod, DEFAULT_COST_BASIS_METHOD } from '../utils/cost-basis';
+import {
+  annualizeReturn,
+  CashFlow,
+  covariance,
+  dailyReturn,
+  maxDrawdown,
+  mean,
+  standardDeviation,
+  toDateKey,
+  toPeriodKey,
+  TRADING_DAYS_PER_YEAR,
+  xirr,
+} from '../utils/performance-metrics';
+import { findStockByIdOrCode } from '../utils/stock-lookup';
 
-// UUID 형식 체크 헬퍼 함수
-const isUUID = (str: string): boolean => {
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-  return uuidRegex.test(str);
+/**
+ * 목표 비중 키 정규화 (stock 타입은 종목 ID 또는 code → Stock.id)
+ */
+const resolveTargetKeys = async (
+  stockRepository: IStockRepository,
+  dto: UpdatePortfolioTargetsDto
+): Promise<Map<string, number>> => {
+  const weights = new Map<string, number>();
+  for (const target of dto.targets) {
+    let key = target.key.trim();
+    if (dto.type === 'stock') {
+      const stockResult = await findStockByIdOrCode(stockRepository, key);
+      if (!stockResult) {
+        throw new NotFoundError(`Stock not found: ${target.key}`);
+      }
+      key = stockResult.id;
+    }
+    if (weights.has(key)) {
+      throw new BadRequestError(`Duplicate target: ${target.key}`);
+    }
+    weights.set(key, target.weight);
+  }
+  return weights;
 };
 
-// stockId 또는 code로 Stock 조회
-const findStockByIdOrCode = async (
-  stockRepository: IStockRepository,
-  identifier: string
-): Promise<{ id: string; stock: any } | null> => {
-  // UUID 형식이면 findById 사용
-  if (isUUID(identifier)) {
-    const stock = await stockRepository.findById(identifier);
-    if (stock) {
-      return { id: stock.id, stock };
-    }
-  }
-  
-  // UUID가 아니거나 findById가 실패하면 code로 조회 시도
-  const stock = await stockRepository.findByCode(identifier);
-  if (stock) {
-    return { id: stock.id, stock };
-  }
-  
-  return null;
+// 기간 시작 전 보유 종목 평가를 위한 종가 조회 여유 기간 (연휴 대비)
+const PRICE_LOOKBACK_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 조회 기간 포함 여부 (경계 포함)
+const isWithinRange = (date: Date, from?: Date, to?: Date): boolean =>
+  (!from || date >= from) && (!to || date <= to);
+
+/**
+ * 원장 도입 이전에 생성된 Portfolio 행을 개시 잔고(buy) 거래로 이관
+ * 원장이 비어 있는 상태에서 재계산하면 기존 보유분이 사라지므로 먼저 호출해야 함
+ */
+const ensureOpeningBalance = async (
+  portfolioRepository: IPortfolioRepository,
+  transactionRepository: IPortfolioTransactionRepository,
+  userId: string,
+  accountId: string,
+  stockId: string
+): Promise<void> => {
+  const existing = await portfolioRepository.findByAccountAndStock(userId, accountId, stockId);
+  if (!existing) return;
+
+  const ledger = await transactionRepository.findByAccountAndStock(userId, accountId, stockId);
+  if (ledger.length > 0) return;
+
+  await transactionRepository.create(
+    new PortfolioTransaction(
+      '',
+      userId,
+      accountId,
+      stockId,
+      'buy',
+      existing.quantity,
+      existing.averagePrice,
+      0,
+      existing.createdAt,
+      '기존 보유 내역 이관',
+      new Date()
+    )
+  );
+  logger.info(`Opening balance migrated to ledger for portfolio ${existing.id}`);
+};
+
+/**
+ * 보유 통화 → 기준 통화 환산에 필요한 환율 이력 조회
+ */
+const loadFxRateLookup = async (
+  fxRateRepository: IFxRateRepository,
+  currencies: Currency[],
+  baseCurrency: Currency
+): Promise<FxRateLookup> => {
+  const pairs = new Set<FxPair>();
+  for (const currency of currencies) {
+    if (currency !== baseCurrency) {
+      pairs.add(findFxPair(currency, baseCurrency).pair);
+    }
+  }
+
+  const histories = await Promise.all(Array.from(pairs).map((pair) => fxRateRepository.findByPair(pair)));
+  return createFxRateLookup(histories.flat());
+};
+
+/**
+ * 포지션 기준 통화 평가
+ *
+ * 취득원가는 원장의 체결 시점 환율로, 평가금액은 현재 환율로 환산
+ * - priceEffect: 종목 통화 기준 평가손익 × 현재 환율
+ * - currencyEffect: 종목 통화 기준 취득원가 × 현재 환율 - 체결 시점 환율 기준 취득원가
+ */
+const valuePosition = (
+  portfolio: Portfolio,
+  stock: Stock,
+  ledger: PortfolioTransaction[],
+  fxRateAt: FxRateLookup,
+  baseCurrency: Currency
+): PortfolioValuation => {
+  const currency = toCurrency(stock.currency);
+  const fxRate = fxRateAt(currency, baseCurrency);
+  const localValue = portfolio.quantity * stock.currentPrice;
+  const localCost = portfolio.quantity * portfolio.averagePrice;
+
+  // 원장이 없는 포지션(이관 전)은 현재 환율로 간주
+  const totalCost =
+    currency === baseCurrency || ledger.length === 0
+      ? localCost * fxRate
+      : PortfolioTransaction.derivePosition(ledger, (date) => fxRateAt(currency, baseCurrency, date)).totalCost;
+  const currentValue = localValue * fxRate;
+  const profit = currentValue - totalCost;
+
+  return {
+    baseCurrency,
+    fxRate,
+    totalCost,
+    currentValue,
+    profit,
+    profitRate: totalCost > 0 ? (profit / totalCost) * 100 : 0,
+    priceEffect: (localValue - localCost) * fxRate,
+    currencyEffect: localCost * fxRate - totalCost,
+  };
+};
+
+/**
+ * 계좌별 포지션 키 (같은 종목도 계좌가 다르면 별도 포지션)
+ */
+const positionKey = (accountId: string | null, stockId: string): string => `${accountId ?? ''}:${stockId}`;
+
+/**
+ * 거래 원장을 포지션(계좌 + 종목)별로 그룹화
+ */
+const groupLedgerByPosition = (transactions: PortfolioTransaction[]): Map<string, PortfolioTransaction[]> => {
+  const ledgers = new Map<string, PortfolioTransaction[]>();
+  for (const transaction of transactions) {
+    const key = positionKey(transaction.accountId, transaction.stockId);
+    const ledger = ledgers.get(key) || [];
+    ledger.push(transaction);
+    ledgers.set(key, ledger);
+  }
+  return ledgers;
+};
+
+/**
+ * 기본 계좌 조회 (없으면 생성)
+ *
+ * 계좌 도입 이전의 보유 종목/거래(accountId 없음)는 기본 계좌로 이관
+ * 쓰기 작업에서는 트랜잭션 내 Repository로 호출해야 함
+ */
+const ensureDefaultAccount = async (
+  accountRepository: IPortfolioAccountRepository,
+  portfolioRepository: IPortfolioRepository,
+  transactionRepository: IPortfolioTransactionRepository,
+  userId: string
+): Promise<PortfolioAccount> => {
+  const existing = await accountRepository.findDefault(userId);
+  if (existing) return existing;
+
+  const account = await accountRepository.create(
+    new PortfolioAccount('', userId, DEFAULT_ACCOUNT_NAME, 'brokerage', null, true, new Date(), new Date())
+  );
+  const portfolios = await portfolioRepository.assignAccount(userId, account.id);
+  const transactions = await transactionRepository.assignAccount(userId, account.id);
+  logger.info(
+    `Default portfolio account created for user ${userId} (migrated ${portfolios} portfolios, ${transactions} transactions)`
+  );
+  return account;
+};
+
+/**
+ * 거래를 기록할 계좌 결정 (accountId 미지정 시 기본 계좌)
+ * 트랜잭션 내 Repository로 호출해야 함
+ */
+const resolveAccount = async (
+  accountRepository: IPortfolioAccountRepository,
+  portfolioRepository: IPortfolioRepository,
+  transactionRepository: IPortfolioTransactionRepository,
+  userId: string,
+  accountId?: string
+): Promise<PortfolioAccount> => {
+  const defaultAccount = await ensureDefaultAccount(accountRepository, portfolioRepository, transactionRepository, userId);
+  if (!accountId) return defaultAccount;
+
+  const account = await accountRepository.findById(accountId, userId);
+  if (!account) {
+    throw new NotFoundError('Portfolio account');
+  }
+  assertManualAccount(account);
+  return account;
+};
+
+/**
+ * 수동 기록 가능 계좌 검증 (모의투자 계좌는 모의 주문 체결로만 변경)
+ */
+const assertManualAccount = (account: PortfolioAccount | null): void => {
+  if (account?.isPaper()) {
+    throw new BadRequestError('Paper trading accounts can only be changed through /api/paper');
+  }
+};
+
+/**
+ * 조회 범위 계좌 검증 (accountId 미지정 시 전체 계좌 합산)
+ */
+const assertAccountScope = async (
+  accountRepository: IPortfolioAccountRepository,
+  userId: string,
+  accountId?: string
+): Promise<void> => {
+  if (accountId && !(await accountRepository.findById(accountId, userId))) {
+    throw new NotFoundError('Portfolio account');
+  }
+};
+
+/**
+ * 합산 범위 계좌 판별 (accountId 미지정 시 전체 계좌 합산, 모의투자 계좌 제외)
+ *
+ * @returns 행의 accountId가 합산 대상인지 판별하는 함수
+ */
+const resolveAccountScope = async (
+  accountRepository: IPortfolioAccountRepository,
+  userId: string,
+  accountId?: string
+): Promise<(rowAccountId: string | null) => boolean> => {
+  if (accountId) {
+    await assertAccountScope(accountRepository, userId, accountId);
+    return () => true;
+  }
+
+  const paperAccountIds = new Set(
+    (await accountRepository.findAll(userId)).filter((account) => account.isPaper()).map((account) => account.id)
+  );
+  return (rowAccountId) => rowAccountId === null || !paperAccountIds.has(rowAccountId);
+};
+
+// CSV 가져오기 최대 행 수 (한 트랜잭션에서 처리)
+const MAX_IMPORT_ROWS = 5000;
+
+// CSV 가져오기 중복 판정 키 (유형 + 체결시각 + 수량 + 단가)
+const importDuplicateKey = (type: PortfolioTransactionType, executedAt: Date, quantity: number, price: number): string =>
+  `${type}:${executedAt.getTime()}:${quantity}:${price}`;
+
+// 예상 배당 달력 기간 (이번 달 포함)
+const DIVIDEND_PROJECTION_MONTHS = 12;
+
+// 리스크 지표 산출 기준
+const RISK_LOOKBACK_DAYS = 365;
+const MIN_RISK_OBSERVATIONS = 20; // 약 1개월 거래일
+const VAR_CONFIDENCE = 0.95;
+const VOLATILITY_SCALE = 50; // 연환산 변동성 50% = 변동성 점수 100
+const RISK_SCORE_WEIGHTS = { volatility: 0.5, concentration: 0.3, correlation: 0.2 };
+
+// 리스크 경고 임계값
+const RISK_THRESHOLDS = {
+  volatilityWarning: 25, // 연환산 %, KOSPI 장기 변동성(약 15~20%)을 크게 웃도는 수준
+  volatilityError: 40,
+  valueAtRiskWarning: 3, // 1일 95% VaR %
+  herfindahlInfo: 0.15, // 0.15~0.25: 보통 집중
+  herfindahlWarning: 0.25, // 0.25 이상: 고집중
+  correlationWarning: 0.7,
+};
+
+const emptyRiskProfile = (): PortfolioAnalysis['risk'] => ({
+  lookbackDays: RISK_LOOKBACK_DAYS,
+  observations: 0,
+  volatility: null,
+  valueAtRisk: null,
+  conditionalValueAtRisk: null,
+  herfindahlIndex: 0,
+  effectiveHoldings: 0,
+  averageCorrelation: null,
+  correlationMatrix: { stocks: [], values: [] },
+});
+
+/**
+ * 보유 종목 종가 이력으로 리스크 지표 계산
+ *
+ * 현재 비중을 과거 수익률에 그대로 적용하는 역사적 시뮬레이션 방식
+ * - 분할/병합으로 인한 가격 단절이 수익률로 잡히지 않도록 수정주가 사용
+ * - 일부 종목의 시세가 없는 날은 시세가 있는 종목 비중으로 재정규화 (커버 비중 50% 미만이면 제외)
+ */
+const calculateRiskProfile = async (
+  stockPriceRepository: IStockPriceRepository,
+  holdings: Array<{ stock: Stock; value: number }>,
+  totalValue: number
+): Promise<PortfolioAnalysis['risk']> => {
+  const risk = emptyRiskProfile();
+  const positions = holdings.filter((h) => h.value > 0);
+  if (positions.length === 0 || totalValue <= 0) return risk;
+
+  const weights = new Map(positions.map((h) => [h.stock.id, h.value / totalValue]));
+  risk.herfindahlIndex = herfindahlIndex(Array.from(weights.values()));
+  risk.effectiveHoldings = risk.herfindahlIndex > 0 ? 1 / risk.herfindahlIndex : 0;
+
+  const to = new Date();
+  const prices = await stockPriceRepository.findByStocks(
+    positions.map((h) => h.stock.id),
+    new Date(to.getTime() - RISK_LOOKBACK_DAYS * DAY_MS),
+    to
+  );
+  const closesByStock = new Map<string, Array<{ date: string; close: number }>>();
+  for (const price of prices) {
+    const closes = closesByStock.get(price.stockId) || [];
+    closes.push({ date: toDateKey(price.date), close: price.toAdjusted().close });
+    closesByStock.set(price.stockId, closes);
+  }
+  const returnsByStock = new Map(
+    positions.map((h) => [h.stock.id, toDailyReturns(closesByStock.get(h.stock.id) || [])])
+  );
+
+  // 포트폴리오 일간 수익률
+  const dates = new Set<string>();
+  for (const returns of returnsByStock.values()) {
+    for (const date of returns.keys()) dates.add(date);
+  }
+  const portfolioReturns: number[] = [];
+  for (const date of Array.from(dates).sort()) {
+    let weighted = 0;
+    let coverage = 0;
+    for (const [stockId, returns] of returnsByStock) {
+      const value = returns.get(date);
+      if (value === undefined) continue;
+      weighted += weights.get(stockId)! * value;
+      coverage += weights.get(stockId)!;
+    }
+    if (coverage >= 0.5) {
+      portfolioReturns.push(weighted / coverage);
+    }
+  }
+  risk.observations = portfolioReturns.length;
+
+  if (portfolioReturns.length >= MIN_RISK_OBSERVATIONS) {
+    risk.volatility = standardDeviation(portfolioReturns) * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100;
+    const tail = historicalTailRisk(portfolioReturns, VAR_CONFIDENCE);
+    if (tail) {
+      risk.valueAtRisk = {
+        confidence: VAR_CONFIDENCE,
+        horizonDays: 1,
+        percent: tail.valueAtRisk * 100,
+        amount: tail.valueAtRisk * totalValue,
+      };
+      risk.conditionalValueAtRisk = {
+        confidence: VAR_CONFIDENCE,
+        horizonDays: 1,
+        percent: tail.conditionalValueAtRisk * 100,
+        amount: tail.conditionalValueAtRisk * totalValue,
+      };
+    }
+  }
+
+  // 종목 간 상관행렬
+  const stocks = positions.map((h) => h.stock);
+  const values = stocks.map((a) =>
+    stocks.map((b) =>
+      a.id === b.id
+        ? 1
+        : correlation(returnsByStock.get(a.id)!, returnsByStock.get(b.id)!, MIN_RISK_OBSERVATIONS)
+    )
+  );
+  const pairs: number[] = [];
+  for (let i = 0; i < stocks.length; i++) {
+    for (let j = i + 1; j < stocks.length; j++) {
+      if (values[i][j] !== null) pairs.push(values[i][j]!);
+    }
+  }
+  risk.averageCorrelation = pairs.length > 0 ? mean(pairs) : null;
+  risk.correlationMatrix = {
+    stocks: stocks.map((stock) => ({ stockId: stock.id, code: stock.code, name: stock.name })),
+    values,
+  };
+
+  return risk;
+};
+
+/**
+ * 리스크 점수 (0~100)
+ * 변동성/집중도(HHI)/평균 상관계수 점수를 가중 평균하며, 산출 불가한 항목은 제외하고 재정규화
+ */
+const calculateRiskScore = (risk: PortfolioAnalysis['risk']): number => {
+  const components: Array<{ score: number; weight: number }> = [
+    { score: risk.herfindahlIndex * 100, weight: RISK_SCORE_WEIGHTS.concentration },
+  ];
+  if (risk.volatility !== null) {
+    components.push({
+      score: Math.min(100, (risk.volatility / VOLATILITY_SCALE) * 100),
+      weight: RISK_SCORE_WEIGHTS.volatility,
+    });
+  }
+  if (risk.averageCorrelation !== null) {
+    components.push({
+      score: Math.max(0, risk.averageCorrelation) * 100,
+      weight: RISK_SCORE_WEIGHTS.correlation,
+    });
+  }
+
+  const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+  const score = components.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight;
+  return Math.max(0, Math.min(100, score));
 };
 
 export class PortfolioService implements IPortfolioFacade {
   constructor(
     private readonly portfolioRepository: IPortfolioRepository,
-    private readonly stockRepository: IStockRepository
+    private readonly stockRepository: IStockRepository,
+    private readonly transactionRepository: IPortfolioTransactionRepository,
+    private readonly stockPriceRepository: IStockPriceRepository,
+    private readonly indexPriceRepository: IIndexPriceRepository,
+    private readonly targetRepository: IPortfolioTargetRepository,
+    private readonly fxRateRepository: IFxRateRepository,
+    private readonly accountRepository: IPortfolioAccountRepository,
+    private readonly dividendRepository: IDividendRepository
   ) {}
 
-  async getPortfolios(userId: string): Promise<PortfolioResponseDto[]> {
+  /**
+   * 계좌 목록 (기본 계좌 → 생성 순)
+   * 조회는 쓰기를 하지 않음: 기본 계좌는 첫 쓰기 요청에서 생성되며, 기존 보유 내역 이관은
+   * prisma/portfolio-account-migration.ts 일회성 스크립트로 처리
+   */
+  async getAccounts(userId: string): Promise<PortfolioAccountResponseDto[]> {
+    const tracker = createStepTracker('PortfolioService.getAccounts');
+
+    tracker.step('계좌 조회 시작');
+    const [accounts, portfolios] = await Promise.all([
+      this.accountRepository.findAll(userId),
+      this.portfolioRepository.findAll(userId),
+    ]);
+    tracker.step('계좌 조회 완료');
+
+    const positionCounts = new Map<string, number>();
+    for (const portfolio of portfolios) {
+      if (portfolio.accountId) {
+        positionCounts.set(portfolio.accountId, (positionCounts.get(portfolio.accountId) || 0) + 1);
+      }
+    }
+
+    tracker.finish();
+    return accounts.map((account) => PortfolioAccountResponseDto.to(account, positionCounts.get(account.id) || 0));
+  }
+
+  /**
+   * 계좌 생성 (트랜잭션 적용)
+   * 기본 계좌로 지정하면 기존 기본 계좌는 해제됨
+   */
+  async createAccount(userId: string, dto: CreatePortfolioAccountDto): Promise<PortfolioAccountResponseDto> {
+    const tracker = createStepTracker('PortfolioService.createAccount');
+
+    tracker.step('트랜잭션 시작');
+    return await executeTransaction(
+      async (tx) => {
+        const accountRepoWithTx = PortfolioAccountRepositoryAdapter.withTransaction(tx);
+
+        tracker.step('기본 계좌 확인 시작');
+        // 계좌 미지정 보유 내역이 새 계좌가 아닌 기본 계좌로 이관되도록 먼저 생성
+        await ensureDefaultAccount(
+          accountRepoWithTx,
+          PortfolioRepositoryAdapter.withTransaction(tx),
+          PortfolioTransactionRepositoryAdapter.withTransaction(tx),
+          userId
+        );
+        tracker.step('기본 계좌 확인 완료');
+
+        tracker.step('중복 체크 시작');
+        if (await accountRepoWithTx.findByName(userId, dto.name)) {
+          throw new ConflictError(`Portfolio account already exists: ${dto.name}`);
+        }
+        tracker.step('중복 체크 완료');
+
+        tracker.step('계좌 생성 시작');
+        if (dto.isDefault) {
+          await accountRepoWithTx.clearDefault(userId);
+        }
+        const created = await accountRepoWithTx.create(
+          new PortfolioAccount(
+            '',
+            userId,
+            dto.name,
+            dto.type,
+            dto.broker ?? null,
+            dto.isDefault,
+            new Date(),
+            new Date()
+          )
+        );
+        tracker.step('계좌 생성 완료');
+
+        logger.info(`Portfolio account created: ${created.id} for user ${userId}`);
+        tracker.finish();
+
+        return PortfolioAccountResponseDto.to(created, 0);
+      },
+      TRANSACTION_TIMEOUT.DEFAULT
+    );
+  }
+
+  /**
+   * 계좌 수정 (트랜잭션 적용)
+   */
+  async updateAccount(
+    id: string,
+    userId: string,
+    dto: UpdatePortfolioAccountDto
+  ): Promise<PortfolioAccountResponseDto> {
+    const tracker = createStepTracker('PortfolioService.updateAccount');
+
+    tracker.step('트랜잭션 시작');
+    return await executeTransaction(
+      async (tx) => {
+        const accountRepoWithTx = PortfolioAccountRepositoryAdapter.withTransaction(tx);
+        const portfolioRepoWithTx = PortfolioRepositoryAdapter.withTransaction(tx);
+
+        tracker.step('계좌 조회 시작');
+        const existing = await accountRepoWithTx.findById(id, userId);
+        if (!existing) {
+          throw new NotFoundError('Portfolio account');
+        }
+        assertManualAccount(existing);
+        tracker.step('계좌 조회 완료');
+
+        if (dto.name !== undefined && dto.name !== existing.name) {
+          if (await accountRepoWithTx.findByName(userId, dto.name)) {
+            throw new ConflictError(`Portfolio account already exists: ${dto.name}`);
+          }
+        }
+
+        tracker.step('계좌 수정 시작');
+        if (dto.isDefault && !existing.isDefault) {
+          await accountRepoWithTx.clearDefault(userId);
+        }
+        const updated = await accountRepoWithTx.update(id, {
+          name: dto.name,
+          type: dto.type,
+          broker: dto.broker,
+          isDefault: dto.isDefault,
+        });
+        const positions = await portfolioRepoWithTx.findAll(userId, id);
+        tracker.step('계좌 수정 완료');
+
+        logger.info(`Portfolio account updated: ${id}`);
+        tracker.finish();
+
+        return PortfolioAccountResponseDto.to(updated, positions.length);
+      },
+      TRANSACTION_TIMEOUT.DEFAULT
+    );
+  }
+
+  /**
+   * 계좌 삭제
+   * 계좌의 보유 종목과 거래 원장도 함께 삭제됨 (FK Cascade)
+   * 기본 계좌는 다른 계좌를 기본으로 지정한 뒤에만 삭제 가능
+   */
+  async deleteAccount(id: string, userId: string): Promise<void> {
+    const tracker = createStepTracker('PortfolioService.deleteAccount');
+
+    tracker.step('계좌 조회 시작');
+    const existing = await this.accountRepository.findById(id, userId);
+    if (!existing) {
+      throw new NotFoundError('Portfolio account');
+    }
+    if (existing.isDefault) {
+      throw new ConflictError('Cannot delete the default account. Set another account as default first');
+    }
+    assertManualAccount(existing);
+    tracker.step('계좌 조회 완료');
+
+    tracker.step('계좌 삭제 시작');
+    await this.accountRepository.delete(id);
+    tracker.step('계좌 삭제 완료');
+
+    logger.info(`Portfolio account deleted: ${id}`);
+    tracker.finish();
+  }
+
+  /**
+   * 보유 종목 목록
+   * 각 포지션에 기준 통화(baseCurrency) 환산 평가(valuation)를 포함
+   * accountId 미지정 시 전체 계좌 (같은 종목도 계좌별로 별도 항목)
+   */
+  async getPortfolios(
+    userId: string,
+    baseCurrency: Currency = DEFAULT_BASE_CURRENCY,
+    accountId?: string
+  ): Promise<PortfolioResponseDto[]> {
     const tracker = createStepTracker('PortfolioService.getPortfolios');
     
     tracker.step('Portfolio 조회 시작');
-    const portfolios = await this.portfolioRepository.findAll(userId);
+    const inScope = await resolveAccountScope(this.accountRepository, userId, accountId);
+    const portfolios = (await this.portfolioRepository.findAll(userId, accountId)).filter((p) => inScope(p.accountId));
     tracker.step('Portfolio 조회 완료');
 
     tracker.step('Stock ID 추출');
@@ -63,13 +693,29 @@ export class PortfolioService implements IPortfolioFacade {
     tracker.step('Stock Map 생성');
     const stockMap = new Map(stocks.map(s => [s.id, s]));
 
+    tracker.step('환율 조회 시작');
+    const currencies = stocks.map(s => toCurrency(s.currency));
+    const fxRateAt = await loadFxRateLookup(this.fxRateRepository, currencies, baseCurrency);
+    // 외화 종목이 있을 때만 체결 시점 환율 적용을 위해 원장 조회
+    const ledgers = currencies.some(c => c !== baseCurrency)
+      ? groupLedgerByPosition((await this.transactionRepository.findAll(userId, { accountId })).data)
+      : new Map<string, PortfolioTransaction[]>();
+    tracker.step('환율 조회 완료');
+
     tracker.step('DTO 변환 시작');
     const result = portfolios.map(portfolio => {
       const stock = stockMap.get(portfolio.stockId);
       if (!stock) {
         throw new NotFoundError(`Stock for portfolio ${portfolio.id}`);
       }
-      return PortfolioResponseDto.to(portfolio, stock);
+      const valuation = valuePosition(
+        portfolio,
+        stock,
+        ledgers.get(positionKey(portfolio.accountId, portfolio.stockId)) || [],
+        fxRateAt,
+        baseCurrency
+      );
+      return PortfolioResponseDto.to(portfolio, stock, valuation);
     });
     tracker.step('DTO 변환 완료');
     
@@ -77,7 +723,14 @@ export class PortfolioService implements IPortfolioFacade {
     return result;
   }
 
-  async getPortfolioById(id: string, userId: string): Promise<PortfolioResponseDto | null> {
+  /**
+   * 보유 종목 상세 (목록과 같은 기준 통화 환산 평가 포함)
+   */
+  async getPortfolioById(
+    id: string,
+    userId: string,
+    baseCurrency: Currency = DEFAULT_BASE_CURRENCY
+  ): Promise<PortfolioResponseDto | null> {
     const tracker = createStepTracker('PortfolioService.getPortfolioById');
     
     tracker.step('Portfolio 조회 시작');
@@ -94,12 +747,24 @@ export class PortfolioService implements IPortfolioFacade {
       throw new NotFoundError(`Stock for portfolio ${portfolio.id}`);
     }
     tracker.step('Stock 조회 완료');
+
+    tracker.step('평가 시작');
+    const result = await this.toValuedResponse(userId, portfolio, stock, baseCurrency);
+    tracker.step('평가 완료');
     
     tracker.finish();
-    return PortfolioResponseDto.to(portfolio, stock);
+    return result;
   }
 
-  async getPortfolioByStockId(userId: string, stockId: string): Promise<PortfolioResponseDto | null> {
+  /**
+   * 종목별 보유 내역 (accountId 미지정 시 기본 계좌, 기준 통화 환산 평가 포함)
+   */
+  async getPortfolioByStockId(
+    userId: string,
+    stockId: string,
+    accountId?: string,
+    baseCurrency: Currency = DEFAULT_BASE_CURRENCY
+  ): Promise<PortfolioResponseDto | null> {
     const tracker = createStepTracker('PortfolioService.getPortfolioByStockId');
     
     tracker.step('Stock 조회 시작');
@@ -112,7 +777,14 @@ export class PortfolioService implements IPortfolioFacade {
     tracker.step('Stock 조회 완료');
     
     tracker.step('Portfolio 조회 시작');
-    const portfolio = await this.portfolioRepository.findByUserAndStock(userId, actualStockId);
+    await assertAccountScope(this.accountRepository, userId, accountId);
+    const account = accountId ? null : await this.accountRepository.findDefault(userId);
+    // 계좌 이관 전 사용자는 accountId 없는 행이 기본 계좌 보유분
+    const portfolio = await this.portfolioRepository.findByAccountAndStock(
+      userId,
+      accountId ?? account?.id ?? null,
+      actualStockId
+    );
     if (!portfolio) {
       tracker.finish();
       return null;
@@ -125,22 +797,48 @@ export class PortfolioService implements IPortfolioFacade {
       throw new NotFoundError(`Stock for portfolio ${portfolio.id}`);
     }
     tracker.step('Stock 재조회 완료');
+
+    tracker.step('평가 시작');
+    const result = await this.toValuedResponse(userId, portfolio, stock, baseCurrency);
+    tracker.step('평가 완료');
     
     tracker.finish();
-    return PortfolioResponseDto.to(portfolio, stock);
+    return result;
+  }
+
+  /**
+   * 단일 포지션 응답 (getPortfolios와 같은 방식으로 기준 통화 환산 평가)
+   */
+  private async toValuedResponse(
+    userId: string,
+    portfolio: Portfolio,
+    stock: Stock,
+    baseCurrency: Currency
+  ): Promise<PortfolioResponseDto> {
+    const currency = toCurrency(stock.currency);
+    const fxRateAt = await loadFxRateLookup(this.fxRateRepository, [currency], baseCurrency);
+    // 외화 종목일 때만 체결 시점 환율 적용을 위해 원장 조회
+    const ledger =
+      currency !== baseCurrency
+        ? (await this.transactionRepository.findAll(userId, { stockId: portfolio.stockId })).data.filter(
+            (t) => t.accountId === portfolio.accountId
+          )
+        : [];
+
+    return PortfolioResponseDto.to(portfolio, stock, valuePosition(portfolio, stock, ledger, fxRateAt, baseCurrency));
   }
 
   /**
    * 포트폴리오 생성 (트랜잭션 적용)
    * 
    * 트랜잭션이 필요한 이유:
-   * 1. 중복 체크, Stock 조회, Portfolio 생성이 원자적으로 처리되어야 함
+   * 1. 중복 체크, Stock 조회, 원장 기록, Portfolio 생성이 원자적으로 처리되어야 함
    *    - 동시 요청 시 Race Condition 방지
-   *    - Unique 제약 조건 위반 방지 (userId_stockId)
+   *    - Unique 제약 조건 위반 방지 (userId_accountId_stockId)
    * 
    * 2. 데이터 일관성 보장
    *    - Portfolio는 항상 유효한 Stock을 참조해야 함
-   *    - Stock의 currentPrice를 기반으로 계산된 값들이 일관성 있게 저장되어야 함
+   *    - Portfolio 행은 원장(buy 거래)으로부터 재계산된 값과 항상 일치해야 함
    */
   async createPortfolio(userId: string, dto: CreatePortfolioDto): Promise<PortfolioResponseDto> {
     const tracker = createStepTracker('PortfolioService.createPortfolio');
@@ -151,6 +849,7 @@ export class PortfolioService implements IPortfolioFacade {
         tracker.step('Repository 인스턴스 생성');
         const portfolioRepoWithTx = PortfolioRepositoryAdapter.withTransaction(tx);
         const stockRepoWithTx = StockRepositoryAdapter.withTransaction(tx);
+        const transactionRepoWithTx = PortfolioTransactionRepositoryAdapter.withTransaction(tx);
 
         tracker.step('Stock 조회 시작');
         // stockId가 UUID가 아니면 code로 조회
@@ -161,26 +860,54 @@ export class PortfolioService implements IPortfolioFacade {
         const { id: actualStockId, stock } = stockResult;
         tracker.step('Stock 조회 완료');
 
+        tracker.step('계좌 확인 시작');
+        const account = await resolveAccount(
+          PortfolioAccountRepositoryAdapter.withTransaction(tx),
+          portfolioRepoWithTx,
+          transactionRepoWithTx,
+          userId,
+          dto.accountId
+        );
+        tracker.step('계좌 확인 완료');
+
         tracker.step('중복 체크 시작');
         // 트랜잭션 내에서 중복 체크 (동시성 제어)
-        const existing = await portfolioRepoWithTx.findByUserAndStock(userId, actualStockId);
+        const existing = await portfolioRepoWithTx.findByAccountAndStock(userId, account.id, actualStockId);
         if (existing) {
-          throw new ConflictError('Portfolio entry for this stock already exists');
+          throw new ConflictError('Portfolio entry for this stock already exists in this account');
         }
         tracker.step('중복 체크 완료');
 
+        tracker.step('매수 거래 기록 시작');
+        // 포트폴리오 추가는 원장에 매수 거래 1건을 기록하는 것과 동일
+        await transactionRepoWithTx.create(
+          new PortfolioTransaction(
+            '',  // Will be generated by DB
+            userId,
+            account.id,
+            actualStockId, // 실제 Stock UUID 사용
+            'buy',
+            dto.quantity,
+            dto.averagePrice,
+            0,
+            new Date(),
+            null,
+            new Date()
+          )
+        );
+        tracker.step('매수 거래 기록 완료');
+
         tracker.step('Portfolio 생성 시작');
-        // 트랜잭션 내에서 Portfolio 생성
-        const portfolio = Portfolio.create({
-          id: '',  // Will be generated by DB
+        const created = await syncPositionFromLedger(
+          portfolioRepoWithTx,
+          transactionRepoWithTx,
           userId,
-          stockId: actualStockId, // 실제 Stock UUID 사용
-          quantity: dto.quantity,
-          averagePrice: dto.averagePrice,
-          currentPrice: stock.currentPrice,
-        });
-
-        const created = await portfolioRepoWithTx.create(portfolio);
+          account.id,
+          stock
+        );
+        if (!created) {
+          throw new NotFoundError('Portfolio');
+        }
         tracker.step('Portfolio 생성 완료');
 
         logger.info(`Portfolio created: ${created.id} for user ${userId}`);
@@ -195,13 +922,13 @@ export class PortfolioService implements IPortfolioFacade {
   /**
    * 포트폴리오 업데이트 (트랜잭션 적용)
    * 
-   * 트랜잭션이 필요한 이유:
-   * 1. Portfolio 조회, Stock 조회, Portfolio 업데이트가 원자적으로 처리되어야 함
-   *    - Stock의 currentPrice가 변경되는 동안 일관성 보장
-   *    - 계산된 값들(profit, profitRate 등)이 올바른 Stock 가격 기반으로 저장되어야 함
+   * 원장 도입 이후 Portfolio 행은 파생 값이므로 직접 덮어쓰지 않음
+   * - 개시 매수 1건만 있는 포지션: 해당 매수 거래를 수정한 뒤 재계산 (기존 API 호환)
+   * - 그 외: 매수/매도 이력이 손실되므로 거래 기록으로 유도 (409)
    * 
-   * 2. 동시성 제어
-   *    - 여러 요청이 동시에 Portfolio를 업데이트할 때 데이터 일관성 보장
+   * 트랜잭션이 필요한 이유:
+   * 1. 원장 수정과 Portfolio 재계산이 원자적으로 처리되어야 함
+   * 2. 여러 요청이 동시에 같은 포지션을 수정할 때 데이터 일관성 보장
    */
   async updatePortfolio(id: string, userId: string, dto: UpdatePortfolioDto): Promise<PortfolioResponseDto> {
     const tracker = createStepTracker('PortfolioService.updatePortfolio');
@@ -212,13 +939,24 @@ export class PortfolioService implements IPortfolioFacade {
         tracker.step('Repository 인스턴스 생성');
         const portfolioRepoWithTx = PortfolioRepositoryAdapter.withTransaction(tx);
         const stockRepoWithTx = StockRepositoryAdapter.withTransaction(tx);
+        const transactionRepoWithTx = PortfolioTransactionRepositoryAdapter.withTransaction(tx);
 
         tracker.step('Portfolio 조회 시작');
-        // 트랜잭션 내에서 Portfolio 조회
+        // 계좌 미지정 행은 기본 계좌로 이관한 뒤 조회
+        await ensureDefaultAccount(
+          PortfolioAccountRepositoryAdapter.withTransaction(tx),
+          portfolioRepoWithTx,
+          transactionRepoWithTx,
+          userId
+        );
         const existing = await portfolioRepoWithTx.findById(id, userId);
-        if (!existing) {
+        if (!existing || !existing.accountId) {
           throw new NotFoundError('Portfolio');
         }
+        assertManualAccount(
+          await PortfolioAccountRepositoryAdapter.withTransaction(tx).findById(existing.accountId, userId)
+        );
+        const { accountId } = existing;
         tracker.step('Portfolio 조회 완료');
 
         tracker.step('Stock 조회 시작');
@@ -229,27 +967,28 @@ export class PortfolioService implements IPortfolioFacade {
         }
         tracker.step('Stock 조회 완료');
 
-        tracker.step('수익 계산 시작');
-        // 계산된 값들
-        const quantity = dto.quantity ?? existing.quantity;
-        const averagePrice = dto.averagePrice ?? existing.averagePrice;
-        const totalCost = quantity * averagePrice;
-        const currentValue = quantity * stock.currentPrice;
-        const profit = currentValue - totalCost;
-        const profitRate = totalCost > 0 ? (profit / totalCost) * 100 : 0;
-        tracker.step('수익 계산 완료');
-
-        tracker.step('Portfolio 업데이트 시작');
-        // 트랜잭션 내에서 Portfolio 업데이트
-        const updated = await portfolioRepoWithTx.update(id, {
-          quantity,
-          averagePrice,
-          totalCost,
-          currentValue,
-          profit,
-          profitRate,
+        tracker.step('원장 조회 시작');
+        await ensureOpeningBalance(portfolioRepoWithTx, transactionRepoWithTx, userId, accountId, existing.stockId);
+        const ledger = await transactionRepoWithTx.findByAccountAndStock(userId, accountId, existing.stockId);
+        if (ledger.length !== 1 || ledger[0].type !== 'buy') {
+          throw new ConflictError('Portfolio has transaction history. Record a transaction instead of overwriting it');
+        }
+        tracker.step('원장 조회 완료');
+
+        tracker.step('개시 매수 거래 수정 시작');
+        const [openingLot] = ledger;
+        await transactionRepoWithTx.update(openingLot.id, {
+          quantity: dto.quantity ?? openingLot.quantity,
+          price: dto.averagePrice ?? openingLot.price,
         });
-        tracker.step('Portfolio 업데이트 완료');
+        tracker.step('개시 매수 거래 수정 완료');
+
+        tracker.step('Portfolio 재계산 시작');
+        const updated = await syncPositionFromLedger(portfolioRepoWithTx, transactionRepoWithTx, userId, accountId, stock);
+        if (!updated) {
+          throw new NotFoundError('Portfolio');
+        }
+        tracker.step('Portfolio 재계산 완료');
 
         logger.info(`Portfolio updated: ${id}`);
         tracker.finish();
@@ -260,111 +999,663 @@ export class PortfolioService implements IPortfolioFacade {
     );
   }
 
+  /**
+   * 포트폴리오 삭제 (트랜잭션 적용)
+   * 원장을 남겨두면 다음 거래 기록 시 삭제한 포지션이 되살아나므로 함께 삭제
+   */
   async deletePortfolio(id: string, userId: string): Promise<void> {
     const tracker = createStepTracker('PortfolioService.deletePortfolio');
     
-    tracker.step('Portfolio 조회 시작');
-    const existing = await this.portfolioRepository.findById(id, userId);
-    if (!existing) {
-      throw new NotFoundError('Portfolio');
-    }
-    tracker.step('Portfolio 조회 완료');
+    tracker.step('트랜잭션 시작');
+    await executeTransaction(
+      async (tx) => {
+        const portfolioRepoWithTx = PortfolioRepositoryAdapter.withTransaction(tx);
+        const transactionRepoWithTx = PortfolioTransactionRepositoryAdapter.withTransaction(tx);
+
+        tracker.step('Portfolio 조회 시작');
+        await ensureDefaultAccount(
+          PortfolioAccountRepositoryAdapter.withTransaction(tx),
+          portfolioRepoWithTx,
+          transactionRepoWithTx,
+          userId
+        );
+        const existing = await portfolioRepoWithTx.findById(id, userId);
+        if (!existing || !existing.accountId) {
+          throw new NotFoundError('Portfolio');
+        }
+        assertManualAccount(
+          await PortfolioAccountRepositoryAdapter.withTransaction(tx).findById(existing.accountId, userId)
+        );
+        tracker.step('Portfolio 조회 완료');
 
-    tracker.step('Portfolio 삭제 시작');
-    await this.portfolioRepository.delete(id);
-    tracker.step('Portfolio 삭제 완료');
+        tracker.step('Portfolio 삭제 시작');
+        await transactionRepoWithTx.deleteByAccountAndStock(userId, existing.accountId, existing.stockId);
+        await portfolioRepoWithTx.delete(id);
+        tracker.step('Portfolio 삭제 완료');
+      },
+      TRANSACTION_TIMEOUT.DEFAULT
+    );
 
     logger.info(`Portfolio deleted: ${id}`);
     tracker.finish();
   }
 
-  async getAnalysis(userId: string): Promise<PortfolioAnalysis> {
-    const tracker = createStepTracker('PortfolioService.getAnalysis');
-    
-    try {
-      tracker.step('Portfolio 조회 시작');
-      const portfolios = await this.portfolioRepository.findAll(userId);
-      tracker.step('Portfolio 조회 완료');
-      
-      if (portfolios.length === 0) {
-        tracker.finish();
-        return {
-          summary: {
-            totalValue: 0,
-            totalReturn: 0,
-            returnRate: 0,
-            riskScore: 0,
-          },
-          risks: [],
-          diversification: {
-            sectors: [],
-          },
-        };
-      }
+  async getTransactions(userId: string, filter: PortfolioTransactionFilter = {}): Promise<{
+    data: PortfolioTransactionResponseDto[];
+    total: number;
+  }> {
+    const tracker = createStepTracker('PortfolioService.getTransactions');
 
-      tracker.step('Stock ID 추출');
-      const stockIds = portfolios.map(p => p.stockId);
-      
+    let stockId = filter.stockId;
+    if (stockId) {
       tracker.step('Stock 조회 시작');
-      const stocks = await this.stockRepository.findMany(stockIds);
+      const stockResult = await findStockByIdOrCode(this.stockRepository, stockId);
+      if (!stockResult) {
+        tracker.finish();
+        return { data: [], total: 0 };
+      }
+      stockId = stockResult.id;
       tracker.step('Stock 조회 완료');
-      
-      tracker.step('Stock Map 생성');
-      const stockMap = new Map(stocks.map(s => [s.id, s]));
-
-      tracker.step('포트폴리오 분석 계산 시작');
-      // 총 가치 및 수익 계산
-      let totalValue = 0;
-      let totalCost = 0;
-      let totalReturn = 0;
-
-      const sectorMap = new Map<string, { value: number; count: number }>();
-
-      for (const portfolio of portfolios) {
-        const stock = stockMap.get(portfolio.stockId);
-        if (!stock) continue;
+    }
 
-        const currentValue = portfolio.quantity * stock.currentPrice;
-        const cost = portfolio.quantity * portfolio.averagePrice;
-        const profit = currentValue - cost;
+    tracker.step('거래 내역 조회 시작');
+    await assertAccountScope(this.accountRepository, userId, filter.accountId);
+    const result = await this.transactionRepository.findAll(userId, { ...filter, stockId });
+    tracker.step('거래 내역 조회 완료');
 
-        totalValue += currentValue;
-        totalCost += cost;
-        totalReturn += profit;
+    tracker.step('Stock 조회 시작');
+    const stockIds = [...new Set(result.data.map((t) => t.stockId))];
+    const stocks = await this.stockRepository.findMany(stockIds);
+    const stockMap = new Map(stocks.map((s) => [s.id, s]));
+    tracker.step('Stock 조회 완료');
 
-        // 섹터별 집계
-        const sector = stock.sector || '기타';
-        const existing = sectorMap.get(sector) || { value: 0, count: 0 };
-        sectorMap.set(sector, {
-          value: existing.value + currentValue,
-          count: existing.count + 1,
-        });
+    tracker.step('DTO 변환 시작');
+    const data = result.data.map((transaction) => {
+      const stock = stockMap.get(transaction.stockId);
+      if (!stock) {
+        throw new NotFoundError(`Stock for transaction ${transaction.id}`);
       }
+      return PortfolioTransactionResponseDto.to(transaction, stock);
+    });
+    tracker.step('DTO 변환 완료');
 
-      const returnRate = totalCost > 0 ? (totalReturn / totalCost) * 100 : 0;
-      tracker.step('수익률 계산 완료');
+    tracker.finish();
+    return { data, total: result.total };
+  }
 
-      tracker.step('리스크 점수 계산 시작');
-      // 리스크 점수 계산 (간단한 휴리스틱)
-      const diversificationScore = sectorMap.size / Math.max(portfolios.length, 1);
-      const concentrationRisk = portfolios.length < 5 ? 30 : 0;
-      const riskScore = Math.max(0, Math.min(100, 100 - (diversificationScore * 20) - concentrationRisk));
-      tracker.step('리스크 점수 계산 완료');
+  /**
+   * 거래 기록 (트랜잭션 적용)
+   * 
+   * 트랜잭션이 필요한 이유:
+   * 1. 원장 기록과 Portfolio 재계산이 원자적으로 처리되어야 함
+   *    - 보유 수량을 초과하는 매도는 재계산 단계에서 거부되고 원장 기록도 롤백됨
+   * 2. 동시에 같은 종목 거래가 기록될 때 파생 포지션이 원장과 어긋나지 않도록 보장
+   */
+  async createTransaction(userId: string, dto: CreatePortfolioTransactionDto): Promise<PortfolioTransactionResult> {
+    const tracker = createStepTracker('PortfolioService.createTransaction');
 
-      tracker.step('리스크 분석 시작');
-      // 리스크 분석
+    tracker.step('트랜잭션 시작');
+    return await executeTransaction(
+      async (tx) => {
+        tracker.step('Repository 인스턴스 생성');
+        const portfolioRepoWithTx = PortfolioRepositoryAdapter.withTransaction(tx);
+        const stockRepoWithTx = StockRepositoryAdapter.withTransaction(tx);
+        const transactionRepoWithTx = PortfolioTransactionRepositoryAdapter.withTransaction(tx);
+
+        tracker.step('Stock 조회 시작');
+        const stockResult = await findStockByIdOrCode(stockRepoWithTx, dto.stockId);
+        if (!stockResult) {
+          throw new NotFoundError(`Stock not found: ${dto.stockId}`);
+        }
+        const { id: actualStockId, stock } = stockResult;
+        tracker.step('Stock 조회 완료');
+
+        tracker.step('계좌 확인 시작');
+        const account = await resolveAccount(
+          PortfolioAccountRepositoryAdapter.withTransaction(tx),
+          portfolioRepoWithTx,
+          transactionRepoWithTx,
+          userId,
+          dto.accountId
+        );
+        tracker.step('계좌 확인 완료');
+
+        tracker.step('거래 기록 시작');
+        await ensureOpeningBalance(portfolioRepoWithTx, transactionRepoWithTx, userId, account.id, actualStockId);
+        const created = await transactionRepoWithTx.create(
+          new PortfolioTransaction(
+            '',
+            userId,
+            account.id,
+            actualStockId,
+            dto.type,
+            dto.quantity,
+            dto.price,
+            dto.fee,
+            dto.executedAt ?? new Date(),
+            dto.memo ?? null,
+            new Date()
+          )
+        );
+        tracker.step('거래 기록 완료');
+
+        tracker.step('Portfolio 재계산 시작');
+        const position = await syncPositionFromLedger(
+          portfolioRepoWithTx,
+          transactionRepoWithTx,
+          userId,
+          account.id,
+          stock
+        );
+        tracker.step('Portfolio 재계산 완료');
+
+        logger.info(`Portfolio transaction recorded: ${created.id} (${created.type}) for user ${userId}`);
+        tracker.finish();
+
+        return {
+          transaction: PortfolioTransactionResponseDto.to(created, stock),
+          position: position ? PortfolioResponseDto.to(position, stock) : null,
+        };
+      },
+      TRANSACTION_TIMEOUT.DEFAULT
+    );
+  }
+
+  /**
+   * 증권사 거래내역 CSV 가져오기
+   *
+   * 1. 헤더를 증권사 매핑으로 해석하고 행마다 Zod로 검증, 종목코드는 findStockByIdOrCode로 확인
+   * 2. 원장에 같은 거래(유형/체결시각/수량/단가)가 이미 있으면 중복으로 건너뜀 (같은 파일 재업로드 허용)
+   * 3. 종목별로 가져오기 전후 포지션을 계산하여 diff 반환 (보유 수량 초과 매도는 오류)
+   * 4. dryRun=false이고 오류 행이 없을 때만 원장 기록과 Portfolio 재계산을 한 트랜잭션으로 저장
+   */
+  async importTransactions(
+    userId: string,
+    csv: Buffer,
+    dto: ImportPortfolioTransactionsDto
+  ): Promise<PortfolioImportResult> {
+    const tracker = createStepTracker('PortfolioService.importTransactions');
+
+    tracker.step('CSV 파싱 시작');
+    const [header, ...body] = parseCsv(decodeCsvBuffer(csv));
+    if (!header || body.length === 0) {
+      throw new BadRequestError('CSV file has no data rows');
+    }
+    if (body.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestError(`CSV file has too many rows (max ${MAX_IMPORT_ROWS})`);
+    }
+
+    const headerNames = header.map((name) => name.trim());
+    const indexOf = (candidates: string[]) => headerNames.findIndex((name) => candidates.includes(name));
+    const { columns } = dto.mapping;
+    const requiredColumns = ['executedAt', 'type', 'code', 'quantity', 'price'] as const;
+    const missing = requiredColumns.filter((key) => indexOf(columns[key]) < 0);
+    if (missing.length > 0) {
+      throw new BadRequestError(
+        `Missing columns for ${dto.broker} format: ${missing.map((key) => `${key} (${columns[key].join(' | ')})`).join(', ')}`
+      );
+    }
+    const feeIndexes = headerNames
+      .map((name, index) => (columns.fee.includes(name) ? index : -1))
+      .filter((index) => index >= 0);
+    tracker.step('CSV 파싱 완료');
+
+    tracker.step('행 검증 시작');
+    const rowSchema = createBrokerTradeRowSchema(dto.mapping.typeLabels);
+    const cell = (values: string[], key: keyof typeof columns) => values[indexOf(columns[key])] ?? '';
+    const rows: PortfolioImportResult['rows'] = [];
+    const parsedRows = new Map<number, BrokerTradeRow>();
+
+    for (const [index, values] of body.entries()) {
+      const result = rowSchema.safeParse({
+        executedAt: cell(values, 'executedAt'),
+        type: cell(values, 'type'),
+        code: cell(values, 'code'),
+        quantity: cell(values, 'quantity'),
+        price: cell(values, 'price'),
+        fee: String(
+          feeIndexes.reduce((sum, feeIndex) => sum + (Number((values[feeIndex] ?? '').replace(/[,\s원]/g, '')) || 0), 0)
+        ),
+        memo: cell(values, 'memo'),
+      });
+
+      rows.push({
+        row: index + 2,
+        status: result.success ? 'new' : 'invalid',
+        errors: result.success ? [] : result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        stockId: null,
+        code: result.success ? result.data.code : null,
+        name: null,
+        type: result.success ? result.data.type : null,
+        executedAt: result.success ? result.data.executedAt : null,
+        quantity: result.success ? result.data.quantity : null,
+        price: result.success ? result.data.price : null,
+        fee: result.success ? result.data.fee : null,
+      });
+      if (result.success) {
+        parsedRows.set(rows.length - 1, result.data);
+      }
+    }
+    tracker.step('행 검증 완료');
+
+    tracker.step('종목 확인 시작');
+    const stockByCode = new Map<string, Stock | null>();
+    for (const row of parsedRows.values()) {
+      if (!stockByCode.has(row.code)) {
+        const stockResult = await findStockByIdOrCode(this.stockRepository, row.code);
+        stockByCode.set(row.code, stockResult?.stock ?? null);
+      }
+    }
+    for (const [index, row] of parsedRows) {
+      const stock = stockByCode.get(row.code);
+      if (!stock) {
+        rows[index] = { ...rows[index], status: 'invalid', errors: [`code: Stock not found: ${row.code}`] };
+        parsedRows.delete(index);
+        continue;
+      }
+      rows[index] = { ...rows[index], stockId: stock.id, name: stock.name };
+    }
+    tracker.step('종목 확인 완료');
+
+    tracker.step('트랜잭션 시작');
+    return await executeTransaction(
+      async (tx) => {
+        const portfolioRepoWithTx = PortfolioRepositoryAdapter.withTransaction(tx);
+        const transactionRepoWithTx = PortfolioTransactionRepositoryAdapter.withTransaction(tx);
+
+        const account = await resolveAccount(
+          PortfolioAccountRepositoryAdapter.withTransaction(tx),
+          portfolioRepoWithTx,
+          transactionRepoWithTx,
+          userId,
+          dto.accountId
+        );
+
+        tracker.step('중복 확인 및 포지션 계산 시작');
+        const rowsByStock = new Map<string, number[]>();
+        for (const index of parsedRows.keys()) {
+          const stockId = rows[index].stockId!;
+          rowsByStock.set(stockId, [...(rowsByStock.get(stockId) || []), index]);
+        }
+
+        const newTransactions = new Map<string, PortfolioTransaction[]>();
+        const positions: PortfolioImportResult['positions'] = [];
+        for (const [stockId, indexes] of rowsByStock) {
+          const stock = stockByCode.get(rows[indexes[0]].code!)!;
+          const ledger = await transactionRepoWithTx.findByAccountAndStock(userId, account.id, stockId);
+          // 원장 도입 이전 보유분은 ensureOpeningBalance가 만들 개시 매수로 간주
+          const existing = await portfolioRepoWithTx.findByAccountAndStock(userId, account.id, stockId);
+          if (ledger.length === 0 && existing) {
+            ledger.push(
+              new PortfolioTransaction('', userId, account.id, stockId, 'buy', existing.quantity, existing.averagePrice, 0, existing.createdAt, null, new Date())
+            );
+          }
+
+          // 같은 거래가 여러 번 있을 수 있으므로 원장 건수만큼만 중복 처리
+          const remaining = new Map<string, number>();
+          for (const t of ledger) {
+            const key = importDuplicateKey(t.type, t.executedAt, t.quantity, t.price);
+            remaining.set(key, (remaining.get(key) || 0) + 1);
+          }
+
+          const created: PortfolioTransaction[] = [];
+          for (const index of indexes) {
+            const row = parsedRows.get(index)!;
+            const key = importDuplicateKey(row.type, row.executedAt, row.quantity, row.price);
+            if ((remaining.get(key) || 0) > 0) {
+              remaining.set(key, remaining.get(key)! - 1);
+              rows[index] = { ...rows[index], status: 'duplicate' };
+              continue;
+            }
+            created.push(
+              new PortfolioTransaction(
+                '',
+                userId,
+                account.id,
+                stockId,
+                row.type,
+                row.quantity,
+                row.price,
+                row.fee,
+                row.executedAt,
+                row.memo ?? `CSV 가져오기 (${dto.broker})`,
+                new Date()
+              )
+            );
+          }
+
+          const before = PortfolioTransaction.derivePosition(ledger);
+          let after = before;
+          try {
+            after = PortfolioTransaction.derivePosition([...ledger, ...created]);
+          } catch (error) {
+            // 보유 수량 초과 매도 등 원장 재생 오류는 해당 종목의 새 거래 전체를 오류 처리
+            const message = error instanceof Error ? error.message : String(error);
+            for (const index of indexes) {
+              if (rows[index].status === 'new') {
+                rows[index] = { ...rows[index], status: 'invalid', errors: [message] };
+              }
+            }
+            continue;
+          }
+
+          newTransactions.set(stockId, created);
+          positions.push({
+            stockId,
+            code: stock.code,
+            name: stock.name,
+            change:
+              created.length === 0
+                ? 'unchanged'
+                : before.quantity <= 0 && after.quantity > 0
+                  ? 'added'
+                  : after.quantity <= 0 && before.quantity > 0
+                    ? 'closed'
+                    : 'updated',
+            before: { quantity: before.quantity, averagePrice: before.averagePrice },
+            after: { quantity: after.quantity, averagePrice: after.averagePrice },
+          });
+        }
+        tracker.step('중복 확인 및 포지션 계산 완료');
+
+        const countOf = (status: PortfolioImportResult['rows'][number]['status']) =>
+          rows.filter((row) => row.status === status).length;
+        const result: PortfolioImportResult = {
+          broker: dto.broker,
+          accountId: account.id,
+          dryRun: dto.dryRun,
+          committed: false,
+          summary: {
+            totalRows: rows.length,
+            newRows: countOf('new'),
+            duplicateRows: countOf('duplicate'),
+            invalidRows: countOf('invalid'),
+          },
+          rows,
+          positions: positions.sort((a, b) => a.code.localeCompare(b.code)),
+        };
+
+        if (dto.dryRun) {
+          tracker.finish();
+          return result;
+        }
+        if (result.summary.invalidRows > 0) {
+          throw new BadRequestError(
+            `CSV has ${result.summary.invalidRows} invalid rows. Run a dry run to review them before importing`
+          );
+        }
+
+        tracker.step('거래 기록 및 Portfolio 재계산 시작');
+        for (const [stockId, created] of newTransactions) {
+          if (created.length === 0) continue;
+
+          await ensureOpeningBalance(portfolioRepoWithTx, transactionRepoWithTx, userId, account.id, stockId);
+          await transactionRepoWithTx.createMany(created);
+          const stock = stockByCode.get(rows[rowsByStock.get(stockId)![0]].code!)!;
+          await syncPositionFromLedger(portfolioRepoWithTx, transactionRepoWithTx, userId, account.id, stock);
+        }
+        tracker.step('거래 기록 및 Portfolio 재계산 완료');
+
+        logger.info(
+          `Portfolio CSV imported for user ${userId}: ${result.summary.newRows} new, ${result.summary.duplicateRows} duplicate (${dto.broker})`
+        );
+        tracker.finish();
+
+        return { ...result, committed: true };
+      },
+      TRANSACTION_TIMEOUT.MAX
+    );
+  }
+
+  /**
+   * 거래 삭제 (트랜잭션 적용)
+   * 잘못 입력한 거래를 제거하고 포지션을 재계산
+   */
+  async deleteTransaction(id: string, userId: string): Promise<PortfolioResponseDto | null> {
+    const tracker = createStepTracker('PortfolioService.deleteTransaction');
+
+    tracker.step('트랜잭션 시작');
+    return await executeTransaction(
+      async (tx) => {
+        const portfolioRepoWithTx = PortfolioRepositoryAdapter.withTransaction(tx);
+        const stockRepoWithTx = StockRepositoryAdapter.withTransaction(tx);
+        const transactionRepoWithTx = PortfolioTransactionRepositoryAdapter.withTransaction(tx);
+
+        tracker.step('거래 조회 시작');
+        await ensureDefaultAccount(
+          PortfolioAccountRepositoryAdapter.withTransaction(tx),
+          portfolioRepoWithTx,
+          transactionRepoWithTx,
+          userId
+        );
+        const existing = await transactionRepoWithTx.findById(id, userId);
+        if (!existing || !existing.accountId) {
+          throw new NotFoundError('Portfolio transaction');
+        }
+        assertManualAccount(
+          await PortfolioAccountRepositoryAdapter.withTransaction(tx).findById(existing.accountId, userId)
+        );
+        const stock = await stockRepoWithTx.findById(existing.stockId);
+        if (!stock) {
+          throw new NotFoundError('Stock');
+        }
+        tracker.step('거래 조회 완료');
+
+        tracker.step('거래 삭제 및 Portfolio 재계산 시작');
+        await transactionRepoWithTx.delete(id);
+        const position = await syncPositionFromLedger(
+          portfolioRepoWithTx,
+          transactionRepoWithTx,
+          userId,
+          existing.accountId,
+          stock
+        );
+        tracker.step('거래 삭제 및 Portfolio 재계산 완료');
+
+        logger.info(`Portfolio transaction deleted: ${id}`);
+        tracker.finish();
+
+        return position ? PortfolioResponseDto.to(position, stock) : null;
+      },
+      TRANSACTION_TIMEOUT.DEFAULT
+    );
+  }
+
+  async getAnalysis(
+    userId: string,
+    costBasisMethod: CostBasisMethod = DEFAULT_COST_BASIS_METHOD,
+    baseCurrency: Currency = DEFAULT_BASE_CURRENCY,
+    accountId?: string
+  ): Promise<PortfolioAnalysis> {
+    const tracker = createStepTracker('PortfolioService.getAnalysis');
+    
+    try {
+      tracker.step('Portfolio 조회 시작');
+      const inScope = await resolveAccountScope(this.accountRepository, userId, accountId);
+      const portfolios = (await this.portfolioRepository.findAll(userId, accountId)).filter((p) => inScope(p.accountId));
+      tracker.step('Portfolio 조회 완료');
+
+      tracker.step('실현손익 계산 시작');
+      // 전량 매도한 종목도 실현손익에 포함되므로 보유 종목 유무와 무관하게 계산
+      const realized = await this.getRealizedGains(userId, new RealizedGainsQueryDto(costBasisMethod), accountId);
+      tracker.step('실현손익 계산 완료');
+
+      tracker.step('Stock ID 추출');
+      const stockIds = Array.from(
+        new Set([...portfolios.map(p => p.stockId), ...realized.byStock.map(s => s.stockId)])
+      );
+      
+      tracker.step('Stock 조회 시작');
+      const stocks = await this.stockRepository.findMany(stockIds);
+      tracker.step('Stock 조회 완료');
+      
+      tracker.step('Stock Map 생성');
+      const stockMap = new Map(stocks.map(s => [s.id, s]));
+
+      tracker.step('환율 조회 시작');
+      const currencies = stocks.map(s => toCurrency(s.currency));
+      const fxRateAt = await loadFxRateLookup(this.fxRateRepository, currencies, baseCurrency);
+      const currencyOf = (stockId: string) => toCurrency(stockMap.get(stockId)?.currency);
+      // 실현손익은 매도 시점 환율, 배당금은 현재 환율로 환산
+      const realizedReturn = realized.sales.reduce(
+        (sum, sale) => sum + sale.realizedProfit * fxRateAt(currencyOf(sale.stockId), baseCurrency, sale.soldAt),
+        0
+      );
+      const dividendIncome = realized.byStock.reduce(
+        (sum, s) => sum + s.dividendIncome * fxRateAt(currencyOf(s.stockId), baseCurrency),
+        0
+      );
+      tracker.step('환율 조회 완료');
+      
+      if (portfolios.length === 0) {
+        tracker.finish();
+        return {
+          accountId: accountId ?? null,
+          summary: {
+            totalValue: 0,
+            totalReturn: 0,
+            returnRate: 0,
+            riskScore: 0,
+            unrealizedReturn: 0,
+            realizedReturn,
+            dividendIncome,
+            costBasisMethod,
+            baseCurrency,
+            priceEffect: 0,
+            currencyEffect: 0,
+          },
+          risks: [],
+          risk: emptyRiskProfile(),
+          diversification: {
+            sectors: [],
+          },
+        };
+      }
+
+      // 외화 종목이 있을 때만 체결 시점 환율 적용을 위해 원장 조회
+      const ledgers = portfolios.some(p => currencyOf(p.stockId) !== baseCurrency)
+        ? groupLedgerByPosition((await this.transactionRepository.findAll(userId, { accountId })).data)
+        : new Map<string, PortfolioTransaction[]>();
+
+      tracker.step('포트폴리오 분석 계산 시작');
+      // 총 가치 및 수익 계산 (기준 통화)
+      let totalValue = 0;
+      let totalCost = 0;
+      let totalReturn = 0;
+      let priceEffect = 0;
+      let currencyEffect = 0;
+
+      const sectorMap = new Map<string, { value: number; count: number }>();
+      // 전체 계좌 조회 시 여러 계좌에 있는 같은 종목은 합산하여 리스크 계산
+      const holdingsByStock = new Map<string, { stock: Stock; value: number }>();
+
+      for (const portfolio of portfolios) {
+        const stock = stockMap.get(portfolio.stockId);
+        if (!stock) continue;
+
+        const valuation = valuePosition(
+          portfolio,
+          stock,
+          ledgers.get(positionKey(portfolio.accountId, portfolio.stockId)) || [],
+          fxRateAt,
+          baseCurrency
+        );
+        const currentValue = valuation.currentValue;
+
+        const holding = holdingsByStock.get(stock.id) || { stock, value: 0 };
+        holdingsByStock.set(stock.id, { stock, value: holding.value + currentValue });
+        totalValue += currentValue;
+        totalCost += valuation.totalCost;
+        totalReturn += valuation.profit;
+        priceEffect += valuation.priceEffect;
+        currencyEffect += valuation.currencyEffect;
+
+        // 섹터별 집계
+        const sector = stock.sector || '기타';
+        const existing = sectorMap.get(sector) || { value: 0, count: 0 };
+        sectorMap.set(sector, {
+          value: existing.value + currentValue,
+          count: existing.count + 1,
+        });
+      }
+
+      const returnRate = totalCost > 0 ? (totalReturn / totalCost) * 100 : 0;
+      tracker.step('수익률 계산 완료');
+
+      tracker.step('리스크 지표 계산 시작');
+      const risk = await calculateRiskProfile(
+        this.stockPriceRepository,
+        Array.from(holdingsByStock.values()),
+        totalValue
+      );
+      const riskScore = calculateRiskScore(risk);
+      tracker.step('리스크 지표 계산 완료');
+
+      tracker.step('리스크 분석 시작');
+      // 리스크 분석
       const risks: PortfolioAnalysis['risks'] = [];
 
-      // 집중도 리스크
-      if (portfolios.length < 5) {
+      // 변동성 리스크
+      if (risk.volatility === null) {
         risks.push({
-          type: 'concentration',
+          type: 'insufficient_data',
+          severity: 'info',
+          title: '시세 이력 부족',
+          description: `일간 수익률 표본이 ${risk.observations}개로 변동성/VaR를 계산할 수 없습니다.`,
+          value: risk.observations,
+          threshold: MIN_RISK_OBSERVATIONS,
+          recommendation: '시세 이력이 쌓이면 변동성 기반 리스크가 반영됩니다.',
+        });
+      } else if (risk.volatility >= RISK_THRESHOLDS.volatilityWarning) {
+        const isSevere = risk.volatility >= RISK_THRESHOLDS.volatilityError;
+        risks.push({
+          type: 'volatility',
+          severity: isSevere ? 'error' : 'warning',
+          title: '높은 변동성',
+          description: `연환산 변동성이 ${risk.volatility.toFixed(1)}%입니다.`,
+          value: risk.volatility,
+          threshold: isSevere ? RISK_THRESHOLDS.volatilityError : RISK_THRESHOLDS.volatilityWarning,
+          recommendation: '변동성이 낮은 종목이나 업종의 비중을 늘려 위험을 낮추세요.',
+        });
+      }
+
+      // 하방 위험 (VaR)
+      if (risk.valueAtRisk && risk.valueAtRisk.percent >= RISK_THRESHOLDS.valueAtRiskWarning) {
+        risks.push({
+          type: 'value_at_risk',
           severity: 'warning',
+          title: '하방 위험 (VaR)',
+          description: `95% 신뢰수준에서 하루 최대 ${risk.valueAtRisk.percent.toFixed(2)}%(${formatAmount(risk.valueAtRisk.amount, baseCurrency)}) 손실이 예상됩니다. 이를 넘는 손실 시 평균 ${risk.conditionalValueAtRisk!.percent.toFixed(2)}%입니다.`,
+          value: risk.valueAtRisk.percent,
+          threshold: RISK_THRESHOLDS.valueAtRiskWarning,
+          recommendation: '손실 감내 범위를 점검하고 필요하면 투자 비중을 줄이세요.',
+        });
+      }
+
+      // 종목 집중도 리스크 (HHI)
+      if (risk.herfindahlIndex >= RISK_THRESHOLDS.herfindahlInfo) {
+        const isHigh = risk.herfindahlIndex >= RISK_THRESHOLDS.herfindahlWarning;
+        risks.push({
+          type: 'concentration',
+          severity: isHigh ? 'warning' : 'info',
           title: '포트폴리오 집중도',
-          description: '보유 종목이 5개 미만입니다. 분산투자를 고려하세요.',
-          value: portfolios.length,
-          threshold: 5,
-          recommendation: '다양한 섹터의 종목을 추가하여 리스크를 분산하세요.',
+          description: `허핀달 지수가 ${risk.herfindahlIndex.toFixed(2)}로 실질적으로 ${risk.effectiveHoldings.toFixed(1)}개 종목에 분산된 것과 같습니다.`,
+          value: risk.herfindahlIndex,
+          threshold: isHigh ? RISK_THRESHOLDS.herfindahlWarning : RISK_THRESHOLDS.herfindahlInfo,
+          recommendation: '비중이 큰 종목을 줄이거나 다른 종목을 추가하여 리스크를 분산하세요.',
+        });
+      }
+
+      // 상관관계 리스크
+      if (risk.averageCorrelation !== null && risk.averageCorrelation >= RISK_THRESHOLDS.correlationWarning) {
+        risks.push({
+          type: 'correlation',
+          severity: 'warning',
+          title: '높은 종목 간 상관관계',
+          description: `보유 종목 간 평균 상관계수가 ${risk.averageCorrelation.toFixed(2)}로 함께 움직이는 경향이 강합니다.`,
+          value: risk.averageCorrelation,
+          threshold: RISK_THRESHOLDS.correlationWarning,
+          recommendation: '상관관계가 낮은 업종이나 자산을 편입하여 분산 효과를 높이세요.',
         });
       }
 
@@ -380,7 +1671,7 @@ export class PortfolioService implements IPortfolioFacade {
           description: `한 섹터에 ${maxSectorPercentage.toFixed(1)}% 이상 투자하고 있습니다.`,
           value: maxSectorPercentage,
           threshold: 50,
-          recommendation: '다양한 섹터에 분산 투자하여 리스크를 줄이세요.',
+          recommendation: '섹터별 목표 비중을 설정하고 리밸런싱 미리보기로 조정 주문을 확인하세요.',
         });
       }
 
@@ -417,13 +1708,22 @@ export class PortfolioService implements IPortfolioFacade {
       tracker.step('포트폴리오 분석 계산 완료');
 
       const result = {
+        accountId: accountId ?? null,
         summary: {
           totalValue,
           totalReturn,
           returnRate,
           riskScore,
+          unrealizedReturn: totalReturn,
+          realizedReturn,
+          dividendIncome,
+          costBasisMethod,
+          baseCurrency,
+          priceEffect,
+          currencyEffect,
         },
         risks,
+        risk,
         diversification: {
           sectors,
         },
@@ -437,4 +1737,760 @@ export class PortfolioService implements IPortfolioFacade {
       throw error;
     }
   }
+
+  /**
+   * 실현손익 리포트
+   * 
+   * 매도 건별 취득원가는 선택한 방식(fifo/lifo/average)으로 원장 전체를 재생하여 계산하고,
+   * 기간(from~to) 필터는 매도/배당/수수료 발생 시점에만 적용 (양도소득 신고용)
+   * 취득원가는 계좌별로 따로 계산하고, 전체 계좌 조회 시 종목별 합계는 계좌를 합산
+   */
+  async getRealizedGains(
+    userId: string,
+    query: RealizedGainsQueryDto,
+    accountId?: string
+  ): Promise<RealizedGainsReport> {
+    const tracker = createStepTracker('PortfolioService.getRealizedGains');
+
+    tracker.step('거래 원장 조회 시작');
+    const inScope = await resolveAccountScope(this.accountRepository, userId, accountId);
+    const transactions = (await this.transactionRepository.findAll(userId, { accountId })).data.filter((t) =>
+      inScope(t.accountId)
+    );
+    tracker.step('거래 원장 조회 완료');
+
+    tracker.step('포지션별 원장 그룹화');
+    const ledgers = groupLedgerByPosition(transactions);
+
+    tracker.step('Stock 조회 시작');
+    const stocks = await this.stockRepository.findMany([...new Set(transactions.map((t) => t.stockId))]);
+    const stockMap = new Map(stocks.map((s) => [s.id, s]));
+    tracker.step('Stock 조회 완료');
+
+    tracker.step('취득원가 계산 시작');
+    const byStockMap = new Map<string, RealizedGainsReport['byStock'][number]>();
+    const sales: RealizedGainsReport['sales'] = [];
+    let fees = 0;
+
+    for (const ledger of ledgers.values()) {
+      const { accountId: ledgerAccountId, stockId } = ledger[0];
+      const stock = stockMap.get(stockId);
+      if (!stock) continue;
+
+      const { sales: stockSales } = calculateCostBasis(ledger, query.method);
+      const salesInRange = stockSales.filter((sale) => isWithinRange(sale.soldAt, query.from, query.to));
+      const ledgerInRange = ledger.filter((t) => isWithinRange(t.executedAt, query.from, query.to));
+      const dividendIncome = ledgerInRange
+        .filter((t) => t.type === 'dividend')
+        .reduce((sum, t) => sum + t.grossAmount - t.fee, 0);
+      fees += ledgerInRange
+        .filter((t) => t.type !== 'dividend')
+        .reduce((sum, t) => sum + t.fee, 0);
+
+      if (salesInRange.length === 0 && dividendIncome === 0) continue;
+
+      const entry = byStockMap.get(stockId) || {
+        stockId,
+        code: stock.code,
+        name: stock.name,
+        quantity: 0,
+        proceeds: 0,
+        costBasis: 0,
+        realizedProfit: 0,
+        dividendIncome: 0,
+      };
+      entry.quantity += salesInRange.reduce((sum, sale) => sum + sale.quantity, 0);
+      entry.proceeds += salesInRange.reduce((sum, sale) => sum + sale.proceeds, 0);
+      entry.costBasis += salesInRange.reduce((sum, sale) => sum + sale.costBasis, 0);
+      entry.realizedProfit += salesInRange.reduce((sum, sale) => sum + sale.realizedProfit, 0);
+      entry.dividendIncome += dividendIncome;
+      byStockMap.set(stockId, entry);
+
+      sales.push(
+        ...salesInRange.map((sale) => ({
+          ...sale,
+          accountId: ledgerAccountId,
+          code: stock.code,
+          name: stock.name,
+        }))
+      );
+    }
+    tracker.step('취득원가 계산 완료');
+
+    const byStock = Array.from(byStockMap.values());
+    sales.sort((a, b) => b.soldAt.getTime() - a.soldAt.getTime());
+    byStock.sort((a, b) => b.realizedProfit - a.realizedProfit);
+
+    const result: RealizedGainsReport = {
+      accountId: accountId ?? null,
+      method: query.method,
+      from: query.from ?? null,
+      to: query.to ?? null,
+      summary: {
+        proceeds: byStock.reduce((sum, s) => sum + s.proceeds, 0),
+        costBasis: byStock.reduce((sum, s) => sum + s.costBasis, 0),
+        realizedProfit: byStock.reduce((sum, s) => sum + s.realizedProfit, 0),
+        dividendIncome: byStock.reduce((sum, s) => sum + s.dividendIncome, 0),
+        fees,
+        saleCount: sales.length,
+      },
+      byStock,
+      sales,
+    };
+
+    tracker.finish();
+    return result;
+  }
+
+  /**
+   * 기간 성과 (일별 평가금액 시계열)
+   * 
+   * 원장을 날짜순으로 재생하며 각 거래일 종가(StockPrice.close)로 보유 종목을 평가
+   * - 종가가 없는 날은 직전 종가를 사용하고, 종가 이력이 전혀 없으면 체결가로 대체
+   * - 거래는 체결일 장 마감 시점에 반영된 것으로 간주 (일별 TWR 계산 시 당일 현금흐름 차감)
+   * - interval(1w, 1M)은 각 구간의 마지막 거래일 값을 반환
+   * - 금액은 기준 통화로 환산 (현금흐름은 체결 시점 환율, 평가금액은 해당 거래일 환율)
+   */
+  async getPerformance(
+    userId: string,
+    query: PerformanceQueryDto,
+    baseCurrency: Currency = DEFAULT_BASE_CURRENCY,
+    accountId?: string
+  ): Promise<PortfolioPerformance> {
+    const tracker = createStepTracker('PortfolioService.getPerformance');
+
+    tracker.step('거래 원장 조회 시작');
+    const inScope = await resolveAccountScope(this.accountRepository, userId, accountId);
+    const transactions = (await this.transactionRepository.findAll(userId, { accountId })).data.filter((t) =>
+      inScope(t.accountId)
+    );
+    const ledger = PortfolioTransaction.sortLedger(transactions);
+    tracker.step('거래 원장 조회 완료');
+
+    const to = query.to ?? new Date();
+    const from = query.from ?? ledger[0]?.executedAt ?? to;
+    const fromKey = toDateKey(from);
+    const toKey = toDateKey(to);
+
+    const result: PortfolioPerformance = {
+      accountId: accountId ?? null,
+      baseCurrency,
+      from: fromKey,
+      to: toKey,
+      interval: query.interval,
+      summary: {
+        startValue: 0,
+        endValue: 0,
+        netContribution: 0,
+        timeWeightedReturn: 0,
+        annualizedTimeWeightedReturn: 0,
+        moneyWeightedReturn: null,
+        maxDrawdown: 0,
+        maxDrawdownPeakDate: null,
+        maxDrawdownTroughDate: null,
+        tradingDays: 0,
+      },
+      series: [],
+    };
+
+    if (ledger.length === 0) {
+      tracker.finish();
+      return result;
+    }
+
+    tracker.step('종가 이력 조회 시작');
+    const stockIds = [...new Set(ledger.map((t) => t.stockId))];
+    const [prices, stocks] = await Promise.all([
+      this.stockPriceRepository.findByStocks(stockIds, new Date(from.getTime() - PRICE_LOOKBACK_DAYS * DAY_MS), to),
+      this.stockRepository.findMany(stockIds),
+    ]);
+    const closesByDay = new Map<string, Map<string, number>>();
+    for (const price of prices) {
+      const dateKey = toDateKey(price.date);
+      const closes = closesByDay.get(dateKey) || new Map<string, number>();
+      closes.set(price.stockId, price.close);
+      closesByDay.set(dateKey, closes);
+    }
+    const tradingDays = Array.from(closesByDay.keys())
+      .filter((day) => day <= toKey)
+      .sort();
+    tracker.step('종가 이력 조회 완료');
+
+    tracker.step('환율 조회 시작');
+    const currencyByStock = new Map(stocks.map((s) => [s.id, toCurrency(s.currency)]));
+    const currencyOf = (stockId: string) => currencyByStock.get(stockId) ?? DEFAULT_BASE_CURRENCY;
+    const fxRateAt = await loadFxRateLookup(this.fxRateRepository, [...currencyByStock.values()], baseCurrency);
+    tracker.step('환율 조회 완료');
+
+    tracker.step('원장 재생 시작');
+    // 포지션(계좌 + 종목)별 보유 수량 (분할 거래는 계좌마다 기록되므로 종목 합계에 적용하지 않음)
+    const positions = new Map<string, { stockId: string; quantity: number }>();
+    const lastPrices = new Map<string, number>();
+    const cashFlows: CashFlow[] = [];
+    const daily: PortfolioPerformance['series'] = [];
+    let cursor = 0;
+    let previousValue = 0;
+    let startValue: number | null = null;
+    let contribution = 0;
+    let growthIndex = 1;
+
+    for (const day of tradingDays) {
+      let flow = 0;
+      while (cursor < ledger.length && toDateKey(ledger[cursor].executedAt) <= day) {
+        const transaction = ledger[cursor];
+        const key = positionKey(transaction.accountId, transaction.stockId);
+        positions.set(key, {
+          stockId: transaction.stockId,
+          quantity: transaction.applyToQuantity(positions.get(key)?.quantity || 0),
+        });
+        if (!lastPrices.has(transaction.stockId) && transaction.price > 0) {
+          lastPrices.set(transaction.stockId, transaction.price);
+        }
+        if (day >= fromKey) {
+          const capitalFlow =
+            transaction.capitalFlow * fxRateAt(currencyOf(transaction.stockId), baseCurrency, transaction.executedAt);
+          flow += capitalFlow;
+          cashFlows.push({ date: transaction.executedAt, amount: -capitalFlow });
+        }
+        cursor++;
+      }
+
+      for (const [stockId, close] of closesByDay.get(day)!) {
+        lastPrices.set(stockId, close);
+      }
+
+      // 해당 거래일 장 마감 시점 환율로 평가
+      const closeAt = new Date(`${day}T15:30:00+09:00`);
+      let value = 0;
+      for (const { stockId, quantity } of positions.values()) {
+        value += quantity * (lastPrices.get(stockId) || 0) * fxRateAt(currencyOf(stockId), baseCurrency, closeAt);
+      }
+
+      if (day < fromKey) {
+        previousValue = value;
+        continue;
+      }
+
+      if (startValue === null) {
+        startValue = previousValue;
+        if (startValue > 0) {
+          cashFlows.unshift({ date: from, amount: -startValue });
+        }
+      }
+
+      // 일별 수익률: 전일 평가금액 대비 (당일 현금흐름 제외)
+      growthIndex *= 1 + dailyReturn(previousValue, value, flow);
+      contribution += flow;
+
+      daily.push({
+        date: day,
+        value,
+        netContribution: contribution,
+        cumulativeReturn: (growthIndex - 1) * 100,
+        drawdown: 0,
+      });
+      previousValue = value;
+    }
+    tracker.step('원장 재생 완료');
+
+    if (daily.length === 0) {
+      tracker.finish();
+      return result;
+    }
+
+    tracker.step('성과 지표 계산 시작');
+    const drawdown = maxDrawdown(daily.map((p) => ({ date: p.date, value: 1 + p.cumulativeReturn / 100 })));
+    let peakIndex = 0;
+    for (const point of daily) {
+      const index = 1 + point.cumulativeReturn / 100;
+      peakIndex = Math.max(peakIndex, index);
+      point.drawdown = peakIndex > 0 ? (index / peakIndex - 1) * 100 : 0;
+    }
+
+    const last = daily[daily.length - 1];
+    cashFlows.push({ date: to, amount: last.value });
+    const moneyWeightedReturn = xirr(cashFlows);
+    const timeWeightedReturn = growthIndex - 1;
+    const days = (to.getTime() - from.getTime()) / DAY_MS;
+
+    // 구간별 마지막 거래일 값만 유지
+    const series = daily.filter(
+      (point, i) =>
+        i === daily.length - 1 ||
+        toPeriodKey(point.date, query.interval) !== toPeriodKey(daily[i + 1].date, query.interval)
+    );
+    tracker.step('성과 지표 계산 완료');
+
+    result.summary = {
+      startValue: startValue ?? 0,
+      endValue: last.value,
+      netContribution: contribution,
+      timeWeightedReturn: timeWeightedReturn * 100,
+      annualizedTimeWeightedReturn: annualizeReturn(timeWeightedReturn, days) * 100,
+      moneyWeightedReturn: moneyWeightedReturn === null ? null : moneyWeightedReturn * 100,
+      maxDrawdown: drawdown.maxDrawdown * 100,
+      maxDrawdownPeakDate: drawdown.peakDate,
+      maxDrawdownTroughDate: drawdown.troughDate,
+      tradingDays: daily.length,
+    };
+    result.series = series;
+
+    tracker.finish();
+    return result;
+  }
+
+  /**
+   * 벤치마크(시장 지수) 대비 성과 비교
+   *
+   * 일별 성과 시계열(getPerformance)과 지수 종가를 거래일 기준으로 맞춘 뒤
+   * 전일 평가금액이 있는 날의 일간 수익률만 사용하여 지표를 계산
+   * - 지수 종가가 없는 날은 직전 종가 사용
+   * - 베타 = Cov(Rp, Rb) / Var(Rb), 추적오차 = Std(Rp - Rb) × √252
+   * - 포트폴리오 수익률은 기준 통화 환산 평가금액 기준 (외화 종목은 환율 변동 포함)
+   */
+  async getBenchmarkComparison(
+    userId: string,
+    query: BenchmarkQueryDto,
+    baseCurrency: Currency = DEFAULT_BASE_CURRENCY,
+    accountId?: string
+  ): Promise<PortfolioBenchmarkComparison> {
+    const tracker = createStepTracker('PortfolioService.getBenchmarkComparison');
+
+    tracker.step('포트폴리오 성과 계산 시작');
+    const performance = await this.getPerformance(
+      userId,
+      new PerformanceQueryDto('1d', query.from, query.to),
+      baseCurrency,
+      accountId
+    );
+    tracker.step('포트폴리오 성과 계산 완료');
+
+    const result: PortfolioBenchmarkComparison = {
+      accountId: performance.accountId,
+      baseCurrency,
+      index: query.index,
+      from: performance.from,
+      to: performance.to,
+      summary: {
+        portfolioReturn: 0,
+        benchmarkReturn: 0,
+        excessReturn: 0,
+        beta: null,
+        alpha: null,
+        correlation: null,
+        trackingError: null,
+        informationRatio: null,
+        observations: 0,
+      },
+      series: [],
+    };
+
+    const daily = performance.series;
+    if (daily.length < 2) {
+      tracker.finish();
+      return result;
+    }
+
+    tracker.step('지수 시세 조회 시작');
+    const firstDay = new Date(`${daily[0].date}T00:00:00+09:00`);
+    const lastDay = new Date(`${daily[daily.length - 1].date}T23:59:59+09:00`);
+    const indexPrices = await this.indexPriceRepository.findByCode(
+      query.index,
+      new Date(firstDay.getTime() - PRICE_LOOKBACK_DAYS * DAY_MS),
+      lastDay
+    );
+    tracker.step('지수 시세 조회 완료');
+
+    if (indexPrices.length === 0) {
+      throw new NotFoundError(`Index prices for ${query.index}`);
+    }
+
+    // 거래일별 지수 종가 (없으면 직전 종가)
+    const indexCloses: Array<number | null> = [];
+    let priceCursor = 0;
+    let lastClose: number | null = null;
+    for (const point of daily) {
+      while (priceCursor < indexPrices.length && toDateKey(indexPrices[priceCursor].date) <= point.date) {
+        lastClose = indexPrices[priceCursor].close;
+        priceCursor++;
+      }
+      indexCloses.push(lastClose);
+    }
+
+    tracker.step('벤치마크 지표 계산 시작');
+    const portfolioReturns: number[] = [];
+    const benchmarkReturns: number[] = [];
+    let portfolioIndex = 1;
+    let benchmarkIndex = 1;
+
+    for (let i = 1; i < daily.length; i++) {
+      const previousClose = indexCloses[i - 1];
+      const close = indexCloses[i];
+      if (daily[i - 1].value <= 0 || previousClose === null || close === null || previousClose <= 0) {
+        continue;
+      }
+
+      const portfolioReturn = (1 + daily[i].cumulativeReturn / 100) / (1 + daily[i - 1].cumulativeReturn / 100) - 1;
+      const benchmarkReturn = close / previousClose - 1;
+      portfolioReturns.push(portfolioReturn);
+      benchmarkReturns.push(benchmarkReturn);
+      portfolioIndex *= 1 + portfolioReturn;
+      benchmarkIndex *= 1 + benchmarkReturn;
+
+      result.series.push({
+        date: daily[i].date,
+        portfolioReturn: (portfolioIndex - 1) * 100,
+        benchmarkReturn: (benchmarkIndex - 1) * 100,
+        excessReturn: (portfolioIndex - benchmarkIndex) * 100,
+      });
+    }
+
+    const observations = portfolioReturns.length;
+    const activeReturns = portfolioReturns.map((r, i) => r - benchmarkReturns[i]);
+    const benchmarkVariance = covariance(benchmarkReturns, benchmarkReturns);
+    const portfolioStd = standardDeviation(portfolioReturns);
+    const benchmarkStd = Math.sqrt(benchmarkVariance);
+    const activeStd = standardDeviation(activeReturns);
+    const beta = observations >= 2 && benchmarkVariance > 0
+      ? covariance(portfolioReturns, benchmarkReturns) / benchmarkVariance
+      : null;
+    const trackingError = observations >= 2 ? activeStd * Math.sqrt(TRADING_DAYS_PER_YEAR) : null;
+    tracker.step('벤치마크 지표 계산 완료');
+
+    result.summary = {
+      portfolioReturn: (portfolioIndex - 1) * 100,
+      benchmarkReturn: (benchmarkIndex - 1) * 100,
+      excessReturn: (portfolioIndex - benchmarkIndex) * 100,
+      beta,
+      alpha: beta === null
+        ? null
+        : (mean(portfolioReturns) - beta * mean(benchmarkReturns)) * TRADING_DAYS_PER_YEAR * 100,
+      correlation: observations >= 2 && portfolioStd > 0 && benchmarkStd > 0
+        ? covariance(portfolioReturns, benchmarkReturns) / (portfolioStd * benchmarkStd)
+        : null,
+      trackingError: trackingError === null ? null : trackingError * 100,
+      informationRatio: trackingError
+        ? (mean(activeReturns) * TRADING_DAYS_PER_YEAR) / trackingError
+        : null,
+      observations,
+    };
+
+    tracker.finish();
+    return result;
+  }
+
+  /**
+   * 배당 수령 내역 + 향후 12개월 예상 배당 달력
+   *
+   * 수령 내역은 원장 배당 거래와, 배당 일정상 대상이었지만 원장에 기록되지 않은 배당을 함께 반환
+   * 예상 배당은 확정 일정과 최근 1년 배당 반복 추정을 현재 보유 수량에 적용
+   * - 배당락이 지났지만 지급 전인 배당은 배당락일 기준 보유 수량 적용
+   */
+  async getDividends(
+    userId: string,
+    query: DividendQueryDto,
+    baseCurrency: Currency = DEFAULT_BASE_CURRENCY,
+    accountId?: string
+  ): Promise<PortfolioDividendReport> {
+    const tracker = createStepTracker('PortfolioService.getDividends');
+    const now = new Date();
+
+    tracker.step('보유 내역 조회 시작');
+    const inScope = await resolveAccountScope(this.accountRepository, userId, accountId);
+    const [{ data: allTransactions }, allPortfolios] = await Promise.all([
+      this.transactionRepository.findAll(userId, { accountId }),
+      this.portfolioRepository.findAll(userId, accountId),
+    ]);
+    const transactions = allTransactions.filter((t) => inScope(t.accountId));
+    const portfolios = allPortfolios.filter((p) => inScope(p.accountId));
+    const ledgers = Array.from(groupLedgerByPosition(transactions).values());
+    const currentQuantities = new Map<string, number>();
+    for (const portfolio of portfolios) {
+      currentQuantities.set(portfolio.stockId, (currentQuantities.get(portfolio.stockId) || 0) + portfolio.quantity);
+    }
+    tracker.step('보유 내역 조회 완료');
+
+    tracker.step('배당 일정 조회 시작');
+    const stockIds = [...new Set([...transactions.map((t) => t.stockId), ...portfolios.map((p) => p.stockId)])];
+    const [stocks, dividends] = await Promise.all([
+      this.stockRepository.findMany(stockIds),
+      this.dividendRepository.findByStocks(stockIds),
+    ]);
+    const stockMap = new Map(stocks.map((s) => [s.id, s]));
+    const fxRateAt = await loadFxRateLookup(
+      this.fxRateRepository,
+      [...stocks.map((s) => toCurrency(s.currency)), ...dividends.map((d) => toCurrency(d.currency))],
+      baseCurrency
+    );
+    tracker.step('배당 일정 조회 완료');
+
+    tracker.step('배당 수령 내역 계산 시작');
+    const history: PortfolioDividendReport['history']['items'] = [];
+    for (const transaction of transactions) {
+      const stock = stockMap.get(transaction.stockId);
+      if (!stock || transaction.type !== 'dividend') continue;
+      if (!isWithinRange(transaction.executedAt, query.from, query.to)) continue;
+
+      const currency = toCurrency(stock.currency);
+      history.push({
+        source: 'ledger',
+        transactionId: transaction.id,
+        dividendId: null,
+        accountId: transaction.accountId,
+        stockId: stock.id,
+        code: stock.code,
+        name: stock.name,
+        exDate: null,
+        payDate: transaction.executedAt,
+        quantity: transaction.quantity,
+        amountPerShare: transaction.price,
+        currency,
+        amount: (transaction.grossAmount - transaction.fee) * fxRateAt(currency, baseCurrency, transaction.executedAt),
+      });
+    }
+
+    for (const ledger of ledgers) {
+      const { accountId: ledgerAccountId, stockId } = ledger[0];
+      const stock = stockMap.get(stockId);
+      if (!stock) continue;
+
+      for (const dividend of dividends) {
+        if (dividend.stockId !== stockId) continue;
+        const payDate = expectedPayDate(dividend).date;
+        if (payDate > now || !isWithinRange(payDate, query.from, query.to)) continue;
+        if (findRecordedDividend(ledger, dividend)) continue;
+
+        const quantity = entitledQuantity(ledger, dividend.exDate);
+        if (quantity <= 0) continue;
+
+        const currency = toCurrency(dividend.currency);
+        history.push({
+          source: 'schedule',
+          transactionId: null,
+          dividendId: dividend.id,
+          accountId: ledgerAccountId,
+          stockId,
+          code: stock.code,
+          name: stock.name,
+          exDate: dividend.exDate,
+          payDate,
+          quantity,
+          amountPerShare: dividend.amount,
+          currency,
+          amount: quantity * dividend.amount * fxRateAt(currency, baseCurrency, payDate),
+        });
+      }
+    }
+    history.sort((a, b) => b.payDate.getTime() - a.payDate.getTime());
+    tracker.step('배당 수령 내역 계산 완료');
+
+    tracker.step('예상 배당 계산 시작');
+    const projectionRange = projectionWindow(now, DIVIDEND_PROJECTION_MONTHS);
+    // 배당락이 지난 배당은 계좌별 원장 기준 보유 수량, 이후 배당은 현재 보유 수량
+    const quantityAt = (stockId: string, exDate: Date): number =>
+      exDate > now
+        ? currentQuantities.get(stockId) || 0
+        : ledgers
+            .filter((ledger) => ledger[0].stockId === stockId)
+            .reduce((sum, ledger) => sum + entitledQuantity(ledger, exDate), 0);
+    const recordedIds = new Set(
+      dividends
+        .filter((dividend) => ledgers.some((ledger) => findRecordedDividend(ledger, dividend)))
+        .map((dividend) => dividend.id)
+    );
+
+    const projected = projectDividends(dividends, quantityAt, now, projectionRange.to)
+      .filter((event) => !event.dividendId || !recordedIds.has(event.dividendId))
+      .flatMap((event) => {
+        const stock = stockMap.get(event.stockId);
+        if (!stock) return [];
+        const currency = toCurrency(event.currency);
+        return [
+          {
+            ...event,
+            code: stock.code,
+            name: stock.name,
+            currency,
+            amount: event.quantity * event.amountPerShare * fxRateAt(currency, baseCurrency),
+          },
+        ];
+      });
+
+    const byStockMap = new Map<string, PortfolioDividendReport['projection']['byStock'][number]>();
+    for (const item of projected) {
+      const entry = byStockMap.get(item.stockId) || {
+        stockId: item.stockId,
+        code: item.code,
+        name: item.name,
+        quantity: currentQuantities.get(item.stockId) || 0,
+        amount: 0,
+      };
+      entry.amount += item.amount;
+      byStockMap.set(item.stockId, entry);
+    }
+    tracker.step('예상 배당 계산 완료');
+
+    const recorded = history.filter((h) => h.source === 'ledger').reduce((sum, h) => sum + h.amount, 0);
+    const unrecorded = history.filter((h) => h.source === 'schedule').reduce((sum, h) => sum + h.amount, 0);
+
+    tracker.finish();
+    return {
+      accountId: accountId ?? null,
+      baseCurrency,
+      history: {
+        from: query.from ?? null,
+        to: query.to ?? null,
+        summary: {
+          total: recorded + unrecorded,
+          recorded,
+          unrecorded,
+          count: history.length,
+        },
+        items: history,
+      },
+      projection: {
+        from: toDateKey(now),
+        to: toDateKey(new Date(projectionRange.to.getTime() - DAY_MS)),
+        total: projected.reduce((sum, item) => sum + item.amount, 0),
+        byStock: Array.from(byStockMap.values()).sort((a, b) => b.amount - a.amount),
+        months: buildIncomeCalendar(projected, projectionRange.from, DIVIDEND_PROJECTION_MONTHS),
+      },
+    };
+  }
+
+  /**
+   * 목표 비중 조회
+   */
+  async getTargets(userId: string): Promise<PortfolioTargetAllocation> {
+    const targets = await this.targetRepository.findByUser(userId);
+    if (targets.length === 0) {
+      return { type: null, targets: [], cashWeight: 100 };
+    }
+
+    const type = targets[0].type;
+    const stocks = type === 'stock' ? await this.stockRepository.findMany(targets.map((t) => t.key)) : [];
+    const stockMap = new Map(stocks.map((s) => [s.id, s]));
+
+    return {
+      type,
+      targets: targets.map((target) => ({
+        key: target.key,
+        name: stockMap.get(target.key)?.name ?? target.key,
+        code: stockMap.get(target.key)?.code ?? null,
+        weight: target.weight,
+      })),
+      cashWeight: Math.max(0, 100 - targets.reduce((sum, t) => sum + t.weight, 0)),
+    };
+  }
+
+  /**
+   * 목표 비중 저장 (기존 목표 전체 교체)
+   */
+  async updateTargets(userId: string, dto: UpdatePortfolioTargetsDto): Promise<PortfolioTargetAllocation> {
+    const tracker = createStepTracker('PortfolioService.updateTargets');
+
+    tracker.step('목표 종목/섹터 확인');
+    const weights = await resolveTargetKeys(this.stockRepository, dto);
+
+    await executeTransaction(
+      async (tx) => {
+        const targetRepoWithTx = PortfolioTargetRepositoryAdapter.withTransaction(tx);
+
+        tracker.step('기존 목표 삭제');
+        await targetRepoWithTx.deleteByUser(userId);
+
+        tracker.step('목표 저장');
+        await targetRepoWithTx.createMany(
+          Array.from(weights.entries()).map(
+            ([key, weight]) => new PortfolioTarget('', userId, dto.type, key, weight, new Date(), new Date())
+          )
+        );
+      },
+      TRANSACTION_TIMEOUT.DEFAULT
+    );
+
+    tracker.finish();
+    return this.getTargets(userId);
+  }
+
+  async deleteTargets(userId: string): Promise<void> {
+    await this.targetRepository.deleteByUser(userId);
+  }
+
+  /**
+   * 리밸런싱 주문 미리보기 (실제 거래는 기록하지 않음)
+   *
+   * 요청에 targets가 있으면 해당 목표로, 없으면 저장된 목표 비중으로 계산
+   * accountId 미지정 시 전체 계좌 보유 수량을 합산하여 계산
+   * 현금·금액은 기준 통화 기준 (외화 종목 현재가는 현재 환율로 환산)
+   */
+  async previewRebalance(
+    userId: string,
+    dto: RebalancePreviewDto,
+    baseCurrency: Currency = DEFAULT_BASE_CURRENCY
+  ): Promise<RebalancePreview> {
+    const tracker = createStepTracker('PortfolioService.previewRebalance');
+
+    tracker.step('목표 비중 조회');
+    let type: PortfolioTarget['type'];
+    let weights: Map<string, number>;
+    if (dto.targets) {
+      type = dto.targets.type;
+      weights = await resolveTargetKeys(this.stockRepository, dto.targets);
+    } else {
+      const stored = await this.targetRepository.findByUser(userId);
+      if (stored.length === 0) {
+        throw new BadRequestError('No target allocation. Save targets first or pass them in the request');
+      }
+      type = stored[0].type;
+      weights = new Map(stored.map((t) => [t.key, t.weight]));
+    }
+
+    tracker.step('보유 종목 조회');
+    const inScope = await resolveAccountScope(this.accountRepository, userId, dto.accountId);
+    const portfolios = (await this.portfolioRepository.findAll(userId, dto.accountId)).filter((p) =>
+      inScope(p.accountId)
+    );
+    const stockIds = new Set(portfolios.map((p) => p.stockId));
+    if (type === 'stock') {
+      weights.forEach((_, stockId) => stockIds.add(stockId));
+    }
+    const stocks = await this.stockRepository.findMany(Array.from(stockIds));
+    const quantities = new Map<string, number>();
+    for (const portfolio of portfolios) {
+      quantities.set(portfolio.stockId, (quantities.get(portfolio.stockId) || 0) + portfolio.quantity);
+    }
+
+    tracker.step('환율 조회');
+    const fxRateAt = await loadFxRateLookup(
+      this.fxRateRepository,
+      stocks.map((s) => toCurrency(s.currency)),
+      baseCurrency
+    );
+
+    const holdings: RebalanceHolding[] = stocks.map((stock) => ({
+      stockId: stock.id,
+      code: stock.code,
+      name: stock.name,
+      sector: stock.sector || '기타',
+      quantity: quantities.get(stock.id) || 0,
+      price: stock.currentPrice * fxRateAt(toCurrency(stock.currency), baseCurrency),
+    }));
+
+    tracker.step('리밸런싱 계산');
+    const plan = planRebalance(holdings, type, weights, {
+      cash: dto.cash,
+      minTradeAmount: dto.minTradeAmount,
+      lotSize: dto.lotSize,
+      driftTolerance: dto.driftTolerance,
+    });
+    for (const holding of holdings) {
+      if (holding.price <= 0) {
+        plan.warnings.push(`${holding.name}의 현재가가 없어 주문에서 제외했습니다.`);
+      }
+    }
+
+    tracker.finish();
+    return { baseCurrency, ...plan };
+  }
 }
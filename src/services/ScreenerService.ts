@@ -0,0 +1,229 @@
+/**
+ * Screener Service
+ * Stock 필드와 일봉 기반 파생 지표로 종목을 조건 검색하고, 사용자별 조건을 저장
+ */
+
+import { IScreenerFacade } from '../facades/IScreenerFacade';
+import { IStockRepository } from '../repositories/IStockRepository';
+import { IStockPriceRepository } from '../repositories/IStockPriceRepository';
+import { ISavedScreenRepository } from '../repositories/ISavedScreenRepository';
+import { RunScreenerDto } from '../dto/screener/RunScreenerDto';
+import { SaveScreenDto } from '../dto/screener/SaveScreenDto';
+import { UpdateScreenDto } from '../dto/screener/UpdateScreenDto';
+import { ScreenerResultDto } from '../dto/screener/ScreenerResultDto';
+import { SavedScreenResponseDto } from '../dto/screener/SavedScreenResponseDto';
+import { SavedScreen, ScreenerExpression, ScreenerSort } from '../entities/SavedScreen';
+import { Stock } from '../entities/Stock';
+import { NotFoundError, ConflictError, UnauthorizedError } from '../errors/AppError';
+import { logger } from '../config/logger';
+import { createStepTracker } from '../utils/aop';
+import { cacheService } from './CacheService';
+import { toDateKey } from '../utils/performance-metrics';
+import {
+  DerivedMetric,
+  ScreenerBar,
+  ScreenerValue,
+  collectFields,
+  computeDerivedMetrics,
+  evaluateExpression,
+  isStockField,
+  mayMatchExpression,
+  parseDerivedMetric,
+  requiredBars,
+} from '../utils/screener';
+
+// 기본 정렬: 시가총액 내림차순
+const DEFAULT_SORT: ScreenerSort = { field: 'marketCap', order: 'desc' };
+
+// 파생 지표는 일봉 기준이므로 5분 캐시 (종목 ID → 지표 키 → 값)
+const METRICS_CACHE_TTL = 300;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const stockValues = (stock: Stock): Record<string, ScreenerValue> => ({
+  market: stock.market,
+  sector: stock.sector,
+  currentPrice: stock.currentPrice,
+  marketCap: stock.marketCap !== null ? Number(stock.marketCap) : null,
+  changeRate: stock.changeRate,
+  volume: Number(stock.volume),
+});
+
+export class ScreenerService implements IScreenerFacade {
+  constructor(
+    private readonly stockRepository: IStockRepository,
+    private readonly stockPriceRepository: IStockPriceRepository,
+    private readonly savedScreenRepository: ISavedScreenRepository
+  ) {}
+
+  /**
+   * 스크리너 실행
+   *
+   * 1. 전체 종목 조회 → Stock 필드 조건으로 후보 축소
+   * 2. 후보 종목의 조건/정렬에 사용된 파생 지표 계산 (캐시)
+   * 3. 조건식 평가 → 정렬 (null은 마지막) → 페이지네이션
+   */
+  async runScreen(dto: RunScreenerDto, userId?: string): Promise<{
+    data: ScreenerResultDto[];
+    total: number;
+  }> {
+    const tracker = createStepTracker('ScreenerService.runScreen');
+
+    let filter: ScreenerExpression | null = dto.filter ?? null;
+    let sort: ScreenerSort | null = dto.sort ?? null;
+    if (dto.screenId) {
+      if (!userId) {
+        throw new UnauthorizedError('Login required to run a saved screen');
+      }
+      const screen = await this.savedScreenRepository.findById(dto.screenId, userId);
+      if (!screen) {
+        throw new NotFoundError('Saved screen');
+      }
+      filter = dto.filter ?? screen.filter;
+      sort = dto.sort ?? screen.sort;
+    }
+    sort = sort ?? DEFAULT_SORT;
+
+    tracker.step('종목 조회 시작');
+    // 일봉 조회 범위를 줄이기 위해 Stock 필드 조건을 먼저 적용
+    const stocks = (await this.stockRepository.findAll()).filter(
+      (stock) => !filter || mayMatchExpression(filter, stockValues(stock))
+    );
+    tracker.step('종목 조회 완료');
+
+    tracker.step('파생 지표 계산 시작');
+    const fields = [...new Set([...(filter ? collectFields(filter) : []), sort.field])];
+    const metrics = fields
+      .filter((field) => !isStockField(field))
+      .map(parseDerivedMetric)
+      .filter((metric): metric is DerivedMetric => metric !== null);
+    const derived = await this.getDerivedMetrics(stocks, metrics);
+    tracker.step('파생 지표 계산 완료');
+
+    tracker.step('조건 평가 시작');
+    const rows = stocks
+      .map((stock) => {
+        const metricValues = derived[stock.id] ?? Object.fromEntries(metrics.map((metric) => [metric.key, null]));
+        return { stock, metricValues, values: { ...stockValues(stock), ...metricValues } };
+      })
+      .filter((row) => !filter || evaluateExpression(filter, row.values));
+
+    const direction = sort.order === 'asc' ? 1 : -1;
+    const sortField = sort.field;
+    rows.sort((a, b) => {
+      const [x, y] = [a.values[sortField], b.values[sortField]];
+      if (x === null || x === undefined) return y === null || y === undefined ? 0 : 1;
+      if (y === null || y === undefined) return -1;
+      return (x < y ? -1 : x > y ? 1 : 0) * direction;
+    });
+    tracker.step('조건 평가 완료');
+
+    tracker.finish();
+    return {
+      data: rows
+        .slice(dto.offset, dto.offset + dto.limit)
+        .map((row) => ScreenerResultDto.to(row.stock, row.metricValues)),
+      total: rows.length,
+    };
+  }
+
+  async getScreens(userId: string): Promise<SavedScreenResponseDto[]> {
+    const screens = await this.savedScreenRepository.findByUser(userId);
+    return screens.map((screen) => SavedScreenResponseDto.to(screen));
+  }
+
+  async createScreen(userId: string, dto: SaveScreenDto): Promise<SavedScreenResponseDto> {
+    const existing = await this.savedScreenRepository.findByName(userId, dto.name);
+    if (existing) {
+      throw new ConflictError(`Saved screen already exists: ${dto.name}`);
+    }
+
+    const screen = await this.savedScreenRepository.create(
+      new SavedScreen('', userId, dto.name, dto.filter, dto.sort, new Date(), new Date())
+    );
+
+    logger.info(`Saved screen ${screen.id} created for user ${userId}`);
+    return SavedScreenResponseDto.to(screen);
+  }
+
+  async updateScreen(id: string, userId: string, dto: UpdateScreenDto): Promise<SavedScreenResponseDto> {
+    const screen = await this.savedScreenRepository.findById(id, userId);
+    if (!screen) {
+      throw new NotFoundError('Saved screen');
+    }
+
+    if (dto.name !== undefined && dto.name !== screen.name) {
+      const existing = await this.savedScreenRepository.findByName(userId, dto.name);
+      if (existing) {
+        throw new ConflictError(`Saved screen already exists: ${dto.name}`);
+      }
+    }
+
+    const updated = await this.savedScreenRepository.update(id, {
+      name: dto.name,
+      filter: dto.filter,
+      sort: dto.sort,
+    });
+
+    logger.info(`Saved screen ${id} updated`);
+    return SavedScreenResponseDto.to(updated);
+  }
+
+  async deleteScreen(id: string, userId: string): Promise<void> {
+    const screen = await this.savedScreenRepository.findById(id, userId);
+    if (!screen) {
+      throw new NotFoundError('Saved screen');
+    }
+
+    await this.savedScreenRepository.delete(id);
+    logger.info(`Saved screen ${id} deleted`);
+  }
+
+  /**
+   * 종목별 파생 지표 (종목 ID → 지표 키 → 값)
+   * 같은 날 같은 지표 조합은 캐시를 재사용하고, 캐시에 없는 종목만 일봉을 조회해 추가
+   */
+  private async getDerivedMetrics(
+    stocks: Stock[],
+    metrics: DerivedMetric[]
+  ): Promise<Record<string, Record<string, number | null>>> {
+    if (metrics.length === 0 || stocks.length === 0) return {};
+
+    const keys = metrics.map((metric) => metric.key).sort();
+    const cacheKey = `screener:metrics:${toDateKey(new Date())}:${keys.join(',')}`;
+    const cached = (await cacheService.get<Record<string, Record<string, number | null>>>(cacheKey)) ?? {};
+    const missing = stocks.filter((stock) => !(stock.id in cached));
+    if (missing.length === 0) {
+      logger.debug(`Screener metrics cache hit: ${cacheKey}`);
+      return cached;
+    }
+
+    // 거래일 → 달력일 (주말/휴장일 여유 포함)
+    const from = new Date(Date.now() - (Math.ceil(requiredBars(metrics) * 1.6) + 14) * DAY_MS);
+    const prices = await this.stockPriceRepository.findByStocks(
+      missing.map((stock) => stock.id),
+      from
+    );
+
+    const bars = new Map<string, ScreenerBar[]>();
+    for (const price of prices) {
+      if (price.close <= 0) continue;
+      // 수정주가 기준 (액면분할 전 가격이 고점/수익률을 왜곡하지 않도록)
+      const adjusted = price.toAdjusted();
+      const series = bars.get(price.stockId);
+      if (series) {
+        series.push(adjusted);
+      } else {
+        bars.set(price.stockId, [adjusted]);
+      }
+    }
+
+    const result: Record<string, Record<string, number | null>> = { ...cached };
+    for (const stock of missing) {
+      result[stock.id] = computeDerivedMetrics(bars.get(stock.id) ?? [], stock.currentPrice, metrics);
+    }
+
+    await cacheService.set(cacheKey, result, METRICS_CACHE_TTL);
+    return result;
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Stock Price Ingestion Service
+ * 시세 공급원 일봉 → StockPrice 적재 및 Stock 현재가 갱신 (장 마감 후 실행)
+ *
+ * 종목별 처리
+ * 1. 마지막 저장일 기준 GAP_LOOKBACK_DAYS 전부터 오늘까지 일봉 조회 (이력이 없으면 최근 1년)
+ * 2. 저장되지 않은 날짜(누락 구간 포함)와 마지막 저장일 이후 일봉을 upsert
+ *    마지막 저장일은 장중 값일 수 있으므로 다시 반영
+ * 3. 가장 최근 일봉으로 Stock.currentPrice/change/changeRate/volume 갱신
+ * 4. 당일 일봉으로 현재가가 갱신된 종목은 알림 평가 큐에 등록 (장중 스캔 이후 마감 시세 반영)
+ *
+ * 이미 적용된 기업 이벤트의 기준일 이전 날짜를 새로 적재하면 해당 이벤트 계수를 누적한 adjFactor로 저장
+ *
+ * 한 종목의 실패는 전체 실행을 중단하지 않고 통계에 기록
+ */
+
+import { IStockRepository } from '../repositories/IStockRepository';
+import { IStockPriceRepository } from '../repositories/IStockPriceRepository';
+import { IAlertFacade } from '../facades/IAlertFacade';
+import { ICorporateActionRepository } from '../repositories/ICorporateActionRepository';
+import { StockPrice } from '../entities/StockPrice';
+import { Stock } from '../entities/Stock';
+import { AlertQuote } from '../entities/Alert';
+import { MarketDataProvider, getMarketDataProvider, toTradingDate } from '../providers/MarketDataProvider';
+import { StockPriceRepositoryAdapter } from '../adapters/StockPriceRepositoryAdapter';
+import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { executeTransaction, TRANSACTION_TIMEOUT } from '../utils/transaction';
+import { toDateKey } from '../utils/performance-metrics';
+import { logger } from '../config/logger';
+import { createStepTracker } from '../utils/aop';
+
+// 저장된 이력이 없을 때 최초 적재 기간
+const INITIAL_BACKFILL_DAYS = 365;
+// 누락 구간 확인 기간 (마지막 저장일 기준)
+const GAP_LOOKBACK_DAYS = 30;
+// 실행 통계에 남길 실패 종목 수
+const MAX_REPORTED_FAILURES = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 실행 통계
+ */
+export interface StockPriceIngestionStats {
+  provider: string;
+  stocks: number;
+  succeeded: number;
+  failed: number;
+  inserted: number; // 마지막 저장일 이후 새 일봉
+  updated: number; // 이미 있던 일봉 재반영
+  gapsFilled: number; // 마지막 저장일 이전 누락 일봉
+  quotesUpdated: number;
+  failures: Array<{ code: string; error: string }>;
+}
+
+const round2 = (value: number): number => Number(value.toFixed(2));
+
+export class StockPriceIngestionService {
+  constructor(
+    private readonly stockRepository: IStockRepository,
+    private readonly stockPriceRepository: IStockPriceRepository,
+    private readonly corporateActionRepository: ICorporateActionRepository,
+    private readonly alertFacade: IAlertFacade,
+    private readonly provider: MarketDataProvider = getMarketDataProvider()
+  ) {}
+
+  /**
+   * 전체 종목 일봉 적재
+   */
+  async ingest(to: Date = new Date()): Promise<StockPriceIngestionStats> {
+    const tracker = createStepTracker('StockPriceIngestionService.ingest');
+
+    tracker.step('종목 조회 시작');
+    const stocks = await this.stockRepository.findAll();
+    tracker.step('종목 조회 완료');
+
+    const stats: StockPriceIngestionStats = {
+      provider: this.provider.name,
+      stocks: stocks.length,
+      succeeded: 0,
+      failed: 0,
+      inserted: 0,
+      updated: 0,
+      gapsFilled: 0,
+      quotesUpdated: 0,
+      failures: [],
+    };
+
+    tracker.step('일봉 적재 시작');
+    const quotes: AlertQuote[] = [];
+    // 공급원 요청 제한을 고려해 종목 단위로 순차 처리
+    for (const stock of stocks) {
+      try {
+        const result = await this.ingestStock(stock, to);
+        stats.succeeded++;
+        stats.inserted += result.inserted;
+        stats.updated += result.updated;
+        stats.gapsFilled += result.gapsFilled;
+        if (result.quoteUpdated) stats.quotesUpdated++;
+        if (result.quote) quotes.push(result.quote);
+      } catch (error) {
+        stats.failed++;
+        const message = error instanceof Error ? error.message : String(error);
+        if (stats.failures.length < MAX_REPORTED_FAILURES) {
+          stats.failures.push({ code: stock.code, error: message });
+        }
+        logger.warn(`Stock price ingestion failed for ${stock.code}: ${message}`);
+      }
+    }
+    tracker.step('일봉 적재 완료');
+
+    tracker.step('알림 평가 요청 시작');
+    // 알림 평가 실패가 적재 결과에 영향을 주지 않도록 분리
+    try {
+      await this.alertFacade.enqueuePriceUpdates(quotes);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Alert evaluation enqueue failed after price ingestion: ${message}`);
+    }
+    tracker.step('알림 평가 요청 완료');
+
+    logger.info(
+      `Stock prices ingested from ${stats.provider}: ${stats.succeeded}/${stats.stocks} stocks, ` +
+        `${stats.inserted} inserted, ${stats.updated} updated, ${stats.gapsFilled} gaps filled, ${stats.failed} failed`
+    );
+    tracker.finish();
+    return stats;
+  }
+
+  private async ingestStock(
+    stock: Stock,
+    to: Date
+  ): Promise<{ inserted: number; updated: number; gapsFilled: number; quoteUpdated: boolean; quote: AlertQuote | null }> {
+    const [latest] = await this.stockPriceRepository.findLatestBefore(stock.id, new Date(to.getTime() + DAY_MS), 1);
+    const latestKey = latest ? toDateKey(latest.date) : null;
+    const from = latest
+      ? toTradingDate(new Date(latest.date.getTime() - GAP_LOOKBACK_DAYS * DAY_MS))
+      : toTradingDate(new Date(to.getTime() - INITIAL_BACKFILL_DAYS * DAY_MS));
+
+    const [bars, existing, [previous], actions] = await Promise.all([
+      this.provider.getDailyBars(stock.code, from, to),
+      this.stockPriceRepository.findByStock(stock.id, from),
+      this.stockPriceRepository.findLatestBefore(stock.id, from, 1),
+      this.corporateActionRepository.findApplied([stock.id]),
+    ]);
+
+    // 해당 날짜 이후 기준일인 적용 완료 이벤트의 계수 누적
+    const adjFactorAt = (date: Date): number =>
+      actions.reduce((factor, action) => (date < action.exDate ? factor * (action.adjustmentFactor ?? 1) : factor), 1);
+
+    // 시드 데이터처럼 자정이 아닌 시각으로 저장된 일봉도 같은 날짜로 취급
+    const existingByDate = new Map(existing.map((price) => [toDateKey(price.date), price]));
+
+    const result = { inserted: 0, updated: 0, gapsFilled: 0, quoteUpdated: false, quote: null as AlertQuote | null };
+    const prices: StockPrice[] = [];
+    let previousClose = previous?.close ?? null;
+
+    for (const bar of bars) {
+      const dateKey = toDateKey(bar.date);
+      const stored = existingByDate.get(dateKey);
+      const change = previousClose ? bar.close - previousClose : 0;
+      const changeRate = previousClose ? (change / previousClose) * 100 : 0;
+      previousClose = bar.close;
+
+      const isNewer = latestKey === null || dateKey >= latestKey;
+      if (stored && !isNewer) continue;
+
+      if (stored) result.updated++;
+      else if (isNewer) result.inserted++;
+      else result.gapsFilled++;
+
+      prices.push(
+        new StockPrice(
+          stored?.id ?? '',
+          stock.id,
+          stored?.date ?? bar.date,
+          bar.open,
+          bar.high,
+          bar.low,
+          bar.close,
+          BigInt(Math.round(bar.volume)),
+          round2(change),
+          round2(changeRate),
+          stored?.adjFactor ?? adjFactorAt(bar.date)
+        )
+      );
+    }
+
+    if (prices.length === 0) return result;
+
+    const last = prices[prices.length - 1];
+    const isLatestBar = latestKey === null || toDateKey(last.date) >= latestKey;
+
+    await executeTransaction(async (tx) => {
+      await StockPriceRepositoryAdapter.withTransaction(tx).upsertMany(prices);
+      if (isLatestBar) {
+        await StockRepositoryAdapter.withTransaction(tx).updateQuote(stock.id, {
+          currentPrice: last.close,
+          change: last.change,
+          changeRate: last.changeRate,
+          volume: last.volume,
+        });
+      }
+    }, TRANSACTION_TIMEOUT.MAX);
+
+    result.quoteUpdated = isLatestBar;
+    // 지난 일봉 재반영은 새 시세가 아니므로 당일 일봉만 알림 평가 대상
+    if (isLatestBar && toDateKey(last.date) === toDateKey(to)) {
+      result.quote = {
+        stockId: stock.id,
+        price: last.close,
+        changeRate: last.changeRate,
+        volume: Number(last.volume),
+        observedAt: to,
+      };
+    }
+    return result;
+  }
+}
@@ -3,93 +3,91 @@ import { StockResponseDto, StockDetailResponseDto } from '../dto/stock/StockResp
 // TODO: 실제 증권 API 연결 시 활성화
 // import { NaverStockApiAdapter } from '../adapters/NaverStockApiAdapter';
 import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { StockPriceRepositoryAdapter } from '../adapters/StockPriceRepositoryAdapter';
+import { IStockPriceRepository } from '../repositories/IStockPriceRepository';
+import { StockIndicatorQueryDto } from '../dto/stock/StockIndicatorQueryDto';
+import { IndicatorValue, StockIndicatorResponseDto } from '../dto/stock/StockIndicatorResponseDto';
 import { prisma } from '../config/prisma';
 import { logger } from '../config/logger';
 import { createStepTracker } from '../utils/aop';
+import { cacheService } from './CacheService';
+import { CHART_PERIOD_DAYS, INTRADAY_MAX_PERIOD_DAYS } from '../constants/chart';
+import { IndicatorSpec, bollinger, ema, macd, rsi, sma, vwap, warmupBars } from '../utils/indicators';
+import { toDateKey } from '../utils/performance-metrics';
+import {
+  DailyBar,
+  OhlcCandle,
+  aggregateTicks,
+  isDailyResampleInterval,
+  isIntradayInterval,
+  resampleDaily,
+} from '../utils/ohlc-resample';
+import { StockTickRepositoryAdapter } from '../adapters/StockTickRepositoryAdapter';
+import { IStockTickRepository } from '../repositories/IStockTickRepository';
+import { StockThemeRepositoryAdapter } from '../adapters/StockThemeRepositoryAdapter';
+import { IStockThemeRepository } from '../repositories/IStockThemeRepository';
 
-const POPULAR_STOCKS: Record<string, { code: string; name: string; market: string; sector: string }[]> = {
-  '인기': [
-    { code: '005930', name: '삼성전자', market: 'KOSPI', sector: 'IT' },
-    { code: '000660', name: 'SK하이닉스', market: 'KOSPI', sector: 'IT' },
-    { code: '373220', name: 'LG에너지솔루션', market: 'KOSPI', sector: '2차전지' },
-    { code: '207940', name: '삼성바이오로직스', market: 'KOSPI', sector: '바이오' },
-    { code: '005380', name: '현대차', market: 'KOSPI', sector: '자동차' },
-    { code: '000270', name: '기아', market: 'KOSPI', sector: '자동차' },
-    { code: '035420', name: 'NAVER', market: 'KOSPI', sector: 'IT' },
-    { code: '035720', name: '카카오', market: 'KOSPI', sector: 'IT' },
-  ],
-  '2차전지': [
-    { code: '373220', name: 'LG에너지솔루션', market: 'KOSPI', sector: '2차전지' },
-    { code: '006400', name: '삼성SDI', market: 'KOSPI', sector: '2차전지' },
-  ],
-  'IT/반도체': [
-    { code: '005930', name: '삼성전자', market: 'KOSPI', sector: 'IT' },
-    { code: '000660', name: 'SK하이닉스', market: 'KOSPI', sector: 'IT' },
-  ],
-  '바이오': [
-    { code: '207940', name: '삼성바이오로직스', market: 'KOSPI', sector: '바이오' },
-    { code: '068270', name: '셀트리온', market: 'KOSPI', sector: '바이오' },
-  ],
-  '금융': [
-    { code: '105560', name: 'KB금융', market: 'KOSPI', sector: '금융' },
-    { code: '055550', name: '신한지주', market: 'KOSPI', sector: '금융' },
-  ],
-  '자동차': [
-    { code: '005380', name: '현대차', market: 'KOSPI', sector: '자동차' },
-    { code: '000270', name: '기아', market: 'KOSPI', sector: '자동차' },
-  ],
-};
+// 검색 결과 최대 개수
+const SEARCH_RESULT_LIMIT = 10;
+
+// 지표는 일봉 기준이므로 차트(10초)보다 길게 캐시
+const INDICATOR_CACHE_TTL = 60;
+
+/**
+ * 차트 포인트 변환 (라벨: 분봉은 시각, 월봉은 연월, 그 외는 월일)
+ */
+const toChartPoint = (candle: OhlcCandle, interval: string) => ({
+  time: isIntradayInterval(interval)
+    ? candle.timestamp.toLocaleTimeString('ko-KR', {
+        hour: '2-digit',
+        minute: '2-digit',
+        hour12: false,
+        timeZone: 'Asia/Seoul',
+      })
+    : candle.timestamp.toLocaleDateString('ko-KR', interval === '1M'
+      ? { year: 'numeric', month: 'short' }
+      : { month: 'short', day: 'numeric' }),
+  timestamp: candle.timestamp.toISOString(),
+  value: candle.close, // 하위 호환성
+  volume: candle.volume,
+  // OHLC 데이터 추가 (캔들스틱 차트용)
+  open: candle.open,
+  high: candle.high,
+  low: candle.low,
+  close: candle.close,
+});
 
 export class StockService implements IStockFacade {
   constructor(
     // TODO: 실제 증권 API 연결 시 활성화
     // private readonly naverApi: NaverStockApiAdapter,
-    private readonly stockRepo: StockRepositoryAdapter = new StockRepositoryAdapter()
+    private readonly stockRepo: StockRepositoryAdapter = new StockRepositoryAdapter(),
+    private readonly stockPriceRepo: IStockPriceRepository = new StockPriceRepositoryAdapter(),
+    private readonly stockTickRepo: IStockTickRepository = new StockTickRepositoryAdapter(),
+    private readonly stockThemeRepo: IStockThemeRepository = new StockThemeRepositoryAdapter()
   ) {}
 
   async getStocksByCategory(category: string): Promise<StockResponseDto[]> {
     const tracker = createStepTracker('StockService.getStocksByCategory');
     
-    tracker.step('카테고리별 종목 목록 조회');
-    const stockList = POPULAR_STOCKS[category] || POPULAR_STOCKS['인기'];
+    tracker.step('테마 조회');
+    // 관리자가 편집하는 활성 테마 (없는 카테고리면 첫 번째 활성 테마)
+    const themes = await this.stockThemeRepo.findAll();
+    const theme = themes.find((t) => t.name === category) ?? themes[0];
+    if (!theme) {
+      logger.warn('No active stock theme found. Please run theme seed script.');
+      tracker.finish();
+      return [];
+    }
 
     tracker.step('Batch Stock 조회 시작 (최적화됨)');
-    // ✅ 쿼리 최적화: 개별 쿼리 대신 batch query 사용 (8번 쿼리 → 1번 쿼리)
-    const codes = stockList.map(s => s.code);
-    const dbStocks = await this.stockRepo.findByCodes(codes);
-    const stockMap = new Map(dbStocks.map(s => [s.code, s]));
+    // ✅ 쿼리 최적화: 개별 쿼리 대신 batch query 사용
+    const dbStocks = await this.stockRepo.findMany(theme.stockIds);
+    const stockMap = new Map(dbStocks.map(s => [s.id, s]));
 
-    const stocksWithPrice = stockList.map((stock, index) => {
-        // 1. DB에서 조회한 stock 사용
-        let dbStock = stockMap.get(stock.code);
+    const stocksWithPrice = theme.stockIds.map((stockId) => {
+        const dbStock = stockMap.get(stockId);
 
-        // TODO: 실제 증권 API 연결 시 활성화
-        // 2. DB에 없으면 네이버 API 호출 후 DB에 저장
-        // if (!dbStock) {
-        //   try {
-        //     const priceData = await this.naverApi.getStockPrice(stock.code);
-        //     
-        //     // DB에 저장
-        //     await prisma.stock.create({
-        //       data: {
-        //         code: stock.code,
-        //         name: stock.name,
-        //         market: stock.market,
-        //         sector: stock.sector,
-        //         currentPrice: priceData.currentPrice,
-        //         change: priceData.change,
-        //         changeRate: priceData.changePercent,
-        //         volume: BigInt(priceData.volume),
-        //       },
-        //     });
-        //
-        //     dbStock = await this.stockRepo.findByCode(stock.code);
-        //   } catch (error) {
-        //     logger.warn(`Failed to fetch/save stock ${stock.code}:`, error);
-        //   }
-        // }
-
-        // 3. DB 데이터 사용 또는 네이버 API 데이터 사용
         if (dbStock) {
           return StockResponseDto.to({
             id: dbStock.id,
@@ -103,12 +101,12 @@ export class StockService implements IStockFacade {
             volume: Number(dbStock.volume),
           });
         } else {
-          // DB에 없으면 null 반환 (시드 데이터 필요)
-          logger.warn(`Stock ${stock.code} not found in DB. Please run seed script.`);
+          // 테마 조회 후 삭제된 종목
+          logger.warn(`Stock ${stockId} in theme ${theme.name} not found in DB`);
           return null;
         }
       }).filter((stock): stock is StockResponseDto => stock !== null);
-    tracker.step('병렬 Stock 조회 완료');
+    tracker.step('Batch Stock 조회 완료');
 
     tracker.finish();
     return stocksWithPrice;
@@ -155,7 +153,20 @@ export class StockService implements IStockFacade {
     // }
 
     // 현재는 DB에서만 검색
-    const result = this.localSearch(query);
+    const stocks = await this.stockRepo.search(query, SEARCH_RESULT_LIMIT);
+    const result = stocks.map((stock) =>
+      StockResponseDto.to({
+        id: stock.id,
+        code: stock.code,
+        name: stock.name,
+        market: stock.market,
+        sector: stock.sector,
+        currentPrice: stock.currentPrice,
+        change: stock.change,
+        changeRate: stock.changeRate,
+        volume: Number(stock.volume),
+      })
+    );
     tracker.step('로컬 검색 완료');
     tracker.finish();
     return result;
@@ -166,7 +177,8 @@ export class StockService implements IStockFacade {
     includeChart: boolean = false,
     period: number = 30,
     interval: string = '1d',
-    dateRange: { start: string; end: string } | null = null
+    dateRange: { start: string; end: string } | null = null,
+    adjusted: boolean = true
   ): Promise<StockDetailResponseDto | null> {
     const tracker = createStepTracker('StockService.getStockByCode');
     
@@ -214,7 +226,19 @@ export class StockService implements IStockFacade {
     if (includeChart) {
       tracker.step('차트 데이터 조회 시작');
       // DB에서 가격 이력 조회 시도
-      if (stock) {
+      if (stock && isIntradayInterval(interval)) {
+        // 분봉: 체결 틱 집계 (틱 양이 많으므로 조회 기간은 간격별 최대치로 제한)
+        const maxRangeMs = INTRADAY_MAX_PERIOD_DAYS[interval] * 24 * 60 * 60 * 1000;
+        const to = dateRange ? new Date(dateRange.end) : new Date();
+        const requestedFrom = dateRange ? new Date(dateRange.start) : new Date(to.getTime() - period * 24 * 60 * 60 * 1000);
+        const from = new Date(Math.max(requestedFrom.getTime(), to.getTime() - maxRangeMs));
+
+        const ticks = await this.stockTickRepo.findByStock(stock.id, from, to);
+        chartData = aggregateTicks(ticks, interval).map((candle) => toChartPoint(candle, interval));
+        if (chartData.length === 0) {
+          logger.warn(`Intraday ticks for ${code} not found in DB.`);
+        }
+      } else if (stock) {
         // 날짜 범위 필터링
         const dateFilter: { date?: { gte: Date; lte?: Date } } = {};
         if (dateRange) {
@@ -246,7 +270,7 @@ export class StockService implements IStockFacade {
         if (stockRecord && stockRecord.prices.length > 0) {
           tracker.step('차트 데이터 필터링 시작');
           // 유효한 OHLC 데이터만 필터링 (0이나 null이 아닌 데이터만)
-          chartData = stockRecord.prices
+          const bars: DailyBar[] = stockRecord.prices
             .filter((price) => {
               return (
                 price.open != null && price.open > 0 &&
@@ -255,19 +279,24 @@ export class StockService implements IStockFacade {
                 price.close != null && price.close > 0
               );
             })
-            .map((price) => ({
-              time: price.date.toLocaleDateString('ko-KR', {
-                month: 'short',
-                day: 'numeric',
-              }),
-              value: price.close, // 하위 호환성
-              volume: Number(price.volume) || 0,
-              // OHLC 데이터 추가 (캔들스틱 차트용)
-              open: Number(price.open),
-              high: Number(price.high),
-              low: Number(price.low),
-              close: Number(price.close),
-            }));
+            .map((price) => {
+              // 수정주가: 액면분할/유상증자 이전 일봉을 현재 주식 수 기준으로 환산 (adjusted=false면 원시 가격)
+              const factor = adjusted ? Number(price.adjFactor ?? 1) : 1;
+              return {
+                date: new Date(price.date),
+                open: Number(price.open) * factor,
+                high: Number(price.high) * factor,
+                low: Number(price.low) * factor,
+                close: Number(price.close) * factor,
+                volume: Math.round((Number(price.volume) || 0) / factor),
+              };
+            });
+
+          // 주봉/월봉은 일봉을 리샘플링 (장기 차트 전송량 감소)
+          const candles: OhlcCandle[] = isDailyResampleInterval(interval)
+            ? resampleDaily(bars, interval)
+            : bars.map((bar) => ({ ...bar, timestamp: bar.date, volume: Number(bar.volume) }));
+          chartData = candles.map((candle) => toChartPoint(candle, interval));
           tracker.step('차트 데이터 필터링 완료');
         } else {
           // TODO: 실제 증권 API 연결 시 활성화
@@ -276,13 +305,13 @@ export class StockService implements IStockFacade {
           logger.warn(`Chart data for ${code} not found in DB. Please run seed script.`);
           chartData = [];
         }
-        tracker.step('차트 데이터 조회 완료');
       } else {
         // TODO: 실제 증권 API 연결 시 활성화
         // chartData = await this.naverApi.getChartData(code, period);
         logger.warn(`Stock ${code} not found. Cannot fetch chart data.`);
         chartData = [];
       }
+      tracker.step('차트 데이터 조회 완료');
     }
 
     // 4. 응답 생성
@@ -339,37 +368,104 @@ export class StockService implements IStockFacade {
     return null;
   }
 
-  getCategories(): string[] {
-    return Object.keys(POPULAR_STOCKS);
-  }
+  /**
+   * 기술적 지표 계산 (일봉 종가 기준)
+   *
+   * 조회 구간 이전 일봉을 지표별 워밍업 길이만큼 함께 읽어 계산한 뒤 조회 구간만 반환하므로,
+   * 구간 첫 값도 더 긴 차트에서 계산한 값과 같다. 상장 직후처럼 이전 데이터가 부족하면 null.
+   */
+  async getIndicators(code: string, query: StockIndicatorQueryDto): Promise<StockIndicatorResponseDto | null> {
+    const tracker = createStepTracker('StockService.getIndicators');
 
-  private localSearch(query: string): StockResponseDto[] {
-    const allStocks = Object.values(POPULAR_STOCKS).flat();
-    const uniqueStocks = allStocks.filter(
-      (stock, index, self) => self.findIndex((s) => s.code === stock.code) === index
+    const cacheKey = `stock:indicators:${code}:${query.period}:${query.indicators.map((spec) => spec.key).join(',')}`;
+    const cached = await cacheService.get<StockIndicatorResponseDto>(cacheKey);
+    if (cached) {
+      logger.debug(`Indicator cache hit: ${cacheKey}`);
+      tracker.finish();
+      return cached;
+    }
+
+    tracker.step('Stock 조회 시작');
+    const stock = await this.stockRepo.findByCode(code);
+    if (!stock) {
+      logger.warn(`Stock ${code} not found in DB. Please run seed script.`);
+      tracker.finish();
+      return null;
+    }
+    tracker.step('Stock 조회 완료');
+
+    tracker.step('일봉 조회 시작');
+    const from = new Date(Date.now() - CHART_PERIOD_DAYS[query.period] * 24 * 60 * 60 * 1000);
+    const warmup = Math.max(...query.indicators.map(warmupBars));
+    const [history, prices] = await Promise.all([
+      this.stockPriceRepo.findLatestBefore(stock.id, from, warmup),
+      this.stockPriceRepo.findByStock(stock.id, from),
+    ]);
+    // 유효한 OHLC 데이터만 사용 (차트 데이터와 동일 기준)
+    const isValid = (price: { open: number; high: number; low: number; close: number }) =>
+      price.open > 0 && price.high > 0 && price.low > 0 && price.close > 0;
+    // 분할 전후 가격이 이어지도록 수정주가로 계산
+    const warmupSeries = history.filter(isValid).map((price) => price.toAdjusted());
+    const series = [...warmupSeries, ...prices.filter(isValid).map((price) => price.toAdjusted())];
+    tracker.step('일봉 조회 완료');
+
+    tracker.step('지표 계산 시작');
+    const closes = series.map((price) => price.close);
+    const computed = new Map<string, IndicatorValue[]>(
+      query.indicators.map((spec) => [spec.key, this.computeIndicator(spec, series, closes, warmupSeries.length)])
     );
 
-    const results = uniqueStocks.filter(
-      (stock) =>
-        stock.name.toLowerCase().includes(query.toLowerCase()) || stock.code.includes(query)
+    const points = series.slice(warmupSeries.length).map((price, i) => {
+      const index = warmupSeries.length + i;
+      return {
+        date: toDateKey(price.date),
+        close: price.close,
+        volume: Number(price.volume),
+        values: Object.fromEntries([...computed].map(([key, values]) => [key, values[index]])),
+      };
+    });
+    tracker.step('지표 계산 완료');
+
+    const result = new StockIndicatorResponseDto(
+      stock.code,
+      stock.name,
+      query.period,
+      query.indicators.map((spec) => spec.key),
+      points
     );
+    await cacheService.set(cacheKey, result, INDICATOR_CACHE_TTL);
+
+    tracker.finish();
+    return result;
+  }
 
-    return results.slice(0, 10).map((stock, index) => {
-      const basePrice = 50000;
-      const changePercent = (Math.random() - 0.5) * 6;
-      const change = Math.round((basePrice * changePercent) / 100);
+  async getCategories(): Promise<string[]> {
+    const themes = await this.stockThemeRepo.findAll();
+    return themes.map((theme) => theme.name);
+  }
 
-      return StockResponseDto.to({
-        id: `local-${index}`,
-        code: stock.code,
-        name: stock.name,
-        market: stock.market,
-        sector: stock.sector,
-        currentPrice: basePrice + change,
-        change,
-        changeRate: Number(changePercent.toFixed(2)),
-        volume: Math.floor(Math.random() * 5000000) + 500000,
-      });
-    });
+  private computeIndicator(
+    spec: IndicatorSpec,
+    series: Array<{ high: number; low: number; close: number; volume: bigint }>,
+    closes: number[],
+    windowStart: number
+  ): IndicatorValue[] {
+    switch (spec.type) {
+      case 'sma':
+        return sma(closes, spec.period);
+      case 'ema':
+        return ema(closes, spec.period);
+      case 'rsi':
+        return rsi(closes, spec.period);
+      case 'macd':
+        return macd(closes, spec.fast, spec.slow, spec.signal);
+      case 'bollinger':
+        return bollinger(closes, spec.period, spec.multiplier);
+      case 'vwap': {
+        // 조회 구간 시작부터 누적
+        const bars = series.slice(windowStart).map((price) => ({ ...price, volume: Number(price.volume) }));
+        return [...new Array<null>(windowStart).fill(null), ...vwap(bars)];
+      }
+    }
   }
 }
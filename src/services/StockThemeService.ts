@@ -0,0 +1,213 @@
+/**
+ * Stock Theme Service
+ * 편집자가 관리하는 종목 테마(카테고리)와 테마별 등락 집계
+ */
+
+import { IStockThemeFacade } from '../facades/IStockThemeFacade';
+import { IStockThemeRepository } from '../repositories/IStockThemeRepository';
+import { IStockRepository } from '../repositories/IStockRepository';
+import { CreateStockThemeDto } from '../dto/theme/CreateStockThemeDto';
+import { UpdateStockThemeDto } from '../dto/theme/UpdateStockThemeDto';
+import { StockThemeStocksDto } from '../dto/theme/StockThemeStocksDto';
+import { StockThemePerformance, StockThemeResponseDto } from '../dto/theme/StockThemeResponseDto';
+import { StockResponseDto } from '../dto/stock/StockResponseDto';
+import { StockTheme } from '../entities/StockTheme';
+import { Stock } from '../entities/Stock';
+import { NotFoundError, ConflictError } from '../errors/AppError';
+import { logger } from '../config/logger';
+import { createStepTracker } from '../utils/aop';
+import { executeTransaction, TRANSACTION_TIMEOUT } from '../utils/transaction';
+import { StockThemeRepositoryAdapter } from '../adapters/StockThemeRepositoryAdapter';
+import { findStocksByIdOrCode } from '../utils/stock-lookup';
+
+// stockId 또는 code 목록 → Stock.id 목록 (입력 순서 유지, 없는 종목은 NotFoundError)
+const resolveStockIds = async (stockRepository: IStockRepository, identifiers: string[]): Promise<string[]> => {
+  const stocks = await findStocksByIdOrCode(stockRepository, identifiers);
+  // ID와 code로 같은 종목을 중복 지정한 경우 첫 번째만 사용
+  return [...new Set(stocks.map((stock) => stock.id))];
+};
+
+const toStockResponse = (stock: Stock): StockResponseDto =>
+  StockResponseDto.to({
+    id: stock.id,
+    code: stock.code,
+    name: stock.name,
+    market: stock.market,
+    sector: stock.sector,
+    currentPrice: stock.currentPrice,
+    change: stock.change,
+    changeRate: stock.changeRate,
+    volume: Number(stock.volume),
+  });
+
+/**
+ * 테마 등락 집계 (현재가 기준 등락률)
+ */
+const summarizePerformance = (stocks: Stock[]): StockThemePerformance => {
+  const advancers = stocks.filter((stock) => stock.changeRate > 0).length;
+  const decliners = stocks.filter((stock) => stock.changeRate < 0).length;
+
+  return {
+    averageChangeRate:
+      stocks.length > 0 ? stocks.reduce((sum, stock) => sum + stock.changeRate, 0) / stocks.length : null,
+    advancers,
+    decliners,
+    unchanged: stocks.length - advancers - decliners,
+    breadth: stocks.length > 0 ? advancers / stocks.length : null,
+  };
+};
+
+export class StockThemeService implements IStockThemeFacade {
+  constructor(
+    private readonly stockThemeRepository: IStockThemeRepository,
+    private readonly stockRepository: IStockRepository
+  ) {}
+
+  async getThemes(includeInactive: boolean = false): Promise<StockThemeResponseDto[]> {
+    const tracker = createStepTracker('StockThemeService.getThemes');
+
+    tracker.step('테마 조회 시작');
+    const themes = await this.stockThemeRepository.findAll(includeInactive);
+    tracker.step('테마 조회 완료');
+
+    tracker.step('구성 종목 조회 시작');
+    const stocks = await this.stockRepository.findMany([...new Set(themes.flatMap((theme) => theme.stockIds))]);
+    const stockMap = new Map(stocks.map((stock) => [stock.id, stock]));
+    tracker.step('구성 종목 조회 완료');
+
+    tracker.finish();
+    return themes.map((theme) =>
+      StockThemeResponseDto.to(theme, summarizePerformance(this.membersOf(theme, stockMap)))
+    );
+  }
+
+  async getTheme(id: string, includeInactive: boolean = false): Promise<StockThemeResponseDto> {
+    const theme = await this.stockThemeRepository.findById(id);
+    if (!theme || (!theme.isActive && !includeInactive)) {
+      throw new NotFoundError('Theme');
+    }
+
+    return this.toDetail(theme);
+  }
+
+  async createTheme(dto: CreateStockThemeDto): Promise<StockThemeResponseDto> {
+    const existing = await this.stockThemeRepository.findByName(dto.name);
+    if (existing) {
+      throw new ConflictError(`Theme already exists: ${dto.name}`);
+    }
+
+    const stockIds = await resolveStockIds(this.stockRepository, dto.stocks);
+    const theme = await this.stockThemeRepository.create(
+      new StockTheme(
+        '',
+        dto.name,
+        dto.description ?? null,
+        dto.sortOrder,
+        dto.isActive,
+        stockIds,
+        new Date(),
+        new Date()
+      )
+    );
+
+    logger.info(`Theme ${theme.id} (${theme.name}) created with ${stockIds.length} stocks`);
+    return this.toDetail(theme);
+  }
+
+  async updateTheme(id: string, dto: UpdateStockThemeDto): Promise<StockThemeResponseDto> {
+    const theme = await this.stockThemeRepository.findById(id);
+    if (!theme) {
+      throw new NotFoundError('Theme');
+    }
+
+    if (dto.name !== undefined && dto.name !== theme.name) {
+      const existing = await this.stockThemeRepository.findByName(dto.name);
+      if (existing) {
+        throw new ConflictError(`Theme already exists: ${dto.name}`);
+      }
+    }
+
+    const updated = await this.stockThemeRepository.update(id, {
+      name: dto.name,
+      description: dto.description,
+      sortOrder: dto.sortOrder,
+      isActive: dto.isActive,
+    });
+
+    logger.info(`Theme ${id} updated`);
+    return this.toDetail(updated);
+  }
+
+  async deleteTheme(id: string): Promise<void> {
+    const theme = await this.stockThemeRepository.findById(id);
+    if (!theme) {
+      throw new NotFoundError('Theme');
+    }
+
+    await this.stockThemeRepository.delete(id);
+    logger.info(`Theme ${id} (${theme.name}) deleted`);
+  }
+
+  /**
+   * 구성 종목 전체 교체 (전달 순서 = 테마 내 순서)
+   */
+  async replaceThemeStocks(id: string, dto: StockThemeStocksDto): Promise<StockThemeResponseDto> {
+    const theme = await this.stockThemeRepository.findById(id);
+    if (!theme) {
+      throw new NotFoundError('Theme');
+    }
+
+    const stockIds = await resolveStockIds(this.stockRepository, dto.stocks);
+    const updated = await executeTransaction(
+      async (tx) => StockThemeRepositoryAdapter.withTransaction(tx).replaceMembers(id, stockIds),
+      TRANSACTION_TIMEOUT.DEFAULT
+    );
+
+    logger.info(`Theme ${id} stocks replaced (${theme.stockIds.length} → ${stockIds.length})`);
+    return this.toDetail(updated);
+  }
+
+  /**
+   * 구성 종목 추가 (이미 있는 종목은 무시, 새 종목은 마지막에 추가)
+   */
+  async addThemeStocks(id: string, dto: StockThemeStocksDto): Promise<StockThemeResponseDto> {
+    const theme = await this.stockThemeRepository.findById(id);
+    if (!theme) {
+      throw new NotFoundError('Theme');
+    }
+
+    const stockIds = await resolveStockIds(this.stockRepository, dto.stocks);
+    const updated = await this.stockThemeRepository.addMembers(id, stockIds);
+
+    logger.info(`Theme ${id} stocks added (${theme.stockIds.length} → ${updated.stockIds.length})`);
+    return this.toDetail(updated);
+  }
+
+  async removeThemeStock(id: string, stockId: string): Promise<void> {
+    const theme = await this.stockThemeRepository.findById(id);
+    if (!theme) {
+      throw new NotFoundError('Theme');
+    }
+
+    const [actualStockId] = await resolveStockIds(this.stockRepository, [stockId]);
+    const removed = await this.stockThemeRepository.removeMember(id, actualStockId);
+    if (!removed) {
+      throw new NotFoundError('Theme stock');
+    }
+
+    logger.info(`Stock ${actualStockId} removed from theme ${id}`);
+  }
+
+  private membersOf(theme: StockTheme, stockMap: Map<string, Stock>): Stock[] {
+    return theme.stockIds
+      .map((stockId) => stockMap.get(stockId))
+      .filter((stock): stock is Stock => stock !== undefined);
+  }
+
+  private async toDetail(theme: StockTheme): Promise<StockThemeResponseDto> {
+    const stocks = await this.stockRepository.findMany(theme.stockIds);
+    const members = this.membersOf(theme, new Map(stocks.map((stock) => [stock.id, stock])));
+
+    return StockThemeResponseDto.to(theme, summarizePerformance(members), members.map(toStockResponse));
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Stock Tick Collection Service
+ * 장중 시세 공급원 현재가 → StockTick 적재 (분봉 차트용)
+ *
+ * 1분마다 전체 종목 현재가를 조회해 종목별 한 건의 틱으로 저장
+ * - 거래량: 직전 수집 시점 대비 누적 거래량 증가분 (당일 첫 수집은 누적 거래량 전체)
+ * - 직전 수집과 가격/누적 거래량이 같으면 체결이 없었던 것으로 보고 저장하지 않음
+ * - 직전 수집 값은 거래일별 캐시에 보관 (작업 실행 간 상태 공유)
+ *
+ * 분봉 최대 조회 기간이 지난 틱은 purge로 정리
+ */
+
+import { IStockRepository } from '../repositories/IStockRepository';
+import { IStockTickRepository } from '../repositories/IStockTickRepository';
+import { StockTick } from '../entities/StockTick';
+import { MarketDataProvider, MarketQuote, getMarketDataProvider } from '../providers/MarketDataProvider';
+import { INTRADAY_MAX_PERIOD_DAYS } from '../constants/chart';
+import { toDateKey } from '../utils/performance-metrics';
+import { logger } from '../config/logger';
+import { createStepTracker } from '../utils/aop';
+import { cacheService } from './CacheService';
+
+// 공급원 요청 한 번에 조회할 종목 수
+const QUOTE_BATCH_SIZE = 50;
+// 가장 긴 분봉 조회 기간 + 여유
+const TICK_RETENTION_DAYS = Math.max(...Object.values(INTRADAY_MAX_PERIOD_DAYS)) + 5;
+const LAST_QUOTES_TTL_SECONDS = 24 * 60 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type LastQuotes = Record<string, { price: number; volume: number }>;
+
+/**
+ * 실행 통계
+ */
+export interface StockTickCollectionStats {
+  provider: string;
+  stocks: number;
+  quotes: number;
+  ticks: number; // 저장한 틱 (체결 없는 종목 제외)
+}
+
+const lastQuotesKey = (now: Date): string => `stock:ticks:last:${toDateKey(now)}`;
+
+export class StockTickCollectionService {
+  constructor(
+    private readonly stockRepository: IStockRepository,
+    private readonly stockTickRepository: IStockTickRepository,
+    private readonly provider: MarketDataProvider = getMarketDataProvider()
+  ) {}
+
+  /**
+   * 전체 종목 현재가 수집
+   */
+  async collect(now: Date = new Date()): Promise<StockTickCollectionStats> {
+    const tracker = createStepTracker('StockTickCollectionService.collect');
+
+    tracker.step('종목 조회 시작');
+    const stocks = await this.stockRepository.findAll();
+    const stockByCode = new Map(stocks.map((stock) => [stock.code, stock]));
+    tracker.step('종목 조회 완료');
+
+    tracker.step('시세 조회 시작');
+    const quotes: MarketQuote[] = [];
+    const codes = [...stockByCode.keys()];
+    for (let i = 0; i < codes.length; i += QUOTE_BATCH_SIZE) {
+      quotes.push(...(await this.provider.getQuotes(codes.slice(i, i + QUOTE_BATCH_SIZE))));
+    }
+    tracker.step('시세 조회 완료');
+
+    tracker.step('틱 저장 시작');
+    const key = lastQuotesKey(now);
+    const lastQuotes = (await cacheService.get<LastQuotes>(key)) ?? {};
+    const ticks: StockTick[] = [];
+
+    for (const quote of quotes) {
+      const stock = stockByCode.get(quote.symbol);
+      if (!stock || quote.price <= 0) continue;
+
+      const last = lastQuotes[quote.symbol];
+      lastQuotes[quote.symbol] = { price: quote.price, volume: quote.volume };
+      if (last && last.price === quote.price && last.volume === quote.volume) continue;
+
+      const volume = last ? Math.max(0, quote.volume - last.volume) : quote.volume;
+      ticks.push(new StockTick('', stock.id, quote.timestamp, quote.price, BigInt(Math.round(volume))));
+    }
+
+    const saved = await this.stockTickRepository.createMany(ticks);
+    await cacheService.set(key, lastQuotes, LAST_QUOTES_TTL_SECONDS);
+    tracker.step('틱 저장 완료');
+
+    logger.debug(`Stock ticks collected from ${this.provider.name}: ${saved} ticks (${quotes.length} quotes)`);
+    tracker.finish();
+    return { provider: this.provider.name, stocks: stocks.length, quotes: quotes.length, ticks: saved };
+  }
+
+  /**
+   * 보관 기간이 지난 틱 삭제
+   *
+   * @returns 삭제 건수
+   */
+  async purge(now: Date = new Date()): Promise<number> {
+    const deleted = await this.stockTickRepository.deleteBefore(new Date(now.getTime() - TICK_RETENTION_DAYS * DAY_MS));
+    logger.info(`Stock ticks older than ${TICK_RETENTION_DAYS} days deleted: ${deleted}`);
+    return deleted;
+  }
+}
@@ -1,10 +1,37 @@
 import { prisma } from '../config/prisma';
 import { logger } from '../config/logger';
 import { cacheService } from './CacheService';
+import { HistoryService } from './HistoryService';
+import { IHistoryFacade } from '../facades/IHistoryFacade';
+import { HistoryRepositoryAdapter } from '../adapters/HistoryRepositoryAdapter';
+import { StockRepositoryAdapter } from '../adapters/StockRepositoryAdapter';
+import { HistoryInsightsQueryDto } from '../dto/history/HistoryInsightsQueryDto';
 
 export type NewsActivityType = 'read' | 'like' | 'favorite';
 
+/**
+ * 챗봇/추천 컨텍스트용 사용자 활동 요약
+ */
+export interface UserContext {
+  readNews: string[];
+  likedNews: string[];
+  favoriteNews: string[];
+  recentStocks: string[]; // 최근 조회 종목 코드 (최근 순)
+  topStocks: Array<{ code: string; name: string; views: number }>; // 최근 4주 많이 본 종목
+  sectorInterests: Array<{ sector: string; views: number; drift: number }>; // 최근 4주 관심 섹터 (drift: 비중 변화 %p)
+  resumeStocks: Array<{ code: string; name: string; priceChangeRate: number }>; // 마지막 조회 이후 등락률
+  learnings: Array<{ concept: string; question: string }>;
+  notes: Array<{ title: string; tags: string[] }>;
+}
+
 export class UserActivityService {
+  constructor(
+    private readonly historyFacade: IHistoryFacade = new HistoryService(
+      new HistoryRepositoryAdapter(),
+      new StockRepositoryAdapter()
+    )
+  ) {}
+
   /**
    * 뉴스 읽기 기록
    */
@@ -196,44 +223,24 @@ export class UserActivityService {
    * 사용자 활동 정보 조회 (챗봇 컨텍스트용)
    * Redis 캐싱: 5분간 캐시 (사용자 활동이 자주 변경되지 않음)
    */
-  async getUserContext(userId: string): Promise<{
-    readNews: string[];
-    likedNews: string[];
-    favoriteNews: string[];
-    recentStocks: string[];
-    learnings: Array<{ concept: string; question: string }>;
-    notes: Array<{ title: string; tags: string[] }>;
-  }> {
+  async getUserContext(userId: string): Promise<UserContext> {
     try {
       // Redis 캐싱: 사용자 컨텍스트는 5분간 캐시
       const cacheKey = `user-context:${userId}`;
-      const cached = await cacheService.get<{
-        readNews: string[];
-        likedNews: string[];
-        favoriteNews: string[];
-        recentStocks: string[];
-        learnings: Array<{ concept: string; question: string }>;
-        notes: Array<{ title: string; tags: string[] }>;
-      }>(cacheKey);
+      const cached = await cacheService.get<UserContext>(cacheKey);
       
       if (cached) {
         logger.debug(`Cache hit for user-context:${userId}`);
         return cached;
       }
 
-      const [readNews, likedNews, favoriteNews, recentStocks, learnings, notes] = await Promise.all([
+      const [readNews, likedNews, favoriteNews, insights, continueViewing, learnings, notes] = await Promise.all([
         this.getReadNews(userId, 10),
         this.getLikedNews(userId, 10),
         this.getFavoriteNews(userId, 10),
-        // ✅ 최적화: History → Stock 조회를 JOIN으로 변경 (2 queries → 1 query)
-        prisma.$queryRaw<Array<{ code: string }>>`
-          SELECT DISTINCT s.code
-          FROM histories h
-          INNER JOIN stocks s ON h.stock_id = s.id
-          WHERE h.user_id = ${userId}::uuid
-          ORDER BY h.viewed_at DESC
-          LIMIT 10
-        `.then((stocks) => stocks.map((s) => s.code)),
+        // 조회 기록 분석 (최근 4주)
+        this.historyFacade.getInsights(userId, new HistoryInsightsQueryDto(4)),
+        this.historyFacade.getContinueViewing(userId, 10),
         // 최근 학습 내용
         prisma.learning
           .findMany({
@@ -270,11 +277,20 @@ export class UserActivityService {
           ),
       ]);
 
-      const result = {
+      const result: UserContext = {
         readNews,
         likedNews,
         favoriteNews,
-        recentStocks,
+        recentStocks: continueViewing.map((item) => item.code),
+        topStocks: insights.mostViewed.slice(0, 5).map(({ code, name, views }) => ({ code, name, views })),
+        sectorInterests: [...insights.sectorDrift]
+          .sort((a, b) => b.totalViews - a.totalViews)
+          .slice(0, 3)
+          .map(({ sector, totalViews, drift }) => ({ sector, views: totalViews, drift })),
+        resumeStocks: continueViewing
+          .filter((item) => item.priceChangeRate !== null)
+          .slice(0, 5)
+          .map(({ code, name, priceChangeRate }) => ({ code, name, priceChangeRate: priceChangeRate! })),
         learnings,
         notes,
       };
@@ -290,6 +306,9 @@ export class UserActivityService {
         likedNews: [],
         favoriteNews: [],
         recentStocks: [],
+        topStocks: [],
+        sectorInterests: [],
+        resumeStocks: [],
         learnings: [],
         notes: [],
       };
@@ -0,0 +1,289 @@
+/**
+ * Watchlist Group Service
+ * 관심 종목(Favorite)을 이름 있는 그룹으로 묶고 순서/메모/목표가를 관리
+ *
+ * - 종목은 한 그룹에만 속하며, 그룹이 없는 관심 종목은 미분류('ungrouped')
+ * - 표시 순서는 그룹/종목별 position (오름차순), 추가/이동 시 대상 그룹 끝에 배치
+ */
+
+import { IWatchlistGroupFacade } from '../facades/IWatchlistGroupFacade';
+import { IWatchlistGroupRepository } from '../repositories/IWatchlistGroupRepository';
+import { IFavoriteRepository } from '../repositories/IFavoriteRepository';
+import { IStockRepository } from '../repositories/IStockRepository';
+import { WatchlistGroupRepositoryAdapter } from '../adapters/WatchlistGroupRepositoryAdapter';
+import { FavoriteRepositoryAdapter } from '../adapters/FavoriteRepositoryAdapter';
+import { CreateWatchlistGroupDto } from '../dto/favorite/CreateWatchlistGroupDto';
+import { UpdateWatchlistGroupDto } from '../dto/favorite/UpdateWatchlistGroupDto';
+import { ReorderWatchlistGroupsDto } from '../dto/favorite/ReorderWatchlistGroupsDto';
+import { WatchlistItemsDto } from '../dto/favorite/WatchlistItemsDto';
+import { MoveWatchlistItemsDto } from '../dto/favorite/MoveWatchlistItemsDto';
+import { WatchlistGroupResponseDto } from '../dto/favorite/WatchlistGroupResponseDto';
+import { WatchlistSnapshotResponseDto } from '../dto/favorite/WatchlistSnapshotResponseDto';
+import { FavoriteResponseDto } from '../dto/favorite/FavoriteResponseDto';
+import { WatchlistGroup } from '../entities/WatchlistGroup';
+import { Favorite } from '../entities/Favorite';
+import { Stock } from '../entities/Stock';
+import { NotFoundError, BadRequestError, ConflictError } from '../errors/AppError';
+import { logger } from '../config/logger';
+import { createStepTracker } from '../utils/aop';
+import { executeTransaction, TRANSACTION_TIMEOUT } from '../utils/transaction';
+import { findStocksByIdOrCode, isUUID } from '../utils/stock-lookup';
+
+export const UNGROUPED = 'ungrouped';
+
+const MAX_GROUPS_PER_USER = 50;
+
+// 요청한 종목 일괄 조회 (요청 순서 유지, 같은 종목 중복 지정은 BadRequest)
+const findRequestedStocks = async (stockRepository: IStockRepository, identifiers: string[]): Promise<Stock[]> => {
+  const stocks = await findStocksByIdOrCode(stockRepository, identifiers);
+  if (new Set(stocks.map((stock) => stock.id)).size !== stocks.length) {
+    throw new BadRequestError('Duplicate stocks in request');
+  }
+  return stocks;
+};
+
+export class WatchlistGroupService implements IWatchlistGroupFacade {
+  constructor(
+    private readonly groupRepository: IWatchlistGroupRepository,
+    private readonly favoriteRepository: IFavoriteRepository,
+    private readonly stockRepository: IStockRepository
+  ) {}
+
+  async getGroups(userId: string): Promise<WatchlistGroupResponseDto[]> {
+    const [groups, counts] = await Promise.all([
+      this.groupRepository.findAll(userId),
+      this.favoriteRepository.countByGroups(userId),
+    ]);
+
+    return [
+      WatchlistGroupResponseDto.ungrouped(counts.get(null) ?? 0),
+      ...groups.map((group) => WatchlistGroupResponseDto.to(group, counts.get(group.id) ?? 0)),
+    ];
+  }
+
+  async getGroup(groupId: string, userId: string): Promise<WatchlistGroupResponseDto> {
+    const tracker = createStepTracker('WatchlistGroupService.getGroup');
+
+    const group = await this.resolveGroup(groupId, userId);
+    const favorites = await this.favoriteRepository.findByGroup(userId, group?.id ?? null);
+    tracker.step('그룹 종목 조회 완료');
+
+    const stocks = await this.stockRepository.findMany(favorites.map((favorite) => favorite.stockId));
+    const stockMap = new Map(stocks.map((stock) => [stock.id, stock]));
+    const items = favorites
+      .filter((favorite) => stockMap.has(favorite.stockId))
+      .map((favorite) => FavoriteResponseDto.to(favorite, stockMap.get(favorite.stockId)!));
+    tracker.finish();
+
+    return group
+      ? WatchlistGroupResponseDto.to(group, items.length, items)
+      : WatchlistGroupResponseDto.ungrouped(items.length, items);
+  }
+
+  async createGroup(userId: string, dto: CreateWatchlistGroupDto): Promise<WatchlistGroupResponseDto> {
+    const count = await this.groupRepository.countByUser(userId);
+    if (count >= MAX_GROUPS_PER_USER) {
+      throw new BadRequestError(`Up to ${MAX_GROUPS_PER_USER} watchlist groups are allowed per user`);
+    }
+    if (await this.groupRepository.findByName(userId, dto.name)) {
+      throw new ConflictError('Watchlist group name already exists');
+    }
+
+    const position = (await this.groupRepository.maxPosition(userId)) + 1;
+    const group = await this.groupRepository.create(
+      new WatchlistGroup('', userId, dto.name, position, new Date(), new Date())
+    );
+
+    logger.info(`Watchlist group created: ${group.id} for user ${userId}`);
+    return WatchlistGroupResponseDto.to(group, 0);
+  }
+
+  async updateGroup(groupId: string, userId: string, dto: UpdateWatchlistGroupDto): Promise<WatchlistGroupResponseDto> {
+    const group = await this.findGroup(groupId, userId);
+
+    const duplicate = await this.groupRepository.findByName(userId, dto.name);
+    if (duplicate && duplicate.id !== group.id) {
+      throw new ConflictError('Watchlist group name already exists');
+    }
+
+    const updated = await this.groupRepository.update(group.id, { name: dto.name });
+    const counts = await this.favoriteRepository.countByGroups(userId);
+    return WatchlistGroupResponseDto.to(updated, counts.get(group.id) ?? 0);
+  }
+
+  async deleteGroup(groupId: string, userId: string): Promise<void> {
+    const group = await this.findGroup(groupId, userId);
+
+    // 종목을 미분류 끝으로 옮긴 뒤 그룹 삭제
+    await executeTransaction(async (tx) => {
+      const favoriteRepository = FavoriteRepositoryAdapter.withTransaction(tx);
+      const favorites = await favoriteRepository.findByGroup(userId, group.id);
+      await this.appendToGroup(favoriteRepository, userId, null, favorites);
+      await WatchlistGroupRepositoryAdapter.withTransaction(tx).delete(group.id);
+    }, TRANSACTION_TIMEOUT.COMPLEX);
+
+    logger.info(`Watchlist group deleted: ${group.id}`);
+  }
+
+  async reorderGroups(userId: string, dto: ReorderWatchlistGroupsDto): Promise<WatchlistGroupResponseDto[]> {
+    const groups = await this.groupRepository.findAll(userId);
+    const groupIds = new Set(groups.map((group) => group.id));
+    if (
+      dto.groupIds.length !== groups.length ||
+      new Set(dto.groupIds).size !== dto.groupIds.length ||
+      dto.groupIds.some((id) => !groupIds.has(id))
+    ) {
+      throw new BadRequestError('groupIds must list every watchlist group exactly once');
+    }
+
+    await executeTransaction(async (tx) => {
+      const groupRepository = WatchlistGroupRepositoryAdapter.withTransaction(tx);
+      for (const [position, id] of dto.groupIds.entries()) {
+        await groupRepository.update(id, { position });
+      }
+    }, TRANSACTION_TIMEOUT.COMPLEX);
+
+    return await this.getGroups(userId);
+  }
+
+  async getSnapshot(groupId: string, userId: string): Promise<WatchlistSnapshotResponseDto> {
+    const group = await this.resolveGroup(groupId, userId);
+    const favorites = await this.favoriteRepository.findByGroup(userId, group?.id ?? null);
+    const stocks = await this.stockRepository.findMany(favorites.map((favorite) => favorite.stockId));
+
+    return WatchlistSnapshotResponseDto.to(group?.id ?? null, group?.name ?? UNGROUPED, stocks);
+  }
+
+  async addItems(
+    groupId: string,
+    userId: string,
+    dto: WatchlistItemsDto
+  ): Promise<{
+    added: FavoriteResponseDto[];
+    skipped: Array<{ stockId: string; code: string; groupId: string | null }>;
+  }> {
+    const group = await this.resolveGroup(groupId, userId);
+    const targetGroupId = group?.id ?? null;
+    const stocks = await findRequestedStocks(this.stockRepository, dto.stockIds);
+
+    return await executeTransaction(async (tx) => {
+      const favoriteRepository = FavoriteRepositoryAdapter.withTransaction(tx);
+      const existing = new Map(
+        (await favoriteRepository.findByStocks(userId, stocks.map((stock) => stock.id))).map((favorite) => [
+          favorite.stockId,
+          favorite,
+        ])
+      );
+
+      const added: FavoriteResponseDto[] = [];
+      const skipped: Array<{ stockId: string; code: string; groupId: string | null }> = [];
+      let position = (await favoriteRepository.maxPosition(userId, targetGroupId)) + 1;
+      for (const stock of stocks) {
+        const favorite = existing.get(stock.id);
+        if (!favorite) {
+          const created = await favoriteRepository.create(
+            new Favorite('', userId, stock.id, new Date(), targetGroupId, position++)
+          );
+          added.push(FavoriteResponseDto.to(created, stock));
+        } else if (favorite.groupId === null && targetGroupId !== null) {
+          // 미분류 관심 종목은 그룹으로 편입
+          const updated = await favoriteRepository.update(favorite.id, { groupId: targetGroupId, position: position++ });
+          added.push(FavoriteResponseDto.to(updated, stock));
+        } else {
+          skipped.push({ stockId: stock.id, code: stock.code, groupId: favorite.groupId });
+        }
+      }
+
+      return { added, skipped };
+    }, TRANSACTION_TIMEOUT.COMPLEX);
+  }
+
+  async removeItems(groupId: string, userId: string, dto: WatchlistItemsDto): Promise<{ removed: number }> {
+    const group = await this.resolveGroup(groupId, userId);
+    const favorites = await this.findGroupItems(userId, group?.id ?? null, dto.stockIds);
+
+    const removed = await this.favoriteRepository.deleteMany(favorites.map((favorite) => favorite.id));
+    logger.info(`Watchlist items removed: ${removed} from ${group?.id ?? UNGROUPED}`);
+    return { removed };
+  }
+
+  async moveItems(groupId: string, userId: string, dto: MoveWatchlistItemsDto): Promise<{ moved: number }> {
+    const group = await this.resolveGroup(groupId, userId);
+    const targetGroupId = dto.targetGroupId !== null ? (await this.findGroup(dto.targetGroupId, userId)).id : null;
+    if (targetGroupId === (group?.id ?? null)) {
+      throw new BadRequestError('Target group must differ from the source group');
+    }
+    const favorites = await this.findGroupItems(userId, group?.id ?? null, dto.stockIds);
+
+    await executeTransaction(async (tx) => {
+      await this.appendToGroup(FavoriteRepositoryAdapter.withTransaction(tx), userId, targetGroupId, favorites);
+    }, TRANSACTION_TIMEOUT.COMPLEX);
+
+    return { moved: favorites.length };
+  }
+
+  async reorderItems(groupId: string, userId: string, dto: WatchlistItemsDto): Promise<WatchlistGroupResponseDto> {
+    const group = await this.resolveGroup(groupId, userId);
+    const current = await this.favoriteRepository.findByGroup(userId, group?.id ?? null);
+    const stocks = await findRequestedStocks(this.stockRepository, dto.stockIds);
+
+    const favoriteMap = new Map(current.map((favorite) => [favorite.stockId, favorite]));
+    if (stocks.length !== current.length || stocks.some((stock) => !favoriteMap.has(stock.id))) {
+      throw new BadRequestError('stockIds must list every stock in the group exactly once');
+    }
+
+    await executeTransaction(async (tx) => {
+      const favoriteRepository = FavoriteRepositoryAdapter.withTransaction(tx);
+      for (const [position, stock] of stocks.entries()) {
+        await favoriteRepository.update(favoriteMap.get(stock.id)!.id, { position });
+      }
+    }, TRANSACTION_TIMEOUT.COMPLEX);
+
+    return await this.getGroup(groupId, userId);
+  }
+
+  /**
+   * 'ungrouped'는 null (미분류), 그 외는 사용자 그룹
+   */
+  private async resolveGroup(groupId: string, userId: string): Promise<WatchlistGroup | null> {
+    return groupId === UNGROUPED ? null : await this.findGroup(groupId, userId);
+  }
+
+  private async findGroup(groupId: string, userId: string): Promise<WatchlistGroup> {
+    const group = isUUID(groupId) ? await this.groupRepository.findById(groupId, userId) : null;
+    if (!group) {
+      throw new NotFoundError('Watchlist group');
+    }
+    return group;
+  }
+
+  /**
+   * 요청 종목이 모두 해당 그룹에 있는지 확인
+   */
+  private async findGroupItems(userId: string, groupId: string | null, identifiers: string[]): Promise<Favorite[]> {
+    const stocks = await findRequestedStocks(this.stockRepository, identifiers);
+    const favorites = await this.favoriteRepository.findByStocks(userId, stocks.map((stock) => stock.id));
+    const inGroup = new Set(favorites.filter((favorite) => favorite.groupId === groupId).map((f) => f.stockId));
+
+    const outside = stocks.filter((stock) => !inGroup.has(stock.id));
+    if (outside.length > 0) {
+      throw new BadRequestError(`Stocks are not in the group: ${outside.map((stock) => stock.code).join(', ')}`);
+    }
+    return favorites;
+  }
+
+  /**
+   * 대상 그룹 끝에 순서대로 배치
+   */
+  private async appendToGroup(
+    favoriteRepository: IFavoriteRepository,
+    userId: string,
+    groupId: string | null,
+    favorites: Favorite[]
+  ): Promise<void> {
+    let position = (await favoriteRepository.maxPosition(userId, groupId)) + 1;
+    for (const favorite of [...favorites].sort((a, b) => a.position - b.position)) {
+      await favoriteRepository.update(favorite.id, { groupId, position: position++ });
+    }
+  }
+}
@@ -2,6 +2,7 @@
  * WebSocket Service
  * 실시간 양방향 통신을 위한 WebSocket 서비스
  * 연결 관리, 메시지 라우팅, 하트비트 처리
+ * 서버 이벤트(알림 등)는 Redis 채널로 받아 해당 사용자 연결에 전달 (다중 서버 환경 대비)
  */
 
 import { IChatFacade } from '../facades/IChatFacade';
@@ -10,6 +11,17 @@ import { logger } from '../config/logger';
 import { redis } from '../config/redis';
 import { DatabaseError } from '../errors/AppError';
 
+// 사용자 대상 서버 푸시 채널
+export const USER_MESSAGE_CHANNEL = 'ws:user-message';
+
+/**
+ * 사용자 연결로 메시지 발행
+ * 연결을 가진 서버 인스턴스가 구독 중인 채널로 전달되므로 워커 등 어디서나 호출 가능
+ */
+export const publishToUser = async (userId: string, message: Record<string, unknown>): Promise<void> => {
+  await redis.publish(USER_MESSAGE_CHANNEL, JSON.stringify({ userId, message }));
+};
+
 // WebSocket 타입 (Node.js WebSocket)
 type WebSocketSocket = {
   send: (data: string) => void;
@@ -31,12 +43,40 @@ interface Connection {
 export class WebSocketService {
   private connections: Map<string, Connection> = new Map();
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private readonly subscriber = redis.duplicate();
 
   constructor(private readonly chatFacade: IChatFacade) {
     // 하트비트 체크 (30초마다)
     this.heartbeatInterval = setInterval(() => {
       this.checkConnections();
     }, 30000);
+
+    this.subscribeUserMessages();
+  }
+
+  /**
+   * 사용자 대상 메시지 채널 구독 (재연결 시에도 ready마다 재구독)
+   */
+  private subscribeUserMessages() {
+    this.subscriber.on('ready', () => {
+      this.subscriber.subscribe(USER_MESSAGE_CHANNEL).catch((error) => {
+        logger.error('Failed to subscribe user message channel:', error);
+      });
+    });
+
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      if (channel !== USER_MESSAGE_CHANNEL) return;
+      try {
+        const { userId, message } = JSON.parse(raw);
+        void this.sendToUser(userId, message);
+      } catch (error) {
+        logger.warn('Invalid user message payload:', error);
+      }
+    });
+
+    this.subscriber.on('error', (error) => {
+      logger.error('WebSocket subscriber error:', error);
+    });
   }
 
   /**
@@ -305,6 +345,7 @@ export class WebSocketService {
     }
 
     this.connections.clear();
+    await this.subscriber.quit();
     logger.info('WebSocket service cleaned up');
   }
 }
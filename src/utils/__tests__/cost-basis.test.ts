@@ -0,0 +1,157 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateCostBasis } from '../cost-basis';
+import { PortfolioTransaction, PortfolioTransactionType } from '../../entities/PortfolioTransaction';
+
+const tx = (
+  id: string,
+  type: PortfolioTransactionType,
+  quantity: number,
+  price: number,
+  executedAt: string,
+  fee = 0
+): PortfolioTransaction =>
+  new PortfolioTransaction(
+    id,
+    'user-1',
+    'account-1',
+    'stock-1',
+    type,
+    quantity,
+    price,
+    fee,
+    new Date(executedAt),
+    null,
+    new Date(executedAt)
+  );
+
+// 100원에 10주, 200원에 10주 매수 후 300원에 15주 매도
+const ledger = [
+  tx('b1', 'buy', 10, 100, '2024-01-01T00:00:00Z'),
+  tx('b2', 'buy', 10, 200, '2024-02-01T00:00:00Z'),
+  tx('s1', 'sell', 15, 300, '2024-03-01T00:00:00Z'),
+];
+
+describe('calculateCostBasis', () => {
+  it('fifo: 먼저 매수한 로트부터 소진', () => {
+    const { sales, openLots } = calculateCostBasis(ledger, 'fifo');
+
+    assert.equal(sales.length, 1);
+    assert.equal(sales[0].proceeds, 4500);
+    assert.equal(sales[0].costBasis, 10 * 100 + 5 * 200);
+    assert.equal(sales[0].realizedProfit, 2500);
+    assert.deepEqual(
+      openLots.map((lot) => [lot.quantity, lot.unitCost]),
+      [[5, 200]]
+    );
+  });
+
+  it('lifo: 나중에 매수한 로트부터 소진', () => {
+    const { sales, openLots } = calculateCostBasis(ledger, 'lifo');
+
+    assert.equal(sales[0].costBasis, 10 * 200 + 5 * 100);
+    assert.equal(sales[0].realizedProfit, 2000);
+    assert.deepEqual(
+      openLots.map((lot) => [lot.quantity, lot.unitCost]),
+      [[5, 100]]
+    );
+  });
+
+  it('average: 이동평균 단가로 원가 차감', () => {
+    const { sales, openLots } = calculateCostBasis(ledger, 'average');
+
+    assert.equal(sales[0].costBasis, 15 * 150);
+    assert.equal(sales[0].realizedProfit, 2250);
+    assert.deepEqual(
+      openLots.map((lot) => [lot.quantity, lot.unitCost]),
+      [[5, 150]]
+    );
+  });
+
+  it('기본 방식은 이동평균법', () => {
+    assert.deepEqual(calculateCostBasis(ledger).sales, calculateCostBasis(ledger, 'average').sales);
+  });
+
+  it('보유 기간은 소진 로트의 수량 가중 평균', () => {
+    const { sales } = calculateCostBasis(ledger, 'fifo');
+
+    // 10주 60일 + 5주 29일
+    assert.equal(sales[0].holdingDays, Math.round((10 * 60 + 5 * 29) / 15));
+  });
+
+  it('매수 수수료는 원가에, 매도 수수료는 매도금액에서 차감', () => {
+    const { sales, fees } = calculateCostBasis(
+      [
+        tx('b1', 'buy', 10, 100, '2024-01-01T00:00:00Z', 10),
+        tx('s1', 'sell', 10, 120, '2024-01-02T00:00:00Z', 5),
+      ],
+      'fifo'
+    );
+
+    assert.equal(sales[0].costBasis, 1010);
+    assert.equal(sales[0].proceeds, 1195);
+    assert.equal(sales[0].realizedProfit, 185);
+    assert.equal(fees, 15);
+  });
+
+  it('분할은 로트 수량을 늘리고 단가를 낮춤 (총 원가 유지)', () => {
+    const { sales, openLots } = calculateCostBasis(
+      [
+        tx('b1', 'buy', 10, 100, '2024-01-01T00:00:00Z'),
+        tx('sp', 'split', 2, 0, '2024-01-10T00:00:00Z'),
+        tx('s1', 'sell', 15, 60, '2024-01-20T00:00:00Z'),
+      ],
+      'fifo'
+    );
+
+    assert.equal(sales[0].costBasis, 15 * 50);
+    assert.equal(sales[0].realizedProfit, 15 * 10);
+    assert.deepEqual(
+      openLots.map((lot) => [lot.quantity, lot.unitCost]),
+      [[5, 50]]
+    );
+  });
+
+  it('기타 수수료는 보유 로트 원가에 수량 비례 배분', () => {
+    const { openLots, fees } = calculateCostBasis(
+      [
+        tx('b1', 'buy', 10, 100, '2024-01-01T00:00:00Z'),
+        tx('b2', 'buy', 30, 100, '2024-01-02T00:00:00Z'),
+        tx('f1', 'fee', 0, 0, '2024-01-03T00:00:00Z', 40),
+      ],
+      'fifo'
+    );
+
+    assert.deepEqual(
+      openLots.map((lot) => [lot.quantity, lot.unitCost]),
+      [
+        [10, 101],
+        [30, 101],
+      ]
+    );
+    assert.equal(fees, 40);
+  });
+
+  it('배당은 세후 금액만 집계하고 로트에 영향 없음', () => {
+    const { dividendIncome, openLots, sales } = calculateCostBasis(
+      [
+        tx('b1', 'buy', 10, 100, '2024-01-01T00:00:00Z'),
+        tx('d1', 'dividend', 10, 5, '2024-04-01T00:00:00Z', 7),
+      ],
+      'fifo'
+    );
+
+    assert.equal(dividendIncome, 43);
+    assert.equal(sales.length, 0);
+    assert.deepEqual(
+      openLots.map((lot) => [lot.quantity, lot.unitCost]),
+      [[10, 100]]
+    );
+  });
+
+  it('입력 순서와 무관하게 체결 시각 순으로 재생', () => {
+    const shuffled = [ledger[2], ledger[0], ledger[1]];
+
+    assert.deepEqual(calculateCostBasis(shuffled, 'fifo'), calculateCostBasis(ledger, 'fifo'));
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  annualizeReturn,
+  dailyReturn,
+  maxDrawdown,
+  toDateKey,
+  toPeriodKey,
+  xirr,
+} from '../performance-metrics';
+
+const EPSILON = 1e-6;
+
+const assertClose = (actual: number | null, expected: number, epsilon = EPSILON): void => {
+  assert.ok(actual !== null && Math.abs(actual - expected) < epsilon, `expected ${expected}, got ${actual}`);
+};
+
+/**
+ * 일별 평가금액/순유입 자본으로 TWR 연결 (PortfolioService.getPerformance와 같은 방식)
+ */
+const linkDailyReturns = (days: Array<{ value: number; flow: number }>): number => {
+  let previousValue = 0;
+  let growthIndex = 1;
+  for (const { value, flow } of days) {
+    growthIndex *= 1 + dailyReturn(previousValue, value, flow);
+    previousValue = value;
+  }
+  return growthIndex - 1;
+};
+
+describe('dailyReturn / TWR', () => {
+  it('당일 순유입 자본은 수익률에서 제외', () => {
+    // 전일 1,000 → 당일 500 추가 입금 후 1,650 (입금 제외 시 1,150)
+    assertClose(dailyReturn(1000, 1650, 500), 0.15);
+  });
+
+  it('전일 평가금액이 없으면 당일 투입 자본 대비', () => {
+    assertClose(dailyReturn(0, 1020, 1000), 0.02);
+    assert.equal(dailyReturn(0, 0, 0), 0);
+  });
+
+  it('입금 규모와 무관하게 같은 가격 경로면 같은 TWR', () => {
+    // 가격 경로 1.00 → 1.10 → 1.21, 두 번째 날 추가 입금 규모만 다름
+    const small = linkDailyReturns([
+      { value: 1000, flow: 1000 },
+      { value: 1100 + 100, flow: 100 },
+      { value: 1200 * 1.1, flow: 0 },
+    ]);
+    const large = linkDailyReturns([
+      { value: 1000, flow: 1000 },
+      { value: 1100 + 10000, flow: 10000 },
+      { value: 11100 * 1.1, flow: 0 },
+    ]);
+
+    assertClose(small, 0.21);
+    assertClose(large, 0.21);
+  });
+
+  it('출금은 음수 유입으로 처리', () => {
+    // 전일 2,000 → 당일 10% 상승 후 1,000 출금
+    assertClose(dailyReturn(2000, 1200, -1000), 0.1);
+  });
+});
+
+describe('xirr', () => {
+  it('1년 뒤 10% 회수', () => {
+    const rate = xirr([
+      { date: new Date('2023-01-01T00:00:00Z'), amount: -1000 },
+      { date: new Date('2024-01-01T00:00:00Z'), amount: 1100 },
+    ]);
+
+    assertClose(rate, 0.1);
+  });
+
+  it('중간 추가 납입 반영', () => {
+    const flows = [
+      { date: new Date('2023-01-01T00:00:00Z'), amount: -1000 },
+      { date: new Date('2023-07-02T00:00:00Z'), amount: -1000 },
+      { date: new Date('2024-01-01T00:00:00Z'), amount: 2200 },
+    ];
+    const rate = xirr(flows)!;
+
+    // 해에서 NPV가 0
+    const t0 = flows[0].date.getTime();
+    const npv = flows.reduce(
+      (sum, f) => sum + f.amount / Math.pow(1 + rate, (f.date.getTime() - t0) / (365 * 24 * 60 * 60 * 1000)),
+      0
+    );
+    assertClose(npv, 0, 1e-4);
+    assert.ok(rate > 0.1 && rate < 0.2);
+  });
+
+  it('손실도 음수 수익률로 계산', () => {
+    const rate = xirr([
+      { date: new Date('2023-01-01T00:00:00Z'), amount: -1000 },
+      { date: new Date('2024-01-01T00:00:00Z'), amount: 800 },
+    ]);
+
+    assertClose(rate, -0.2);
+  });
+
+  it('납입 또는 회수만 있으면 null', () => {
+    assert.equal(xirr([{ date: new Date('2023-01-01T00:00:00Z'), amount: -1000 }]), null);
+    assert.equal(
+      xirr([
+        { date: new Date('2023-01-01T00:00:00Z'), amount: 1000 },
+        { date: new Date('2024-01-01T00:00:00Z'), amount: 0 },
+      ]),
+      null
+    );
+  });
+});
+
+describe('maxDrawdown', () => {
+  it('고점 대비 최대 하락률과 고점/저점 날짜', () => {
+    const result = maxDrawdown([
+      { date: '2024-01-01', value: 1 },
+      { date: '2024-01-02', value: 1.2 },
+      { date: '2024-01-03', value: 0.9 }, // -25%
+      { date: '2024-01-04', value: 1.3 },
+      { date: '2024-01-05', value: 0.91 }, // -30%
+      { date: '2024-01-06', value: 1.0 },
+    ]);
+
+    assertClose(result.maxDrawdown, -0.3);
+    assert.equal(result.peakDate, '2024-01-04');
+    assert.equal(result.troughDate, '2024-01-05');
+  });
+
+  it('하락이 없으면 0', () => {
+    const result = maxDrawdown([
+      { date: '2024-01-01', value: 1 },
+      { date: '2024-01-02', value: 1.1 },
+    ]);
+
+    assert.deepEqual(result, { maxDrawdown: 0, peakDate: null, troughDate: null });
+  });
+});
+
+describe('annualizeReturn', () => {
+  it('2년 21%는 연 10%', () => {
+    assertClose(annualizeReturn(0.21, 730), 0.1);
+  });
+
+  it('기간이 없거나 전액 손실이면 그대로 반환', () => {
+    assert.equal(annualizeReturn(0.05, 0), 0.05);
+    assert.equal(annualizeReturn(-1, 365), -1);
+  });
+});
+
+describe('toDateKey / toPeriodKey', () => {
+  it('한국 시간 기준 날짜', () => {
+    assert.equal(toDateKey(new Date('2024-01-01T14:59:59Z')), '2024-01-01');
+    assert.equal(toDateKey(new Date('2024-01-01T15:00:00Z')), '2024-01-02');
+  });
+
+  it('주간은 월요일, 월간은 YYYY-MM', () => {
+    assert.equal(toPeriodKey('2024-01-03', '1w'), '2024-01-01');
+    assert.equal(toPeriodKey('2024-01-07', '1w'), '2024-01-01');
+    assert.equal(toPeriodKey('2024-01-03', '1M'), '2024-01');
+    assert.equal(toPeriodKey('2024-01-03', '1d'), '2024-01-03');
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * 백테스트 엔진
+ *
+ * - 일봉 종가로 신호를 계산하고 다음 거래일 시가에 체결 (미래 가격 참조 방지)
+ * - 같은 날 주문은 매도 → 매수 순으로 체결하며, 매수는 남은 현금 안에서 1주 단위로 체결
+ * - ma_crossover/rsi는 종목별로 자산의 1/N을 배분, rebalance는 주기 마지막 거래일 종가 기준으로 다음 시가에 목표 비중 재조정
+ * - 수수료는 매수/매도 금액에, 증권거래세는 매도 금액에 부과 (원 미만 절사)
+ */
+
+import {
+  BacktestEquityPoint,
+  BacktestMetrics,
+  BacktestStrategy,
+  BacktestTrade,
+  RebalanceInterval,
+} from '../entities/Backtest';
+import { ema, rsi, sma } from './indicators';
+import {
+  annualizeReturn,
+  maxDrawdown,
+  mean,
+  standardDeviation,
+  toDateKey,
+  toPeriodKey,
+  TRADING_DAYS_PER_YEAR,
+} from './performance-metrics';
+
+export interface BacktestBar {
+  date: Date;
+  open: number;
+  close: number;
+}
+
+export interface BacktestInput {
+  strategy: BacktestStrategy;
+  stocks: Array<{ id: string; code: string }>;
+  bars: Map<string, BacktestBar[]>; // Stock.id → 날짜 오름차순 (워밍업 구간 포함)
+  from: Date;
+  to: Date;
+  initialCash: number;
+  commissionRate: number;
+  taxRate: number;
+  riskFreeRate: number; // 연율 (Sharpe 계산용)
+}
+
+export interface BacktestOutput {
+  trades: BacktestTrade[];
+  equityCurve: BacktestEquityPoint[];
+  metrics: BacktestMetrics;
+}
+
+interface StockSeries {
+  code: string;
+  indexByDate: Map<string, number>;
+  bars: BacktestBar[];
+  fast: Array<number | null>; // ma_crossover 단기선 또는 rsi
+  slow: Array<number | null>; // ma_crossover 장기선
+}
+
+interface PendingOrder {
+  stockId: string;
+  side: 'buy' | 'sell';
+  reason: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 지표 계산에 필요한 시작일 이전 조회 기간 (달력일, 휴장일 여유 포함)
+ */
+export function warmupDays(strategy: BacktestStrategy): number {
+  switch (strategy.type) {
+    case 'ma_crossover':
+      return Math.ceil(strategy.slow * 1.6) + 14;
+    case 'rsi':
+      return Math.ceil(strategy.period * 1.6) + 14;
+    default:
+      return 0;
+  }
+}
+
+const rebalancePeriodKey = (dateKey: string, interval: RebalanceInterval): string => {
+  if (interval === '3M') {
+    const month = Number(dateKey.slice(5, 7));
+    return `${dateKey.slice(0, 4)}-Q${Math.ceil(month / 3)}`;
+  }
+  return toPeriodKey(dateKey, interval);
+};
+
+/**
+ * 백테스트 실행
+ */
+export function runBacktest(input: BacktestInput): BacktestOutput {
+  const { strategy, stocks, initialCash, commissionRate, taxRate } = input;
+  const fromKey = toDateKey(input.from);
+  const toKey = toDateKey(input.to);
+
+  // 1. 종목별 시계열 및 지표
+  const series = new Map<string, StockSeries>();
+  const dateKeys = new Set<string>();
+  for (const stock of stocks) {
+    const bars = input.bars.get(stock.id) || [];
+    const closes = bars.map((bar) => bar.close);
+    const keys = bars.map((bar) => toDateKey(bar.date));
+    keys.filter((key) => key >= fromKey && key <= toKey).forEach((key) => dateKeys.add(key));
+
+    let fast: Array<number | null> = [];
+    let slow: Array<number | null> = [];
+    if (strategy.type === 'ma_crossover') {
+      const average = strategy.maType === 'ema' ? ema : sma;
+      fast = average(closes, strategy.fast);
+      slow = average(closes, strategy.slow);
+    } else if (strategy.type === 'rsi') {
+      fast = rsi(closes, strategy.period);
+    }
+
+    series.set(stock.id, {
+      code: stock.code,
+      indexByDate: new Map(keys.map((key, i) => [key, i])),
+      bars,
+      fast,
+      slow,
+    });
+  }
+  const dates = [...dateKeys].sort();
+
+  // 2. 일별 시뮬레이션
+  let cash = initialCash;
+  const positions = new Map<string, { quantity: number; totalCost: number }>();
+  const lastClose = new Map<string, number>();
+  const trades: BacktestTrade[] = [];
+  const equityCurve: BacktestEquityPoint[] = [];
+  let pending: PendingOrder[] = [];
+  let pendingRebalance = false;
+  let peak = initialCash;
+
+  const quantityOf = (stockId: string) => positions.get(stockId)?.quantity ?? 0;
+
+  const execute = (date: string, stockId: string, side: 'buy' | 'sell', quantity: number, price: number, reason: string) => {
+    if (quantity <= 0) return;
+    const amount = quantity * price;
+    const commission = Math.floor(amount * commissionRate);
+    const tax = side === 'sell' ? Math.floor(amount * taxRate) : 0;
+    const position = positions.get(stockId) || { quantity: 0, totalCost: 0 };
+    let realizedProfit: number | null = null;
+
+    if (side === 'buy') {
+      cash -= amount + commission;
+      position.quantity += quantity;
+      position.totalCost += amount + commission;
+    } else {
+      const cost = (position.totalCost / position.quantity) * quantity;
+      cash += amount - commission - tax;
+      realizedProfit = amount - commission - tax - cost;
+      position.quantity -= quantity;
+      position.totalCost -= cost;
+    }
+
+    if (position.quantity > 0) {
+      positions.set(stockId, position);
+    } else {
+      positions.delete(stockId);
+    }
+    trades.push({
+      date,
+      stockId,
+      code: series.get(stockId)!.code,
+      side,
+      quantity,
+      price,
+      fee: commission + tax,
+      reason,
+      realizedProfit,
+    });
+  };
+
+  // 현금 안에서 살 수 있는 최대 수량 (수수료 포함)
+  const affordable = (budget: number, price: number) =>
+    price > 0 ? Math.max(0, Math.floor(Math.min(budget, cash) / (price * (1 + commissionRate)))) : 0;
+
+  for (let k = 0; k < dates.length; k++) {
+    const date = dates[k];
+    const barOf = (stockId: string) => {
+      const entry = series.get(stockId)!;
+      const index = entry.indexByDate.get(date);
+      return index === undefined ? null : entry.bars[index];
+    };
+
+    // 2-1. 전일 신호 체결 (당일 시가, 거래가 없는 종목은 다음 거래일로 이월)
+    const openPrice = (stockId: string) => barOf(stockId)?.open ?? lastClose.get(stockId) ?? 0;
+    const equityAtOpen =
+      cash + [...positions.entries()].reduce((sum, [stockId, p]) => sum + p.quantity * openPrice(stockId), 0);
+
+    if (pendingRebalance) {
+      const weights =
+        strategy.type === 'rebalance' && strategy.weights
+          ? strategy.weights
+          : Object.fromEntries(stocks.map((stock) => [stock.id, 100 / stocks.length]));
+      const orders = stocks
+        .map((stock) => {
+          const bar = barOf(stock.id);
+          if (!bar || bar.open <= 0) return null;
+          const target = Math.floor((equityAtOpen * (weights[stock.id] ?? 0)) / 100 / bar.open);
+          return { stockId: stock.id, price: bar.open, diff: target - quantityOf(stock.id) };
+        })
+        .filter((order): order is { stockId: string; price: number; diff: number } => order !== null);
+
+      orders
+        .filter((order) => order.diff < 0)
+        .forEach((order) => execute(date, order.stockId, 'sell', -order.diff, order.price, 'rebalance'));
+      orders
+        .filter((order) => order.diff > 0)
+        .forEach((order) =>
+          execute(date, order.stockId, 'buy', Math.min(order.diff, affordable(Infinity, order.price)), order.price, 'rebalance')
+        );
+      pendingRebalance = false;
+    }
+
+    const ready = pending.filter((order) => barOf(order.stockId) !== null);
+    for (const order of ready.filter((o) => o.side === 'sell')) {
+      execute(date, order.stockId, 'sell', quantityOf(order.stockId), barOf(order.stockId)!.open, order.reason);
+    }
+    for (const order of ready.filter((o) => o.side === 'buy')) {
+      const price = barOf(order.stockId)!.open;
+      execute(date, order.stockId, 'buy', affordable(equityAtOpen / stocks.length, price), price, order.reason);
+    }
+    pending = pending.filter((order) => barOf(order.stockId) === null);
+
+    // 2-2. 종가 평가
+    for (const stock of stocks) {
+      const bar = barOf(stock.id);
+      if (bar) lastClose.set(stock.id, bar.close);
+    }
+    const equity =
+      cash + [...positions.entries()].reduce((sum, [stockId, p]) => sum + p.quantity * (lastClose.get(stockId) ?? 0), 0);
+    peak = Math.max(peak, equity);
+    equityCurve.push({ date, equity, cash, drawdown: peak > 0 ? equity / peak - 1 : 0 });
+
+    // 2-3. 종가 기준 신호 (다음 거래일 시가 체결)
+    if (k === dates.length - 1) break;
+
+    if (strategy.type === 'rebalance') {
+      const nextPeriod = rebalancePeriodKey(dates[k + 1], strategy.interval);
+      pendingRebalance = k === 0 || rebalancePeriodKey(date, strategy.interval) !== nextPeriod;
+      continue;
+    }
+
+    for (const stock of stocks) {
+      const entry = series.get(stock.id)!;
+      const i = entry.indexByDate.get(date);
+      if (i === undefined || pending.some((order) => order.stockId === stock.id)) continue;
+      const held = quantityOf(stock.id) > 0;
+
+      if (strategy.type === 'ma_crossover') {
+        const [fast, slow, prevFast, prevSlow] = [entry.fast[i], entry.slow[i], entry.fast[i - 1], entry.slow[i - 1]];
+        if (fast == null || slow == null || prevFast == null || prevSlow == null) continue;
+        if (!held && prevFast <= prevSlow && fast > slow) {
+          pending.push({ stockId: stock.id, side: 'buy', reason: 'golden_cross' });
+        } else if (held && prevFast >= prevSlow && fast < slow) {
+          pending.push({ stockId: stock.id, side: 'sell', reason: 'dead_cross' });
+        }
+      } else {
+        const value = entry.fast[i];
+        if (value == null) continue;
+        if (!held && value < strategy.oversold) {
+          pending.push({ stockId: stock.id, side: 'buy', reason: 'rsi_oversold' });
+        } else if (held && value > strategy.overbought) {
+          pending.push({ stockId: stock.id, side: 'sell', reason: 'rsi_overbought' });
+        }
+      }
+    }
+  }
+
+  // 3. 성과 지표
+  const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : initialCash;
+  const totalReturn = initialCash > 0 ? finalEquity / initialCash - 1 : 0;
+  const returns = equityCurve
+    .slice(1)
+    .map((point, i) => (equityCurve[i].equity > 0 ? point.equity / equityCurve[i].equity - 1 : 0));
+  const dailyVolatility = standardDeviation(returns);
+  const days =
+    dates.length > 1
+      ? (new Date(`${dates[dates.length - 1]}T00:00:00Z`).getTime() - new Date(`${dates[0]}T00:00:00Z`).getTime()) / DAY_MS
+      : 0;
+  const drawdown = maxDrawdown(equityCurve.map((point) => ({ date: point.date, value: point.equity })));
+  const sells = trades.filter((trade) => trade.side === 'sell');
+
+  return {
+    trades,
+    equityCurve,
+    metrics: {
+      initialCash,
+      finalEquity,
+      totalReturn,
+      cagr: annualizeReturn(totalReturn, days),
+      volatility: dailyVolatility * Math.sqrt(TRADING_DAYS_PER_YEAR),
+      sharpeRatio:
+        dailyVolatility > 0
+          ? ((mean(returns) - input.riskFreeRate / TRADING_DAYS_PER_YEAR) / dailyVolatility) *
+            Math.sqrt(TRADING_DAYS_PER_YEAR)
+          : null,
+      maxDrawdown: drawdown.maxDrawdown,
+      maxDrawdownPeakDate: drawdown.peakDate,
+      maxDrawdownTroughDate: drawdown.troughDate,
+      tradeCount: trades.length,
+      winRate: sells.length > 0 ? sells.filter((trade) => trade.realizedProfit! > 0).length / sells.length : null,
+      totalFees: trades.reduce((sum, trade) => sum + trade.fee, 0),
+      tradingDays: dates.length,
+    },
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * 취득원가(Cost Basis) 계산 유틸리티
+ *
+ * 거래 원장을 재생하여 매도 건별 실현손익을 계산
+ * - fifo: 선입선출법 (먼저 매수한 로트부터 매도)
+ * - lifo: 후입선출법 (나중에 매수한 로트부터 매도)
+ * - average: 이동평균법 (국내 증권사 기본 방식, Portfolio.averagePrice와 동일)
+ */
+
+import { PortfolioTransaction } from '../entities/PortfolioTransaction';
+
+export const COST_BASIS_METHODS = ['fifo', 'lifo', 'average'] as const;
+
+export type CostBasisMethod = (typeof COST_BASIS_METHODS)[number];
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'average';
+
+/**
+ * 보유 로트 (매수 단위)
+ */
+export interface Lot {
+  quantity: number;
+  unitCost: number; // 수수료 포함 주당 취득원가
+  acquiredAt: Date;
+}
+
+/**
+ * 매도 건별 실현손익
+ */
+export interface RealizedSale {
+  transactionId: string;
+  stockId: string;
+  soldAt: Date;
+  quantity: number;
+  price: number;
+  proceeds: number; // 매도금액 - 수수료/세금
+  costBasis: number;
+  realizedProfit: number;
+  holdingDays: number; // 수량 가중 평균 보유 기간
+}
+
+export interface CostBasisResult {
+  sales: RealizedSale[];
+  openLots: Lot[];
+  dividendIncome: number; // 세후 배당금
+  fees: number; // 매수/매도/기타 수수료 합계
+}
+
+// 부동소수점 오차 허용 범위 (소수점 수량 지원)
+const QUANTITY_EPSILON = 1e-9;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 매도 수량만큼 로트를 소진하고 소진된 로트 목록 반환
+ */
+const consumeLots = (lots: Lot[], quantity: number, method: CostBasisMethod): Lot[] => {
+  const consumed: Lot[] = [];
+  let remaining = quantity;
+
+  while (remaining > QUANTITY_EPSILON && lots.length > 0) {
+    const index = method === 'lifo' ? lots.length - 1 : 0;
+    const lot = lots[index];
+    const take = Math.min(lot.quantity, remaining);
+
+    consumed.push({ quantity: take, unitCost: lot.unitCost, acquiredAt: lot.acquiredAt });
+    lot.quantity -= take;
+    remaining -= take;
+
+    if (lot.quantity <= QUANTITY_EPSILON) {
+      lots.splice(index, 1);
+    }
+  }
+
+  return consumed;
+};
+
+/**
+ * 이동평균법: 모든 로트를 하나의 평균 로트로 합산
+ * 보유 기간 계산을 위해 취득일은 수량 가중 평균으로 유지
+ */
+const poolLots = (lots: Lot[]): Lot[] => {
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (quantity <= QUANTITY_EPSILON) return [];
+
+  const cost = lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+  const acquiredAt = lots.reduce((sum, lot) => sum + lot.quantity * lot.acquiredAt.getTime(), 0) / quantity;
+
+  return [{ quantity, unitCost: cost / quantity, acquiredAt: new Date(acquiredAt) }];
+};
+
+/**
+ * 단일 종목 원장에 대한 실현손익 계산
+ */
+export function calculateCostBasis(
+  transactions: PortfolioTransaction[],
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD
+): CostBasisResult {
+  let lots: Lot[] = [];
+  const sales: RealizedSale[] = [];
+  let dividendIncome = 0;
+  let fees = 0;
+
+  for (const tx of PortfolioTransaction.sortLedger(transactions)) {
+    switch (tx.type) {
+      case 'buy':
+        fees += tx.fee;
+        lots.push({
+          quantity: tx.quantity,
+          unitCost: (tx.quantity * tx.price + tx.fee) / tx.quantity,
+          acquiredAt: tx.executedAt,
+        });
+        if (method === 'average') {
+          lots = poolLots(lots);
+        }
+        break;
+      case 'sell': {
+        fees += tx.fee;
+        const consumed = consumeLots(lots, tx.quantity, method);
+        const quantity = consumed.reduce((sum, lot) => sum + lot.quantity, 0);
+        const costBasis = consumed.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+        const heldMs = consumed.reduce(
+          (sum, lot) => sum + lot.quantity * (tx.executedAt.getTime() - lot.acquiredAt.getTime()),
+          0
+        );
+        const proceeds = tx.quantity * tx.price - tx.fee;
+
+        sales.push({
+          transactionId: tx.id,
+          stockId: tx.stockId,
+          soldAt: tx.executedAt,
+          quantity: tx.quantity,
+          price: tx.price,
+          proceeds,
+          costBasis,
+          realizedProfit: proceeds - costBasis,
+          holdingDays: quantity > 0 ? Math.round(heldMs / quantity / DAY_MS) : 0,
+        });
+        break;
+      }
+      case 'split':
+        for (const lot of lots) {
+          lot.quantity *= tx.quantity;
+          lot.unitCost /= tx.quantity;
+        }
+        break;
+      case 'fee': {
+        fees += tx.fee;
+        // 보유 중인 로트에 수량 비례로 배분
+        const held = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+        if (held > QUANTITY_EPSILON) {
+          for (const lot of lots) {
+            lot.unitCost += tx.fee / held;
+          }
+        }
+        break;
+      }
+      case 'dividend':
+        dividendIncome += tx.quantity * tx.price - tx.fee;
+        break;
+    }
+  }
+
+  return { sales, openLots: lots, dividendIncome, fees };
+}
@@ -0,0 +1,67 @@
+/**
+ * CSV 파싱 유틸리티
+ *
+ * - RFC 4180: 큰따옴표로 감싼 필드 안의 쉼표/줄바꿈/이스케이프("") 처리
+ * - 국내 증권사 내보내기 파일은 EUC-KR(CP949)인 경우가 많아 UTF-8 디코딩 실패 시 EUC-KR로 재시도
+ */
+
+/**
+ * 업로드 파일 디코딩 (BOM 제거)
+ */
+export function decodeCsvBuffer(buffer: Buffer): string {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    text = new TextDecoder('euc-kr').decode(buffer);
+  }
+  return text.replace(/^\uFEFF/, '');
+}
+
+/**
+ * CSV 텍스트 → 행 배열 (빈 행 제외)
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -0,0 +1,92 @@
+/**
+ * 통화 환산 유틸리티
+ *
+ * FxRate 이력(예: USDKRW)으로 임의 시점의 환산율을 조회
+ * - 같은 통화는 1, 저장된 쌍의 역방향은 역수
+ * - 조회 시점 이전 가장 최근 기준율 사용 (이력 시작 전이면 최초 기준율)
+ */
+
+import { Currency, FX_PAIRS, FxPair, FxRate, SUPPORTED_CURRENCIES } from '../entities/FxRate';
+import { BadRequestError, NotFoundError } from '../errors/AppError';
+
+export const DEFAULT_BASE_CURRENCY: Currency = 'KRW';
+
+/**
+ * from 통화 1단위를 to 통화로 환산하는 비율 (at 생략 시 최신 기준율)
+ */
+export type FxRateLookup = (from: Currency, to: Currency, at?: Date) => number;
+
+/**
+ * Stock.currency 문자열 → 지원 통화 (알 수 없는 값은 원화로 간주)
+ */
+export function toCurrency(value: string | null | undefined): Currency {
+  const upper = (value || '').toUpperCase();
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(upper) ? (upper as Currency) : DEFAULT_BASE_CURRENCY;
+}
+
+/**
+ * 금액 표시 문자열 (원화는 정수 + '원', 그 외는 소수 2자리 + 통화 코드)
+ */
+export function formatAmount(amount: number, currency: Currency): string {
+  return currency === 'KRW'
+    ? `${Math.round(amount).toLocaleString()}원`
+    : `${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${currency}`;
+}
+
+/**
+ * 통화 간 환산에 필요한 환율 쌍 (직접 쌍 또는 역방향 쌍)
+ */
+export function findFxPair(from: Currency, to: Currency): { pair: FxPair; inverse: boolean } {
+  for (const pair of FX_PAIRS) {
+    if (pair === `${from}${to}`) return { pair, inverse: false };
+    if (pair === `${to}${from}`) return { pair, inverse: true };
+  }
+  throw new BadRequestError(`Unsupported currency conversion: ${from} → ${to}`);
+}
+
+/**
+ * 기준율 이력의 시점 조회 (이진 탐색)
+ */
+const rateOn = (history: FxRate[], at?: Date): number => {
+  if (!at) return history[history.length - 1].rate;
+
+  const time = at.getTime();
+  let low = 0;
+  let high = history.length - 1;
+  let found = 0;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (history[mid].date.getTime() <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return history[found].rate;
+};
+
+/**
+ * 환율 이력으로 환산율 조회 함수 생성
+ *
+ * @param rates 환율 쌍별 날짜 오름차순 이력
+ */
+export function createFxRateLookup(rates: FxRate[]): FxRateLookup {
+  const histories = new Map<FxPair, FxRate[]>();
+  for (const rate of rates) {
+    histories.set(rate.pair, [...(histories.get(rate.pair) || []), rate]);
+  }
+
+  return (from, to, at) => {
+    if (from === to) return 1;
+
+    const { pair, inverse } = findFxPair(from, to);
+    const history = histories.get(pair);
+    if (!history || history.length === 0) {
+      throw new NotFoundError(`FX rate ${pair}`);
+    }
+
+    const rate = rateOn(history, at);
+    return inverse ? 1 / rate : rate;
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * 배당 일정 유틸리티
+ *
+ * - 배당 대상 수량: 배당락일 전 영업일 종료 시점 보유 수량 (배당락일 당일 매수분 제외)
+ * - 지급일 미정 배당은 배당락일 + DEFAULT_PAY_LAG_DAYS로 추정
+ * - 예상 배당: 확정 일정이 없으면 최근 1년 배당이 같은 시기/금액으로 반복된다고 가정
+ */
+
+import { Dividend } from '../entities/Dividend';
+import { PortfolioTransaction } from '../entities/PortfolioTransaction';
+import { toDateKey } from './performance-metrics';
+
+export interface DividendEvent {
+  dividendId: string | null; // 추정 배당은 null
+  stockId: string;
+  exDate: Date;
+  payDate: Date; // 미정이면 추정일
+  amountPerShare: number; // 종목 통화
+  currency: string;
+  quantity: number;
+  estimated: boolean; // 과거 배당 반복 추정 여부
+  payDateEstimated: boolean;
+}
+
+export interface IncomeCalendarMonth<T> {
+  month: string; // YYYY-MM (KST, 지급일 기준)
+  amount: number;
+  items: T[];
+}
+
+// 지급일 미정 시 배당락일 이후 지급까지 걸리는 기간 (분기/중간배당 기준 약 1개월)
+const DEFAULT_PAY_LAG_DAYS = 30;
+// 과거 배당을 1년 뒤로 옮겼을 때 이 기간 안에 확정 일정이 있으면 같은 회차로 간주
+const DUPLICATE_WINDOW_DAYS = 45;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addYears = (date: Date, years: number): Date => {
+  const next = new Date(date);
+  next.setUTCFullYear(next.getUTCFullYear() + years);
+  return next;
+};
+
+/**
+ * 지급일 (미정이면 추정)
+ */
+export function expectedPayDate(dividend: Dividend): { date: Date; estimated: boolean } {
+  return dividend.payDate
+    ? { date: dividend.payDate, estimated: false }
+    : { date: new Date(dividend.exDate.getTime() + DEFAULT_PAY_LAG_DAYS * DAY_MS), estimated: true };
+}
+
+/**
+ * 배당 일정에 해당하는 원장 배당 거래 (배당락일 ~ 지급일 + DUPLICATE_WINDOW_DAYS 사이 기록)
+ */
+export function findRecordedDividend(
+  ledger: PortfolioTransaction[],
+  dividend: Dividend
+): PortfolioTransaction | undefined {
+  const until = expectedPayDate(dividend).date.getTime() + DUPLICATE_WINDOW_DAYS * DAY_MS;
+  return ledger.find(
+    (t) =>
+      t.type === 'dividend' &&
+      t.stockId === dividend.stockId &&
+      t.executedAt >= dividend.exDate &&
+      t.executedAt.getTime() <= until
+  );
+}
+
+/**
+ * 배당 대상 수량 (배당락일 이전 체결분까지 반영)
+ */
+export function entitledQuantity(ledger: PortfolioTransaction[], exDate: Date): number {
+  return PortfolioTransaction.derivePosition(ledger.filter((t) => t.executedAt < exDate)).quantity;
+}
+
+/**
+ * 예상 배당 조회 구간: 이번 달 1일(KST)부터 months개월
+ */
+export function projectionWindow(now: Date, months: number): { from: Date; to: Date } {
+  const [year, month] = toDateKey(now).split('-').map(Number);
+  const monthStart = (offset: number) => {
+    const key = new Date(Date.UTC(year, month - 1 + offset, 1)).toISOString().slice(0, 10);
+    return new Date(`${key}T00:00:00+09:00`);
+  };
+  return { from: monthStart(0), to: monthStart(months) };
+}
+
+/**
+ * 기간 내 지급 예정 배당 (확정 일정 + 과거 배당 반복 추정)
+ *
+ * @param dividends 보유 종목의 배당 일정 (최소 from 1년 전부터)
+ * @param quantityAt 종목별 배당락일 기준 배당 대상 수량
+ * @param from 조회 시작 (지급일 기준, 포함)
+ * @param to 조회 종료 (지급일 기준, 미포함)
+ */
+export function projectDividends(
+  dividends: Dividend[],
+  quantityAt: (stockId: string, exDate: Date) => number,
+  from: Date,
+  to: Date
+): DividendEvent[] {
+  const events: DividendEvent[] = [];
+  const declaredByStock = new Map<string, Dividend[]>();
+  for (const dividend of dividends) {
+    declaredByStock.set(dividend.stockId, [...(declaredByStock.get(dividend.stockId) || []), dividend]);
+  }
+
+  const push = (dividend: Dividend, exDate: Date, payDate: Date, payDateEstimated: boolean, estimated: boolean) => {
+    if (payDate < from || payDate >= to) return;
+    const quantity = quantityAt(dividend.stockId, exDate);
+    if (quantity <= 0) return;
+
+    events.push({
+      dividendId: estimated ? null : dividend.id,
+      stockId: dividend.stockId,
+      exDate,
+      payDate,
+      amountPerShare: dividend.amount,
+      currency: dividend.currency,
+      quantity,
+      estimated,
+      payDateEstimated,
+    });
+  };
+
+  for (const dividend of dividends) {
+    const payDate = expectedPayDate(dividend);
+
+    // 1. 확정 일정 (배당락이 지났어도 지급 전이면 포함)
+    push(dividend, dividend.exDate, payDate.date, payDate.estimated, false);
+
+    // 2. 과거 배당 반복 추정 (같은 시기에 확정 일정이 있으면 생략)
+    const projectedExDate = addYears(dividend.exDate, 1);
+    const declared = declaredByStock.get(dividend.stockId) || [];
+    const isDeclared = declared.some(
+      (other) => Math.abs(other.exDate.getTime() - projectedExDate.getTime()) <= DUPLICATE_WINDOW_DAYS * DAY_MS
+    );
+    if (!isDeclared) {
+      push(dividend, projectedExDate, addYears(payDate.date, 1), payDate.estimated, true);
+    }
+  }
+
+  return events.sort((a, b) => a.payDate.getTime() - b.payDate.getTime());
+}
+
+/**
+ * 지급월별 배당 달력 (배당이 없는 달도 0으로 포함)
+ */
+export function buildIncomeCalendar<T extends { payDate: Date; amount: number }>(
+  items: T[],
+  from: Date,
+  months: number
+): IncomeCalendarMonth<T>[] {
+  const calendar: IncomeCalendarMonth<T>[] = [];
+  const [year, month] = toDateKey(from).split('-').map(Number);
+  for (let i = 0; i < months; i++) {
+    const date = new Date(Date.UTC(year, month - 1 + i, 1));
+    calendar.push({ month: date.toISOString().slice(0, 7), amount: 0, items: [] });
+  }
+
+  const byMonth = new Map(calendar.map((entry) => [entry.month, entry]));
+  for (const item of items) {
+    const entry = byMonth.get(toDateKey(item.payDate).slice(0, 7));
+    if (!entry) continue;
+    entry.items.push(item);
+    entry.amount += item.amount;
+  }
+
+  return calendar;
+}
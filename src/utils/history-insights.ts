@@ -0,0 +1,153 @@
+/**
+ * 조회 기록 분석 유틸리티
+ *
+ * - 주간 집계: KST 기준 월요일 시작 주
+ * - 조회 세션: 연속 조회 간격이 SESSION_GAP_MS 이하이면 같은 세션
+ * - 체류 시간: 같은 세션의 다음 조회까지 간격 (세션 마지막 조회는 알 수 없어 제외)
+ * - 관심 변화(drift): 조회가 있는 마지막 주 비중 - 첫 주 비중 (%p)
+ */
+
+import { toDateKey, toPeriodKey } from './performance-metrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+export const SESSION_GAP_MS = 30 * 60 * 1000;
+
+export interface ViewRecord {
+  stockId: string;
+  viewedAt: Date;
+}
+
+export interface ViewSession {
+  startedAt: Date;
+  endedAt: Date;
+  views: number;
+  stockIds: string[]; // 처음 조회한 순서, 중복 제거
+  dwellMs: Map<string, number>; // 종목별 체류 시간
+}
+
+export interface ShareDrift {
+  key: string;
+  total: number;
+  weekly: Array<{ weekStart: string; views: number; share: number }>; // share: 해당 주 조회 중 비중 %
+  drift: number; // %p
+}
+
+const round = (value: number): number => Number(value.toFixed(2));
+
+/**
+ * 조회 시각 → 주 시작일 (YYYY-MM-DD, KST 월요일)
+ */
+export function toWeekKey(date: Date): string {
+  return toPeriodKey(toDateKey(date), '1w');
+}
+
+/**
+ * 이번 주를 포함한 최근 weeks주의 주 시작일 (오래된 순)
+ */
+export function recentWeekKeys(now: Date, weeks: number): string[] {
+  const current = new Date(`${toWeekKey(now)}T00:00:00Z`).getTime();
+  return Array.from({ length: weeks }, (_, i) =>
+    new Date(current - (weeks - 1 - i) * 7 * DAY_MS).toISOString().slice(0, 10)
+  );
+}
+
+/**
+ * 주 시작일의 KST 자정 시각
+ */
+export function weekStartTime(weekKey: string): Date {
+  return new Date(new Date(`${weekKey}T00:00:00Z`).getTime() - KST_OFFSET_MS);
+}
+
+/**
+ * 주별 조회 수 집계
+ *
+ * @param keyOf 집계 키 (종목 ID, 섹터 등)
+ */
+export function countByWeek(
+  records: ViewRecord[],
+  keyOf: (record: ViewRecord) => string
+): Map<string, Map<string, number>> {
+  const weekly = new Map<string, Map<string, number>>();
+  for (const record of records) {
+    const week = toWeekKey(record.viewedAt);
+    const counts = weekly.get(week) ?? new Map<string, number>();
+    const key = keyOf(record);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+    weekly.set(week, counts);
+  }
+  return weekly;
+}
+
+/**
+ * 키별 주간 비중과 관심 변화 (변화 폭 큰 순)
+ */
+export function shareDrift(weekly: Map<string, Map<string, number>>, weekKeys: string[]): ShareDrift[] {
+  const keys = new Set<string>();
+  for (const counts of weekly.values()) {
+    for (const key of counts.keys()) keys.add(key);
+  }
+
+  const weekTotals = new Map(
+    weekKeys.map((week) => [week, [...(weekly.get(week)?.values() ?? [])].reduce((sum, n) => sum + n, 0)])
+  );
+  const activeWeeks = weekKeys.filter((week) => (weekTotals.get(week) ?? 0) > 0);
+
+  return [...keys]
+    .map((key) => {
+      const series = weekKeys.map((week) => {
+        const views = weekly.get(week)?.get(key) ?? 0;
+        const total = weekTotals.get(week) ?? 0;
+        return { weekStart: week, views, share: total > 0 ? round((views / total) * 100) : 0 };
+      });
+      const shareOf = (week: string) => series.find((point) => point.weekStart === week)!.share;
+      const drift =
+        activeWeeks.length >= 2 ? round(shareOf(activeWeeks[activeWeeks.length - 1]) - shareOf(activeWeeks[0])) : 0;
+
+      return {
+        key,
+        total: series.reduce((sum, point) => sum + point.views, 0),
+        weekly: series,
+        drift,
+      };
+    })
+    .sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift) || b.total - a.total);
+}
+
+/**
+ * 조회 세션 구성
+ *
+ * @param records 조회 시각 오름차순
+ */
+export function buildSessions(records: ViewRecord[], gapMs: number = SESSION_GAP_MS): ViewSession[] {
+  const sessions: ViewSession[] = [];
+  let current: ViewSession | null = null;
+  let previous: ViewRecord | null = null;
+
+  for (const record of records) {
+    const gap = previous ? record.viewedAt.getTime() - previous.viewedAt.getTime() : Infinity;
+
+    if (!current || gap > gapMs) {
+      current = {
+        startedAt: record.viewedAt,
+        endedAt: record.viewedAt,
+        views: 0,
+        stockIds: [],
+        dwellMs: new Map(),
+      };
+      sessions.push(current);
+    } else if (previous) {
+      current.dwellMs.set(previous.stockId, (current.dwellMs.get(previous.stockId) ?? 0) + gap);
+    }
+
+    current.endedAt = record.viewedAt;
+    current.views += 1;
+    if (!current.stockIds.includes(record.stockId)) {
+      current.stockIds.push(record.stockId);
+    }
+    previous = record;
+  }
+
+  return sessions;
+}
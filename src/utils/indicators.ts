@@ -0,0 +1,179 @@
+/**
+ * 기술적 지표 계산 유틸리티
+ *
+ * - 입력은 날짜 오름차순 시계열, 출력은 입력과 같은 길이 (계산 전 구간은 null)
+ * - SMA: 단순 이동평균
+ * - EMA: 지수 이동평균 (첫 값은 SMA로 시작, α = 2 / (n + 1))
+ * - RSI: Wilder 평활 (첫 평균은 n일 단순 평균)
+ * - MACD: EMA(fast) - EMA(slow), 시그널은 MACD의 EMA
+ * - 볼린저 밴드: SMA(n) ± k × 모표준편차
+ * - VWAP: 조회 구간 시작부터 누적 (전형가 (고가 + 저가 + 종가) / 3 기준)
+ */
+
+export type IndicatorSpec =
+  | { key: string; type: 'sma' | 'ema' | 'rsi'; period: number }
+  | { key: string; type: 'macd'; fast: number; slow: number; signal: number }
+  | { key: string; type: 'bollinger'; period: number; multiplier: number }
+  | { key: string; type: 'vwap' };
+
+export interface MacdPoint {
+  macd: number;
+  signal: number | null;
+  histogram: number | null;
+}
+
+export interface BollingerPoint {
+  middle: number;
+  upper: number;
+  lower: number;
+}
+
+export interface VwapBar {
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * 단순 이동평균
+ */
+export function sma(values: number[], period: number): Array<number | null> {
+  const result: Array<number | null> = [];
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    result.push(i >= period - 1 ? sum / period : null);
+  }
+  return result;
+}
+
+/**
+ * 지수 이동평균
+ */
+export function ema(values: number[], period: number): Array<number | null> {
+  const result: Array<number | null> = [];
+  const alpha = 2 / (period + 1);
+  let previous: number | null = null;
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (previous === null) {
+      sum += values[i];
+      if (i === period - 1) previous = sum / period;
+    } else {
+      previous = values[i] * alpha + previous * (1 - alpha);
+    }
+    result.push(previous);
+  }
+  return result;
+}
+
+/**
+ * 상대강도지수 (0 ~ 100)
+ */
+export function rsi(values: number[], period: number): Array<number | null> {
+  const result: Array<number | null> = values.length > 0 ? [null] : [];
+  let averageGain = 0;
+  let averageLoss = 0;
+
+  for (let i = 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+
+    if (i <= period) {
+      averageGain += gain / period;
+      averageLoss += loss / period;
+    } else {
+      averageGain = (averageGain * (period - 1) + gain) / period;
+      averageLoss = (averageLoss * (period - 1) + loss) / period;
+    }
+
+    if (i < period) {
+      result.push(null);
+    } else if (averageLoss === 0) {
+      result.push(averageGain === 0 ? 50 : 100);
+    } else {
+      result.push(100 - 100 / (1 + averageGain / averageLoss));
+    }
+  }
+  return result;
+}
+
+/**
+ * MACD (기본 12, 26, 9)
+ */
+export function macd(
+  values: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): Array<MacdPoint | null> {
+  const fast = ema(values, fastPeriod);
+  const slow = ema(values, slowPeriod);
+  const lines = values.map((_, i) => (fast[i] !== null && slow[i] !== null ? fast[i]! - slow[i]! : null));
+
+  // 시그널은 MACD 값이 생긴 시점부터 계산
+  const start = lines.findIndex((line) => line !== null);
+  const signals =
+    start === -1 ? [] : [...new Array<null>(start).fill(null), ...ema(lines.slice(start) as number[], signalPeriod)];
+
+  return lines.map((line, i) =>
+    line === null
+      ? null
+      : {
+          macd: line,
+          signal: signals[i],
+          histogram: signals[i] !== null ? line - signals[i]! : null,
+        }
+  );
+}
+
+/**
+ * 볼린저 밴드 (기본 20일, 2σ)
+ */
+export function bollinger(values: number[], period: number = 20, multiplier: number = 2): Array<BollingerPoint | null> {
+  const middles = sma(values, period);
+  return middles.map((middle, i) => {
+    if (middle === null) return null;
+    const recent = values.slice(i - period + 1, i + 1);
+    const deviation = Math.sqrt(recent.reduce((sum, value) => sum + (value - middle) ** 2, 0) / period);
+    return { middle, upper: middle + multiplier * deviation, lower: middle - multiplier * deviation };
+  });
+}
+
+/**
+ * 거래량 가중 평균가 (입력 구간 시작 기준 누적, 거래량이 쌓이기 전은 null)
+ */
+export function vwap(bars: VwapBar[]): Array<number | null> {
+  let priceVolume = 0;
+  let volume = 0;
+  return bars.map((bar) => {
+    priceVolume += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+    volume += bar.volume;
+    return volume > 0 ? priceVolume / volume : null;
+  });
+}
+
+/**
+ * 조회 구간 첫 값부터 수렴된 지표를 내기 위해 앞에 붙일 거래일 수
+ * - SMA/볼린저: 기간 - 1 (이후 값은 창 밖 데이터와 무관)
+ * - EMA/MACD: 기간의 4배, RSI(Wilder 평활은 감쇠가 느림): 기간의 7배 → 초기값 영향 0.1% 미만
+ * - VWAP: 조회 구간 기준 누적이므로 없음
+ */
+export function warmupBars(spec: IndicatorSpec): number {
+  switch (spec.type) {
+    case 'sma':
+    case 'bollinger':
+      return spec.period - 1;
+    case 'ema':
+      return spec.period * 4;
+    case 'macd':
+      return spec.slow * 4 + spec.signal * 4;
+    case 'rsi':
+      return spec.period * 7;
+    default:
+      return 0;
+  }
+}
@@ -1,33 +1,47 @@
 /**
- * JWT Utility Functions (STUB)
- * 
- * TODO: Implement full JWT authentication when development is complete
- * 
- * 현재는 스탠바이 상태로, 나중에 쉽게 교체할 수 있도록 구조만 준비
+ * JWT Utility Functions
+ *
+ * - Access token: 짧은 수명의 JWT (HS256), 요청마다 서명/만료와 세션 폐기 여부(캐시) 검증
+ * - Refresh token: `<sessionId>.<random>` 형식의 불투명 토큰, DB에는 SHA-256 해시만 저장
  */
 
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { logger } from '../config/logger';
 import { UnauthorizedError, AppError } from '../errors/AppError';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+const DEFAULT_SECRET = 'your-secret-key-change-in-production';
+const JWT_SECRET = process.env.JWT_SECRET || DEFAULT_SECRET;
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+
+export const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 14;
+// 요청마다 세션 폐기 여부를 DB에서 확인하지 않도록 캐시 (로그아웃/전체 폐기 시 즉시 삭제)
+export const SESSION_STATUS_CACHE_TTL_SECONDS = 60;
+
+if (JWT_SECRET === DEFAULT_SECRET) {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+  logger.warn('JWT_SECRET is not set, using the development default');
+}
 
 export interface JWTPayload {
   userId: string;
+  sessionId?: string;
   email?: string;
   role?: string;
 }
 
 /**
- * JWT 토큰 생성 (STUB)
- * 
+ * Access token 생성
+ *
  * @param payload - JWT 페이로드
  * @returns JWT 토큰 문자열
  */
 export function generateToken(payload: JWTPayload): string {
   try {
     return jwt.sign(payload, JWT_SECRET, {
+      algorithm: 'HS256',
       expiresIn: JWT_EXPIRES_IN,
     } as jwt.SignOptions);
   } catch (error) {
@@ -37,25 +51,38 @@ export function generateToken(payload: JWTPayload): string {
 }
 
 /**
- * JWT 토큰 검증 (STUB)
- * 
+ * Access token 만료까지 남은 시간 (초), 응답의 expiresIn 용도
+ */
+export function getTokenExpiresIn(token: string): number {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+  return decoded?.exp ? Math.max(0, decoded.exp - Math.floor(Date.now() / 1000)) : 0;
+}
+
+/**
+ * JWT 토큰 검증
+ *
  * @param token - JWT 토큰 문자열
  * @returns 검증된 페이로드
  * @throws UnauthorizedError 토큰이 유효하지 않거나 만료된 경우
  */
 export function verifyToken(token: string): JWTPayload {
+  let decoded: string | jwt.JwtPayload;
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
-    return decoded;
+    decoded = jwt.verify(token, JWT_SECRET, { algorithms: ['HS256'] });
   } catch (error) {
     logger.debug('JWT token verification failed:', error);
     throw new UnauthorizedError('Invalid or expired token');
   }
+
+  if (typeof decoded === 'string' || typeof decoded.userId !== 'string') {
+    throw new UnauthorizedError('Invalid or expired token');
+  }
+  return decoded as JWTPayload;
 }
 
 /**
  * Authorization 헤더에서 토큰 추출
- * 
+ *
  * @param authHeader - Authorization 헤더 값 (예: "Bearer <token>")
  * @returns 토큰 문자열 또는 null
  */
@@ -72,3 +99,40 @@ export function extractTokenFromHeader(authHeader: string | undefined): string |
   return parts[1];
 }
 
+/**
+ * Refresh token 비밀값 생성 (세션 ID와 합쳐서 발급)
+ */
+export function generateRefreshSecret(): string {
+  return crypto.randomBytes(48).toString('base64url');
+}
+
+export function formatRefreshToken(sessionId: string, secret: string): string {
+  return `${sessionId}.${secret}`;
+}
+
+/**
+ * Refresh token → 세션 ID / 비밀값
+ *
+ * @returns 형식이 올바르지 않으면 null
+ */
+export function parseRefreshToken(token: string): { sessionId: string; secret: string } | null {
+  const separator = token.indexOf('.');
+  if (separator <= 0 || separator === token.length - 1) {
+    return null;
+  }
+  return { sessionId: token.slice(0, separator), secret: token.slice(separator + 1) };
+}
+
+/**
+ * Access token의 세션 상태 캐시 키 (사용자 단위로 일괄 삭제할 수 있도록 userId 포함)
+ */
+export function sessionStatusCacheKey(userId: string, sessionId: string): string {
+  return `auth:session:${userId}:${sessionId}`;
+}
+
+/**
+ * 토큰 저장용 해시 (SHA-256, hex)
+ */
+export function hashToken(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
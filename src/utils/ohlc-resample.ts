@@ -0,0 +1,133 @@
+/**
+ * OHLC 리샘플링 유틸리티
+ *
+ * - 일봉 → 주봉(1w, 월요일 시작)/월봉(1M): 한국 시간 기준 날짜로 구간을 나눔
+ * - 체결 틱 → 분봉(1m/5m/15m/60m): KRX 정규장(09:00 ~ 15:30) 기준으로 구간을 나눔
+ *   - 09:00 시가 단일가 체결은 첫 봉, 15:30 종가 단일가 체결은 마지막 봉에 포함
+ *   - 시간외 체결(장 전/장 후)은 제외
+ * - 시가 = 구간 첫 값, 종가 = 구간 마지막 값, 고가/저가 = 구간 최대/최소, 거래량 = 합계
+ */
+
+import { toDateKey, toPeriodKey } from './performance-metrics';
+
+export const DAILY_RESAMPLE_INTERVALS = ['1w', '1M'] as const;
+export const INTRADAY_INTERVALS = ['1m', '5m', '15m', '60m'] as const;
+
+export type DailyResampleInterval = (typeof DAILY_RESAMPLE_INTERVALS)[number];
+export type IntradayInterval = (typeof INTRADAY_INTERVALS)[number];
+
+export interface OhlcCandle {
+  timestamp: Date; // 구간 시작 (주봉/월봉은 구간 첫 거래일)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface DailyBar {
+  date: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: bigint | number;
+}
+
+export interface Tick {
+  timestamp: Date;
+  price: number;
+  volume: bigint | number;
+}
+
+export const isDailyResampleInterval = (interval: string): interval is DailyResampleInterval =>
+  (DAILY_RESAMPLE_INTERVALS as readonly string[]).includes(interval);
+
+export const isIntradayInterval = (interval: string): interval is IntradayInterval =>
+  (INTRADAY_INTERVALS as readonly string[]).includes(interval);
+
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// KRX 정규장 (한국 시간, 자정 기준 분)
+export const KRX_SESSION_OPEN_MINUTE = 9 * 60;
+export const KRX_SESSION_CLOSE_MINUTE = 15 * 60 + 30;
+
+const INTRADAY_MINUTES: Record<IntradayInterval, number> = {
+  '1m': 1,
+  '5m': 5,
+  '15m': 15,
+  '60m': 60,
+};
+
+/**
+ * 일봉 → 주봉/월봉 (입력은 날짜 오름차순)
+ */
+export function resampleDaily(bars: DailyBar[], interval: DailyResampleInterval): OhlcCandle[] {
+  const candles: OhlcCandle[] = [];
+  let currentKey: string | null = null;
+
+  for (const bar of bars) {
+    const key = toPeriodKey(toDateKey(bar.date), interval);
+    const last = candles[candles.length - 1];
+    if (key !== currentKey || !last) {
+      candles.push({
+        timestamp: bar.date,
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close,
+        volume: Number(bar.volume),
+      });
+      currentKey = key;
+    } else {
+      last.high = Math.max(last.high, bar.high);
+      last.low = Math.min(last.low, bar.low);
+      last.close = bar.close;
+      last.volume += Number(bar.volume);
+    }
+  }
+
+  return candles;
+}
+
+/**
+ * 체결 틱 → 분봉 (입력은 시각 오름차순)
+ */
+export function aggregateTicks(ticks: Tick[], interval: IntradayInterval): OhlcCandle[] {
+  const minutes = INTRADAY_MINUTES[interval];
+  const candles: OhlcCandle[] = [];
+  let currentStart: number | null = null;
+
+  for (const tick of ticks) {
+    const kst = tick.timestamp.getTime() + KST_OFFSET_MS;
+    const dayStart = kst - (kst % (24 * 60 * MINUTE_MS));
+    const minuteOfDay = Math.floor((kst - dayStart) / MINUTE_MS);
+    if (minuteOfDay < KRX_SESSION_OPEN_MINUTE || minuteOfDay > KRX_SESSION_CLOSE_MINUTE) continue;
+
+    // 15:30 종가 단일가 체결은 직전 봉으로
+    const sessionMinute = Math.min(minuteOfDay, KRX_SESSION_CLOSE_MINUTE - 1) - KRX_SESSION_OPEN_MINUTE;
+    const start =
+      dayStart - KST_OFFSET_MS + (KRX_SESSION_OPEN_MINUTE + Math.floor(sessionMinute / minutes) * minutes) * MINUTE_MS;
+
+    const last = candles[candles.length - 1];
+    if (start !== currentStart || !last) {
+      candles.push({
+        timestamp: new Date(start),
+        open: tick.price,
+        high: tick.price,
+        low: tick.price,
+        close: tick.price,
+        volume: Number(tick.volume),
+      });
+      currentStart = start;
+    } else {
+      last.high = Math.max(last.high, tick.price);
+      last.low = Math.min(last.low, tick.price);
+      last.close = tick.price;
+      last.volume += Number(tick.volume);
+    }
+  }
+
+  return candles;
+}
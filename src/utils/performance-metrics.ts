@@ -0,0 +1,181 @@
+/**
+ * 성과 지표 계산 유틸리티
+ *
+ * - 시간가중수익률(TWR): 입출금 영향을 제거한 운용 성과
+ * - 금액가중수익률(MWR, XIRR): 입출금 시점과 규모를 반영한 투자자 체감 수익률
+ * - 최대낙폭(MDD): 고점 대비 최대 하락률
+ */
+
+export const PERFORMANCE_INTERVALS = ['1d', '1w', '1M'] as const;
+
+export type PerformanceInterval = (typeof PERFORMANCE_INTERVALS)[number];
+
+export interface CashFlow {
+  date: Date;
+  amount: number; // 투자자 관점: 납입(매수) 음수, 회수(매도/배당/평가액) 양수
+}
+
+export interface DrawdownResult {
+  maxDrawdown: number; // 0 ~ -1 (예: -0.25 = -25%)
+  peakDate: string | null;
+  troughDate: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/**
+ * 한국 시간 기준 날짜 키 (YYYY-MM-DD)
+ * StockPrice.date는 장 시작 시각으로 저장되므로 UTC 기준으로 자르면 날짜가 밀릴 수 있음
+ */
+export function toDateKey(date: Date): string {
+  return new Date(date.getTime() + KST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * 날짜 키를 집계 구간 키로 변환
+ * - 1d: 일자 그대로
+ * - 1w: 해당 주 월요일
+ * - 1M: YYYY-MM
+ */
+export function toPeriodKey(dateKey: string, interval: PerformanceInterval): string {
+  if (interval === '1M') {
+    return dateKey.slice(0, 7);
+  }
+  if (interval === '1w') {
+    const date = new Date(`${dateKey}T00:00:00Z`);
+    const offset = (date.getUTCDay() + 6) % 7; // 월요일 = 0
+    return new Date(date.getTime() - offset * DAY_MS).toISOString().slice(0, 10);
+  }
+  return dateKey;
+}
+
+/**
+ * 일별 수익률 (TWR 연결 단위)
+ * 당일 순유입 자본(flow)은 장 마감 시점 반영으로 보고 평가금액에서 차감
+ * 전일 평가금액이 없으면 당일 투입 자본 대비
+ */
+export function dailyReturn(previousValue: number, value: number, flow: number): number {
+  if (previousValue > 0) return (value - flow) / previousValue - 1;
+  if (flow > 0) return value / flow - 1;
+  return 0;
+}
+
+/**
+ * 기간 수익률 연환산
+ */
+export function annualizeReturn(totalReturn: number, days: number): number {
+  if (days <= 0 || totalReturn <= -1) return totalReturn;
+  return Math.pow(1 + totalReturn, 365 / days) - 1;
+}
+
+/**
+ * 최대낙폭 계산 (누적 지수 시계열 기준)
+ */
+export function maxDrawdown(series: Array<{ date: string; value: number }>): DrawdownResult {
+  let peak = -Infinity;
+  let peakDate: string | null = null;
+  const result: DrawdownResult = { maxDrawdown: 0, peakDate: null, troughDate: null };
+
+  for (const point of series) {
+    if (point.value > peak) {
+      peak = point.value;
+      peakDate = point.date;
+    }
+    const drawdown = peak > 0 ? point.value / peak - 1 : 0;
+    if (drawdown < result.maxDrawdown) {
+      result.maxDrawdown = drawdown;
+      result.peakDate = peakDate;
+      result.troughDate = point.date;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * XIRR (불규칙 현금흐름 내부수익률, 연환산)
+ * Newton-Raphson으로 풀고 수렴하지 않으면 이분법으로 재시도
+ *
+ * @returns 연환산 수익률 (예: 0.12 = 12%), 해가 없으면 null
+ */
+export function xirr(cashFlows: CashFlow[]): number | null {
+  const flows = cashFlows.filter((f) => f.amount !== 0);
+  if (!flows.some((f) => f.amount > 0) || !flows.some((f) => f.amount < 0)) {
+    return null;
+  }
+
+  const t0 = Math.min(...flows.map((f) => f.date.getTime()));
+  const years = flows.map((f) => (f.date.getTime() - t0) / (365 * DAY_MS));
+
+  const npv = (rate: number) =>
+    flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const dNpv = (rate: number) =>
+    flows.reduce((sum, f, i) => sum - (years[i] * f.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  // 1. Newton-Raphson
+  let rate = 0.1;
+  for (let i = 0; i < 100; i++) {
+    const value = npv(rate);
+    const derivative = dNpv(rate);
+    if (!isFinite(value) || !isFinite(derivative) || derivative === 0) break;
+
+    const next = rate - value / derivative;
+    if (next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // 2. 이분법 (-99.99% ~ 1000%)
+  let low = -0.9999;
+  let high = 10;
+  let lowValue = npv(low);
+  if (lowValue * npv(high) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid);
+    if (Math.abs(midValue) < 1e-7) return mid;
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * 연간 거래일 수 (변동성/추적오차 연환산 기준)
+ */
+export const TRADING_DAYS_PER_YEAR = 252;
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * 표본 공분산
+ */
+export function covariance(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+
+  const meanA = mean(a.slice(0, n));
+  const meanB = mean(b.slice(0, n));
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    sum += (a[i] - meanA) * (b[i] - meanB);
+  }
+  return sum / (n - 1);
+}
+
+/**
+ * 표본 표준편차
+ */
+export function standardDeviation(values: number[]): number {
+  return Math.sqrt(covariance(values, values));
+}
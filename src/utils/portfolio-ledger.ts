@@ -0,0 +1,57 @@
+/**
+ * 포트폴리오 원장 유틸리티
+ * 포트폴리오/모의투자 서비스가 공유하는 원장 → 포지션 동기화
+ */
+
+import { IPortfolioRepository } from '../repositories/IPortfolioRepository';
+import { IPortfolioTransactionRepository } from '../repositories/IPortfolioTransactionRepository';
+import { Portfolio } from '../entities/Portfolio';
+import { PortfolioTransaction } from '../entities/PortfolioTransaction';
+import { Stock } from '../entities/Stock';
+
+/**
+ * 원장 재생으로 Portfolio 행(파생 포지션) 동기화
+ * 반드시 트랜잭션 내 Repository로 호출해야 원장과 포지션이 원자적으로 갱신됨
+ */
+export const syncPositionFromLedger = async (
+  portfolioRepository: IPortfolioRepository,
+  transactionRepository: IPortfolioTransactionRepository,
+  userId: string,
+  accountId: string,
+  stock: Stock
+): Promise<Portfolio | null> => {
+  const ledger = await transactionRepository.findByAccountAndStock(userId, accountId, stock.id);
+  const position = PortfolioTransaction.derivePosition(ledger);
+  const existing = await portfolioRepository.findByAccountAndStock(userId, accountId, stock.id);
+
+  // 전량 매도된 포지션은 Portfolio 행 삭제 (원장은 유지)
+  if (position.quantity <= 0) {
+    if (existing) {
+      await portfolioRepository.delete(existing.id);
+    }
+    return null;
+  }
+
+  const derived = Portfolio.create({
+    id: existing?.id || '',
+    userId,
+    accountId,
+    stockId: stock.id,
+    quantity: position.quantity,
+    averagePrice: position.averagePrice,
+    currentPrice: stock.currentPrice,
+  });
+
+  if (!existing) {
+    return await portfolioRepository.create(derived);
+  }
+
+  return await portfolioRepository.update(existing.id, {
+    quantity: derived.quantity,
+    averagePrice: derived.averagePrice,
+    totalCost: derived.totalCost,
+    currentValue: derived.currentValue,
+    profit: derived.profit,
+    profitRate: derived.profitRate,
+  });
+};
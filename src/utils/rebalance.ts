@@ -0,0 +1,219 @@
+/**
+ * 리밸런싱 계획 유틸리티
+ *
+ * 현재 보유 종목과 목표 비중(종목별 또는 섹터별)을 비교하여 매수/매도 주문을 계산
+ * - 허용 편차(driftTolerance) 이내인 종목/섹터는 주문하지 않음
+ * - 주문 수량은 lotSize 단위로 내림 (목표 비중 0인 종목은 전량 매도)
+ * - 최소 주문 금액 미만 주문은 생략
+ * - 매도 대금 + 보유 현금 한도 안에서 부족 비중이 큰 종목부터 매수
+ */
+
+import { PortfolioTargetType } from '../entities/PortfolioTarget';
+
+export interface RebalanceHolding {
+  stockId: string;
+  code: string;
+  name: string;
+  sector: string;
+  quantity: number; // 목표에만 있고 보유하지 않은 종목은 0
+  price: number;
+}
+
+export interface RebalanceOptions {
+  cash: number;
+  minTradeAmount: number;
+  lotSize: number;
+  driftTolerance: number; // %p
+}
+
+export interface RebalanceOrder {
+  stockId: string;
+  code: string;
+  name: string;
+  sector: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  amount: number;
+}
+
+export interface RebalanceAllocation {
+  type: PortfolioTargetType;
+  key: string; // stock: Stock.id, sector: 섹터명
+  name: string;
+  currentValue: number;
+  currentWeight: number; // %
+  targetWeight: number; // %
+  projectedWeight: number; // 주문 체결 후 예상 비중 %
+  drift: number; // currentWeight - targetWeight (%p)
+  withinTolerance: boolean;
+}
+
+export interface RebalancePlan {
+  type: PortfolioTargetType;
+  totalValue: number; // 평가금액 + 현금
+  cash: {
+    before: number;
+    after: number;
+  };
+  orders: RebalanceOrder[];
+  allocations: RebalanceAllocation[];
+  warnings: string[];
+}
+
+// 섹터 미지정 종목 그룹명 (getAnalysis와 동일)
+const DEFAULT_SECTOR = '기타';
+
+const groupKeyOf = (holding: RebalanceHolding, type: PortfolioTargetType): string =>
+  type === 'stock' ? holding.stockId : holding.sector || DEFAULT_SECTOR;
+
+const roundToLot = (quantity: number, lotSize: number): number =>
+  Math.floor(quantity / lotSize + 1e-9) * lotSize;
+
+/**
+ * 리밸런싱 주문 계산
+ *
+ * @param holdings 보유 종목 + 목표에 포함된 미보유 종목
+ * @param type 목표 비중 기준 (stock | sector)
+ * @param targets 그룹 키 → 목표 비중 %
+ */
+export function planRebalance(
+  holdings: RebalanceHolding[],
+  type: PortfolioTargetType,
+  targets: Map<string, number>,
+  options: RebalanceOptions
+): RebalancePlan {
+  const warnings: string[] = [];
+  const valueOf = (holding: RebalanceHolding, quantity: number = holding.quantity) => quantity * holding.price;
+  const totalValue = holdings.reduce((sum, h) => sum + valueOf(h), 0) + options.cash;
+
+  const plan: RebalancePlan = {
+    type,
+    totalValue,
+    cash: { before: options.cash, after: options.cash },
+    orders: [],
+    allocations: [],
+    warnings,
+  };
+  if (totalValue <= 0) {
+    warnings.push('평가금액과 현금이 모두 0이어서 리밸런싱할 수 없습니다.');
+    return plan;
+  }
+
+  // 1. 그룹별 현재 비중과 허용 편차 판정
+  const groups = new Map<string, RebalanceHolding[]>();
+  for (const holding of holdings) {
+    const key = groupKeyOf(holding, type);
+    groups.set(key, [...(groups.get(key) || []), holding]);
+  }
+  for (const key of targets.keys()) {
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+  }
+
+  const desiredValues = new Map<string, number>();
+  for (const [key, members] of groups) {
+    const currentValue = members.reduce((sum, h) => sum + valueOf(h), 0);
+    const targetWeight = targets.get(key) ?? 0;
+    const currentWeight = (currentValue / totalValue) * 100;
+    const drift = currentWeight - targetWeight;
+    const withinTolerance = Math.abs(drift) <= options.driftTolerance;
+
+    plan.allocations.push({
+      type,
+      key,
+      name: type === 'stock' ? members[0]?.name ?? key : key,
+      currentValue,
+      currentWeight,
+      targetWeight,
+      projectedWeight: currentWeight,
+      drift,
+      withinTolerance,
+    });
+
+    if (withinTolerance) continue;
+    if (members.length === 0) {
+      warnings.push(`${key} 섹터에 보유 종목이 없어 매수할 종목을 정할 수 없습니다.`);
+      continue;
+    }
+
+    // 섹터 목표는 현재 평가금액 비율대로 구성 종목에 배분 (모두 0이면 균등 배분)
+    const targetValue = (targetWeight / 100) * totalValue;
+    for (const member of members) {
+      const share = currentValue > 0 ? valueOf(member) / currentValue : 1 / members.length;
+      desiredValues.set(member.stockId, targetValue * share);
+    }
+  }
+
+  // 2. 종목별 주문 수량 계산
+  const sells: RebalanceOrder[] = [];
+  const buys: Array<{ order: RebalanceOrder; shortfall: number }> = [];
+  for (const holding of holdings) {
+    const desired = desiredValues.get(holding.stockId);
+    if (desired === undefined || holding.price <= 0) continue;
+
+    const diff = desired - valueOf(holding);
+    const side = diff < 0 ? 'sell' : 'buy';
+    const quantity =
+      side === 'sell'
+        ? desired <= 0
+          ? holding.quantity // 목표 0: 단주 포함 전량 매도
+          : Math.min(holding.quantity, roundToLot(-diff / holding.price, options.lotSize))
+        : roundToLot(diff / holding.price, options.lotSize);
+    if (quantity <= 0) continue;
+
+    const order: RebalanceOrder = {
+      stockId: holding.stockId,
+      code: holding.code,
+      name: holding.name,
+      sector: holding.sector || DEFAULT_SECTOR,
+      side,
+      quantity,
+      price: holding.price,
+      amount: quantity * holding.price,
+    };
+    if (order.amount < options.minTradeAmount) continue;
+
+    if (side === 'sell') {
+      sells.push(order);
+    } else {
+      buys.push({ order, shortfall: diff });
+    }
+  }
+
+  // 3. 매도 대금 + 현금 한도 내에서 매수 (부족 금액이 큰 순)
+  let available = options.cash + sells.reduce((sum, order) => sum + order.amount, 0);
+  const fundedBuys: RebalanceOrder[] = [];
+  for (const { order } of buys.sort((a, b) => b.shortfall - a.shortfall)) {
+    const affordable = roundToLot(available / order.price, options.lotSize);
+    const quantity = Math.min(order.quantity, affordable);
+    if (quantity < order.quantity) {
+      warnings.push(`현금이 부족하여 ${order.name} 매수 수량을 ${order.quantity}주에서 ${quantity}주로 줄였습니다.`);
+    }
+
+    const amount = quantity * order.price;
+    if (quantity <= 0 || amount < options.minTradeAmount) continue;
+
+    fundedBuys.push({ ...order, quantity, amount });
+    available -= amount;
+  }
+
+  plan.orders = [...sells, ...fundedBuys];
+  plan.cash.after = available;
+
+  // 4. 주문 체결 후 예상 비중
+  const projectedQuantities = new Map(holdings.map((h) => [h.stockId, h.quantity]));
+  for (const order of plan.orders) {
+    const quantity = projectedQuantities.get(order.stockId) || 0;
+    projectedQuantities.set(order.stockId, order.side === 'buy' ? quantity + order.quantity : quantity - order.quantity);
+  }
+  for (const allocation of plan.allocations) {
+    const members = groups.get(allocation.key) || [];
+    const projectedValue = members.reduce((sum, h) => sum + valueOf(h, projectedQuantities.get(h.stockId) || 0), 0);
+    allocation.projectedWeight = (projectedValue / totalValue) * 100;
+  }
+  plan.allocations.sort((a, b) => b.targetWeight - a.targetWeight || b.currentWeight - a.currentWeight);
+
+  return plan;
+}
@@ -0,0 +1,89 @@
+/**
+ * 리스크 지표 계산 유틸리티
+ *
+ * - 변동성: 일간 수익률 표준편차 연환산
+ * - VaR/CVaR: 과거 수익률 분포 기반 역사적 시뮬레이션 (모수 가정 없음)
+ * - 상관행렬: 보유 종목 간 일간 수익률 피어슨 상관계수
+ * - 허핀달 지수(HHI): 비중 제곱합 (1/N ~ 1, 1에 가까울수록 집중)
+ */
+
+import { covariance, standardDeviation } from './performance-metrics';
+
+export interface TailRisk {
+  valueAtRisk: number; // 손실률 (양수, 예: 0.03 = 3% 손실)
+  conditionalValueAtRisk: number; // VaR를 초과하는 손실의 평균
+}
+
+/**
+ * 종가 시계열 → 일간 수익률 (날짜 키 기준)
+ * 직전 거래일 종가가 없는 첫 날은 제외
+ */
+export function toDailyReturns(closes: Array<{ date: string; close: number }>): Map<string, number> {
+  const returns = new Map<string, number>();
+  for (let i = 1; i < closes.length; i++) {
+    const previous = closes[i - 1].close;
+    if (previous > 0) {
+      returns.set(closes[i].date, closes[i].close / previous - 1);
+    }
+  }
+  return returns;
+}
+
+/**
+ * 역사적 VaR / CVaR
+ *
+ * @param returns 기간 수익률 표본
+ * @param confidence 신뢰수준 (예: 0.95)
+ * @returns 표본이 없으면 null
+ */
+export function historicalTailRisk(returns: number[], confidence: number): TailRisk | null {
+  if (returns.length === 0) return null;
+
+  const sorted = [...returns].sort((a, b) => a - b);
+  // 하위 (1 - confidence) 분위수에 해당하는 표본 개수 (최소 1개)
+  const tailSize = Math.max(1, Math.floor(sorted.length * (1 - confidence)));
+  const tail = sorted.slice(0, tailSize);
+  const cutoff = tail[tail.length - 1];
+
+  return {
+    valueAtRisk: Math.max(0, -cutoff),
+    conditionalValueAtRisk: Math.max(0, -(tail.reduce((sum, r) => sum + r, 0) / tail.length)),
+  };
+}
+
+/**
+ * 두 수익률 시계열의 상관계수 (공통 날짜 기준)
+ *
+ * @returns 공통 표본이 minObservations 미만이거나 분산이 0이면 null
+ */
+export function correlation(
+  a: Map<string, number>,
+  b: Map<string, number>,
+  minObservations: number = 2
+): number | null {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const [date, value] of a) {
+    const other = b.get(date);
+    if (other !== undefined) {
+      xs.push(value);
+      ys.push(other);
+    }
+  }
+  if (xs.length < Math.max(2, minObservations)) return null;
+
+  const stdX = standardDeviation(xs);
+  const stdY = standardDeviation(ys);
+  if (stdX === 0 || stdY === 0) return null;
+
+  return covariance(xs, ys) / (stdX * stdY);
+}
+
+/**
+ * 허핀달-허쉬만 지수 (비중 합이 1이 아니면 정규화)
+ */
+export function herfindahlIndex(weights: number[]): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return 0;
+  return weights.reduce((sum, w) => sum + Math.pow(w / total, 2), 0);
+}
@@ -0,0 +1,191 @@
+/**
+ * 스크리너 조건식 평가 유틸리티
+ *
+ * - Stock 필드: market, sector (문자열), currentPrice, marketCap, changeRate, volume (숫자)
+ * - 파생 지표 (일봉 기준, 데이터가 부족하면 null)
+ *   - high52wDistance: 현재가 / 52주 최고가 - 1 (0 이하)
+ *   - low52wDistance: 현재가 / 52주 최저가 - 1 (0 이상)
+ *   - return<N>d: N거래일 수익률
+ *   - avgVolume<N>d: 최근 N거래일 평균 거래량
+ *   - rsi<N>: 최근 종가 기준 RSI
+ * - 값이 null인 필드의 조건은 항상 false
+ */
+
+import {
+  SCREENER_STOCK_FIELDS,
+  ScreenerCondition,
+  ScreenerExpression,
+  ScreenerStockField,
+} from '../entities/SavedScreen';
+import { rsi, warmupBars } from './indicators';
+
+export type ScreenerValue = number | string | null;
+
+export type DerivedMetric =
+  | { key: string; type: 'high52wDistance' | 'low52wDistance' }
+  | { key: string; type: 'return' | 'avgVolume' | 'rsi'; period: number };
+
+export interface ScreenerBar {
+  date: Date;
+  high: number;
+  low: number;
+  close: number;
+  volume: bigint | number;
+}
+
+const STRING_FIELDS: readonly string[] = ['market', 'sector'];
+const MAX_DERIVED_PERIOD = 250;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const WEEKS_52_BARS = 250;
+
+export const isStockField = (field: string): field is ScreenerStockField =>
+  (SCREENER_STOCK_FIELDS as readonly string[]).includes(field);
+
+export const isStringField = (field: string): boolean => STRING_FIELDS.includes(field);
+
+/**
+ * 파생 지표 필드 파싱 (알 수 없는 필드는 null)
+ */
+export function parseDerivedMetric(field: string): DerivedMetric | null {
+  if (field === 'high52wDistance' || field === 'low52wDistance') {
+    return { key: field, type: field };
+  }
+
+  const match = field.match(/^(?:(return|avgVolume)(\d+)d|(rsi)(\d+))$/);
+  if (!match) return null;
+
+  const type = (match[1] || match[3]) as 'return' | 'avgVolume' | 'rsi';
+  const period = Number(match[2] || match[4]);
+  if (period < (type === 'rsi' ? 2 : 1) || period > MAX_DERIVED_PERIOD) return null;
+
+  return { key: field, type, period };
+}
+
+/**
+ * 조건식에서 사용된 필드 목록
+ */
+export function collectFields(expression: ScreenerExpression): string[] {
+  if ('all' in expression) return expression.all.flatMap(collectFields);
+  if ('any' in expression) return expression.any.flatMap(collectFields);
+  return [expression.field];
+}
+
+/**
+ * 파생 지표 계산에 필요한 일봉 수
+ */
+export function requiredBars(metrics: DerivedMetric[]): number {
+  return Math.max(
+    0,
+    ...metrics.map((metric) => {
+      switch (metric.type) {
+        case 'return':
+          return metric.period + 1;
+        case 'avgVolume':
+          return metric.period;
+        case 'rsi':
+          return metric.period + 1 + warmupBars({ key: metric.key, type: 'rsi', period: metric.period });
+        default:
+          return WEEKS_52_BARS;
+      }
+    })
+  );
+}
+
+/**
+ * 종목 1개의 파생 지표 계산 (bars는 날짜 오름차순)
+ */
+export function computeDerivedMetrics(
+  bars: ScreenerBar[],
+  currentPrice: number,
+  metrics: DerivedMetric[],
+  now: Date = new Date()
+): Record<string, number | null> {
+  const closes = bars.map((bar) => bar.close);
+  const last = closes.length - 1;
+  const price = currentPrice > 0 ? currentPrice : closes[last] ?? 0;
+  const yearBars = bars.filter((bar) => bar.date.getTime() >= now.getTime() - YEAR_MS);
+
+  const values: Record<string, number | null> = {};
+  for (const metric of metrics) {
+    switch (metric.type) {
+      case 'high52wDistance': {
+        const high = Math.max(...yearBars.map((bar) => bar.high));
+        values[metric.key] = yearBars.length > 0 && high > 0 && price > 0 ? price / high - 1 : null;
+        break;
+      }
+      case 'low52wDistance': {
+        const low = Math.min(...yearBars.map((bar) => bar.low));
+        values[metric.key] = yearBars.length > 0 && low > 0 && price > 0 ? price / low - 1 : null;
+        break;
+      }
+      case 'return': {
+        const base = closes[last - metric.period];
+        values[metric.key] = base !== undefined && base > 0 ? closes[last] / base - 1 : null;
+        break;
+      }
+      case 'avgVolume': {
+        const recent = bars.slice(-metric.period);
+        values[metric.key] =
+          recent.length === metric.period
+            ? recent.reduce((sum, bar) => sum + Number(bar.volume), 0) / metric.period
+            : null;
+        break;
+      }
+      case 'rsi':
+        values[metric.key] = closes.length > 0 ? rsi(closes, metric.period)[last] : null;
+        break;
+    }
+  }
+  return values;
+}
+
+const matchCondition = (condition: ScreenerCondition, value: ScreenerValue): boolean => {
+  if (value === null || value === undefined) return false;
+  const target = condition.value;
+
+  switch (condition.op) {
+    case 'eq':
+      return value === target;
+    case 'neq':
+      return value !== target;
+    case 'in':
+      return Array.isArray(target) && target.includes(value);
+  }
+
+  // 비교 연산은 숫자 필드만 (DTO에서 검증)
+  if (typeof value !== 'number') return false;
+  switch (condition.op) {
+    case 'gt':
+      return value > (target as number);
+    case 'gte':
+      return value >= (target as number);
+    case 'lt':
+      return value < (target as number);
+    case 'lte':
+      return value <= (target as number);
+    case 'between': {
+      const [min, max] = target as number[];
+      return value >= min && value <= max;
+    }
+  }
+  return false;
+};
+
+/**
+ * 조건식 평가
+ */
+export function evaluateExpression(expression: ScreenerExpression, values: Record<string, ScreenerValue>): boolean {
+  if ('all' in expression) return expression.all.every((child) => evaluateExpression(child, values));
+  if ('any' in expression) return expression.any.some((child) => evaluateExpression(child, values));
+  return matchCondition(expression, values[expression.field] ?? null);
+}
+
+/**
+ * Stock 필드 조건만으로 평가 (파생 지표 조건은 만족 가능한 것으로 간주)
+ * false면 파생 지표 값과 관계없이 조건식을 만족할 수 없음
+ */
+export function mayMatchExpression(expression: ScreenerExpression, values: Record<string, ScreenerValue>): boolean {
+  if ('all' in expression) return expression.all.every((child) => mayMatchExpression(child, values));
+  if ('any' in expression) return expression.any.some((child) => mayMatchExpression(child, values));
+  return !isStockField(expression.field) || matchCondition(expression, values[expression.field] ?? null);
+}
@@ -0,0 +1,62 @@
+/**
+ * 종목 식별자 조회 유틸리티
+ *
+ * API는 종목을 Stock.id(UUID) 또는 종목 코드로 받으므로 두 형식을 모두 처리
+ */
+
+import { IStockRepository } from '../repositories/IStockRepository';
+import { Stock } from '../entities/Stock';
+import { NotFoundError } from '../errors/AppError';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * UUID 형식 여부
+ */
+export const isUUID = (value: string): boolean => UUID_REGEX.test(value);
+
+/**
+ * stockId 또는 code로 Stock 조회
+ * UUID 형식이면 ID로 먼저 조회하고, 없으면 code로 조회
+ */
+export const findStockByIdOrCode = async (
+  stockRepository: IStockRepository,
+  identifier: string
+): Promise<{ id: string; stock: Stock } | null> => {
+  if (isUUID(identifier)) {
+    const stock = await stockRepository.findById(identifier);
+    if (stock) {
+      return { id: stock.id, stock };
+    }
+  }
+
+  const stock = await stockRepository.findByCode(identifier);
+  return stock ? { id: stock.id, stock } : null;
+};
+
+/**
+ * stockId 또는 code 목록으로 Stock 일괄 조회
+ * 요청 순서를 유지하며, 같은 종목을 ID와 code로 중복 지정하면 같은 Stock이 반복됨
+ *
+ * @throws NotFoundError 없는 종목이 있으면 해당 식별자 목록과 함께
+ */
+export const findStocksByIdOrCode = async (stockRepository: IStockRepository, identifiers: string[]): Promise<Stock[]> => {
+  if (identifiers.length === 0) return [];
+
+  const [byId, byCode] = await Promise.all([
+    stockRepository.findMany(identifiers.filter(isUUID)),
+    stockRepository.findByCodes(identifiers.filter((identifier) => !isUUID(identifier))),
+  ]);
+  const stockMap = new Map<string, Stock>();
+  for (const stock of [...byId, ...byCode]) {
+    stockMap.set(stock.id, stock);
+    stockMap.set(stock.code, stock);
+  }
+
+  const missing = identifiers.filter((identifier) => !stockMap.has(identifier));
+  if (missing.length > 0) {
+    throw new NotFoundError(`Stock (${missing.join(', ')})`);
+  }
+
+  return identifiers.map((identifier) => stockMap.get(identifier)!);
+};